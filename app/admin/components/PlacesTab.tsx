@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import type { CommunityPlace } from '@/app/community/types';
+import { COMMUNITY_PLACE_TYPE_LABELS, WINTER_ACCESS_LABELS } from '@/libs/communityPlaces';
+
+type PlaceStatus = CommunityPlace['status'];
+
+/**
+ * Admin tab for reviewing community places.
+ * Lists member suggestions awaiting review, with actions to approve or reject
+ * them, and lets admins take an approved place down again.
+ */
+export default function PlacesTab() {
+  const [statusFilter, setStatusFilter] = useState<PlaceStatus>('pending');
+  const [places, setPlaces] = useState<CommunityPlace[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchPlaces = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/community/places?status=${statusFilter}`);
+        if (!response.ok) throw new Error('Failed to fetch places');
+        const data = await response.json();
+        setPlaces(data.places || []);
+      } catch (error) {
+        console.error('Error fetching places:', error);
+        toast.error('Failed to load places');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPlaces();
+  }, [statusFilter]);
+
+  const handleReview = async (placeId: string, status: PlaceStatus) => {
+    try {
+      const response = await fetch(`/api/community/places/${placeId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+
+      if (!response.ok) throw new Error('Failed to update place');
+
+      toast.success(status === 'approved' ? 'Place approved' : 'Place rejected');
+      setPlaces((prev) => prev.filter((place) => place.id !== placeId));
+    } catch (error) {
+      console.error('Error updating place:', error);
+      toast.error('Failed to update place');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm overflow-hidden">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Meeting Places</h2>
+        <label className="text-sm text-gray-600 dark:text-gray-300">
+          <span className="mr-2">Show</span>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as PlaceStatus)}
+            className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-sm"
+          >
+            <option value="pending">Awaiting review</option>
+            <option value="approved">Approved</option>
+            <option value="rejected">Rejected</option>
+          </select>
+        </label>
+      </div>
+
+      {loading ? (
+        <div className="flex h-64 items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-500 dark:text-gray-400">
+            <thead className="bg-gray-50 dark:bg-gray-700/50 text-xs uppercase text-gray-700 dark:text-gray-300">
+              <tr>
+                <th className="px-6 py-3">Place</th>
+                <th className="px-6 py-3">Type</th>
+                <th className="px-6 py-3">Details</th>
+                <th className="px-6 py-3">Suggested</th>
+                <th className="px-6 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {places.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    No places to show.
+                  </td>
+                </tr>
+              ) : (
+                places.map((place) => (
+                  <tr key={place.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/30">
+                    <td className="px-6 py-4">
+                      <div className="font-medium text-gray-900 dark:text-white">{place.name}</div>
+                      <div className="text-xs">{place.address}</div>
+                      {place.lat === null && (
+                        <div className="text-xs text-amber-600">Address could not be located</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {COMMUNITY_PLACE_TYPE_LABELS[place.place_type]}
+                    </td>
+                    <td className="px-6 py-4 max-w-md text-sm text-gray-600 dark:text-gray-300">
+                      <div>{WINTER_ACCESS_LABELS[place.winter_access]}</div>
+                      {place.parking_notes && <div>Parking: {place.parking_notes}</div>}
+                      {place.description && <div>{place.description}</div>}
+                      {place.photo_urls.length > 0 && (
+                        <div className="space-x-2">
+                          {place.photo_urls.map((url, index) => (
+                            <a
+                              key={url}
+                              href={url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-600 hover:underline"
+                            >
+                              Photo {index + 1}
+                            </a>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {new Date(place.created_at).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4 text-right space-x-2 whitespace-nowrap">
+                      {place.status !== 'approved' && (
+                        <button
+                          onClick={() => handleReview(place.id, 'approved')}
+                          className="text-green-700 hover:text-green-900 dark:text-green-400 font-medium hover:underline"
+                        >
+                          Approve
+                        </button>
+                      )}
+                      {place.status !== 'rejected' && (
+                        <button
+                          onClick={() => handleReview(place.id, 'rejected')}
+                          className="text-red-600 hover:text-red-900 dark:hover:text-red-400 font-medium hover:underline"
+                        >
+                          Reject
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import Link from 'next/link';
+import { REVIEW_DISPUTE_STATUSES } from '@/libs/validations/reviews';
+
+type DisputeStatus = (typeof REVIEW_DISPUTE_STATUSES)[number];
+
+interface ReviewDispute {
+  id: string;
+  reason: string;
+  status: DisputeStatus;
+  created_at: string;
+  disputer: {
+    id: string;
+    first_name: string;
+    last_name: string;
+  } | null;
+  review: {
+    id: string;
+    rating: number;
+    comment: string;
+    status: 'active' | 'hidden' | 'deleted';
+    created_at: string;
+    reviewer: {
+      id: string;
+      first_name: string;
+      last_name: string;
+    } | null;
+  } | null;
+}
+
+/**
+ * Admin tab for review disputes.
+ * Lists reviews members have contested, with actions to keep the review or
+ * hide it from their profile and rating.
+ */
+export default function ReviewDisputesTab() {
+  const [statusFilter, setStatusFilter] = useState<DisputeStatus>('pending');
+  const [disputes, setDisputes] = useState<ReviewDispute[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchDisputes = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/reviews/disputes?status=${statusFilter}`);
+        if (!response.ok) throw new Error('Failed to fetch disputes');
+        const data = await response.json();
+        setDisputes(data.disputes || []);
+      } catch (error) {
+        console.error('Error fetching review disputes:', error);
+        toast.error('Failed to load review disputes');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDisputes();
+  }, [statusFilter]);
+
+  const handleResolve = async (reviewId: string, decision: Exclude<DisputeStatus, 'pending'>) => {
+    try {
+      const response = await fetch(`/api/reviews/${reviewId}/dispute`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision }),
+      });
+
+      if (!response.ok) throw new Error('Failed to resolve dispute');
+
+      toast.success(decision === 'kept' ? 'Review kept' : 'Review hidden');
+      setDisputes((prev) => prev.filter((dispute) => dispute.review?.id !== reviewId));
+    } catch (error) {
+      console.error('Error resolving review dispute:', error);
+      toast.error('Failed to resolve dispute');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm overflow-hidden">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Review Disputes</h2>
+        <label className="text-sm text-gray-600 dark:text-gray-300">
+          <span className="mr-2">Show</span>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as DisputeStatus)}
+            className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-sm"
+          >
+            <option value="pending">Awaiting decision</option>
+            <option value="kept">Kept</option>
+            <option value="hidden">Hidden</option>
+          </select>
+        </label>
+      </div>
+
+      {loading ? (
+        <div className="flex h-64 items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-500 dark:text-gray-400">
+            <thead className="bg-gray-50 dark:bg-gray-700/50 text-xs uppercase text-gray-700 dark:text-gray-300">
+              <tr>
+                <th className="px-6 py-3">Disputed</th>
+                <th className="px-6 py-3">Review</th>
+                <th className="px-6 py-3">Disputed By</th>
+                <th className="px-6 py-3">Reason</th>
+                <th className="px-6 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {disputes.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    No disputes to show.
+                  </td>
+                </tr>
+              ) : (
+                disputes.map((dispute) => {
+                  const reviewId = dispute.review?.id;
+                  return (
+                    <tr key={dispute.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/30">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {new Date(dispute.created_at).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 max-w-md text-sm text-gray-600 dark:text-gray-300">
+                        <div className="text-yellow-500">
+                          {'★'.repeat(dispute.review?.rating ?? 0)}
+                        </div>
+                        <div>{dispute.review?.comment}</div>
+                        <div className="text-xs">
+                          by{' '}
+                          <Link
+                            href={`/profile/${dispute.review?.reviewer?.id}`}
+                            className="hover:underline text-blue-600"
+                          >
+                            {dispute.review?.reviewer?.first_name}{' '}
+                            {dispute.review?.reviewer?.last_name}
+                          </Link>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Link
+                          href={`/profile/${dispute.disputer?.id}`}
+                          className="hover:underline font-medium text-blue-600"
+                        >
+                          {dispute.disputer?.first_name} {dispute.disputer?.last_name}
+                        </Link>
+                      </td>
+                      <td className="px-6 py-4 max-w-xl wrap-break-word text-sm text-gray-600 dark:text-gray-300">
+                        {dispute.reason}
+                      </td>
+                      <td className="px-6 py-4 text-right space-x-2 whitespace-nowrap">
+                        {dispute.status === 'pending' && reviewId && (
+                          <>
+                            <button
+                              onClick={() => handleResolve(reviewId, 'kept')}
+                              className="text-gray-600 hover:text-gray-900 dark:hover:text-white font-medium hover:underline"
+                            >
+                              Keep
+                            </button>
+                            <button
+                              onClick={() => handleResolve(reviewId, 'hidden')}
+                              className="text-red-600 hover:text-red-900 dark:hover:text-red-400 font-medium hover:underline"
+                            >
+                              Hide Review
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
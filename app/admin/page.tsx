@@ -2,9 +2,11 @@ import { redirect } from 'next/navigation';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase/server';
 import ReportsTab from '@/app/admin/components/ReportsTab';
+import ReviewDisputesTab from '@/app/admin/components/ReviewDisputesTab';
 import UsersTab from '@/app/admin/components/UsersTab';
+import PlacesTab from '@/app/admin/components/PlacesTab';
 
-type Tab = 'reports' | 'users';
+type Tab = 'reports' | 'disputes' | 'users' | 'places';
 
 interface AdminPageProps {
   searchParams: Promise<{ view?: string }>;
@@ -12,7 +14,8 @@ interface AdminPageProps {
 
 /**
  * The main admin dashboard page.
- * Restricts access to admins only and provides tabs for managing reports and users.
+ * Restricts access to admins only and provides tabs for managing reports, review disputes,
+ * users and meeting places.
  */
 export default async function AdminPage({ searchParams }: Readonly<AdminPageProps>) {
   const supabase = await createClient();
@@ -60,7 +63,9 @@ export default async function AdminPage({ searchParams }: Readonly<AdminPageProp
           <div className="grid grid-cols-1 sm:flex sm:space-x-1 bg-white/60 dark:bg-slate-900/60 rounded-xl p-2 sm:p-1 shadow-md border border-white/20 dark:border-slate-700/30 gap-2 sm:gap-0 backdrop-blur-md">
             {[
               { id: 'reports', label: 'Reports', icon: '⚠️' },
+              { id: 'disputes', label: 'Review Disputes', icon: '⚖️' },
               { id: 'users', label: 'Users Management', icon: '👥' },
+              { id: 'places', label: 'Places', icon: '📍' },
             ].map((tab) => (
               <Link
                 key={tab.id}
@@ -80,7 +85,10 @@ export default async function AdminPage({ searchParams }: Readonly<AdminPageProp
 
         {/* Tab Content */}
         <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
-          {activeTab === 'reports' ? <ReportsTab profile={profile} /> : <UsersTab />}
+          {activeTab === 'reports' && <ReportsTab profile={profile} />}
+          {activeTab === 'disputes' && <ReviewDisputesTab />}
+          {activeTab === 'users' && <UsersTab />}
+          {activeTab === 'places' && <PlacesTab />}
         </div>
       </div>
     </div>
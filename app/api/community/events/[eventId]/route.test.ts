@@ -0,0 +1,132 @@
+import type { NextRequest } from 'next/server';
+import { GET, PATCH } from './route';
+import { getAuthenticatedUser } from '@/lib/supabase/auth';
+
+jest.mock('@/lib/supabase/auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+  createUnauthorizedResponse: jest.fn(),
+}));
+
+// Chainable stand-in for a Supabase query that resolves to `result` when awaited
+function queryBuilder(result: { data: unknown; error: unknown }) {
+  const builder: Record<string, jest.Mock> & { then?: unknown } = {};
+  for (const method of ['select', 'order', 'eq', 'update', 'maybeSingle', 'single']) {
+    builder[method] = jest.fn(() => builder);
+  }
+  // eslint-disable-next-line no-unused-vars
+  builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+describe('/api/community/events/[eventId]', () => {
+  const user = { id: 'user-1' };
+  const params = Promise.resolve({ eventId: 'event-1' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET', () => {
+    const request = {} as NextRequest;
+
+    it('returns the event with its attendees and linked carpools', async () => {
+      const event = queryBuilder({
+        data: { id: 'event-1', title: 'Kirkwood Ski Day', organizer_id: 'user-2' },
+        error: null,
+      });
+      const participants = queryBuilder({
+        data: [{ user: { id: 'user-1', first_name: 'Ana' } }, { user: { id: 'user-3' } }],
+        error: null,
+      });
+      const rides = queryBuilder({
+        data: [{ id: 'ride-1', end_location: 'Kirkwood' }],
+        error: null,
+      });
+      const tables: Record<string, unknown> = {
+        community_events: event,
+        community_event_participants: participants,
+        rides,
+      };
+      const supabase = { from: jest.fn((table: string) => tables[table]) };
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await GET(request, { params });
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(rides.eq).toHaveBeenCalledWith('event_id', 'event-1');
+      expect(rides.eq).toHaveBeenCalledWith('status', 'active');
+      expect(body.event.carpools).toEqual([{ id: 'ride-1', end_location: 'Kirkwood' }]);
+      expect(body.event.participants).toEqual([
+        { id: 'user-1', first_name: 'Ana' },
+        { id: 'user-3' },
+      ]);
+      expect(body.event.is_attending).toBe(true);
+    });
+
+    it('returns 404 for a missing event', async () => {
+      const supabase = { from: jest.fn(() => queryBuilder({ data: null, error: null })) };
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await GET(request, { params });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PATCH', () => {
+    const makeRequest = (body: unknown) =>
+      ({ json: jest.fn().mockResolvedValue(body) }) as unknown as NextRequest;
+
+    const buildSupabase = (existingEvent: unknown) => {
+      const existing = queryBuilder({ data: existingEvent, error: null });
+      const updated = queryBuilder({ data: { id: 'event-1' }, error: null });
+      const supabase = {
+        from: jest.fn().mockReturnValueOnce(existing).mockReturnValueOnce(updated),
+      };
+      return { supabase, updated };
+    };
+
+    it('lets the organizer cancel the event', async () => {
+      const { supabase, updated } = buildSupabase({
+        id: 'event-1',
+        organizer_id: 'user-1',
+        current_participants: 4,
+      });
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await PATCH(makeRequest({ status: 'cancelled' }), { params });
+
+      expect(response.status).toBe(200);
+      expect(updated.update).toHaveBeenCalledWith({ status: 'cancelled' });
+    });
+
+    it('forbids edits by anyone but the organizer', async () => {
+      const { supabase, updated } = buildSupabase({
+        id: 'event-1',
+        organizer_id: 'user-2',
+        current_participants: 0,
+      });
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await PATCH(makeRequest({ title: 'My event now' }), { params });
+
+      expect(response.status).toBe(403);
+      expect(updated.update).not.toHaveBeenCalled();
+    });
+
+    it('keeps the participant limit at or above the attendee count', async () => {
+      const { supabase, updated } = buildSupabase({
+        id: 'event-1',
+        organizer_id: 'user-1',
+        current_participants: 8,
+      });
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await PATCH(makeRequest({ max_participants: 5 }), { params });
+
+      expect(response.status).toBe(400);
+      expect(updated.update).not.toHaveBeenCalled();
+    });
+  });
+});
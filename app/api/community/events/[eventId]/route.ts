@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createUnauthorizedResponse, getAuthenticatedUser } from '@/lib/supabase/auth';
+import { COMMUNITY_EVENT_SELECT } from '@/lib/supabase/events';
+import { updateCommunityEventSchema } from '@/libs/validations/events';
+import type { CommunityEvent, EventCarpool, EventMember } from '@/app/community/types';
+
+/**
+ * Retrieves a single community event with its attendees, the active rides
+ * linked to it, and whether the user is attending.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params;
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const { data, error } = await supabase
+      .from('community_events')
+      .select(COMMUNITY_EVENT_SELECT)
+      .eq('id', eventId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching event:', error);
+      return NextResponse.json({ error: 'Failed to fetch event' }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    const [participantsResult, carpoolsResult] = await Promise.all([
+      supabase
+        .from('community_event_participants')
+        .select(
+          'user:profiles!community_event_participants_user_id_fkey(id, first_name, last_name, profile_photo_url)'
+        )
+        .eq('event_id', eventId)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('rides')
+        .select(
+          'id, poster_id, posting_type, title, start_location, end_location, departure_date, departure_time, available_seats, trip_direction'
+        )
+        .eq('event_id', eventId)
+        .eq('status', 'active')
+        .order('departure_date', { ascending: true })
+        .order('departure_time', { ascending: true }),
+    ]);
+
+    if (participantsResult.error) {
+      console.error('Error fetching event participants:', participantsResult.error);
+    }
+    if (carpoolsResult.error) {
+      console.error('Error fetching event carpools:', carpoolsResult.error);
+    }
+
+    const participants = ((participantsResult.data ?? []) as unknown as { user: EventMember }[])
+      .map((row) => row.user)
+      .filter(Boolean);
+
+    const event: CommunityEvent = {
+      ...(data as CommunityEvent),
+      participants,
+      carpools: (carpoolsResult.data ?? []) as EventCarpool[],
+      is_attending: participants.some((participant) => participant.id === user.id),
+    };
+
+    return NextResponse.json({ event });
+  } catch (error) {
+    console.error('Error in event GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Lets the organizer edit or cancel an event. The participant limit cannot go
+ * below the number of people already attending.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params;
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const body = await request.json();
+    const validationResult = updateCommunityEventSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: z.treeifyError(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    const { data: existingEvent, error: fetchError } = await supabase
+      .from('community_events')
+      .select('id, organizer_id, current_participants')
+      .eq('id', eventId)
+      .maybeSingle();
+
+    if (fetchError || !existingEvent) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    if (existingEvent.organizer_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const update = validationResult.data;
+
+    if (
+      update.max_participants !== undefined &&
+      update.max_participants < existingEvent.current_participants
+    ) {
+      return NextResponse.json(
+        {
+          error: `${existingEvent.current_participants} people are already attending; the limit can't be lower`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: event, error } = await supabase
+      .from('community_events')
+      .update(update)
+      .eq('id', eventId)
+      .select(COMMUNITY_EVENT_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error updating event:', error);
+      return NextResponse.json({ error: 'Failed to update event' }, { status: 500 });
+    }
+
+    return NextResponse.json({ event });
+  } catch (error) {
+    console.error('Error in event PATCH API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import type { NextRequest } from 'next/server';
+import { DELETE, POST } from './route';
+import { ensureProfileComplete, getAuthenticatedUser } from '@/lib/supabase/auth';
+
+jest.mock('@/lib/supabase/auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+  createUnauthorizedResponse: jest.fn(),
+  ensureProfileComplete: jest.fn(),
+}));
+
+describe('/api/community/events/[eventId]/rsvp', () => {
+  const user = { id: 'user-1' };
+  const request = {} as NextRequest;
+  const params = Promise.resolve({ eventId: 'event-1' });
+
+  const mockRpc = (result: Record<string, unknown>) => {
+    const rpc = jest.fn().mockResolvedValue({ data: result, error: null });
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user,
+      authError: null,
+      supabase: { rpc },
+    });
+    return rpc;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (ensureProfileComplete as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('RSVPs the user through the capacity-checking RPC', async () => {
+    const rpc = mockRpc({ outcome: 'ok', current_participants: 5 });
+
+    const response = await POST(request, { params });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(rpc).toHaveBeenCalledWith('set_event_rsvp', {
+      p_event_id: 'event-1',
+      p_attending: true,
+    });
+    expect(body).toEqual({ is_attending: true, current_participants: 5 });
+  });
+
+  it('returns 409 when the event is full', async () => {
+    mockRpc({ outcome: 'full' });
+
+    const response = await POST(request, { params });
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.outcome).toBe('full');
+  });
+
+  it('returns 400 when the event is closed', async () => {
+    mockRpc({ outcome: 'closed' });
+
+    const response = await POST(request, { params });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('withdraws an RSVP without requiring a complete profile', async () => {
+    const rpc = mockRpc({ outcome: 'ok', current_participants: 4 });
+
+    const response = await DELETE(request, { params });
+
+    expect(response.status).toBe(200);
+    expect(ensureProfileComplete).not.toHaveBeenCalled();
+    expect(rpc).toHaveBeenCalledWith('set_event_rsvp', {
+      p_event_id: 'event-1',
+      p_attending: false,
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createUnauthorizedResponse,
+  ensureProfileComplete,
+  getAuthenticatedUser,
+} from '@/lib/supabase/auth';
+import { createEventRsvpErrorResponse, setEventRsvp } from '@/lib/supabase/events';
+
+/**
+ * RSVPs the user to an event, as long as it still has spots left.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  return handleRsvp(request, params, true);
+}
+
+/**
+ * Withdraws the user's RSVP, freeing their spot.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  return handleRsvp(request, params, false);
+}
+
+async function handleRsvp(
+  request: NextRequest,
+  params: Promise<{ eventId: string }>,
+  attending: boolean
+) {
+  try {
+    const { eventId } = await params;
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    if (attending) {
+      const profileError = await ensureProfileComplete(supabase, user.id, 'joining events');
+      if (profileError) return profileError;
+    }
+
+    const { outcome, currentParticipants } = await setEventRsvp({ supabase, eventId, attending });
+
+    const rsvpError = createEventRsvpErrorResponse(outcome);
+    if (rsvpError) return rsvpError;
+
+    return NextResponse.json({
+      is_attending: attending,
+      current_participants: currentParticipants,
+    });
+  } catch (error) {
+    console.error('Error in event RSVP API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,124 @@
+import type { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+import { ensureProfileComplete, getAuthenticatedUser } from '@/lib/supabase/auth';
+
+jest.mock('@/lib/supabase/auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+  createUnauthorizedResponse: jest.fn(),
+  ensureProfileComplete: jest.fn(),
+}));
+
+// Chainable stand-in for a Supabase query that resolves to `result` when awaited
+function queryBuilder(result: { data: unknown; error: unknown }) {
+  const builder: Record<string, jest.Mock> & { then?: unknown } = {};
+  for (const method of ['select', 'order', 'eq', 'in', 'gte', 'range', 'insert', 'single']) {
+    builder[method] = jest.fn(() => builder);
+  }
+  // eslint-disable-next-line no-unused-vars
+  builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+describe('/api/community/events', () => {
+  const user = { id: 'user-1' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (ensureProfileComplete as jest.Mock).mockResolvedValue(null);
+  });
+
+  describe('GET', () => {
+    const makeRequest = (query = '') =>
+      ({ url: `http://localhost/api/community/events${query}` }) as unknown as NextRequest;
+
+    it('lists upcoming active events with whether the user is going', async () => {
+      const events = queryBuilder({
+        data: [
+          { id: 'event-1', title: 'Kirkwood Ski Day' },
+          { id: 'event-2', title: 'Tallac Hike' },
+        ],
+        error: null,
+      });
+      const participants = queryBuilder({ data: [{ event_id: 'event-2' }], error: null });
+      const supabase = {
+        from: jest.fn((table: string) =>
+          table === 'community_event_participants' ? participants : events
+        ),
+      };
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await GET(makeRequest('?event_type=ski_day'));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(events.eq).toHaveBeenCalledWith('status', 'active');
+      expect(events.eq).toHaveBeenCalledWith('event_type', 'ski_day');
+      expect(participants.eq).toHaveBeenCalledWith('user_id', 'user-1');
+      expect(participants.in).toHaveBeenCalledWith('event_id', ['event-1', 'event-2']);
+      expect(body.events.map((event: { is_attending: boolean }) => event.is_attending)).toEqual([
+        false,
+        true,
+      ]);
+    });
+
+    it('rejects an unknown event type', async () => {
+      const supabase = { from: jest.fn() };
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await GET(makeRequest('?event_type=rave'));
+
+      expect(response.status).toBe(400);
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST', () => {
+    const makeRequest = (body: unknown) =>
+      ({ json: jest.fn().mockResolvedValue(body) }) as unknown as NextRequest;
+
+    const newEvent = {
+      title: 'Kirkwood Ski Day',
+      event_type: 'ski_day',
+      event_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      location: 'Kirkwood Mountain Resort',
+      max_participants: 12,
+    };
+
+    it('creates an event organized by the user', async () => {
+      const events = queryBuilder({ data: { id: 'event-1', ...newEvent }, error: null });
+      const supabase = { from: jest.fn(() => events) };
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await POST(makeRequest(newEvent));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(events.insert).toHaveBeenCalledWith({ ...newEvent, organizer_id: 'user-1' });
+      expect(body.event).toEqual(expect.objectContaining({ id: 'event-1', is_attending: false }));
+    });
+
+    it('rejects events in the past', async () => {
+      const events = queryBuilder({ data: null, error: null });
+      const supabase = { from: jest.fn(() => events) };
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await POST(
+        makeRequest({ ...newEvent, event_date: '2020-01-01T08:00:00.000Z' })
+      );
+
+      expect(response.status).toBe(400);
+      expect(events.insert).not.toHaveBeenCalled();
+    });
+
+    it('rejects a participant limit over the maximum', async () => {
+      const events = queryBuilder({ data: null, error: null });
+      const supabase = { from: jest.fn(() => events) };
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await POST(makeRequest({ ...newEvent, max_participants: 501 }));
+
+      expect(response.status).toBe(400);
+      expect(events.insert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,13 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import {
   getAuthenticatedUser,
   createUnauthorizedResponse,
   ensureProfileComplete,
 } from '@/lib/supabase/auth';
+import { COMMUNITY_EVENT_SELECT, withAttendance } from '@/lib/supabase/events';
+import { COMMUNITY_EVENT_TYPES, createCommunityEventSchema } from '@/libs/validations/events';
+import type { CommunityEvent } from '@/app/community/types';
 
 /**
- * Retrieves a list of upcoming community events.
- * Filters by event type and sorts by date.
+ * Retrieves upcoming active community events, soonest first, with whether the
+ * user is attending each. Filters by `event_type` and pages with `limit` and
+ * `offset`.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -20,69 +25,43 @@ export async function GET(request: NextRequest) {
     // Get URL parameters for filtering
     const { searchParams } = new URL(request.url);
     const eventType = searchParams.get('event_type');
-    const limit = Number.parseInt(searchParams.get('limit') || '10');
+    const limit = Math.min(Number.parseInt(searchParams.get('limit') || '20'), 100);
     const offset = Number.parseInt(searchParams.get('offset') || '0');
 
-    // Build query with optimized select
+    if (eventType && !(COMMUNITY_EVENT_TYPES as readonly string[]).includes(eventType)) {
+      return NextResponse.json({ error: 'Invalid event type' }, { status: 400 });
+    }
+
     let query = supabase
       .from('community_events')
-      .select(
-        `
-        id,
-        title,
-        description,
-        event_type,
-        event_date,
-        location,
-        max_participants,
-        current_participants,
-        created_at,
-        organizer:profiles!community_events_organizer_id_fkey(
-          id,
-          first_name,
-          last_name,
-          profile_photo_url
-        )
-      `
-      )
+      .select(COMMUNITY_EVENT_SELECT)
+      .eq('status', 'active')
       .gte('event_date', new Date().toISOString())
       .order('event_date', { ascending: true })
       .range(offset, offset + limit - 1);
 
-    // Apply filters
     if (eventType) {
       query = query.eq('event_type', eventType);
     }
 
-    const { data: events, error } = await query;
+    const { data, error } = await query;
 
     if (error) {
       console.error('Error fetching events:', error);
-      return NextResponse.json(
-        {
-          error: 'Failed to fetch events',
-          details: error.message,
-        },
-        { status: 500 }
-      );
+      return NextResponse.json({ error: 'Failed to fetch events' }, { status: 500 });
     }
 
-    return NextResponse.json(events || []);
-  } catch (error: unknown) {
+    const events = await withAttendance(supabase, (data ?? []) as CommunityEvent[], user.id);
+
+    return NextResponse.json({ events });
+  } catch (error) {
     console.error('Events API error:', error);
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return NextResponse.json(
-      {
-        error: 'Internal server error',
-        details: message,
-      },
-      { status: 500 }
-    );
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
 
 /**
- * Creates a new community event.
+ * Creates a new community event organized by the user.
  * Requires title, date, and location.
  */
 export async function POST(request: NextRequest) {
@@ -97,53 +76,29 @@ export async function POST(request: NextRequest) {
     if (profileError) return profileError;
 
     const body = await request.json();
+    const validationResult = createCommunityEventSchema.safeParse(body);
 
-    // Validate required fields
-    if (!body.title || !body.event_date || !body.location) {
+    if (!validationResult.success) {
       return NextResponse.json(
-        {
-          error: 'Missing required fields: title, event_date, location',
-        },
+        { error: 'Validation failed', details: z.treeifyError(validationResult.error) },
         { status: 400 }
       );
     }
 
-    // Create event
     const { data: event, error } = await supabase
       .from('community_events')
-      .insert({
-        title: body.title,
-        description: body.description,
-        event_date: body.event_date,
-        location: body.location,
-        organizer_id: user.id,
-        max_participants: body.max_participants || 50,
-        event_type: body.event_type || 'meetup',
-      })
-      .select()
+      .insert({ ...validationResult.data, organizer_id: user.id })
+      .select(COMMUNITY_EVENT_SELECT)
       .single();
 
     if (error) {
       console.error('Error creating event:', error);
-      return NextResponse.json(
-        {
-          error: 'Failed to create event',
-          details: error.message,
-        },
-        { status: 500 }
-      );
+      return NextResponse.json({ error: 'Failed to create event' }, { status: 500 });
     }
 
-    return NextResponse.json(event);
-  } catch (error: unknown) {
+    return NextResponse.json({ event: { ...event, is_attending: false } });
+  } catch (error) {
     console.error('Create event API error:', error);
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return NextResponse.json(
-      {
-        error: 'Internal server error',
-        details: message,
-      },
-      { status: 500 }
-    );
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
@@ -0,0 +1,96 @@
+import type { NextRequest } from 'next/server';
+import { PATCH } from './route';
+import { getAuthenticatedUser, isAdminUser } from '@/lib/supabase/auth';
+import { geocodeQuery } from '@/libs/geocoder';
+
+jest.mock('@/lib/supabase/auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+  createUnauthorizedResponse: jest.fn(),
+  isAdminUser: jest.fn(),
+}));
+
+jest.mock('@/libs/geocoder', () => ({
+  geocodeQuery: jest.fn(),
+}));
+
+describe('PATCH /api/community/places/[placeId]', () => {
+  const user = { id: 'admin-1' };
+  const params = Promise.resolve({ placeId: 'place-1' });
+
+  const buildSupabase = (existingPlace: unknown) => {
+    const maybeSingle = jest.fn().mockResolvedValue({ data: existingPlace, error: null });
+    const updateSingle = jest.fn().mockResolvedValue({ data: { id: 'place-1' }, error: null });
+    const update = jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnValue({ single: updateSingle }),
+      }),
+    });
+    const supabase = {
+      from: jest.fn(() => ({
+        select: jest.fn().mockReturnValue({ eq: jest.fn().mockReturnValue({ maybeSingle }) }),
+        update,
+      })),
+    };
+    return { supabase, update };
+  };
+
+  const makeRequest = (body: unknown) =>
+    ({ json: jest.fn().mockResolvedValue(body) }) as unknown as NextRequest;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (isAdminUser as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('records who approved a suggestion', async () => {
+    const { supabase, update } = buildSupabase({
+      id: 'place-1',
+      address: '1 Main St',
+      status: 'pending',
+    });
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+    const response = await PATCH(makeRequest({ status: 'approved' }), { params });
+
+    expect(response.status).toBe(200);
+    expect(update).toHaveBeenCalledWith({
+      status: 'approved',
+      reviewed_by: 'admin-1',
+      reviewed_at: expect.any(String),
+    });
+    expect(geocodeQuery).not.toHaveBeenCalled();
+  });
+
+  it('geocodes a changed address', async () => {
+    const { supabase, update } = buildSupabase({
+      id: 'place-1',
+      address: '1 Main St',
+      status: 'approved',
+    });
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+    (geocodeQuery as jest.Mock).mockResolvedValue({ lat: 39.3, lng: -120.2 });
+
+    await PATCH(makeRequest({ address: '2 Donner Pass Rd, Truckee' }), { params });
+
+    expect(update).toHaveBeenCalledWith({
+      address: '2 Donner Pass Rd, Truckee',
+      lat: 39.3,
+      lng: -120.2,
+    });
+  });
+
+  it('only lets admins edit places', async () => {
+    const { supabase, update } = buildSupabase(null);
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'user-1' },
+      authError: null,
+      supabase,
+    });
+    (isAdminUser as jest.Mock).mockResolvedValue(false);
+
+    const response = await PATCH(makeRequest({ status: 'approved' }), { params });
+
+    expect(response.status).toBe(403);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createUnauthorizedResponse, getAuthenticatedUser, isAdminUser } from '@/lib/supabase/auth';
+import { withUpcomingRides } from '@/lib/supabase/communityPlaces';
+import { geocodeQuery } from '@/libs/geocoder';
+import { updateCommunityPlaceSchema } from '@/libs/validations/places';
+import type { CommunityPlace } from '@/app/community/types';
+import type { Database } from '@/types/database.types';
+
+type PlaceUpdate = Database['public']['Tables']['community_places']['Update'];
+
+/**
+ * Retrieves a single community place with its upcoming departures.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ placeId: string }> }
+) {
+  try {
+    const { placeId } = await params;
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const { data, error } = await supabase
+      .from('community_places')
+      .select('*')
+      .eq('id', placeId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching place:', error);
+      return NextResponse.json({ error: 'Failed to fetch place' }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: 'Place not found' }, { status: 404 });
+    }
+
+    const [place] = await withUpcomingRides(supabase, [data as CommunityPlace]);
+
+    return NextResponse.json({ place });
+  } catch (error) {
+    console.error('Error in place GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Lets an admin edit a place or review a suggestion by approving or rejecting
+ * it. A changed address without new coordinates is geocoded again.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ placeId: string }> }
+) {
+  try {
+    const { placeId } = await params;
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    if (!(await isAdminUser(supabase, user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = updateCommunityPlaceSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: z.treeifyError(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    const { data: existingPlace, error: fetchError } = await supabase
+      .from('community_places')
+      .select('id, address, status')
+      .eq('id', placeId)
+      .maybeSingle();
+
+    if (fetchError || !existingPlace) {
+      return NextResponse.json({ error: 'Place not found' }, { status: 404 });
+    }
+
+    const update: PlaceUpdate = { ...validationResult.data };
+
+    if (
+      update.address !== undefined &&
+      update.address !== existingPlace.address &&
+      update.lat === undefined
+    ) {
+      const result = await geocodeQuery(update.address);
+      update.lat = result?.lat ?? null;
+      update.lng = result?.lng ?? null;
+    }
+
+    if (update.status !== undefined && update.status !== existingPlace.status) {
+      update.reviewed_by = user.id;
+      update.reviewed_at = new Date().toISOString();
+    }
+
+    const { data: place, error } = await supabase
+      .from('community_places')
+      .update(update)
+      .eq('id', placeId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating place:', error);
+      return NextResponse.json({ error: 'Failed to update place' }, { status: 500 });
+    }
+
+    return NextResponse.json({ place });
+  } catch (error) {
+    console.error('Error in place PATCH API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,161 @@
+import type { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+import { ensureProfileComplete, getAuthenticatedUser, isAdminUser } from '@/lib/supabase/auth';
+import { geocodeQuery } from '@/libs/geocoder';
+
+jest.mock('@/lib/supabase/auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+  createUnauthorizedResponse: jest.fn(),
+  ensureProfileComplete: jest.fn(),
+  isAdminUser: jest.fn(),
+}));
+
+jest.mock('@/libs/geocoder', () => ({
+  geocodeQuery: jest.fn(),
+}));
+
+// Chainable stand-in for a Supabase query that resolves to `result` when awaited
+function queryBuilder(result: { data: unknown; error: unknown }) {
+  const builder: Record<string, jest.Mock> & { then?: unknown } = {};
+  for (const method of ['select', 'order', 'or', 'eq', 'in', 'gte', 'limit', 'insert', 'single']) {
+    builder[method] = jest.fn(() => builder);
+  }
+  // eslint-disable-next-line no-unused-vars
+  builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+describe('/api/community/places', () => {
+  const user = { id: 'user-1' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (ensureProfileComplete as jest.Mock).mockResolvedValue(null);
+    (isAdminUser as jest.Mock).mockResolvedValue(false);
+  });
+
+  describe('GET', () => {
+    const makeRequest = (query = '') =>
+      ({ url: `http://localhost/api/community/places${query}` }) as unknown as NextRequest;
+
+    it('lists approved and own places with their upcoming departures', async () => {
+      const places = queryBuilder({
+        data: [
+          { id: 'place-1', name: 'Auburn Park & Ride' },
+          { id: 'place-2', name: 'Truckee Depot' },
+        ],
+        error: null,
+      });
+      const rides = queryBuilder({
+        data: [
+          { id: 'ride-1', end_location: 'Palisades Tahoe', start_community_place_id: 'place-1' },
+          { id: 'ride-2', end_location: 'Northstar', start_community_place_id: 'place-1' },
+        ],
+        error: null,
+      });
+      const supabase = {
+        from: jest.fn((table: string) => (table === 'rides' ? rides : places)),
+      };
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await GET(makeRequest());
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(places.or).toHaveBeenCalledWith('status.eq.approved,created_by.eq.user-1');
+      expect(rides.in).toHaveBeenCalledWith('start_community_place_id', ['place-1', 'place-2']);
+      expect(rides.eq).toHaveBeenCalledWith('status', 'active');
+      expect(body.places[0].upcoming_rides).toEqual([
+        { id: 'ride-1', end_location: 'Palisades Tahoe' },
+        { id: 'ride-2', end_location: 'Northstar' },
+      ]);
+      expect(body.places[1].upcoming_rides).toEqual([]);
+    });
+
+    it('filters by status and type', async () => {
+      const places = queryBuilder({ data: [], error: null });
+      const supabase = { from: jest.fn(() => places) };
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await GET(makeRequest('?status=pending&type=resort_lot'));
+
+      expect(response.status).toBe(200);
+      expect(places.or).not.toHaveBeenCalled();
+      expect(places.eq).toHaveBeenCalledWith('status', 'pending');
+      expect(places.eq).toHaveBeenCalledWith('place_type', 'resort_lot');
+    });
+
+    it('rejects an unknown place type', async () => {
+      const supabase = { from: jest.fn() };
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await GET(makeRequest('?type=dog_park'));
+
+      expect(response.status).toBe(400);
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST', () => {
+    const makeRequest = (body: unknown) =>
+      ({ json: jest.fn().mockResolvedValue(body) }) as unknown as NextRequest;
+
+    const suggestion = {
+      name: 'Auburn Park & Ride',
+      place_type: 'park_and_ride',
+      address: '13435 Lincoln Way, Auburn, CA',
+      parking_notes: 'Free, overnight OK',
+      winter_access: 'year_round',
+    };
+
+    it('saves a member suggestion as pending and geocodes its address', async () => {
+      const places = queryBuilder({ data: { id: 'place-1' }, error: null });
+      const supabase = { from: jest.fn(() => places) };
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+      (geocodeQuery as jest.Mock).mockResolvedValue({ lat: 38.9, lng: -121.06 });
+
+      const response = await POST(makeRequest(suggestion));
+
+      expect(response.status).toBe(200);
+      expect(geocodeQuery).toHaveBeenCalledWith('13435 Lincoln Way, Auburn, CA');
+      expect(places.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Auburn Park & Ride',
+          parking_notes: 'Free, overnight OK',
+          winter_access: 'year_round',
+          photo_urls: [],
+          lat: 38.9,
+          lng: -121.06,
+          status: 'pending',
+          created_by: 'user-1',
+          reviewed_by: null,
+        })
+      );
+    });
+
+    it('approves places added by admins and keeps given coordinates', async () => {
+      const places = queryBuilder({ data: { id: 'place-1' }, error: null });
+      const supabase = { from: jest.fn(() => places) };
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+      (isAdminUser as jest.Mock).mockResolvedValue(true);
+
+      await POST(makeRequest({ ...suggestion, lat: 38.9, lng: -121.06 }));
+
+      expect(geocodeQuery).not.toHaveBeenCalled();
+      expect(places.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'approved', reviewed_by: 'user-1' })
+      );
+    });
+
+    it('rejects an invalid place type', async () => {
+      const places = queryBuilder({ data: null, error: null });
+      const supabase = { from: jest.fn(() => places) };
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await POST(makeRequest({ ...suggestion, place_type: 'dog_park' }));
+
+      expect(response.status).toBe(400);
+      expect(places.insert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,10 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import {
   createUnauthorizedResponse,
   ensureProfileComplete,
   getAuthenticatedUser,
+  isAdminUser,
 } from '@/lib/supabase/auth';
-
+import { withUpcomingRides } from '@/lib/supabase/communityPlaces';
+import { geocodeQuery } from '@/libs/geocoder';
+import { COMMUNITY_PLACE_TYPES, createCommunityPlaceSchema } from '@/libs/validations/places';
+import type { CommunityPlace } from '@/app/community/types';
+
+const PLACE_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+/**
+ * Lists community places with their upcoming departures. By default that is
+ * every approved place plus the user's own suggestions; `?status=` narrows the
+ * list (admins see every place with that status) and `?type=` filters by place
+ * type.
+ */
 export async function GET(request: NextRequest) {
   try {
     const { user, authError, supabase } = await getAuthenticatedUser(request);
@@ -13,72 +27,50 @@ export async function GET(request: NextRequest) {
       return createUnauthorizedResponse(authError);
     }
 
-    // Get URL parameters for filtering
     const { searchParams } = new URL(request.url);
     const placeType = searchParams.get('type');
-    const dogFriendly = searchParams.get('dog_friendly');
-    const limit = Number.parseInt(searchParams.get('limit') || '10');
-    const offset = Number.parseInt(searchParams.get('offset') || '0');
-
-    // Build query with optimized select
-    let query = supabase
-      .from('local_places')
-      .select(
-        `
-        id,
-        name,
-        type,
-        description,
-        address,
-        rating,
-        dog_friendly,
-        created_at,
-        created_by:profiles!local_places_created_by_fkey(
-          id,
-          first_name,
-          last_name
-        )
-      `
-      )
-      .order('rating', { ascending: false })
-      .range(offset, offset + limit - 1);
-
-    // Apply filters
-    if (placeType) {
-      query = query.eq('type', placeType);
+    const status = searchParams.get('status');
+
+    if (placeType && !(COMMUNITY_PLACE_TYPES as readonly string[]).includes(placeType)) {
+      return NextResponse.json({ error: 'Invalid place type' }, { status: 400 });
+    }
+
+    if (status && !(PLACE_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
     }
 
-    if (dogFriendly !== null) {
-      query = query.eq('dog_friendly', dogFriendly === 'true');
+    let query = supabase.from('community_places').select('*').order('name', { ascending: true });
+
+    // Row level security limits non-admins to approved places and their own
+    query = status
+      ? query.eq('status', status)
+      : query.or(`status.eq.approved,created_by.eq.${user.id}`);
+
+    if (placeType) {
+      query = query.eq('place_type', placeType);
     }
 
-    const { data: places, error } = await query;
+    const { data, error } = await query;
 
     if (error) {
       console.error('Error fetching places:', error);
-      return NextResponse.json(
-        {
-          error: 'Failed to fetch places',
-          details: error.message,
-        },
-        { status: 500 }
-      );
+      return NextResponse.json({ error: 'Failed to fetch places' }, { status: 500 });
     }
 
-    return NextResponse.json(places || []);
-  } catch (error: unknown) {
-    console.error('Places API error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return NextResponse.json(
-      {
-        error: 'Internal server error',
-        details: errorMessage,
-      },
-      { status: 500 }
-    );
+    const places = await withUpcomingRides(supabase, (data ?? []) as CommunityPlace[]);
+
+    return NextResponse.json({ places });
+  } catch (error) {
+    console.error('Error in places GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
 
+/**
+ * Adds a community place. Places added by admins are approved right away;
+ * everyone else's are suggestions that wait for an admin to review them.
+ * The address is geocoded when no coordinates are given.
+ */
 export async function POST(request: NextRequest) {
   try {
     const { user, authError, supabase } = await getAuthenticatedUser(request);
@@ -87,59 +79,59 @@ export async function POST(request: NextRequest) {
       return createUnauthorizedResponse(authError);
     }
 
-    const profileError = await ensureProfileComplete(supabase, user.id, 'adding places');
+    const profileError = await ensureProfileComplete(supabase, user.id, 'suggesting places');
     if (profileError) return profileError;
 
     const body = await request.json();
+    const validationResult = createCommunityPlaceSchema.safeParse(body);
 
-    // Validate required fields
-    if (!body.name || !body.address || !body.type) {
+    if (!validationResult.success) {
       return NextResponse.json(
-        {
-          error: 'Missing required fields: name, address, type',
-        },
+        { error: 'Validation failed', details: z.treeifyError(validationResult.error) },
         { status: 400 }
       );
     }
 
-    // Create place
+    const input = validationResult.data;
+    const isAdmin = await isAdminUser(supabase, user.id);
+
+    let lat = input.lat ?? null;
+    let lng = input.lng ?? null;
+    if (lat === null || lng === null) {
+      const result = await geocodeQuery(input.address);
+      lat = result?.lat ?? null;
+      lng = result?.lng ?? null;
+    }
+
+    const now = new Date().toISOString();
     const { data: place, error } = await supabase
-      .from('local_places')
+      .from('community_places')
       .insert({
-        name: body.name,
-        type: body.type,
-        address: body.address,
-        description: body.description,
-        dog_friendly: body.dog_friendly !== false, // Default to true
-        photo_url: body.photo_url,
-        latitude: body.latitude,
-        longitude: body.longitude,
+        name: input.name,
+        place_type: input.place_type,
+        address: input.address,
+        description: input.description || null,
+        parking_notes: input.parking_notes || null,
+        winter_access: input.winter_access ?? 'unknown',
+        photo_urls: input.photo_urls ?? [],
+        lat,
+        lng,
+        status: isAdmin ? 'approved' : 'pending',
         created_by: user.id,
+        reviewed_by: isAdmin ? user.id : null,
+        reviewed_at: isAdmin ? now : null,
       })
       .select()
       .single();
 
     if (error) {
       console.error('Error creating place:', error);
-      return NextResponse.json(
-        {
-          error: 'Failed to create place',
-          details: error.message,
-        },
-        { status: 500 }
-      );
+      return NextResponse.json({ error: 'Failed to save place' }, { status: 500 });
     }
 
-    return NextResponse.json(place);
-  } catch (error: unknown) {
-    console.error('Create place API error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return NextResponse.json(
-      {
-        error: 'Internal server error',
-        details: errorMessage,
-      },
-      { status: 500 }
-    );
+    return NextResponse.json({ place });
+  } catch (error) {
+    console.error('Error in places POST API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getAuthenticatedUser } from '@/lib/supabase/auth';
+import { updateSavedSearchSchema } from '@/libs/validations/savedSearch';
+
+/**
+ * Pauses or resumes a saved search.
+ * Enforces ownership check before modification.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = updateSavedSearchSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: z.treeifyError(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    // Verify ownership
+    const { data: existingSearch, error: fetchError } = await supabase
+      .from('saved_searches')
+      .select('user_id')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !existingSearch) {
+      return NextResponse.json({ error: 'Saved search not found' }, { status: 404 });
+    }
+
+    if (existingSearch.user_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { data: savedSearch, error } = await supabase
+      .from('saved_searches')
+      .update({ status: validationResult.data.status })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating saved search:', error);
+      return NextResponse.json({ error: 'Failed to update saved search' }, { status: 500 });
+    }
+
+    return NextResponse.json({ savedSearch });
+  } catch (error) {
+    console.error('Error in saved search PATCH API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Deletes a saved search and its alerts.
+ * Enforces ownership check before deletion.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify ownership
+    const { data: existingSearch, error: fetchError } = await supabase
+      .from('saved_searches')
+      .select('user_id')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !existingSearch) {
+      return NextResponse.json({ error: 'Saved search not found' }, { status: 404 });
+    }
+
+    if (existingSearch.user_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { error } = await supabase.from('saved_searches').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting saved search:', error);
+      return NextResponse.json({ error: 'Failed to delete saved search' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in saved search DELETE API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
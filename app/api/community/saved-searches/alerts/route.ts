@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getAuthenticatedUser, createUnauthorizedResponse } from '@/lib/supabase/auth';
+import { markSavedSearchAlertsReadSchema } from '@/libs/validations/savedSearch';
+
+/**
+ * Counts the rides that matched the user's saved searches and haven't been seen yet.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const { count, error } = await supabase
+      .from('saved_search_alerts')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .is('read_at', null);
+
+    if (error) {
+      console.error('Error counting saved search alerts:', error);
+      return NextResponse.json({ error: 'Failed to fetch alerts' }, { status: 500 });
+    }
+
+    return NextResponse.json({ unreadCount: count ?? 0 });
+  } catch (error) {
+    console.error('Error in saved search alerts GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Marks the user's unread alerts as seen, for one saved search or all of them.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = markSavedSearchAlertsReadSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: z.treeifyError(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    let query = supabase
+      .from('saved_search_alerts')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .is('read_at', null);
+
+    if (validationResult.data.saved_search_id) {
+      query = query.eq('saved_search_id', validationResult.data.saved_search_id);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      console.error('Error marking saved search alerts read:', error);
+      return NextResponse.json({ error: 'Failed to update alerts' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in saved search alerts PATCH API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,148 @@
+import type { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+import { getAuthenticatedUser, ensureProfileComplete } from '@/lib/supabase/auth';
+import { MAX_SAVED_SEARCHES } from '@/libs/validations/savedSearch';
+
+jest.mock('@/lib/supabase/auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+  createUnauthorizedResponse: jest.fn(),
+  ensureProfileComplete: jest.fn(),
+}));
+
+describe('/api/community/saved-searches', () => {
+  const user = { id: 'user-1' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (ensureProfileComplete as jest.Mock).mockResolvedValue(null);
+  });
+
+  describe('POST', () => {
+    const buildSupabase = (existingCount: number) => {
+      const insertSingle = jest.fn().mockResolvedValue({ data: { id: 'search-1' }, error: null });
+      const insert = jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnValue({ single: insertSingle }),
+      });
+      const countEq = jest.fn().mockResolvedValue({ count: existingCount, error: null });
+
+      const supabase = {
+        from: jest.fn(() => ({
+          select: jest.fn().mockReturnValue({ eq: countEq }),
+          insert,
+        })),
+      };
+
+      return { supabase, insert };
+    };
+
+    const makeRequest = (body: unknown) =>
+      ({ json: jest.fn().mockResolvedValue(body) }) as unknown as NextRequest;
+
+    it('saves the location filters as flattened columns', async () => {
+      const { supabase, insert } = buildSupabase(0);
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await POST(
+        makeRequest({
+          name: 'SF to Tahoe',
+          departure: { lat: 37.77, lng: -122.42, radius: 25, label: 'San Francisco' },
+          destination: null,
+          date_from: '2026-01-10',
+          date_to: '2026-01-20',
+          posting_type: 'driver',
+          requires_awd: true,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(insert).toHaveBeenCalledWith({
+        user_id: 'user-1',
+        name: 'SF to Tahoe',
+        departure_label: 'San Francisco',
+        departure_lat: 37.77,
+        departure_lng: -122.42,
+        departure_radius: 25,
+        destination_label: null,
+        destination_lat: null,
+        destination_lng: null,
+        destination_radius: null,
+        date_from: '2026-01-10',
+        date_to: '2026-01-20',
+        posting_type: 'driver',
+        requires_awd: true,
+      });
+    });
+
+    it('rejects a date window that ends before it starts', async () => {
+      const { supabase, insert } = buildSupabase(0);
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await POST(
+        makeRequest({ name: 'Backwards', date_from: '2026-01-20', date_to: '2026-01-10' })
+      );
+
+      expect(response.status).toBe(400);
+      expect(insert).not.toHaveBeenCalled();
+    });
+
+    it('rejects new searches once the limit is reached', async () => {
+      const { supabase, insert } = buildSupabase(MAX_SAVED_SEARCHES);
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await POST(makeRequest({ name: 'One too many' }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.error).toContain(`up to ${MAX_SAVED_SEARCHES} searches`);
+      expect(insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET', () => {
+    it('attaches unread alerts to their saved search', async () => {
+      const searches = [
+        { id: 'search-1', name: 'SF to Tahoe' },
+        { id: 'search-2', name: 'Reno' },
+      ];
+      const alerts = [
+        {
+          id: 'alert-1',
+          saved_search_id: 'search-1',
+          ride: {
+            id: 'ride-1',
+            start_location: 'San Francisco',
+            end_location: 'Tahoe',
+            departure_date: '2026-01-12',
+          },
+        },
+      ];
+
+      const supabase = {
+        from: jest.fn((tableName: string) => {
+          if (tableName === 'saved_searches') {
+            const order = jest.fn().mockResolvedValue({ data: searches, error: null });
+            const eq = jest.fn().mockReturnValue({ order });
+            return { select: jest.fn().mockReturnValue({ eq }) };
+          }
+          const order = jest.fn().mockResolvedValue({ data: alerts, error: null });
+          const is = jest.fn().mockReturnValue({ order });
+          const eq = jest.fn().mockReturnValue({ is });
+          return { select: jest.fn().mockReturnValue({ eq }) };
+        }),
+      };
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+      const response = await GET({} as NextRequest);
+      const body = await response.json();
+
+      expect(body.savedSearches).toEqual([
+        {
+          id: 'search-1',
+          name: 'SF to Tahoe',
+          new_rides: [{ ...alerts[0].ride, alert_id: 'alert-1' }],
+        },
+        { id: 'search-2', name: 'Reno', new_rides: [] },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getAuthenticatedUser,
+  createUnauthorizedResponse,
+  ensureProfileComplete,
+} from '@/lib/supabase/auth';
+import { createSavedSearchSchema, MAX_SAVED_SEARCHES } from '@/libs/validations/savedSearch';
+import type { SavedSearch, SavedSearchAlertRide } from '@/app/community/types';
+
+type UnreadAlertRow = {
+  id: string;
+  saved_search_id: string;
+  ride: Omit<SavedSearchAlertRide, 'alert_id'> | null;
+};
+
+/**
+ * Retrieves the authenticated user's saved searches, each with the rides that
+ * matched it since the user last looked.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const [searchesResult, alertsResult] = await Promise.all([
+      supabase
+        .from('saved_searches')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('saved_search_alerts')
+        .select(
+          'id, saved_search_id, ride:rides(id, posting_type, title, start_location, end_location, departure_date)'
+        )
+        .eq('user_id', user.id)
+        .is('read_at', null)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    if (searchesResult.error) {
+      console.error('Error fetching saved searches:', searchesResult.error);
+      return NextResponse.json({ error: 'Failed to fetch saved searches' }, { status: 500 });
+    }
+
+    if (alertsResult.error) {
+      // Searches are still useful without their alerts
+      console.error('Error fetching saved search alerts:', alertsResult.error);
+    }
+
+    const newRidesBySearch = new Map<string, SavedSearchAlertRide[]>();
+    for (const alert of (alertsResult.data ?? []) as unknown as UnreadAlertRow[]) {
+      if (!alert.ride) continue;
+      const rides = newRidesBySearch.get(alert.saved_search_id) ?? [];
+      rides.push({ ...alert.ride, alert_id: alert.id });
+      newRidesBySearch.set(alert.saved_search_id, rides);
+    }
+
+    const savedSearches = ((searchesResult.data ?? []) as SavedSearch[]).map((search) => ({
+      ...search,
+      new_rides: newRidesBySearch.get(search.id) ?? [],
+    }));
+
+    return NextResponse.json({ savedSearches });
+  } catch (error) {
+    console.error('Error in saved searches GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Saves a ride search for the authenticated user. New rides matching it are
+ * queued as alerts by the `queue_saved_search_alerts` trigger.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const profileError = await ensureProfileComplete(supabase, user.id, 'saving searches');
+    if (profileError) return profileError;
+
+    const body = await request.json();
+    const validationResult = createSavedSearchSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: z.treeifyError(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    const { count, error: countError } = await supabase
+      .from('saved_searches')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id);
+
+    if (countError) {
+      console.error('Error counting saved searches:', countError);
+      return NextResponse.json({ error: 'Failed to save search' }, { status: 500 });
+    }
+
+    if ((count ?? 0) >= MAX_SAVED_SEARCHES) {
+      return NextResponse.json(
+        { error: `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to add another.` },
+        { status: 400 }
+      );
+    }
+
+    const { departure, destination, ...search } = validationResult.data;
+
+    const { data: savedSearch, error } = await supabase
+      .from('saved_searches')
+      .insert({
+        user_id: user.id,
+        name: search.name,
+        departure_label: departure?.label ?? null,
+        departure_lat: departure?.lat ?? null,
+        departure_lng: departure?.lng ?? null,
+        departure_radius: departure?.radius ?? null,
+        destination_label: destination?.label ?? null,
+        destination_lat: destination?.lat ?? null,
+        destination_lng: destination?.lng ?? null,
+        destination_radius: destination?.radius ?? null,
+        date_from: search.date_from ?? null,
+        date_to: search.date_to ?? null,
+        posting_type: search.posting_type ?? null,
+        requires_awd: search.requires_awd ?? false,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating saved search:', error);
+      return NextResponse.json({ error: 'Failed to save search' }, { status: 500 });
+    }
+
+    return NextResponse.json({ savedSearch });
+  } catch (error) {
+    console.error('Error in saved searches POST API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { processTripLifecycle } from '@/libs/community/tripLifecycle';
+import { NextResponse } from 'next/server';
+
+/**
+ * Closes out rides that have already run: completes the ride and its confirmed
+ * bookings, cancels unanswered requests and queues review requests.
+ */
+export async function GET() {
+  try {
+    console.log('Starting past trip completion...');
+
+    const result = await processTripLifecycle();
+
+    console.log('Past trip completion finished:', {
+      ridesCompleted: result.ridesCompleted,
+      bookingsCompleted: result.bookingsCompleted,
+      requestsCancelled: result.requestsCancelled,
+      errors: result.errors.length,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Past trips completed successfully',
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error completing past trips:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to complete past trips',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
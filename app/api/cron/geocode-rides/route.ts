@@ -0,0 +1,35 @@
+import { processRideGeocodeQueue } from '@/libs/geocoder/rides';
+import { NextResponse } from 'next/server';
+
+/**
+ * Looks up coordinates for rides waiting in the ride geocoding queue, so the
+ * map and saved search alerts see every ride however it was saved.
+ */
+export async function GET() {
+  try {
+    console.log('Starting ride geocoding...');
+
+    const result = await processRideGeocodeQueue();
+
+    console.log('Ride geocoding finished:', {
+      geocoded: result.geocodedIds.length,
+      unresolved: result.unresolvedIds.length,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Queued rides geocoded successfully',
+      geocoded_ride_ids: result.geocodedIds,
+      unresolved_ride_ids: result.unresolvedIds,
+    });
+  } catch (error) {
+    console.error('Error geocoding queued rides:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to geocode queued rides',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
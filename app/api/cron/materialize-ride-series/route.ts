@@ -0,0 +1,36 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextResponse } from 'next/server';
+
+/**
+ * Posts the next weeks of occurrences for every active recurring ride series,
+ * so a weekly ride keeps appearing in listings after its first dates pass.
+ */
+export async function GET() {
+  try {
+    console.log('Starting ride series materialization...');
+
+    const supabase = createAdminClient();
+    const { data: created, error } = await supabase.rpc('materialize_ride_series', {
+      p_series_id: null,
+    });
+
+    if (error) throw error;
+
+    console.log('Ride series materialization completed:', { created });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Ride series materialized successfully',
+      created: created ?? 0,
+    });
+  } catch (error) {
+    console.error('Error materializing ride series:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to materialize ride series',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
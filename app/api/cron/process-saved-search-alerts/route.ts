@@ -0,0 +1,34 @@
+import { processSavedSearchAlerts } from '@/libs/email';
+import { NextResponse } from 'next/server';
+
+/**
+ * Emails members about rides that matched their saved searches since the last run.
+ */
+export async function GET() {
+  try {
+    console.log('Starting saved search alert processing...');
+
+    const result = await processSavedSearchAlerts();
+
+    console.log('Saved search alert processing completed:', {
+      processed: result.processed,
+      sent: result.sent,
+      errors: result.errors.length,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Saved search alerts processed successfully',
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error processing saved search alerts:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to process saved search alerts',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
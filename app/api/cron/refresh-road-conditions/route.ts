@@ -0,0 +1,38 @@
+import { processRoadConditionAlerts } from '@/libs/email';
+import { refreshRoadConditions } from '@/libs/roadConditions';
+import { NextResponse } from 'next/server';
+
+/**
+ * Stores the latest chain controls for each corridor, then emails drivers and
+ * confirmed passengers whose upcoming rides now head into chain controls.
+ */
+export async function GET() {
+  try {
+    console.log('Starting road conditions refresh...');
+
+    const conditions = await refreshRoadConditions();
+    const alerts = await processRoadConditionAlerts();
+
+    console.log('Road conditions refresh completed:', {
+      conditions: conditions.map((report) => `${report.corridor}: ${report.chainControl}`),
+      sent: alerts.sent,
+      errors: alerts.errors.length,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Road conditions refreshed successfully',
+      conditions,
+      alerts,
+    });
+  } catch (error) {
+    console.error('Error refreshing road conditions:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to refresh road conditions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import type { NextRequest } from 'next/server';
+import { POST } from './route';
+import { getAuthenticatedUser } from '@/lib/supabase/auth';
+import { checkSupabaseRateLimit } from '@/libs/rateLimit';
+import { processRideGeocodeQueue } from '@/libs/geocoder/rides';
+
+jest.mock('@/lib/supabase/auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+  createUnauthorizedResponse: jest.fn(),
+}));
+
+jest.mock('@/libs/rateLimit', () => ({
+  checkSupabaseRateLimit: jest.fn(),
+}));
+
+jest.mock('@/libs/geocoder/rides', () => ({
+  processRideGeocodeQueue: jest.fn(),
+}));
+
+describe('POST /api/geocode/rides', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'driver-1' },
+      authError: null,
+      supabase: {},
+    });
+    (checkSupabaseRateLimit as jest.Mock).mockResolvedValue({ success: true });
+  });
+
+  it("geocodes only the user's queued rides", async () => {
+    (processRideGeocodeQueue as jest.Mock).mockResolvedValue({
+      geocodedIds: ['ride-1', 'ride-2'],
+      unresolvedIds: ['ride-3'],
+    });
+
+    const response = await POST({} as NextRequest);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(processRideGeocodeQueue).toHaveBeenCalledWith({
+      limit: expect.any(Number),
+      posterId: 'driver-1',
+    });
+    expect(body).toEqual({
+      success: true,
+      geocoded_ride_ids: ['ride-1', 'ride-2'],
+      unresolved_ride_ids: ['ride-3'],
+    });
+  });
+
+  it('is rate limited per user', async () => {
+    (checkSupabaseRateLimit as jest.Mock).mockResolvedValue({
+      success: false,
+      error: { message: 'Too many ride updates. Please try again later.', retryAfter: 60 },
+    });
+
+    const response = await POST({} as NextRequest);
+
+    expect(response.status).toBe(429);
+    expect(processRideGeocodeQueue).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, createUnauthorizedResponse } from '@/lib/supabase/auth';
+import { checkSupabaseRateLimit } from '@/libs/rateLimit';
+import { processRideGeocodeQueue } from '@/libs/geocoder/rides';
+
+// A new ride, its return trip and the first few dates of a series; the cron picks up the rest
+const MAX_RIDES_PER_REQUEST = 10;
+
+/**
+ * Geocodes the user's own rides waiting in the ride geocoding queue, so a ride
+ * shows up on the map right after it is saved. The ride forms fire this
+ * without waiting for it; the geocode-rides cron handles whatever it misses.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const rateLimitCheck = await checkSupabaseRateLimit(supabase, user.id, 'geocode-rides', {
+      maxRequests: 30,
+      windowSeconds: 3600,
+      message: 'Too many ride updates. Please try again later.',
+    });
+
+    if (!rateLimitCheck.success) {
+      return NextResponse.json(
+        { error: rateLimitCheck.error?.message || 'Rate limit exceeded' },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': String(rateLimitCheck.error?.retryAfter || 3600),
+          },
+        }
+      );
+    }
+
+    const { geocodedIds, unresolvedIds } = await processRideGeocodeQueue({
+      limit: MAX_RIDES_PER_REQUEST,
+      posterId: user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      geocoded_ride_ids: geocodedIds,
+      unresolved_ride_ids: unresolvedIds,
+    });
+  } catch (error) {
+    console.error('Error in ride geocoding API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import type { NextRequest } from 'next/server';
+import { GET } from './route';
+import { getAuthenticatedUser } from '@/lib/supabase/auth';
+import { checkSupabaseRateLimit } from '@/libs/rateLimit';
+import { geocodeQuery } from '@/libs/geocoder';
+
+jest.mock('@/lib/supabase/auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+  createUnauthorizedResponse: jest.fn(),
+}));
+
+jest.mock('@/libs/rateLimit', () => ({
+  checkSupabaseRateLimit: jest.fn(),
+}));
+
+jest.mock('@/libs/geocoder', () => ({
+  geocodeQuery: jest.fn(),
+  MAX_GEOCODE_QUERY_LENGTH: 200,
+}));
+
+const createRequest = (query: string) =>
+  ({ url: `https://example.com/api/geocode?q=${encodeURIComponent(query)}` }) as NextRequest;
+
+describe('GET /api/geocode', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'user-1' },
+      authError: null,
+      supabase: {},
+    });
+    (checkSupabaseRateLimit as jest.Mock).mockResolvedValue({ success: true });
+  });
+
+  it('returns the coordinates for a place', async () => {
+    (geocodeQuery as jest.Mock).mockResolvedValue({
+      lat: 39.328,
+      lng: -120.1833,
+      displayName: 'Truckee, CA',
+      source: 'gazetteer',
+    });
+
+    const response = await GET(createRequest(' Truckee '));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(geocodeQuery).toHaveBeenCalledWith('Truckee');
+    expect(checkSupabaseRateLimit).toHaveBeenCalledWith({}, 'user-1', 'geocode', {
+      maxRequests: 30,
+      windowSeconds: 60,
+      message: expect.any(String),
+    });
+    expect(body).toEqual({
+      result: { lat: 39.328, lng: -120.1833, display_name: 'Truckee, CA', source: 'gazetteer' },
+    });
+  });
+
+  it('returns a null result for places that cannot be found', async () => {
+    (geocodeQuery as jest.Mock).mockResolvedValue(null);
+
+    const response = await GET(createRequest('Atlantis'));
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ result: null });
+  });
+
+  it('rejects empty queries', async () => {
+    const response = await GET(createRequest('   '));
+
+    expect(response.status).toBe(400);
+    expect(geocodeQuery).not.toHaveBeenCalled();
+  });
+
+  it('throttles users who look up too many places', async () => {
+    (checkSupabaseRateLimit as jest.Mock).mockResolvedValue({
+      success: false,
+      error: { message: 'Too many location lookups.', retryAfter: 42 },
+    });
+
+    const response = await GET(createRequest('Reno'));
+
+    expect(response.status).toBe(429);
+    expect(geocodeQuery).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, createUnauthorizedResponse } from '@/lib/supabase/auth';
+import { checkSupabaseRateLimit } from '@/libs/rateLimit';
+import { geocodeQuery, MAX_GEOCODE_QUERY_LENGTH } from '@/libs/geocoder';
+
+/**
+ * Looks up coordinates for a zip code, city or address (`?q=`).
+ * Rate limited to 30 lookups per minute per user; answers come from the
+ * geocode cache whenever the same place was looked up before.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const query = new URL(request.url).searchParams.get('q')?.trim() ?? '';
+    if (!query) {
+      return NextResponse.json({ error: 'Missing location query' }, { status: 400 });
+    }
+    if (query.length > MAX_GEOCODE_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Location must be ${MAX_GEOCODE_QUERY_LENGTH} characters or fewer` },
+        { status: 400 }
+      );
+    }
+
+    const rateLimitCheck = await checkSupabaseRateLimit(supabase, user.id, 'geocode', {
+      maxRequests: 30,
+      windowSeconds: 60,
+      message: 'Too many location lookups. Please wait a moment and try again.',
+    });
+
+    if (!rateLimitCheck.success) {
+      return NextResponse.json(
+        { error: rateLimitCheck.error?.message || 'Rate limit exceeded' },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': String(rateLimitCheck.error?.retryAfter || 60),
+          },
+        }
+      );
+    }
+
+    const result = await geocodeQuery(query);
+
+    return NextResponse.json({
+      result: result
+        ? {
+            lat: result.lat,
+            lng: result.lng,
+            display_name: result.displayName,
+            source: result.source,
+          }
+        : null,
+    });
+  } catch (error) {
+    console.error('Error in geocode API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
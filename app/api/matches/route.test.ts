@@ -0,0 +1,159 @@
+import type { NextRequest } from 'next/server';
+import { GET } from './route';
+import { getAuthenticatedUser, createUnauthorizedResponse } from '@/lib/supabase/auth';
+
+jest.mock('@/lib/supabase/auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+  createUnauthorizedResponse: jest.fn(),
+}));
+
+describe('GET /api/matches', () => {
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+  const ride = {
+    start_location: 'San Francisco',
+    end_location: 'South Lake Tahoe',
+    start_lat: 37.7749,
+    start_lng: -122.4194,
+    end_lat: 38.9399,
+    end_lng: -119.9772,
+    departure_date: tomorrow,
+    departure_time: '07:00:00',
+    is_round_trip: false,
+    return_date: null,
+    trip_direction: null,
+    status: 'active',
+  };
+
+  const myRequest = {
+    ...ride,
+    id: 'request-1',
+    poster_id: 'passenger-1',
+    posting_type: 'passenger',
+    total_seats: 1,
+    available_seats: null,
+  };
+
+  const driverOffer = {
+    ...ride,
+    id: 'offer-1',
+    poster_id: 'driver-1',
+    posting_type: 'driver',
+    total_seats: 3,
+    available_seats: 2,
+  };
+
+  const request = { url: 'http://localhost/api/matches' } as NextRequest;
+
+  const buildSupabase = (candidates: unknown[]) => {
+    const candidateQuery = {
+      in: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      neq: jest.fn().mockReturnThis(),
+      gte: jest.fn().mockReturnThis(),
+      lte: jest.fn().mockResolvedValue({ data: candidates, error: null }),
+    };
+    const myRidesQuery = {
+      eq: jest.fn().mockReturnThis(),
+      gte: jest.fn().mockResolvedValue({ data: [myRequest], error: null }),
+    };
+    const rideSelect = jest
+      .fn()
+      .mockReturnValueOnce(myRidesQuery)
+      .mockReturnValueOnce(candidateQuery);
+
+    const supabase = {
+      from: jest.fn((tableName: string) => {
+        if (tableName === 'rides') {
+          return { select: rideSelect };
+        }
+        if (tableName === 'profiles') {
+          const inFn = jest.fn().mockResolvedValue({
+            data: [{ id: 'driver-1', first_name: 'Dana', last_name: 'Driver' }],
+            error: null,
+          });
+          return { select: jest.fn().mockReturnValue({ in: inFn }) };
+        }
+        return { select: jest.fn() };
+      }),
+    };
+
+    return { supabase, candidateQuery };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns 401 when not authenticated', async () => {
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: null,
+      authError: 'Unauthorized',
+      supabase: {},
+    });
+    (createUnauthorizedResponse as jest.Mock).mockReturnValue({ status: 401 });
+
+    const response = await GET(request);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('ranks driver offers against the passenger request with explanations', async () => {
+    const { supabase, candidateQuery } = buildSupabase([driverOffer]);
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'passenger-1' },
+      authError: null,
+      supabase,
+    });
+
+    const response = await GET(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(candidateQuery.in).toHaveBeenCalledWith(
+      'posting_type',
+      expect.arrayContaining(['driver', 'flexible'])
+    );
+    expect(candidateQuery.neq).toHaveBeenCalledWith('poster_id', 'passenger-1');
+    expect(body.total).toBe(1);
+    expect(body.matches[0]).toMatchObject({
+      score: 100,
+      driverRide: { id: 'offer-1', owner: { first_name: 'Dana' } },
+      passengerRide: { id: 'request-1' },
+    });
+    expect(body.matches[0].breakdown).toContainEqual(
+      expect.objectContaining({ factor: 'seats', explanation: '2 seats left' })
+    );
+  });
+
+  it('skips rides whose owner profile is unavailable', async () => {
+    const { supabase } = buildSupabase([{ ...driverOffer, poster_id: 'driver-2' }]);
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'passenger-1' },
+      authError: null,
+      supabase,
+    });
+
+    const response = await GET(request);
+    const body = await response.json();
+
+    expect(body).toEqual({ matches: [], total: 0 });
+  });
+
+  it.each(['abc', '0', '2.5'])('falls back to a usable limit for ?limit=%s', async (limit) => {
+    const { supabase } = buildSupabase([driverOffer]);
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'passenger-1' },
+      authError: null,
+      supabase,
+    });
+
+    const response = await GET({
+      url: `http://localhost/api/matches?limit=${limit}`,
+    } as NextRequest);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.matches).toHaveLength(1);
+  });
+});
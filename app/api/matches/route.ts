@@ -1,147 +1,140 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuthenticatedUser, createUnauthorizedResponse } from '@/lib/supabase/auth';
-import { calculateDistance } from '@/libs/distance';
+import { rankRideMatches, type MatchableRide } from '@/libs/rideMatching';
+import type { RidePostType } from '@/app/community/types';
+
+const RIDE_COLUMNS = `
+  id,
+  poster_id,
+  posting_type,
+  title,
+  start_location,
+  end_location,
+  start_lat,
+  start_lng,
+  end_lat,
+  end_lng,
+  departure_date,
+  departure_time,
+  return_date,
+  return_time,
+  is_round_trip,
+  trip_direction,
+  total_seats,
+  available_seats,
+  price_per_seat,
+  status
+`;
+
+// Candidates departing more than this many days from any of the user's rides
+// can't earn timing points, so they aren't fetched
+const CANDIDATE_WINDOW_DAYS = 2;
+
+const DEFAULT_MATCH_LIMIT = 6;
+const MAX_MATCH_LIMIT = 50;
+
+type MatchRide = MatchableRide &
+  Pick<
+    RidePostType,
+    'title' | 'start_location' | 'end_location' | 'return_time' | 'price_per_seat' | 'status'
+  > & { owner?: RidePostType['owner'] };
+
+const shiftDate = (date: string, days: number): string => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+};
 
 /**
- * Finds potential carpool matches based on location proximity and user role.
- * - Drivers see passengers.
- * - Passengers see drivers.
- * - Results are sorted by distance.
+ * Suggests rides from other members that fit the current user's active posts.
+ * - Driver posts are paired with passenger requests, and passenger requests with
+ *   driver offers; flexible posts pair with either.
+ * - Each pair is scored on start and end proximity, departure timing, trip
+ *   direction and seat availability, with an explanation per factor.
+ * - Results are sorted by score.
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const limit = Number.parseInt(searchParams.get('limit') || '4');
+    const requestedLimit = Number(searchParams.get('limit') ?? DEFAULT_MATCH_LIMIT);
+    const limit = Number.isInteger(requestedLimit)
+      ? Math.min(Math.max(requestedLimit, 1), MAX_MATCH_LIMIT)
+      : DEFAULT_MATCH_LIMIT;
     const { user, authError, supabase } = await getAuthenticatedUser(request);
 
     if (authError || !user) {
       return createUnauthorizedResponse(authError);
     }
 
-    // Fetch profile for role-based matching logic
-    const { data: currentProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('id, display_lat, display_lng, role, first_name')
-      .eq('id', user.id)
-      .single();
-
-    if (profileError || !currentProfile) {
-      console.error('Error fetching current profile:', profileError);
-      return NextResponse.json(
-        { error: 'Profile not found' },
-        {
-          status: 404,
-        }
-      );
+    const today = new Date().toISOString().split('T')[0];
+
+    const { data: myRides, error: myRidesError } = (await supabase
+      .from('rides')
+      .select(RIDE_COLUMNS)
+      .eq('poster_id', user.id)
+      .eq('status', 'active')
+      .gte('departure_date', today)) as { data: MatchRide[] | null; error: unknown };
+
+    if (myRidesError) {
+      console.error('Error fetching own rides:', myRidesError);
+      return NextResponse.json({ error: 'Failed to fetch rides' }, { status: 500 });
     }
 
-    if (!currentProfile.display_lat || !currentProfile.display_lng) {
-      return NextResponse.json(
-        {
-          error: 'Location not set',
-          needsLocation: true,
-        },
-        { status: 400 }
-      );
+    if (!myRides || myRides.length === 0) {
+      return NextResponse.json({ matches: [], total: 0 });
     }
 
-    console.log('Current user profile:', {
-      id: currentProfile.id,
-      role: currentProfile.role,
-      location: {
-        lat: currentProfile.display_lat,
-        lng: currentProfile.display_lng,
-      },
-    });
+    // Only fetch the roles that can pair with the user's posts
+    const targetTypes = new Set<string>(['flexible']);
+    for (const ride of myRides) {
+      if (ride.posting_type !== 'passenger') targetTypes.add('passenger');
+      if (ride.posting_type !== 'driver') targetTypes.add('driver');
+    }
 
-    // Determine matching strategy based on current user's role
-    let targetRoles: string[] = [];
-
-    if (currentProfile.role === 'driver') {
-      // Drivers should see passengers
-      targetRoles = ['passenger', 'both'];
-    } else if (currentProfile.role === 'passenger') {
-      // Passengers should see drivers
-      targetRoles = ['driver', 'both'];
-    } else if (currentProfile.role === 'both') {
-      // "Both" users see everyone
-      targetRoles = ['driver', 'passenger', 'both'];
+    const departureDates = myRides.map((ride) => ride.departure_date).sort();
+    const earliest = shiftDate(departureDates[0], -CANDIDATE_WINDOW_DAYS);
+    const latest = shiftDate(departureDates.at(-1)!, CANDIDATE_WINDOW_DAYS);
+
+    const { data: candidates, error: candidatesError } = (await supabase
+      .from('rides')
+      .select(RIDE_COLUMNS)
+      .in('posting_type', Array.from(targetTypes))
+      .eq('status', 'active')
+      .neq('poster_id', user.id)
+      .gte('departure_date', earliest > today ? earliest : today)
+      .lte('departure_date', latest)) as { data: MatchRide[] | null; error: unknown };
+
+    if (candidatesError) {
+      console.error('Error fetching candidate rides:', candidatesError);
+      return NextResponse.json({ error: 'Failed to fetch rides' }, { status: 500 });
     }
 
-    console.log('Matching criteria:', { targetRoles });
+    if (!candidates || candidates.length === 0) {
+      return NextResponse.json({ matches: [], total: 0 });
+    }
 
-    // Fetch closest profiles matching the target role criteria
-    const profileQuery = supabase
+    const posterIds = Array.from(new Set(candidates.map((ride) => ride.poster_id)));
+    const { data: profiles, error: profilesError } = await supabase
       .from('profiles')
-      .select(
-        `
-        id,
-        first_name,
-        last_name,
-        profile_photo_url,
-        bio,
-        city,
-        role,
-        display_lat,
-        display_lng,
-        street_address,
-        state,
-        zip_code
-      `
-      )
-      .in('role', targetRoles)
-      .neq('id', user.id)
-      .not('display_lat', 'is', null)
-      .not('display_lng', 'is', null);
-
-    const { data: profiles, error: profilesError } = await profileQuery;
+      .select('id, first_name, last_name, profile_photo_url, city')
+      .in('id', posterIds);
 
     if (profilesError) {
-      console.error('Error fetching profiles:', profilesError);
-      return NextResponse.json(
-        { error: 'Failed to fetch profiles' },
-        {
-          status: 500,
-        }
-      );
+      console.error('Error fetching profiles for matches:', profilesError);
     }
 
-    console.log(`Found ${profiles?.length || 0} potential matches`);
-
-    // Calculate distances and sort
-    const matchesWithDistance = (profiles || []).map((profile) => {
-      const distance = calculateDistance(
-        currentProfile.display_lat,
-        currentProfile.display_lng,
-        profile.display_lat,
-        profile.display_lng
-      );
-
-      return {
-        ...profile,
-        distance,
-      };
-    });
+    const profileMap = new Map(profiles?.map((profile) => [profile.id, profile]));
 
-    // Sort by distance and limit
-    const nearestMatches = matchesWithDistance
-      .toSorted((a, b) => a.distance - b.distance)
-      .slice(0, limit);
-
-    console.log(
-      `Sorted matches by distance:`,
-      nearestMatches.map((m) => ({
-        name: m.first_name,
-        city: m.city,
-        distance: m.distance.toFixed(2),
-      }))
-    );
+    // Skip rides whose owner can't be shown (e.g. incomplete or hidden profiles)
+    const candidatesWithOwners = candidates
+      .map((ride) => ({ ...ride, owner: profileMap.get(ride.poster_id) ?? null }))
+      .filter((ride) => ride.owner?.first_name) as MatchRide[];
 
-    console.log(`Returning top ${nearestMatches.length} nearest matches`);
+    const matches = rankRideMatches(myRides, candidatesWithOwners).slice(0, limit);
 
     return NextResponse.json({
-      matches: nearestMatches,
-      total: nearestMatches.length,
+      matches,
+      total: matches.length,
     });
   } catch (error) {
     console.error('Error in matches API:', error);
@@ -1,6 +1,7 @@
 import type { NextRequest } from 'next/server';
-import { POST } from './route';
+import { GET, POST } from './route';
 import { getAuthenticatedUser } from '@/lib/supabase/auth';
+import { scheduleMessageDigest } from '@/libs/email';
 
 jest.mock('@/lib/supabase/auth', () => ({
   getAuthenticatedUser: jest.fn(),
@@ -14,6 +15,14 @@ jest.mock('@/libs/rateLimit', () => ({
   checkSupabaseRateLimit: jest.fn().mockResolvedValue({ success: true }),
 }));
 
+jest.mock('@/lib/supabase/server', () => ({
+  createAdminClient: jest.fn(() => ({})),
+}));
+
+jest.mock('@/libs/email', () => ({
+  scheduleMessageDigest: jest.fn().mockResolvedValue(true),
+}));
+
 describe('POST /api/messages', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -125,4 +134,233 @@ describe('POST /api/messages', () => {
     const json = await res.json();
     expect(json.error).toBe('Message content cannot exceed 5000 characters');
   });
+
+  describe('direct messages', () => {
+    const mockDirectMessage = () => {
+      const conversationsBuilder = {
+        select: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
+        is: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockResolvedValue({ error: null }),
+        update: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({ data: { id: 'convo-1' }, error: null }),
+      };
+      const messagesBuilder = {
+        insert: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({
+          data: { id: 'msg-1', created_at: '2026-01-15T18:00:00Z' },
+          error: null,
+        }),
+      };
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+        user: { id: validUserId },
+        authError: null,
+        supabase: {
+          from: jest.fn((table: string) =>
+            table === 'conversations' ? conversationsBuilder : messagesBuilder
+          ),
+        },
+      });
+
+      return {
+        json: jest.fn().mockResolvedValue({ recipient_id: validRecipientId, content: 'Hello!' }),
+      } as unknown as NextRequest;
+    };
+
+    it('queues an email digest for the recipient instead of emailing right away', async () => {
+      const res = await POST(mockDirectMessage());
+
+      expect(res.status).toBe(200);
+      expect(scheduleMessageDigest).toHaveBeenCalledWith(
+        expect.anything(),
+        validRecipientId,
+        '2026-01-15T18:00:00Z'
+      );
+    });
+
+    it('still sends the message when the digest cannot be queued', async () => {
+      (scheduleMessageDigest as jest.Mock).mockRejectedValueOnce(new Error('queue down'));
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const res = await POST(mockDirectMessage());
+
+      expect(res.status).toBe(200);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('group chat messages', () => {
+    const conversationId = '123e4567-e89b-12d3-a456-426614174002';
+    const rideId = '123e4567-e89b-12d3-a456-426614174003';
+
+    const createSupabase = (groupChat: { id: string; ride_id: string } | null) => {
+      const conversationsBuilder = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({ data: groupChat, error: null }),
+      };
+      const messagesBuilder = {
+        insert: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({ data: { id: 'msg-1' }, error: null }),
+      };
+      const supabase = {
+        from: jest.fn((table: string) =>
+          table === 'conversations' ? conversationsBuilder : messagesBuilder
+        ),
+        rpc: jest.fn(),
+      };
+      return { supabase, conversationsBuilder, messagesBuilder };
+    };
+
+    it('posts a message without a recipient to the group chat', async () => {
+      const { supabase, conversationsBuilder, messagesBuilder } = createSupabase({
+        id: conversationId,
+        ride_id: rideId,
+      });
+
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+        user: { id: validUserId },
+        authError: null,
+        supabase,
+      });
+
+      const request = {
+        json: jest.fn().mockResolvedValue({ conversation_id: conversationId, content: ' Hi all ' }),
+      } as unknown as NextRequest;
+
+      const res = await POST(request);
+
+      expect(res.status).toBe(200);
+      expect(conversationsBuilder.eq).toHaveBeenCalledWith('is_group', true);
+      expect(messagesBuilder.insert).toHaveBeenCalledWith({
+        sender_id: validUserId,
+        recipient_id: null,
+        ride_id: rideId,
+        conversation_id: conversationId,
+        subject: null,
+        content: 'Hi all',
+      });
+      const json = await res.json();
+      expect(json.conversation_id).toBe(conversationId);
+    });
+
+    it('returns 404 when the conversation is not a group chat the user can see', async () => {
+      const { supabase, messagesBuilder } = createSupabase(null);
+
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+        user: { id: validUserId },
+        authError: null,
+        supabase,
+      });
+
+      const request = {
+        json: jest.fn().mockResolvedValue({ conversation_id: conversationId, content: 'Hello' }),
+      } as unknown as NextRequest;
+
+      const res = await POST(request);
+
+      expect(res.status).toBe(404);
+      expect(messagesBuilder.insert).not.toHaveBeenCalled();
+    });
+
+    it('returns 400 for invalid conversation_id format', async () => {
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+        user: { id: validUserId },
+        authError: null,
+        supabase: { from: jest.fn(), rpc: jest.fn() },
+      });
+
+      const request = {
+        json: jest.fn().mockResolvedValue({ conversation_id: 'not-a-uuid', content: 'Hello' }),
+      } as unknown as NextRequest;
+
+      const res = await POST(request);
+
+      expect(res.status).toBe(400);
+      const json = await res.json();
+      expect(json.error).toBe('Invalid conversation_id format');
+    });
+  });
+});
+
+describe('GET /api/messages', () => {
+  const conversationId = '123e4567-e89b-12d3-a456-426614174002';
+
+  const createSupabase = (rows: Array<{ id: string; created_at: string }>) => {
+    const builder = {
+      select: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      or: jest.fn().mockReturnThis(),
+      order: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockResolvedValue({ data: rows, error: null }),
+    };
+    return { supabase: { from: jest.fn(() => builder) }, builder };
+  };
+
+  const request = (query: string) =>
+    ({ url: `http://localhost/api/messages?${query}` }) as unknown as NextRequest;
+
+  const row = (n: number) => ({
+    id: `123e4567-e89b-12d3-a456-4266141740${String(n).padStart(2, '0')}`,
+    created_at: `2026-01-01T10:${String(n).padStart(2, '0')}:00+00:00`,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns the newest page oldest first with a cursor for the page before', async () => {
+    // Newest first from the database, one extra row beyond the limit
+    const { supabase, builder } = createSupabase([row(3), row(2), row(1)]);
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'user-1' },
+      authError: null,
+      supabase,
+    });
+
+    const res = await GET(request(`conversation_id=${conversationId}&limit=2`));
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(builder.limit).toHaveBeenCalledWith(3);
+    expect(builder.or).not.toHaveBeenCalled();
+    expect(json.messages.map((m: { id: string }) => m.id)).toEqual([row(2).id, row(3).id]);
+    expect(json.nextCursor).toEqual(expect.any(String));
+  });
+
+  it('loads messages before the cursor and ends paging at the start of the thread', async () => {
+    const { supabase, builder } = createSupabase([row(1)]);
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'user-1' },
+      authError: null,
+      supabase,
+    });
+    const cursor = btoa(`${row(2).created_at}|${row(2).id}`);
+
+    const res = await GET(
+      request(`conversation_id=${conversationId}&before=${encodeURIComponent(cursor)}`)
+    );
+    const json = await res.json();
+
+    expect(builder.or).toHaveBeenCalledWith(
+      `created_at.lt."${row(2).created_at}",and(created_at.eq."${row(2).created_at}",id.lt.${row(2).id})`
+    );
+    expect(json.messages).toHaveLength(1);
+    expect(json.nextCursor).toBeNull();
+  });
+
+  it('returns 400 for an invalid cursor', async () => {
+    const { supabase } = createSupabase([]);
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'user-1' },
+      authError: null,
+      supabase,
+    });
+
+    const res = await GET(request(`conversation_id=${conversationId}&before=bogus`));
+
+    expect(res.status).toBe(400);
+  });
 });
@@ -7,12 +7,36 @@ import {
 import { createAdminClient } from '@/lib/supabase/server';
 import { checkSupabaseRateLimit } from '@/libs/rateLimit';
 import { isValidUUID } from '@/libs/validation';
-import { getAppUrl, getUserWithEmail, sendEmail } from '@/libs/email';
+import { scheduleMessageDigest } from '@/libs/email';
+import { decodeMessageCursor, encodeMessageCursor } from '@/libs/messageThread';
 
 const MAX_MESSAGE_LENGTH = 5000;
+const MESSAGE_PAGE_SIZE = 30;
+const MAX_MESSAGE_PAGE_SIZE = 100;
 
 /**
- * Sends a new message between authenticated users.
+ * Checks the raw length before trimming to prevent DoS with large payloads.
+ */
+function validateContent(content: unknown): { content: string } | { error: string } {
+  if (typeof content !== 'string') {
+    return { error: 'Message content must be a string' };
+  }
+
+  if (content.length > MAX_MESSAGE_LENGTH) {
+    return { error: `Message content cannot exceed ${MAX_MESSAGE_LENGTH} characters` };
+  }
+
+  const trimmed = content.trim();
+  if (!trimmed) {
+    return { error: 'Message content cannot be empty' };
+  }
+
+  return { content: trimmed };
+}
+
+/**
+ * Sends a new message between authenticated users, or to a ride group chat
+ * when a conversation_id is given without a recipient_id.
  * Rate limited to 20 messages per hour per user.
  * Users must have a complete profile (first_name) to send messages.
  * RLS policies enforce that users are not blocked from messaging each other.
@@ -49,12 +73,59 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { recipient_id, content, ride_post_id } = await request.json();
+    const { recipient_id, content, ride_post_id, conversation_id } = await request.json();
 
-    if (!recipient_id || !content) {
+    if ((!recipient_id && !conversation_id) || !content) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
+    // Ride group chat: no recipient, RLS limits posting to the ride's members
+    if (!recipient_id) {
+      if (!isValidUUID(conversation_id)) {
+        return NextResponse.json({ error: 'Invalid conversation_id format' }, { status: 400 });
+      }
+
+      const groupContent = validateContent(content);
+      if ('error' in groupContent) {
+        return NextResponse.json({ error: groupContent.error }, { status: 400 });
+      }
+
+      const { data: groupChat, error: groupChatError } = await supabase
+        .from('conversations')
+        .select('id, ride_id')
+        .eq('id', conversation_id)
+        .eq('is_group', true)
+        .maybeSingle();
+
+      if (groupChatError) throw groupChatError;
+
+      if (!groupChat) {
+        return NextResponse.json({ error: 'Group chat not found' }, { status: 404 });
+      }
+
+      // Group messages are not emailed; members see them in the messages page
+      const { data: groupMessage, error: groupMessageError } = await supabase
+        .from('messages')
+        .insert({
+          sender_id: user.id,
+          recipient_id: null,
+          ride_id: groupChat.ride_id,
+          conversation_id: groupChat.id,
+          subject: null,
+          content: groupContent.content,
+        })
+        .select()
+        .single();
+
+      if (groupMessageError) throw groupMessageError;
+
+      return NextResponse.json({
+        success: true,
+        message: groupMessage,
+        conversation_id: groupChat.id,
+      });
+    }
+
     // Validate UUID format to prevent injection
     if (!isValidUUID(recipient_id)) {
       return NextResponse.json({ error: 'Invalid recipient_id format' }, { status: 400 });
@@ -69,22 +140,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid ride_post_id format' }, { status: 400 });
     }
 
-    // Validate content - check raw length first to prevent DoS with large payloads
-    if (typeof content !== 'string') {
-      return NextResponse.json({ error: 'Message content must be a string' }, { status: 400 });
-    }
-
-    if (content.length > MAX_MESSAGE_LENGTH) {
-      return NextResponse.json(
-        { error: `Message content cannot exceed ${MAX_MESSAGE_LENGTH} characters` },
-        { status: 400 }
-      );
-    }
-
-    const trimmedContent = content.trim();
-    if (!trimmedContent) {
-      return NextResponse.json({ error: 'Message content cannot be empty' }, { status: 400 });
+    const contentResult = validateContent(content);
+    if ('error' in contentResult) {
+      return NextResponse.json({ error: contentResult.error }, { status: 400 });
     }
+    const trimmedContent = contentResult.content;
 
     // Find existing conversation with optimized query
     // Check both orderings: (user, recipient) or (recipient, user) AND filter by ride_id
@@ -178,39 +238,11 @@ export async function POST(request: NextRequest) {
 
     if (messageError) throw messageError;
 
-    // Send email notification to recipient
+    // Queue an email digest for the recipient; messages read before it goes out are left out
     try {
-      // Don't send email to self
-      if (recipient_id !== user.id) {
-        const adminSupabase = createAdminClient();
-
-        // Fetch both recipient (with email) and sender data in parallel
-        const [recipient, senderResult] = await Promise.all([
-          getUserWithEmail(adminSupabase, recipient_id),
-          adminSupabase.from('profiles').select('first_name, last_name').eq('id', user.id).single(),
-        ]);
-
-        if (recipient?.email && senderResult.data) {
-          const sender = senderResult.data;
-          await sendEmail({
-            userId: recipient_id,
-            to: recipient.email,
-            emailType: 'new_message',
-            payload: {
-              recipientName: recipient.first_name || '',
-              senderName: `${sender.first_name} ${sender.last_name}`.trim(),
-              senderInitial: (sender.first_name || 'U')[0].toUpperCase(),
-              messagePreview:
-                trimmedContent.substring(0, 100) + (trimmedContent.length > 100 ? '...' : ''),
-              messageTime: new Date().toLocaleString(),
-              messageUrl: `${getAppUrl()}/messages/${message.id}`,
-              threadId: conversationId,
-            },
-          });
-        }
-      }
+      await scheduleMessageDigest(createAdminClient(), recipient_id, message.created_at);
     } catch (emailError: unknown) {
-      console.error('Error sending message notification email:', emailError);
+      console.error('Error scheduling message notification email:', emailError);
       // Don't fail the message creation if email fails
     }
 
@@ -231,7 +263,10 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Retrieves messages for a specific conversation.
+ * Retrieves a page of messages for a conversation, oldest first within the page.
+ * Without `before` this is the newest page; pass the returned `nextCursor` as
+ * `before` to load the page before it. `nextCursor` is null at the start of
+ * the thread.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -243,6 +278,7 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const conversationId = searchParams.get('conversation_id');
+    const before = searchParams.get('before');
 
     if (!conversationId) {
       return NextResponse.json(
@@ -262,12 +298,23 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Fetch messages for the conversation
-    const { data: messages, error } = await supabase
+    const requestedLimit = Number(searchParams.get('limit') ?? MESSAGE_PAGE_SIZE);
+    const limit = Number.isInteger(requestedLimit)
+      ? Math.min(Math.max(requestedLimit, 1), MAX_MESSAGE_PAGE_SIZE)
+      : MESSAGE_PAGE_SIZE;
+
+    let query = supabase
       .from('messages')
       .select(
         `
-        *,
+        id,
+        sender_id,
+        recipient_id,
+        ride_id,
+        conversation_id,
+        content,
+        is_read,
+        created_at,
         sender:profiles!messages_sender_id_fkey (
           id,
           first_name,
@@ -276,12 +323,31 @@ export async function GET(request: NextRequest) {
         )
       `
       )
-      .eq('conversation_id', conversationId)
-      .order('created_at', { ascending: true });
+      .eq('conversation_id', conversationId);
+
+    if (before) {
+      const cursor = decodeMessageCursor(before);
+      if (!cursor) {
+        return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+      }
+      query = query.or(
+        `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`
+      );
+    }
+
+    // Fetch one extra row to know whether an older page exists
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
 
     if (error) throw error;
 
-    return NextResponse.json({ messages });
+    const rows = data ?? [];
+    const messages = rows.slice(0, limit).reverse();
+    const nextCursor = rows.length > limit ? encodeMessageCursor(messages[0]) : null;
+
+    return NextResponse.json({ messages, nextCursor });
   } catch (error: unknown) {
     console.error('Error fetching messages:', error);
     return NextResponse.json(
@@ -0,0 +1,76 @@
+import type { NextRequest } from 'next/server';
+import { GET } from './route';
+import { getAuthenticatedUser } from '@/lib/supabase/auth';
+
+jest.mock('@/lib/supabase/auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+  createUnauthorizedResponse: jest
+    .fn()
+    .mockReturnValue(new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 })),
+}));
+
+describe('GET /api/messages/search', () => {
+  const request = (query: string) =>
+    ({ url: `http://localhost/api/messages/search?${query}` }) as unknown as NextRequest;
+
+  const createSupabase = () => {
+    const builder = {
+      select: jest.fn().mockReturnThis(),
+      textSearch: jest.fn().mockReturnThis(),
+      not: jest.fn().mockReturnThis(),
+      order: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockResolvedValue({ data: [{ id: 'msg-1' }], error: null }),
+    };
+    return { supabase: { from: jest.fn(() => builder) }, builder };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns 401 when not authenticated', async () => {
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: null,
+      authError: new Error('no session'),
+      supabase: {},
+    });
+
+    const res = await GET(request('q=chains'));
+
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects queries that are too short', async () => {
+    const { supabase, builder } = createSupabase();
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'user-1' },
+      authError: null,
+      supabase,
+    });
+
+    const res = await GET(request('q=a'));
+
+    expect(res.status).toBe(400);
+    expect(builder.textSearch).not.toHaveBeenCalled();
+  });
+
+  it('searches message text with websearch syntax', async () => {
+    const { supabase, builder } = createSupabase();
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'user-1' },
+      authError: null,
+      supabase,
+    });
+
+    const res = await GET(request('q=%20snow%20chains%20'));
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(builder.textSearch).toHaveBeenCalledWith('content_search', 'snow chains', {
+      type: 'websearch',
+      config: 'english',
+    });
+    expect(builder.order).toHaveBeenCalledWith('created_at', { ascending: false });
+    expect(json.results).toEqual([{ id: 'msg-1' }]);
+  });
+});
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, createUnauthorizedResponse } from '@/lib/supabase/auth';
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 100;
+const MAX_RESULTS = 20;
+
+/**
+ * Full-text search over the messages in the current user's conversations,
+ * newest first. RLS limits results to 1:1 threads the user is in and group
+ * chats for rides they are on.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const query = new URL(request.url).searchParams.get('q')?.trim() ?? '';
+
+    if (query.length < MIN_QUERY_LENGTH || query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json(
+        {
+          error: `Search must be between ${MIN_QUERY_LENGTH} and ${MAX_QUERY_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: results, error } = await supabase
+      .from('messages')
+      .select(
+        `
+        id,
+        conversation_id,
+        content,
+        created_at,
+        sender:profiles!messages_sender_id_fkey(id, first_name, last_name)
+      `
+      )
+      .textSearch('content_search', query, { type: 'websearch', config: 'english' })
+      .not('conversation_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(MAX_RESULTS);
+
+    if (error) throw error;
+
+    return NextResponse.json({ results });
+  } catch (error: unknown) {
+    console.error('Error searching messages:', error);
+    return NextResponse.json({ error: 'Failed to search messages' }, { status: 500 });
+  }
+}
@@ -0,0 +1,121 @@
+import type { NextRequest } from 'next/server';
+import { GET, PATCH } from './route';
+import { getAuthenticatedUser } from '@/lib/supabase/auth';
+import { encodeMessageCursor } from '@/libs/messageThread';
+
+jest.mock('@/lib/supabase/auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+  createUnauthorizedResponse: jest
+    .fn()
+    .mockReturnValue(new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 })),
+}));
+
+const NOTIFICATION_ID = '11111111-1111-4111-8111-111111111111';
+
+describe('/api/notifications', () => {
+  const createSupabase = (result: { data?: unknown; error: unknown }) => {
+    const builder: Record<string, jest.Mock> & { then?: unknown } = {};
+    for (const method of ['select', 'update', 'eq', 'is', 'in', 'or', 'order', 'limit']) {
+      builder[method] = jest.fn(() => builder);
+    }
+    // eslint-disable-next-line no-unused-vars
+    builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+    return { supabase: { from: jest.fn(() => builder) }, builder };
+  };
+
+  const signIn = (supabase: unknown) =>
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'user-1' },
+      authError: null,
+      supabase,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET', () => {
+    const request = (query = '') =>
+      ({ url: `http://localhost/api/notifications?${query}` }) as unknown as NextRequest;
+
+    it('returns 401 when not authenticated', async () => {
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+        user: null,
+        authError: new Error('no session'),
+        supabase: {},
+      });
+
+      const res = await GET(request());
+
+      expect(res.status).toBe(401);
+    });
+
+    it('returns the newest page with a cursor for older notifications', async () => {
+      const rows = [
+        { id: 'n-3', created_at: '2026-02-05T12:00:00Z' },
+        { id: 'n-2', created_at: '2026-02-05T11:00:00Z' },
+        { id: 'n-1', created_at: '2026-02-05T10:00:00Z' },
+      ];
+      const { supabase, builder } = createSupabase({ data: rows, error: null });
+      signIn(supabase);
+
+      const res = await GET(request('limit=2'));
+      const json = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(builder.eq).toHaveBeenCalledWith('user_id', 'user-1');
+      expect(builder.limit).toHaveBeenCalledWith(3);
+      expect(json.notifications).toEqual(rows.slice(0, 2));
+      expect(json.nextCursor).toBe(encodeMessageCursor(rows[1]));
+    });
+
+    it('rejects a malformed cursor', async () => {
+      const { supabase, builder } = createSupabase({ data: [], error: null });
+      signIn(supabase);
+
+      const res = await GET(request('before=not-a-cursor'));
+
+      expect(res.status).toBe(400);
+      expect(builder.or).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH', () => {
+    const request = (body: unknown) =>
+      ({ json: jest.fn().mockResolvedValue(body) }) as unknown as NextRequest;
+
+    it('marks the given notifications read', async () => {
+      const { supabase, builder } = createSupabase({ error: null });
+      signIn(supabase);
+
+      const res = await PATCH(request({ ids: [NOTIFICATION_ID] }));
+
+      expect(res.status).toBe(200);
+      expect(builder.update).toHaveBeenCalledWith({ read_at: expect.any(String) });
+      expect(builder.eq).toHaveBeenCalledWith('user_id', 'user-1');
+      expect(builder.is).toHaveBeenCalledWith('read_at', null);
+      expect(builder.in).toHaveBeenCalledWith('id', [NOTIFICATION_ID]);
+    });
+
+    it('marks every unread notification read', async () => {
+      const { supabase, builder } = createSupabase({ error: null });
+      signIn(supabase);
+
+      const res = await PATCH(request({ all: true }));
+
+      expect(res.status).toBe(200);
+      expect(builder.update).toHaveBeenCalled();
+      expect(builder.in).not.toHaveBeenCalled();
+    });
+
+    it('rejects a body without ids or all', async () => {
+      const { supabase, builder } = createSupabase({ error: null });
+      signIn(supabase);
+
+      const res = await PATCH(request({ ids: ['not-a-uuid'] }));
+
+      expect(res.status).toBe(400);
+      expect(builder.update).not.toHaveBeenCalled();
+    });
+  });
+});
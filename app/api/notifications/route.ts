@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getAuthenticatedUser, createUnauthorizedResponse } from '@/lib/supabase/auth';
+import { decodeMessageCursor, encodeMessageCursor } from '@/libs/messageThread';
+import { markNotificationsReadSchema } from '@/libs/validations/notifications';
+
+const NOTIFICATION_PAGE_SIZE = 20;
+const MAX_NOTIFICATION_PAGE_SIZE = 50;
+
+/**
+ * Lists the current user's notifications, newest first. Pass the returned
+ * `nextCursor` as `before` to load older ones.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const before = searchParams.get('before');
+
+    const requestedLimit = Number(searchParams.get('limit') ?? NOTIFICATION_PAGE_SIZE);
+    const limit = Number.isInteger(requestedLimit)
+      ? Math.min(Math.max(requestedLimit, 1), MAX_NOTIFICATION_PAGE_SIZE)
+      : NOTIFICATION_PAGE_SIZE;
+
+    let query = supabase
+      .from('notifications')
+      .select('id, type, title, body, data, read_at, created_at')
+      .eq('user_id', user.id);
+
+    if (before) {
+      const cursor = decodeMessageCursor(before);
+      if (!cursor) {
+        return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+      }
+      query = query.or(
+        `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`
+      );
+    }
+
+    // Fetch one extra row to know whether an older page exists
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
+
+    if (error) throw error;
+
+    const rows = data ?? [];
+    const notifications = rows.slice(0, limit);
+    const nextCursor =
+      rows.length > limit ? encodeMessageCursor(notifications[notifications.length - 1]) : null;
+
+    return NextResponse.json({ notifications, nextCursor });
+  } catch (error: unknown) {
+    console.error('Error fetching notifications:', error);
+    return NextResponse.json({ error: 'Failed to fetch notifications' }, { status: 500 });
+  }
+}
+
+/**
+ * Marks the given notifications, or all of the user's notifications, as read.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const validationResult = markNotificationsReadSchema.safeParse(await request.json());
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: z.treeifyError(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    let query = supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .is('read_at', null);
+
+    if ('ids' in validationResult.data) {
+      query = query.in('id', validationResult.data.ids);
+    }
+
+    const { error } = await query;
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error marking notifications read:', error);
+    return NextResponse.json({ error: 'Failed to update notifications' }, { status: 500 });
+  }
+}
@@ -0,0 +1,160 @@
+import type { NextRequest } from 'next/server';
+import { PATCH, POST } from './route';
+import { getAuthenticatedUser, isAdminUser } from '@/lib/supabase/auth';
+import { createNotifications } from '@/lib/supabase/notifications';
+
+jest.mock('@/lib/supabase/auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+  createUnauthorizedResponse: jest.fn(),
+  isAdminUser: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/notifications', () => ({
+  createNotifications: jest.fn(),
+}));
+
+const results: Record<string, { data: unknown; error: unknown }> = {};
+const builders: Record<string, Array<Record<string, jest.Mock>>> = {};
+
+// Chainable stand-in for a Supabase query that resolves to the table's result
+function queryBuilder(table: string) {
+  const builder: Record<string, jest.Mock> & { then?: unknown } = {};
+  for (const method of ['select', 'insert', 'update', 'eq']) {
+    builder[method] = jest.fn(() => builder);
+  }
+  builder.single = jest.fn(() => Promise.resolve(results[table]));
+  builder.maybeSingle = jest.fn(() => Promise.resolve(results[table]));
+  // eslint-disable-next-line no-unused-vars
+  builder.then = (resolve: (value: unknown) => unknown) =>
+    Promise.resolve(results[table]).then(resolve);
+  (builders[table] ??= []).push(builder);
+  return builder;
+}
+
+const supabase = { from: jest.fn((table: string) => queryBuilder(table)) };
+
+const makeRequest = (body: unknown) =>
+  ({ json: jest.fn().mockResolvedValue(body) }) as unknown as NextRequest;
+
+const params = Promise.resolve({ id: 'review-1' });
+
+describe('/api/reviews/[id]/dispute', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    for (const table of Object.keys(builders)) delete builders[table];
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'user-1' },
+      authError: null,
+      supabase,
+    });
+  });
+
+  describe('POST', () => {
+    it('queues a dispute from the reviewee', async () => {
+      results.reviews = { data: { id: 'review-1', reviewee_id: 'user-1' }, error: null };
+      results.review_disputes = { data: { id: 'dispute-1', status: 'pending' }, error: null };
+
+      const response = await POST(
+        makeRequest({ reason: 'This trip was cancelled before it started.' }),
+        { params }
+      );
+
+      expect(response.status).toBe(200);
+      expect(builders.review_disputes[0].insert).toHaveBeenCalledWith({
+        review_id: 'review-1',
+        disputer_id: 'user-1',
+        reason: 'This trip was cancelled before it started.',
+      });
+    });
+
+    it('only lets the reviewee dispute', async () => {
+      results.reviews = { data: { id: 'review-1', reviewee_id: 'user-2' }, error: null };
+
+      const response = await POST(
+        makeRequest({ reason: 'This trip was cancelled before it started.' }),
+        { params }
+      );
+
+      expect(response.status).toBe(403);
+      expect(builders.review_disputes).toBeUndefined();
+    });
+
+    it('requires a reason', async () => {
+      const response = await POST(makeRequest({ reason: 'unfair' }), { params });
+
+      expect(response.status).toBe(400);
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it('rejects a second dispute of the same review', async () => {
+      results.reviews = { data: { id: 'review-1', reviewee_id: 'user-1' }, error: null };
+      results.review_disputes = { data: null, error: { code: '23505' } };
+
+      const response = await POST(
+        makeRequest({ reason: 'This trip was cancelled before it started.' }),
+        { params }
+      );
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('PATCH', () => {
+    beforeEach(() => {
+      (isAdminUser as jest.Mock).mockResolvedValue(true);
+    });
+
+    it('hides the review, resolves the dispute and tells the disputer', async () => {
+      results.reviews = { data: null, error: null };
+      results.review_disputes = {
+        data: { id: 'dispute-1', disputer_id: 'user-2' },
+        error: null,
+      };
+
+      const response = await PATCH(makeRequest({ decision: 'hidden' }), { params });
+
+      expect(response.status).toBe(200);
+      expect(builders.reviews[0].update).toHaveBeenCalledWith({ status: 'hidden' });
+      expect(builders.review_disputes[1].update).toHaveBeenCalledWith({
+        status: 'hidden',
+        resolved_by: 'user-1',
+        resolved_at: expect.any(String),
+      });
+      expect(builders.review_disputes[1].eq).toHaveBeenCalledWith('id', 'dispute-1');
+      expect(createNotifications).toHaveBeenCalledWith([
+        expect.objectContaining({
+          userId: 'user-2',
+          type: 'review_dispute_resolved',
+          body: 'The review you disputed has been removed from your profile.',
+        }),
+      ]);
+    });
+
+    it('keeps the review untouched when the dispute is rejected', async () => {
+      results.review_disputes = { data: { id: 'dispute-1' }, error: null };
+
+      const response = await PATCH(makeRequest({ decision: 'kept' }), { params });
+
+      expect(response.status).toBe(200);
+      expect(builders.reviews).toBeUndefined();
+    });
+
+    it('returns 404 without an open dispute', async () => {
+      results.review_disputes = { data: null, error: null };
+
+      const response = await PATCH(makeRequest({ decision: 'hidden' }), { params });
+
+      expect(response.status).toBe(404);
+      expect(builders.reviews).toBeUndefined();
+    });
+
+    it('is limited to admins', async () => {
+      (isAdminUser as jest.Mock).mockResolvedValue(false);
+
+      const response = await PATCH(makeRequest({ decision: 'hidden' }), { params });
+
+      expect(response.status).toBe(403);
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
+});
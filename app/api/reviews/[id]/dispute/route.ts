@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createUnauthorizedResponse, getAuthenticatedUser, isAdminUser } from '@/lib/supabase/auth';
+import { createNotifications } from '@/lib/supabase/notifications';
+import { resolveReviewDisputeSchema, reviewDisputeSchema } from '@/libs/validations/reviews';
+
+/**
+ * Disputes a review about the current user. Each review can be disputed once,
+ * and it stays up while the dispute waits in the admin queue.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const { id } = await params;
+    const validationResult = reviewDisputeSchema.safeParse(await request.json());
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: z.treeifyError(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    const { data: review, error: reviewError } = await supabase
+      .from('reviews')
+      .select('id, reviewee_id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (reviewError) throw reviewError;
+
+    if (!review) {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 });
+    }
+
+    if (review.reviewee_id !== user.id) {
+      return NextResponse.json(
+        { error: 'You can only dispute reviews about you' },
+        { status: 403 }
+      );
+    }
+
+    const { data: dispute, error: insertError } = await supabase
+      .from('review_disputes')
+      .insert({ review_id: id, disputer_id: user.id, reason: validationResult.data.reason })
+      .select()
+      .single();
+
+    if (insertError) {
+      if (insertError.code === '23505') {
+        return NextResponse.json(
+          { error: 'This review has already been disputed' },
+          { status: 409 }
+        );
+      }
+      throw insertError;
+    }
+
+    return NextResponse.json({ dispute });
+  } catch (error) {
+    console.error('Error disputing review:', error);
+    return NextResponse.json({ error: 'Failed to dispute review' }, { status: 500 });
+  }
+}
+
+/**
+ * Lets an admin resolve the open dispute on a review, either keeping the
+ * review or hiding it from profiles and ratings.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    if (!(await isAdminUser(supabase, user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const validationResult = resolveReviewDisputeSchema.safeParse(await request.json());
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: z.treeifyError(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    const { decision } = validationResult.data;
+
+    const { data: openDispute, error: fetchError } = await supabase
+      .from('review_disputes')
+      .select('id')
+      .eq('review_id', id)
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    if (!openDispute) {
+      return NextResponse.json({ error: 'No open dispute for this review' }, { status: 404 });
+    }
+
+    // Hide the review first so a failure leaves the dispute open to retry
+    if (decision === 'hidden') {
+      const { error: hideError } = await supabase
+        .from('reviews')
+        .update({ status: 'hidden' })
+        .eq('id', id);
+
+      if (hideError) throw hideError;
+    }
+
+    const { data: dispute, error: resolveError } = await supabase
+      .from('review_disputes')
+      .update({ status: decision, resolved_by: user.id, resolved_at: new Date().toISOString() })
+      .eq('id', openDispute.id)
+      .select()
+      .single();
+
+    if (resolveError) throw resolveError;
+
+    await createNotifications([
+      {
+        userId: dispute.disputer_id,
+        actorId: user.id,
+        type: 'review_dispute_resolved',
+        title: 'Your review dispute was resolved',
+        body:
+          decision === 'hidden'
+            ? 'The review you disputed has been removed from your profile.'
+            : 'After looking into it, we kept the review you disputed on your profile.',
+        data: { review_id: id },
+      },
+    ]);
+
+    return NextResponse.json({ dispute });
+  } catch (error) {
+    console.error('Error resolving review dispute:', error);
+    return NextResponse.json({ error: 'Failed to resolve dispute' }, { status: 500 });
+  }
+}
@@ -0,0 +1,108 @@
+import type { NextRequest } from 'next/server';
+import { POST } from './route';
+import { getAuthenticatedUser } from '@/lib/supabase/auth';
+import { createNotifications } from '@/lib/supabase/notifications';
+
+jest.mock('@/lib/supabase/auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+  createUnauthorizedResponse: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/notifications', () => ({
+  createNotifications: jest.fn(),
+}));
+
+describe('POST /api/reviews/[id]/response', () => {
+  const params = Promise.resolve({ id: 'review-1' });
+
+  const buildSupabase = (review: unknown, insertResult: { data: unknown; error: unknown }) => {
+    const insert = jest.fn().mockReturnValue({
+      select: jest.fn().mockReturnValue({ single: jest.fn().mockResolvedValue(insertResult) }),
+    });
+    const supabase = {
+      from: jest.fn(() => ({
+        select: jest.fn().mockReturnValue({
+          eq: jest.fn().mockReturnValue({
+            maybeSingle: jest.fn().mockResolvedValue({ data: review, error: null }),
+          }),
+        }),
+        insert,
+      })),
+    };
+    return { supabase, insert };
+  };
+
+  const makeRequest = (body: unknown) =>
+    ({ json: jest.fn().mockResolvedValue(body) }) as unknown as NextRequest;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('saves the reviewee’s reply and lets the reviewer know', async () => {
+    const { supabase, insert } = buildSupabase(
+      { id: 'review-1', reviewer_id: 'user-2', reviewee_id: 'user-1' },
+      { data: { id: 'response-1' }, error: null }
+    );
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'user-1' },
+      authError: null,
+      supabase,
+    });
+
+    const response = await POST(makeRequest({ body: '  Thanks, see you next trip!  ' }), {
+      params,
+    });
+
+    expect(response.status).toBe(200);
+    expect(insert).toHaveBeenCalledWith({
+      review_id: 'review-1',
+      responder_id: 'user-1',
+      body: 'Thanks, see you next trip!',
+    });
+    expect(createNotifications).toHaveBeenCalledWith([
+      expect.objectContaining({
+        userId: 'user-2',
+        actorId: 'user-1',
+        type: 'review_response',
+        data: { review_id: 'review-1', reviewee_id: 'user-1' },
+      }),
+    ]);
+  });
+
+  it('only lets the reviewee reply', async () => {
+    const { supabase, insert } = buildSupabase(
+      { id: 'review-1', reviewee_id: 'user-2' },
+      { data: null, error: null }
+    );
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'user-1' },
+      authError: null,
+      supabase,
+    });
+
+    const response = await POST(makeRequest({ body: 'Not my review' }), { params });
+
+    expect(response.status).toBe(403);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('rejects a second reply', async () => {
+    const { supabase } = buildSupabase(
+      { id: 'review-1', reviewee_id: 'user-1' },
+      { data: null, error: { code: '23505' } }
+    );
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'user-1' },
+      authError: null,
+      supabase,
+    });
+
+    const response = await POST(makeRequest({ body: 'Another reply' }), { params });
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toEqual({
+      error: 'You have already responded to this review',
+    });
+  });
+});
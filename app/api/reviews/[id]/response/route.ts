@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createUnauthorizedResponse, getAuthenticatedUser } from '@/lib/supabase/auth';
+import { createNotifications } from '@/lib/supabase/notifications';
+import { reviewResponseSchema } from '@/libs/validations/reviews';
+
+/**
+ * Posts the reviewee's public reply to a review. Each review gets one reply,
+ * and it can't be edited afterwards.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const { id } = await params;
+    const validationResult = reviewResponseSchema.safeParse(await request.json());
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: z.treeifyError(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    const { data: review, error: reviewError } = await supabase
+      .from('reviews')
+      .select('id, reviewer_id, reviewee_id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (reviewError) throw reviewError;
+
+    if (!review) {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 });
+    }
+
+    if (review.reviewee_id !== user.id) {
+      return NextResponse.json(
+        { error: 'You can only respond to reviews about you' },
+        { status: 403 }
+      );
+    }
+
+    const { data: response, error: insertError } = await supabase
+      .from('review_responses')
+      .insert({ review_id: id, responder_id: user.id, body: validationResult.data.body })
+      .select()
+      .single();
+
+    if (insertError) {
+      if (insertError.code === '23505') {
+        return NextResponse.json(
+          { error: 'You have already responded to this review' },
+          { status: 409 }
+        );
+      }
+      throw insertError;
+    }
+
+    await createNotifications([
+      {
+        userId: review.reviewer_id,
+        actorId: user.id,
+        type: 'review_response',
+        title: 'Reply to your review',
+        body: 'The member you reviewed posted a public reply.',
+        data: { review_id: id, reviewee_id: user.id },
+      },
+    ]);
+
+    return NextResponse.json({ response });
+  } catch (error) {
+    console.error('Error responding to review:', error);
+    return NextResponse.json({ error: 'Failed to respond to review' }, { status: 500 });
+  }
+}
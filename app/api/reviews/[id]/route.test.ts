@@ -0,0 +1,83 @@
+import type { NextRequest } from 'next/server';
+import { PATCH } from './route';
+import { getAuthenticatedUser } from '@/lib/supabase/auth';
+
+jest.mock('@/lib/supabase/auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+  createUnauthorizedResponse: jest.fn(),
+}));
+
+describe('PATCH /api/reviews/[id]', () => {
+  const user = { id: 'reviewer-1' };
+  const params = Promise.resolve({ id: 'review-1' });
+
+  const buildSupabase = (currentReview: unknown) => {
+    const single = jest.fn().mockResolvedValue({ data: currentReview, error: null });
+    const updateSingle = jest.fn().mockResolvedValue({ data: { id: 'review-1' }, error: null });
+    const update = jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnValue({ single: updateSingle }),
+      }),
+    });
+    const supabase = {
+      from: jest.fn(() => ({
+        select: jest.fn().mockReturnValue({ eq: jest.fn().mockReturnValue({ single }) }),
+        update,
+      })),
+    };
+    return { supabase, update };
+  };
+
+  const makeRequest = (body: unknown) =>
+    ({ json: jest.fn().mockResolvedValue(body) }) as unknown as NextRequest;
+
+  const review = (revealedAt: Date) => ({
+    id: 'review-1',
+    reviewer_id: 'reviewer-1',
+    rating: 4,
+    comment: 'Smooth drive over the pass',
+    revealed_at: revealedAt.toISOString(),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('updates a review that is still hidden', async () => {
+    const { supabase, update } = buildSupabase(review(new Date(Date.now() + 60 * 60 * 1000)));
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+    const response = await PATCH(makeRequest({ rating: 5 }), { params });
+
+    expect(response.status).toBe(200);
+    expect(update).toHaveBeenCalledWith({ rating: 5 });
+  });
+
+  it('rejects changes once the review is revealed', async () => {
+    const { supabase, update } = buildSupabase(review(new Date(Date.now() - 60 * 1000)));
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+    const response = await PATCH(makeRequest({ rating: 1, comment: 'Changed my mind now' }), {
+      params,
+    });
+
+    expect(response.status).toBe(403);
+    await expect(response.json()).resolves.toEqual({
+      error: 'Reviews cannot be changed once they are revealed',
+    });
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("rejects changes to someone else's review", async () => {
+    const { supabase, update } = buildSupabase({
+      ...review(new Date(Date.now() + 60 * 60 * 1000)),
+      reviewer_id: 'someone-else',
+    });
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+    const response = await PATCH(makeRequest({ rating: 5 }), { params });
+
+    expect(response.status).toBe(403);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,6 @@
 import { getAuthenticatedUser, createUnauthorizedResponse } from '@/lib/supabase/auth';
 import { NextRequest, NextResponse } from 'next/server';
+import { isReviewRevealed } from '@/libs/reviews';
 
 /**
  * Retrieves a detailed review by ID.
@@ -43,7 +44,8 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 
 /**
  * Updates an existing review.
- * Only allows updates by the original reviewer.
+ * Only allows updates by the original reviewer, and only while the review is
+ * still hidden.
  */
 export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -98,6 +100,16 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
       );
     }
 
+    // Once public, the other side may have read it, so it can't be changed
+    if (isReviewRevealed(currentReview)) {
+      return NextResponse.json(
+        {
+          error: 'Reviews cannot be changed once they are revealed',
+        },
+        { status: 403 }
+      );
+    }
+
     // Prepare update data
     const updateData: Record<string, string | number> = {};
     if (rating !== undefined) updateData.rating = rating;
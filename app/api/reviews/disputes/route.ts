@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createUnauthorizedResponse, getAuthenticatedUser, isAdminUser } from '@/lib/supabase/auth';
+import { REVIEW_DISPUTE_STATUSES } from '@/libs/validations/reviews';
+
+/**
+ * Admin queue of review disputes, oldest first, with the disputed review and
+ * who wrote it. Defaults to disputes still waiting on a decision.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    if (!(await isAdminUser(supabase, user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const status = new URL(request.url).searchParams.get('status') || 'pending';
+    if (!(REVIEW_DISPUTE_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+
+    const { data: disputes, error } = await supabase
+      .from('review_disputes')
+      .select(
+        `
+        *,
+        disputer:profiles!review_disputes_disputer_id_fkey(id, first_name, last_name),
+        review:reviews(
+          id,
+          rating,
+          comment,
+          status,
+          created_at,
+          reviewer:profiles!reviews_reviewer_id_fkey(id, first_name, last_name)
+        )
+      `
+      )
+      .eq('status', status)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json({ disputes });
+  } catch (error) {
+    console.error('Error fetching review disputes:', error);
+    return NextResponse.json({ error: 'Failed to fetch review disputes' }, { status: 500 });
+  }
+}
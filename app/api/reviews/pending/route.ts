@@ -19,8 +19,8 @@ interface BookingWithProfiles {
 }
 
 /**
- * Retrieves a list of past bookings that the current user has not yet reviewed.
- * Filters for confirmed or completed bookings where the trip date has passed.
+ * Retrieves a list of completed bookings that the current user has not yet reviewed.
+ * Bookings are completed by the complete-past-trips cron once the ride has run.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -30,7 +30,7 @@ export async function GET(request: NextRequest) {
       return createUnauthorizedResponse(authError);
     }
 
-    // Fetch confirmed/completed bookings where the user is a participant
+    // Fetch completed bookings where the user is a participant
     const { data: bookings, error: bookingsError } = await supabase
       .from('trip_bookings')
       .select(
@@ -45,7 +45,7 @@ export async function GET(request: NextRequest) {
       `
       )
       .or(`driver_id.eq.${user.id},passenger_id.eq.${user.id}`)
-      .in('status', ['confirmed', 'completed']);
+      .eq('status', 'completed');
 
     if (bookingsError) throw bookingsError;
 
@@ -53,16 +53,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ pendingReviews: [] });
     }
 
-    // Filter for rides that have passed
-    const pastBookings = (bookings as unknown as BookingWithProfiles[]).filter((booking) => {
-      const dateTimeString = `${booking.ride.departure_date}T${booking.ride.departure_time}`;
-      const rideDate = new Date(dateTimeString);
-      return rideDate < new Date();
-    });
-
-    if (pastBookings.length === 0) {
-      return NextResponse.json({ pendingReviews: [] });
-    }
+    const pastBookings = bookings as unknown as BookingWithProfiles[];
 
     // Fetch existing reviews to identify which bookings are already reviewed
     const bookingIds = pastBookings.map((b) => b.id);
@@ -92,6 +83,7 @@ export async function GET(request: NextRequest) {
           meeting_title: booking.ride.title || `Ride to ${booking.ride.end_location}`,
           other_participant_name: otherName,
           other_participant_id: otherParticipant?.id,
+          other_participant_role: isDriver ? 'passenger' : 'driver',
         };
       });
 
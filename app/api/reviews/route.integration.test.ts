@@ -223,6 +223,7 @@ describeIntegration('Reviews API Integration Test', () => {
     // Check for the specific meeting
     expect(pendingReview).toBeDefined();
     expect(pendingReview.other_participant_id).toBe(driverId);
+    expect(pendingReview.other_participant_role).toBe('driver');
   });
 
   it('should allow Passenger to review Driver', async () => {
@@ -253,6 +254,12 @@ describeIntegration('Reviews API Integration Test', () => {
       body: JSON.stringify({
         bookingId: bookingId,
         rating: 5,
+        categoryRatings: {
+          punctuality: 5,
+          driving_safety: 5,
+          vehicle_condition: 4,
+          communication: 5,
+        },
         comment: 'Great driver, very safe, and on time!',
       }),
     });
@@ -270,6 +277,7 @@ describeIntegration('Reviews API Integration Test', () => {
     expect(data.review.rating).toBe(5);
     expect(data.review.reviewer_id).toBe(passengerId);
     expect(data.review.reviewee_id).toBe(driverId);
+    expect(data.review.category_ratings.vehicle_condition).toBe(4);
   });
 
   it('should deny review from non-participant', async () => {
@@ -3,10 +3,20 @@ import {
   createUnauthorizedResponse,
   ensureProfileComplete,
 } from '@/lib/supabase/auth';
+import { createNotifications } from '@/lib/supabase/notifications';
+import { clearPendingReview } from '@/libs/email';
+import {
+  isReviewRevealed,
+  REVIEW_REVEAL_WINDOW_DAYS,
+  validateCategoryRatings,
+  type ReviewRole,
+} from '@/libs/reviews';
 import { NextRequest, NextResponse } from 'next/server';
 
 /**
- * Retrieves reviews, optionally filtered by userId.
+ * Retrieves revealed reviews that haven't been hidden by an admin, optionally
+ * filtered by userId, with the reviewee's reply. Disputes only come back for
+ * the person who raised them.
  * Supports pagination.
  */
 export async function GET(request: NextRequest) {
@@ -32,9 +42,13 @@ export async function GET(request: NextRequest) {
         booking:trip_bookings(
           id,
           ride:rides(start_location, end_location, departure_date, departure_time)
-        )
+        ),
+        response:review_responses(body, created_at),
+        dispute:review_disputes(status)
       `
       )
+      .eq('status', 'active')
+      .lte('revealed_at', new Date().toISOString())
       .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1);
 
@@ -75,6 +89,8 @@ export async function GET(request: NextRequest) {
 /**
  * Creates a new review for a completed ride booking.
  * Validates booking status, input fields, and ensures one review per trip per user.
+ * Category ratings must cover every category for the role being reviewed.
+ * The review stays hidden until the other side reviews or the reveal window closes.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -87,7 +103,7 @@ export async function POST(request: NextRequest) {
     const profileError = await ensureProfileComplete(supabase, user.id, 'leaving reviews');
     if (profileError) return profileError;
 
-    const { bookingId, rating, comment } = await request.json();
+    const { bookingId, rating, comment, categoryRatings } = await request.json();
 
     // Validate input
     const inputError = validateReviewInput(bookingId, rating, comment);
@@ -129,6 +145,12 @@ export async function POST(request: NextRequest) {
 
     const { reviewerRole, reviewedRole } = roles;
 
+    // Categories depend on the role the other person is being reviewed in
+    const categoryError = validateCategoryRatings(categoryRatings, reviewedRole as ReviewRole);
+    if (categoryError) {
+      return NextResponse.json({ error: categoryError }, { status: 400 });
+    }
+
     // Determine reviewee (the other participant)
     const revieweeId = booking.driver_id === user.id ? booking.passenger_id : booking.driver_id;
 
@@ -145,6 +167,23 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'You have already reviewed this trip' }, { status: 400 });
     }
 
+    // Reviews are double-blind, so once the other side's review is public the
+    // window to answer it has closed
+    const { data: counterpartReviews, error: counterpartError } = await supabase
+      .from('reviews')
+      .select('revealed_at')
+      .eq('booking_id', bookingId)
+      .eq('reviewer_id', revieweeId);
+
+    if (counterpartError) throw counterpartError;
+
+    if (counterpartReviews?.some((counterpart) => isReviewRevealed(counterpart))) {
+      return NextResponse.json(
+        { error: 'The review window for this trip has closed' },
+        { status: 400 }
+      );
+    }
+
     // Create the review
     const reviewData = {
       booking_id: bookingId,
@@ -153,6 +192,7 @@ export async function POST(request: NextRequest) {
       reviewer_role: reviewerRole,
       reviewed_role: reviewedRole,
       rating,
+      category_ratings: categoryRatings,
       comment: comment.trim(),
     };
 
@@ -179,6 +219,25 @@ export async function POST(request: NextRequest) {
       throw reviewError;
     }
 
+    // Stop the review request emails for this trip
+    try {
+      await clearPendingReview(bookingId, user.id);
+    } catch (clearError) {
+      console.error('Error clearing pending review:', clearError);
+    }
+
+    // Says nothing about the review itself, since it stays hidden until revealed
+    await createNotifications([
+      {
+        userId: revieweeId,
+        actorId: user.id,
+        type: 'review_received',
+        title: 'You have a new review',
+        body: `Reviews are shown once you've both left one, or after ${REVIEW_REVEAL_WINDOW_DAYS} days.`,
+        data: { review_id: review.id, booking_id: bookingId },
+      },
+    ]);
+
     return NextResponse.json({ review });
   } catch (error: unknown) {
     console.error('Error creating review:', error);
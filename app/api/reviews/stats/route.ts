@@ -1,9 +1,11 @@
 import { getAuthenticatedUser, createUnauthorizedResponse } from '@/lib/supabase/auth';
+import { getCategoryAverages, type CategoryRatings } from '@/libs/reviews';
 import { NextRequest, NextResponse } from 'next/server';
 
 /**
  * Retrieves aggregate review statistics for a user.
- * Includes average rating, total count, and rating distribution.
+ * Includes average rating, total count, rating distribution, and per-category
+ * averages (split by driver and passenger reviews) of revealed reviews.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -64,11 +66,13 @@ export async function GET(request: NextRequest) {
       console.warn('get_user_review_count function not available:', err.message);
     }
 
-    // Get rating distribution
+    // Get rating distribution and category scores
     const { data: ratingDistribution, error: distError } = await supabase
       .from('reviews')
-      .select('rating')
-      .eq('reviewee_id', userId);
+      .select('rating, reviewed_role, category_ratings')
+      .eq('reviewee_id', userId)
+      .eq('status', 'active')
+      .lte('revealed_at', new Date().toISOString());
 
     if (distError) throw distError;
 
@@ -90,6 +94,12 @@ export async function GET(request: NextRequest) {
       averageRating: avgRating,
       reviewCount: reviewCount,
       ratingDistribution: distribution,
+      categoryAverages: getCategoryAverages(
+        (ratingDistribution ?? []) as Array<{
+          reviewed_role: string;
+          category_ratings: CategoryRatings | null;
+        }>
+      ),
     });
   } catch (error) {
     console.error('Error fetching review stats:', error);
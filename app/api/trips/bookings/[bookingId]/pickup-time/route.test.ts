@@ -0,0 +1,123 @@
+import type { NextRequest } from 'next/server';
+import { PATCH } from './route';
+import { getAuthenticatedUser, ensureProfileComplete } from '@/lib/supabase/auth';
+import { sendConversationMessage } from '@/lib/supabase/conversations';
+
+jest.mock('@/lib/supabase/auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+  createUnauthorizedResponse: jest.fn(),
+  ensureProfileComplete: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/conversations', () => ({
+  sendConversationMessage: jest.fn(),
+}));
+
+const BOOKING_ID = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d';
+const PROPOSED_TIME = '2026-01-10T16:30:00.000Z';
+
+const booking = {
+  id: BOOKING_ID,
+  ride_id: 'ride-1',
+  driver_id: 'driver-1',
+  passenger_id: 'passenger-1',
+  pickup_time: '2026-01-10T17:00:00.000Z',
+  proposed_pickup_time: PROPOSED_TIME,
+  ride: { title: 'Powder Day', start_location: 'Sacramento', end_location: 'Kirkwood' },
+};
+
+type QueryResult = { data: unknown; error: unknown };
+
+/**
+ * Supabase mock whose first maybeSingle() loads the booking and whose second
+ * returns the updated row.
+ */
+function createSupabaseMock(loaded: unknown, updated: unknown = { id: BOOKING_ID }) {
+  const query: Record<string, jest.Mock> = {};
+  for (const method of ['select', 'eq', 'update']) {
+    query[method] = jest.fn(() => query);
+  }
+  query.maybeSingle = jest
+    .fn<Promise<QueryResult>, []>()
+    .mockResolvedValueOnce({ data: loaded, error: null })
+    .mockResolvedValueOnce({ data: updated, error: null });
+  const supabase = { from: jest.fn(() => query) };
+  (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+    user: { id: 'passenger-1' },
+    authError: null,
+    supabase,
+  });
+  return { supabase, query };
+}
+
+function createRequest(body: unknown) {
+  return { json: jest.fn().mockResolvedValue(body) } as unknown as NextRequest;
+}
+
+const params = { params: Promise.resolve({ bookingId: BOOKING_ID }) };
+
+describe('PATCH /api/trips/bookings/[bookingId]/pickup-time', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (ensureProfileComplete as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('makes an accepted proposal the pickup time and tells the driver', async () => {
+    const { supabase, query } = createSupabaseMock(booking);
+
+    const response = await PATCH(createRequest({ response: 'accept' }), params);
+
+    expect(response.status).toBe(200);
+    expect(query.update).toHaveBeenCalledWith({
+      pickup_time: PROPOSED_TIME,
+      proposed_pickup_time: null,
+    });
+    expect(query.eq).toHaveBeenCalledWith('proposed_pickup_time', PROPOSED_TIME);
+    expect(sendConversationMessage).toHaveBeenCalledWith({
+      supabase,
+      senderId: 'passenger-1',
+      recipientId: 'driver-1',
+      rideId: 'ride-1',
+      content: expect.stringContaining('I accepted the new pickup time for Powder Day'),
+    });
+  });
+
+  it('keeps the original pickup time when the passenger declines', async () => {
+    const { query } = createSupabaseMock(booking);
+
+    const response = await PATCH(createRequest({ response: 'decline' }), params);
+
+    expect(response.status).toBe(200);
+    expect(query.update).toHaveBeenCalledWith({ proposed_pickup_time: null });
+    expect(sendConversationMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ content: expect.stringContaining("I can't make") })
+    );
+  });
+
+  it('only lets the passenger answer', async () => {
+    const { query } = createSupabaseMock({ ...booking, passenger_id: 'someone-else' });
+
+    const response = await PATCH(createRequest({ response: 'accept' }), params);
+
+    expect(response.status).toBe(403);
+    expect(query.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects an answer when nothing is proposed', async () => {
+    const { query } = createSupabaseMock({ ...booking, proposed_pickup_time: null });
+
+    const response = await PATCH(createRequest({ response: 'accept' }), params);
+
+    expect(response.status).toBe(409);
+    expect(query.update).not.toHaveBeenCalled();
+  });
+
+  it('reports a conflict when the driver changed the proposal in the meantime', async () => {
+    createSupabaseMock(booking, null);
+
+    const response = await PATCH(createRequest({ response: 'accept' }), params);
+
+    expect(response.status).toBe(409);
+    expect(sendConversationMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getAuthenticatedUser,
+  createUnauthorizedResponse,
+  ensureProfileComplete,
+} from '@/lib/supabase/auth';
+import { sendConversationMessage } from '@/lib/supabase/conversations';
+import { pickupTimeResponseSchema } from '@/libs/validations/trips';
+import type { Database } from '@/types/database.types';
+
+type BookingRide = Pick<
+  Database['public']['Tables']['rides']['Row'],
+  'title' | 'start_location' | 'end_location'
+>;
+
+const formatPickupTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Lets a passenger accept or decline the pickup time their driver proposed
+ * from the trip plan. Accepting makes it the booking's pickup time; either
+ * answer clears the proposal and is sent to the driver as a message.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookingId: string }> }
+) {
+  try {
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const profileError = await ensureProfileComplete(
+      supabase,
+      user.id,
+      'responding to a pickup time'
+    );
+    if (profileError) return profileError;
+
+    const validation = pickupTimeResponseSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: z.treeifyError(validation.error) },
+        { status: 400 }
+      );
+    }
+
+    const { bookingId } = await params;
+    const { data: booking, error: bookingError } = await supabase
+      .from('trip_bookings')
+      .select(
+        'id, ride_id, driver_id, passenger_id, pickup_time, proposed_pickup_time, ride:rides(title, start_location, end_location)'
+      )
+      .eq('id', bookingId)
+      .maybeSingle();
+
+    if (bookingError) {
+      console.error('Error fetching booking for pickup time response:', bookingError);
+      return NextResponse.json({ error: 'Failed to load booking' }, { status: 500 });
+    }
+    if (!booking) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 });
+    }
+    if (booking.passenger_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the passenger can answer a proposed pickup time' },
+        { status: 403 }
+      );
+    }
+    if (!booking.proposed_pickup_time) {
+      return NextResponse.json(
+        { error: 'There is no proposed pickup time to answer' },
+        { status: 409 }
+      );
+    }
+
+    const accepted = validation.data.response === 'accept';
+    const proposedTime = booking.proposed_pickup_time;
+
+    // Matching on the proposal keeps a newer one from the driver from being answered by mistake
+    const { data: updatedBooking, error: updateError } = await supabase
+      .from('trip_bookings')
+      .update(
+        accepted
+          ? { pickup_time: proposedTime, proposed_pickup_time: null }
+          : { proposed_pickup_time: null }
+      )
+      .eq('id', booking.id)
+      .eq('proposed_pickup_time', proposedTime)
+      .select('id, pickup_time, proposed_pickup_time')
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Error saving pickup time response:', updateError);
+      return NextResponse.json({ error: 'Failed to update pickup time' }, { status: 500 });
+    }
+    if (!updatedBooking) {
+      return NextResponse.json(
+        { error: 'The driver has changed the proposed pickup time. Refresh to see the new one.' },
+        { status: 409 }
+      );
+    }
+
+    const ride = booking.ride as unknown as BookingRide | null;
+    const rideLabel = ride
+      ? ride.title || `${ride.start_location} → ${ride.end_location}`
+      : 'our ride';
+    const content = accepted
+      ? `I accepted the new pickup time for ${rideLabel}: ${formatPickupTime(proposedTime)}.`
+      : `I can't make the proposed pickup time of ${formatPickupTime(proposedTime)} for ${rideLabel}.${
+          booking.pickup_time
+            ? ` Can we keep ${formatPickupTime(booking.pickup_time)} or find another time?`
+            : ' Can we find another time?'
+        }`;
+
+    try {
+      await sendConversationMessage({
+        supabase,
+        senderId: user.id,
+        recipientId: booking.driver_id,
+        rideId: booking.ride_id,
+        content,
+      });
+    } catch (conversationError: unknown) {
+      console.error('Error notifying driver about pickup time response', conversationError);
+    }
+
+    return NextResponse.json({ success: true, booking: updatedBooking });
+  } catch (error) {
+    console.error('Error in pickup time response API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
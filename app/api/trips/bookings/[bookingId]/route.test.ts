@@ -4,6 +4,8 @@ import type { Database } from '@/types/database.types';
 import { PATCH } from './route';
 import { getAuthenticatedUser, ensureProfileComplete } from '@/lib/supabase/auth';
 import { sendConversationMessage } from '@/lib/supabase/conversations';
+import { createNotifications } from '@/lib/supabase/notifications';
+import { createAdminClient } from '@/lib/supabase/server';
 
 jest.mock('@/lib/supabase/auth', () => ({
   getAuthenticatedUser: jest.fn(),
@@ -15,13 +17,70 @@ jest.mock('@/lib/supabase/conversations', () => ({
   sendConversationMessage: jest.fn(),
 }));
 
+jest.mock('@/lib/supabase/notifications', () => ({
+  createNotifications: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/server', () => ({
+  createAdminClient: jest.fn(),
+}));
+
+type BookingFixture = {
+  id: string;
+  ride_id: string;
+  driver_id: string;
+  passenger_id: string;
+  status: string;
+};
+
+/**
+ * Builds a Supabase mock that returns the booking and records reserve_trip_seat RPC calls.
+ */
+function createSupabaseMock(
+  bookingRow: BookingFixture,
+  rpcResult: Record<string, unknown> = { outcome: 'ok', booking_id: bookingRow.id }
+) {
+  const rideUpdate = jest.fn();
+  const bookingUpdate = jest.fn();
+  const rpc = jest.fn().mockResolvedValue({ data: rpcResult, error: null });
+
+  const supabase = {
+    rpc,
+    from: jest.fn((tableName: string) => {
+      if (tableName === 'trip_bookings') {
+        return {
+          select: jest.fn().mockReturnValue({
+            eq: jest.fn().mockReturnValue({
+              maybeSingle: jest.fn().mockResolvedValue({ data: bookingRow, error: null }),
+            }),
+          }),
+          update: bookingUpdate,
+        };
+      }
+      if (tableName === 'rides') {
+        return { update: rideUpdate };
+      }
+      return { select: jest.fn(), update: jest.fn() };
+    }),
+  } as unknown as SupabaseClient<Database>;
+
+  return { supabase, rpc, rideUpdate, bookingUpdate };
+}
+
+function createRequest(bookingId: string, action: string) {
+  return {
+    url: `https://example.com/api/trips/bookings/${bookingId}`,
+    json: jest.fn().mockResolvedValue({ action }),
+  } as unknown as NextRequest;
+}
+
 describe('PATCH /api/trips/bookings/[bookingId]', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     (ensureProfileComplete as jest.Mock).mockResolvedValue(null);
   });
 
-  it('confirms a pending booking and notifies the passenger', async () => {
+  it('confirms a pending booking through the seat reservation RPC and notifies the passenger', async () => {
     const bookingId = 'booking-abc';
     const ride = {
       id: 'ride-1',
@@ -46,40 +105,33 @@ describe('PATCH /api/trips/bookings/[bookingId]', () => {
       passenger: { first_name: 'Rider', last_name: 'Guest' },
     };
 
-    const rideUpdateEq = jest.fn().mockResolvedValue({ error: null });
-    const rideUpdate = jest.fn().mockReturnValue({ eq: rideUpdateEq });
-
-    const supabase = {
-      from: jest.fn((tableName: string) => {
-        if (tableName === 'trip_bookings') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                maybeSingle: jest.fn().mockResolvedValue({ data: bookingRow, error: null }),
-              }),
-            }),
-            update: jest.fn().mockReturnValue({ eq: jest.fn().mockResolvedValue({ error: null }) }),
-          };
-        }
-        if (tableName === 'rides') {
-          return { update: rideUpdate };
-        }
-        return { select: jest.fn(), update: jest.fn() };
-      }),
-    } as unknown as SupabaseClient<Database>;
+    const { supabase, rpc, rideUpdate, bookingUpdate } = createSupabaseMock(bookingRow, {
+      outcome: 'ok',
+      booking_id: bookingId,
+      available_seats: 1,
+    });
 
     const user = { id: 'driver-1' };
     (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+    (sendConversationMessage as jest.Mock).mockResolvedValue('convo-1');
 
-    const request = {
-      url: `https://example.com/api/trips/bookings/${bookingId}`,
-      json: jest.fn().mockResolvedValue({ action: 'approve' }),
-    } as unknown as NextRequest;
-
-    await PATCH(request, { params: Promise.resolve({ bookingId }) });
+    const response = await PATCH(createRequest(bookingId, 'approve'), {
+      params: Promise.resolve({ bookingId }),
+    });
 
-    expect(rideUpdate).toHaveBeenCalledWith({ available_seats: 1 });
-    expect(rideUpdateEq).toHaveBeenCalledWith('id', ride.id);
+    expect(response.status).toBe(200);
+    expect(rpc).toHaveBeenCalledWith('reserve_trip_seat', {
+      p_ride_id: ride.id,
+      p_passenger_id: bookingRow.passenger_id,
+      p_next_status: 'confirmed',
+      p_pickup_location: null,
+      p_pickup_time: null,
+      p_driver_notes: null,
+      p_seats: null,
+    });
+    // Seats and status are written by the RPC, never by separate statements
+    expect(rideUpdate).not.toHaveBeenCalled();
+    expect(bookingUpdate).not.toHaveBeenCalled();
     expect(sendConversationMessage).toHaveBeenCalledWith({
       supabase,
       senderId: user.id,
@@ -87,6 +139,92 @@ describe('PATCH /api/trips/bookings/[bookingId]', () => {
       rideId: bookingRow.ride_id,
       content: expect.stringContaining('confirmed'),
     });
+    expect(createNotifications).toHaveBeenCalledWith([
+      {
+        userId: bookingRow.passenger_id,
+        actorId: user.id,
+        type: 'booking_confirmed',
+        title: 'Your seat is confirmed',
+        body: 'Driver Test confirmed you for Mountain Run.',
+        data: { ride_id: ride.id, booking_id: bookingId, conversation_id: 'convo-1' },
+      },
+    ]);
+  });
+
+  it('returns 409 without notifying anyone when the ride is full', async () => {
+    const bookingId = 'booking-full';
+    const bookingRow = {
+      id: bookingId,
+      driver_id: 'driver-9',
+      passenger_id: 'passenger-9',
+      status: 'pending',
+      pickup_location: 'Downtown',
+      pickup_time: '2025-12-25T09:15:00Z',
+      ride_id: 'ride-9',
+      ride: {
+        id: 'ride-9',
+        title: 'Packed Car',
+        start_location: 'Oakland',
+        end_location: 'Tahoe',
+        departure_date: '2025-12-25',
+        departure_time: '09:15',
+        available_seats: 0,
+      },
+      driver: { first_name: 'Driver', last_name: 'Nine' },
+      passenger: { first_name: 'Rider', last_name: 'Nine' },
+    };
+
+    const { supabase } = createSupabaseMock(bookingRow, { outcome: 'full', available_seats: 0 });
+
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: bookingRow.driver_id },
+      authError: null,
+      supabase,
+    });
+
+    const response = await PATCH(createRequest(bookingId, 'approve'), {
+      params: Promise.resolve({ bookingId }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body).toEqual({ error: 'No seats available', outcome: 'full' });
+    expect(sendConversationMessage).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when the booking was already confirmed by a concurrent request', async () => {
+    const bookingId = 'booking-race';
+    const bookingRow = {
+      id: bookingId,
+      driver_id: 'driver-8',
+      passenger_id: 'passenger-8',
+      status: 'pending',
+      pickup_location: 'Uptown',
+      pickup_time: '2025-12-25T09:15:00Z',
+      ride_id: 'ride-8',
+      ride: null,
+      driver: null,
+      passenger: null,
+    };
+
+    const { supabase } = createSupabaseMock(bookingRow, {
+      outcome: 'already_booked',
+      booking_id: bookingId,
+    });
+
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: bookingRow.driver_id },
+      authError: null,
+      supabase,
+    });
+
+    const response = await PATCH(createRequest(bookingId, 'approve'), {
+      params: Promise.resolve({ bookingId }),
+    });
+
+    expect(response.status).toBe(409);
+    expect(sendConversationMessage).not.toHaveBeenCalled();
+    expect(createNotifications).not.toHaveBeenCalled();
   });
 
   it('cancels a pending request and notifies the driver', async () => {
@@ -112,32 +250,17 @@ describe('PATCH /api/trips/bookings/[bookingId]', () => {
       passenger: { first_name: 'Rider', last_name: 'Two' },
     };
 
-    const supabase = {
-      from: jest.fn((tableName: string) => {
-        if (tableName === 'trip_bookings') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                maybeSingle: jest.fn().mockResolvedValue({ data: bookingRow, error: null }),
-              }),
-            }),
-            update: jest.fn().mockReturnValue({ eq: jest.fn().mockResolvedValue({ error: null }) }),
-          };
-        }
-        return { select: jest.fn(), update: jest.fn() };
-      }),
-    } as unknown as SupabaseClient<Database>;
+    const { supabase, rpc } = createSupabaseMock(bookingRow);
 
     const user = { id: bookingRow.passenger_id };
     (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
 
-    const request = {
-      url: `https://example.com/api/trips/bookings/${bookingId}`,
-      json: jest.fn().mockResolvedValue({ action: 'cancel' }),
-    } as unknown as NextRequest;
-
-    await PATCH(request, { params: Promise.resolve({ bookingId }) });
+    await PATCH(createRequest(bookingId, 'cancel'), { params: Promise.resolve({ bookingId }) });
 
+    expect(rpc).toHaveBeenCalledWith(
+      'reserve_trip_seat',
+      expect.objectContaining({ p_ride_id: 'ride-2', p_next_status: 'cancelled' })
+    );
     expect(sendConversationMessage).toHaveBeenCalledWith({
       supabase,
       senderId: user.id,
@@ -145,6 +268,13 @@ describe('PATCH /api/trips/bookings/[bookingId]', () => {
       rideId: bookingRow.ride_id,
       content: expect.stringContaining('cancelled my request'),
     });
+    expect(createNotifications).toHaveBeenCalledWith([
+      expect.objectContaining({
+        userId: bookingRow.driver_id,
+        type: 'booking_cancelled',
+        body: 'Rider Two cancelled their request for Valley Shuttle.',
+      }),
+    ]);
   });
 
   it('derives booking id from the request URL when params are missing', async () => {
@@ -170,36 +300,14 @@ describe('PATCH /api/trips/bookings/[bookingId]', () => {
       passenger: { first_name: 'Passenger', last_name: 'FourtyTwo' },
     };
 
-    const supabase = {
-      from: jest.fn((tableName: string) => {
-        if (tableName === 'trip_bookings') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                maybeSingle: jest.fn().mockResolvedValue({ data: bookingRow, error: null }),
-              }),
-            }),
-            update: jest.fn().mockReturnValue({ eq: jest.fn().mockResolvedValue({ error: null }) }),
-          };
-        }
-        if (tableName === 'rides') {
-          return {
-            update: jest.fn().mockReturnValue({ eq: jest.fn().mockResolvedValue({ error: null }) }),
-          };
-        }
-        return { select: jest.fn(), update: jest.fn() };
-      }),
-    } as unknown as SupabaseClient<Database>;
+    const { supabase } = createSupabaseMock(bookingRow);
 
     const user = { id: bookingRow.driver_id };
     (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
 
-    const request = {
-      url: `https://example.com/api/trips/bookings/${bookingId}`,
-      json: jest.fn().mockResolvedValue({ action: 'approve' }),
-    } as unknown as NextRequest;
-
-    await PATCH(request, { params: Promise.resolve({ bookingId: '' }) });
+    await PATCH(createRequest(bookingId, 'approve'), {
+      params: Promise.resolve({ bookingId: '' }),
+    });
 
     expect(sendConversationMessage).toHaveBeenCalledWith({
       supabase,
@@ -210,7 +318,7 @@ describe('PATCH /api/trips/bookings/[bookingId]', () => {
     });
   });
 
-  it('does not decrement seats when passenger accepts invitation (already decremented on creation)', async () => {
+  it('confirms an invitation when the passenger accepts it', async () => {
     const bookingId = 'booking-invitation';
     const ride = {
       id: 'ride-3',
@@ -235,38 +343,18 @@ describe('PATCH /api/trips/bookings/[bookingId]', () => {
       passenger: { first_name: 'Bob', last_name: 'Passenger' },
     };
 
-    const rideUpdate = jest.fn();
-
-    const supabase = {
-      from: jest.fn((tableName: string) => {
-        if (tableName === 'trip_bookings') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                maybeSingle: jest.fn().mockResolvedValue({ data: bookingRow, error: null }),
-              }),
-            }),
-            update: jest.fn().mockReturnValue({ eq: jest.fn().mockResolvedValue({ error: null }) }),
-          };
-        }
-        if (tableName === 'rides') {
-          return { update: rideUpdate };
-        }
-        return { select: jest.fn(), update: jest.fn() };
-      }),
-    } as unknown as SupabaseClient<Database>;
+    const { supabase, rpc, rideUpdate } = createSupabaseMock(bookingRow);
 
     const user = { id: bookingRow.passenger_id };
     (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
 
-    const request = {
-      url: `https://example.com/api/trips/bookings/${bookingId}`,
-      json: jest.fn().mockResolvedValue({ action: 'approve' }),
-    } as unknown as NextRequest;
-
-    await PATCH(request, { params: Promise.resolve({ bookingId }) });
+    await PATCH(createRequest(bookingId, 'approve'), { params: Promise.resolve({ bookingId }) });
 
-    // Seats should NOT be decremented because they were already decremented when invitation was created
+    // The RPC keeps the seat held by the invitation instead of taking another one
+    expect(rpc).toHaveBeenCalledWith(
+      'reserve_trip_seat',
+      expect.objectContaining({ p_passenger_id: 'passenger-3', p_next_status: 'confirmed' })
+    );
     expect(rideUpdate).not.toHaveBeenCalled();
     expect(sendConversationMessage).toHaveBeenCalledWith({
       supabase,
@@ -277,7 +365,7 @@ describe('PATCH /api/trips/bookings/[bookingId]', () => {
     });
   });
 
-  it('restores seat when passenger denies an invitation', async () => {
+  it('releases the invitation seat when the passenger denies it', async () => {
     const bookingId = 'booking-deny-invitation';
     const ride = {
       id: 'ride-4',
@@ -302,41 +390,22 @@ describe('PATCH /api/trips/bookings/[bookingId]', () => {
       passenger: { first_name: 'Dana', last_name: 'Passenger' },
     };
 
-    const rideUpdateEq = jest.fn().mockResolvedValue({ error: null });
-    const rideUpdate = jest.fn().mockReturnValue({ eq: rideUpdateEq });
-
-    const supabase = {
-      from: jest.fn((tableName: string) => {
-        if (tableName === 'trip_bookings') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                maybeSingle: jest.fn().mockResolvedValue({ data: bookingRow, error: null }),
-              }),
-            }),
-            update: jest.fn().mockReturnValue({ eq: jest.fn().mockResolvedValue({ error: null }) }),
-          };
-        }
-        if (tableName === 'rides') {
-          return { update: rideUpdate };
-        }
-        return { select: jest.fn(), update: jest.fn() };
-      }),
-    } as unknown as SupabaseClient<Database>;
+    const { supabase, rpc, rideUpdate } = createSupabaseMock(bookingRow, {
+      outcome: 'ok',
+      booking_id: bookingId,
+      available_seats: 2,
+    });
 
     const user = { id: bookingRow.passenger_id };
     (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
 
-    const request = {
-      url: `https://example.com/api/trips/bookings/${bookingId}`,
-      json: jest.fn().mockResolvedValue({ action: 'deny' }),
-    } as unknown as NextRequest;
+    await PATCH(createRequest(bookingId, 'deny'), { params: Promise.resolve({ bookingId }) });
 
-    await PATCH(request, { params: Promise.resolve({ bookingId }) });
-
-    // Seat should be restored (incremented) because it was decremented when invitation was created
-    expect(rideUpdate).toHaveBeenCalledWith({ available_seats: 2 });
-    expect(rideUpdateEq).toHaveBeenCalledWith('id', ride.id);
+    expect(rpc).toHaveBeenCalledWith(
+      'reserve_trip_seat',
+      expect.objectContaining({ p_ride_id: ride.id, p_next_status: 'cancelled' })
+    );
+    expect(rideUpdate).not.toHaveBeenCalled();
     expect(sendConversationMessage).toHaveBeenCalledWith({
       supabase,
       senderId: user.id,
@@ -346,69 +415,249 @@ describe('PATCH /api/trips/bookings/[bookingId]', () => {
     });
   });
 
-  it('handles unlimited seats (null) when accepting invitation', async () => {
-    const bookingId = 'booking-unlimited';
-    const ride = {
-      id: 'ride-5',
-      title: 'Bus Trip',
-      start_location: 'Oakland',
-      end_location: 'Reno',
-      departure_date: '2025-12-31',
-      departure_time: '06:00',
-      available_seats: null,
-    };
-
+  it('rejects actions that are invalid for the booking state before calling the RPC', async () => {
+    const bookingId = 'booking-invalid';
     const bookingRow = {
       id: bookingId,
       driver_id: 'driver-5',
       passenger_id: 'passenger-5',
-      status: 'invited',
+      status: 'confirmed',
       pickup_location: 'Downtown Oakland',
       pickup_time: '2025-12-31T06:00:00Z',
-      ride_id: ride.id,
-      ride,
-      driver: { first_name: 'Eve', last_name: 'Driver' },
-      passenger: { first_name: 'Frank', last_name: 'Passenger' },
+      ride_id: 'ride-5',
+      ride: null,
+      driver: null,
+      passenger: null,
     };
 
-    const rideUpdate = jest.fn();
+    const { supabase, rpc } = createSupabaseMock(bookingRow);
 
-    const supabase = {
-      from: jest.fn((tableName: string) => {
-        if (tableName === 'trip_bookings') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                maybeSingle: jest.fn().mockResolvedValue({ data: bookingRow, error: null }),
-              }),
-            }),
-            update: jest.fn().mockReturnValue({ eq: jest.fn().mockResolvedValue({ error: null }) }),
-          };
-        }
-        if (tableName === 'rides') {
-          return { update: rideUpdate };
-        }
-        return { select: jest.fn(), update: jest.fn() };
-      }),
-    } as unknown as SupabaseClient<Database>;
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: bookingRow.driver_id },
+      authError: null,
+      supabase,
+    });
 
-    const user = { id: bookingRow.passenger_id };
+    const response = await PATCH(createRequest(bookingId, 'approve'), {
+      params: Promise.resolve({ bookingId }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('lets the driver approve fewer seats than the passenger requested', async () => {
+    const bookingId = 'booking-partial';
+    const bookingRow = {
+      id: bookingId,
+      driver_id: 'driver-6',
+      passenger_id: 'passenger-6',
+      status: 'pending',
+      seats_requested: 2,
+      seats_confirmed: null,
+      pickup_location: 'Truckee',
+      pickup_time: '2025-12-27T07:00:00Z',
+      ride_id: 'ride-6',
+      ride: {
+        id: 'ride-6',
+        title: 'Powder Day',
+        start_location: 'Truckee',
+        end_location: 'Palisades',
+        departure_date: '2025-12-27',
+        departure_time: '07:00',
+        available_seats: 1,
+      },
+      driver: { first_name: 'Gail', last_name: 'Driver' },
+      passenger: { first_name: 'Hank', last_name: 'Passenger' },
+    };
+
+    const { supabase, rpc } = createSupabaseMock(bookingRow, {
+      outcome: 'ok',
+      booking_id: bookingId,
+      seats: 1,
+      available_seats: 0,
+    });
+
+    const user = { id: bookingRow.driver_id };
     (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
 
     const request = {
       url: `https://example.com/api/trips/bookings/${bookingId}`,
-      json: jest.fn().mockResolvedValue({ action: 'approve' }),
+      json: jest.fn().mockResolvedValue({ action: 'approve', seats: 1 }),
+    } as unknown as NextRequest;
+
+    const response = await PATCH(request, { params: Promise.resolve({ bookingId }) });
+    const body = await response.json();
+
+    expect(body).toEqual({
+      success: true,
+      status: 'confirmed',
+      seats_confirmed: 1,
+      promoted_booking_ids: [],
+    });
+    expect(rpc).toHaveBeenCalledWith(
+      'reserve_trip_seat',
+      expect.objectContaining({ p_next_status: 'confirmed', p_seats: 1 })
+    );
+    expect(sendConversationMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        content: expect.stringContaining('(1 of 2 requested seats)'),
+      })
+    );
+  });
+
+  it('ignores a seat count sent by the passenger when accepting an invitation', async () => {
+    const bookingId = 'booking-invite-seats';
+    const bookingRow = {
+      id: bookingId,
+      driver_id: 'driver-7',
+      passenger_id: 'passenger-7',
+      status: 'invited',
+      seats_requested: 2,
+      ride_id: 'ride-7',
+      ride: null,
+      driver: null,
+      passenger: null,
+    };
+
+    const { supabase, rpc } = createSupabaseMock(bookingRow, {
+      outcome: 'ok',
+      booking_id: bookingId,
+      seats: 2,
+    });
+
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: bookingRow.passenger_id },
+      authError: null,
+      supabase,
+    });
+
+    const request = {
+      url: `https://example.com/api/trips/bookings/${bookingId}`,
+      json: jest.fn().mockResolvedValue({ action: 'approve', seats: 1 }),
     } as unknown as NextRequest;
 
     await PATCH(request, { params: Promise.resolve({ bookingId }) });
 
-    expect(rideUpdate).not.toHaveBeenCalled();
+    expect(rpc).toHaveBeenCalledWith(
+      'reserve_trip_seat',
+      expect.objectContaining({ p_next_status: 'confirmed', p_seats: null })
+    );
+  });
+
+  it('offers a cancelled seat to the waitlist and messages the promoted passenger as the driver', async () => {
+    const bookingId = 'booking-cancel-confirmed';
+    const bookingRow = {
+      id: bookingId,
+      driver_id: 'driver-8',
+      passenger_id: 'passenger-8',
+      status: 'confirmed',
+      seats_requested: 1,
+      seats_confirmed: 1,
+      pickup_location: 'Kings Beach',
+      pickup_time: '2025-12-28T08:00:00Z',
+      ride_id: 'ride-8',
+      ride: {
+        id: 'ride-8',
+        title: 'Sunrise Laps',
+        start_location: 'Kings Beach',
+        end_location: 'Northstar',
+        departure_date: '2025-12-28',
+        departure_time: '08:00',
+        available_seats: 0,
+      },
+      driver: { first_name: 'Ivy', last_name: 'Driver' },
+      passenger: { first_name: 'Jon', last_name: 'Passenger' },
+    };
+
+    const { supabase, rpc } = createSupabaseMock(bookingRow, {
+      outcome: 'ok',
+      booking_id: bookingId,
+      seats: 0,
+      available_seats: 0,
+      promoted: [{ booking_id: 'booking-waiting', passenger_id: 'passenger-next', seats: 1 }],
+    });
+    const adminSupabase = { from: jest.fn() };
+    (createAdminClient as jest.Mock).mockReturnValue(adminSupabase);
+
+    const user = { id: bookingRow.passenger_id };
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
+
+    const response = await PATCH(createRequest(bookingId, 'cancel'), {
+      params: Promise.resolve({ bookingId }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.promoted_booking_ids).toEqual(['booking-waiting']);
+    expect(rpc).toHaveBeenCalledWith(
+      'reserve_trip_seat',
+      expect.objectContaining({ p_next_status: 'cancelled' })
+    );
     expect(sendConversationMessage).toHaveBeenCalledWith({
       supabase,
       senderId: user.id,
       recipientId: bookingRow.driver_id,
       rideId: bookingRow.ride_id,
-      content: expect.stringContaining('accepted the invite'),
+      content: expect.stringContaining('I cancelled my seat on Sunrise Laps'),
+    });
+    expect(sendConversationMessage).toHaveBeenCalledWith({
+      supabase: adminSupabase,
+      senderId: bookingRow.driver_id,
+      recipientId: 'passenger-next',
+      rideId: bookingRow.ride_id,
+      content: expect.stringContaining('A seat opened up on Sunrise Laps'),
+    });
+    expect(createNotifications).toHaveBeenCalledWith([
+      expect.objectContaining({
+        userId: 'passenger-next',
+        actorId: bookingRow.driver_id,
+        type: 'waitlist_promoted',
+        data: expect.objectContaining({ booking_id: 'booking-waiting' }),
+      }),
+    ]);
+  });
+
+  it('lets a passenger leave the waitlist without promoting anyone', async () => {
+    const bookingId = 'booking-waitlisted';
+    const bookingRow = {
+      id: bookingId,
+      driver_id: 'driver-9',
+      passenger_id: 'passenger-9',
+      status: 'waitlisted',
+      seats_requested: 1,
+      ride_id: 'ride-9',
+      ride: null,
+      driver: null,
+      passenger: null,
+    };
+
+    const { supabase, rpc } = createSupabaseMock(bookingRow, {
+      outcome: 'ok',
+      booking_id: bookingId,
+      seats: 0,
+      promoted: [],
+    });
+
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: bookingRow.passenger_id },
+      authError: null,
+      supabase,
     });
+
+    const response = await PATCH(createRequest(bookingId, 'cancel'), {
+      params: Promise.resolve({ bookingId }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(rpc).toHaveBeenCalledWith(
+      'reserve_trip_seat',
+      expect.objectContaining({ p_next_status: 'cancelled' })
+    );
+    expect(sendConversationMessage).toHaveBeenCalledTimes(1);
+    expect(sendConversationMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ content: 'I left the waitlist for the trip.' })
+    );
+    expect(createAdminClient).not.toHaveBeenCalled();
   });
 });
@@ -6,33 +6,19 @@ import {
   ensureProfileComplete,
 } from '@/lib/supabase/auth';
 import { sendConversationMessage } from '@/lib/supabase/conversations';
+import { createNotifications, type NewNotification } from '@/lib/supabase/notifications';
+import { createAdminClient } from '@/lib/supabase/server';
+import {
+  reserveTripSeat,
+  createSeatReservationErrorResponse,
+  type SeatReservationStatus,
+  type WaitlistPromotion,
+} from '@/lib/supabase/bookings';
+import type { NotificationType } from '@/libs/notifications';
+import { tripBookingActionSchema } from '@/libs/validations/trips';
 import { z } from 'zod';
 import type { Database } from '@/types/database.types';
 
-const bookingActionSchema = z.object({
-  action: z.enum(['approve', 'deny', 'cancel']),
-});
-
-/**
- * Valid booking status values from the database schema.
- * These values must match the CHECK constraint in the trip_bookings table.
- */
-const VALID_BOOKING_STATUSES = [
-  'pending',
-  'confirmed',
-  'cancelled',
-  'completed',
-  'invited',
-] as const;
-type BookingStatus = (typeof VALID_BOOKING_STATUSES)[number];
-
-/**
- * Validates that a status value is a valid booking status.
- */
-function isValidBookingStatus(status: string): status is BookingStatus {
-  return VALID_BOOKING_STATUSES.includes(status as BookingStatus);
-}
-
 type TripBookingRow = Database['public']['Tables']['trip_bookings']['Row'];
 type RideRow = Database['public']['Tables']['rides']['Row'];
 type ProfileRow = Database['public']['Tables']['profiles']['Row'];
@@ -86,7 +72,7 @@ export async function PATCH(
       return NextResponse.json({ error: 'Booking ID is required' }, { status: 400 });
     }
 
-    const body = bookingActionSchema.parse(await request.json());
+    const body = tripBookingActionSchema.parse(await request.json());
 
     const booking = await fetchBooking(supabase, bookingId);
     if (!booking) {
@@ -106,55 +92,37 @@ export async function PATCH(
       );
     }
 
-    const nextStatus: BookingStatus = body.action === 'approve' ? 'confirmed' : 'cancelled';
+    const nextStatus: SeatReservationStatus = body.action === 'approve' ? 'confirmed' : 'cancelled';
 
-    const bookingRide = booking.ride;
-    // Only decrement seats when confirming a pending booking (driver approving passenger request)
-    // For invited bookings (passenger accepting invitation), seats were already decremented when invitation was created
-    if (
-      nextStatus === 'confirmed' &&
-      booking.status === 'pending' &&
-      bookingRide &&
-      bookingRide.available_seats !== null
-    ) {
-      const seatResult = await handleSeatUpdate(supabase, bookingRide);
-      if (seatResult !== true) {
-        return NextResponse.json({ error: seatResult }, { status: 400 });
-      }
-    }
+    // Only drivers choose how many seats to approve; accepting an invitation keeps its seats
+    const seats = body.action === 'approve' && userRole === 'driver' ? (body.seats ?? null) : null;
 
-    // If cancelling/denying an invitation, restore the seat since it was decremented when invitation was created
-    if (
-      nextStatus === 'cancelled' &&
-      booking.status === 'invited' &&
-      bookingRide &&
-      bookingRide.available_seats !== null
-    ) {
-      const { error: seatRestoreError } = await supabase
-        .from('rides')
-        .update({ available_seats: bookingRide.available_seats + 1 })
-        .eq('id', bookingRide.id);
-
-      if (seatRestoreError) {
-        console.error('Failed to restore seat after invitation denial', seatRestoreError);
-        // Continue anyway - the cancellation should still proceed
-      }
-    }
-
-    const updateResult = await updateBookingStatus(supabase, bookingId, nextStatus);
-    if (updateResult !== true) {
-      throw updateResult;
-    }
+    // Seat checks, the status change and the seat count adjustment happen in one transaction
+    const {
+      outcome,
+      seats: confirmedSeats,
+      promoted,
+    } = await reserveTripSeat({
+      supabase,
+      rideId: booking.ride_id,
+      passengerId: booking.passenger_id,
+      nextStatus,
+      seats,
+    });
+    const reservationError = createSeatReservationErrorResponse(outcome);
+    if (reservationError) return reservationError;
 
     const content = buildBookingMessage({
       booking,
       userRole,
       action: body.action,
+      confirmedSeats,
     });
 
+    const recipientId = userRole === 'driver' ? booking.passenger_id : booking.driver_id;
+    let conversationId: string | null = null;
     try {
-      const recipientId = userRole === 'driver' ? booking.passenger_id : booking.driver_id;
-      await sendConversationMessage({
+      conversationId = await sendConversationMessage({
         supabase,
         senderId: user.id,
         recipientId,
@@ -165,7 +133,23 @@ export async function PATCH(
       console.error('Error notifying participant about booking response', conversationError);
     }
 
-    return NextResponse.json({ success: true, status: nextStatus });
+    await createNotifications([
+      {
+        userId: recipientId,
+        actorId: user.id,
+        ...buildBookingNotification({ booking, userRole, action: body.action }),
+        data: { ride_id: booking.ride_id, booking_id: booking.id, conversation_id: conversationId },
+      },
+    ]);
+
+    await notifyPromotedPassengers(booking, promoted);
+
+    return NextResponse.json({
+      success: true,
+      status: nextStatus,
+      seats_confirmed: nextStatus === 'confirmed' ? confirmedSeats : null,
+      promoted_booking_ids: promoted.map((promotion) => promotion.bookingId),
+    });
   } catch (error: unknown) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 });
@@ -214,9 +198,11 @@ function getUserRole(
  *
  * Valid combinations:
  * - Driver can approve/deny pending bookings (passenger requested to join)
+ * - Driver can approve/deny waitlisted bookings (seat freed up, or removing from the queue)
  * - Driver can deny invited bookings (driver cancels their own invitation)
+ * - Driver can deny confirmed bookings (driver removes a passenger)
  * - Passenger can approve/deny invited bookings (driver invited passenger)
- * - Passenger can cancel pending bookings (passenger cancels their own request)
+ * - Passenger can cancel pending, waitlisted or confirmed bookings
  */
 function getActionType(
   action: 'approve' | 'deny' | 'cancel',
@@ -226,7 +212,7 @@ function getActionType(
   const status = booking.status;
   if (action === 'approve') {
     if (
-      (userRole === 'driver' && status === 'pending') ||
+      (userRole === 'driver' && (status === 'pending' || status === 'waitlisted')) ||
       (userRole === 'passenger' && status === 'invited')
     ) {
       return 'approve';
@@ -234,67 +220,24 @@ function getActionType(
   }
   if (action === 'deny') {
     if (
-      (userRole === 'driver' && (status === 'pending' || status === 'invited')) ||
+      (userRole === 'driver' &&
+        ['pending', 'invited', 'waitlisted', 'confirmed'].includes(status)) ||
       (userRole === 'passenger' && status === 'invited')
     ) {
       return 'deny';
     }
   }
   if (action === 'cancel') {
-    if (userRole === 'passenger' && status === 'pending') {
+    if (
+      userRole === 'passenger' &&
+      (status === 'pending' || status === 'waitlisted' || status === 'confirmed')
+    ) {
       return 'cancel';
     }
   }
   return 'invalid';
 }
 
-/**
- * Handles seat update for confirmed bookings.
- */
-async function handleSeatUpdate(
-  supabase: SupabaseClient<Database>,
-  ride: BookingRide
-): Promise<true | string> {
-  if (!ride.available_seats || ride.available_seats <= 0) {
-    return 'No seats available';
-  }
-  const { error } = await supabase
-    .from('rides')
-    .update({ available_seats: Math.max(ride.available_seats - 1, 0) })
-    .eq('id', ride.id);
-  if (error) {
-    return 'Failed to update available seats';
-  }
-  return true;
-}
-
-/**
- * Updates the booking status.
- * Validates that the status is a valid enum value from the database schema.
- */
-async function updateBookingStatus(
-  supabase: SupabaseClient<Database>,
-  bookingId: string,
-  nextStatus: string
-): Promise<true | Error> {
-  // Validate that nextStatus is a valid booking status enum value
-  if (!isValidBookingStatus(nextStatus)) {
-    return new Error(
-      `Invalid booking status: ${nextStatus}. Must be one of: ${VALID_BOOKING_STATUSES.join(', ')}`
-    );
-  }
-
-  const { error } = await supabase
-    .from('trip_bookings')
-    .update({
-      status: nextStatus,
-      confirmed_at: nextStatus === 'confirmed' ? new Date().toISOString() : null,
-    })
-    .eq('id', bookingId);
-  if (error) return error;
-  return true;
-}
-
 /**
  * Builds the booking message content for notifications.
  */
@@ -302,14 +245,14 @@ function buildBookingMessage({
   booking,
   userRole,
   action,
+  confirmedSeats = null,
 }: {
   booking: BookingWithRelations;
   userRole: 'driver' | 'passenger';
   action: 'approve' | 'deny' | 'cancel';
+  confirmedSeats?: number | null;
 }): string {
-  const rideLabel = booking.ride
-    ? booking.ride.title || `${booking.ride.start_location} → ${booking.ride.end_location}`
-    : 'the trip';
+  const rideLabel = getRideLabel(booking);
 
   const pickupTime = booking.pickup_time
     ? new Date(booking.pickup_time).toLocaleString('en-US', {
@@ -318,30 +261,202 @@ function buildBookingMessage({
       })
     : '';
 
-  const passengerName = booking.passenger
-    ? `${booking.passenger.first_name ?? ''} ${booking.passenger.last_name ?? ''}`.trim()
-    : 'Passenger';
-  const driverName = booking.driver
-    ? `${booking.driver.first_name ?? ''} ${booking.driver.last_name ?? ''}`.trim()
-    : 'Driver';
+  const { passengerName, driverName } = getParticipantNames(booking);
+
+  const requestedSeats = booking.seats_requested ?? 1;
+  const seats = confirmedSeats ?? requestedSeats;
+  let seatLabel = '';
+  if (seats < requestedSeats) {
+    seatLabel = ` (${seats} of ${requestedSeats} requested seats)`;
+  } else if (seats > 1) {
+    seatLabel = ` (${seats} seats)`;
+  }
 
   if (userRole === 'driver') {
     if (action === 'approve') {
-      return `I confirmed ${passengerName} for ${rideLabel}. Pickup: ${booking.pickup_location ?? 'TBD'} ${pickupTime}`;
+      return `I confirmed ${passengerName} for ${rideLabel}${seatLabel}. Pickup: ${booking.pickup_location ?? 'TBD'} ${pickupTime}`;
     }
     if (action === 'deny') {
       // Driver denying a passenger request (pending) vs canceling their own invitation (invited)
       if (booking.status === 'invited') {
         return `I cancelled the invitation to ${passengerName} for ${rideLabel}.`;
       }
+      if (booking.status === 'waitlisted') {
+        return `I removed ${passengerName} from the waitlist for ${rideLabel}.`;
+      }
+      if (booking.status === 'confirmed') {
+        return `I cancelled ${passengerName}'s seat on ${rideLabel}.`;
+      }
       return `I declined the request from ${passengerName} for ${rideLabel}.`;
     }
   } else if (action === 'cancel') {
+    if (booking.status === 'waitlisted') {
+      return `I left the waitlist for ${rideLabel}.`;
+    }
+    if (booking.status === 'confirmed') {
+      return `I cancelled my seat on ${rideLabel}. Pickup: ${booking.pickup_location ?? 'TBD'} ${pickupTime}`;
+    }
     return `I cancelled my request for ${rideLabel}. Pickup: ${booking.pickup_location ?? 'TBD'} ${pickupTime}`;
   } else if (action === 'approve') {
-    return `I accepted the invite from ${driverName} for ${rideLabel}. Pickup: ${booking.pickup_location ?? 'TBD'} ${pickupTime}`;
+    return `I accepted the invite from ${driverName} for ${rideLabel}${seatLabel}. Pickup: ${booking.pickup_location ?? 'TBD'} ${pickupTime}`;
   } else if (action === 'deny') {
     return `I declined the invitation from ${driverName} for ${rideLabel}.`;
   }
   return '';
 }
+
+/**
+ * Builds the bell notification for the other participant, matching the message
+ * sent by `buildBookingMessage`.
+ */
+function buildBookingNotification({
+  booking,
+  userRole,
+  action,
+}: {
+  booking: BookingWithRelations;
+  userRole: 'driver' | 'passenger';
+  action: 'approve' | 'deny' | 'cancel';
+}): { type: NotificationType; title: string; body: string } {
+  const rideLabel = getRideLabel(booking);
+  const { passengerName, driverName } = getParticipantNames(booking);
+
+  if (userRole === 'driver') {
+    if (action === 'approve') {
+      return {
+        type: 'booking_confirmed',
+        title: 'Your seat is confirmed',
+        body: `${driverName} confirmed you for ${rideLabel}.`,
+      };
+    }
+    if (booking.status === 'invited') {
+      return {
+        type: 'booking_cancelled',
+        title: 'Invitation withdrawn',
+        body: `${driverName} cancelled their invitation to ${rideLabel}.`,
+      };
+    }
+    if (booking.status === 'waitlisted') {
+      return {
+        type: 'booking_declined',
+        title: 'Removed from the waitlist',
+        body: `${driverName} removed you from the waitlist for ${rideLabel}.`,
+      };
+    }
+    if (booking.status === 'confirmed') {
+      return {
+        type: 'booking_cancelled',
+        title: 'Your seat was cancelled',
+        body: `${driverName} cancelled your seat on ${rideLabel}.`,
+      };
+    }
+    return {
+      type: 'booking_declined',
+      title: 'Ride request declined',
+      body: `${driverName} declined your request to join ${rideLabel}.`,
+    };
+  }
+
+  if (action === 'approve') {
+    return {
+      type: 'invitation_accepted',
+      title: 'Invitation accepted',
+      body: `${passengerName} accepted your invitation to ${rideLabel}.`,
+    };
+  }
+  if (action === 'deny') {
+    return {
+      type: 'invitation_declined',
+      title: 'Invitation declined',
+      body: `${passengerName} declined your invitation to ${rideLabel}.`,
+    };
+  }
+  if (booking.status === 'waitlisted') {
+    return {
+      type: 'booking_cancelled',
+      title: 'A passenger left the waitlist',
+      body: `${passengerName} left the waitlist for ${rideLabel}.`,
+    };
+  }
+  if (booking.status === 'confirmed') {
+    return {
+      type: 'booking_cancelled',
+      title: 'A passenger cancelled',
+      body: `${passengerName} cancelled their seat on ${rideLabel}.`,
+    };
+  }
+  return {
+    type: 'booking_cancelled',
+    title: 'Ride request withdrawn',
+    body: `${passengerName} cancelled their request for ${rideLabel}.`,
+  };
+}
+
+/**
+ * Full names of the booking's passenger and driver, with generic fallbacks.
+ */
+function getParticipantNames(booking: BookingWithRelations) {
+  const passengerName = booking.passenger
+    ? `${booking.passenger.first_name ?? ''} ${booking.passenger.last_name ?? ''}`.trim()
+    : 'Passenger';
+  const driverName = booking.driver
+    ? `${booking.driver.first_name ?? ''} ${booking.driver.last_name ?? ''}`.trim()
+    : 'Driver';
+  return { passengerName, driverName };
+}
+
+/**
+ * Formats the ride title, falling back to its route.
+ */
+function getRideLabel(booking: BookingWithRelations): string {
+  return booking.ride
+    ? booking.ride.title || `${booking.ride.start_location} → ${booking.ride.end_location}`
+    : 'the trip';
+}
+
+/**
+ * Lets passengers promoted off the waitlist know a seat is waiting for them.
+ * The message comes from the driver, so it is sent with the admin client: the
+ * cancellation that freed the seat may have been made by another passenger.
+ */
+async function notifyPromotedPassengers(
+  booking: BookingWithRelations,
+  promoted: WaitlistPromotion[]
+): Promise<void> {
+  if (promoted.length === 0) return;
+
+  const adminSupabase = createAdminClient();
+  const rideLabel = getRideLabel(booking);
+  const notifications: NewNotification[] = [];
+
+  for (const promotion of promoted) {
+    const seatLabel = promotion.seats === 1 ? 'A seat' : `${promotion.seats} seats`;
+    let conversationId: string | null = null;
+    try {
+      conversationId = await sendConversationMessage({
+        supabase: adminSupabase,
+        senderId: booking.driver_id,
+        recipientId: promotion.passengerId,
+        rideId: booking.ride_id,
+        content: `Good news! ${seatLabel} opened up on ${rideLabel} and you're next on the waitlist. Accept the invitation to confirm your spot.`,
+      });
+    } catch (conversationError: unknown) {
+      console.error('Error notifying passenger promoted from the waitlist', conversationError);
+    }
+
+    notifications.push({
+      userId: promotion.passengerId,
+      actorId: booking.driver_id,
+      type: 'waitlist_promoted',
+      title: 'A seat opened up',
+      body: `${seatLabel} opened up on ${rideLabel}. Accept the invitation to confirm your spot.`,
+      data: {
+        ride_id: booking.ride_id,
+        booking_id: promotion.bookingId,
+        conversation_id: conversationId,
+      },
+    });
+  }
+
+  await createNotifications(notifications);
+}
@@ -3,12 +3,22 @@ import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '@/types/database.types';
 import { POST } from './route';
 import { sendConversationMessage } from '@/lib/supabase/conversations';
+import { createNotifications } from '@/lib/supabase/notifications';
 import { getAuthenticatedUser, ensureProfileComplete } from '@/lib/supabase/auth';
+import { geocodeQuery } from '@/libs/geocoder';
 
 jest.mock('@/lib/supabase/conversations', () => ({
   sendConversationMessage: jest.fn(),
 }));
 
+jest.mock('@/libs/geocoder', () => ({
+  geocodeQuery: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/notifications', () => ({
+  createNotifications: jest.fn(),
+}));
+
 jest.mock('@/lib/supabase/auth', () => ({
   getAuthenticatedUser: jest.fn(),
   createUnauthorizedResponse: jest.fn(),
@@ -33,9 +43,20 @@ describe('POST /api/trips/bookings', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     (ensureProfileComplete as jest.Mock).mockResolvedValue(null);
+    (geocodeQuery as jest.Mock).mockResolvedValue(null);
   });
 
   it('creates a booking and notifies the driver via message', async () => {
+    (geocodeQuery as jest.Mock).mockResolvedValue({
+      lat: 39.1,
+      lng: -120.2,
+      displayName: 'Central, CA',
+      source: 'nominatim',
+    });
+    const insertSingle = jest.fn().mockResolvedValue({ data: bookingResponse, error: null });
+    const insertSelect = jest.fn().mockReturnValue({ single: insertSingle });
+    const insert = jest.fn().mockReturnValue({ select: insertSelect });
+
     const supabase = {
       from: jest.fn((tableName: string) => {
         if (tableName === 'rides') {
@@ -49,10 +70,6 @@ describe('POST /api/trips/bookings', () => {
           const eqSecond = jest.fn().mockReturnValue({ maybeSingle });
           const eqFirst = jest.fn().mockReturnValue({ eq: eqSecond });
           const select = jest.fn().mockReturnValue({ eq: eqFirst });
-
-          const insertSingle = jest.fn().mockResolvedValue({ data: bookingResponse, error: null });
-          const insertSelect = jest.fn().mockReturnValue({ single: insertSingle });
-          const insert = jest.fn().mockReturnValue({ select: insertSelect });
           return { select, insert };
         }
 
@@ -88,8 +105,14 @@ describe('POST /api/trips/bookings', () => {
       json: jest.fn().mockResolvedValue(requestBody),
     } as unknown as NextRequest;
 
+    (sendConversationMessage as jest.Mock).mockResolvedValue('convo-1');
+
     await POST(request);
 
+    expect(geocodeQuery).toHaveBeenCalledWith('Central');
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({ pickup_location: 'Central', pickup_lat: 39.1, pickup_lng: -120.2 })
+    );
     expect(sendConversationMessage).toHaveBeenCalledWith({
       supabase,
       senderId: user.id,
@@ -97,6 +120,16 @@ describe('POST /api/trips/bookings', () => {
       rideId: requestBody.ride_id,
       content: expect.stringContaining('requested to join'),
     });
+    expect(createNotifications).toHaveBeenCalledWith([
+      {
+        userId: ride.poster_id,
+        actorId: user.id,
+        type: 'booking_requested',
+        title: 'New ride request',
+        body: 'Alice Test requested to join Snowy Ride.',
+        data: { ride_id: ride.id, booking_id: bookingResponse.id, conversation_id: 'convo-1' },
+      },
+    ]);
   });
 
   it('reopens a cancelled booking when re-requesting the same ride', async () => {
@@ -171,4 +204,251 @@ describe('POST /api/trips/bookings', () => {
       })
     );
   });
+
+  it('stores the requested seat count and tells the driver how many seats are needed', async () => {
+    const insert = jest.fn().mockReturnValue({
+      select: jest.fn().mockReturnValue({
+        single: jest.fn().mockResolvedValue({ data: bookingResponse, error: null }),
+      }),
+    });
+
+    const supabase = {
+      from: jest.fn((tableName: string) => {
+        if (tableName === 'rides') {
+          const single = jest.fn().mockResolvedValue({ data: ride, error: null });
+          const eq = jest.fn().mockReturnValue({ single });
+          return { select: jest.fn().mockReturnValue({ eq }) };
+        }
+
+        if (tableName === 'trip_bookings') {
+          const maybeSingle = jest.fn().mockResolvedValue({ data: null, error: null });
+          const eqSecond = jest.fn().mockReturnValue({ maybeSingle });
+          const eqFirst = jest.fn().mockReturnValue({ eq: eqSecond });
+          return { select: jest.fn().mockReturnValue({ eq: eqFirst }), insert };
+        }
+
+        if (tableName === 'profiles') {
+          const maybeSingle = jest
+            .fn()
+            .mockResolvedValue({ data: { first_name: 'Alice', last_name: 'Test' }, error: null });
+          const eq = jest.fn().mockReturnValue({ maybeSingle });
+          return { select: jest.fn().mockReturnValue({ eq }) };
+        }
+
+        return { select: jest.fn(), insert: jest.fn() };
+      }),
+    } as unknown as SupabaseClient<Database>;
+
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'passenger-1' },
+      authError: null,
+      supabase,
+    });
+
+    const request = {
+      json: jest.fn().mockResolvedValue({
+        ride_id: ride.id,
+        pickup_location: 'Central',
+        pickup_date: '2025-12-20',
+        pickup_time: '08:00',
+        seats_requested: 2,
+      }),
+    } as unknown as NextRequest;
+
+    await POST(request);
+
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({ seats_requested: 2, status: 'pending' })
+    );
+    expect(sendConversationMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ content: expect.stringContaining('They need 2 seats.') })
+    );
+  });
+
+  it.each([
+    ['the ride is full', 0, 2],
+    ['they need more seats than the ride has left', 3, 4],
+  ])(
+    'adds the passenger to the waitlist when %s',
+    async (_case, availableSeats, seatsRequested) => {
+      const insert = jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          single: jest.fn().mockResolvedValue({
+            data: { ...bookingResponse, status: 'waitlisted' },
+            error: null,
+          }),
+        }),
+      });
+
+      const supabase = {
+        from: jest.fn((tableName: string) => {
+          if (tableName === 'rides') {
+            const single = jest.fn().mockResolvedValue({
+              data: { ...ride, available_seats: availableSeats },
+              error: null,
+            });
+            const eq = jest.fn().mockReturnValue({ single });
+            return { select: jest.fn().mockReturnValue({ eq }) };
+          }
+
+          if (tableName === 'trip_bookings') {
+            const maybeSingle = jest.fn().mockResolvedValue({ data: null, error: null });
+            const eqSecond = jest.fn().mockReturnValue({ maybeSingle });
+            const eqFirst = jest.fn().mockReturnValue({ eq: eqSecond });
+            return { select: jest.fn().mockReturnValue({ eq: eqFirst }), insert };
+          }
+
+          if (tableName === 'profiles') {
+            const maybeSingle = jest
+              .fn()
+              .mockResolvedValue({ data: { first_name: 'Alice', last_name: 'Test' }, error: null });
+            const eq = jest.fn().mockReturnValue({ maybeSingle });
+            return { select: jest.fn().mockReturnValue({ eq }) };
+          }
+
+          return { select: jest.fn(), insert: jest.fn() };
+        }),
+      } as unknown as SupabaseClient<Database>;
+
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+        user: { id: 'passenger-1' },
+        authError: null,
+        supabase,
+      });
+
+      const request = {
+        json: jest.fn().mockResolvedValue({
+          ride_id: ride.id,
+          pickup_location: 'Central',
+          pickup_date: '2025-12-20',
+          pickup_time: '08:00',
+          seats_requested: seatsRequested,
+        }),
+      } as unknown as NextRequest;
+
+      const response = await POST(request);
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.status).toBe('waitlisted');
+      expect(insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'waitlisted',
+          seats_requested: seatsRequested,
+          waitlisted_at: expect.any(String),
+        })
+      );
+      expect(sendConversationMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ content: expect.stringContaining('joined the waitlist for') })
+      );
+      expect(createNotifications).toHaveBeenCalledWith([
+        expect.objectContaining({ type: 'booking_waitlisted', title: 'New waitlist request' }),
+      ]);
+    }
+  );
+
+  describe('community place pickups', () => {
+    const placeId = '6f1c2b1e-2f0a-4c1d-9a57-0d5c8e2f4b11';
+
+    const buildSupabase = (place: unknown) => {
+      const insert = jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          single: jest.fn().mockResolvedValue({ data: bookingResponse, error: null }),
+        }),
+      });
+      const placeEqStatus = jest.fn().mockReturnValue({
+        maybeSingle: jest.fn().mockResolvedValue({ data: place, error: null }),
+      });
+
+      const supabase = {
+        from: jest.fn((tableName: string) => {
+          if (tableName === 'rides') {
+            const single = jest.fn().mockResolvedValue({ data: ride, error: null });
+            const eq = jest.fn().mockReturnValue({ single });
+            return { select: jest.fn().mockReturnValue({ eq }) };
+          }
+
+          if (tableName === 'community_places') {
+            const eq = jest.fn().mockReturnValue({ eq: placeEqStatus });
+            return { select: jest.fn().mockReturnValue({ eq }) };
+          }
+
+          if (tableName === 'trip_bookings') {
+            const maybeSingle = jest.fn().mockResolvedValue({ data: null, error: null });
+            const eqSecond = jest.fn().mockReturnValue({ maybeSingle });
+            const eqFirst = jest.fn().mockReturnValue({ eq: eqSecond });
+            return { select: jest.fn().mockReturnValue({ eq: eqFirst }), insert };
+          }
+
+          if (tableName === 'profiles') {
+            const maybeSingle = jest
+              .fn()
+              .mockResolvedValue({ data: { first_name: 'Alice', last_name: 'Test' }, error: null });
+            const eq = jest.fn().mockReturnValue({ maybeSingle });
+            return { select: jest.fn().mockReturnValue({ eq }) };
+          }
+
+          return { select: jest.fn(), insert: jest.fn() };
+        }),
+      } as unknown as SupabaseClient<Database>;
+
+      return { supabase, insert, placeEqStatus };
+    };
+
+    const makeRequest = () =>
+      ({
+        json: jest.fn().mockResolvedValue({
+          ride_id: ride.id,
+          pickup_location: 'Park and ride',
+          pickup_community_place_id: placeId,
+          pickup_date: '2025-12-20',
+          pickup_time: '08:00',
+        }),
+      }) as unknown as NextRequest;
+
+    it('uses the approved place name and coordinates for the pickup', async () => {
+      const { supabase, insert, placeEqStatus } = buildSupabase({
+        id: placeId,
+        name: 'Truckee Park & Ride',
+        address: '10130 W River St, Truckee, CA',
+        lat: 39.32,
+        lng: -120.18,
+      });
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+        user: { id: 'passenger-1' },
+        authError: null,
+        supabase,
+      });
+
+      const response = await POST(makeRequest());
+
+      expect(response.status).toBe(200);
+      expect(placeEqStatus).toHaveBeenCalledWith('status', 'approved');
+      expect(geocodeQuery).not.toHaveBeenCalled();
+      expect(insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          pickup_location: 'Truckee Park & Ride',
+          pickup_lat: 39.32,
+          pickup_lng: -120.18,
+          pickup_community_place_id: placeId,
+        })
+      );
+    });
+
+    it('rejects a pickup place that is not approved', async () => {
+      const { supabase, insert } = buildSupabase(null);
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+        user: { id: 'passenger-1' },
+        authError: null,
+        supabase,
+      });
+
+      const response = await POST(makeRequest());
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.error).toBe('Pickup place not found');
+      expect(insert).not.toHaveBeenCalled();
+    });
+  });
 });
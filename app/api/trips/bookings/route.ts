@@ -8,10 +8,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createTripBookingSchema } from '@/libs/validations/trips';
 import { z } from 'zod';
 import { sendConversationMessage } from '@/lib/supabase/conversations';
+import { geocodeQuery } from '@/libs/geocoder';
+import { createNotifications } from '@/lib/supabase/notifications';
 
 /**
  * Creates a new trip booking request.
  * Validates ride availability, seat count, and ensures no self-booking.
+ * Requests for more seats than the ride has left, including any request for a
+ * full ride, are added to the ride's waitlist instead and offered seats as they
+ * open up.
+ * The pickup location is geocoded once here so the driver's trip plan can
+ * order pickups without looking them up again.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -46,16 +53,54 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Ride is no longer active' }, { status: 400 });
     }
 
-    if (ride.available_seats !== null && ride.available_seats <= 0) {
-      return NextResponse.json({ error: 'No seats available' }, { status: 400 });
+    const seatsRequested = body.seats_requested ?? 1;
+
+    const joinsWaitlist = ride.available_seats !== null && ride.available_seats < seatsRequested;
+
+    let pickupPlace: {
+      id: string;
+      name: string;
+      address: string;
+      lat: number | null;
+      lng: number | null;
+    } | null = null;
+    if (body.pickup_community_place_id) {
+      const { data: place, error: placeError } = await supabase
+        .from('community_places')
+        .select('id, name, address, lat, lng')
+        .eq('id', body.pickup_community_place_id)
+        .eq('status', 'approved')
+        .maybeSingle();
+
+      if (placeError) {
+        console.error('Error fetching pickup place', placeError);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+      }
+
+      if (!place) {
+        return NextResponse.json({ error: 'Pickup place not found' }, { status: 400 });
+      }
+
+      pickupPlace = place;
     }
 
     // Check if already booked
     const pickupTimestamp = new Date(`${body.pickup_date}T${body.pickup_time}:00`).toISOString();
+    // Approved places carry their own coordinates; anything else is geocoded once here
+    const pickupCoords =
+      pickupPlace?.lat != null && pickupPlace.lng != null
+        ? { lat: pickupPlace.lat, lng: pickupPlace.lng }
+        : await geocodeQuery(pickupPlace?.address ?? body.pickup_location);
     const bookingPayload = {
-      pickup_location: body.pickup_location,
+      pickup_location: pickupPlace?.name ?? body.pickup_location,
+      pickup_lat: pickupCoords?.lat ?? null,
+      pickup_lng: pickupCoords?.lng ?? null,
+      pickup_community_place_id: pickupPlace?.id ?? null,
       pickup_time: pickupTimestamp,
       passenger_notes: body.passenger_notes ?? null,
+      seats_requested: seatsRequested,
+      status: joinsWaitlist ? 'waitlisted' : 'pending',
+      waitlisted_at: joinsWaitlist ? new Date().toISOString() : null,
     };
 
     const { data: existingBooking, error: existingBookingError } = await supabase
@@ -84,8 +129,9 @@ export async function POST(request: NextRequest) {
         .from('trip_bookings')
         .update({
           ...bookingPayload,
-          status: 'pending',
           confirmed_at: null,
+          seats_confirmed: null,
+          proposed_pickup_time: null,
         })
         .eq('id', existingBooking.id)
         .select()
@@ -104,7 +150,6 @@ export async function POST(request: NextRequest) {
           driver_id: ride.poster_id,
           passenger_id: user.id,
           ...bookingPayload,
-          status: 'pending',
         })
         .select()
         .single();
@@ -121,6 +166,7 @@ export async function POST(request: NextRequest) {
         supabase,
         driverId: ride.poster_id,
         passengerId: user.id,
+        bookingId: booking.id,
         ride: {
           id: ride.id,
           title: ride.title,
@@ -130,6 +176,8 @@ export async function POST(request: NextRequest) {
         pickupDate: body.pickup_date,
         pickupTime: body.pickup_time,
         passengerNotes: body.passenger_notes,
+        seatsRequested,
+        waitlisted: joinsWaitlist,
       });
     } catch (conversationError: unknown) {
       console.error('Unable to notify driver about new booking request', conversationError);
@@ -155,20 +203,26 @@ interface NotifyDriverArgs {
   supabase: SupabaseClient;
   driverId: string;
   passengerId: string;
+  bookingId: string;
   ride: RideSummary;
   pickupDate: string;
   pickupTime: string;
   passengerNotes?: string | null;
+  seatsRequested?: number;
+  waitlisted?: boolean;
 }
 
 async function notifyDriverAboutBookingRequest({
   supabase,
   driverId,
   passengerId,
+  bookingId,
   ride,
   pickupDate,
   pickupTime,
   passengerNotes,
+  seatsRequested = 1,
+  waitlisted = false,
 }: NotifyDriverArgs) {
   const { data: passengerProfile } = await supabase
     .from('profiles')
@@ -198,13 +252,27 @@ async function notifyDriverAboutBookingRequest({
 
   const noteSuffix = passengerNotes ? ` They wrote: "${passengerNotes}".` : '';
 
-  const messageContent = `${passengerName} just requested to join ${rideLabel} on ${pickupDate} at ${pickupTime}.${noteSuffix}`;
+  const seatSuffix = seatsRequested > 1 ? ` They need ${seatsRequested} seats.` : '';
 
-  await sendConversationMessage({
+  const action = waitlisted ? 'joined the waitlist for' : 'requested to join';
+  const messageContent = `${passengerName} just ${action} ${rideLabel} on ${pickupDate} at ${pickupTime}.${seatSuffix}${noteSuffix}`;
+
+  const conversationId = await sendConversationMessage({
     supabase,
     senderId: passengerId,
     recipientId: driverId,
     rideId: ride.id,
     content: messageContent,
   });
+
+  await createNotifications([
+    {
+      userId: driverId,
+      actorId: passengerId,
+      type: waitlisted ? 'booking_waitlisted' : 'booking_requested',
+      title: waitlisted ? 'New waitlist request' : 'New ride request',
+      body: `${passengerName} ${action} ${rideLabel}.`,
+      data: { ride_id: ride.id, booking_id: bookingId, conversation_id: conversationId },
+    },
+  ]);
 }
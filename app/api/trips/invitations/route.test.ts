@@ -4,194 +4,188 @@ import type { Database } from '@/types/database.types';
 import { POST } from './route';
 import { getAuthenticatedUser, ensureProfileComplete } from '@/lib/supabase/auth';
 import { sendConversationMessage } from '@/lib/supabase/conversations';
+import { createNotifications } from '@/lib/supabase/notifications';
 
 jest.mock('@/lib/supabase/conversations', () => ({
   sendConversationMessage: jest.fn(),
 }));
 
+jest.mock('@/lib/supabase/notifications', () => ({
+  createNotifications: jest.fn(),
+}));
+
 jest.mock('@/lib/supabase/auth', () => ({
   getAuthenticatedUser: jest.fn(),
   createUnauthorizedResponse: jest.fn(),
   ensureProfileComplete: jest.fn(),
 }));
 
+const RIDE_ID = 'a3c8e5a6-ec45-4e90-9f3b-52f4ef6ccebf';
+const PASSENGER_ID = 'b6a5b6a7-6f7e-4d3f-9485-9bf6f9c0942f';
+
+/**
+ * Builds a Supabase mock for the invitation flow.
+ * The reserve_trip_seat RPC result is configurable so each test can drive a different outcome.
+ */
+function createSupabaseMock(ride: Record<string, unknown>, rpcResult: Record<string, unknown>) {
+  const rideUpdate = jest.fn();
+  const bookingInsert = jest.fn();
+  const rpc = jest.fn().mockResolvedValue({ data: rpcResult, error: null });
+
+  const supabase = {
+    rpc,
+    from: jest.fn((tableName: string) => {
+      if (tableName === 'rides') {
+        const single = jest.fn().mockResolvedValue({ data: ride, error: null });
+        const eq = jest.fn().mockReturnValue({ single });
+        return { select: jest.fn().mockReturnValue({ eq }), update: rideUpdate };
+      }
+
+      if (tableName === 'trip_bookings') {
+        const single = jest.fn().mockResolvedValue({
+          data: { id: rpcResult.booking_id, status: 'invited' },
+          error: null,
+        });
+        const eq = jest.fn().mockReturnValue({ single });
+        return { select: jest.fn().mockReturnValue({ eq }), insert: bookingInsert };
+      }
+
+      if (tableName === 'profiles') {
+        const maybeSingle = jest
+          .fn()
+          .mockResolvedValue({ data: { first_name: 'Driver', last_name: 'Test' }, error: null });
+        const eq = jest.fn().mockReturnValue({ maybeSingle });
+        return { select: jest.fn().mockReturnValue({ eq }) };
+      }
+
+      return { select: jest.fn(), insert: jest.fn() };
+    }),
+  } as unknown as SupabaseClient<Database>;
+
+  return { supabase, rpc, rideUpdate, bookingInsert };
+}
+
+function createRequest() {
+  return {
+    json: jest.fn().mockResolvedValue({
+      ride_id: RIDE_ID,
+      passenger_id: PASSENGER_ID,
+      pickup_location: 'San Francisco',
+      pickup_time: new Date('2025-12-20T08:30:00Z').toISOString(),
+      driver_notes: 'I can take you along',
+    }),
+  } as unknown as NextRequest;
+}
+
 describe('POST /api/trips/invitations', () => {
+  const ride = {
+    poster_id: 'driver-idd',
+    status: 'active',
+    title: 'Mountain Ride',
+    start_location: 'SF',
+    end_location: 'Tahoe',
+    departure_date: '2025-12-20',
+    departure_time: '08:30',
+  };
+
   beforeEach(() => {
     jest.clearAllMocks();
     (ensureProfileComplete as jest.Mock).mockResolvedValue(null);
   });
 
-  it('creates an invitation and notifies the passenger', async () => {
-    const ride = {
-      poster_id: 'driver-idd',
-      available_seats: 2,
-      status: 'active',
-      title: 'Mountain Ride',
-      start_location: 'SF',
-      end_location: 'Tahoe',
-      departure_date: '2025-12-20',
-      departure_time: '08:30',
-    };
-
-    const rideUpdateGt = jest.fn().mockResolvedValue({ error: null });
-    const rideUpdateEq = jest.fn().mockReturnValue({ gt: rideUpdateGt });
-    const rideUpdate = jest.fn().mockReturnValue({ eq: rideUpdateEq });
-
-    const supabase = {
-      from: jest.fn((tableName: string) => {
-        if (tableName === 'rides') {
-          const single = jest.fn().mockResolvedValue({ data: ride, error: null });
-          const eq = jest.fn().mockReturnValue({ single });
-          return { select: jest.fn().mockReturnValue({ eq }), update: rideUpdate };
-        }
-
-        if (tableName === 'trip_bookings') {
-          const maybeSingle = jest.fn().mockResolvedValue({ data: null, error: null });
-          const inChain = jest.fn().mockReturnValue({ maybeSingle });
-          const eqSecond = jest.fn().mockReturnValue({ in: inChain });
-          const eqFirst = jest.fn().mockReturnValue({ eq: eqSecond });
-          const select = jest.fn().mockReturnValue({ eq: eqFirst });
-          const deleteEq = jest.fn().mockResolvedValue({ error: null });
-          const deleteChain = jest.fn().mockReturnValue({ eq: deleteEq });
-          const insert = jest.fn().mockReturnValue({
-            select: jest.fn().mockReturnValue({
-              single: jest.fn().mockResolvedValue({ data: { id: 'booking-xx' }, error: null }),
-            }),
-          });
-          return { select, insert, delete: deleteChain };
-        }
-
-        if (tableName === 'profiles') {
-          const maybeSingle = jest
-            .fn()
-            .mockResolvedValue({ data: { first_name: 'Driver', last_name: 'Test' }, error: null });
-          const eq = jest.fn().mockReturnValue({ maybeSingle });
-          return { select: jest.fn().mockReturnValue({ eq }) };
-        }
-
-        return { select: jest.fn(), insert: jest.fn() };
-      }),
-    } as unknown as SupabaseClient<Database>;
-
-    const user = { id: 'driver-idd' };
-
-    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
-      user,
-      authError: null,
-      supabase,
+  it('creates the invitation through the seat reservation RPC and notifies the passenger', async () => {
+    const { supabase, rpc, rideUpdate, bookingInsert } = createSupabaseMock(ride, {
+      outcome: 'ok',
+      booking_id: 'booking-xx',
+      available_seats: 1,
     });
 
-    const request = {
-      json: jest.fn().mockResolvedValue({
-        ride_id: 'a3c8e5a6-ec45-4e90-9f3b-52f4ef6ccebf',
-        passenger_id: 'b6a5b6a7-6f7e-4d3f-9485-9bf6f9c0942f',
-        pickup_location: 'San Francisco',
-        pickup_time: new Date('2025-12-20T08:30:00Z').toISOString(),
-        driver_notes: 'I can take you along',
-      }),
-    } as unknown as NextRequest;
+    const user = { id: 'driver-idd' };
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({ user, authError: null, supabase });
 
-    await POST(request);
+    const response = await POST(createRequest());
+    const responseData = await response.json();
 
-    // Verify seats are decremented when invitation is created
-    expect(rideUpdate).toHaveBeenCalledWith({ available_seats: 1 });
-    expect(rideUpdateEq).toHaveBeenCalledWith('id', 'a3c8e5a6-ec45-4e90-9f3b-52f4ef6ccebf');
-    expect(rideUpdateGt).toHaveBeenCalledWith('available_seats', 0);
+    expect(response.status).toBe(200);
+    expect(responseData).toHaveProperty('id', 'booking-xx');
+    expect(rpc).toHaveBeenCalledWith('reserve_trip_seat', {
+      p_ride_id: RIDE_ID,
+      p_passenger_id: PASSENGER_ID,
+      p_next_status: 'invited',
+      p_pickup_location: 'San Francisco',
+      p_pickup_time: '2025-12-20T08:30:00.000Z',
+      p_driver_notes: 'I can take you along',
+      p_seats: null,
+    });
+    // The booking insert and seat decrement both happen inside the RPC
+    expect(bookingInsert).not.toHaveBeenCalled();
+    expect(rideUpdate).not.toHaveBeenCalled();
 
     expect(sendConversationMessage).toHaveBeenCalledWith({
       supabase,
       senderId: user.id,
-      recipientId: 'b6a5b6a7-6f7e-4d3f-9485-9bf6f9c0942f',
-      rideId: 'a3c8e5a6-ec45-4e90-9f3b-52f4ef6ccebf',
+      recipientId: PASSENGER_ID,
+      rideId: RIDE_ID,
       content: expect.stringContaining('invited you'),
     });
-  });
-
-  it('does not decrement seats when ride has unlimited seats', async () => {
-    const ride = {
-      poster_id: 'driver-unlimited',
-      available_seats: null, // Unlimited seats
-      status: 'active',
-      title: 'Bus Ride',
-      start_location: 'Oakland',
-      end_location: 'Tahoe',
-      departure_date: '2025-12-21',
-      departure_time: '09:00',
-    };
-
-    const rideUpdateEq = jest.fn().mockResolvedValue({ error: null });
-    const rideUpdate = jest.fn().mockReturnValue({ eq: rideUpdateEq });
-
-    const supabase = {
-      from: jest.fn((tableName: string) => {
-        if (tableName === 'rides') {
-          const single = jest.fn().mockResolvedValue({ data: ride, error: null });
-          const eq = jest.fn().mockReturnValue({ single });
-          return { select: jest.fn().mockReturnValue({ eq }), update: rideUpdate };
-        }
-
-        if (tableName === 'trip_bookings') {
-          const maybeSingle = jest.fn().mockResolvedValue({ data: null, error: null });
-          const inChain = jest.fn().mockReturnValue({ maybeSingle });
-          const eqSecond = jest.fn().mockReturnValue({ in: inChain });
-          const eqFirst = jest.fn().mockReturnValue({ eq: eqSecond });
-          const select = jest.fn().mockReturnValue({ eq: eqFirst });
-          const insert = jest.fn().mockReturnValue({
-            select: jest.fn().mockReturnValue({
-              single: jest.fn().mockResolvedValue({ data: { id: 'booking-yy' }, error: null }),
-            }),
-          });
-          return { select, insert };
-        }
-
-        if (tableName === 'profiles') {
-          const maybeSingle = jest
-            .fn()
-            .mockResolvedValue({
-              data: { first_name: 'Driver', last_name: 'Unlimited' },
-              error: null,
-            });
-          const eq = jest.fn().mockReturnValue({ maybeSingle });
-          return { select: jest.fn().mockReturnValue({ eq }) };
-        }
-
-        return { select: jest.fn(), insert: jest.fn(), update: jest.fn() };
+    expect(createNotifications).toHaveBeenCalledWith([
+      expect.objectContaining({
+        userId: PASSENGER_ID,
+        actorId: user.id,
+        type: 'ride_invitation',
+        data: expect.objectContaining({ ride_id: RIDE_ID, booking_id: 'booking-xx' }),
       }),
-    } as unknown as SupabaseClient<Database>;
+    ]);
+  });
 
-    const user = { id: 'driver-unlimited' };
+  it('returns 409 and does not notify when the ride is full', async () => {
+    const { supabase } = createSupabaseMock(ride, { outcome: 'full', available_seats: 0 });
 
     (getAuthenticatedUser as jest.Mock).mockResolvedValue({
-      user,
+      user: { id: 'driver-idd' },
       authError: null,
       supabase,
     });
 
-    const request = {
-      json: jest.fn().mockResolvedValue({
-        ride_id: 'a1b2c3d4-e5f6-4a5b-9c7d-123456789abc',
-        passenger_id: 'b2c3d4e5-f6a7-4b5c-9d8e-234567890def',
-        pickup_location: 'Downtown Oakland',
-        pickup_time: new Date('2025-12-21T09:00:00Z').toISOString(),
-        driver_notes: 'Plenty of space!',
-      }),
-    } as unknown as NextRequest;
-
-    const response = await POST(request);
+    const response = await POST(createRequest());
     const responseData = await response.json();
 
-    // Verify the invitation was created successfully
-    expect(responseData).toHaveProperty('id', 'booking-yy');
+    expect(response.status).toBe(409);
+    expect(responseData).toEqual({ error: 'No seats available', outcome: 'full' });
+    expect(sendConversationMessage).not.toHaveBeenCalled();
+    expect(createNotifications).not.toHaveBeenCalled();
+  });
 
-    // Verify seats are NOT decremented for unlimited seats
-    expect(rideUpdate).not.toHaveBeenCalled();
+  it('returns 409 when the rider already has a booking for the ride', async () => {
+    const { supabase } = createSupabaseMock(ride, {
+      outcome: 'already_booked',
+      booking_id: 'booking-existing',
+    });
 
-    expect(sendConversationMessage).toHaveBeenCalledWith({
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'driver-idd' },
+      authError: null,
+      supabase,
+    });
+
+    const response = await POST(createRequest());
+
+    expect(response.status).toBe(409);
+    expect(sendConversationMessage).not.toHaveBeenCalled();
+  });
+
+  it('only lets the ride poster invite riders', async () => {
+    const { supabase, rpc } = createSupabaseMock(ride, { outcome: 'ok' });
+
+    (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+      user: { id: 'someone-else' },
+      authError: null,
       supabase,
-      senderId: user.id,
-      recipientId: 'b2c3d4e5-f6a7-4b5c-9d8e-234567890def',
-      rideId: 'a1b2c3d4-e5f6-4a5b-9c7d-123456789abc',
-      content: expect.stringContaining('invited you'),
     });
+
+    const response = await POST(createRequest());
+
+    expect(response.status).toBe(403);
+    expect(rpc).not.toHaveBeenCalled();
   });
 });
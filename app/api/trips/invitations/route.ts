@@ -6,6 +6,8 @@ import {
 } from '@/lib/supabase/auth';
 import { z } from 'zod';
 import { sendConversationMessage } from '@/lib/supabase/conversations';
+import { createNotifications } from '@/lib/supabase/notifications';
+import { reserveTripSeat, createSeatReservationErrorResponse } from '@/lib/supabase/bookings';
 
 const invitationSchema = z.object({
   ride_id: z.uuid(),
@@ -41,7 +43,7 @@ export async function POST(request: NextRequest) {
     const { data: ride, error: rideError } = await supabase
       .from('rides')
       .select(
-        'poster_id, available_seats, status, title, start_location, end_location, departure_date, departure_time'
+        'poster_id, status, title, start_location, end_location, departure_date, departure_time'
       )
       .eq('id', body.ride_id)
       .single();
@@ -61,59 +63,27 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Ride is no longer active' }, { status: 400 });
     }
 
-    if (ride.available_seats !== null && ride.available_seats <= 0) {
-      return NextResponse.json({ error: 'No seats available' }, { status: 400 });
-    }
-
-    const { data: existingBooking } = await supabase
+    // Creates the invitation and holds its seat atomically so concurrent invites can't overbook
+    const { outcome, bookingId } = await reserveTripSeat({
+      supabase,
+      rideId: body.ride_id,
+      passengerId: body.passenger_id,
+      nextStatus: 'invited',
+      pickupLocation: body.pickup_location,
+      pickupTime: new Date(body.pickup_time).toISOString(),
+      driverNotes: body.driver_notes ?? null,
+    });
+    const reservationError = createSeatReservationErrorResponse(outcome);
+    if (reservationError) return reservationError;
+
+    const { data: booking, error: bookingError } = await supabase
       .from('trip_bookings')
-      .select('id, status')
-      .eq('ride_id', body.ride_id)
-      .eq('passenger_id', body.passenger_id)
-      .in('status', ['pending', 'confirmed', 'invited'])
-      .maybeSingle();
-
-    if (existingBooking) {
-      return NextResponse.json(
-        { error: 'This rider already has a booking or invitation for this ride' },
-        { status: 400 }
-      );
-    }
-
-    const { data: booking, error: insertError } = await supabase
-      .from('trip_bookings')
-      .insert({
-        ride_id: body.ride_id,
-        driver_id: user.id,
-        passenger_id: body.passenger_id,
-        pickup_location: body.pickup_location,
-        pickup_time: new Date(body.pickup_time).toISOString(),
-        status: 'invited',
-        driver_notes: body.driver_notes,
-      })
       .select()
+      .eq('id', bookingId)
       .single();
 
-    if (insertError) {
-      return NextResponse.json({ error: insertError.message }, { status: 500 });
-    }
-
-    // Decrement available seats when invitation is created (if seats are tracked)
-    if (ride.available_seats !== null) {
-      const { error: seatUpdateError } = await supabase
-        .from('rides')
-        .update({ available_seats: ride.available_seats - 1 })
-        .eq('id', body.ride_id)
-        .gt('available_seats', 0); // Only update if seats are still available
-
-      if (seatUpdateError) {
-        // If seat update fails, we need to roll back the booking
-        await supabase.from('trip_bookings').delete().eq('id', booking.id);
-        return NextResponse.json(
-          { error: 'Failed to reserve seat for invitation' },
-          { status: 500 }
-        );
-      }
+    if (bookingError || !booking) {
+      return NextResponse.json({ error: 'Unable to load invitation' }, { status: 500 });
     }
 
     try {
@@ -135,13 +105,24 @@ export async function POST(request: NextRequest) {
 
       const content = `${driverName} invited you to join the ride (${rideLabel}) on ${ride.departure_date} at ${ride.departure_time}.${noteSuffix}`;
 
-      await sendConversationMessage({
+      const conversationId = await sendConversationMessage({
         supabase,
         senderId: user.id,
         recipientId: body.passenger_id,
         rideId: body.ride_id,
         content,
       });
+
+      await createNotifications([
+        {
+          userId: body.passenger_id,
+          actorId: user.id,
+          type: 'ride_invitation',
+          title: 'You were invited on a ride',
+          body: `${driverName} invited you to join ${rideLabel}.`,
+          data: { ride_id: body.ride_id, booking_id: booking.id, conversation_id: conversationId },
+        },
+      ]);
     } catch (conversationError: unknown) {
       console.error('Unable to notify passenger about invitation', conversationError);
     }
@@ -0,0 +1,207 @@
+import type { NextRequest } from 'next/server';
+import { GET, PATCH } from './route';
+import { getAuthenticatedUser, ensureProfileComplete } from '@/lib/supabase/auth';
+import { sendConversationMessage } from '@/lib/supabase/conversations';
+import { geocodeQuery } from '@/libs/geocoder';
+
+jest.mock('@/lib/supabase/auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+  createUnauthorizedResponse: jest.fn(),
+  ensureProfileComplete: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/conversations', () => ({
+  sendConversationMessage: jest.fn(),
+}));
+
+jest.mock('@/libs/geocoder', () => ({
+  geocodeQuery: jest.fn(),
+}));
+
+const RIDE_ID = '4f1c2b9e-8a7d-4c3b-9e21-0a5d6c7b8e9f';
+const BOOKING_ID = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d';
+
+const ride = {
+  id: RIDE_ID,
+  poster_id: 'driver-1',
+  posting_type: 'driver',
+  title: 'Powder Day',
+  start_location: 'San Francisco',
+  end_location: 'South Lake Tahoe',
+  start_lat: 37.7749,
+  start_lng: -122.4194,
+  end_lat: 38.9399,
+  end_lng: -119.9772,
+  departure_date: '2026-01-10',
+  departure_time: '07:00:00',
+};
+
+type QueryResult = { data: unknown; error: unknown };
+
+/**
+ * Chainable stand-in for a Supabase query that resolves to the given result.
+ */
+function createQuery(result: QueryResult) {
+  const query: Record<string, unknown> = {};
+  for (const method of ['select', 'eq', 'in', 'update']) {
+    query[method] = jest.fn(() => query);
+  }
+  query.maybeSingle = jest.fn().mockResolvedValue(result);
+  // eslint-disable-next-line no-unused-vars
+  query.then = (resolve: (_value: QueryResult) => unknown) => Promise.resolve(result).then(resolve);
+  return query;
+}
+
+function createSupabaseMock(bookings: unknown[]) {
+  const rideQuery = createQuery({ data: ride, error: null });
+  const bookingsQuery = createQuery({ data: bookings, error: null });
+  const supabase = {
+    from: jest.fn((tableName: string) => (tableName === 'rides' ? rideQuery : bookingsQuery)),
+  };
+  return { supabase, bookingsQuery };
+}
+
+function createRequest(body?: unknown) {
+  return {
+    url: `https://example.com/api/trips/plan/${RIDE_ID}`,
+    json: jest.fn().mockResolvedValue(body),
+  } as unknown as NextRequest;
+}
+
+const params = { params: Promise.resolve({ rideId: RIDE_ID }) };
+
+describe('/api/trips/plan/[rideId]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (ensureProfileComplete as jest.Mock).mockResolvedValue(null);
+  });
+
+  describe('GET', () => {
+    it('orders pickups by the coordinates saved with each booking', async () => {
+      const { supabase, bookingsQuery } = createSupabaseMock([
+        {
+          id: 'placerville',
+          passenger_id: 'p-1',
+          pickup_location: 'Placerville',
+          pickup_lat: 38.7296,
+          pickup_lng: -120.7985,
+          pickup_time: null,
+          proposed_pickup_time: null,
+          seats_requested: 1,
+          seats_confirmed: 1,
+          passenger: null,
+        },
+        {
+          id: 'sacramento',
+          passenger_id: 'p-2',
+          pickup_location: 'Sacramento',
+          pickup_lat: 38.5816,
+          pickup_lng: -121.4944,
+          pickup_time: null,
+          proposed_pickup_time: null,
+          seats_requested: 2,
+          seats_confirmed: null,
+          passenger: null,
+        },
+        {
+          id: 'somewhere',
+          passenger_id: 'p-3',
+          pickup_location: 'Somewhere unknown',
+          pickup_lat: null,
+          pickup_lng: null,
+          pickup_time: null,
+          proposed_pickup_time: null,
+          seats_requested: 1,
+          seats_confirmed: 1,
+          passenger: null,
+        },
+      ]);
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+        user: { id: 'driver-1' },
+        authError: null,
+        supabase,
+      });
+
+      const response = await GET(createRequest(), params);
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(geocodeQuery).not.toHaveBeenCalled();
+      expect(bookingsQuery.update).not.toHaveBeenCalled();
+      expect(body.plan.pickups.map((stop: { booking: { id: string } }) => stop.booking.id)).toEqual(
+        ['sacramento', 'placerville']
+      );
+      expect(body.plan.pickups[0].booking.seats).toBe(2);
+      expect(body.plan.unlocated.map((booking: { id: string }) => booking.id)).toEqual([
+        'somewhere',
+      ]);
+    });
+
+    it('rejects users who did not post the ride', async () => {
+      const { supabase } = createSupabaseMock([]);
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+        user: { id: 'someone-else' },
+        authError: null,
+        supabase,
+      });
+
+      const response = await GET(createRequest(), params);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('PATCH', () => {
+    it('saves the proposed pickup time and asks the passenger to confirm it', async () => {
+      const { supabase, bookingsQuery } = createSupabaseMock([
+        { id: BOOKING_ID, passenger_id: 'p-1', pickup_location: 'Sacramento' },
+      ]);
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+        user: { id: 'driver-1' },
+        authError: null,
+        supabase,
+      });
+
+      const response = await PATCH(
+        createRequest({
+          proposals: [{ booking_id: BOOKING_ID, pickup_time: '2026-01-10T16:30:00.000Z' }],
+        }),
+        params
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body).toEqual({ success: true, updated_booking_ids: [BOOKING_ID] });
+      expect(bookingsQuery.update).toHaveBeenCalledWith({
+        proposed_pickup_time: '2026-01-10T16:30:00.000Z',
+      });
+      expect(sendConversationMessage).toHaveBeenCalledWith({
+        supabase,
+        senderId: 'driver-1',
+        recipientId: 'p-1',
+        rideId: RIDE_ID,
+        content: expect.stringMatching(/Powder Day.*accept or decline/),
+      });
+    });
+
+    it('rejects bookings that are not confirmed on this ride', async () => {
+      const { supabase, bookingsQuery } = createSupabaseMock([]);
+      (getAuthenticatedUser as jest.Mock).mockResolvedValue({
+        user: { id: 'driver-1' },
+        authError: null,
+        supabase,
+      });
+
+      const response = await PATCH(
+        createRequest({
+          proposals: [{ booking_id: BOOKING_ID, pickup_time: '2026-01-10T16:30:00.000Z' }],
+        }),
+        params
+      );
+
+      expect(response.status).toBe(400);
+      expect(bookingsQuery.update).not.toHaveBeenCalled();
+      expect(sendConversationMessage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getAuthenticatedUser,
+  createUnauthorizedResponse,
+  ensureProfileComplete,
+} from '@/lib/supabase/auth';
+import { sendConversationMessage } from '@/lib/supabase/conversations';
+import { geocodeQuery } from '@/libs/geocoder';
+import { planTrip } from '@/libs/tripPlan';
+import { proposePickupTimesSchema } from '@/libs/validations/trips';
+import type { TripPlanBooking, TripPlanRide } from '@/app/community/types';
+import type { Database } from '@/types/database.types';
+
+type PlanRideRow = TripPlanRide & {
+  poster_id: string;
+  posting_type: string;
+};
+
+type ConfirmedBookingRow = Omit<TripPlanBooking, 'seats'> & {
+  seats_requested: number | null;
+  seats_confirmed: number | null;
+};
+
+type RideAccess = { ride: PlanRideRow } | { response: NextResponse };
+
+/**
+ * Builds the driver's trip plan for a ride: confirmed passengers' pickups in
+ * driving order with estimated arrival times. Pickup coordinates are saved when
+ * the booking is made; ride endpoints without coordinates are geocoded here and
+ * saved for next time.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ rideId: string }> }
+) {
+  try {
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const { rideId } = await params;
+    const access = await fetchDriverRide(supabase, rideId, user.id);
+    if ('response' in access) return access.response;
+    const { ride } = access;
+
+    const { data: bookingRows, error: bookingsError } = await supabase
+      .from('trip_bookings')
+      .select(
+        `id, passenger_id, pickup_location, pickup_lat, pickup_lng, pickup_time, proposed_pickup_time, seats_requested, seats_confirmed,
+        passenger:profiles!trip_bookings_passenger_id_fkey(id, first_name, last_name)`
+      )
+      .eq('ride_id', rideId)
+      .eq('status', 'confirmed');
+
+    if (bookingsError) {
+      console.error('Error fetching confirmed bookings for trip plan:', bookingsError);
+      return NextResponse.json({ error: 'Failed to load passengers' }, { status: 500 });
+    }
+
+    const bookings = ((bookingRows ?? []) as unknown as ConfirmedBookingRow[]).map(
+      ({ seats_requested, seats_confirmed, ...booking }) => ({
+        ...booking,
+        seats: seats_confirmed ?? seats_requested ?? 1,
+      })
+    );
+
+    const [start, end] = await Promise.all([
+      locateRideEndpoint(supabase, ride, 'start'),
+      locateRideEndpoint(supabase, ride, 'end'),
+    ]);
+
+    const planRide: TripPlanRide = {
+      id: ride.id,
+      title: ride.title,
+      start_location: ride.start_location,
+      end_location: ride.end_location,
+      start_lat: start?.lat ?? null,
+      start_lng: start?.lng ?? null,
+      end_lat: end?.lat ?? null,
+      end_lng: end?.lng ?? null,
+      departure_date: ride.departure_date,
+      departure_time: ride.departure_time,
+    };
+
+    // Without both ends of the route there is nothing to order pickups along
+    if (!start || !end) {
+      return NextResponse.json({ ride: planRide, plan: null, bookings });
+    }
+
+    return NextResponse.json({ ride: planRide, plan: planTrip(start, end, bookings), bookings });
+  } catch (error) {
+    console.error('Error in trip plan GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Saves the pickup times the driver proposed from the trip plan as proposals
+ * and messages each affected passenger to accept or decline their new time.
+ * The booking's pickup time only changes once the passenger accepts.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ rideId: string }> }
+) {
+  try {
+    const { user, authError, supabase } = await getAuthenticatedUser(request);
+
+    if (authError || !user) {
+      return createUnauthorizedResponse(authError);
+    }
+
+    const profileError = await ensureProfileComplete(supabase, user.id, 'updating pickup times');
+    if (profileError) return profileError;
+
+    const validation = proposePickupTimesSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: z.treeifyError(validation.error) },
+        { status: 400 }
+      );
+    }
+
+    const { rideId } = await params;
+    const access = await fetchDriverRide(supabase, rideId, user.id);
+    if ('response' in access) return access.response;
+    const { ride } = access;
+
+    const { proposals } = validation.data;
+    const bookingIds = proposals.map((proposal) => proposal.booking_id);
+
+    const { data: bookingRows, error: bookingsError } = await supabase
+      .from('trip_bookings')
+      .select('id, passenger_id, pickup_location')
+      .eq('ride_id', rideId)
+      .eq('status', 'confirmed')
+      .in('id', bookingIds);
+
+    if (bookingsError) {
+      console.error('Error fetching bookings for proposed pickup times:', bookingsError);
+      return NextResponse.json({ error: 'Failed to update pickup times' }, { status: 500 });
+    }
+
+    const bookingsById = new Map((bookingRows ?? []).map((booking) => [booking.id, booking]));
+    if (bookingIds.some((id) => !bookingsById.has(id))) {
+      return NextResponse.json(
+        { error: 'Pickup times can only be proposed for confirmed passengers on this ride' },
+        { status: 400 }
+      );
+    }
+
+    const rideLabel = ride.title || `${ride.start_location} → ${ride.end_location}`;
+    const updatedIds: string[] = [];
+
+    for (const proposal of proposals) {
+      const booking = bookingsById.get(proposal.booking_id)!;
+
+      const { error: updateError } = await supabase
+        .from('trip_bookings')
+        .update({ proposed_pickup_time: proposal.pickup_time })
+        .eq('id', booking.id);
+
+      if (updateError) {
+        console.error('Error saving proposed pickup time:', updateError);
+        continue;
+      }
+      updatedIds.push(booking.id);
+
+      const pickupTime = new Date(proposal.pickup_time).toLocaleString('en-US', {
+        dateStyle: 'medium',
+        timeStyle: 'short',
+      });
+
+      try {
+        await sendConversationMessage({
+          supabase,
+          senderId: user.id,
+          recipientId: booking.passenger_id,
+          rideId,
+          content: `I planned the pickups for ${rideLabel} and proposed a new pickup time: ${pickupTime} at ${booking.pickup_location ?? 'your pickup spot'}. You can accept or decline it from My Trips.`,
+        });
+      } catch (conversationError: unknown) {
+        console.error('Error notifying passenger about proposed pickup time', conversationError);
+      }
+    }
+
+    if (updatedIds.length === 0) {
+      return NextResponse.json({ error: 'Failed to update pickup times' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, updated_booking_ids: updatedIds });
+  } catch (error) {
+    console.error('Error in trip plan PATCH API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Loads the ride and makes sure the user is the driver who posted it.
+ */
+async function fetchDriverRide(
+  supabase: SupabaseClient<Database>,
+  rideId: string,
+  userId: string
+): Promise<RideAccess> {
+  const { data: ride, error } = await supabase
+    .from('rides')
+    .select(
+      'id, poster_id, posting_type, title, start_location, end_location, start_lat, start_lng, end_lat, end_lng, departure_date, departure_time'
+    )
+    .eq('id', rideId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching ride for trip plan:', error);
+    return { response: NextResponse.json({ error: 'Failed to load ride' }, { status: 500 }) };
+  }
+  if (!ride) {
+    return { response: NextResponse.json({ error: 'Ride not found' }, { status: 404 }) };
+  }
+  if (ride.poster_id !== userId || ride.posting_type !== 'driver') {
+    return {
+      response: NextResponse.json(
+        { error: 'Only the driver can plan pickups for this ride' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { ride: ride as PlanRideRow };
+}
+
+/**
+ * Coordinates of the ride's start or end, geocoding and saving them when missing.
+ */
+async function locateRideEndpoint(
+  supabase: SupabaseClient<Database>,
+  ride: PlanRideRow,
+  endpoint: 'start' | 'end'
+) {
+  const lat = endpoint === 'start' ? ride.start_lat : ride.end_lat;
+  const lng = endpoint === 'start' ? ride.start_lng : ride.end_lng;
+  if (lat !== null && lng !== null) return { lat, lng };
+
+  const result = await geocodeQuery(endpoint === 'start' ? ride.start_location : ride.end_location);
+  if (!result) return null;
+  const coords = { lat: result.lat, lng: result.lng };
+
+  const { error } = await supabase
+    .from('rides')
+    .update(
+      endpoint === 'start'
+        ? { start_lat: coords.lat, start_lng: coords.lng }
+        : { end_lat: coords.lat, end_lng: coords.lng }
+    )
+    .eq('id', ride.id);
+  if (error) console.error('Error saving geocoded ride location:', error);
+
+  return coords;
+}
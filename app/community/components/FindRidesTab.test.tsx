@@ -74,6 +74,14 @@ jest.mock('./PaginationControls', () => ({
   ),
 }));
 
+jest.mock('./RidesMapView', () => ({
+  RidesMapView: ({ departureFilter }: { departureFilter: LocationFilterType | null }) => (
+    <div data-testid="rides-map">
+      {departureFilter ? `Departure within ${departureFilter.radius} mi` : 'No departure filter'}
+    </div>
+  ),
+}));
+
 describe('RidesTab', () => {
   const mockSupabase = {} as unknown as CommunitySupabaseClient;
   const mockUser = { id: 'user-1' } as unknown as CommunityUser;
@@ -236,4 +244,39 @@ describe('RidesTab', () => {
       expect(cards).toHaveLength(2);
     });
   });
+
+  it('should switch to the map view without losing the active filters', async () => {
+    mockRidesSuccess([
+      { id: 'ride-m1', departure_date: '2025-01-01', trip_direction: 'departure' },
+    ] as unknown as RidePostType[]);
+
+    render(
+      <RidesTab user={mockUser} supabase={mockSupabase} openMessageModal={mockOpenMessageModal} />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('ride-card')).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByTestId('filter-dept'));
+    await waitFor(() => {
+      expect(screen.getByTestId('ride-card')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: /Map/ }));
+
+    expect(screen.getByTestId('rides-map')).toHaveTextContent('Departure within 25 mi');
+    expect(screen.queryByTestId('ride-card')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /List/ }));
+
+    expect(screen.getByTestId('ride-card')).toBeInTheDocument();
+    expect(fetchAllRides).toHaveBeenLastCalledWith(
+      mockSupabase,
+      mockUser,
+      1,
+      expect.any(Number),
+      'driver',
+      expect.objectContaining({ departureFilter: { lat: 10, lng: 20, radius: 25 } })
+    );
+  });
 });
@@ -11,6 +11,8 @@ import { RidePostCard } from './rides-posts/RidePostCard';
 import { PaginationControls } from './PaginationControls';
 import { SectionEmpty } from './common/SectionEmpty';
 import { SectionError } from './common/SectionError';
+import { ViewModeToggle, type ViewMode } from './common/ViewModeToggle';
+import { RidesMapView } from './RidesMapView';
 import { RIDES_PAGE_SIZE } from '../constants';
 import type { RidePostType, CommunityUser, LocationFilterType, ProfileType } from '../types';
 import PostDetailModal from '@/app/community/components/PostDetailModal';
@@ -44,6 +46,8 @@ export function RidesTab({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedPost, setSelectedPost] = useState<RidePostType | null>(null);
+  // Filters live in this component, so they carry over between list and map
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
 
   // Location filter state
   const [departureFilter, setDepartureFilter] = useState<LocationFilterType | null>(null);
@@ -148,8 +152,15 @@ export function RidesTab({
 
   const totalPages = Math.ceil(totalCount / pageSize);
 
+  const openDetails = (post: RidePostType) => {
+    setSelectedPost(null);
+    setTimeout(() => setSelectedPost(post), 0);
+  };
+
   const renderRidesSection = () => {
-    if (loading) {
+    const isListView = viewMode === 'list';
+
+    if (isListView && loading) {
       return (
         <div className="space-y-6">
           <h2 className="text-2xl font-bold text-gray-900 dark:text-slate-50">Find a Ride</h2>
@@ -175,11 +186,11 @@ export function RidesTab({
       );
     }
 
-    if (error) {
+    if (isListView && error) {
       return <SectionError title="Find a Ride" message={error} onRetry={() => setCurrentPage(1)} />;
     }
 
-    if (rides.length === 0) {
+    if (isListView && rides.length === 0) {
       return (
         <SectionEmpty
           title="Find a Ride"
@@ -198,32 +209,47 @@ export function RidesTab({
           onDepartureFilterChange={setDepartureFilter}
           onDestinationFilterChange={setDestinationFilter}
           ridesFoundLabel={ridesFoundLabel}
+          savedSearchPostingType={user ? 'driver' : undefined}
         />
 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {groupedRides.map((post) => (
-            <RidePostCard
-              key={post.id}
-              post={post}
-              currentUserId={user?.id}
-              onMessage={openMessageModal}
-              onViewDetails={() => {
-                setSelectedPost(null);
-                setTimeout(() => setSelectedPost(post), 0);
-              }}
-            />
-          ))}
+        <div className="flex justify-end">
+          <ViewModeToggle mode={viewMode} onChange={setViewMode} />
         </div>
 
-        <PaginationControls
-          currentPage={currentPage}
-          totalPages={totalPages}
-          hasMore={hasMore}
-          onPageChange={(newPage) => {
-            setCurrentPage(newPage);
-            tabRef.current?.scrollIntoView({ behavior: 'smooth' });
-          }}
-        />
+        {isListView ? (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {groupedRides.map((post) => (
+                <RidePostCard
+                  key={post.id}
+                  post={post}
+                  currentUserId={user?.id}
+                  onMessage={openMessageModal}
+                  onViewDetails={() => openDetails(post)}
+                />
+              ))}
+            </div>
+
+            <PaginationControls
+              currentPage={currentPage}
+              totalPages={totalPages}
+              hasMore={hasMore}
+              onPageChange={(newPage) => {
+                setCurrentPage(newPage);
+                tabRef.current?.scrollIntoView({ behavior: 'smooth' });
+              }}
+            />
+          </>
+        ) : (
+          <RidesMapView
+            user={user}
+            supabase={supabase}
+            postingType="driver"
+            departureFilter={departureFilter}
+            destinationFilter={destinationFilter}
+            onSelectRide={openDetails}
+          />
+        )}
 
         {selectedPost && (
           <PostDetailModal
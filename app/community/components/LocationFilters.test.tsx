@@ -52,6 +52,7 @@ describe('LocationFilters', () => {
         lat: 10,
         lng: 20,
         radius: 25, // default
+        label: 'Tahoe',
       });
     });
 
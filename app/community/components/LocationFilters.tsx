@@ -2,7 +2,8 @@
 
 import { useState, FormEvent, ChangeEvent } from 'react';
 import { geocodeLocation } from '@/libs/geocoding';
-import type { LocationFilterType } from '../types';
+import type { LocationFilterType, RidePostType } from '../types';
+import { SaveSearchButton } from './SaveSearchButton';
 
 interface LocationFiltersProps {
   // eslint-disable-next-line no-unused-vars
@@ -11,6 +12,8 @@ interface LocationFiltersProps {
   onDestinationFilterChange: (filter: LocationFilterType | null) => void;
   /** Optional status text that describes how many rides match the current filters. */
   ridesFoundLabel?: string;
+  /** When set, the active filters can be saved as a search for this kind of post. */
+  savedSearchPostingType?: RidePostType['posting_type'];
 }
 
 /**
@@ -23,6 +26,7 @@ export function LocationFilters({
   onDepartureFilterChange,
   onDestinationFilterChange,
   ridesFoundLabel,
+  savedSearchPostingType,
 }: Readonly<LocationFiltersProps>) {
   // Departure filter state
   const [departureInput, setDepartureInput] = useState<string>('');
@@ -64,6 +68,7 @@ export function LocationFilters({
         lat: coords.lat,
         lng: coords.lng,
         radius: departureRadius,
+        label: trimmedQuery,
       };
       setDepartureFilter(filter);
       onDepartureFilterChange(filter);
@@ -130,6 +135,7 @@ export function LocationFilters({
         lat: coords.lat,
         lng: coords.lng,
         radius: destinationRadius,
+        label: trimmedQuery,
       };
       setDestinationFilter(filter);
       onDestinationFilterChange(filter);
@@ -346,6 +352,14 @@ export function LocationFilters({
           </form>
         </div>
       </div>
+
+      {savedSearchPostingType && (departureFilter || destinationFilter) && (
+        <SaveSearchButton
+          departureFilter={departureFilter}
+          destinationFilter={destinationFilter}
+          postingType={savedSearchPostingType}
+        />
+      )}
     </div>
   );
 }
@@ -24,6 +24,10 @@ jest.mock('@/app/community/components/rides-posts/RidePostCard', () => ({
   ),
 }));
 
+jest.mock('@/app/community/components/SuggestedMatches', () => ({
+  SuggestedMatches: () => <div data-testid="suggested-matches" />,
+}));
+
 describe('MyPostsTab', () => {
   const mockUser = { id: 'user-1' };
   const mockOpenMessageModal = jest.fn();
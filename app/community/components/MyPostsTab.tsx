@@ -3,6 +3,7 @@ import Link from 'next/link';
 import { RidePostCard } from '@/app/community/components/rides-posts/RidePostCard';
 import type { RidePostType, ProfileType } from '../types';
 import PostDetailModal from '@/app/community/components/PostDetailModal';
+import { SuggestedMatches } from '@/app/community/components/SuggestedMatches';
 
 interface MyRidesTabProps {
   myRides: RidePostType[];
@@ -72,6 +73,10 @@ export function MyPostsTab({
         <p className="text-sm text-gray-600 dark:text-gray-400">{postsSummary}</p>
       </div>
 
+      {groupedRides.length > 0 && (
+        <SuggestedMatches userId={user.id} onMessage={openMessageModal} />
+      )}
+
       {groupedRides.length > 0 ? (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
           {groupedRides.map((post) => (
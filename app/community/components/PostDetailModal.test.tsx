@@ -13,6 +13,10 @@ jest.mock('@/hooks/useProfile', () => ({
   useUserProfile: jest.fn(),
 }));
 
+jest.mock('@/hooks/useRoadConditions', () => ({
+  useRoadConditions: () => ({ data: [] }),
+}));
+
 jest.mock('@/hooks/useProfileCompletionPrompt', () => ({
   useProfileCompletionPrompt: jest.fn(() => ({
     showProfileCompletionPrompt: jest.fn(),
@@ -301,6 +305,42 @@ describe('PostDetailModal', () => {
     expect(screen.getByText(/Pickup:/)).toBeInTheDocument();
   });
 
+  it('shows how a split-cost price was computed', () => {
+    const driverPost = {
+      ...mockPost,
+      posting_type: 'driver',
+      pricing_type: 'split_costs',
+      price_per_seat: 15,
+      cost_breakdown: {
+        distance_miles: 200,
+        mpg: 25,
+        gas_price: 5,
+        fuel_cost: 40,
+        tolls: 7,
+        parking: 13,
+        total_cost: 60,
+        split_between: 4,
+        per_seat: 15,
+      },
+    } as unknown as RidePostType;
+
+    render(
+      <PostDetailModal
+        isOpen
+        onClose={mockOnClose}
+        post={driverPost}
+        currentUserId="user-1"
+        onMessage={mockOnMessage}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    expect(screen.getByText('How the cost is split')).toBeInTheDocument();
+    expect(screen.getByText('200 mi ÷ 25 MPG × $5/gal')).toBeInTheDocument();
+    expect(screen.getByText('Split between the driver and 3 seats')).toBeInTheDocument();
+    expect(screen.getByText('$15/seat')).toBeInTheDocument();
+  });
+
   it('displays status badge for owner', () => {
     const ownerPost = {
       ...mockPost,
@@ -8,12 +8,16 @@ import type { RidePostType, ProfileType } from '@/app/community/types';
 import InviteToRideModal from '@/components/trips/InviteToRideModal';
 import TripBookingModal from '@/components/trips/TripBookingModal';
 import { RidePostActions } from '@/app/community/components/rides-posts/RidePostActions';
+import { CostBreakdownSummary } from '@/app/community/components/rides-posts/CostBreakdownSummary';
+import { ChainControlWarning } from '@/app/community/components/rides-posts/ChainControlWarning';
+import LocationMap, { rideRouteMarkers } from '@/components/map/Map';
 import { useProfileCompletionPrompt } from '@/hooks/useProfileCompletionPrompt';
 import { useUserProfile } from '@/hooks/useProfile';
 import { formatDateLabel, formatTimeLabel } from '@/lib/dateFormat';
 import { getBadgeConfig } from '@/app/community/components/utils/postBadges';
 import { getDirectionConfig } from '@/app/community/components/utils/tripDirection';
 import { sanitizeLocation } from '@/libs/sanitize/location';
+import { formatSeriesDays } from '@/libs/community/rideSeries';
 
 interface PostDetailModalProps {
   readonly isOpen: boolean;
@@ -76,6 +80,7 @@ export default function PostDetailModal({
   const sanitizedEndLocation = sanitizeLocation(post.end_location);
   const isOwner = currentUserId === post.poster_id;
   const isDriver = post.posting_type === 'driver';
+  const routeMarkers = rideRouteMarkers(post);
   const { data: profile } = useUserProfile();
   const { showProfileCompletionPrompt, profileCompletionModal } = useProfileCompletionPrompt({
     toastMessage: 'Please finish your profile before contacting other riders.',
@@ -96,6 +101,7 @@ export default function PostDetailModal({
     styles: directionStyles,
     isCombinedRoundTrip,
   } = getDirectionConfig(post);
+  const seriesDaysLabel = post.series_id ? formatSeriesDays(post.recurring_days) : '';
 
   const departureDateLabel = formatDateLabel(post.departure_date);
   const departureTimeLabel = formatTimeLabel(post.departure_time);
@@ -105,7 +111,8 @@ export default function PostDetailModal({
   const metaTags = getMetaTags(post);
 
   const seatsAvailable = post.available_seats ?? post.total_seats ?? 0;
-  const showBookingButton = !isOwner && isDriver && post.status === 'active' && seatsAvailable > 0;
+  // Full rides still show the button so passengers can join the waitlist
+  const showBookingButton = !isOwner && isDriver && post.status === 'active';
 
   return (
     <Transition appear show={isOpen} as={Fragment}>
@@ -159,6 +166,11 @@ export default function PostDetailModal({
                           {directionLabel}
                         </span>
                       )}
+                      {seriesDaysLabel && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-sm font-medium bg-teal-100 text-teal-800">
+                          🔁 Repeats {seriesDaysLabel}
+                        </span>
+                      )}
 
                       <span className="text-sm text-gray-500 dark:text-gray-400">
                         {departureDateLabel ?? 'Date TBD'}
@@ -233,6 +245,22 @@ export default function PostDetailModal({
                   </div>
                 </div>
 
+                <div className="mb-4 empty:hidden">
+                  <ChainControlWarning ride={post} />
+                </div>
+
+                {routeMarkers.length > 0 && (
+                  <div className="mb-4">
+                    <LocationMap markers={routeMarkers} height={220} />
+                  </div>
+                )}
+
+                {isDriver && post.cost_breakdown && (
+                  <div className="mb-4">
+                    <CostBreakdownSummary breakdown={post.cost_breakdown} />
+                  </div>
+                )}
+
                 {/* Additional metadata */}
                 <div className="max-h-40 overflow-y-auto pr-2 mb-3">
                   {metaTags.length > 0 && (
@@ -0,0 +1,112 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { RidesMapView } from './RidesMapView';
+import { fetchAllRides } from '@/libs/community/ridesData';
+import type { CommunitySupabaseClient } from '@/libs/community/ridesData';
+import type { LocationFilterType, RidePostType } from '../types';
+
+jest.mock('@/libs/community/ridesData', () => ({
+  fetchAllRides: jest.fn(),
+}));
+
+const ride = {
+  id: 'ride-1',
+  title: 'Powder Day',
+  start_location: 'San Francisco',
+  end_location: 'Kirkwood',
+  start_lat: 37.7749,
+  start_lng: -122.4194,
+  end_lat: 38.685,
+  end_lng: -120.0653,
+  departure_date: '2026-01-10',
+} as unknown as RidePostType;
+
+describe('RidesMapView', () => {
+  const supabase = {} as unknown as CommunitySupabaseClient;
+  const departureFilter: LocationFilterType = { lat: 37.77, lng: -122.42, radius: 25 };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    (fetchAllRides as jest.Mock).mockResolvedValue({
+      rides: [ride],
+      totalCount: 1,
+      hasMore: false,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const renderMap = (onSelectRide = jest.fn()) => {
+    render(
+      <RidesMapView
+        user={{ id: 'user-1' }}
+        supabase={supabase}
+        postingType="driver"
+        departureFilter={departureFilter}
+        destinationFilter={null}
+        onSelectRide={onSelectRide}
+      />
+    );
+  };
+
+  const settle = async () => {
+    await act(async () => {
+      jest.advanceTimersByTime(500);
+    });
+  };
+
+  it('loads rides inside the visible area with the active filters', async () => {
+    renderMap();
+    await settle();
+
+    expect(fetchAllRides).toHaveBeenCalledTimes(1);
+    const [, user, page, , postingType, filters] = (fetchAllRides as jest.Mock).mock.calls[0];
+    expect(user).toEqual({ id: 'user-1' });
+    expect(page).toBe(1);
+    expect(postingType).toBe('driver');
+    expect(filters.departureFilter).toBe(departureFilter);
+    expect(filters.mapBounds).toEqual({
+      north: expect.any(Number),
+      south: expect.any(Number),
+      east: expect.any(Number),
+      west: expect.any(Number),
+    });
+    expect(screen.getByText('1 ride in this area')).toBeInTheDocument();
+  });
+
+  it('queries the new area after zooming', async () => {
+    renderMap();
+    await settle();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Zoom in' }));
+    await settle();
+
+    expect(fetchAllRides).toHaveBeenCalledTimes(2);
+    const firstBounds = (fetchAllRides as jest.Mock).mock.calls[0][5].mapBounds;
+    const zoomedBounds = (fetchAllRides as jest.Mock).mock.calls[1][5].mapBounds;
+    expect(zoomedBounds.west).toBeGreaterThan(firstBounds.west);
+    expect(zoomedBounds.east).toBeLessThan(firstBounds.east);
+  });
+
+  it('opens a ride when its pin is clicked', async () => {
+    const onSelectRide = jest.fn();
+    renderMap(onSelectRide);
+    await settle();
+
+    fireEvent.click(screen.getByTitle('Powder Day · Jan 10, 2026'));
+
+    expect(onSelectRide).toHaveBeenCalledWith(ride);
+  });
+
+  it('plots destinations when asked', async () => {
+    renderMap();
+    await settle();
+
+    expect(screen.getAllByTitle('Powder Day · Jan 10, 2026')).toHaveLength(1);
+    fireEvent.click(screen.getByLabelText('Show destinations'));
+
+    expect(screen.getAllByTitle('Powder Day · Jan 10, 2026')).toHaveLength(2);
+  });
+});
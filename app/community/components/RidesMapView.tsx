@@ -0,0 +1,141 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import LocationMap, { type MapMarker } from '@/components/map/Map';
+import { fetchAllRides, type CommunitySupabaseClient } from '@/libs/community/ridesData';
+import type { MapBounds } from '@/libs/mapTiles';
+import { sanitizeLocation } from '@/libs/sanitize/location';
+import { formatDateLabel } from '@/lib/dateFormat';
+import { COMMUNITY_MAP_VIEW, MAP_RIDES_LIMIT } from '../constants';
+import type { LocationFilterType, RidePostType } from '../types';
+
+interface RidesMapViewProps {
+  user: { id: string } | null;
+  supabase: CommunitySupabaseClient;
+  postingType: 'driver' | 'passenger';
+  departureFilter: LocationFilterType | null;
+  destinationFilter: LocationFilterType | null;
+  // eslint-disable-next-line no-unused-vars
+  onSelectRide: (post: RidePostType) => void;
+}
+
+// Wait for panning to settle before querying the new area
+const BOUNDS_DEBOUNCE_MS = 400;
+
+/**
+ * Plots active rides' start points (and optionally destinations) on a map,
+ * loading the rides inside the visible area as the user pans and zooms.
+ */
+export function RidesMapView({
+  user,
+  supabase,
+  postingType,
+  departureFilter,
+  destinationFilter,
+  onSelectRide,
+}: Readonly<RidesMapViewProps>) {
+  const [bounds, setBounds] = useState<MapBounds | null>(null);
+  const [rides, setRides] = useState<RidePostType[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showDestinations, setShowDestinations] = useState(false);
+
+  const handleBoundsChange = useCallback((next: MapBounds) => {
+    setBounds(next);
+  }, []);
+
+  useEffect(() => {
+    if (!bounds) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetchAllRides(supabase, user, 1, MAP_RIDES_LIMIT, postingType, {
+          departureFilter,
+          destinationFilter,
+          mapBounds: bounds,
+        });
+        if (cancelled) return;
+        setRides(response.rides);
+        setHasMore(response.hasMore);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Error loading rides for the map:', err);
+        setError('Failed to load rides in this area.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, BOUNDS_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [bounds, supabase, user, postingType, departureFilter, destinationFilter]);
+
+  const markers = useMemo(() => {
+    const result: MapMarker[] = [];
+    for (const ride of rides) {
+      const route = `${sanitizeLocation(ride.start_location)} → ${sanitizeLocation(ride.end_location)}`;
+      const label = `${ride.title || route} · ${formatDateLabel(ride.departure_date) ?? ''}`;
+      if (ride.start_lat != null && ride.start_lng != null) {
+        result.push({
+          id: `${ride.id}:start`,
+          lat: ride.start_lat,
+          lng: ride.start_lng,
+          kind: 'start',
+          label,
+        });
+      }
+      if (showDestinations && ride.end_lat != null && ride.end_lng != null) {
+        result.push({
+          id: `${ride.id}:end`,
+          lat: ride.end_lat,
+          lng: ride.end_lng,
+          kind: 'end',
+          label,
+        });
+      }
+    }
+    return result;
+  }, [rides, showDestinations]);
+
+  const handleMarkerClick = (markerId: string) => {
+    const [rideId] = markerId.split(':');
+    const ride = rides.find((candidate) => candidate.id === rideId);
+    if (ride) onSelectRide(ride);
+  };
+
+  const noun = postingType === 'driver' ? 'ride' : 'request';
+  let status = `${rides.length} ${rides.length === 1 ? noun : `${noun}s`} in this area`;
+  if (hasMore) status = `Showing the first ${rides.length} ${noun}s here. Zoom in to see more`;
+  if (loading) status = 'Loading…';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600 dark:text-gray-400">
+        <span aria-live="polite">{error ?? status}</span>
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={showDestinations}
+            onChange={(event) => setShowDestinations(event.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Show destinations
+        </label>
+      </div>
+      <LocationMap
+        markers={markers}
+        height={480}
+        defaultView={COMMUNITY_MAP_VIEW}
+        cluster
+        onMarkerClick={handleMarkerClick}
+        onBoundsChange={handleBoundsChange}
+      />
+    </div>
+  );
+}
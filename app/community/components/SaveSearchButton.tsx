@@ -0,0 +1,199 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import type { LocationFilterType, RidePostType } from '../types';
+
+interface SaveSearchButtonProps {
+  departureFilter: LocationFilterType | null;
+  destinationFilter: LocationFilterType | null;
+  postingType: RidePostType['posting_type'];
+}
+
+const defaultSearchName = (
+  departureFilter: LocationFilterType | null,
+  destinationFilter: LocationFilterType | null
+): string => {
+  const from = departureFilter?.label;
+  const to = destinationFilter?.label;
+  if (from && to) return `${from} → ${to}`;
+  if (from) return `From ${from}`;
+  if (to) return `To ${to}`;
+  return 'My ride search';
+};
+
+/**
+ * Saves the current location filters as a search that alerts the user when
+ * a matching ride is posted.
+ *
+ * @param props - The active filters and the kind of post being searched.
+ */
+export function SaveSearchButton({
+  departureFilter,
+  destinationFilter,
+  postingType,
+}: Readonly<SaveSearchButtonProps>) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [requiresAwd, setRequiresAwd] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpen = () => {
+    setName(defaultSearchName(departureFilter, destinationFilter));
+    setError(null);
+    setIsOpen(true);
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/community/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          departure: departureFilter,
+          destination: destinationFilter,
+          date_from: dateFrom || null,
+          date_to: dateTo || null,
+          posting_type: postingType,
+          requires_awd: requiresAwd,
+        }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || 'Failed to save search');
+        return;
+      }
+
+      toast.success("Search saved. We'll let you know when a matching ride is posted.");
+      setIsOpen(false);
+    } catch (err) {
+      console.error('Error saving search:', err);
+      setError('Failed to save search');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+        <button
+          type="button"
+          onClick={handleOpen}
+          className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+        >
+          🔔 Save this search
+        </button>
+        <Link
+          href="/rides/saved-searches"
+          className="text-xs text-gray-600 dark:text-slate-400 hover:underline"
+        >
+          Manage saved searches
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mt-4 space-y-3 border-t border-gray-200 dark:border-slate-700 pt-4"
+    >
+      <div>
+        <label
+          htmlFor="saved-search-name"
+          className="block text-sm font-medium text-gray-700 dark:text-slate-300"
+        >
+          Search name
+        </label>
+        <input
+          id="saved-search-name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={100}
+          required
+          className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-gray-900 dark:text-slate-50 text-sm"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label
+            htmlFor="saved-search-date-from"
+            className="block text-sm font-medium text-gray-700 dark:text-slate-300"
+          >
+            Leaving from
+          </label>
+          <input
+            id="saved-search-date-from"
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-gray-900 dark:text-slate-50 text-sm"
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="saved-search-date-to"
+            className="block text-sm font-medium text-gray-700 dark:text-slate-300"
+          >
+            Leaving by
+          </label>
+          <input
+            id="saved-search-date-to"
+            type="date"
+            value={dateTo}
+            min={dateFrom || undefined}
+            onChange={(e) => setDateTo(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-gray-900 dark:text-slate-50 text-sm"
+          />
+        </div>
+      </div>
+
+      {postingType !== 'passenger' && (
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-slate-300">
+          <input
+            type="checkbox"
+            checked={requiresAwd}
+            onChange={(e) => setRequiresAwd(e.target.checked)}
+          />
+          Only AWD/4WD vehicles
+        </label>
+      )}
+
+      {error && (
+        <div className="text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 px-3 py-2 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={saving || !name.trim()}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save search'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="px-4 py-2 rounded-lg text-sm text-gray-700 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-slate-800"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+/**
+ * Tells the user how many newly posted rides match their saved searches.
+ * Renders nothing until there is at least one unseen match.
+ */
+export function SavedSearchAlertsBanner() {
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadAlerts = async () => {
+      try {
+        const response = await fetch('/api/community/saved-searches/alerts');
+        if (response.ok) {
+          const data = await response.json();
+          if (!cancelled) setUnreadCount(data.unreadCount ?? 0);
+        }
+      } catch (err) {
+        console.error('Error loading saved search alerts:', err);
+      }
+    };
+
+    loadAlerts();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (unreadCount === 0) return null;
+
+  return (
+    <Link
+      href="/rides/saved-searches"
+      className="mb-6 sm:mb-8 flex items-center justify-between gap-3 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900 shadow-sm hover:bg-amber-100 dark:border-amber-800 dark:bg-amber-900/30 dark:text-amber-100 dark:hover:bg-amber-900/50"
+    >
+      <span>
+        🔔 {unreadCount} new {unreadCount === 1 ? 'ride matches' : 'rides match'} your saved
+        searches
+      </span>
+      <span className="font-medium">View →</span>
+    </Link>
+  );
+}
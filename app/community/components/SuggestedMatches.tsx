@@ -0,0 +1,116 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { RidePostType, ProfileType } from '../types';
+import type { RideMatch } from '@/libs/rideMatching';
+import { formatDateLabel, formatTimeLabel } from '@/lib/dateFormat';
+import { sanitizeLocation } from '@/libs/sanitize/location';
+
+interface SuggestedMatchesProps {
+  userId: string;
+  // eslint-disable-next-line no-unused-vars
+  onMessage: (recipient: ProfileType, ridePost: RidePostType) => void;
+}
+
+type SuggestedMatch = RideMatch<RidePostType>;
+
+/**
+ * Lists rides from other members that fit the user's own posts, with the reasons
+ * behind each match score.
+ */
+export function SuggestedMatches({ userId, onMessage }: Readonly<SuggestedMatchesProps>) {
+  const [matches, setMatches] = useState<SuggestedMatch[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadMatches = async () => {
+      try {
+        const response = await fetch('/api/matches');
+        if (response.ok) {
+          const data = await response.json();
+          if (!cancelled) setMatches(data.matches ?? []);
+        }
+      } catch (err) {
+        console.error('Error loading suggested matches:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadMatches();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  if (loading || matches.length === 0) return null;
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Suggested matches</h2>
+      <ul className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {matches.map((match) => {
+          // Show the other member's ride, whichever side of the match it is on
+          const otherRide =
+            match.driverRide.poster_id === userId ? match.passengerRide : match.driverRide;
+          const isDriverOffer = otherRide === match.driverRide;
+          const ownerName = otherRide.owner
+            ? `${otherRide.owner.first_name} ${otherRide.owner.last_name ?? ''}`.trim()
+            : 'Member';
+
+          return (
+            <li
+              key={`${match.driverRide.id}-${match.passengerRide.id}`}
+              className="bg-white/80 dark:bg-slate-900 rounded-xl shadow-sm border border-gray-200 dark:border-slate-800 p-4 space-y-3"
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {isDriverOffer ? `${ownerName} is driving` : `${ownerName} needs a ride`}
+                  </p>
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    {sanitizeLocation(otherRide.start_location)} →{' '}
+                    {sanitizeLocation(otherRide.end_location)}
+                  </p>
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    {formatDateLabel(otherRide.departure_date)}
+                    {otherRide.departure_time && ` at ${formatTimeLabel(otherRide.departure_time)}`}
+                  </p>
+                </div>
+                <span
+                  className="shrink-0 rounded-full bg-green-100 px-2.5 py-1 text-sm font-semibold text-green-800 dark:bg-green-900/40 dark:text-green-300"
+                  title="Match score out of 100"
+                >
+                  {match.score}% match
+                </span>
+              </div>
+
+              <ul className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                {match.breakdown.map((component) => (
+                  <li key={component.factor} className="flex justify-between gap-2">
+                    <span>{component.explanation}</span>
+                    <span className="tabular-nums">
+                      {component.points}/{component.maxPoints}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+
+              {otherRide.owner && (
+                <button
+                  type="button"
+                  onClick={() => onMessage(otherRide.owner!, otherRide)}
+                  className="w-full bg-blue-500 text-white px-3 py-2 rounded-lg hover:bg-blue-600 transition-colors text-sm"
+                >
+                  Message {otherRide.owner.first_name}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
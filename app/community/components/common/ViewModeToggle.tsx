@@ -0,0 +1,40 @@
+import React from 'react';
+
+export type ViewMode = 'list' | 'map';
+
+interface ViewModeToggleProps {
+  mode: ViewMode;
+  // eslint-disable-next-line no-unused-vars
+  onChange: (mode: ViewMode) => void;
+}
+
+const OPTIONS: { mode: ViewMode; label: string }[] = [
+  { mode: 'list', label: '☰ List' },
+  { mode: 'map', label: '🗺️ Map' },
+];
+
+export const ViewModeToggle: React.FC<ViewModeToggleProps> = ({ mode, onChange }) => {
+  return (
+    <div
+      role="group"
+      aria-label="View mode"
+      className="inline-flex rounded-lg border border-gray-200 dark:border-slate-700 overflow-hidden"
+    >
+      {OPTIONS.map((option) => (
+        <button
+          key={option.mode}
+          type="button"
+          onClick={() => onChange(option.mode)}
+          aria-pressed={mode === option.mode}
+          className={`px-4 py-2 text-sm font-medium transition-colors ${
+            mode === option.mode
+              ? 'bg-blue-600 text-white'
+              : 'bg-white dark:bg-slate-900 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-800'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
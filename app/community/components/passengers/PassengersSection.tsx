@@ -9,6 +9,8 @@ import { LocationFilters } from '../LocationFilters';
 import { PassengersLoading } from './PassengersLoading';
 import { SectionEmpty } from '../common/SectionEmpty';
 import { SectionError } from '../common/SectionError';
+import { ViewModeToggle, type ViewMode } from '../common/ViewModeToggle';
+import { RidesMapView } from '../RidesMapView';
 import { PASSENGERS_PAGE_SIZE } from '../../constants';
 import type { RidePostType, ProfileType, LocationFilterType } from '../../types';
 import PostDetailModal from '@/app/community/components/PostDetailModal';
@@ -40,6 +42,8 @@ export function PassengersSection({
   const [totalCount, setTotalCount] = useState(0);
   const [hasMore, setHasMore] = useState(false);
   const [selectedPost, setSelectedPost] = useState<RidePostType | null>(null);
+  // Filters live in this component, so they carry over between list and map
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
 
   const [currentPage, setCurrentPage] = useState(initialPage);
 
@@ -84,11 +88,13 @@ export function PassengersSection({
     return base;
   }, [totalCount, departureFilter, destinationFilter]);
 
-  if (loading) {
+  const isListView = viewMode === 'list';
+
+  if (isListView && loading) {
     return <PassengersLoading />;
   }
 
-  if (error) {
+  if (isListView && error) {
     return (
       <SectionError title="Passengers Looking for Rides" message={error} onRetry={loadRides} />
     );
@@ -102,9 +108,25 @@ export function PassengersSection({
         onDepartureFilterChange={setDepartureFilter}
         onDestinationFilterChange={setDestinationFilter}
         ridesFoundLabel={ridesFoundLabel}
+        savedSearchPostingType={user ? 'passenger' : undefined}
       />
 
-      {rides.length === 0 ? (
+      <div className="flex justify-end">
+        <ViewModeToggle mode={viewMode} onChange={setViewMode} />
+      </div>
+
+      {!isListView && (
+        <RidesMapView
+          user={user}
+          supabase={supabase}
+          postingType="passenger"
+          departureFilter={departureFilter}
+          destinationFilter={destinationFilter}
+          onSelectRide={setSelectedPost}
+        />
+      )}
+
+      {isListView && rides.length === 0 && (
         <SectionEmpty
           title="Passengers Looking for Rides"
           message="No passengers looking right now"
@@ -113,7 +135,9 @@ export function PassengersSection({
           actionLabel="Request a Ride"
           actionLink="/rides/post"
         />
-      ) : (
+      )}
+
+      {isListView && rides.length > 0 && (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
           {rides.map((post) => (
             <PassengerPostCard
@@ -127,7 +151,7 @@ export function PassengersSection({
         </div>
       )}
 
-      {totalCount > 0 && (
+      {isListView && totalCount > 0 && (
         <PaginationControls
           currentPage={currentPage}
           totalPages={totalPages}
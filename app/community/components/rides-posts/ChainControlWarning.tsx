@@ -0,0 +1,39 @@
+import { useRoadConditions } from '@/hooks/useRoadConditions';
+import {
+  CHAIN_CONTROL_DESCRIPTIONS,
+  getChainControlWarning,
+} from '@/libs/roadConditions/corridors';
+import type { ChainControlRide } from '@/libs/roadConditions/corridors';
+
+interface ChainControlWarningProps {
+  ride: ChainControlRide;
+}
+
+/**
+ * Warns that a ride departing soon crosses a pass under chain controls its
+ * car may not meet. Renders nothing when the route is clear.
+ */
+export function ChainControlWarning({ ride }: Readonly<ChainControlWarningProps>) {
+  const { data: conditions } = useRoadConditions();
+  const warning = getChainControlWarning(ride, conditions ?? []);
+
+  if (!warning) return null;
+
+  const { corridor, condition } = warning;
+  const level = condition.chain_control as keyof typeof CHAIN_CONTROL_DESCRIPTIONS;
+
+  return (
+    <div
+      role="alert"
+      className="rounded-lg border border-amber-200 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-900/10 p-2 text-xs text-amber-800 dark:text-amber-300"
+    >
+      <p className="font-semibold">
+        ⛓️ {level} chain controls on {corridor.name} over {corridor.passName}
+      </p>
+      <p className="mt-0.5">
+        {condition.description || CHAIN_CONTROL_DESCRIPTIONS[level]}
+        {level === 'R2' && ' · This ride isn’t listed as AWD'}
+      </p>
+    </div>
+  );
+}
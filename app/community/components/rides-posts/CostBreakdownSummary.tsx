@@ -0,0 +1,67 @@
+import type { CostBreakdown } from '@/app/community/types';
+import { formatDollars } from '@/libs/costSplit';
+
+interface CostBreakdownSummaryProps {
+  breakdown: CostBreakdown;
+  // One line for cards; the full table for detail views
+  compact?: boolean;
+}
+
+/**
+ * Shows passengers how a split-cost ride's per-seat contribution was computed.
+ */
+export function CostBreakdownSummary({
+  breakdown,
+  compact = false,
+}: Readonly<CostBreakdownSummaryProps>) {
+  const extras = breakdown.tolls + breakdown.parking;
+  const seats = breakdown.split_between - 1;
+
+  if (compact) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {breakdown.distance_miles} mi · {formatDollars(breakdown.total_cost)} trip cost split{' '}
+        {breakdown.split_between} ways
+      </p>
+    );
+  }
+
+  const rows = [
+    {
+      label: 'Gas',
+      detail: `${breakdown.distance_miles} mi ÷ ${breakdown.mpg} MPG × ${formatDollars(breakdown.gas_price)}/gal`,
+      amount: breakdown.fuel_cost,
+    },
+    breakdown.tolls > 0 ? { label: 'Tolls', detail: null, amount: breakdown.tolls } : null,
+    breakdown.parking > 0 ? { label: 'Parking', detail: null, amount: breakdown.parking } : null,
+  ].filter((row) => row !== null);
+
+  return (
+    <div className="rounded-lg border border-green-100 dark:border-green-900/40 bg-green-50 dark:bg-green-900/10 p-3 text-sm">
+      <p className="font-semibold text-gray-700 dark:text-gray-300 mb-2">How the cost is split</p>
+      <dl className="space-y-1 text-gray-600 dark:text-gray-400">
+        {rows.map((row) => (
+          <div key={row.label} className="flex justify-between gap-3">
+            <dt>
+              {row.label}
+              {row.detail && <span className="block text-xs">{row.detail}</span>}
+            </dt>
+            <dd>{formatDollars(row.amount)}</dd>
+          </div>
+        ))}
+        {extras > 0 && (
+          <div className="flex justify-between gap-3 border-t border-green-100 dark:border-green-900/40 pt-1">
+            <dt>Trip total</dt>
+            <dd>{formatDollars(breakdown.total_cost)}</dd>
+          </div>
+        )}
+        <div className="flex justify-between gap-3 font-medium text-gray-900 dark:text-white">
+          <dt>
+            Split between the driver and {seats} {seats === 1 ? 'seat' : 'seats'}
+          </dt>
+          <dd>{formatDollars(breakdown.per_seat)}/seat</dd>
+        </div>
+      </dl>
+    </div>
+  );
+}
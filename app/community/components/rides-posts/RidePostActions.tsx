@@ -24,6 +24,8 @@ export function RidePostActions({
   onOpenBooking,
   showBookingButton,
 }: Readonly<RidePostActionsProps>) {
+  const isFull = post.available_seats !== null && post.available_seats <= 0;
+
   return (
     <div className="mt-auto pt-4 border-t border-gray-100 dark:border-slate-800 flex flex-col sm:flex-row gap-2">
       {isOwner ? (
@@ -34,6 +36,14 @@ export function RidePostActions({
           >
             Edit
           </Link>
+          {post.posting_type === 'driver' && (
+            <Link
+              href={`/rides/plan/${post.id}`}
+              className="bg-blue-600 text-white px-4 py-2.5 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors text-center flex-1 flex items-center justify-center"
+            >
+              Trip plan
+            </Link>
+          )}
           {onDelete && (
             <button
               onClick={() => onDelete(post.id)}
@@ -63,7 +73,7 @@ export function RidePostActions({
               onClick={onOpenBooking}
               className="bg-green-600 text-white px-4 py-2.5 rounded-lg text-sm font-medium hover:bg-green-700 transition-colors flex-1"
             >
-              Request
+              {isFull ? 'Join Waitlist' : 'Request'}
             </button>
           )}
           {/* Secondary action: View Profile */}
@@ -2,6 +2,7 @@ import { useRouter } from 'next/navigation';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { RidePostCard } from './RidePostCard';
 import { useUserProfile } from '@/hooks/useProfile';
+import { useRoadConditions } from '@/hooks/useRoadConditions';
 import type { RidePostType, ProfileType } from '../../types';
 
 // Mock dependencies
@@ -13,6 +14,10 @@ jest.mock('@/hooks/useProfile', () => ({
   useUserProfile: jest.fn(),
 }));
 
+jest.mock('@/hooks/useRoadConditions', () => ({
+  useRoadConditions: jest.fn(),
+}));
+
 jest.mock('@/components/trips/TripBookingModal', () => ({
   __esModule: true,
   default: () => <div data-testid="booking-modal">Booking Modal</div>,
@@ -71,6 +76,7 @@ describe('RidePostCard', () => {
       isLoading: false,
     });
     (useRouter as jest.Mock).mockReturnValue({ push: jest.fn() });
+    (useRoadConditions as jest.Mock).mockReturnValue({ data: [] });
   });
 
   it('should render post details', () => {
@@ -167,4 +173,53 @@ describe('RidePostCard', () => {
     fireEvent.click(screen.getByText(/View Details/i));
     expect(onViewDetails).toHaveBeenCalledTimes(1);
   });
+
+  it('warns when a ride without AWD heads over a pass under R2 chain controls', () => {
+    (useRoadConditions as jest.Mock).mockReturnValue({
+      data: [
+        {
+          corridor: 'I-80',
+          chain_control: 'R2',
+          description: null,
+          source: 'fixture',
+          reported_at: new Date().toISOString(),
+        },
+      ],
+    });
+    const winterPost = {
+      ...mockPost,
+      start_lat: 37.7749,
+      start_lng: -122.4194,
+      end_lat: 39.328,
+      end_lng: -120.1833,
+      departure_date: new Date().toISOString().split('T')[0],
+      has_awd: false,
+    };
+
+    const { rerender } = render(
+      <RidePostCard
+        post={winterPost}
+        currentUserId="user-1"
+        onMessage={mockOnMessage}
+        onDelete={mockOnDelete}
+        onViewDetails={() => {}}
+      />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'R2 chain controls on I-80 over Donner Summit'
+    );
+
+    rerender(
+      <RidePostCard
+        post={{ ...winterPost, has_awd: true }}
+        currentUserId="user-1"
+        onMessage={mockOnMessage}
+        onDelete={mockOnDelete}
+        onViewDetails={() => {}}
+      />
+    );
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
 });
@@ -6,6 +6,8 @@ import { useState } from 'react';
 import type { RidePostType, ProfileType } from '@/app/community/types';
 import TripBookingModal from '@/components/trips/TripBookingModal';
 import { RidePostActions } from './RidePostActions';
+import { CostBreakdownSummary } from './CostBreakdownSummary';
+import { ChainControlWarning } from './ChainControlWarning';
 import { useProfileCompletionPrompt } from '@/hooks/useProfileCompletionPrompt';
 import { useUserProfile } from '@/hooks/useProfile';
 import { useIsBlocked } from '@/hooks/useIsBlocked';
@@ -13,6 +15,7 @@ import { formatDateLabel, formatTimeLabel } from '@/lib/dateFormat';
 import { getBadgeConfig } from '@/app/community/components/utils/postBadges';
 import { getDirectionConfig } from '@/app/community/components/utils/tripDirection';
 import { sanitizeLocation } from '@/libs/sanitize/location';
+import { formatSeriesDays } from '@/libs/community/rideSeries';
 
 interface RidePostCardProps {
   post: RidePostType;
@@ -69,15 +72,15 @@ export function RidePostCard({
     styles: directionStyles,
     isCombinedRoundTrip,
   } = getDirectionConfig(post);
+  const seriesDaysLabel = post.series_id ? formatSeriesDays(post.recurring_days) : '';
   const departureDateLabel = formatDateLabel(post.departure_date);
   const departureTimeLabel = formatTimeLabel(post.departure_time);
   const returnDateLabel = formatDateLabel(post.return_date);
   const returnTimeLabel = formatTimeLabel(post.return_time);
   const hasReturnInfo = isCombinedRoundTrip && !!returnTimeLabel;
 
-  const seatsAvailable = post.available_seats ?? post.total_seats ?? 0;
-  const showBookingButton =
-    !isOwner && post.posting_type === 'driver' && post.status === 'active' && seatsAvailable > 0;
+  // Full rides still show the button so passengers can join the waitlist
+  const showBookingButton = !isOwner && post.posting_type === 'driver' && post.status === 'active';
 
   return (
     <>
@@ -103,6 +106,11 @@ export function RidePostCard({
                   {directionLabel}
                 </span>
               )}
+              {seriesDaysLabel && (
+                <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-teal-100 text-teal-800">
+                  🔁 {seriesDaysLabel}
+                </span>
+              )}
               <span className="text-xs text-gray-500 dark:text-gray-400">
                 {departureDateLabel ?? 'Date TBD'}
                 {departureTimeLabel && ` · ${departureTimeLabel}`}
@@ -151,6 +159,14 @@ export function RidePostCard({
             <span className="font-medium w-12 text-gray-500 dark:text-gray-400">To:</span>
             <span className="truncate flex-1">{sanitizedEndLocation}</span>
           </div>
+          {post.posting_type === 'driver' && post.cost_breakdown && (
+            <div className="mt-2">
+              <CostBreakdownSummary breakdown={post.cost_breakdown} compact />
+            </div>
+          )}
+          <div className="mt-2 empty:hidden">
+            <ChainControlWarning ride={post} />
+          </div>
         </div>
 
         {/* View Details link */}
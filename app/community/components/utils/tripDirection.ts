@@ -1,12 +1,27 @@
 import type { RidePostType } from '@/app/community/types';
 
+/**
+ * Which way a post travels: a single leg of a round trip, a round trip shown as one
+ * post, or a one-way ride.
+ */
+export type TripDirection = 'departure' | 'return' | 'round' | 'one_way';
+
+export function getTripDirection(
+  post: Pick<RidePostType, 'is_round_trip' | 'return_date' | 'trip_direction'>
+): TripDirection {
+  if (post.is_round_trip && post.return_date) return 'round';
+  if (post.is_round_trip && post.trip_direction) return post.trip_direction;
+  return 'one_way';
+}
+
 export function getDirectionConfig(post: RidePostType) {
-  const isCombinedRoundTrip = !!(post.is_round_trip && post.return_date);
+  const direction = getTripDirection(post);
+  const isCombinedRoundTrip = direction === 'round';
   let label = '';
   let styles = 'bg-orange-100 text-orange-800';
 
-  if (post.is_round_trip && !isCombinedRoundTrip && post.trip_direction) {
-    label = post.trip_direction === 'departure' ? '🛫 Outbound' : '🔙 Return';
+  if (direction === 'departure' || direction === 'return') {
+    label = direction === 'departure' ? '🛫 Outbound' : '🔙 Return';
   } else if (isCombinedRoundTrip) {
     label = '🔄 Round';
     styles = 'bg-indigo-100 text-indigo-800';
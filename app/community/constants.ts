@@ -2,3 +2,9 @@ export const RIDES_PAGE_SIZE = 12;
 export const DRIVERS_PAGE_SIZE = 12;
 export const PASSENGERS_PAGE_SIZE = 12;
 export const MEMBERS_PAGE_SIZE = 12;
+
+// Most rides plotted at once in the map view; zooming in narrows the area
+export const MAP_RIDES_LIMIT = 200;
+
+// Map view opening area: the Bay Area through Lake Tahoe
+export const COMMUNITY_MAP_VIEW = { center: { lat: 38.45, lng: -121.2 }, zoom: 7 };
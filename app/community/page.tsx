@@ -12,6 +12,7 @@ import { useRideActions } from '@/app/community/hooks/useRideActions';
 import { RidesTab } from '@/app/community/components/FindRidesTab';
 import FindPassengersTab from '@/app/community/components/FindPassengersTab';
 import { MyPostsTab } from '@/app/community/components/MyPostsTab';
+import { SavedSearchAlertsBanner } from '@/app/community/components/SavedSearchAlertsBanner';
 import CommunityMembersList from '@/app/community/components/members/CommunityMembersList';
 import MyTripsView from '@/components/trips/MyTripsView';
 import { BlockedUsersProvider } from '@/contexts/BlockedUsersContext';
@@ -118,6 +119,8 @@ export default function CommunityPage() {
             </Link>
           </div>
 
+          <SavedSearchAlertsBanner />
+
           {/* Rides Section - Shows all ride posts */}
           {activeTab === 'driver-rides' && (
             <RidesTab
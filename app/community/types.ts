@@ -22,6 +22,8 @@ export interface LocationFilterType {
   lat: number;
   lng: number;
   radius: number;
+  // The place name the user searched for, when known
+  label?: string;
 }
 
 /**
@@ -100,6 +102,14 @@ export interface RidePostType {
   start_lng: number | null;
   end_lat: number | null;
   end_lng: number | null;
+  // Place catalog ids (libs/placeCatalog) when the location was picked from the catalog
+  start_place_id?: string | null;
+  end_place_id?: string | null;
+  // Community places (see CommunityPlace) the ride departs from or ends at
+  start_community_place_id?: string | null;
+  end_community_place_id?: string | null;
+  // Community event (see CommunityEvent) the ride is a carpool to or from
+  event_id?: string | null;
   departure_date: string;
   departure_time: string;
   is_round_trip: boolean;
@@ -107,9 +117,15 @@ export interface RidePostType {
   round_trip_group_id: string | null;
   is_recurring: boolean;
   recurring_days: string[] | null;
+  // Set on the dated occurrences of a recurring ride series
+  series_id?: string | null;
+  // True when this occurrence was edited on its own instead of with the series
+  is_series_exception?: boolean;
   pricing_type: 'per_seat' | 'split_costs' | null;
   price_per_seat: number | null;
   gas_estimate: number | null;
+  // Set when a split-cost price was computed with the cost calculator
+  cost_breakdown?: CostBreakdown | null;
   total_seats: number | null;
   available_seats: number | null;
   car_type: string | null;
@@ -127,7 +143,65 @@ export interface RidePostType {
   return_time: string | null;
 }
 
-export type TripBookingStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'invited';
+/**
+ * How a split-cost ride's per-seat contribution was computed. Money values are
+ * in dollars; the total is split evenly between the driver and every seat.
+ */
+export type CostBreakdown = {
+  distance_miles: number;
+  mpg: number;
+  gas_price: number;
+  fuel_cost: number;
+  tolls: number;
+  parking: number;
+  total_cost: number;
+  split_between: number;
+  per_seat: number;
+};
+
+/**
+ * A member's saved ride search. Location filters are stored flattened as
+ * `departure_*` / `destination_*` columns.
+ */
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  departure_label: string | null;
+  departure_lat: number | null;
+  departure_lng: number | null;
+  departure_radius: number | null;
+  destination_label: string | null;
+  destination_lat: number | null;
+  destination_lng: number | null;
+  destination_radius: number | null;
+  date_from: string | null;
+  date_to: string | null;
+  // null matches any posting type
+  posting_type: RidePostType['posting_type'] | null;
+  requires_awd: boolean;
+  status: 'active' | 'paused';
+  created_at: string;
+  updated_at: string;
+  // Rides posted since the member last looked at this search
+  new_rides?: SavedSearchAlertRide[];
+}
+
+/**
+ * Summary of a ride that matched a saved search.
+ */
+export type SavedSearchAlertRide = Pick<
+  RidePostType,
+  'id' | 'posting_type' | 'title' | 'start_location' | 'end_location' | 'departure_date'
+> & { alert_id: string };
+
+export type TripBookingStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'cancelled'
+  | 'completed'
+  | 'invited'
+  | 'waitlisted';
 
 export interface TripBooking {
   id: string;
@@ -137,13 +211,22 @@ export interface TripBooking {
   pickup_location: string | null;
   pickup_lat: number | null;
   pickup_lng: number | null;
+  // Set when the passenger picked a community place as their pickup
+  pickup_community_place_id?: string | null;
   pickup_time: string | null; // ISO string
+  // Pickup time the driver proposed from the trip plan, until the passenger answers
+  proposed_pickup_time: string | null;
   status: TripBookingStatus;
+  seats_requested: number;
+  seats_confirmed: number | null;
   driver_notes: string | null;
   passenger_notes: string | null;
   created_at: string;
   updated_at: string;
   confirmed_at: string | null;
+  waitlisted_at: string | null;
+  // 1-based place in the ride's waitlist; only set while status is 'waitlisted'
+  waitlist_position?: number | null;
 
   // Relations
   driver?: ProfileType;
@@ -151,6 +234,133 @@ export interface TripBooking {
   ride?: RidePostType;
 }
 
+/**
+ * Confirmed booking as shown on the driver's trip plan.
+ */
+export type TripPlanBooking = Pick<
+  TripBooking,
+  | 'id'
+  | 'passenger_id'
+  | 'pickup_location'
+  | 'pickup_lat'
+  | 'pickup_lng'
+  | 'pickup_time'
+  | 'proposed_pickup_time'
+> & {
+  seats: number;
+  passenger: Pick<ProfileType, 'id' | 'first_name' | 'last_name'> | null;
+};
+
+export type TripPlanRide = Pick<
+  RidePostType,
+  | 'id'
+  | 'title'
+  | 'start_location'
+  | 'end_location'
+  | 'start_lat'
+  | 'start_lng'
+  | 'end_lat'
+  | 'end_lng'
+  | 'departure_date'
+  | 'departure_time'
+>;
+
+export type CommunityPlaceType = 'park_and_ride' | 'resort_lot' | 'transit_station';
+
+export type WinterAccess = 'year_round' | 'chains' | 'limited' | 'closed' | 'unknown';
+
+/**
+ * A meeting point rides can depart from and passengers can be picked up at.
+ * Member suggestions stay `pending` until an admin approves them.
+ */
+export interface CommunityPlace {
+  id: string;
+  name: string;
+  place_type: CommunityPlaceType;
+  description: string | null;
+  address: string;
+  lat: number | null;
+  lng: number | null;
+  parking_notes: string | null;
+  winter_access: WinterAccess;
+  photo_urls: string[];
+  status: 'pending' | 'approved' | 'rejected';
+  created_by: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  // Next active rides departing from the place
+  upcoming_rides?: CommunityPlaceRide[];
+}
+
+/**
+ * Summary of an upcoming ride departing from a community place.
+ */
+export type CommunityPlaceRide = Pick<
+  RidePostType,
+  | 'id'
+  | 'posting_type'
+  | 'title'
+  | 'start_location'
+  | 'end_location'
+  | 'departure_date'
+  | 'departure_time'
+  | 'available_seats'
+>;
+
+export type CommunityEventType = 'ski_day' | 'hike' | 'meetup' | 'festival' | 'volunteer' | 'other';
+
+/**
+ * A member-organized event others can RSVP to, up to `max_participants`.
+ * `current_participants` is kept by the set_event_rsvp RPC.
+ */
+export interface CommunityEvent {
+  id: string;
+  organizer_id: string;
+  title: string;
+  description: string | null;
+  event_type: CommunityEventType;
+  event_date: string;
+  location: string;
+  max_participants: number;
+  current_participants: number;
+  status: 'active' | 'cancelled';
+  created_at: string;
+  updated_at: string;
+  organizer?: EventMember | null;
+  // Whether the signed-in user has RSVP'd
+  is_attending?: boolean;
+  // Only returned for a single event
+  participants?: EventMember[];
+  carpools?: EventCarpool[];
+}
+
+/**
+ * Organizer or attendee of a community event.
+ */
+export type EventMember = Pick<
+  ProfileType,
+  'id' | 'first_name' | 'last_name' | 'profile_photo_url'
+>;
+
+/**
+ * Summary of an active ride linked to a community event.
+ */
+export type EventCarpool = Pick<
+  RidePostType,
+  | 'id'
+  | 'poster_id'
+  | 'posting_type'
+  | 'title'
+  | 'start_location'
+  | 'end_location'
+  | 'departure_date'
+  | 'departure_time'
+  | 'available_seats'
+  | 'trip_direction'
+>;
+
 export interface Vehicle {
   id: string;
   owner_id: string;
@@ -160,6 +370,8 @@ export interface Vehicle {
   color: string;
   license_plate?: string;
   drivetrain?: 'FWD' | 'RWD' | 'AWD' | '4WD';
+  // Fuel economy used to suggest split-cost contributions
+  mpg?: number | null;
   created_at?: string;
   updated_at?: string;
 }
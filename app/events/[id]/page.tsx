@@ -0,0 +1,46 @@
+'use client';
+
+import { use } from 'react';
+import Link from 'next/link';
+import { useProtectedRoute } from '@/hooks/useProtectedRoute';
+import EventDetail from '@/components/events/EventDetail';
+
+/**
+ * A single community event with RSVP and its linked carpools.
+ */
+export default function EventPage({ params }: Readonly<{ params: Promise<{ id: string }> }>) {
+  const { user, isLoading: authLoading } = useProtectedRoute();
+  const { id } = use(params);
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-linear-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-linear-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
+        <p className="text-xl text-red-500">Authentication failed. Please log in.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-blue-50 via-white to-purple-50 dark:from-slate-950 dark:via-slate-900 dark:to-slate-950 transition-colors duration-300">
+      <div className="max-w-4xl mx-auto py-4 sm:py-8 px-3 sm:px-4">
+        <div className="mb-6">
+          <Link href="/events" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+            &larr; All events
+          </Link>
+        </div>
+
+        <div className="bg-white/60 dark:bg-slate-900/60 rounded-xl p-6 shadow-md border border-white/20 dark:border-slate-700/30 backdrop-blur-md">
+          <EventDetail eventId={id} currentUserId={user.id} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -276,6 +276,10 @@ export default function HowToUsePage() {
                         </ol>
                       </Callout>
                     </div>
+                    <p className="text-gray-700">
+                      Once a booking is confirmed, the driver and every confirmed passenger share a
+                      trip group chat in Messages. Cancelling your booking removes you from it.
+                    </p>
                   </div>
                 </div>
               </section>
@@ -318,6 +322,16 @@ export default function HowToUsePage() {
                           <li>Write a comment about the ride</li>
                         </ol>
                       </Callout>
+                      <p className="text-gray-700 mt-4">
+                        Reviews are double-blind: neither of you sees the other&apos;s review until
+                        you have both left one, or until 14 days have passed. Then both are
+                        published at the same time.
+                      </p>
+                      <p className="text-gray-700 mt-4">
+                        You can post one public reply to each review about you. If a review is
+                        unfair, use Dispute on your profile to send it to our team, who will keep it
+                        or hide it.
+                      </p>
                     </div>
                   </div>
                 </div>
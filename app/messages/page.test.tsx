@@ -1,4 +1,4 @@
-import { render, screen, waitFor, within } from '@testing-library/react';
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import { createClient } from '@/lib/supabase/client';
 // Import the hook so we can cast the mock
@@ -10,6 +10,11 @@ jest.mock('@/hooks/useProtectedRoute', () => ({
   useProtectedRoute: jest.fn(),
 }));
 
+let mockSearchParams = new URLSearchParams();
+jest.mock('next/navigation', () => ({
+  useSearchParams: () => mockSearchParams,
+}));
+
 jest.mock('@/libs/validation', () => ({
   validateUUID: jest.fn((uuid: string, fieldName: string) => {
     // Mock implementation that validates UUIDs like the real function
@@ -45,14 +50,62 @@ jest.mock('@/lib/supabase/client', () => ({
 type MockUpdateResult = { error: null };
 type MockUpdateChain = Promise<MockUpdateResult> & {
   eq: jest.Mock<MockUpdateChain, []>;
+  in: jest.Mock<MockUpdateChain, []>;
 };
 
 const createUpdateChain = (): MockUpdateChain => {
   const updateResult = Promise.resolve<MockUpdateResult>({ error: null }) as MockUpdateChain;
   updateResult.eq = jest.fn(() => updateResult);
+  updateResult.in = jest.fn(() => updateResult);
   return updateResult;
 };
 
+type MockChannel = {
+  on: jest.Mock;
+  subscribe: jest.Mock;
+  presenceState: jest.Mock;
+  track: jest.Mock;
+};
+
+const createChannel = (): MockChannel => {
+  const channel = {} as MockChannel;
+  channel.on = jest.fn(() => channel);
+  channel.subscribe = jest.fn(() => channel);
+  channel.presenceState = jest.fn(() => ({}));
+  channel.track = jest.fn();
+  return channel;
+};
+
+// conversations: select().or().order().limit(), or select().eq().maybeSingle() for a linked one
+const createConversationsTable = (data: unknown[], linked: unknown = null) => {
+  const limit = jest.fn().mockResolvedValue({ data, error: null });
+  const order = jest.fn().mockReturnValue({ limit });
+  const lt = jest.fn().mockReturnValue({ order });
+  const or = jest.fn().mockReturnValue({ order, lt });
+  const maybeSingle = jest.fn().mockResolvedValue({ data: linked, error: null });
+  const eq = jest.fn().mockReturnValue({ maybeSingle });
+  return { select: jest.fn().mockReturnValue({ or, eq }), or, lt, limit, eq };
+};
+
+type MessagePage = { messages: unknown[]; nextCursor: string | null };
+
+// Serves GET /api/messages pages (keyed by the `before` cursor) and queued POST responses
+const mockFetch = (
+  pages: Record<string, MessagePage>,
+  postResponses: Array<{ ok: boolean; body: unknown }> = []
+) => {
+  const fetchMock = jest.fn(async (url: string, init?: RequestInit) => {
+    if (init?.method === 'POST') {
+      const next = postResponses.shift() ?? { ok: true, body: {} };
+      return { ok: next.ok, json: async () => next.body };
+    }
+    const before = new URL(url, 'http://localhost').searchParams.get('before') ?? '';
+    return { ok: true, json: async () => pages[before] ?? { messages: [], nextCursor: null } };
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+};
+
 // Cast the mocked hooks
 const mockedUseProtectedRoute = useProtectedRoute as jest.Mock;
 const mockedCreateClient = createClient as jest.Mock;
@@ -62,30 +115,22 @@ describe('MessagesPage', () => {
   beforeEach(() => {
     jest.clearAllMocks();
 
+    mockSearchParams = new URLSearchParams();
+    mockFetch({});
+
     // Reset the mock chain implementation before each test
-    // This default mock handles the .or().order() chain
-    const mockOrderImpl = jest.fn().mockResolvedValue({ data: [], error: null });
-    const mockEqImpl = jest.fn().mockReturnValue({ order: mockOrderImpl });
-    const mockOrImpl = jest.fn().mockReturnValue({ order: mockOrderImpl, eq: mockEqImpl });
-    const mockSelectImpl = jest.fn().mockReturnValue({
-      or: mockOrImpl,
-      limit: jest.fn().mockResolvedValue({ data: [], error: null }),
-    });
+    const conversationsTable = createConversationsTable([]);
     // Create a shared client stub so `createClient()` returns the same object
     clientStub = {
       from: jest.fn(),
-      channel: jest.fn(() => ({
-        on: jest.fn(() => ({
-          subscribe: jest.fn(() => ({ unsubscribe: jest.fn() })),
-        })),
-      })),
+      channel: jest.fn(() => createChannel()),
       removeChannel: jest.fn(),
     };
 
     mockedCreateClient.mockReturnValue(clientStub);
 
     clientStub.from.mockReturnValue({
-      select: mockSelectImpl,
+      select: conversationsTable.select,
       update: jest.fn(() => createUpdateChain()),
     });
 
@@ -124,7 +169,7 @@ describe('MessagesPage', () => {
       isLoading: false,
     });
 
-    // The default `mockOrderImpl` from beforeEach already returns { data: [] }
+    // The default conversations table from beforeEach already returns { data: [] }
     // so no need to re-mock `supabase.from`
 
     render(<MessagesPage />);
@@ -206,16 +251,8 @@ describe('MessagesPage', () => {
       isLoading: false,
     });
 
-    // Mock for 'conversations' table: select().or().order()
-    const convoOrder = jest.fn().mockResolvedValue({ data: mockConversations, error: null });
-    const convoOr = jest.fn().mockReturnValue({ order: convoOrder });
-    const convoSelect = jest.fn().mockReturnValue({ or: convoOr });
-
-    // Mock for 'messages' table: select().or().eq().order()
-    const msgOrder = jest.fn().mockResolvedValue({ data: mockMessages, error: null });
-    const msgEq = jest.fn().mockReturnValue({ order: msgOrder });
-    const msgOr = jest.fn().mockReturnValue({ eq: msgEq });
-    const msgSelect = jest.fn().mockReturnValue({ or: msgOr });
+    const conversationsTable = createConversationsTable(mockConversations);
+    const fetchMock = mockFetch({ '': { messages: mockMessages, nextCursor: null } });
 
     const bookingOrder = jest.fn().mockResolvedValue({ data: mockBookingRequests, error: null });
     const bookingEq = jest.fn().mockReturnValue({ order: bookingOrder });
@@ -226,10 +263,10 @@ describe('MessagesPage', () => {
 
     clientStub.from.mockImplementation((tableName: string) => {
       if (tableName === 'conversations') {
-        return { select: convoSelect, update: jest.fn(() => createUpdateChain()) };
+        return { select: conversationsTable.select, update: jest.fn(() => createUpdateChain()) };
       }
       if (tableName === 'messages') {
-        return { select: msgSelect, update: jest.fn(() => createUpdateChain()) };
+        return { update: jest.fn(() => createUpdateChain()) };
       }
       if (tableName === 'trip_bookings') {
         return { select: bookingSelect };
@@ -242,6 +279,7 @@ describe('MessagesPage', () => {
     await waitFor(() => {
       expect(bookingOrder).toHaveBeenCalled();
     });
+    expect(fetchMock).toHaveBeenCalledWith('/api/messages?conversation_id=convo-1');
 
     // --- 1. Check Sidebar ---
     const sidebar = screen.getByRole('heading', { name: /conversations/i }).closest('aside');
@@ -291,4 +329,280 @@ describe('MessagesPage', () => {
     const otherMessage = screen.getByText('Hello there!').closest('.message-bubble');
     expect(otherMessage).toHaveClass('bg-white text-gray-900');
   });
+
+  it('shows ride group chats with sender names and posts to the conversation', async () => {
+    const mockUser = { id: '00000000-0000-4000-8000-000000000001' };
+    const groupConversation = {
+      id: 'group-1',
+      participant1_id: null,
+      participant2_id: null,
+      participant1: null,
+      participant2: null,
+      is_group: true,
+      ride: {
+        id: 'ride-1',
+        title: 'Saturday to Heavenly',
+        start_location: 'A',
+        end_location: 'B',
+        departure_date: '2023-10-27',
+      },
+      last_message_at: new Date().toISOString(),
+    };
+    const groupMessages = [
+      {
+        id: 'msg-1',
+        sender_id: '00000000-0000-4000-8000-000000000002',
+        recipient_id: null,
+        content: 'Meet at the lot?',
+        created_at: '2023-10-27T10:00:00Z',
+        sender: {
+          id: '00000000-0000-4000-8000-000000000002',
+          first_name: 'Jane',
+          last_name: 'Doe',
+        },
+      },
+    ];
+
+    mockedUseProtectedRoute.mockReturnValue({ user: mockUser, isLoading: false });
+
+    const conversationsTable = createConversationsTable([groupConversation]);
+    const bookingSelect = jest.fn();
+
+    clientStub.from.mockImplementation((tableName: string) => {
+      if (tableName === 'conversations') {
+        return { select: conversationsTable.select };
+      }
+      if (tableName === 'messages') {
+        return { update: jest.fn(() => createUpdateChain()) };
+      }
+      return { select: bookingSelect };
+    });
+
+    const fetchMock = mockFetch({ '': { messages: groupMessages, nextCursor: null } });
+
+    render(<MessagesPage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Meet at the lot?')).toBeInTheDocument();
+    });
+
+    expect(conversationsTable.or).toHaveBeenCalledWith(expect.stringContaining('is_group.eq.true'));
+    expect(fetchMock).toHaveBeenCalledWith('/api/messages?conversation_id=group-1');
+    expect(screen.getAllByRole('heading', { name: 'Trip group chat' })).toHaveLength(2);
+    expect(screen.getByText('Jane')).toBeInTheDocument();
+    expect(screen.queryByText('Ride requests')).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Report' })).not.toBeInTheDocument();
+    expect(bookingSelect).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByPlaceholderText(/type your message/i), {
+      target: { value: 'On my way' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+
+    await waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledWith(
+        '/api/messages',
+        expect.objectContaining({
+          body: JSON.stringify({ conversation_id: 'group-1', content: 'On my way' }),
+        })
+      );
+    });
+  });
+
+  it('streams new messages in, marks seen ones read and retries failed sends', async () => {
+    const mockUser = { id: '00000000-0000-4000-8000-000000000001' };
+    const otherId = '00000000-0000-4000-8000-000000000002';
+    const conversation = {
+      id: 'convo-1',
+      participant1_id: mockUser.id,
+      participant2_id: otherId,
+      participant1: { id: mockUser.id, first_name: 'Test', last_name: 'User' },
+      participant2: { id: otherId, first_name: 'Jane', last_name: 'Doe' },
+      ride: null,
+      last_message_at: new Date().toISOString(),
+    };
+
+    mockedUseProtectedRoute.mockReturnValue({ user: mockUser, isLoading: false });
+
+    const channel = createChannel();
+    clientStub.channel.mockReturnValue(channel);
+
+    const conversationsTable = createConversationsTable([conversation]);
+    const readUpdate = createUpdateChain();
+    const messagesUpdate = jest.fn(() => readUpdate);
+    const bookingOrder = jest.fn().mockResolvedValue({ data: [], error: null });
+    const bookingIn = jest.fn().mockReturnValue({
+      is: jest.fn().mockReturnValue({ order: bookingOrder }),
+    });
+
+    clientStub.from.mockImplementation((tableName: string) => {
+      if (tableName === 'conversations') {
+        return { select: conversationsTable.select };
+      }
+      if (tableName === 'messages') {
+        return { update: messagesUpdate };
+      }
+      return {
+        select: jest.fn().mockReturnValue({ or: jest.fn().mockReturnValue({ in: bookingIn }) }),
+      };
+    });
+
+    const fetchMock = mockFetch({}, [
+      { ok: false, body: {} },
+      {
+        ok: true,
+        body: {
+          message: {
+            id: 'msg-2',
+            sender_id: mockUser.id,
+            recipient_id: otherId,
+            conversation_id: 'convo-1',
+            content: 'See you there',
+            created_at: '2026-01-01T10:05:00Z',
+          },
+        },
+      },
+    ]);
+
+    render(<MessagesPage />);
+
+    await waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledWith('/api/messages?conversation_id=convo-1');
+    });
+
+    const insertListener = channel.on.mock.calls.find(
+      ([type, filter]) => type === 'postgres_changes' && filter.event === 'INSERT'
+    );
+    act(() => {
+      insertListener?.[2]({
+        new: {
+          id: 'msg-1',
+          sender_id: otherId,
+          recipient_id: mockUser.id,
+          conversation_id: 'convo-1',
+          content: 'Running late',
+          created_at: '2026-01-01T10:00:00Z',
+          is_read: false,
+        },
+      });
+    });
+
+    expect(await screen.findByText('Running late')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(readUpdate.in).toHaveBeenCalledWith('id', ['msg-1']);
+    });
+
+    fireEvent.change(screen.getByPlaceholderText(/type your message/i), {
+      target: { value: 'See you there' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+
+    expect(await screen.findByText(/Not sent/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+    await waitFor(() => {
+      expect(screen.queryByText(/Not sent/)).not.toBeInTheDocument();
+    });
+    expect(fetchMock.mock.calls.filter(([, init]) => init?.method === 'POST')).toHaveLength(2);
+    expect(screen.getAllByText('See you there')).toHaveLength(1);
+  });
+
+  it('opens a deep-linked message by paging back through the thread', async () => {
+    const mockUser = { id: '00000000-0000-4000-8000-000000000001' };
+    const otherId = '00000000-0000-4000-8000-000000000002';
+    const linkedConversation = {
+      id: 'convo-2',
+      participant1_id: mockUser.id,
+      participant2_id: otherId,
+      participant1: { id: mockUser.id, first_name: 'Test', last_name: 'User' },
+      participant2: { id: otherId, first_name: 'Jane', last_name: 'Doe' },
+      ride: null,
+      last_message_at: '2026-01-01T09:00:00Z',
+    };
+    const message = (id: string, content: string, createdAt: string) => ({
+      id,
+      sender_id: mockUser.id,
+      recipient_id: otherId,
+      conversation_id: 'convo-2',
+      content,
+      created_at: createdAt,
+      is_read: true,
+    });
+
+    mockSearchParams = new URLSearchParams({ conversation: 'convo-2', message: 'msg-old' });
+    mockedUseProtectedRoute.mockReturnValue({ user: mockUser, isLoading: false });
+
+    // The linked conversation is older than the first page of the list
+    const conversationsTable = createConversationsTable([], linkedConversation);
+    clientStub.from.mockImplementation((tableName: string) => {
+      if (tableName === 'conversations') {
+        return { select: conversationsTable.select };
+      }
+      if (tableName === 'messages') {
+        return { update: jest.fn(() => createUpdateChain()) };
+      }
+      return {
+        select: jest.fn().mockReturnValue({
+          or: jest.fn().mockReturnValue({
+            in: jest.fn().mockReturnValue({
+              is: jest
+                .fn()
+                .mockReturnValue({ order: jest.fn().mockResolvedValue({ data: [], error: null }) }),
+            }),
+          }),
+        }),
+      };
+    });
+
+    const fetchMock = mockFetch({
+      '': { messages: [message('msg-new', 'Latest', '2026-01-01T09:00:00Z')], nextCursor: 'c1' },
+      c1: {
+        messages: [message('msg-old', 'Bring chains', '2026-01-01T08:00:00Z')],
+        nextCursor: null,
+      },
+    });
+
+    render(<MessagesPage />);
+
+    expect(await screen.findByText('Bring chains')).toBeInTheDocument();
+    expect(conversationsTable.eq).toHaveBeenCalledWith('id', 'convo-2');
+    expect(fetchMock).toHaveBeenCalledWith('/api/messages?conversation_id=convo-2&before=c1');
+    await waitFor(() => {
+      expect(screen.getByText('Bring chains').closest('.message-bubble')).toHaveClass(
+        'ring-yellow-400'
+      );
+    });
+    expect(screen.queryByRole('button', { name: 'Load earlier messages' })).not.toBeInTheDocument();
+  });
+
+  it('searches messages and lists the matches', async () => {
+    const fetchMock = mockFetch({});
+    fetchMock.mockImplementation(async (url: string) => ({
+      ok: true,
+      json: async () =>
+        url.startsWith('/api/messages/search')
+          ? {
+              results: [
+                {
+                  id: 'msg-1',
+                  conversation_id: 'convo-1',
+                  content: 'Chains are required on 50',
+                  created_at: '2026-01-01T10:00:00Z',
+                  sender: { id: 'user-2', first_name: 'Jane', last_name: 'Doe' },
+                },
+              ],
+            }
+          : { messages: [], nextCursor: null },
+    }));
+
+    render(<MessagesPage />);
+
+    fireEvent.change(screen.getByLabelText('Search messages'), { target: { value: 'chains' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Search' }));
+
+    expect(await screen.findByText('Chains are required on 50')).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith('/api/messages/search?q=chains');
+    expect(screen.getByText('1 matching message')).toBeInTheDocument();
+  });
 });
@@ -1,9 +1,28 @@
 'use client';
 
-import { FormEvent, useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  FormEvent,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { useSearchParams } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import { useProtectedRoute } from '@/hooks/useProtectedRoute';
+import { useConversationRealtime } from '@/hooks/useConversationRealtime';
+import { useSeenMessages } from '@/hooks/useSeenMessages';
 import { validateUUID } from '@/libs/validation';
+import {
+  createLocalMessageId,
+  mergeIncomingMessage,
+  prependOlderMessages,
+  replacePendingMessage,
+  withLocalMessages,
+  type MessageDeliveryStatus,
+} from '@/libs/messageThread';
 
 import ReportModal from '@/components/ReportModal';
 import toast from 'react-hot-toast';
@@ -25,8 +44,9 @@ interface Ride {
 
 interface Conversation {
   id: string;
-  participant1_id: string;
-  participant2_id: string;
+  participant1_id: string | null;
+  participant2_id: string | null;
+  is_group?: boolean;
   participant1?: Participant | null;
   participant2?: Participant | null;
   ride?: Ride | null;
@@ -36,10 +56,13 @@ interface Conversation {
 interface Message {
   id: string;
   sender_id: string;
-  recipient_id: string;
+  recipient_id: string | null;
+  conversation_id?: string | null;
   content: string;
   created_at: string;
   is_read?: boolean;
+  sender?: Participant | null;
+  status?: MessageDeliveryStatus;
 }
 
 interface BookingRequest {
@@ -50,11 +73,34 @@ interface BookingRequest {
   status: 'pending' | 'invited';
   pickup_location?: string | null;
   pickup_time?: string | null;
+  seats_requested?: number | null;
   driver?: Participant | null;
   passenger?: Participant | null;
   booking_id?: string | null;
 }
 
+const GROUP_CHAT_TITLE = 'Trip group chat';
+const CONVERSATION_PAGE_SIZE = 20;
+/** Start loading older messages when scrolled this close to the top. */
+const LOAD_OLDER_THRESHOLD_PX = 80;
+
+const CONVERSATION_SELECT = `
+  *,
+  participant1:profiles!conversations_participant1_id_fkey(id, first_name, last_name, profile_photo_url),
+  participant2:profiles!conversations_participant2_id_fkey(id, first_name, last_name, profile_photo_url),
+  ride:rides(id, title, start_location, end_location, departure_date)
+`;
+
+interface MessageSearchResult {
+  id: string;
+  conversation_id: string;
+  content: string;
+  created_at: string;
+  sender?: Participant | null;
+}
+
+type ScrollBehavior = 'bottom' | { previousHeight: number; previousTop: number } | null;
+
 /**
  * Safely constructs a PostgREST .or() filter string with validated UUID parameters.
  * This prevents injection attacks by validating that all IDs are proper UUIDs before interpolation.
@@ -82,13 +128,32 @@ function buildSafeOrFilter(
 
 /**
  * Displays the authenticated user's messaging dashboard, including conversations and the thread view.
+ * `?conversation=<id>&message=<id>` opens a conversation scrolled to a specific message.
  */
 export default function MessagesPage() {
   const supabase = createClient();
+  const searchParams = useSearchParams();
+  const linkedConversationId = searchParams?.get('conversation') ?? null;
   const { user, isLoading: authLoading } = useProtectedRoute();
   const [conversations, setConversations] = useState<Conversation[]>([]);
-  const [selectedConversationId, setSelectedConversationId] = useState<null | string>(null);
+  const [hasMoreConversations, setHasMoreConversations] = useState(false);
+  const [selectedConversationId, setSelectedConversationId] = useState<null | string>(
+    linkedConversationId
+  );
   const [messages, setMessages] = useState<Message[]>([]);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  // Which conversation `messages` and `olderCursor` belong to once its first page is in
+  const [loadedConversationId, setLoadedConversationId] = useState<string | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [targetMessageId, setTargetMessageId] = useState<string | null>(
+    searchParams?.get('message') ?? null
+  );
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<MessageSearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const messageListRef = useRef<HTMLDivElement | null>(null);
+  const scrollBehaviorRef = useRef<ScrollBehavior>(null);
   const [conversationsLoading, setConversationsLoading] = useState(false);
   const [messagesLoading, setMessagesLoading] = useState(false);
   const [messageInput, setMessageInput] = useState('');
@@ -120,95 +185,281 @@ export default function MessagesPage() {
   }, [currentConversation, user]);
 
   const otherParticipantName = useMemo(() => {
+    if (currentConversation?.is_group) {
+      return GROUP_CHAT_TITLE;
+    }
     if (!otherParticipant) {
       return 'Conversation';
     }
     return `${otherParticipant.first_name} ${otherParticipant.last_name}`;
-  }, [otherParticipant]);
+  }, [currentConversation, otherParticipant]);
 
-const hasActiveOrPendingTrip = true; // Allow messaging without booking
-  
-  const loadConversations = useCallback(async () => {
-    if (!user) {
-      return;
-    }
+  const hasActiveOrPendingTrip = true; // Allow messaging without booking
 
-    setConversationsLoading(true);
-    setFetchError(null);
+  const loadConversations = useCallback(
+    async (olderThan?: string) => {
+      if (!user) {
+        return;
+      }
 
-    try {
-      // Validate user ID before using it in the query
-      validateUUID(user.id, 'user.id');
+      setConversationsLoading(true);
+      setFetchError(null);
+
+      try {
+        // Validate user ID before using it in the query
+        validateUUID(user.id, 'user.id');
+
+        let query = supabase
+          .from('conversations')
+          .select(CONVERSATION_SELECT)
+          // Group chats have no participants; RLS only returns those for rides the user is on
+          .or(`participant1_id.eq.${user.id},participant2_id.eq.${user.id},is_group.eq.true`);
+
+        if (olderThan) {
+          query = query.lt('last_message_at', olderThan);
+        }
+
+        const { data, error } = await query
+          .order('last_message_at', { ascending: false })
+          .limit(CONVERSATION_PAGE_SIZE);
+
+        if (error) {
+          throw error;
+        }
+
+        const safeData = (Array.isArray(data) ? data : []) as unknown as Conversation[];
+        setHasMoreConversations(safeData.length === CONVERSATION_PAGE_SIZE);
+        setConversations((previous) => {
+          if (!olderThan) {
+            // Keep a deep-linked conversation that is older than the first page
+            const extra = previous.filter(
+              (conversation) => !safeData.some((loaded) => loaded.id === conversation.id)
+            );
+            return [...safeData, ...extra];
+          }
+          const knownIds = new Set(previous.map((conversation) => conversation.id));
+          return [
+            ...previous,
+            ...safeData.filter((conversation) => !knownIds.has(conversation.id)),
+          ];
+        });
+        setSelectedConversationId((previous) => previous ?? safeData[0]?.id ?? null);
+      } catch (error) {
+        console.error('Unable to load conversations', error);
+        setFetchError('Unable to load conversations right now.');
+      } finally {
+        setConversationsLoading(false);
+      }
+    },
+    [supabase, user]
+  );
+
+  // Deep links and search results can point at a conversation outside the loaded pages
+  const ensureConversationLoaded = useCallback(
+    async (conversationId: string) => {
+      if (!user || conversations.some((conversation) => conversation.id === conversationId)) {
+        return;
+      }
 
       const { data, error } = await supabase
         .from('conversations')
-        .select(
-          `
-          *,
-          participant1:profiles!conversations_participant1_id_fkey(id, first_name, last_name, profile_photo_url),
-          participant2:profiles!conversations_participant2_id_fkey(id, first_name, last_name, profile_photo_url),
-          ride:rides(id, title, start_location, end_location, departure_date)
-        `
-        )
-        .or(`participant1_id.eq.${user.id},participant2_id.eq.${user.id}`)
-        .order('last_message_at', { ascending: false });
+        .select(CONVERSATION_SELECT)
+        .eq('id', conversationId)
+        .maybeSingle();
 
-      if (error) {
-        throw error;
+      if (error || !data) {
+        if (error) console.error('Unable to load linked conversation', error);
+        return;
       }
 
-      const safeData = (Array.isArray(data) ? data : []) as unknown as Conversation[];
-      setConversations(safeData);
-      setSelectedConversationId((previous) => previous ?? safeData[0]?.id ?? null);
-    } catch (error) {
-      console.error('Unable to load conversations', error);
-      setFetchError('Unable to load conversations right now.');
-    } finally {
-      setConversationsLoading(false);
+      const linked = data as unknown as Conversation;
+      setConversations((previous) =>
+        previous.some((conversation) => conversation.id === linked.id)
+          ? previous
+          : [linked, ...previous]
+      );
+    },
+    [conversations, supabase, user]
+  );
+
+  const fetchMessagePage = useCallback(async (conversationId: string, before?: string) => {
+    const params = new URLSearchParams({ conversation_id: conversationId });
+    if (before) {
+      params.set('before', before);
+    }
+
+    const response = await fetch(`/api/messages?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error('Failed to load messages');
     }
-  }, [supabase, user]);
+
+    const payload = await response.json();
+    return {
+      messages: (Array.isArray(payload.messages) ? payload.messages : []) as Message[],
+      nextCursor: (payload.nextCursor ?? null) as string | null,
+    };
+  }, []);
 
   const loadMessages = useCallback(async () => {
     if (!currentConversation || !user) {
       setMessages([]);
+      setOlderCursor(null);
       return;
     }
 
-    const otherId =
-      currentConversation.participant1_id === user.id
-        ? currentConversation.participant2_id
-        : currentConversation.participant1_id;
+    setMessagesLoading(true);
 
-    if (!otherId) {
+    try {
+      const page = await fetchMessagePage(currentConversation.id);
+      scrollBehaviorRef.current = 'bottom';
+      setMessages((previous) => withLocalMessages(page.messages, previous, currentConversation.id));
+      setOlderCursor(page.nextCursor);
+      setLoadedConversationId(currentConversation.id);
+    } catch (error) {
+      console.error('Unable to load messages', error);
       setMessages([]);
-      return;
+      setOlderCursor(null);
+      setLoadedConversationId(null);
+    } finally {
+      setMessagesLoading(false);
     }
+  }, [currentConversation, fetchMessagePage, user]);
 
-    setMessagesLoading(true);
+  // After a reconnect, merge in the newest page without dropping older pages already loaded
+  const syncLatestMessages = useCallback(async () => {
+    if (!currentConversation) {
+      return;
+    }
 
     try {
-      // Build a safe filter with validated UUIDs
-      const filter = buildSafeOrFilter(user.id, otherId, 'sender_id', 'recipient_id');
+      const page = await fetchMessagePage(currentConversation.id);
+      setMessages((previous) => page.messages.reduce(mergeIncomingMessage, previous));
+    } catch (error) {
+      console.error('Unable to refresh messages', error);
+    }
+  }, [currentConversation, fetchMessagePage]);
 
-      const { data, error } = await supabase
-        .from('messages')
-        .select('*')
-        .or(filter)
-        .eq('conversation_id', currentConversation.id)
-        .order('created_at', { ascending: true });
+  const loadOlderMessages = useCallback(async () => {
+    if (!currentConversation || !olderCursor || loadingOlder) {
+      return;
+    }
 
-      if (error) {
-        throw error;
+    setLoadingOlder(true);
+
+    try {
+      const page = await fetchMessagePage(currentConversation.id, olderCursor);
+      const container = messageListRef.current;
+      if (container) {
+        // Keep the messages the user is looking at in place as older ones are added above
+        scrollBehaviorRef.current = {
+          previousHeight: container.scrollHeight,
+          previousTop: container.scrollTop,
+        };
       }
+      setMessages((previous) => prependOlderMessages(previous, page.messages));
+      setOlderCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Unable to load older messages', error);
+      toast.error('Unable to load older messages');
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [currentConversation, fetchMessagePage, loadingOlder, olderCursor]);
+
+  useLayoutEffect(() => {
+    const container = messageListRef.current;
+    const behavior = scrollBehaviorRef.current;
+    if (!container || !behavior) {
+      return;
+    }
+
+    scrollBehaviorRef.current = null;
+    if (behavior === 'bottom') {
+      container.scrollTop = container.scrollHeight;
+    } else {
+      container.scrollTop = container.scrollHeight - behavior.previousHeight + behavior.previousTop;
+    }
+  }, [messages]);
+
+  const handleMessageListScroll = useCallback(() => {
+    const container = messageListRef.current;
+    if (container && container.scrollTop < LOAD_OLDER_THRESHOLD_PX) {
+      loadOlderMessages();
+    }
+  }, [loadOlderMessages]);
+
+  // Page back through the thread until a linked message is loaded, then show it
+  const revealTargetMessage = useCallback(() => {
+    if (
+      !targetMessageId ||
+      !currentConversation ||
+      loadedConversationId !== currentConversation.id ||
+      messagesLoading ||
+      loadingOlder
+    ) {
+      return;
+    }
+
+    if (messages.some((message) => message.id === targetMessageId)) {
+      scrollBehaviorRef.current = null;
+      document.getElementById(`message-${targetMessageId}`)?.scrollIntoView?.({ block: 'center' });
+      setHighlightedMessageId(targetMessageId);
+      setTargetMessageId(null);
+      return;
+    }
 
-      setMessages(Array.isArray(data) ? data : []);
+    if (olderCursor) {
+      loadOlderMessages();
+    } else {
+      setTargetMessageId(null);
+    }
+  }, [
+    currentConversation,
+    loadedConversationId,
+    loadOlderMessages,
+    loadingOlder,
+    messages,
+    messagesLoading,
+    olderCursor,
+    targetMessageId,
+  ]);
+
+  useEffect(() => {
+    revealTargetMessage();
+  }, [revealTargetMessage]);
+
+  const openMessage = useCallback(
+    async (conversationId: string, messageId: string) => {
+      await ensureConversationLoaded(conversationId);
+      setSelectedConversationId(conversationId);
+      setTargetMessageId(messageId);
+    },
+    [ensureConversationLoaded]
+  );
+
+  const handleSearch = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const query = searchQuery.trim();
+    if (query.length < 2) {
+      return;
+    }
+
+    setSearching(true);
+
+    try {
+      const response = await fetch(`/api/messages/search?q=${encodeURIComponent(query)}`);
+      if (!response.ok) {
+        throw new Error('Failed to search messages');
+      }
+      const payload = await response.json();
+      setSearchResults(Array.isArray(payload.results) ? payload.results : []);
     } catch (error) {
-      console.error('Unable to load messages', error);
-      setMessages([]);
+      console.error('Error searching messages:', error);
+      toast.error('Unable to search messages right now.');
     } finally {
-      setMessagesLoading(false);
+      setSearching(false);
     }
-  }, [currentConversation, supabase, user]);
+  };
 
   const fetchBookingRequests = useCallback(async () => {
     if (!currentConversation || !user) {
@@ -235,7 +486,7 @@ const hasActiveOrPendingTrip = true; // Allow messaging without booking
       let requestQuery = supabase
         .from('trip_bookings')
         .select(
-          `id, ride_id, status, pickup_location, pickup_time, driver_id, passenger_id,
+          `id, ride_id, status, pickup_location, pickup_time, seats_requested, driver_id, passenger_id,
           driver:profiles!trip_bookings_driver_id_fkey(id, first_name, last_name),
           passenger:profiles!trip_bookings_passenger_id_fkey(id, first_name, last_name)`
         )
@@ -286,6 +537,15 @@ const hasActiveOrPendingTrip = true; // Allow messaging without booking
     loadConversations();
   }, [authLoading, loadConversations, user]);
 
+  useEffect(() => {
+    if (!user || authLoading || !linkedConversationId) {
+      return;
+    }
+    ensureConversationLoaded(linkedConversationId);
+    // Only the initial link needs resolving, not every change to the loaded list
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [authLoading, linkedConversationId, user]);
+
   useEffect(() => {
     if (typeof window === 'undefined') {
       return;
@@ -301,76 +561,132 @@ const hasActiveOrPendingTrip = true; // Allow messaging without booking
     fetchBookingRequests();
   }, [fetchBookingRequests]);
 
-  useEffect(() => {
-    if (!user || authLoading) return;
+  const handleIncomingMessage = useCallback((incoming: Message) => {
+    setMessages((previous) => mergeIncomingMessage(previous, incoming));
+  }, []);
+
+  const handleMessageUpdate = useCallback((updated: Message) => {
+    setMessages((previous) =>
+      previous.map((message) => (message.id === updated.id ? { ...message, ...updated } : message))
+    );
+  }, []);
+
+  const { typingUserIds, setTyping } = useConversationRealtime<Message>(
+    currentConversation?.id ?? null,
+    user?.id ?? null,
+    {
+      onInsert: handleIncomingMessage,
+      onUpdate: handleMessageUpdate,
+      onResync: syncLatestMessages,
+    }
+  );
+
+  // Read receipts: only messages that were actually on screen are marked read
+  const handleMessagesSeen = useCallback(
+    async (messageIds: string[]) => {
+      if (!user) {
+        return;
+      }
+
+      setMessages((previous) =>
+        previous.map((message) =>
+          messageIds.includes(message.id) ? { ...message, is_read: true } : message
+        )
+      );
 
-    const markAllMessagesRead = async () => {
       const { error } = await supabase
         .from('messages')
         .update({ is_read: true })
-        .eq('recipient_id', user.id)
-        .eq('is_read', false);
+        .in('id', messageIds)
+        .eq('recipient_id', user.id);
 
       if (error) {
-        console.error('Error marking all messages as read:', error);
+        console.error('Error marking messages as read:', error);
       }
-    };
+    },
+    [supabase, user]
+  );
 
-    markAllMessagesRead();
-  }, [authLoading, supabase, user]);
+  const observeSeenMessage = useSeenMessages(handleMessagesSeen);
 
-  const markMessagesAsRead = useCallback(async () => {
-    if (!currentConversation || !user) {
-      return;
+  const senderNames = useMemo(() => {
+    const names = new Map<string, string>();
+    [currentConversation?.participant1, currentConversation?.participant2].forEach(
+      (participant) => {
+        if (participant) names.set(participant.id, participant.first_name);
+      }
+    );
+    messages.forEach((message) => {
+      if (message.sender) names.set(message.sender_id, message.sender.first_name);
+    });
+    return names;
+  }, [currentConversation, messages]);
+
+  const typingLabel = useMemo(() => {
+    if (typingUserIds.length === 0) {
+      return null;
     }
-
-    const unreadMessages = messages.filter((m) => !m.is_read && m.sender_id !== user.id);
-
-    if (unreadMessages.length === 0) {
-      return;
+    if (typingUserIds.length > 1) {
+      return `${typingUserIds.length} people are typing…`;
     }
+    return `${senderNames.get(typingUserIds[0]) ?? 'Someone'} is typing…`;
+  }, [senderNames, typingUserIds]);
 
-    // Optimistically mark as read locally to prevent loop
-    setMessages((prev) => prev.map((m) => (m.sender_id === user.id ? m : { ...m, is_read: true })));
+  // In 1:1 threads, "Seen" goes under the latest of the user's messages that was read
+  const lastSeenOwnMessageId = useMemo(() => {
+    if (!user || currentConversation?.is_group) {
+      return null;
+    }
+    const seen = messages.filter((message) => message.sender_id === user.id && message.is_read);
+    return seen.at(-1)?.id ?? null;
+  }, [currentConversation, messages, user]);
 
-    const { error } = await supabase
-      .from('messages')
-      .update({ is_read: true })
-      .eq('conversation_id', currentConversation.id)
-      .eq('recipient_id', user.id)
-      .eq('is_read', false);
+  const postMessage = useCallback(
+    async (localId: string, content: string) => {
+      if (!currentConversation) {
+        return;
+      }
 
-    if (error) {
-      console.error('Error marking messages as read:', error);
-    }
-  }, [currentConversation, supabase, messages, user]);
+      setMessages((previous) =>
+        previous.map((message) =>
+          message.id === localId ? { ...message, status: 'sending' } : message
+        )
+      );
 
-  useEffect(() => {
-    if (user && messages.some((m) => !m.is_read && m.sender_id !== user.id)) {
-      markMessagesAsRead();
-    }
-  }, [markMessagesAsRead, messages, user]);
+      try {
+        const response = await fetch('/api/messages', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(
+            currentConversation.is_group
+              ? { conversation_id: currentConversation.id, content: content }
+              : {
+                  recipient_id: otherParticipant?.id,
+                  content: content,
+                  ride_post_id: currentConversation.ride?.id, // Pass ride_id to associate message
+                }
+          ),
+        });
 
-  useEffect(() => {
-    if (!currentConversation) {
-      return;
-    }
+        if (!response.ok) {
+          throw new Error('Failed to send message');
+        }
 
-    const channel = supabase.channel('messages-page');
-    const listener = channel.on(
-      'postgres_changes',
-      { event: 'INSERT', schema: 'public', table: 'messages' },
-      () => {
-        loadMessages();
+        const payload = await response.json();
+        setMessages((previous) =>
+          replacePendingMessage(previous, localId, payload?.message as Message | undefined)
+        );
+      } catch (error) {
+        console.error('Error sending message:', error);
+        setMessages((previous) =>
+          previous.map((message) =>
+            message.id === localId ? { ...message, status: 'failed' } : message
+          )
+        );
       }
-    );
-    const subscription = listener.subscribe();
-
-    return () => {
-      subscription?.unsubscribe?.();
-      supabase.removeChannel(channel);
-    };
-  }, [currentConversation, supabase, loadMessages]);
+    },
+    [currentConversation, otherParticipant]
+  );
 
   const handleSendMessage = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -379,43 +695,25 @@ const hasActiveOrPendingTrip = true; // Allow messaging without booking
     }
 
     const content = messageInput.trim();
-    const tempId = `local-${Date.now()}`;
+    const localId = createLocalMessageId();
 
     // Optimistic update
     setMessages((existing) => [
       ...existing,
       {
-        id: tempId,
+        id: localId,
         sender_id: user.id,
-        recipient_id: otherParticipant?.id ?? '',
+        recipient_id: otherParticipant?.id ?? null,
+        conversation_id: currentConversation.id,
         content: content,
         created_at: new Date().toISOString(),
+        status: 'sending',
       },
     ]);
     setMessageInput('');
+    setTyping(false);
 
-    try {
-      const response = await fetch('/api/messages', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          recipient_id: otherParticipant?.id,
-          content: content,
-          ride_post_id: currentConversation.ride?.id, // Pass ride_id to associate message
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to send message');
-      }
-
-      // Refresh messages to get the real ID and any other updates
-      loadMessages();
-    } catch (error) {
-      console.error('Error sending message:', error);
-      // Revert optimistic update or show error
-      // For now, we just log it. In a real app, we'd show a toast or retry.
-    }
+    await postMessage(localId, content);
   };
 
   const handleBookingAction = useCallback(
@@ -486,6 +784,70 @@ const hasActiveOrPendingTrip = true; // Allow messaging without booking
             </p>
           </header>
 
+          <form role="search" onSubmit={handleSearch} className="flex gap-2">
+            <input
+              type="search"
+              aria-label="Search messages"
+              placeholder="Search messages"
+              value={searchQuery}
+              onChange={(event) => {
+                setSearchQuery(event.target.value);
+                if (!event.target.value.trim()) setSearchResults(null);
+              }}
+              className="min-w-0 flex-1 rounded-2xl border border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-3 py-2 text-sm text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:border-blue-500 focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={searching || searchQuery.trim().length < 2}
+              className="rounded-2xl bg-blue-600 px-3 py-2 text-sm font-semibold text-white disabled:opacity-60"
+            >
+              Search
+            </button>
+          </form>
+
+          {searchResults && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  {searchResults.length === 0
+                    ? 'No matching messages'
+                    : `${searchResults.length} matching message${searchResults.length === 1 ? '' : 's'}`}
+                </h3>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSearchQuery('');
+                    setSearchResults(null);
+                  }}
+                  className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Clear
+                </button>
+              </div>
+              <ul className="flex max-h-[40vh] flex-col gap-2 overflow-y-auto pr-1">
+                {searchResults.map((result) => (
+                  <li key={result.id}>
+                    <button
+                      type="button"
+                      onClick={() => openMessage(result.conversation_id, result.id)}
+                      className="w-full text-left rounded-2xl bg-white dark:bg-slate-800 px-3 py-2 hover:bg-blue-50/60 dark:hover:bg-slate-800/80"
+                    >
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {result.sender
+                          ? `${result.sender.first_name} ${result.sender.last_name}`
+                          : 'Message'}{' '}
+                        · {new Date(result.created_at).toLocaleDateString()}
+                      </p>
+                      <p className="text-sm text-gray-900 dark:text-white line-clamp-2">
+                        {result.content}
+                      </p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {conversationsLoading && (
             <div className="text-sm text-gray-500 dark:text-gray-400">Loading conversations...</div>
           )}
@@ -519,7 +881,10 @@ const hasActiveOrPendingTrip = true; // Allow messaging without booking
                     }`}
                   >
                     <h3 className="font-semibold text-gray-900 dark:text-white">
-                      {other ? `${other.first_name} ${other.last_name}` : 'Conversation'}
+                      {(() => {
+                        if (conversation.is_group) return GROUP_CHAT_TITLE;
+                        return other ? `${other.first_name} ${other.last_name}` : 'Conversation';
+                      })()}
                     </h3>
                     <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
                       {conversation.ride?.title ||
@@ -530,6 +895,18 @@ const hasActiveOrPendingTrip = true; // Allow messaging without booking
                   </button>
                 );
               })}
+              {hasMoreConversations && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    loadConversations(conversations.at(-1)?.last_message_at ?? undefined)
+                  }
+                  disabled={conversationsLoading}
+                  className="rounded-2xl border border-gray-200 dark:border-slate-700 px-4 py-2 text-sm font-medium text-blue-600 dark:text-blue-400 disabled:opacity-60"
+                >
+                  Load more conversations
+                </button>
+              )}
             </div>
           </div>
         </aside>
@@ -541,7 +918,7 @@ const hasActiveOrPendingTrip = true; // Allow messaging without booking
                 <div className="flex justify-between items-start gap-4">
                   <div className="space-y-3">
                     <p className="text-sm font-semibold uppercase tracking-[0.3em] text-blue-600 dark:text-blue-400">
-                      Conversation
+                      {currentConversation.is_group ? 'Group chat' : 'Conversation'}
                     </p>
                     <div className="space-y-1">
                       <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">
@@ -553,6 +930,11 @@ const hasActiveOrPendingTrip = true; // Allow messaging without booking
                             ? `${currentConversation.ride.start_location} to ${currentConversation.ride.end_location}`
                             : 'Closed-loop message thread')}
                       </p>
+                      {currentConversation.is_group && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          Everyone confirmed on this ride can read and post here.
+                        </p>
+                      )}
                     </div>
                   </div>
                   {otherParticipant && (
@@ -575,130 +957,135 @@ const hasActiveOrPendingTrip = true; // Allow messaging without booking
                   )}
                 </div>
 
-                <div className="space-y-2 pb-4 w-full">
-                  <div className="space-y-2 w-full">
-                    <div className="flex flex-col gap-2 w-full">
-                      <h2 className="text-sm font-semibold text-gray-500 dark:text-gray-400">
-                        Ride requests
-                      </h2>
-                      {bookingRequests.length > 0 && (
-                        <button
-                          type="button"
-                          onClick={() => setRideRequestsExpanded((prev) => !prev)}
-                          aria-pressed={rideRequestsExpanded}
-                          className="flex w-full items-center justify-between gap-3 rounded-2xl border border-blue-200/80 bg-blue-50/80 px-4 py-3 text-left text-sm font-semibold text-blue-700 transition hover:border-blue-300 hover:bg-blue-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400 focus-visible:ring-offset-2 focus-visible:ring-offset-white dark:border-slate-700 dark:bg-slate-800/60 dark:text-blue-300 dark:hover:border-slate-600 dark:hover:bg-slate-800/60 dark:focus-visible:ring-offset-slate-900"
-                        >
-                          <span className="flex-1 pr-3">{rideRequestDetailsToggleText}</span>
-                          <span className="text-xs font-normal text-blue-600 dark:text-blue-200">
-                            {rideRequestsExpanded ? 'Collapse' : 'Expand'}
-                          </span>
-                        </button>
-                      )}
-                    </div>
+                {!currentConversation.is_group && (
+                  <div className="space-y-2 pb-4 w-full">
+                    <div className="space-y-2 w-full">
+                      <div className="flex flex-col gap-2 w-full">
+                        <h2 className="text-sm font-semibold text-gray-500 dark:text-gray-400">
+                          Ride requests
+                        </h2>
+                        {bookingRequests.length > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => setRideRequestsExpanded((prev) => !prev)}
+                            aria-pressed={rideRequestsExpanded}
+                            className="flex w-full items-center justify-between gap-3 rounded-2xl border border-blue-200/80 bg-blue-50/80 px-4 py-3 text-left text-sm font-semibold text-blue-700 transition hover:border-blue-300 hover:bg-blue-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400 focus-visible:ring-offset-2 focus-visible:ring-offset-white dark:border-slate-700 dark:bg-slate-800/60 dark:text-blue-300 dark:hover:border-slate-600 dark:hover:bg-slate-800/60 dark:focus-visible:ring-offset-slate-900"
+                          >
+                            <span className="flex-1 pr-3">{rideRequestDetailsToggleText}</span>
+                            <span className="text-xs font-normal text-blue-600 dark:text-blue-200">
+                              {rideRequestsExpanded ? 'Collapse' : 'Expand'}
+                            </span>
+                          </button>
+                        )}
+                      </div>
 
-                    {bookingRequestsLoading && (
-                      <p className="text-sm text-gray-500 dark:text-gray-400">
-                        Loading ride requests…
-                      </p>
-                    )}
-                    {!bookingRequestsLoading &&
-                      bookingRequests.length > 0 &&
-                      rideRequestsExpanded && (
-                        <div className="space-y-3">
-                          {bookingRequests.map((request) => {
-                            const bookingId = request.id ?? request.booking_id;
-                            const isUserDriver = request.driver_id === user?.id;
-                            const canAct = isUserDriver
-                              ? request.status === 'pending'
-                              : request.status === 'invited';
-                            const canCancelRequest = !isUserDriver && request.status === 'pending';
-                            const otherPersonName = isUserDriver
-                              ? `${request.passenger?.first_name ?? 'Passenger'} ${request.passenger?.last_name ?? ''}`.trim()
-                              : `${request.driver?.first_name ?? 'Driver'} ${request.driver?.last_name ?? ''}`.trim();
-                            const pickupTime = request.pickup_time
-                              ? new Date(request.pickup_time).toLocaleTimeString([], {
-                                  hour: 'numeric',
-                                  minute: '2-digit',
-                                })
-                              : 'TBD';
-                            const actionInProgress = bookingId
-                              ? bookingActionLoadingIds.includes(bookingId)
-                              : false;
-
-                            return (
-                              <div
-                                key={
-                                  bookingId ??
-                                  request.ride_id ??
-                                  `${request.driver_id}-${request.passenger_id}`
-                                }
-                                className="w-fit max-w-full rounded-2xl border border-gray-200 dark:border-slate-700 bg-white/80 dark:bg-slate-900/60 p-4 shadow-sm"
-                              >
-                                <div className="flex items-center">
-                                  <p className="text-sm font-semibold text-gray-900 dark:text-white">
-                                    {otherPersonName || 'Passenger'} •{' '}
-                                    {request.status === 'pending' ? 'Pending' : 'Invited'}
-                                  </p>
-                                </div>
-                                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                                  Pickup: {request.pickup_location ?? 'TBD'} at {pickupTime}
-                                </p>
-                                {canAct && bookingId && (
-                                  <div className="mt-3 flex gap-2">
-                                    <button
-                                      type="button"
-                                      onClick={() => handleBookingAction(bookingId, 'approve')}
-                                      disabled={actionInProgress}
-                                      className="flex-1 rounded-2xl border border-blue-400 bg-blue-50 px-3 py-2 text-xs font-semibold uppercase tracking-[0.2em] text-blue-600 transition disabled:opacity-70"
-                                    >
-                                      Approve
-                                    </button>
-                                    <button
-                                      type="button"
-                                      onClick={() => handleBookingAction(bookingId, 'deny')}
-                                      disabled={actionInProgress}
-                                      className="flex-1 rounded-2xl border border-red-400 bg-red-50 px-3 py-2 text-xs font-semibold uppercase tracking-[0.2em] text-red-600 transition disabled:opacity-70"
-                                    >
-                                      Deny
-                                    </button>
-                                  </div>
-                                )}
-                                {canCancelRequest && bookingId && (
-                                  <div className="mt-3">
-                                    <button
-                                      type="button"
-                                      onClick={() => handleBookingAction(bookingId, 'cancel')}
-                                      disabled={actionInProgress}
-                                      className="w-full rounded-2xl border border-gray-300 bg-gray-50 px-3 py-2 text-xs font-semibold text-gray-600 transition disabled:opacity-70"
-                                    >
-                                      Cancel request
-                                    </button>
+                      {bookingRequestsLoading && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          Loading ride requests…
+                        </p>
+                      )}
+                      {!bookingRequestsLoading &&
+                        bookingRequests.length > 0 &&
+                        rideRequestsExpanded && (
+                          <div className="space-y-3">
+                            {bookingRequests.map((request) => {
+                              const bookingId = request.id ?? request.booking_id;
+                              const isUserDriver = request.driver_id === user?.id;
+                              const canAct = isUserDriver
+                                ? request.status === 'pending'
+                                : request.status === 'invited';
+                              const canCancelRequest =
+                                !isUserDriver && request.status === 'pending';
+                              const otherPersonName = isUserDriver
+                                ? `${request.passenger?.first_name ?? 'Passenger'} ${request.passenger?.last_name ?? ''}`.trim()
+                                : `${request.driver?.first_name ?? 'Driver'} ${request.driver?.last_name ?? ''}`.trim();
+                              const pickupTime = request.pickup_time
+                                ? new Date(request.pickup_time).toLocaleTimeString([], {
+                                    hour: 'numeric',
+                                    minute: '2-digit',
+                                  })
+                                : 'TBD';
+                              const actionInProgress = bookingId
+                                ? bookingActionLoadingIds.includes(bookingId)
+                                : false;
+
+                              return (
+                                <div
+                                  key={
+                                    bookingId ??
+                                    request.ride_id ??
+                                    `${request.driver_id}-${request.passenger_id}`
+                                  }
+                                  className="w-fit max-w-full rounded-2xl border border-gray-200 dark:border-slate-700 bg-white/80 dark:bg-slate-900/60 p-4 shadow-sm"
+                                >
+                                  <div className="flex items-center">
+                                    <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                                      {otherPersonName || 'Passenger'} •{' '}
+                                      {request.status === 'pending' ? 'Pending' : 'Invited'}
+                                    </p>
                                   </div>
-                                )}
-                                {!bookingId && (
-                                  <p className="mt-2 text-xs text-red-600">
-                                    Booking ID missing for this request.
+                                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                    Pickup: {request.pickup_location ?? 'TBD'} at {pickupTime}
+                                    {(request.seats_requested ?? 1) > 1 &&
+                                      ` · ${request.seats_requested} seats`}
                                   </p>
-                                )}
-                              </div>
-                            );
-                          })}
-                        </div>
-                      )}
-                    {!bookingRequestsLoading &&
-                      bookingRequests.length > 0 &&
-                      !rideRequestsExpanded && (
-                        <p className="text-xs text-gray-500 dark:text-gray-400">
-                          Ride requests are hidden.
+                                  {canAct && bookingId && (
+                                    <div className="mt-3 flex gap-2">
+                                      <button
+                                        type="button"
+                                        onClick={() => handleBookingAction(bookingId, 'approve')}
+                                        disabled={actionInProgress}
+                                        className="flex-1 rounded-2xl border border-blue-400 bg-blue-50 px-3 py-2 text-xs font-semibold uppercase tracking-[0.2em] text-blue-600 transition disabled:opacity-70"
+                                      >
+                                        Approve
+                                      </button>
+                                      <button
+                                        type="button"
+                                        onClick={() => handleBookingAction(bookingId, 'deny')}
+                                        disabled={actionInProgress}
+                                        className="flex-1 rounded-2xl border border-red-400 bg-red-50 px-3 py-2 text-xs font-semibold uppercase tracking-[0.2em] text-red-600 transition disabled:opacity-70"
+                                      >
+                                        Deny
+                                      </button>
+                                    </div>
+                                  )}
+                                  {canCancelRequest && bookingId && (
+                                    <div className="mt-3">
+                                      <button
+                                        type="button"
+                                        onClick={() => handleBookingAction(bookingId, 'cancel')}
+                                        disabled={actionInProgress}
+                                        className="w-full rounded-2xl border border-gray-300 bg-gray-50 px-3 py-2 text-xs font-semibold text-gray-600 transition disabled:opacity-70"
+                                      >
+                                        Cancel request
+                                      </button>
+                                    </div>
+                                  )}
+                                  {!bookingId && (
+                                    <p className="mt-2 text-xs text-red-600">
+                                      Booking ID missing for this request.
+                                    </p>
+                                  )}
+                                </div>
+                              );
+                            })}
+                          </div>
+                        )}
+                      {!bookingRequestsLoading &&
+                        bookingRequests.length > 0 &&
+                        !rideRequestsExpanded && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Ride requests are hidden.
+                          </p>
+                        )}
+                      {!bookingRequestsLoading && bookingRequests.length === 0 && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          No pending ride requests.
                         </p>
                       )}
-                    {!bookingRequestsLoading && bookingRequests.length === 0 && (
-                      <p className="text-sm text-gray-500 dark:text-gray-400">
-                        No pending ride requests.
-                      </p>
-                    )}
+                    </div>
                   </div>
-                </div>
+                )}
               </header>
 
               <div className="flex flex-col gap-4" aria-live="polite">
@@ -709,30 +1096,71 @@ const hasActiveOrPendingTrip = true; // Allow messaging without booking
                   <p className="text-sm text-gray-500 dark:text-gray-400">No messages yet</p>
                 )}
 
-                <div className="flex max-h-[55vh] min-h-[180px] flex-col gap-3 overflow-y-auto px-1 sm:max-h-[420px] lg:max-h-[480px]">
+                <div
+                  ref={messageListRef}
+                  onScroll={handleMessageListScroll}
+                  className="flex max-h-[55vh] min-h-[180px] flex-col gap-3 overflow-y-auto px-1 sm:max-h-[420px] lg:max-h-[480px]"
+                >
+                  {olderCursor && (
+                    <button
+                      type="button"
+                      onClick={loadOlderMessages}
+                      disabled={loadingOlder}
+                      className="self-center text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-60"
+                    >
+                      {loadingOlder ? 'Loading earlier messages…' : 'Load earlier messages'}
+                    </button>
+                  )}
                   {messages.map((message) => {
                     const isCurrentUser = message.sender_id === user?.id;
+                    const isUnreadForUser =
+                      !isCurrentUser && !message.is_read && message.recipient_id === user?.id;
                     return (
                       <div
                         key={message.id}
+                        id={`message-${message.id}`}
+                        ref={isUnreadForUser ? observeSeenMessage(message.id) : undefined}
                         className={`message-bubble max-w-[90%] sm:max-w-[80%] rounded-2xl px-4 py-3 text-sm leading-relaxed shadow-sm
+                          ${message.id === highlightedMessageId ? 'ring-2 ring-yellow-400' : ''}
                           ${
                             isCurrentUser
                               ? 'self-end bg-blue-600 text-white'
                               : 'self-start bg-white dark:bg-slate-800 text-gray-900 dark:text-gray-100'
                           }`}
                       >
+                        {currentConversation.is_group && !isCurrentUser && (
+                          <p className="mb-1 text-xs font-semibold text-blue-600 dark:text-blue-400">
+                            {message.sender?.first_name ?? 'Member'}
+                          </p>
+                        )}
                         <p className="break-words">{message.content}</p>
                         <p className="mt-2 text-xs text-white/70 dark:text-gray-400">
                           {new Date(message.created_at).toLocaleTimeString([], {
                             hour: 'numeric',
                             minute: '2-digit',
                           })}
+                          {message.status === 'sending' && ' · Sending…'}
+                          {message.id === lastSeenOwnMessageId && ' · Seen'}
                         </p>
+                        {message.status === 'failed' && (
+                          <p className="mt-1 text-xs font-semibold">
+                            Not sent.{' '}
+                            <button
+                              type="button"
+                              onClick={() => postMessage(message.id, message.content)}
+                              className="underline"
+                            >
+                              Retry
+                            </button>
+                          </p>
+                        )}
                       </div>
                     );
                   })}
                 </div>
+                {typingLabel && (
+                  <p className="text-xs italic text-gray-500 dark:text-gray-400">{typingLabel}</p>
+                )}
               </div>
 
               <form
@@ -744,7 +1172,10 @@ const hasActiveOrPendingTrip = true; // Allow messaging without booking
                   className="flex-1 min-h-[120px] rounded-2xl border border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-4 py-3 text-sm shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-100 dark:focus:ring-blue-900 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
                   placeholder="Type your message..."
                   value={messageInput}
-                  onChange={(event) => setMessageInput(event.target.value)}
+                  onChange={(event) => {
+                    setMessageInput(event.target.value);
+                    setTyping(event.target.value.trim().length > 0);
+                  }}
                   disabled={!hasActiveOrPendingTrip}
                 />
                 <button
@@ -755,7 +1186,6 @@ const hasActiveOrPendingTrip = true; // Allow messaging without booking
                   Send
                 </button>
               </form>
-            
             </>
           ) : (
             <div className="flex flex-col items-center justify-center space-y-3 py-12">
@@ -8,12 +8,15 @@ import { createClient } from '@/lib/supabase/client';
 import { formatLocation, formatPronouns } from '@/libs/utils';
 import { useProtectedRoute } from '@/hooks/useProtectedRoute';
 import UserReviews from '@/components/UserReviews';
+import ReviewCategoryBreakdown from '@/components/ReviewCategoryBreakdown';
 import ReviewModal from '@/components/ReviewModal';
 import ReportModal from '@/components/ReportModal';
 import MessageModal from '@/components/MessageModal';
 import BlockModal from '@/components/BlockModal';
 import VehicleDisplay from '@/components/vehicles/VehicleDisplay';
+import LocationMap from '@/components/map/Map';
 import { useIsBlocked } from '@/hooks/useIsBlocked';
+import { approximateProfileLocation, PROFILE_AREA_RADIUS_MILES } from '@/libs/mapTiles';
 
 interface Profile {
   id: string;
@@ -23,6 +26,10 @@ interface Profile {
   city?: string;
   state?: string;
   bio?: string;
+  display_lat?: number | null;
+  display_lng?: number | null;
+  display_lat_offset?: number | null;
+  display_lng_offset?: number | null;
 
   pronouns?: string | null;
   support_preferences?: string[];
@@ -43,6 +50,7 @@ interface PendingReview {
   meeting_id: string;
   booking_id: string;
   other_participant_name: string;
+  other_participant_role: 'driver' | 'passenger';
   meeting_title: string;
   [key: string]: unknown;
 }
@@ -210,6 +218,8 @@ export default function PublicProfilePage() {
     );
   }
 
+  const approximateLocation = approximateProfileLocation(profile);
+
   return (
     <div className="min-h-screen w-full bg-linear-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800">
       <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
@@ -340,6 +350,26 @@ export default function PublicProfilePage() {
             </div>
           )}
 
+          {/* Approximate location; never the exact address */}
+          {approximateLocation && (
+            <div className="mb-6">
+              <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-2">General area</h3>
+              <LocationMap
+                markers={[
+                  {
+                    id: 'profile-area',
+                    ...approximateLocation,
+                    kind: 'approximate',
+                    label: `${profile.first_name}'s approximate area`,
+                    radiusMiles: PROFILE_AREA_RADIUS_MILES,
+                  },
+                ]}
+                height={220}
+                maxZoom={12}
+              />
+            </div>
+          )}
+
           {/* Vehicles */}
           <VehicleDisplay userId={profile.id} />
 
@@ -450,6 +480,7 @@ export default function PublicProfilePage() {
           <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4 flex items-center">
             <span className="mr-2">⭐</span> Reviews
           </h2>
+          <ReviewCategoryBreakdown profileId={profile.id} />
           <UserReviews profileId={profile.id} showAll={true} />
         </div>
       </div>
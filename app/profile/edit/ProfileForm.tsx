@@ -20,6 +20,21 @@ const SOCIAL_FIELDS = [
   { key: 'airbnb_url', label: 'Airbnb' },
 ];
 
+const TIMEZONE_OPTIONS = [
+  { value: 'America/Los_Angeles', label: 'Pacific Time' },
+  { value: 'America/Denver', label: 'Mountain Time' },
+  { value: 'America/Phoenix', label: 'Arizona' },
+  { value: 'America/Chicago', label: 'Central Time' },
+  { value: 'America/New_York', label: 'Eastern Time' },
+  { value: 'America/Anchorage', label: 'Alaska' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii' },
+];
+
+const HOUR_OPTIONS = Array.from({ length: 24 }, (_, hour) => ({
+  value: String(hour),
+  label: `${hour % 12 || 12} ${hour < 12 ? 'AM' : 'PM'}`,
+}));
+
 interface ProfileFormState {
   first_name: string;
   last_name: string;
@@ -38,6 +53,10 @@ interface ProfileFormState {
   instagram_url: string;
   linkedin_url: string;
   airbnb_url: string;
+
+  timezone: string;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
 }
 
 interface ProfileFormProps {
@@ -71,6 +90,7 @@ export default function ProfileForm({ initialData }: ProfileFormProps) {
   // Safely coerce incoming profile values to expected types
   const safeString = (value: unknown, fallback = ''): string =>
     typeof value === 'string' ? value : fallback;
+  const safeHour = (value: unknown): string => (typeof value === 'number' ? String(value) : '');
 
   const [formState, setFormState] = useState<ProfileFormState>({
     first_name: safeString(initialData.first_name),
@@ -91,6 +111,10 @@ export default function ProfileForm({ initialData }: ProfileFormProps) {
     instagram_url: safeString(initialData.instagram_url),
     linkedin_url: safeString(initialData.linkedin_url),
     airbnb_url: safeString(initialData.airbnb_url),
+
+    timezone: safeString(initialData.timezone, TIMEZONE_OPTIONS[0].value),
+    quiet_hours_start: safeHour(initialData.quiet_hours_start),
+    quiet_hours_end: safeHour(initialData.quiet_hours_end),
   });
 
   const handleInputChange = (
@@ -171,6 +195,10 @@ export default function ProfileForm({ initialData }: ProfileFormProps) {
       instagram_url: formState.instagram_url.trim() || null,
       linkedin_url: formState.linkedin_url.trim() || null,
       airbnb_url: formState.airbnb_url.trim() || null,
+
+      timezone: formState.timezone,
+      quiet_hours_start: formState.quiet_hours_start ? Number(formState.quiet_hours_start) : null,
+      quiet_hours_end: formState.quiet_hours_end ? Number(formState.quiet_hours_end) : null,
     };
 
     return sanitized;
@@ -198,6 +226,15 @@ export default function ProfileForm({ initialData }: ProfileFormProps) {
       return;
     }
 
+    // Quiet hours need both ends, and an empty window would hold emails forever
+    if (
+      Boolean(formState.quiet_hours_start) !== Boolean(formState.quiet_hours_end) ||
+      (formState.quiet_hours_start && formState.quiet_hours_start === formState.quiet_hours_end)
+    ) {
+      setSubmitError('Choose different start and end times for quiet hours, or turn both off.');
+      return;
+    }
+
     // Auto-geocode if coordinates are missing
     let resolvedLat = formState.display_lat;
     let resolvedLng = formState.display_lng;
@@ -428,6 +465,63 @@ export default function ProfileForm({ initialData }: ProfileFormProps) {
         </div>
       </section>
 
+      <section className="space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-slate-50">Message emails</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Unread messages are emailed as a digest. During quiet hours we hold the digest and send
+            it once they end.
+          </p>
+        </div>
+        <div className="grid gap-3 sm:grid-cols-3">
+          <label className="space-y-1">
+            <span className="text-sm font-semibold text-gray-600 dark:text-slate-400">
+              Timezone
+            </span>
+            <select
+              name="timezone"
+              value={formState.timezone}
+              onChange={handleInputChange}
+              className="w-full rounded-xl border border-gray-200 dark:border-slate-600 dark:bg-slate-800 dark:text-white px-3 py-2 focus:border-blue-500 dark:focus:border-blue-400 focus:outline-none"
+            >
+              {!TIMEZONE_OPTIONS.some((option) => option.value === formState.timezone) && (
+                <option value={formState.timezone}>{formState.timezone}</option>
+              )}
+              {TIMEZONE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {(
+            [
+              { key: 'quiet_hours_start', label: 'Quiet hours from' },
+              { key: 'quiet_hours_end', label: 'Quiet hours until' },
+            ] as const
+          ).map((field) => (
+            <label key={field.key} className="space-y-1">
+              <span className="text-sm font-semibold text-gray-600 dark:text-slate-400">
+                {field.label}
+              </span>
+              <select
+                name={field.key}
+                value={formState[field.key]}
+                onChange={handleInputChange}
+                className="w-full rounded-xl border border-gray-200 dark:border-slate-600 dark:bg-slate-800 dark:text-white px-3 py-2 focus:border-blue-500 dark:focus:border-blue-400 focus:outline-none"
+              >
+                <option value="">Off</option>
+                {HOUR_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      </section>
+
       {/* Terms Agreement Checkbox */}
       <div className="flex items-start gap-3 p-4 rounded-xl bg-slate-50 dark:bg-slate-800/50">
         <input
@@ -226,6 +226,38 @@ describe('ProfileEditPage', () => {
     );
   });
 
+  it('saves message email quiet hours with the profile', async () => {
+    setHooksToDefault();
+    render(<ProfileEditPage />);
+
+    await waitFor(() => expect(screen.getByDisplayValue('Jane')).toBeInTheDocument());
+
+    fireEvent.change(screen.getByLabelText(/State/i), { target: { value: 'CA' } });
+    fireEvent.change(screen.getByLabelText(/Timezone/i), {
+      target: { value: 'America/Denver' },
+    });
+    fireEvent.change(screen.getByLabelText(/Quiet hours from/i), { target: { value: '22' } });
+    fireEvent.click(screen.getByLabelText(/I agree to the/i));
+
+    fireEvent.click(screen.getByRole('button', { name: /Save profile/i }));
+    expect(screen.getByText(/Choose different start and end times/i)).toBeInTheDocument();
+    expect(mutateMock).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText(/Quiet hours until/i), { target: { value: '7' } });
+    fireEvent.click(screen.getByRole('button', { name: /Save profile/i }));
+
+    expect(mutateMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        profileData: expect.objectContaining({
+          timezone: 'America/Denver',
+          quiet_hours_start: 22,
+          quiet_hours_end: 7,
+        }),
+      }),
+      expect.anything()
+    );
+  });
+
   it('shows success state once the mutation completes', async () => {
     setHooksToDefault();
     const { rerender } = render(<ProfileEditPage />);
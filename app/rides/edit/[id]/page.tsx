@@ -5,7 +5,14 @@ import { useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import RideForm from '@/components/rides/RideForm';
 import { fetchRideById, updateRide } from '@/libs/community/ridesData';
+import {
+  formatSeriesDays,
+  updateRideSeriesOccurrences,
+  type SeriesEditScope,
+} from '@/libs/community/rideSeries';
+import { geocodeSavedRides } from '@/libs/geocoding';
 import { useUser } from '@/components/providers/SupabaseUserProvider';
+import { useCommunityPlaces } from '@/hooks/useCommunityPlaces';
 import type { RidePostType } from '@/app/community/types';
 
 export default function EditRidePage({ params }: Readonly<{ params: Promise<{ id: string }> }>) {
@@ -15,7 +22,9 @@ export default function EditRidePage({ params }: Readonly<{ params: Promise<{ id
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [editScope, setEditScope] = useState<SeriesEditScope>('occurrence');
   const unwrappedParams = use(params);
+  const { places: communityPlaces } = useCommunityPlaces(!!user);
 
   useEffect(() => {
     const loadRide = async () => {
@@ -61,7 +70,16 @@ export default function EditRidePage({ params }: Readonly<{ params: Promise<{ id
     setSaving(true);
     try {
       const supabase = createClient();
-      await updateRide(supabase, ride.id, data);
+      if (ride.series_id && editScope === 'future') {
+        await updateRideSeriesOccurrences(supabase, ride.series_id, ride.departure_date, data);
+      } else if (ride.series_id) {
+        // Editing one date detaches it from later series-wide edits of the template
+        await updateRide(supabase, ride.id, { ...data, is_series_exception: true });
+      } else {
+        await updateRide(supabase, ride.id, data);
+      }
+      // Edited locations lose their coordinates; look them up again in the background
+      void geocodeSavedRides();
       router.push(`/community/`); // Redirect to community/my rides eventually
       router.refresh();
     } catch (err) {
@@ -112,6 +130,42 @@ export default function EditRidePage({ params }: Readonly<{ params: Promise<{ id
           <p className="mt-2 text-gray-600 dark:text-gray-400">Update your ride details below.</p>
         </div>
 
+        {ride?.series_id && (
+          <fieldset className="mb-6 bg-white dark:bg-slate-900 shadow-sm rounded-xl border border-gray-200 dark:border-slate-800 p-4">
+            <legend className="px-1 text-sm font-medium text-gray-900 dark:text-white">
+              This ride repeats {formatSeriesDays(ride.recurring_days) || 'weekly'}
+            </legend>
+            <div className="mt-2 space-y-2 text-sm text-gray-700 dark:text-gray-300">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="edit_scope"
+                  value="occurrence"
+                  checked={editScope === 'occurrence'}
+                  onChange={() => setEditScope('occurrence')}
+                />
+                Only the ride on {ride.departure_date}
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="edit_scope"
+                  value="future"
+                  checked={editScope === 'future'}
+                  onChange={() => setEditScope('future')}
+                />
+                This and all later rides in the series
+              </label>
+              {editScope === 'future' && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Each ride keeps its own date and bookings. Seat changes are applied to every
+                  ride&apos;s remaining seats.
+                </p>
+              )}
+            </div>
+          </fieldset>
+        )}
+
         <div className="bg-white dark:bg-slate-900 shadow-sm rounded-xl border border-gray-200 dark:border-slate-800 p-6">
           {ride && (
             <RideForm
@@ -120,6 +174,7 @@ export default function EditRidePage({ params }: Readonly<{ params: Promise<{ id
               onCancel={handleCancel}
               isLoading={saving}
               isEditing={true}
+              communityPlaces={communityPlaces}
             />
           )}
         </div>
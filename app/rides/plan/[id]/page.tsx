@@ -0,0 +1,56 @@
+'use client';
+
+import { use } from 'react';
+import Link from 'next/link';
+import { useProtectedRoute } from '@/hooks/useProtectedRoute';
+import TripPlanView from '@/components/trips/TripPlanView';
+
+/**
+ * Driver's pickup plan for one of their rides.
+ */
+export default function TripPlanPage({ params }: Readonly<{ params: Promise<{ id: string }> }>) {
+  const { user, isLoading: authLoading } = useProtectedRoute();
+  const { id } = use(params);
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-linear-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-linear-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
+        <p className="text-xl text-red-500">Authentication failed. Please log in.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-blue-50 via-white to-purple-50 dark:from-slate-950 dark:via-slate-900 dark:to-slate-950 transition-colors duration-300">
+      <div className="max-w-4xl mx-auto py-4 sm:py-8 px-3 sm:px-4">
+        <div className="mb-10 sm:mb-12">
+          <Link
+            href="/community"
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            &larr; Back to rides
+          </Link>
+          <h1 className="text-2xl sm:text-4xl font-bold bg-linear-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mt-2 mb-2">
+            🗺️ Trip Plan
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-300">
+            Your confirmed passengers in pickup order, with estimated arrival times. Adjust any time
+            and send it to the passenger as their new pickup time.
+          </p>
+        </div>
+
+        <div className="bg-white/60 dark:bg-slate-900/60 rounded-xl p-6 shadow-md border border-white/20 dark:border-slate-700/30 backdrop-blur-md">
+          <TripPlanView rideId={id} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,21 +2,30 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import { createClient } from '@/lib/supabase/client';
 import { useProtectedRoute } from '@/hooks/useProtectedRoute';
+import { geocodeSavedRides } from '@/libs/geocoding';
 import type { RidePostType } from '@/app/community/types';
 import CreateRidePage from './page';
 
 const mockRouterPush = jest.fn();
 const mockRouterBack = jest.fn();
+let mockSearchParams = new URLSearchParams();
 
 jest.mock('next/navigation', () => ({
   useRouter: () => ({
     push: mockRouterPush,
     back: mockRouterBack,
   }),
+  useSearchParams: () => mockSearchParams,
 }));
 
 jest.mock('@/hooks/useProtectedRoute');
 jest.mock('@/lib/supabase/client');
+jest.mock('@/libs/geocoding', () => ({
+  geocodeSavedRides: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('@/hooks/useCommunityPlaces', () => ({
+  useCommunityPlaces: () => ({ places: [], loading: false }),
+}));
 
 const mockRidePost: Partial<RidePostType> = {
   posting_type: 'driver',
@@ -67,6 +76,7 @@ describe('CreateRidePage', () => {
     jest.clearAllMocks();
     mockRouterPush.mockReset();
     mockRouterBack.mockReset();
+    mockSearchParams = new URLSearchParams();
 
     mockedUseProtectedRoute.mockReturnValue({ user: mockUser, isLoading: false });
 
@@ -113,6 +123,7 @@ describe('CreateRidePage', () => {
         }),
       ])
     );
+    expect(geocodeSavedRides).toHaveBeenCalledTimes(1);
   });
 
   it('shows an error message when saving fails', async () => {
@@ -126,6 +137,7 @@ describe('CreateRidePage', () => {
     });
 
     expect(mockRouterPush).not.toHaveBeenCalled();
+    expect(geocodeSavedRides).not.toHaveBeenCalled();
   });
 
   it('calls router.back when cancel is clicked', () => {
@@ -135,4 +147,38 @@ describe('CreateRidePage', () => {
 
     expect(mockRouterBack).toHaveBeenCalled();
   });
+
+  it('links the ride to the event it was opened for', async () => {
+    mockSearchParams = new URLSearchParams('event=event-1');
+    globalThis.fetch = jest.fn((url: string) =>
+      Promise.resolve({
+        ok: true,
+        json: () =>
+          Promise.resolve(
+            url === '/api/community/events/event-1'
+              ? {
+                  event: {
+                    id: 'event-1',
+                    title: 'Kirkwood Ski Day',
+                    location: 'Kirkwood Mountain Resort',
+                    event_date: '2025-12-20T16:00:00Z',
+                  },
+                }
+              : { vehicles: [] }
+          ),
+      })
+    ) as jest.Mock;
+
+    render(<CreateRidePage />);
+
+    expect(await screen.findByText('Kirkwood Ski Day')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /Save Ride/i }));
+
+    await waitFor(() => {
+      expect(mockRouterPush).toHaveBeenCalledWith('/community');
+    });
+    expect(insertMock).toHaveBeenCalledWith([
+      expect.objectContaining({ event_id: 'event-1', ...mockRidePost }),
+    ]);
+  });
 });
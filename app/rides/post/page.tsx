@@ -1,22 +1,34 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import RideForm from '@/components/rides/RideForm';
 import { useProtectedRoute } from '@/hooks/useProtectedRoute';
-import type { RidePostType, Vehicle } from '@/app/community/types';
+import { useCommunityPlaces } from '@/hooks/useCommunityPlaces';
+import { createRideSeries } from '@/libs/community/rideSeries';
+import { geocodeSavedRides } from '@/libs/geocoding';
+import { eventRideDefaults } from '@/libs/communityEvents';
+import type { CommunityEvent, RidePostType, Vehicle } from '@/app/community/types';
 
 /**
  * Page for creating new ride posts.
- * Handles form submission for both one-way and round-trip rides.
+ * Handles form submission for one-way, round-trip and weekly recurring rides.
+ * Opened with `?event=<id>`, the form is prefilled for a carpool to that
+ * community event and one-off rides are linked to it.
  */
 export default function CreateRidePage() {
   const router = useRouter();
+  const eventId = useSearchParams().get('event');
   const { user, isLoading } = useProtectedRoute();
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const { places: communityPlaces } = useCommunityPlaces(!!user);
+  const [event, setEvent] = useState<CommunityEvent | null>(null);
+  const [linkToEvent, setLinkToEvent] = useState(true);
+  const linkedEvent = linkToEvent ? event : null;
 
   useEffect(() => {
     if (!user) return;
@@ -37,6 +49,25 @@ export default function CreateRidePage() {
     fetchVehicles();
   }, [user]);
 
+  useEffect(() => {
+    if (!user || !eventId) return;
+
+    const fetchEvent = async () => {
+      try {
+        const response = await fetch(`/api/community/events/${eventId}`);
+        if (response.ok) {
+          const data = await response.json();
+          setEvent(data.event);
+        }
+      } catch (err) {
+        console.error('Failed to fetch event', err);
+        // The ride can still be posted without the event link
+      }
+    };
+
+    fetchEvent();
+  }, [user, eventId]);
+
   const handleSave = async (data: Partial<RidePostType>) => {
     if (!user) return;
     setSaving(true);
@@ -45,6 +76,47 @@ export default function CreateRidePage() {
     try {
       const supabase = createClient();
 
+      // A recurring ride is posted as a series of dated, one-way rides
+      if (data.is_recurring && data.recurring_days?.length) {
+        await createRideSeries(supabase, {
+          posterId: user.id,
+          recurringDays: data.recurring_days,
+          startsOn: data.departure_date ?? '',
+          departureTime: data.departure_time ?? '',
+          ride: {
+            poster_id: user.id,
+            posting_type: data.posting_type ?? 'driver',
+            title: data.title,
+            start_location: data.start_location ?? '',
+            end_location: data.end_location ?? '',
+            start_place_id: data.start_place_id ?? null,
+            end_place_id: data.end_place_id ?? null,
+            start_community_place_id: data.start_community_place_id ?? null,
+            end_community_place_id: data.end_community_place_id ?? null,
+            start_lat: data.start_lat ?? null,
+            start_lng: data.start_lng ?? null,
+            end_lat: data.end_lat ?? null,
+            end_lng: data.end_lng ?? null,
+            pricing_type: data.pricing_type,
+            price_per_seat: data.price_per_seat,
+            gas_estimate: data.gas_estimate,
+            cost_breakdown: data.cost_breakdown,
+            total_seats: data.total_seats,
+            available_seats: data.posting_type === 'driver' ? data.total_seats : null,
+            description: data.description,
+            special_instructions: data.special_instructions,
+            has_awd: data.has_awd,
+            car_type: data.car_type,
+            status: 'active',
+            is_round_trip: false,
+          },
+        });
+
+        void geocodeSavedRides();
+        router.push('/community');
+        return;
+      }
+
       // Generate a client-side UUID for grouping round trips if needed
       const round_trip_group_id = data.is_round_trip ? crypto.randomUUID() : null;
 
@@ -54,7 +126,18 @@ export default function CreateRidePage() {
         title: data.title,
         start_location: data.start_location,
         end_location: data.end_location,
+        start_place_id: data.start_place_id ?? null,
+        end_place_id: data.end_place_id ?? null,
+        start_community_place_id: data.start_community_place_id ?? null,
+        end_community_place_id: data.end_community_place_id ?? null,
+        start_lat: data.start_lat ?? null,
+        start_lng: data.start_lng ?? null,
+        end_lat: data.end_lat ?? null,
+        end_lng: data.end_lng ?? null,
+        pricing_type: data.pricing_type,
         price_per_seat: data.price_per_seat,
+        gas_estimate: data.gas_estimate,
+        cost_breakdown: data.cost_breakdown,
         total_seats: data.total_seats,
         available_seats: data.posting_type === 'driver' ? data.total_seats : null,
         description: data.description,
@@ -65,6 +148,7 @@ export default function CreateRidePage() {
         is_round_trip: data.is_round_trip,
         round_trip_group_id,
         is_recurring: false, // Default for now
+        event_id: linkedEvent?.id ?? null,
       };
 
       const ridesToInsert = [];
@@ -83,6 +167,14 @@ export default function CreateRidePage() {
           ...commonData,
           start_location: data.end_location, // Swap locations
           end_location: data.start_location,
+          start_place_id: commonData.end_place_id,
+          end_place_id: commonData.start_place_id,
+          start_community_place_id: commonData.end_community_place_id,
+          end_community_place_id: commonData.start_community_place_id,
+          start_lat: commonData.end_lat,
+          start_lng: commonData.end_lng,
+          end_lat: commonData.start_lat,
+          end_lng: commonData.start_lng,
           departure_date: data.return_date,
           departure_time: data.return_time,
           trip_direction: 'return',
@@ -93,6 +185,8 @@ export default function CreateRidePage() {
 
       if (insertError) throw insertError;
 
+      // Put the new ride(s) on the map without holding up navigation
+      void geocodeSavedRides();
       router.push('/community');
     } catch (err) {
       console.error('Error creating ride:', err);
@@ -131,7 +225,28 @@ export default function CreateRidePage() {
             </div>
           )}
 
+          {linkedEvent && (
+            <div className="mb-6 flex flex-wrap items-center justify-between gap-2 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 text-blue-800 dark:text-blue-200 px-4 py-3 rounded-lg text-sm">
+              <span>
+                Carpool for{' '}
+                <Link href={`/events/${linkedEvent.id}`} className="font-medium hover:underline">
+                  {linkedEvent.title}
+                </Link>
+                . One-time rides are listed on the event page; recurring rides aren&apos;t linked.
+              </span>
+              <button
+                type="button"
+                onClick={() => setLinkToEvent(false)}
+                className="font-medium hover:underline"
+              >
+                Unlink
+              </button>
+            </div>
+          )}
+
           <RideForm
+            // Remount once the event loads so its details prefill the form
+            key={event?.id ?? 'blank'}
             initialData={{
               posting_type: 'driver',
               start_location: '',
@@ -143,12 +258,14 @@ export default function CreateRidePage() {
               description: '',
               special_instructions: '',
               has_awd: false,
+              ...(event ? eventRideDefaults(event) : {}),
             }}
             onSave={handleSave}
             onCancel={() => router.back()}
             isLoading={saving}
             isEditing={false}
             vehicles={vehicles}
+            communityPlaces={communityPlaces}
           />
         </div>
       </div>
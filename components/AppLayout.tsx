@@ -14,6 +14,7 @@ interface PendingReview {
   meeting_id: string;
   booking_id: string;
   other_participant_name: string;
+  other_participant_role: 'driver' | 'passenger';
   meeting_title: string;
   [key: string]: unknown;
 }
@@ -33,6 +33,10 @@ jest.mock('@/hooks/useUnreadMessages', () => ({
   useUnreadMessages: jest.fn(),
 }));
 
+jest.mock('@/hooks/useUnreadNotifications', () => ({
+  useUnreadNotifications: jest.fn(),
+}));
+
 jest.mock('@/config', () => ({
   appName: 'RideShareTahoe',
 }));
@@ -68,6 +72,8 @@ const mockedUseSearchParams = useSearchParams as jest.Mock;
 const mockedUseUser = useUser as jest.Mock;
 import { useUnreadMessages } from '@/hooks/useUnreadMessages';
 const mockedUseUnreadMessages = useUnreadMessages as jest.Mock;
+import { useUnreadNotifications } from '@/hooks/useUnreadNotifications';
+const mockedUseUnreadNotifications = useUnreadNotifications as jest.Mock;
 
 describe('LoggedInNav', () => {
   let mockedSignOut: jest.Mock;
@@ -87,6 +93,11 @@ describe('LoggedInNav', () => {
       loading: false,
       hasUnreadMessages: false,
     });
+    mockedUseUnreadNotifications.mockReturnValue({
+      unreadCount: 0,
+      loading: false,
+      hasUnreadNotifications: false,
+    });
     mockedUsePathname.mockReturnValue('/');
     mockedUseSearchParams.mockReturnValue(new URLSearchParams());
 
@@ -264,4 +275,18 @@ describe('LoggedInNav', () => {
     renderWithProviders(<LoggedInNav />);
     expect(screen.queryByTestId('messages-unread-badge')).toBeNull();
   });
+
+  test('shows the unread notification count on the bell', () => {
+    mockedUseUnreadNotifications.mockReturnValue({
+      unreadCount: 3,
+      loading: false,
+      hasUnreadNotifications: true,
+    });
+    renderWithProviders(<LoggedInNav />);
+
+    expect(screen.getAllByRole('button', { name: 'Notifications' })).toHaveLength(2);
+    for (const badge of screen.getAllByTestId('notifications-unread-badge')) {
+      expect(badge).toHaveTextContent('3');
+    }
+  });
 });
@@ -8,7 +8,9 @@ import { useUser } from '@/components/providers/SupabaseUserProvider';
 import config from '@/config';
 import dynamic from 'next/dynamic';
 import Badge from '@/components/ui/Badge';
+import NotificationBell from '@/components/NotificationBell';
 import { useUnreadMessages } from '@/hooks/useUnreadMessages';
+import { useUnreadNotifications } from '@/hooks/useUnreadNotifications';
 import { useUserProfile } from '@/hooks/useProfile';
 
 const ThemeToggle = dynamic(
@@ -39,6 +41,14 @@ const STATIC_ITEMS = [
     href: '/profile',
     label: 'Profile',
   },
+  {
+    href: '/rides/places',
+    label: 'Places',
+  },
+  {
+    href: '/events',
+    label: 'Events',
+  },
   {
     href: '/tahoe-transportation',
     label: 'Transit Guide',
@@ -47,7 +57,7 @@ const STATIC_ITEMS = [
 
 /**
  * Navigation bar for authenticated users.
- * Includes links to primary app sections, message notifications, and user menu.
+ * Includes links to primary app sections, message and notification badges, and user menu.
  */
 const LoggedInNav = () => {
   const searchParams = useSearchParams();
@@ -55,6 +65,7 @@ const LoggedInNav = () => {
   const [isOpen, setIsOpen] = useState(false);
   const { signOut } = useUser();
   const { unreadCount, hasUnreadMessages } = useUnreadMessages();
+  const { unreadCount: unreadNotificationCount } = useUnreadNotifications();
   const { data: profile } = useUserProfile();
 
   const navigationItems = useMemo(() => {
@@ -118,8 +129,9 @@ const LoggedInNav = () => {
           </Link>
         </div>
 
-        {/* Burger button to open menu on small and medium screens */}
-        <div className="flex xl:hidden">
+        {/* Notifications and burger button to open menu on small and medium screens */}
+        <div className="flex items-center gap-6 xl:hidden">
+          <NotificationBell unreadCount={unreadNotificationCount} />
           <button
             type="button"
             className="-m-2.5 inline-flex items-center justify-center rounded-md p-2.5 text-slate-300 hover:text-white"
@@ -172,6 +184,7 @@ const LoggedInNav = () => {
 
         {/* Sign out button on extra large screens */}
         <div className="hidden xl:flex xl:justify-end xl:flex-1 xl:items-center xl:gap-4">
+          <NotificationBell unreadCount={unreadNotificationCount} />
           <ThemeToggle />
           <button
             onClick={handleSignOut}
@@ -0,0 +1,136 @@
+import React, { AnchorHTMLAttributes } from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import NotificationBell from './NotificationBell';
+
+jest.mock(
+  'next/link',
+  () =>
+    function Link({
+      href,
+      children,
+      ...props
+    }: React.PropsWithChildren<AnchorHTMLAttributes<HTMLAnchorElement>>) {
+      return (
+        <a
+          href={href}
+          {...props}
+          onClick={(event) => {
+            event.preventDefault();
+            props.onClick?.(event);
+          }}
+        >
+          {children}
+        </a>
+      );
+    }
+);
+
+const notifications = [
+  {
+    id: 'n-1',
+    type: 'booking_requested',
+    title: 'New ride request',
+    body: 'Dana requested a seat on your ride to Tahoe.',
+    data: { conversation_id: 'convo-1' },
+    read_at: null,
+    created_at: '2026-02-05T12:00:00Z',
+  },
+  {
+    id: 'n-2',
+    type: 'review_received',
+    title: 'You have a new review',
+    body: null,
+    data: {},
+    read_at: '2026-02-05T11:30:00Z',
+    created_at: '2026-02-05T11:00:00Z',
+  },
+];
+
+describe('NotificationBell', () => {
+  const originalFetch = globalThis.fetch;
+  let mockFetch: jest.Mock;
+
+  beforeEach(() => {
+    mockFetch = jest.fn((_url: string, init?: RequestInit) =>
+      Promise.resolve({
+        ok: true,
+        json: () =>
+          Promise.resolve(init?.method === 'PATCH' ? { success: true } : { notifications }),
+      })
+    );
+    globalThis.fetch = mockFetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('shows the unread count and hides it when there is none', () => {
+    const { rerender } = render(<NotificationBell unreadCount={120} />);
+    expect(screen.getByTestId('notifications-unread-badge')).toHaveTextContent('99+');
+
+    rerender(<NotificationBell unreadCount={0} />);
+    expect(screen.queryByTestId('notifications-unread-badge')).toBeNull();
+  });
+
+  it('loads the latest notifications with links when opened', async () => {
+    const user = userEvent.setup();
+    render(<NotificationBell unreadCount={1} />);
+
+    await user.click(screen.getByRole('button', { name: 'Notifications' }));
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/notifications?limit=10');
+    expect(await screen.findByRole('link', { name: /New ride request/ })).toHaveAttribute(
+      'href',
+      '/messages?conversation=convo-1'
+    );
+    expect(screen.getByRole('link', { name: /You have a new review/ })).toHaveAttribute(
+      'href',
+      '/profile'
+    );
+  });
+
+  it('marks a notification read when it is followed', async () => {
+    const user = userEvent.setup();
+    render(<NotificationBell unreadCount={1} />);
+
+    await user.click(screen.getByRole('button', { name: 'Notifications' }));
+    await user.click(await screen.findByRole('link', { name: /New ride request/ }));
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      '/api/notifications',
+      expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ ids: ['n-1'] }) })
+    );
+    expect(screen.queryByRole('link', { name: /New ride request/ })).toBeNull();
+  });
+
+  it('marks every notification read', async () => {
+    const user = userEvent.setup();
+    render(<NotificationBell unreadCount={1} />);
+
+    await user.click(screen.getByRole('button', { name: 'Notifications' }));
+    await screen.findByRole('link', { name: /New ride request/ });
+    await user.click(screen.getByRole('button', { name: 'Mark all as read' }));
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      '/api/notifications',
+      expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ all: true }) })
+    );
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Mark all as read' })).toBeDisabled();
+    });
+  });
+
+  it('closes on Escape', async () => {
+    const user = userEvent.setup();
+    render(<NotificationBell unreadCount={0} />);
+
+    await user.click(screen.getByRole('button', { name: 'Notifications' }));
+    expect(await screen.findByText('Mark all as read')).toBeInTheDocument();
+
+    await user.keyboard('{Escape}');
+
+    expect(screen.queryByText('Mark all as read')).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useRef, useState } from 'react';
+import Badge from '@/components/ui/Badge';
+import { getNotificationLink, type AppNotification } from '@/libs/notifications';
+
+const DROPDOWN_LIMIT = 10;
+
+interface NotificationBellProps {
+  unreadCount: number;
+}
+
+const markRead = (body: { ids: string[] } | { all: true }) =>
+  fetch('/api/notifications', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    // The request still completes if the click navigates away
+    keepalive: true,
+  });
+
+/**
+ * Bell in the nav with the unread notification count. Opening it loads the
+ * latest notifications; each links to what it is about and is marked read
+ * when followed.
+ *
+ * @param props.unreadCount - Unread notifications, from `useUnreadNotifications`.
+ */
+export default function NotificationBell({ unreadCount }: Readonly<NotificationBellProps>) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const loadNotifications = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/notifications?limit=${DROPDOWN_LIMIT}`);
+      if (!response.ok) throw new Error('Failed to load notifications');
+      const json = await response.json();
+      setNotifications(json.notifications ?? []);
+    } catch (loadError) {
+      console.error('Error loading notifications:', loadError);
+      setError('Could not load notifications.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = () => {
+    if (!isOpen) loadNotifications();
+    setIsOpen(!isOpen);
+  };
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    setIsOpen(false);
+    if (notification.read_at) return;
+
+    setNotifications((current) =>
+      current.map((item) =>
+        item.id === notification.id ? { ...item, read_at: new Date().toISOString() } : item
+      )
+    );
+    markRead({ ids: [notification.id] }).catch((markError) => {
+      console.error('Error marking notification read:', markError);
+    });
+  };
+
+  const handleMarkAllRead = async () => {
+    const readAt = new Date().toISOString();
+    setNotifications((current) =>
+      current.map((item) => ({ ...item, read_at: item.read_at ?? readAt }))
+    );
+    try {
+      const response = await markRead({ all: true });
+      if (!response.ok) throw new Error('Failed to mark notifications read');
+    } catch (markError) {
+      console.error('Error marking notifications read:', markError);
+      setError('Could not mark notifications as read.');
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        className="relative -m-2.5 inline-flex items-center justify-center rounded-md p-2.5 text-slate-300 hover:text-white"
+        onClick={handleToggle}
+        aria-label="Notifications"
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          fill="none"
+          viewBox="0 0 24 24"
+          strokeWidth={1.5}
+          stroke="currentColor"
+          className="w-6 h-6"
+          aria-hidden="true"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            d="M14.857 17.082a23.848 23.848 0 005.454-1.31A8.967 8.967 0 0118 9.75V9A6 6 0 006 9v.75a8.967 8.967 0 01-2.312 6.022c1.733.64 3.56 1.085 5.455 1.31m5.714 0a24.255 24.255 0 01-5.714 0m5.714 0a3 3 0 11-5.714 0"
+          />
+        </svg>
+        {unreadCount > 0 && (
+          <Badge
+            variant="red"
+            data-testid="notifications-unread-badge"
+            className="absolute top-0.5 right-0.5 px-1.5 py-0.5 text-[10px] leading-none min-w-5 justify-center"
+          >
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </Badge>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-50 mt-3 w-80 max-w-[calc(100vw-2rem)] rounded-lg border border-white/10 bg-slate-900 text-white shadow-xl">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+            <h2 className="text-sm font-semibold">Notifications</h2>
+            <button
+              type="button"
+              className="text-xs text-slate-300 hover:text-white disabled:opacity-50"
+              onClick={handleMarkAllRead}
+              disabled={notifications.every((notification) => notification.read_at)}
+            >
+              Mark all as read
+            </button>
+          </div>
+
+          {loading && <p className="px-4 py-6 text-sm text-center text-slate-400">Loading...</p>}
+          {!loading && error && (
+            <p className="px-4 py-6 text-sm text-center text-red-300">{error}</p>
+          )}
+          {!loading && !error && notifications.length === 0 && (
+            <p className="px-4 py-6 text-sm text-center text-slate-400">
+              You&apos;re all caught up.
+            </p>
+          )}
+          {!loading && notifications.length > 0 && (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-white/5">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <Link
+                    href={getNotificationLink(notification)}
+                    onClick={() => handleOpenNotification(notification)}
+                    className={`flex gap-3 px-4 py-3 text-sm hover:bg-white/5 ${
+                      notification.read_at ? 'text-slate-400' : 'text-white'
+                    }`}
+                  >
+                    <span
+                      className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${
+                        notification.read_at ? 'bg-transparent' : 'bg-red-400'
+                      }`}
+                      aria-hidden="true"
+                    />
+                    <span className="min-w-0">
+                      <span className="block font-medium">{notification.title}</span>
+                      {notification.body && (
+                        <span className="block text-slate-400 line-clamp-2">
+                          {notification.body}
+                        </span>
+                      )}
+                      <span className="block mt-1 text-xs text-slate-500">
+                        {new Date(notification.created_at).toLocaleString()}
+                      </span>
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
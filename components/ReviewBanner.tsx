@@ -8,6 +8,7 @@ interface Review {
   booking_id: string;
   meeting_title: string;
   other_participant_name: string;
+  other_participant_role: 'driver' | 'passenger';
   [key: string]: unknown;
 }
 
@@ -0,0 +1,75 @@
+import { render, screen } from '@testing-library/react';
+import ReviewCategoryBreakdown from './ReviewCategoryBreakdown';
+import { useUserReviews } from '@/hooks/useReviews';
+
+jest.mock('@/hooks/useReviews', () => ({
+  useUserReviews: jest.fn(),
+}));
+
+const stats = (categoryAverages: unknown) => ({
+  data: {
+    reviews: [],
+    stats: {
+      averageRating: 4.5,
+      reviewCount: 3,
+      ratingDistribution: { 4: 1, 5: 2 },
+      categoryAverages,
+    },
+  },
+});
+
+describe('ReviewCategoryBreakdown', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows category averages for each role the user has been reviewed in', () => {
+    (useUserReviews as jest.Mock).mockReturnValue(
+      stats({
+        driver: {
+          reviewCount: 2,
+          averages: {
+            punctuality: 4.5,
+            driving_safety: 5,
+            vehicle_condition: 3.5,
+            communication: 4,
+          },
+        },
+        passenger: { reviewCount: 1, averages: { punctuality: 3, respectfulness: 5, payment: 5 } },
+      })
+    );
+
+    render(<ReviewCategoryBreakdown profileId="user-123" />);
+
+    expect(useUserReviews).toHaveBeenCalledWith('user-123', true);
+    expect(screen.getByText('As a driver')).toBeInTheDocument();
+    expect(screen.getByText('(2 reviews)')).toBeInTheDocument();
+    expect(screen.getByText('Driving safety')).toBeInTheDocument();
+    expect(screen.getByText('3.5')).toBeInTheDocument();
+    expect(screen.getByText('As a passenger')).toBeInTheDocument();
+    expect(screen.getByText('(1 review)')).toBeInTheDocument();
+    expect(screen.getByText('Respectfulness')).toBeInTheDocument();
+  });
+
+  it('leaves out roles without category ratings', () => {
+    (useUserReviews as jest.Mock).mockReturnValue(
+      stats({
+        driver: { reviewCount: 0, averages: {} },
+        passenger: { reviewCount: 1, averages: { punctuality: 3, respectfulness: 5, payment: 5 } },
+      })
+    );
+
+    render(<ReviewCategoryBreakdown profileId="user-123" />);
+
+    expect(screen.queryByText('As a driver')).not.toBeInTheDocument();
+    expect(screen.getByText('As a passenger')).toBeInTheDocument();
+  });
+
+  it('renders nothing before any categories have been rated', () => {
+    (useUserReviews as jest.Mock).mockReturnValue(stats(undefined));
+
+    const { container } = render(<ReviewCategoryBreakdown profileId="user-123" />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,104 @@
+'use client';
+
+// #region Imports
+
+import React, { type ReactElement } from 'react';
+import { useUserReviews } from '@/hooks/useReviews';
+import { REVIEW_CATEGORIES, REVIEW_CATEGORY_LABELS, type ReviewRole } from '@/libs/reviews';
+
+// #endregion
+
+// #region Type Definitions
+
+/**
+ * @description Defines the props accepted by the ReviewCategoryBreakdown component.
+ */
+interface ReviewCategoryBreakdownProps {
+  /**
+   * @description The ID of the profile to show category averages for.
+   */
+  profileId: string;
+}
+
+// #endregion
+
+// #region Constants
+
+const ROLE_HEADINGS: Record<ReviewRole, string> = {
+  driver: 'As a driver',
+  passenger: 'As a passenger',
+};
+
+// #endregion
+
+// #region Component
+
+/**
+ * @description Shows a user's average score in each review category, split by
+ * reviews of them as a driver and as a passenger. Roles nobody has rated yet
+ * are left out.
+ * @param {ReviewCategoryBreakdownProps} props - Component props.
+ * @returns {ReactElement | null} The rendered breakdown, or null when there is nothing to show.
+ */
+const ReviewCategoryBreakdown = React.memo(
+  ({ profileId }: ReviewCategoryBreakdownProps): ReactElement | null => {
+    // Same query as the full review list, so the stats are shared
+    const { data } = useUserReviews(profileId, true);
+
+    const categoryAverages = data?.stats.categoryAverages;
+    const roles = (['driver', 'passenger'] as const).filter(
+      (role) => (categoryAverages?.[role].reviewCount ?? 0) > 0
+    );
+
+    if (!categoryAverages || roles.length === 0) {
+      return null;
+    }
+
+    return (
+      <div className="grid gap-6 sm:grid-cols-2 mb-6">
+        {roles.map((role) => (
+          <section key={role} aria-label={ROLE_HEADINGS[role]}>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+              {ROLE_HEADINGS[role]}{' '}
+              <span className="font-normal text-gray-500 dark:text-gray-400">
+                ({categoryAverages[role].reviewCount}{' '}
+                {categoryAverages[role].reviewCount === 1 ? 'review' : 'reviews'})
+              </span>
+            </h3>
+            <dl className="space-y-2">
+              {REVIEW_CATEGORIES[role].map((category) => {
+                const average = categoryAverages[role].averages[category];
+                if (average === undefined) return null;
+
+                return (
+                  <div key={category} className="flex items-center text-sm">
+                    <dt className="w-36 text-gray-600 dark:text-gray-300">
+                      {REVIEW_CATEGORY_LABELS[category]}
+                    </dt>
+                    <dd className="flex flex-1 items-center">
+                      <div className="flex-1 bg-gray-200 dark:bg-gray-700 rounded-full h-2 mr-2">
+                        <div
+                          className="bg-yellow-400 h-2 rounded-full"
+                          style={{ width: `${(average / 5) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-8 text-right text-gray-700 dark:text-gray-200">
+                        {average.toFixed(1)}
+                      </span>
+                    </dd>
+                  </div>
+                );
+              })}
+            </dl>
+          </section>
+        ))}
+      </div>
+    );
+  }
+);
+
+ReviewCategoryBreakdown.displayName = 'ReviewCategoryBreakdown';
+
+export default ReviewCategoryBreakdown;
+
+// #endregion
@@ -20,9 +20,16 @@ const mockPendingReview = {
   meeting_id: '1',
   booking_id: '1',
   other_participant_name: 'John Doe',
+  other_participant_role: 'driver' as const,
   meeting_title: 'Ride Share',
 };
 
+const rateAllCategories = (stars: number) => {
+  for (const label of ['Punctuality', 'Driving safety', 'Vehicle condition', 'Communication']) {
+    fireEvent.click(screen.getByLabelText(`${label}: ${stars} stars`));
+  }
+};
+
 describe('ReviewModal', () => {
   beforeEach(() => {
     (globalThis.fetch as jest.Mock).mockClear();
@@ -43,6 +50,7 @@ describe('ReviewModal', () => {
     expect(screen.getByText('Leave a Review')).toBeInTheDocument();
     expect(screen.getByText(/How was your meeting with/)).toBeInTheDocument();
     expect(screen.getByText('John Doe')).toBeInTheDocument();
+    expect(screen.getByText(/stays private until John Doe leaves theirs/)).toBeInTheDocument();
   });
 
   it('does not render the modal when isOpen is false', () => {
@@ -76,6 +84,32 @@ describe('ReviewModal', () => {
     expect(screen.getByText('Submit Review')).toBeDisabled();
   });
 
+  it('asks for the categories of the role being reviewed before submitting', () => {
+    render(
+      <ReviewModal
+        isOpen={true}
+        onClose={mockOnClose}
+        pendingReview={{ ...mockPendingReview, other_participant_role: 'passenger' }}
+        onReviewSubmitted={mockOnReviewSubmitted}
+      />
+    );
+
+    expect(screen.getByText('Respectfulness *')).toBeInTheDocument();
+    expect(screen.getByText('Payment *')).toBeInTheDocument();
+    expect(screen.queryByText('Driving safety *')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getAllByText('★')[4]); // 5 stars
+    fireEvent.change(screen.getByPlaceholderText(/Share your experience/), {
+      target: { value: 'This was a great experience, really enjoyed it.' },
+    });
+    expect(screen.getByText('Submit Review')).toBeDisabled();
+
+    for (const label of ['Punctuality', 'Respectfulness', 'Payment']) {
+      fireEvent.click(screen.getByLabelText(`${label}: 5 stars`));
+    }
+    expect(screen.getByText('Submit Review')).toBeEnabled();
+  });
+
   it('submits the form successfully with valid data', async () => {
     (globalThis.fetch as jest.Mock).mockResolvedValueOnce({
       ok: true,
@@ -92,6 +126,7 @@ describe('ReviewModal', () => {
     );
 
     fireEvent.click(screen.getAllByText('★')[4]); // 5 stars
+    rateAllCategories(4);
     fireEvent.change(screen.getByPlaceholderText(/Share your experience/), {
       target: { value: 'This was a great experience, really enjoyed it.' },
     });
@@ -107,6 +142,12 @@ describe('ReviewModal', () => {
         body: JSON.stringify({
           bookingId: '1',
           rating: 5,
+          categoryRatings: {
+            punctuality: 4,
+            driving_safety: 4,
+            vehicle_condition: 4,
+            communication: 4,
+          },
           comment: 'This was a great experience, really enjoyed it.',
         }),
       });
@@ -3,11 +3,19 @@
 import React, { useState } from 'react';
 
 import { type Review } from '@/hooks/useReviews';
+import {
+  REVIEW_CATEGORIES,
+  REVIEW_CATEGORY_LABELS,
+  REVIEW_REVEAL_WINDOW_DAYS,
+  type CategoryRatings,
+  type ReviewRole,
+} from '@/libs/reviews';
 
 interface PendingReview {
   meeting_id: string;
   booking_id: string;
   other_participant_name: string;
+  other_participant_role: ReviewRole;
   meeting_title: string;
   [key: string]: unknown;
 }
@@ -27,10 +35,15 @@ export default function ReviewModal({
   onReviewSubmitted,
 }: ReviewModalProps) {
   const [rating, setRating] = useState(0);
+  const [categoryRatings, setCategoryRatings] = useState<CategoryRatings>({});
   const [comment, setComment] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
 
+  // Drivers and passengers are rated on different categories
+  const categories = pendingReview ? REVIEW_CATEGORIES[pendingReview.other_participant_role] : [];
+  const allCategoriesRated = categories.every((category) => !!categoryRatings[category]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -44,6 +57,11 @@ export default function ReviewModal({
       return;
     }
 
+    if (!allCategoriesRated) {
+      setError('Please rate every category');
+      return;
+    }
+
     if (comment.trim().split(/\s+/).filter(Boolean).length < 5) {
       setError('Comment must be at least 5 words');
       return;
@@ -61,6 +79,7 @@ export default function ReviewModal({
         body: JSON.stringify({
           bookingId: pendingReview.booking_id,
           rating,
+          categoryRatings,
           comment: comment.trim(),
         }),
       });
@@ -74,6 +93,7 @@ export default function ReviewModal({
 
       // Reset form
       setRating(0);
+      setCategoryRatings({});
       setComment('');
 
       // Notify parent component
@@ -93,6 +113,7 @@ export default function ReviewModal({
 
   const handleClose = () => {
     setRating(0);
+    setCategoryRatings({});
     setComment('');
     setError('');
     onClose();
@@ -134,6 +155,10 @@ export default function ReviewModal({
               <span className="font-medium">{pendingReview.other_participant_name}</span>?
             </p>
             <p className="text-sm text-gray-500">Meeting: {pendingReview.meeting_title}</p>
+            <p className="text-xs text-gray-500 mt-2">
+              Your review stays private until {pendingReview.other_participant_name} leaves theirs
+              or {REVIEW_REVEAL_WINDOW_DAYS} days pass, then both are shown at once.
+            </p>
           </div>
 
           <form onSubmit={handleSubmit}>
@@ -166,6 +191,34 @@ export default function ReviewModal({
               )}
             </fieldset>
 
+            {/* Category Ratings */}
+            {categories.map((category) => (
+              <fieldset key={category} className="mb-3">
+                <legend className="block text-sm text-gray-700 mb-1">
+                  {REVIEW_CATEGORY_LABELS[category]} *
+                </legend>
+                <div className="flex space-x-1">
+                  {[1, 2, 3, 4, 5].map((star) => (
+                    <button
+                      key={star}
+                      type="button"
+                      onClick={() =>
+                        setCategoryRatings((current) => ({ ...current, [category]: star }))
+                      }
+                      className={`text-xl transition-colors ${
+                        star <= (categoryRatings[category] ?? 0)
+                          ? 'text-yellow-400'
+                          : 'text-gray-300 hover:text-yellow-300'
+                      }`}
+                      aria-label={`${REVIEW_CATEGORY_LABELS[category]}: ${star} star${star === 1 ? '' : 's'}`}
+                    >
+                      ★
+                    </button>
+                  ))}
+                </div>
+              </fieldset>
+            ))}
+
             {/* Comment */}
             <div className="mb-4">
               <label htmlFor="comment" className="block text-sm font-medium text-gray-700 mb-2">
@@ -212,6 +265,7 @@ export default function ReviewModal({
                 disabled={
                   isSubmitting ||
                   rating === 0 ||
+                  !allCategoriesRated ||
                   comment.trim().split(/\s+/).filter(Boolean).length < 5
                 }
                 className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-hidden focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
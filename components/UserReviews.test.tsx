@@ -1,17 +1,40 @@
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import UserReviews from './UserReviews';
-import { useUserReviews } from '@/hooks/useReviews';
+import { useDisputeReview, useRespondToReview, useUserReviews } from '@/hooks/useReviews';
+import { useUser } from '@/components/providers/SupabaseUserProvider';
 
 // Mock useReviews
 jest.mock('@/hooks/useReviews', () => ({
   useUserReviews: jest.fn(),
+  useRespondToReview: jest.fn(),
+  useDisputeReview: jest.fn(),
 }));
 
+jest.mock('@/components/providers/SupabaseUserProvider', () => ({
+  useUser: jest.fn(),
+}));
+
+const mockRespond = jest.fn();
+const mockDispute = jest.fn();
+
 describe('UserReviews', () => {
   const mockProfileId = 'user-123';
 
   beforeEach(() => {
     jest.clearAllMocks();
+    (useUser as jest.Mock).mockReturnValue({ user: { id: 'viewer-1' } });
+    (useRespondToReview as jest.Mock).mockReturnValue({
+      mutate: mockRespond,
+      reset: jest.fn(),
+      isPending: false,
+      error: null,
+    });
+    (useDisputeReview as jest.Mock).mockReturnValue({
+      mutate: mockDispute,
+      reset: jest.fn(),
+      isPending: false,
+      error: null,
+    });
   });
 
   it('renders loading state', () => {
@@ -115,4 +138,75 @@ describe('UserReviews', () => {
     const counts = screen.getAllByText('1');
     expect(counts.length).toBeGreaterThanOrEqual(2); // One for 5 stars, one for 4 stars
   });
+
+  describe('replies and disputes', () => {
+    const review = {
+      id: 'review-1',
+      reviewee_id: mockProfileId,
+      rating: 2,
+      created_at: '2023-01-01',
+      comment: 'Showed up late and was rude.',
+      reviewee: { first_name: 'Sam', last_name: 'Lee', profile_photo_url: null },
+    };
+    const stats = { averageRating: 2, reviewCount: 1, ratingDistribution: { 2: 1 } };
+
+    const renderWith = (reviewOverrides: Record<string, unknown>) => {
+      (useUserReviews as jest.Mock).mockReturnValue({
+        data: { reviews: [{ ...review, ...reviewOverrides }], stats },
+        isLoading: false,
+        error: null,
+      });
+      render(<UserReviews profileId={mockProfileId} />);
+    };
+
+    it('shows the reviewee’s reply to everyone', () => {
+      renderWith({ response: { body: 'Traffic on 80 was stopped.', created_at: '2023-01-02' } });
+
+      expect(screen.getByText('Response from Sam')).toBeInTheDocument();
+      expect(screen.getByText('Traffic on 80 was stopped.')).toBeInTheDocument();
+      expect(screen.queryByText('Reply')).not.toBeInTheDocument();
+      expect(screen.queryByText('Dispute')).not.toBeInTheDocument();
+    });
+
+    it('lets the reviewee reply once', () => {
+      (useUser as jest.Mock).mockReturnValue({ user: { id: mockProfileId } });
+      renderWith({});
+
+      fireEvent.click(screen.getByText('Reply'));
+      fireEvent.change(screen.getByLabelText(/can only be posted once/), {
+        target: { value: 'Sorry, the chain control held us up.' },
+      });
+      fireEvent.click(screen.getByText('Post reply'));
+
+      expect(mockRespond).toHaveBeenCalledWith(
+        { reviewId: 'review-1', body: 'Sorry, the chain control held us up.' },
+        expect.any(Object)
+      );
+    });
+
+    it('lets the reviewee dispute a review', () => {
+      (useUser as jest.Mock).mockReturnValue({ user: { id: mockProfileId } });
+      renderWith({});
+
+      fireEvent.click(screen.getByText('Dispute'));
+      expect(screen.getByText('Send dispute')).toBeDisabled();
+      fireEvent.change(screen.getByLabelText(/keep or hide it/), {
+        target: { value: 'We never actually rode together.' },
+      });
+      fireEvent.click(screen.getByText('Send dispute'));
+
+      expect(mockDispute).toHaveBeenCalledWith(
+        { reviewId: 'review-1', reason: 'We never actually rode together.' },
+        expect.any(Object)
+      );
+    });
+
+    it('shows an open dispute instead of the dispute button', () => {
+      (useUser as jest.Mock).mockReturnValue({ user: { id: mockProfileId } });
+      renderWith({ dispute: { status: 'pending' } });
+
+      expect(screen.getByText('Dispute under review')).toBeInTheDocument();
+      expect(screen.queryByText('Dispute')).not.toBeInTheDocument();
+    });
+  });
 });
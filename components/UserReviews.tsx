@@ -2,8 +2,14 @@
 
 // #region Imports
 
-import React, { type ReactElement } from 'react';
-import { useUserReviews } from '@/hooks/useReviews';
+import React, { useState, type ReactElement } from 'react';
+import { useUser } from '@/components/providers/SupabaseUserProvider';
+import {
+  useDisputeReview,
+  useRespondToReview,
+  useUserReviews,
+  type Review,
+} from '@/hooks/useReviews';
 
 // #endregion
 
@@ -63,6 +69,133 @@ const formatDate = (dateString: string): string => {
 
 // #endregion
 
+// #region Review Reply & Dispute
+
+/**
+ * @description Shows the reviewee's reply under a review. The reviewee also
+ * gets a one-time reply form and can dispute the review once.
+ * @param {{ review: Review; isReviewee: boolean }} props - The review and whether the viewer is its subject.
+ * @returns {ReactElement | null} The reply and actions, or null when there is nothing to show.
+ */
+const ReviewReplyAndDispute = ({
+  review,
+  isReviewee,
+}: {
+  review: Review;
+  isReviewee: boolean;
+}): ReactElement | null => {
+  const [mode, setMode] = useState<'reply' | 'dispute' | null>(null);
+  const [text, setText] = useState('');
+  const respond = useRespondToReview();
+  const dispute = useDisputeReview();
+  const mutation = mode === 'dispute' ? dispute : respond;
+
+  if (!review.response && !isReviewee) {
+    return null;
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const onSuccess = () => {
+      setMode(null);
+      setText('');
+    };
+
+    if (mode === 'reply') {
+      respond.mutate({ reviewId: review.id, body: text.trim() }, { onSuccess });
+    } else if (mode === 'dispute') {
+      dispute.mutate({ reviewId: review.id, reason: text.trim() }, { onSuccess });
+    }
+  };
+
+  const openForm = (nextMode: 'reply' | 'dispute') => {
+    setMode(nextMode);
+    setText('');
+    respond.reset();
+    dispute.reset();
+  };
+
+  return (
+    <div className="mt-3">
+      {review.response && (
+        <div className="border-l-2 border-gray-300 dark:border-gray-600 pl-3">
+          <div className="text-xs font-medium text-gray-600 dark:text-gray-400">
+            Response from {review.reviewee?.first_name || 'the member'}
+          </div>
+          <p className="text-sm text-gray-700 dark:text-gray-300">{review.response.body}</p>
+        </div>
+      )}
+
+      {isReviewee && mode === null && (
+        <div className="flex items-center space-x-3 text-xs mt-2">
+          {!review.response && (
+            <button
+              type="button"
+              onClick={() => openForm('reply')}
+              className="text-blue-600 hover:underline"
+            >
+              Reply
+            </button>
+          )}
+          {review.dispute?.status === 'pending' && (
+            <span className="text-gray-500 dark:text-gray-400">Dispute under review</span>
+          )}
+          {review.dispute?.status === 'kept' && (
+            <span className="text-gray-500 dark:text-gray-400">
+              Dispute reviewed: the review was kept
+            </span>
+          )}
+          {!review.dispute && (
+            <button
+              type="button"
+              onClick={() => openForm('dispute')}
+              className="text-red-600 hover:underline"
+            >
+              Dispute
+            </button>
+          )}
+        </div>
+      )}
+
+      {isReviewee && mode !== null && (
+        <form onSubmit={handleSubmit} className="mt-2 space-y-2">
+          <label className="block text-xs text-gray-600 dark:text-gray-400">
+            {mode === 'reply'
+              ? 'Your reply is public and can only be posted once.'
+              : 'Tell our team why this review is unfair. They will keep or hide it.'}
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={3}
+              maxLength={1000}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-black dark:text-white bg-white dark:bg-gray-700"
+            />
+          </label>
+          {mutation.error && <div className="text-red-600 text-xs">{mutation.error.message}</div>}
+          <div className="flex space-x-2 text-sm">
+            <button
+              type="submit"
+              disabled={mutation.isPending || text.trim().length < (mode === 'dispute' ? 10 : 1)}
+              className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {mode === 'reply' ? 'Post reply' : 'Send dispute'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setMode(null)}
+              className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+// #endregion
+
 // #region Component
 
 /**
@@ -74,6 +207,7 @@ const UserReviews = React.memo(({ profileId, showAll = false }: UserReviewsProps
   // #region Data Fetching
 
   const { data, isLoading, error } = useUserReviews(profileId, showAll);
+  const { user } = useUser();
 
   // #endregion
 
@@ -206,6 +340,10 @@ const UserReviews = React.memo(({ profileId, showAll = false }: UserReviewsProps
                 {/* Use optional chaining in case booking is null */}
                 Ride: {review.booking?.ride.start_location} → {review.booking?.ride.end_location}
               </div>
+              <ReviewReplyAndDispute
+                review={review}
+                isReviewee={!!user && user.id === review.reviewee_id}
+              />
             </div>
           ))}
         </div>
@@ -0,0 +1,187 @@
+'use client';
+
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import type { CommunityEvent, CommunityEventType } from '@/app/community/types';
+import { COMMUNITY_EVENT_TYPE_LABELS } from '@/libs/communityEvents';
+
+interface CreateEventFormProps {
+  // eslint-disable-next-line no-unused-vars
+  onSaved: (event: CommunityEvent) => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border border-gray-300 dark:border-slate-700 px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500 bg-white dark:bg-slate-800 text-gray-900 dark:text-white';
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300';
+
+/**
+ * Form for organizing a new community event.
+ */
+export default function CreateEventForm({ onSaved, onCancel }: Readonly<CreateEventFormProps>) {
+  const [title, setTitle] = useState('');
+  const [eventType, setEventType] = useState<CommunityEventType>('ski_day');
+  // `YYYY-MM-DDTHH:mm` in the organizer's local time
+  const [eventDate, setEventDate] = useState('');
+  const [location, setLocation] = useState('');
+  const [maxParticipants, setMaxParticipants] = useState(20);
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/community/events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title,
+          event_type: eventType,
+          event_date: new Date(eventDate).toISOString(),
+          location,
+          max_participants: maxParticipants,
+          description: description || null,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create event');
+      }
+
+      toast.success('Event created');
+      onSaved(data.event);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create event');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="event-title" className={labelClassName}>
+            Title
+          </label>
+          <input
+            id="event-title"
+            type="text"
+            required
+            minLength={3}
+            maxLength={120}
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className={inputClassName}
+            placeholder="e.g. First chair at Kirkwood"
+          />
+        </div>
+        <div>
+          <label htmlFor="event-type" className={labelClassName}>
+            Type
+          </label>
+          <select
+            id="event-type"
+            value={eventType}
+            onChange={(e) => setEventType(e.target.value as CommunityEventType)}
+            className={inputClassName}
+          >
+            {Object.entries(COMMUNITY_EVENT_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="event-date" className={labelClassName}>
+            Date &amp; Time
+          </label>
+          <input
+            id="event-date"
+            type="datetime-local"
+            required
+            value={eventDate}
+            onChange={(e) => setEventDate(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="event-max-participants" className={labelClassName}>
+            Spots
+          </label>
+          <input
+            id="event-max-participants"
+            type="number"
+            required
+            min={1}
+            max={500}
+            value={maxParticipants}
+            onChange={(e) => setMaxParticipants(Number(e.target.value))}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="event-location" className={labelClassName}>
+          Location
+        </label>
+        <input
+          id="event-location"
+          type="text"
+          required
+          minLength={3}
+          maxLength={200}
+          value={location}
+          onChange={(e) => setLocation(e.target.value)}
+          className={inputClassName}
+          placeholder="Where everyone meets"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="event-description" className={labelClassName}>
+          Description (Optional)
+        </label>
+        <textarea
+          id="event-description"
+          rows={3}
+          maxLength={2000}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className={inputClassName}
+          placeholder="What to bring, skill level, plans for après..."
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:bg-slate-800 dark:border-slate-700 dark:text-gray-300 dark:hover:bg-slate-700"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-blue-400"
+        >
+          {saving ? 'Creating...' : 'Create Event'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,253 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import type { CommunityEvent, EventCarpool, EventMember } from '@/app/community/types';
+import { COMMUNITY_EVENT_TYPE_LABELS, formatEventDate, spotsLeft } from '@/libs/communityEvents';
+import { formatDateLabel, formatTimeLabel } from '@/lib/dateFormat';
+import { sanitizeLocation } from '@/libs/sanitize/location';
+
+interface EventDetailProps {
+  eventId: string;
+  currentUserId: string;
+}
+
+const memberName = (member: EventMember | null | undefined) =>
+  member ? `${member.first_name ?? ''} ${member.last_name ?? ''}`.trim() || 'Member' : 'Member';
+
+/**
+ * A community event with its attendees and the carpools linked to it.
+ * Members RSVP here, and the organizer can cancel the event.
+ */
+export default function EventDetail({ eventId, currentUserId }: Readonly<EventDetailProps>) {
+  const [event, setEvent] = useState<CommunityEvent | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updating, setUpdating] = useState(false);
+
+  const fetchEvent = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/community/events/${eventId}`, {
+        credentials: 'include',
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(body.error || 'Failed to load event');
+        return;
+      }
+      setEvent(body.event);
+      setError(null);
+    } catch (fetchError) {
+      console.error(fetchError);
+      setError('Failed to load event');
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchEvent();
+  }, [fetchEvent]);
+
+  const handleRsvp = async (attending: boolean) => {
+    setUpdating(true);
+    try {
+      const response = await fetch(`/api/community/events/${eventId}/rsvp`, {
+        method: attending ? 'POST' : 'DELETE',
+        credentials: 'include',
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to update RSVP');
+      }
+      toast.success(attending ? "You're going!" : 'RSVP withdrawn');
+      await fetchEvent();
+    } catch (rsvpError) {
+      toast.error(rsvpError instanceof Error ? rsvpError.message : 'Failed to update RSVP');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleCancelEvent = async () => {
+    if (!globalThis.confirm('Cancel this event? Attendees will see it as cancelled.')) return;
+
+    setUpdating(true);
+    try {
+      const response = await fetch(`/api/community/events/${eventId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ status: 'cancelled' }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to cancel event');
+      }
+      toast.success('Event cancelled');
+      await fetchEvent();
+    } catch (cancelError) {
+      toast.error(cancelError instanceof Error ? cancelError.message : 'Failed to cancel event');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-gray-600 dark:text-gray-300">Loading event...</div>;
+  }
+
+  if (error || !event) {
+    return <p className="text-red-600 dark:text-red-400">{error ?? 'Event not found'}</p>;
+  }
+
+  const spots = spotsLeft(event);
+  const isOrganizer = event.organizer_id === currentUserId;
+  const isOpen = event.status === 'active' && new Date(event.event_date).getTime() > Date.now();
+  const participants = event.participants ?? [];
+  const carpools = event.carpools ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <h2 className="text-2xl font-semibold text-gray-900 dark:text-white">
+            {event.title}
+            {event.status === 'cancelled' && (
+              <span className="ml-2 align-middle inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200">
+                Cancelled
+              </span>
+            )}
+          </h2>
+          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200">
+            {COMMUNITY_EVENT_TYPE_LABELS[event.event_type]}
+          </span>
+        </div>
+        <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">
+          {formatEventDate(event.event_date)} · {event.location}
+        </p>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Organized by {memberName(event.organizer)}
+        </p>
+        {event.description && (
+          <p className="mt-3 whitespace-pre-line text-gray-700 dark:text-gray-200">
+            {event.description}
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm text-gray-700 dark:text-gray-300">
+          {event.current_participants} of {event.max_participants} going
+          {isOpen && spots === 0 && ' · Full'}
+        </span>
+        {isOpen && !event.is_attending && (
+          <button
+            type="button"
+            onClick={() => handleRsvp(true)}
+            disabled={updating || spots === 0}
+            className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-blue-400"
+          >
+            {spots === 0 ? 'Event Full' : "I'm Going"}
+          </button>
+        )}
+        {event.is_attending && (
+          <button
+            type="button"
+            onClick={() => handleRsvp(false)}
+            disabled={updating}
+            className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:bg-slate-800 dark:border-slate-700 dark:text-gray-300 dark:hover:bg-slate-700"
+          >
+            Can&apos;t Make It
+          </button>
+        )}
+        {isOrganizer && event.status === 'active' && (
+          <button
+            type="button"
+            onClick={handleCancelEvent}
+            disabled={updating}
+            className="text-sm font-medium text-red-600 dark:text-red-400 hover:underline"
+          >
+            Cancel Event
+          </button>
+        )}
+      </div>
+
+      <section>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Carpools</h3>
+          {isOpen && (
+            <Link
+              href={`/rides/post?event=${event.id}`}
+              className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+            >
+              Offer or Request a Ride
+            </Link>
+          )}
+        </div>
+        {carpools.length === 0 ? (
+          <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+            No rides linked to this event yet.
+          </p>
+        ) : (
+          <ul className="mt-2 space-y-2">
+            {carpools.map((ride) => (
+              <CarpoolRow key={ride.id} ride={ride} />
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Who&apos;s going</h3>
+        {participants.length === 0 ? (
+          <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">No one yet.</p>
+        ) : (
+          <ul className="mt-2 flex flex-wrap gap-2">
+            {participants.map((participant) => (
+              <li key={participant.id}>
+                <Link
+                  href={`/profile/${participant.id}`}
+                  className="inline-flex items-center rounded-full bg-gray-100 dark:bg-slate-800 px-3 py-1 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-slate-700"
+                >
+                  {memberName(participant)}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function CarpoolRow({ ride }: Readonly<{ ride: EventCarpool }>) {
+  const heading = ride.posting_type === 'passenger' ? 'Looking for a ride' : 'Offering a ride';
+
+  return (
+    <li className="border border-gray-200 dark:border-slate-700 rounded-lg p-3 bg-white dark:bg-slate-800 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="font-medium text-gray-900 dark:text-white">
+          {heading}
+          {ride.trip_direction === 'return' && ' home'}
+        </span>
+        <Link
+          href={`/profile/${ride.poster_id}`}
+          className="text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          View poster
+        </Link>
+      </div>
+      <p className="mt-1 text-gray-700 dark:text-gray-200">
+        {sanitizeLocation(ride.start_location)} → {sanitizeLocation(ride.end_location)}
+      </p>
+      <p className="text-gray-500 dark:text-gray-400">
+        {formatDateLabel(ride.departure_date)} {formatTimeLabel(ride.departure_time)}
+        {ride.posting_type === 'driver' &&
+          ride.available_seats !== null &&
+          ` · ${ride.available_seats} ${ride.available_seats === 1 ? 'seat' : 'seats'} left`}
+      </p>
+    </li>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import CreateEventForm from '@/components/events/CreateEventForm';
+import type { CommunityEvent, CommunityEventType } from '@/app/community/types';
+import { COMMUNITY_EVENT_TYPE_LABELS, formatEventDate, spotsLeft } from '@/libs/communityEvents';
+
+const TYPE_FILTERS: { value: CommunityEventType | 'all'; label: string }[] = [
+  { value: 'all', label: 'All events' },
+  ...(Object.entries(COMMUNITY_EVENT_TYPE_LABELS) as [CommunityEventType, string][]).map(
+    ([value, label]) => ({ value, label })
+  ),
+];
+
+/**
+ * Upcoming community events, soonest first. Members can filter by event type
+ * and organize new events.
+ */
+export default function EventDirectory() {
+  const [events, setEvents] = useState<CommunityEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [typeFilter, setTypeFilter] = useState<CommunityEventType | 'all'>('all');
+  const [showForm, setShowForm] = useState(false);
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    try {
+      const query = typeFilter === 'all' ? '' : `?event_type=${typeFilter}`;
+      const response = await fetch(`/api/community/events${query}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch events');
+      const data = await response.json();
+      setEvents(data.events || []);
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to load events');
+    } finally {
+      setLoading(false);
+    }
+  }, [typeFilter]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const handleSaved = () => {
+    setShowForm(false);
+    fetchEvents();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by event type">
+          {TYPE_FILTERS.map((filter) => (
+            <button
+              key={filter.value}
+              type="button"
+              onClick={() => setTypeFilter(filter.value)}
+              aria-pressed={typeFilter === filter.value}
+              className={`rounded-full px-3 py-1 text-sm font-medium transition-colors ${
+                typeFilter === filter.value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white dark:bg-slate-800 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-slate-700 hover:bg-gray-50 dark:hover:bg-slate-700'
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+        {!showForm && (
+          <button
+            type="button"
+            onClick={() => setShowForm(true)}
+            className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+          >
+            Organize an Event
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="rounded-lg border border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4">
+          <h2 className="mb-4 text-lg font-semibold text-gray-900 dark:text-white">
+            Organize an event
+          </h2>
+          <CreateEventForm onSaved={handleSaved} onCancel={() => setShowForm(false)} />
+        </div>
+      )}
+
+      {loading && <div className="text-gray-600 dark:text-gray-300">Loading events...</div>}
+
+      {!loading && events.length === 0 && (
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-slate-800/50 rounded-lg border border-dashed border-gray-300 dark:border-slate-700">
+          <p>No upcoming events.</p>
+          <p className="mt-2 text-sm">Planning a ski day or a hike? Organize it above.</p>
+        </div>
+      )}
+
+      {!loading && events.length > 0 && (
+        <ul className="space-y-4">
+          {events.map((event) => (
+            <EventCard key={event.id} event={event} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function EventCard({ event }: Readonly<{ event: CommunityEvent }>) {
+  const spots = spotsLeft(event);
+
+  return (
+    <li className="border border-gray-200 dark:border-slate-700 rounded-lg p-4 shadow-sm bg-white dark:bg-slate-800 transition-colors">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="font-semibold text-lg text-gray-900 dark:text-white">
+            <Link href={`/events/${event.id}`} className="hover:underline">
+              {event.title}
+            </Link>
+            {event.is_attending && (
+              <span className="ml-2 align-middle inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200">
+                Going
+              </span>
+            )}
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {formatEventDate(event.event_date)} · {event.location}
+          </p>
+        </div>
+        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200">
+          {COMMUNITY_EVENT_TYPE_LABELS[event.event_type]}
+        </span>
+      </div>
+
+      {event.description && (
+        <p className="mt-2 text-sm text-gray-700 dark:text-gray-200 line-clamp-2">
+          {event.description}
+        </p>
+      )}
+
+      <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">
+        {event.current_participants} going ·{' '}
+        {spots === 0 ? 'Full' : `${spots} ${spots === 1 ? 'spot' : 'spots'} left`}
+      </p>
+    </li>
+  );
+}
@@ -0,0 +1,61 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import LocationMap, { rideRouteMarkers, type MapMarker } from './Map';
+
+const TILE_URL = 'http://localhost:8080/tiles/{z}/{x}/{y}.png';
+
+const markers: MapMarker[] = [
+  { id: 'start', lat: 37.7749, lng: -122.4194, kind: 'start', label: 'Start: San Francisco' },
+  { id: 'end', lat: 38.9399, lng: -119.9772, kind: 'end', label: 'Destination: Tahoe' },
+];
+
+describe('LocationMap', () => {
+  it('loads tiles from the configured tile source', () => {
+    const { container } = render(<LocationMap markers={markers} tileUrl={TILE_URL} />);
+
+    const tiles = Array.from(container.querySelectorAll('img'));
+    expect(tiles.length).toBeGreaterThan(0);
+    for (const tile of tiles) {
+      expect(tile.getAttribute('src')).toMatch(
+        /^http:\/\/localhost:8080\/tiles\/\d+\/\d+\/\d+\.png$/
+      );
+    }
+  });
+
+  it('renders a pin for each marker', () => {
+    render(<LocationMap markers={markers} tileUrl={TILE_URL} />);
+
+    expect(screen.getByTitle('Start: San Francisco')).toBeInTheDocument();
+    expect(screen.getByTitle('Destination: Tahoe')).toBeInTheDocument();
+  });
+
+  it('zooms in when the zoom button is pressed', () => {
+    const { container } = render(<LocationMap markers={markers} tileUrl={TILE_URL} />);
+    const zoomOf = () => Number(container.querySelector('img')?.getAttribute('src')?.split('/')[4]);
+
+    const before = zoomOf();
+    fireEvent.click(screen.getByRole('button', { name: 'Zoom in' }));
+
+    expect(zoomOf()).toBe(before + 1);
+  });
+
+  it('renders nothing without markers', () => {
+    const { container } = render(<LocationMap markers={[]} tileUrl={TILE_URL} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
+
+describe('rideRouteMarkers', () => {
+  it('skips ends of the route without coordinates', () => {
+    expect(
+      rideRouteMarkers({
+        start_location: 'Oakland',
+        end_location: 'Kirkwood',
+        start_lat: 37.8,
+        start_lng: -122.27,
+        end_lat: null,
+        end_lng: null,
+      })
+    ).toEqual([{ id: 'start', lat: 37.8, lng: -122.27, kind: 'start', label: 'Start: Oakland' }]);
+  });
+});
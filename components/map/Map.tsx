@@ -1,75 +1,342 @@
 'use client';
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState, type PointerEvent } from 'react';
+import Image from 'next/image';
+import {
+  clampZoom,
+  clusterPoints,
+  DEFAULT_TILE_ATTRIBUTION,
+  DEFAULT_TILE_URL,
+  fitView,
+  latLngToWorld,
+  MAX_ZOOM,
+  milesPerPixel,
+  panView,
+  viewBounds,
+  viewportOrigin,
+  visibleTiles,
+  type MapBounds,
+  type MapView,
+} from '@/libs/mapTiles';
 
-interface LocationMapProps {
+export type MapMarkerKind = 'start' | 'end' | 'pickup' | 'approximate';
+
+export interface MapMarker {
+  id: string;
   lat: number;
   lng: number;
-  zoom?: number;
+  kind: MapMarkerKind;
+  label: string;
+  // Drawn as a shaded area of this radius instead of a pin ('approximate' markers)
+  radiusMiles?: number;
+}
+
+interface LocationMapProps {
+  markers: MapMarker[];
+  height?: number;
+  // Closest zoom used when fitting the markers, e.g. for a single pin
+  maxZoom?: number;
+  // `{z}/{x}/{y}` tile URL template; defaults to NEXT_PUBLIC_MAP_TILE_URL or OpenStreetMap
+  tileUrl?: string;
+  attribution?: string;
+  className?: string;
+  // Start here instead of fitting the markers, and keep the view as markers change
+  defaultView?: MapView;
+  // Merge pins that would overlap at the current zoom into numbered clusters
+  cluster?: boolean;
+  // eslint-disable-next-line no-unused-vars
+  onMarkerClick?: (markerId: string) => void;
+  // Called with the visible area whenever it changes; pass a stable callback
+  // eslint-disable-next-line no-unused-vars
+  onBoundsChange?: (bounds: MapBounds) => void;
 }
 
-const LocationMap = React.memo(({ lat, lng, zoom = 12 }: LocationMapProps) => {
-  const mapRef = useRef<HTMLDivElement>(null);
-
-  useEffect(() => {
-    if (!lat || !lng || !mapRef.current) return;
-
-    // For now, we'll create a simple map placeholder
-    // In a real implementation, you'd integrate with Google Maps, Mapbox, or similar
-    const mapContainer = mapRef.current;
-
-    // Create a simple map representation
-    mapContainer.textContent = `
-      <div style="
-        width: 100%;
-        height: 300px;
-        background: linear-gradient(45deg, #e5e7eb 25%, transparent 25%), 
-                    linear-gradient(-45deg, #e5e7eb 25%, transparent 25%), 
-                    linear-gradient(45deg, transparent 75%, #e5e7eb 75%), 
-                    linear-gradient(-45deg, transparent 75%, #e5e7eb 75%);
-        background-size: 20px 20px;
-        background-position: 0 0, 0 10px, 10px -10px, -10px 0px;
-        border: 2px solid #d1d5db;
-        border-radius: 8px;
-        display: flex;
-        align-items: center;
-        justify-content: center;
-        position: relative;
-      ">
-        <div style="
-          background: #3b82f6;
-          color: white;
-          padding: 8px 12px;
-          border-radius: 20px;
-          font-size: 14px;
-          font-weight: 500;
-          box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);
-        ">
-          📍 Your Location
+const FALLBACK_WIDTH = 640;
+
+type PinKind = Exclude<MapMarkerKind, 'approximate'>;
+
+const PIN_STYLES: Record<PinKind, string> = {
+  start: 'bg-green-600',
+  end: 'bg-red-600',
+  pickup: 'bg-blue-600',
+};
+
+const PIN_SYMBOLS: Record<PinKind, string> = {
+  start: 'A',
+  end: 'B',
+  pickup: '•',
+};
+
+/**
+ * Start and end pins for a ride, leaving out ends that haven't been geocoded.
+ */
+export function rideRouteMarkers(ride: {
+  start_location: string;
+  end_location: string;
+  start_lat?: number | null;
+  start_lng?: number | null;
+  end_lat?: number | null;
+  end_lng?: number | null;
+}): MapMarker[] {
+  const markers: MapMarker[] = [];
+  if (ride.start_lat != null && ride.start_lng != null) {
+    markers.push({
+      id: 'start',
+      lat: ride.start_lat,
+      lng: ride.start_lng,
+      kind: 'start',
+      label: `Start: ${ride.start_location}`,
+    });
+  }
+  if (ride.end_lat != null && ride.end_lng != null) {
+    markers.push({
+      id: 'end',
+      lat: ride.end_lat,
+      lng: ride.end_lng,
+      kind: 'end',
+      label: `Destination: ${ride.end_location}`,
+    });
+  }
+  return markers;
+}
+
+const markersKey = (markers: MapMarker[]) =>
+  markers.map((marker) => `${marker.id}:${marker.lat},${marker.lng}`).join('|');
+
+const ZOOM_BUTTON_CLASSES =
+  'h-8 w-8 bg-white dark:bg-slate-900 text-gray-800 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-slate-700';
+
+/**
+ * Slippy tile map showing ride endpoints, pickups and approximate areas.
+ * Drag to pan and use the buttons to zoom. The view starts fitted to the
+ * markers, or at `defaultView` for maps whose markers follow the view.
+ */
+const LocationMap = React.memo(
+  ({
+    markers,
+    height = 300,
+    maxZoom = 12,
+    tileUrl = DEFAULT_TILE_URL,
+    attribution = DEFAULT_TILE_ATTRIBUTION,
+    className = '',
+    defaultView,
+    cluster = false,
+    onMarkerClick,
+    onBoundsChange,
+  }: LocationMapProps) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ x: number; y: number } | null>(null);
+    const [width, setWidth] = useState(FALLBACK_WIDTH);
+    // Set once the user pans or zooms; tied to the markers it was made for
+    const [userView, setUserView] = useState<{ key: string; view: MapView } | null>(null);
+
+    const key = markersKey(markers);
+    let view: MapView | null;
+    if (defaultView) {
+      view = userView?.view ?? defaultView;
+    } else {
+      view = userView?.key === key ? userView.view : fitView(markers, width, height, { maxZoom });
+    }
+    // Nothing is rendered without a view, so measure again once there is one
+    const hasView = view !== null;
+
+    useEffect(() => {
+      const container = containerRef.current;
+      if (!container) return;
+
+      const measure = () => setWidth(container.clientWidth || FALLBACK_WIDTH);
+      measure();
+
+      if (typeof ResizeObserver === 'undefined') return;
+      const observer = new ResizeObserver(measure);
+      observer.observe(container);
+      return () => observer.disconnect();
+    }, [hasView]);
+
+    const bounds = view ? viewBounds(view, width, height) : null;
+    const north = bounds?.north;
+    const south = bounds?.south;
+    const east = bounds?.east;
+    const west = bounds?.west;
+
+    useEffect(() => {
+      if (!onBoundsChange || north === undefined) return;
+      onBoundsChange({ north, south: south!, east: east!, west: west! });
+    }, [onBoundsChange, north, south, east, west]);
+
+    if (!view) return null;
+    const currentView = view;
+
+    const updateView = (next: MapView) => setUserView({ key, view: next });
+
+    const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+      dragRef.current = { x: event.clientX, y: event.clientY };
+      event.currentTarget.setPointerCapture?.(event.pointerId);
+    };
+
+    const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      dragRef.current = { x: event.clientX, y: event.clientY };
+      updateView(panView(currentView, event.clientX - drag.x, event.clientY - drag.y));
+    };
+
+    const handlePointerUp = () => {
+      dragRef.current = null;
+    };
+
+    const zoomBy = (delta: number) =>
+      updateView({ ...currentView, zoom: clampZoom(currentView.zoom + delta) });
+
+    const origin = viewportOrigin(currentView, width, height);
+    const toScreen = (lat: number, lng: number) => {
+      const world = latLngToWorld({ lat, lng }, currentView.zoom);
+      return { x: world.x - origin.x, y: world.y - origin.y };
+    };
+
+    // Approximate areas are never clustered; they are drawn underneath the pins
+    const areas = markers.filter((marker) => marker.kind === 'approximate');
+    const pins = markers.filter((marker) => marker.kind !== 'approximate');
+    const clusters = cluster
+      ? clusterPoints(pins, currentView.zoom)
+      : pins.map((pin) => ({ key: pin.id, lat: pin.lat, lng: pin.lng, items: [pin] }));
+
+    const stopDrag = (event: PointerEvent<HTMLElement>) => event.stopPropagation();
+
+    return (
+      <div
+        ref={containerRef}
+        className={`relative w-full overflow-hidden rounded-lg border border-gray-200 dark:border-slate-700 bg-gray-100 dark:bg-slate-800 select-none touch-none cursor-grab ${className}`}
+        style={{ height }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        role="region"
+        aria-label="Map"
+      >
+        {visibleTiles(currentView, width, height, tileUrl).map((tile) => (
+          <Image
+            key={tile.key}
+            src={tile.url}
+            alt=""
+            width={256}
+            height={256}
+            draggable={false}
+            unoptimized
+            className="absolute max-w-none pointer-events-none"
+            style={{ left: tile.left, top: tile.top }}
+          />
+        ))}
+
+        {areas.map((marker) => {
+          const { x, y } = toScreen(marker.lat, marker.lng);
+          const radius = (marker.radiusMiles ?? 1) / milesPerPixel(marker.lat, currentView.zoom);
+          return (
+            <div
+              key={marker.id}
+              title={marker.label}
+              aria-label={marker.label}
+              className="absolute rounded-full border-2 border-blue-500 bg-blue-500/20"
+              style={{ left: x - radius, top: y - radius, width: radius * 2, height: radius * 2 }}
+            />
+          );
+        })}
+
+        {clusters.map((group) => {
+          const { x, y } = toScreen(group.lat, group.lng);
+
+          if (group.items.length > 1) {
+            const label = `${group.items.length} locations here. Zoom in`;
+            return (
+              <button
+                key={`cluster-${group.key}`}
+                type="button"
+                title={label}
+                aria-label={label}
+                onPointerDown={stopDrag}
+                onClick={() => {
+                  const zoomedIn = fitView(group.items, width, height, { maxZoom: MAX_ZOOM });
+                  updateView(
+                    zoomedIn && zoomedIn.zoom > currentView.zoom
+                      ? zoomedIn
+                      : { center: group, zoom: clampZoom(currentView.zoom + 2) }
+                  );
+                }}
+                className="absolute flex h-9 w-9 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border-2 border-white bg-purple-600 text-sm font-bold text-white shadow-md hover:bg-purple-700"
+                style={{ left: x, top: y }}
+              >
+                {group.items.length}
+              </button>
+            );
+          }
+
+          const [marker] = group.items;
+          const pinClasses = `absolute flex h-7 w-7 -translate-x-1/2 -translate-y-full items-center justify-center rounded-full rounded-br-none rotate-45 border-2 border-white shadow-md ${PIN_STYLES[marker.kind as PinKind]}`;
+          const symbol = (
+            <span className="-rotate-45 text-xs font-bold text-white">
+              {PIN_SYMBOLS[marker.kind as PinKind]}
+            </span>
+          );
+
+          if (onMarkerClick) {
+            return (
+              <button
+                key={marker.id}
+                type="button"
+                title={marker.label}
+                aria-label={marker.label}
+                onPointerDown={stopDrag}
+                onClick={() => onMarkerClick(marker.id)}
+                className={`${pinClasses} cursor-pointer`}
+                style={{ left: x, top: y }}
+              >
+                {symbol}
+              </button>
+            );
+          }
+
+          return (
+            <div
+              key={marker.id}
+              title={marker.label}
+              aria-label={marker.label}
+              className={pinClasses}
+              style={{ left: x, top: y }}
+            >
+              {symbol}
+            </div>
+          );
+        })}
+
+        <div className="absolute top-2 right-2 flex flex-col overflow-hidden rounded-md shadow-md">
+          <button
+            type="button"
+            onPointerDown={stopDrag}
+            onClick={() => zoomBy(1)}
+            className={`${ZOOM_BUTTON_CLASSES} border-b border-gray-200 dark:border-slate-700`}
+            aria-label="Zoom in"
+          >
+            +
+          </button>
+          <button
+            type="button"
+            onPointerDown={stopDrag}
+            onClick={() => zoomBy(-1)}
+            className={ZOOM_BUTTON_CLASSES}
+            aria-label="Zoom out"
+          >
+            −
+          </button>
         </div>
-        <div style="
-          position: absolute;
-          bottom: 8px;
-          right: 8px;
-          background: rgba(0, 0, 0, 0.7);
-          color: white;
-          padding: 4px 8px;
-          border-radius: 4px;
-          font-size: 12px;
-        ">
-          ${lat.toFixed(4)}, ${lng.toFixed(4)}
+
+        <div className="absolute bottom-0 right-0 bg-white/80 dark:bg-slate-900/80 px-1.5 py-0.5 text-[10px] text-gray-600 dark:text-gray-300">
+          {attribution}
         </div>
       </div>
-    `;
-    mapContainer.innerHTML = mapContainer.textContent;
-  }, [lat, lng, zoom]);
-
-  return (
-    <div className="w-full">
-      <div ref={mapRef} className="w-full"></div>
-    </div>
-  );
-});
+    );
+  }
+);
 
 LocationMap.displayName = 'LocationMap';
 
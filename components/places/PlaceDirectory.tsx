@@ -0,0 +1,204 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import OptimizedImage from '@/components/ui/OptimizedImage';
+import SuggestPlaceForm from '@/components/places/SuggestPlaceForm';
+import type { CommunityPlace, CommunityPlaceType } from '@/app/community/types';
+import { COMMUNITY_PLACE_TYPE_LABELS, WINTER_ACCESS_LABELS } from '@/libs/communityPlaces';
+import { formatDateLabel, formatTimeLabel } from '@/lib/dateFormat';
+import { sanitizeLocation } from '@/libs/sanitize/location';
+
+const TYPE_FILTERS: { value: CommunityPlaceType | 'all'; label: string }[] = [
+  { value: 'all', label: 'All places' },
+  ...(Object.entries(COMMUNITY_PLACE_TYPE_LABELS) as [CommunityPlaceType, string][]).map(
+    ([value, label]) => ({ value, label })
+  ),
+];
+
+/**
+ * Browsable list of community meeting places, each with the rides departing
+ * from it soon. Members can filter by place type and suggest new places.
+ */
+export default function PlaceDirectory() {
+  const [places, setPlaces] = useState<CommunityPlace[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [typeFilter, setTypeFilter] = useState<CommunityPlaceType | 'all'>('all');
+  const [showForm, setShowForm] = useState(false);
+
+  const fetchPlaces = useCallback(async () => {
+    setLoading(true);
+    try {
+      const query = typeFilter === 'all' ? '' : `?type=${typeFilter}`;
+      const response = await fetch(`/api/community/places${query}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch places');
+      const data = await response.json();
+      setPlaces(data.places || []);
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to load places');
+    } finally {
+      setLoading(false);
+    }
+  }, [typeFilter]);
+
+  useEffect(() => {
+    fetchPlaces();
+  }, [fetchPlaces]);
+
+  const handleSaved = () => {
+    setShowForm(false);
+    fetchPlaces();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by place type">
+          {TYPE_FILTERS.map((filter) => (
+            <button
+              key={filter.value}
+              type="button"
+              onClick={() => setTypeFilter(filter.value)}
+              aria-pressed={typeFilter === filter.value}
+              className={`rounded-full px-3 py-1 text-sm font-medium transition-colors ${
+                typeFilter === filter.value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white dark:bg-slate-800 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-slate-700 hover:bg-gray-50 dark:hover:bg-slate-700'
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+        {!showForm && (
+          <button
+            type="button"
+            onClick={() => setShowForm(true)}
+            className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+          >
+            Suggest a Place
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="rounded-lg border border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4">
+          <h2 className="mb-4 text-lg font-semibold text-gray-900 dark:text-white">
+            Suggest a meeting place
+          </h2>
+          <SuggestPlaceForm onSaved={handleSaved} onCancel={() => setShowForm(false)} />
+        </div>
+      )}
+
+      {loading && <div className="text-gray-600 dark:text-gray-300">Loading places...</div>}
+
+      {!loading && places.length === 0 && (
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-slate-800/50 rounded-lg border border-dashed border-gray-300 dark:border-slate-700">
+          <p>No places here yet.</p>
+          <p className="mt-2 text-sm">Know a good spot to meet? Suggest it above.</p>
+        </div>
+      )}
+
+      {!loading && places.length > 0 && (
+        <ul className="space-y-4">
+          {places.map((place) => (
+            <PlaceCard key={place.id} place={place} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function PlaceCard({ place }: Readonly<{ place: CommunityPlace }>) {
+  const upcomingRides = place.upcoming_rides ?? [];
+
+  return (
+    <li className="border border-gray-200 dark:border-slate-700 rounded-lg p-4 shadow-sm bg-white dark:bg-slate-800 transition-colors">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="font-semibold text-lg text-gray-900 dark:text-white">
+            {place.name}
+            {place.status === 'pending' && (
+              <span className="ml-2 align-middle inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200">
+                Awaiting review
+              </span>
+            )}
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-300">{place.address}</p>
+        </div>
+        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200">
+          {COMMUNITY_PLACE_TYPE_LABELS[place.place_type]}
+        </span>
+      </div>
+
+      {place.description && (
+        <p className="mt-2 text-sm text-gray-700 dark:text-gray-200">{place.description}</p>
+      )}
+
+      <dl className="mt-3 grid grid-cols-1 gap-2 text-sm sm:grid-cols-2">
+        <div>
+          <dt className="font-medium text-gray-700 dark:text-gray-300">Winter access</dt>
+          <dd className="text-gray-600 dark:text-gray-400">
+            {WINTER_ACCESS_LABELS[place.winter_access]}
+          </dd>
+        </div>
+        {place.parking_notes && (
+          <div>
+            <dt className="font-medium text-gray-700 dark:text-gray-300">Parking</dt>
+            <dd className="text-gray-600 dark:text-gray-400">{place.parking_notes}</dd>
+          </div>
+        )}
+      </dl>
+
+      {place.photo_urls.length > 0 && (
+        <div className="mt-3 flex gap-2 overflow-x-auto">
+          {place.photo_urls.map((url) => (
+            <OptimizedImage
+              key={url}
+              src={url}
+              alt={place.name}
+              width={128}
+              height={96}
+              className="h-24 w-32 shrink-0 rounded-md object-cover"
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4">
+        <h4 className="text-sm font-medium text-gray-900 dark:text-white">Upcoming departures</h4>
+        {upcomingRides.length === 0 ? (
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            No rides leaving from here yet.
+          </p>
+        ) : (
+          <ul className="mt-1 space-y-1 text-sm text-gray-700 dark:text-gray-200">
+            {upcomingRides.map((ride) => (
+              <li key={ride.id}>
+                {sanitizeLocation(ride.end_location)} · {formatDateLabel(ride.departure_date)}{' '}
+                {formatTimeLabel(ride.departure_time)}
+                {ride.posting_type === 'driver' && ride.available_seats !== null && (
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {' '}
+                    · {ride.available_seats} {ride.available_seats === 1 ? 'seat' : 'seats'} left
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        {upcomingRides.length > 0 && (
+          <Link
+            href="/community"
+            className="mt-2 inline-block text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Browse rides →
+          </Link>
+        )}
+      </div>
+    </li>
+  );
+}
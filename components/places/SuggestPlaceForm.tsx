@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import PhotoUpload from '@/components/ui/PhotoUpload';
+import type { CommunityPlace, CommunityPlaceType, WinterAccess } from '@/app/community/types';
+import { COMMUNITY_PLACE_TYPE_LABELS, WINTER_ACCESS_LABELS } from '@/libs/communityPlaces';
+
+interface SuggestPlaceFormProps {
+  // eslint-disable-next-line no-unused-vars
+  onSaved: (place: CommunityPlace) => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border border-gray-300 dark:border-slate-700 px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500 bg-white dark:bg-slate-800 text-gray-900 dark:text-white';
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300';
+
+/**
+ * Form for suggesting a new meeting place. Suggestions are reviewed by an
+ * admin before they show up for everyone.
+ */
+export default function SuggestPlaceForm({ onSaved, onCancel }: Readonly<SuggestPlaceFormProps>) {
+  const [name, setName] = useState('');
+  const [placeType, setPlaceType] = useState<CommunityPlaceType>('park_and_ride');
+  const [address, setAddress] = useState('');
+  const [description, setDescription] = useState('');
+  const [parkingNotes, setParkingNotes] = useState('');
+  const [winterAccess, setWinterAccess] = useState<WinterAccess>('unknown');
+  const [photoUrl, setPhotoUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/community/places', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          place_type: placeType,
+          address,
+          description: description || null,
+          parking_notes: parkingNotes || null,
+          winter_access: winterAccess,
+          photo_urls: photoUrl ? [photoUrl] : [],
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save place');
+      }
+
+      toast.success(
+        data.place.status === 'approved'
+          ? 'Place added'
+          : 'Thanks! An admin will review your suggestion.'
+      );
+      onSaved(data.place);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save place');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="place-name" className={labelClassName}>
+            Name
+          </label>
+          <input
+            id="place-name"
+            type="text"
+            required
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={inputClassName}
+            placeholder="e.g. Auburn Park & Ride"
+          />
+        </div>
+        <div>
+          <label htmlFor="place-type" className={labelClassName}>
+            Type
+          </label>
+          <select
+            id="place-type"
+            value={placeType}
+            onChange={(e) => setPlaceType(e.target.value as CommunityPlaceType)}
+            className={inputClassName}
+          >
+            {Object.entries(COMMUNITY_PLACE_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="place-address" className={labelClassName}>
+          Address
+        </label>
+        <input
+          id="place-address"
+          type="text"
+          required
+          value={address}
+          onChange={(e) => setAddress(e.target.value)}
+          className={inputClassName}
+          placeholder="Street address or intersection"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="place-winter-access" className={labelClassName}>
+          Winter Access
+        </label>
+        <select
+          id="place-winter-access"
+          value={winterAccess}
+          onChange={(e) => setWinterAccess(e.target.value as WinterAccess)}
+          className={inputClassName}
+        >
+          {Object.entries(WINTER_ACCESS_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="place-parking-notes" className={labelClassName}>
+          Parking Notes (Optional)
+        </label>
+        <textarea
+          id="place-parking-notes"
+          rows={2}
+          value={parkingNotes}
+          onChange={(e) => setParkingNotes(e.target.value)}
+          className={inputClassName}
+          placeholder="Free overnight? Which end of the lot? Permit needed?"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="place-description" className={labelClassName}>
+          Description (Optional)
+        </label>
+        <textarea
+          id="place-description"
+          rows={2}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="place-photo" className={labelClassName}>
+          Photo (Optional)
+        </label>
+        <PhotoUpload
+          id="place-photo"
+          initialPhotoUrl=""
+          onPhotoUploaded={setPhotoUrl}
+          bucketName="place-photos"
+          subject="photo of the place"
+          alt={name || 'Place'}
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:bg-slate-800 dark:border-slate-700 dark:text-gray-300 dark:hover:bg-slate-700"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-blue-400"
+        >
+          {saving ? 'Saving...' : 'Suggest Place'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import type { CostBreakdown } from '@/app/community/types';
+import { geocodeLocation } from '@/libs/geocoding';
+import {
+  calculateCostSplit,
+  DEFAULT_GAS_PRICE,
+  DEFAULT_MPG,
+  estimateRoadDistance,
+  formatDollars,
+} from '@/libs/costSplit';
+
+interface CostSplitCalculatorProps {
+  startLocation: string;
+  endLocation: string;
+  seats: number;
+  // From the selected vehicle, when it has one on record
+  vehicleMpg?: number | null;
+  initialBreakdown?: CostBreakdown | null;
+  // eslint-disable-next-line no-unused-vars
+  onApply: (_breakdown: CostBreakdown) => void;
+}
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 dark:border-slate-700 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm bg-white dark:bg-slate-800 text-gray-900 dark:text-white';
+
+const toNumber = (value: string) => (value === '' ? Number.NaN : Number.parseFloat(value));
+
+/**
+ * Suggests a per-seat contribution for a split-cost ride from the trip distance,
+ * the vehicle's fuel economy, the gas price, and any tolls or parking.
+ */
+export default function CostSplitCalculator({
+  startLocation,
+  endLocation,
+  seats,
+  vehicleMpg,
+  initialBreakdown,
+  onApply,
+}: Readonly<CostSplitCalculatorProps>) {
+  const [distance, setDistance] = useState(initialBreakdown?.distance_miles.toString() ?? '');
+  // A typed MPG applies until a different vehicle is picked
+  const [mpgOverride, setMpgOverride] = useState<{
+    vehicleMpg: number | null | undefined;
+    value: string;
+  } | null>(initialBreakdown ? { vehicleMpg, value: initialBreakdown.mpg.toString() } : null);
+  const [gasPrice, setGasPrice] = useState(
+    (initialBreakdown?.gas_price ?? DEFAULT_GAS_PRICE).toString()
+  );
+  const [tolls, setTolls] = useState(initialBreakdown?.tolls.toString() ?? '0');
+  const [parking, setParking] = useState(initialBreakdown?.parking.toString() ?? '0');
+  const [estimating, setEstimating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const mpg =
+    mpgOverride && mpgOverride.vehicleMpg === vehicleMpg
+      ? mpgOverride.value
+      : (vehicleMpg ?? DEFAULT_MPG).toString();
+
+  const breakdown = calculateCostSplit({
+    distanceMiles: toNumber(distance),
+    mpg: toNumber(mpg),
+    gasPrice: toNumber(gasPrice),
+    tolls: toNumber(tolls || '0'),
+    parking: toNumber(parking || '0'),
+    seats,
+  });
+
+  const handleEstimateDistance = async () => {
+    setError(null);
+
+    if (!startLocation.trim() || !endLocation.trim()) {
+      setError('Enter the start and end locations first.');
+      return;
+    }
+
+    setEstimating(true);
+    try {
+      const [start, end] = await Promise.all([
+        geocodeLocation(startLocation),
+        geocodeLocation(endLocation),
+      ]);
+
+      if (!start || !end) {
+        setError("We couldn't find one of those locations. Enter the distance yourself.");
+        return;
+      }
+
+      setDistance(estimateRoadDistance(start.lat, start.lng, end.lat, end.lng).toString());
+    } finally {
+      setEstimating(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-slate-800/50 p-4 rounded-lg border border-gray-100 dark:border-slate-800 space-y-4">
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 dark:text-white">Cost split calculator</h3>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Shares gas, tolls and parking evenly between you and each seat.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label
+            htmlFor="cost_distance"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+          >
+            Trip Distance (miles)
+          </label>
+          <input
+            type="number"
+            id="cost_distance"
+            value={distance}
+            onChange={(e) => setDistance(e.target.value)}
+            min="0"
+            className={inputClassName}
+          />
+          <button
+            type="button"
+            onClick={handleEstimateDistance}
+            disabled={estimating}
+            className="mt-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+          >
+            {estimating ? 'Estimating...' : 'Estimate from locations'}
+          </button>
+        </div>
+
+        <div>
+          <label
+            htmlFor="cost_mpg"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+          >
+            Fuel Economy (MPG)
+          </label>
+          <input
+            type="number"
+            id="cost_mpg"
+            value={mpg}
+            onChange={(e) => setMpgOverride({ vehicleMpg, value: e.target.value })}
+            min="0"
+            step="0.1"
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label
+            htmlFor="cost_gas_price"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+          >
+            Gas Price ($/gallon)
+          </label>
+          <input
+            type="number"
+            id="cost_gas_price"
+            value={gasPrice}
+            onChange={(e) => setGasPrice(e.target.value)}
+            min="0"
+            step="0.01"
+            className={inputClassName}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label
+              htmlFor="cost_tolls"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              Tolls ($)
+            </label>
+            <input
+              type="number"
+              id="cost_tolls"
+              value={tolls}
+              onChange={(e) => setTolls(e.target.value)}
+              min="0"
+              step="0.01"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="cost_parking"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              Parking ($)
+            </label>
+            <input
+              type="number"
+              id="cost_parking"
+              value={parking}
+              onChange={(e) => setParking(e.target.value)}
+              min="0"
+              step="0.01"
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {breakdown ? (
+        <div className="flex flex-wrap items-center justify-between gap-3 border-t border-gray-200 dark:border-slate-700 pt-3">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {formatDollars(breakdown.fuel_cost)} gas
+            {breakdown.tolls + breakdown.parking > 0 &&
+              ` + ${formatDollars(breakdown.tolls + breakdown.parking)} tolls & parking`}{' '}
+            = {formatDollars(breakdown.total_cost)}, split {breakdown.split_between} ways
+          </p>
+          <button
+            type="button"
+            onClick={() => onApply(breakdown)}
+            className="rounded-md bg-green-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-green-700"
+          >
+            Use {formatDollars(breakdown.per_seat)} per seat
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Enter the trip distance to see a suggested contribution.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import PlaceAutocomplete from './PlaceAutocomplete';
+import type { CatalogPlace } from '@/libs/placeCatalog';
+import type { CommunityPlace } from '@/app/community/types';
+
+const auburnParkAndRide = {
+  id: 'place-1',
+  name: 'Auburn Park & Ride',
+  place_type: 'park_and_ride',
+  lat: 38.9,
+  lng: -121.06,
+} as CommunityPlace;
+
+function Harness({
+  onSelectPlace,
+  onSelectCommunityPlace,
+}: Readonly<{ onSelectPlace: jest.Mock; onSelectCommunityPlace?: jest.Mock }>) {
+  const [value, setValue] = useState('');
+  return (
+    <>
+      <label htmlFor="place">Destination</label>
+      <PlaceAutocomplete
+        id="place"
+        name="place"
+        value={value}
+        onChange={setValue}
+        onSelectPlace={(place: CatalogPlace) => {
+          onSelectPlace(place);
+          setValue(place.name);
+        }}
+        communityPlaces={[auburnParkAndRide]}
+        onSelectCommunityPlace={
+          onSelectCommunityPlace &&
+          ((place: CommunityPlace) => {
+            onSelectCommunityPlace(place);
+            setValue(place.name);
+          })
+        }
+      />
+      <button type="button">Elsewhere</button>
+    </>
+  );
+}
+
+describe('PlaceAutocomplete', () => {
+  it('suggests catalog places and picks one with the keyboard', async () => {
+    const user = userEvent.setup();
+    const onSelectPlace = jest.fn();
+    render(<Harness onSelectPlace={onSelectPlace} />);
+
+    await user.type(screen.getByLabelText('Destination'), 'kirk');
+    expect(screen.getByRole('option', { name: /Kirkwood Mountain Resort/i })).toBeInTheDocument();
+    expect(screen.getByText('Ski resort')).toBeInTheDocument();
+
+    await user.keyboard('{ArrowDown}{Enter}');
+
+    expect(onSelectPlace).toHaveBeenCalledWith(expect.objectContaining({ id: 'kirkwood' }));
+    expect(screen.getByLabelText('Destination')).toHaveValue('Kirkwood Mountain Resort');
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+
+  it('keeps custom addresses as typed', async () => {
+    const user = userEvent.setup();
+    const onSelectPlace = jest.fn();
+    render(<Harness onSelectPlace={onSelectPlace} />);
+
+    await user.type(screen.getByLabelText('Destination'), '88 Cabin Way');
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Elsewhere' }));
+
+    expect(onSelectPlace).not.toHaveBeenCalled();
+    expect(screen.getByLabelText('Destination')).toHaveValue('88 Cabin Way');
+  });
+
+  it('switches an alias typed out in full to the canonical name on blur', async () => {
+    const user = userEvent.setup();
+    const onSelectPlace = jest.fn();
+    render(<Harness onSelectPlace={onSelectPlace} />);
+
+    await user.type(screen.getByLabelText('Destination'), 'Squaw Valley');
+    await user.click(screen.getByRole('button', { name: 'Elsewhere' }));
+
+    expect(onSelectPlace).toHaveBeenCalledWith(expect.objectContaining({ id: 'palisades-tahoe' }));
+    expect(screen.getByLabelText('Destination')).toHaveValue('Palisades Tahoe');
+  });
+
+  it('suggests community places ahead of catalog places', async () => {
+    const user = userEvent.setup();
+    const onSelectPlace = jest.fn();
+    const onSelectCommunityPlace = jest.fn();
+    render(
+      <Harness onSelectPlace={onSelectPlace} onSelectCommunityPlace={onSelectCommunityPlace} />
+    );
+
+    await user.type(screen.getByLabelText('Destination'), 'auburn');
+    const options = screen.getAllByRole('option');
+    expect(options[0]).toHaveTextContent('Auburn Park & Ride');
+    expect(options[0]).toHaveTextContent('Park & ride');
+
+    await user.click(options[0]);
+
+    expect(onSelectCommunityPlace).toHaveBeenCalledWith(auburnParkAndRide);
+    expect(onSelectPlace).not.toHaveBeenCalled();
+    expect(screen.getByLabelText('Destination')).toHaveValue('Auburn Park & Ride');
+  });
+
+  it('leaves community places out when they cannot be picked', async () => {
+    const user = userEvent.setup();
+    render(<Harness onSelectPlace={jest.fn()} />);
+
+    await user.type(screen.getByLabelText('Destination'), 'auburn park');
+
+    expect(screen.queryByText('Auburn Park & Ride')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,182 @@
+'use client';
+
+import React, { useId, useMemo, useState } from 'react';
+import {
+  findCatalogPlace,
+  PLACE_CATEGORY_LABELS,
+  searchPlaceCatalog,
+  type CatalogPlace,
+} from '@/libs/placeCatalog';
+import {
+  COMMUNITY_PLACE_TYPE_LABELS,
+  findCommunityPlace,
+  searchCommunityPlaces,
+} from '@/libs/communityPlaces';
+import type { CommunityPlace } from '@/app/community/types';
+
+type Suggestion =
+  | { kind: 'community'; place: CommunityPlace }
+  | { kind: 'catalog'; place: CatalogPlace };
+
+const NO_COMMUNITY_PLACES: CommunityPlace[] = [];
+
+interface PlaceAutocompleteProps {
+  id: string;
+  name: string;
+  value: string;
+  // Called as the user types; the text may be a custom address
+  // eslint-disable-next-line no-unused-vars
+  onChange: (value: string) => void;
+  // Called when a catalog place is picked, or typed out exactly and left
+  // eslint-disable-next-line no-unused-vars
+  onSelectPlace: (place: CatalogPlace) => void;
+  // Approved community meeting points, suggested ahead of the catalog
+  communityPlaces?: CommunityPlace[];
+  // Called when a community place is picked, or typed out exactly and left
+  // eslint-disable-next-line no-unused-vars
+  onSelectCommunityPlace?: (place: CommunityPlace) => void;
+  placeholder?: string;
+  required?: boolean;
+  className?: string;
+}
+
+/**
+ * Text input that suggests community meeting points and places from the
+ * curated place catalog as the user types. Picking a suggestion fills in its
+ * canonical name; anything else is kept as a custom address.
+ */
+export default function PlaceAutocomplete({
+  id,
+  name,
+  value,
+  onChange,
+  onSelectPlace,
+  communityPlaces = NO_COMMUNITY_PLACES,
+  onSelectCommunityPlace,
+  placeholder,
+  required = false,
+  className = '',
+}: Readonly<PlaceAutocompleteProps>) {
+  const listboxId = useId();
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const suggestions = useMemo<Suggestion[]>(
+    () => [
+      ...(onSelectCommunityPlace ? searchCommunityPlaces(communityPlaces, value ?? '') : []).map(
+        (place) => ({ kind: 'community' as const, place })
+      ),
+      ...searchPlaceCatalog(value ?? '').map((place) => ({ kind: 'catalog' as const, place })),
+    ],
+    [communityPlaces, onSelectCommunityPlace, value]
+  );
+  const showSuggestions = open && suggestions.length > 0;
+
+  const selectSuggestion = (suggestion: Suggestion) => {
+    if (suggestion.kind === 'community') onSelectCommunityPlace?.(suggestion.place);
+    else onSelectPlace(suggestion.place);
+    setOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setOpen(true);
+      setActiveIndex((index) => Math.min(index + 1, suggestions.length - 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (event.key === 'Enter' && showSuggestions && activeIndex >= 0) {
+      // Pick the highlighted place instead of submitting the form
+      event.preventDefault();
+      selectSuggestion(suggestions[activeIndex]);
+    } else if (event.key === 'Escape') {
+      setOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  const handleBlur = () => {
+    setOpen(false);
+    setActiveIndex(-1);
+    // Typing a place name (or catalog alias) in full counts as picking it
+    const communityPlace = onSelectCommunityPlace
+      ? findCommunityPlace(communityPlaces, value ?? '')
+      : null;
+    if (communityPlace) {
+      if (communityPlace.name !== value) onSelectCommunityPlace?.(communityPlace);
+      return;
+    }
+    const place = findCatalogPlace(value ?? '');
+    if (place && place.name !== value) onSelectPlace(place);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        id={id}
+        name={name}
+        value={value}
+        onChange={(event) => {
+          onChange(event.target.value);
+          setOpen(true);
+          setActiveIndex(-1);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={handleBlur}
+        onKeyDown={handleKeyDown}
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={showSuggestions}
+        aria-controls={listboxId}
+        aria-activedescendant={
+          showSuggestions && activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined
+        }
+        autoComplete="off"
+        className={className}
+        required={required}
+        placeholder={placeholder}
+      />
+
+      {showSuggestions && (
+        <div className="absolute z-20 mt-1 w-full overflow-hidden rounded-md border border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-lg">
+          <ul
+            id={listboxId}
+            role="listbox"
+            aria-label="Suggested places"
+            className="max-h-64 overflow-y-auto py-1"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={`${suggestion.kind}-${suggestion.place.id}`}
+                id={`${listboxId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the input so its blur doesn't close the list first
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => selectSuggestion(suggestion)}
+                className={`flex cursor-pointer items-center justify-between gap-3 px-3 py-2 text-sm ${
+                  index === activeIndex
+                    ? 'bg-blue-50 dark:bg-slate-700'
+                    : 'hover:bg-gray-50 dark:hover:bg-slate-700'
+                }`}
+              >
+                <span className="text-gray-900 dark:text-white">{suggestion.place.name}</span>
+                <span className="shrink-0 text-xs text-gray-500 dark:text-gray-400">
+                  {suggestion.kind === 'community'
+                    ? COMMUNITY_PLACE_TYPE_LABELS[suggestion.place.place_type]
+                    : PLACE_CATEGORY_LABELS[suggestion.place.category]}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <p className="border-t border-gray-100 dark:border-slate-700 px-3 py-1.5 text-xs text-gray-500 dark:text-gray-400">
+            Not listed? Keep typing to use your own address.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { render, screen, waitFor } from '@testing-library/react';
 import RideForm from './RideForm';
-import { Vehicle } from '@/app/community/types';
+import { CommunityPlace, Vehicle } from '@/app/community/types';
 import userEvent from '@testing-library/user-event';
 
 jest.setTimeout(10000);
@@ -20,6 +20,7 @@ const mockVehicles: Vehicle[] = [
     color: 'Blue',
     license_plate: 'TAHOE1',
     drivetrain: 'AWD',
+    mpg: 25,
   },
   {
     id: 'v2',
@@ -146,4 +147,170 @@ describe('RideForm', () => {
       );
     });
   });
+
+  it('requires a weekday for recurring rides and submits the chosen days', async () => {
+    const user = userEvent.setup();
+    render(<RideForm onSave={mockOnSave} onCancel={mockOnCancel} vehicles={mockVehicles} />);
+
+    await user.selectOptions(screen.getByLabelText(/I am a.../i), 'passenger');
+    await user.type(screen.getByLabelText(/Ride Title/i), 'Friday ski run');
+    await user.type(screen.getByLabelText(/Start Location/i), 'Oakland');
+    await user.type(screen.getByLabelText(/End Location/i), 'Kirkwood');
+    await user.type(screen.getByLabelText(/Departure Date/i), '2026-01-02');
+    await user.type(screen.getByLabelText(/Departure Time/i), '06:00');
+
+    await user.click(screen.getByLabelText(/Repeats every week/i));
+    expect(screen.queryByLabelText(/This is a Round Trip/i)).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /Post Ride/i }));
+    expect(
+      await screen.findByText(/Pick at least one day for the ride to repeat on/i)
+    ).toBeInTheDocument();
+    expect(mockOnSave).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'fri' }));
+    await user.click(screen.getByRole('button', { name: /Post Ride/i }));
+
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalledWith(
+        expect.objectContaining({ is_recurring: true, recurring_days: ['friday'] })
+      );
+    });
+  });
+
+  it('suggests a split-cost price from the calculator and re-splits it by seats', async () => {
+    const user = userEvent.setup();
+    render(<RideForm onSave={mockOnSave} onCancel={mockOnCancel} vehicles={mockVehicles} />);
+
+    await user.selectOptions(screen.getByLabelText(/Select from My Vehicles/i), 'v1');
+    expect(screen.getByLabelText(/Fuel Economy/i)).toHaveValue(25);
+
+    await user.type(screen.getByLabelText(/Trip Distance/i), '200');
+    await user.clear(screen.getByLabelText(/Gas Price/i));
+    await user.type(screen.getByLabelText(/Gas Price/i), '5');
+    await user.click(screen.getByRole('button', { name: 'Use $20 per seat' }));
+
+    expect(screen.getByLabelText(/Cost Share per Seat/i)).toHaveValue(20);
+
+    await user.clear(screen.getByLabelText(/Total Seats Available/i));
+    await user.type(screen.getByLabelText(/Total Seats Available/i), '3');
+    expect(screen.getByLabelText(/Cost Share per Seat/i)).toHaveValue(10);
+
+    await user.type(screen.getByLabelText(/Ride Title/i), 'Split trip');
+    await user.type(screen.getByLabelText(/Start Location/i), 'San Francisco');
+    await user.type(screen.getByLabelText(/End Location/i), 'Tahoe City');
+    await user.type(screen.getByLabelText(/Departure Date/i), '2026-01-10');
+    await user.type(screen.getByLabelText(/Departure Time/i), '07:00');
+    await user.click(screen.getByRole('button', { name: /Post Ride/i }));
+
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalledWith(
+        expect.objectContaining({
+          pricing_type: 'split_costs',
+          price_per_seat: 10,
+          gas_estimate: 40,
+          cost_breakdown: expect.objectContaining({ total_cost: 40, split_between: 4 }),
+        })
+      );
+    });
+  });
+
+  it('drops the breakdown when the price is entered by hand', async () => {
+    const user = userEvent.setup();
+    render(<RideForm onSave={mockOnSave} onCancel={mockOnCancel} vehicles={mockVehicles} />);
+
+    await user.selectOptions(screen.getByLabelText(/Select from My Vehicles/i), 'v1');
+    await user.type(screen.getByLabelText(/Trip Distance/i), '100');
+    await user.click(screen.getByRole('button', { name: /per seat/i }));
+    await user.type(screen.getByLabelText(/Cost Share per Seat/i), '5');
+
+    await user.type(screen.getByLabelText(/Ride Title/i), 'Fixed price');
+    await user.type(screen.getByLabelText(/Start Location/i), 'Reno');
+    await user.type(screen.getByLabelText(/End Location/i), 'Truckee');
+    await user.type(screen.getByLabelText(/Departure Date/i), '2026-01-10');
+    await user.type(screen.getByLabelText(/Departure Time/i), '07:00');
+    await user.click(screen.getByRole('button', { name: /Post Ride/i }));
+
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalledWith(
+        expect.objectContaining({ pricing_type: 'per_seat', cost_breakdown: null })
+      );
+    });
+  });
+
+  it('saves catalog places with their canonical name and coordinates', async () => {
+    const user = userEvent.setup();
+    render(<RideForm onSave={mockOnSave} onCancel={mockOnCancel} vehicles={mockVehicles} />);
+
+    await user.selectOptions(screen.getByLabelText(/I am a.../i), 'passenger');
+    await user.type(screen.getByLabelText(/Ride Title/i), 'Powder day');
+    await user.type(screen.getByLabelText(/Start Location/i), 'sf caltr');
+    await user.click(screen.getByRole('option', { name: /San Francisco Caltrain/i }));
+    await user.type(screen.getByLabelText(/End Location/i), '12 Pine Cone Rd, Olympic Valley');
+    await user.type(screen.getByLabelText(/Departure Date/i), '2026-01-10');
+    await user.type(screen.getByLabelText(/Departure Time/i), '07:00');
+    await user.click(screen.getByRole('button', { name: /Post Ride/i }));
+
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalledWith(
+        expect.objectContaining({
+          start_location: 'San Francisco Caltrain (4th & King)',
+          start_place_id: 'sf-caltrain',
+          start_lat: 37.7766,
+          end_location: '12 Pine Cone Rd, Olympic Valley',
+          end_place_id: null,
+          end_lat: null,
+        })
+      );
+    });
+  });
+
+  it('saves a community place as the start by id', async () => {
+    const user = userEvent.setup();
+    const communityPlaces = [
+      {
+        id: 'place-1',
+        name: 'Auburn Park & Ride',
+        place_type: 'park_and_ride',
+        lat: 38.9,
+        lng: -121.06,
+      } as CommunityPlace,
+    ];
+    render(
+      <RideForm
+        onSave={mockOnSave}
+        onCancel={mockOnCancel}
+        vehicles={mockVehicles}
+        communityPlaces={communityPlaces}
+      />
+    );
+
+    await user.selectOptions(screen.getByLabelText(/I am a.../i), 'passenger');
+    await user.type(screen.getByLabelText(/Ride Title/i), 'Powder day');
+    await user.type(screen.getByLabelText(/Start Location/i), 'auburn p');
+    await user.click(screen.getByRole('option', { name: /Auburn Park & Ride/i }));
+    await user.type(screen.getByLabelText(/End Location/i), '12 Pine Cone Rd, Olympic Valley');
+    await user.type(screen.getByLabelText(/Departure Date/i), '2026-01-10');
+    await user.type(screen.getByLabelText(/Departure Time/i), '07:00');
+    await user.click(screen.getByRole('button', { name: /Post Ride/i }));
+
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalledWith(
+        expect.objectContaining({
+          start_location: 'Auburn Park & Ride',
+          start_place_id: null,
+          start_community_place_id: 'place-1',
+          start_lat: 38.9,
+          start_lng: -121.06,
+          end_community_place_id: null,
+        })
+      );
+    });
+  });
+
+  it('hides recurrence options when editing a ride', () => {
+    render(<RideForm onSave={mockOnSave} onCancel={mockOnCancel} isEditing />);
+
+    expect(screen.queryByLabelText(/Repeats every week/i)).not.toBeInTheDocument();
+  });
 });
@@ -1,5 +1,46 @@
 import React, { useState } from 'react';
-import type { RidePostType, Vehicle } from '@/app/community/types';
+import type { CommunityPlace, CostBreakdown, RidePostType, Vehicle } from '@/app/community/types';
+import CostSplitCalculator from './CostSplitCalculator';
+import PlaceAutocomplete from './PlaceAutocomplete';
+import type { CatalogPlace } from '@/libs/placeCatalog';
+import { resplitCostBreakdown } from '@/libs/costSplit';
+import {
+  DEFAULT_SERIES_WEEKS_AHEAD,
+  SERIES_WEEKDAYS,
+  type SeriesWeekday,
+} from '@/libs/community/rideSeries';
+
+type RideEndpoint = 'start' | 'end';
+
+/**
+ * Form fields for a ride's start or end: the text, plus the catalog or community
+ * place and its coordinates when the text names one. Custom addresses are
+ * geocoded on save.
+ */
+const endpointFields = (
+  endpoint: RideEndpoint,
+  text: string,
+  place: CatalogPlace | null,
+  communityPlace: CommunityPlace | null = null
+): Partial<RidePostType> => {
+  const lat = place?.lat ?? communityPlace?.lat ?? null;
+  const lng = place?.lng ?? communityPlace?.lng ?? null;
+  return endpoint === 'start'
+    ? {
+        start_location: text,
+        start_place_id: place?.id ?? null,
+        start_community_place_id: communityPlace?.id ?? null,
+        start_lat: lat,
+        start_lng: lng,
+      }
+    : {
+        end_location: text,
+        end_place_id: place?.id ?? null,
+        end_community_place_id: communityPlace?.id ?? null,
+        end_lat: lat,
+        end_lng: lng,
+      };
+};
 
 interface RideFormProps {
   initialData?: Partial<RidePostType>;
@@ -9,12 +50,16 @@ interface RideFormProps {
   isLoading?: boolean;
   isEditing?: boolean;
   vehicles?: Vehicle[];
+  // Approved community meeting points offered as start and end locations
+  communityPlaces?: CommunityPlace[];
 }
 
 /**
  * Form component for creating or editing a ride offer or request.
  * Handles both driver (offering) and passenger (requesting) modes.
- * Includes vehicle selection for drivers and round-trip logic.
+ * Includes vehicle selection for drivers, a cost-split calculator, round-trip logic,
+ * and weekly recurrence (new rides only; a recurring ride is posted as a series of
+ * dated rides).
  */
 export default function RideForm({
   initialData,
@@ -23,6 +68,7 @@ export default function RideForm({
   isLoading = false,
   isEditing = false,
   vehicles = [],
+  communityPlaces,
 }: Readonly<RideFormProps>) {
   const [selectedVehicleId, setSelectedVehicleId] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
@@ -42,6 +88,8 @@ export default function RideForm({
     is_round_trip: false,
     return_date: '',
     return_time: '',
+    is_recurring: false,
+    recurring_days: [],
     ...initialData,
   });
 
@@ -57,12 +105,56 @@ export default function RideForm({
       newValue = (e.target as HTMLInputElement).checked;
     }
 
+    setFormData((prev) => {
+      const next = { ...prev, [name]: newValue };
+
+      if (prev.cost_breakdown && name === 'price_per_seat') {
+        // A hand-entered price no longer matches the calculated breakdown
+        next.pricing_type = 'per_seat';
+        next.gas_estimate = null;
+        next.cost_breakdown = null;
+      } else if (prev.cost_breakdown && name === 'total_seats' && Number(newValue) >= 1) {
+        const breakdown = resplitCostBreakdown(prev.cost_breakdown, Number(newValue));
+        next.cost_breakdown = breakdown;
+        next.price_per_seat = breakdown.per_seat;
+      }
+
+      return next;
+    });
+  };
+
+  const handleLocationChange = (endpoint: RideEndpoint, text: string) => {
+    setFormData((prev) => ({ ...prev, ...endpointFields(endpoint, text, null) }));
+  };
+
+  const handlePlaceSelect = (endpoint: RideEndpoint, place: CatalogPlace) => {
+    setFormData((prev) => ({ ...prev, ...endpointFields(endpoint, place.name, place) }));
+  };
+
+  const handleCommunityPlaceSelect = (endpoint: RideEndpoint, place: CommunityPlace) => {
+    setFormData((prev) => ({ ...prev, ...endpointFields(endpoint, place.name, null, place) }));
+  };
+
+  const handleApplyCostSplit = (breakdown: CostBreakdown) => {
     setFormData((prev) => ({
       ...prev,
-      [name]: newValue,
+      pricing_type: 'split_costs',
+      price_per_seat: breakdown.per_seat,
+      gas_estimate: breakdown.fuel_cost,
+      cost_breakdown: breakdown,
     }));
   };
 
+  const handleRecurringDayToggle = (day: SeriesWeekday) => {
+    setFormData((prev) => {
+      const days = prev.recurring_days ?? [];
+      return {
+        ...prev,
+        recurring_days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day],
+      };
+    });
+  };
+
   const handleVehicleSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const vehicleId = e.target.value;
     setSelectedVehicleId(vehicleId);
@@ -101,6 +193,11 @@ export default function RideForm({
       }
     }
 
+    if (formData.is_recurring && !formData.recurring_days?.length) {
+      setError('Pick at least one day for the ride to repeat on.');
+      return;
+    }
+
     await onSave(formData);
   };
 
@@ -164,15 +261,17 @@ export default function RideForm({
           >
             Start Location
           </label>
-          <input
-            type="text"
+          <PlaceAutocomplete
             id="start_location"
             name="start_location"
-            value={formData.start_location}
-            onChange={handleChange}
+            value={formData.start_location ?? ''}
+            onChange={(text) => handleLocationChange('start', text)}
+            onSelectPlace={(place) => handlePlaceSelect('start', place)}
+            communityPlaces={communityPlaces}
+            onSelectCommunityPlace={(place) => handleCommunityPlaceSelect('start', place)}
             className="mt-1 block w-full rounded-md border-gray-300 dark:border-slate-700 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm bg-white dark:bg-slate-800 text-gray-900 dark:text-white"
             required
-            placeholder="e.g., San Francisco"
+            placeholder="e.g., SF Caltrain or an address"
           />
         </div>
 
@@ -183,15 +282,17 @@ export default function RideForm({
           >
             End Location
           </label>
-          <input
-            type="text"
+          <PlaceAutocomplete
             id="end_location"
             name="end_location"
-            value={formData.end_location}
-            onChange={handleChange}
+            value={formData.end_location ?? ''}
+            onChange={(text) => handleLocationChange('end', text)}
+            onSelectPlace={(place) => handlePlaceSelect('end', place)}
+            communityPlaces={communityPlaces}
+            onSelectCommunityPlace={(place) => handleCommunityPlaceSelect('end', place)}
             className="mt-1 block w-full rounded-md border-gray-300 dark:border-slate-700 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm bg-white dark:bg-slate-800 text-gray-900 dark:text-white"
             required
-            placeholder="e.g., South Lake Tahoe"
+            placeholder="e.g., Palisades Tahoe"
           />
         </div>
       </div>
@@ -235,26 +336,81 @@ export default function RideForm({
         </div>
       </div>
 
+      {/* Weekly Recurrence - only when creating a ride */}
+      {!isEditing && (
+        <div className="space-y-3">
+          <div className="flex items-center">
+            <input
+              id="is_recurring"
+              name="is_recurring"
+              type="checkbox"
+              checked={formData.is_recurring}
+              onChange={handleChange}
+              className="h-4 w-4 rounded border-gray-300 dark:border-slate-700 text-blue-600 focus:ring-blue-500 bg-white dark:bg-slate-800"
+            />
+            <label
+              htmlFor="is_recurring"
+              className="ml-2 block text-sm text-gray-900 dark:text-gray-300"
+            >
+              Repeats every week
+            </label>
+          </div>
+
+          {formData.is_recurring && (
+            <fieldset className="bg-gray-50 dark:bg-slate-800/50 p-4 rounded-lg border border-gray-100 dark:border-slate-800">
+              <legend className="sr-only">Repeat on</legend>
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Repeat on</p>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {SERIES_WEEKDAYS.map((day) => {
+                  const selected = formData.recurring_days?.includes(day) ?? false;
+                  return (
+                    <button
+                      key={day}
+                      type="button"
+                      aria-pressed={selected}
+                      onClick={() => handleRecurringDayToggle(day)}
+                      className={`rounded-full px-3 py-1 text-sm font-medium capitalize border ${
+                        selected
+                          ? 'bg-blue-600 border-blue-600 text-white'
+                          : 'bg-white dark:bg-slate-800 border-gray-300 dark:border-slate-700 text-gray-700 dark:text-gray-300'
+                      }`}
+                    >
+                      {day.slice(0, 3)}
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Starting on the departure date, a ride is posted for each selected day over the next{' '}
+                {DEFAULT_SERIES_WEEKS_AHEAD} weeks. Each date has its own seats and bookings.
+              </p>
+            </fieldset>
+          )}
+        </div>
+      )}
+
       {/* Round Trip */}
-      <div className="flex items-center">
-        <input
-          id="is_round_trip"
-          name="is_round_trip"
-          type="checkbox"
-          checked={formData.is_round_trip}
-          onChange={handleChange}
-          className="h-4 w-4 rounded border-gray-300 dark:border-slate-700 text-blue-600 focus:ring-blue-500 bg-white dark:bg-slate-800"
-        />
-        <label
-          htmlFor="is_round_trip"
-          className="ml-2 block text-sm text-gray-900 dark:text-gray-300"
-        >
-          This is a Round Trip
-        </label>
-      </div>
+      {!formData.is_recurring && (
+        <div className="flex items-center">
+          <input
+            id="is_round_trip"
+            name="is_round_trip"
+            type="checkbox"
+            checked={formData.is_round_trip}
+            onChange={handleChange}
+            className="h-4 w-4 rounded border-gray-300 dark:border-slate-700 text-blue-600 focus:ring-blue-500 bg-white dark:bg-slate-800"
+          />
+          <label
+            htmlFor="is_round_trip"
+            className="ml-2 block text-sm text-gray-900 dark:text-gray-300"
+          >
+            This is a Round Trip
+          </label>
+        </div>
+      )}
 
       {/* Return Date and Time - Only if Round Trip */}
-      {formData.is_round_trip && (
+      {formData.is_round_trip && !formData.is_recurring && (
         <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 bg-gray-50 dark:bg-slate-800/50 p-4 rounded-lg border border-gray-100 dark:border-slate-800">
           <div>
             <label
@@ -315,7 +471,9 @@ export default function RideForm({
               className="mt-1 block w-full rounded-md border-gray-300 dark:border-slate-700 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm bg-white dark:bg-slate-800 text-gray-900 dark:text-white"
             />
             <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-              For gas, tolls, and parking only. Drivers may not profit.
+              {formData.cost_breakdown
+                ? 'From the cost split calculator below. Passengers see the breakdown.'
+                : 'For gas, tolls, and parking only. Drivers may not profit.'}
             </p>
           </div>
 
@@ -340,6 +498,18 @@ export default function RideForm({
         </div>
       )}
 
+      {/* Cost Split */}
+      {formData.posting_type === 'driver' && (
+        <CostSplitCalculator
+          startLocation={formData.start_location ?? ''}
+          endLocation={formData.end_location ?? ''}
+          seats={formData.total_seats || 1}
+          vehicleMpg={vehicles.find((v) => v.id === selectedVehicleId)?.mpg}
+          initialBreakdown={initialData?.cost_breakdown}
+          onApply={handleApplyCostSplit}
+        />
+      )}
+
       {/* Vehicle Info */}
       {formData.posting_type === 'driver' && (
         <div className="space-y-4">
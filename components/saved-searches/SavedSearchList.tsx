@@ -0,0 +1,232 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import type { SavedSearch } from '@/app/community/types';
+import { formatDateLabel } from '@/lib/dateFormat';
+import { sanitizeLocation } from '@/libs/sanitize/location';
+
+const POSTING_TYPE_LABELS: Record<string, string> = {
+  driver: 'Driver offers',
+  passenger: 'Passenger requests',
+  flexible: 'Flexible posts',
+};
+
+const describeLocation = (
+  label: string | null,
+  radius: number | null,
+  lat: number | null
+): string | null => {
+  if (lat === null) return null;
+  return `within ${radius} mi of ${label || 'a saved location'}`;
+};
+
+const describeDates = (search: SavedSearch): string | null => {
+  if (search.date_from && search.date_to) {
+    return `${formatDateLabel(search.date_from)} – ${formatDateLabel(search.date_to)}`;
+  }
+  if (search.date_from) return `from ${formatDateLabel(search.date_from)}`;
+  if (search.date_to) return `until ${formatDateLabel(search.date_to)}`;
+  return null;
+};
+
+/**
+ * Lists the user's saved searches with their new matching rides, and lets the
+ * user pause, resume or delete each one.
+ */
+export default function SavedSearchList() {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSavedSearches = async () => {
+    try {
+      const response = await fetch('/api/community/saved-searches', { credentials: 'include' });
+      if (!response.ok) {
+        if (response.status === 401) {
+          toast.error('Please sign in to view your saved searches.');
+          setSavedSearches([]);
+          return;
+        }
+        throw new Error('Failed to fetch saved searches');
+      }
+      const data = await response.json();
+      setSavedSearches(data.savedSearches || []);
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to load saved searches');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSavedSearches();
+  }, []);
+
+  const handleToggleStatus = async (search: SavedSearch) => {
+    const status = search.status === 'active' ? 'paused' : 'active';
+
+    try {
+      const response = await fetch(`/api/community/saved-searches/${search.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+
+      if (!response.ok) throw new Error('Failed to update saved search');
+
+      toast.success(status === 'paused' ? 'Alerts paused' : 'Alerts resumed');
+      fetchSavedSearches();
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to update saved search');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this saved search?')) return;
+
+    try {
+      const response = await fetch(`/api/community/saved-searches/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) throw new Error('Failed to delete saved search');
+
+      toast.success('Saved search deleted');
+      fetchSavedSearches();
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to delete saved search');
+    }
+  };
+
+  const handleMarkSeen = async (id: string) => {
+    try {
+      const response = await fetch('/api/community/saved-searches/alerts', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ saved_search_id: id }),
+      });
+
+      if (!response.ok) throw new Error('Failed to update alerts');
+
+      setSavedSearches((prev) =>
+        prev.map((search) => (search.id === id ? { ...search, new_rides: [] } : search))
+      );
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to update alerts');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-gray-600 dark:text-gray-300">Loading saved searches...</div>;
+  }
+
+  if (savedSearches.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-slate-800/50 rounded-lg border border-dashed border-gray-300 dark:border-slate-700">
+        <p>No saved searches yet.</p>
+        <p className="mt-2 text-sm">
+          Filter rides by location on the{' '}
+          <Link href="/community" className="text-blue-600 dark:text-blue-400 hover:underline">
+            community page
+          </Link>{' '}
+          and choose &quot;Save this search&quot;.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-4">
+      {savedSearches.map((search) => {
+        const leaving = describeLocation(
+          search.departure_label,
+          search.departure_radius,
+          search.departure_lat
+        );
+        const going = describeLocation(
+          search.destination_label,
+          search.destination_radius,
+          search.destination_lat
+        );
+        const details = [
+          search.posting_type ? POSTING_TYPE_LABELS[search.posting_type] : 'All posts',
+          leaving && `leaving ${leaving}`,
+          going && `going ${going}`,
+          describeDates(search),
+          search.requires_awd ? 'AWD/4WD only' : null,
+        ].filter(Boolean);
+        const newRides = search.new_rides ?? [];
+
+        return (
+          <li
+            key={search.id}
+            className="border border-gray-200 dark:border-slate-700 rounded-lg p-4 shadow-sm bg-white dark:bg-slate-800 transition-colors"
+          >
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <h4 className="font-semibold text-lg text-gray-900 dark:text-white">
+                  {search.name}
+                  {search.status === 'paused' && (
+                    <span className="ml-2 align-middle inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 dark:bg-slate-700 dark:text-slate-200">
+                      Paused
+                    </span>
+                  )}
+                </h4>
+                <p className="text-sm text-gray-600 dark:text-gray-300">{details.join(' · ')}</p>
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => handleToggleStatus(search)}
+                  className="text-gray-500 hover:text-blue-500 dark:text-gray-400 dark:hover:text-blue-400 text-sm transition-colors"
+                >
+                  {search.status === 'active' ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  onClick={() => handleDelete(search.id)}
+                  className="text-gray-500 hover:text-red-500 dark:text-gray-400 dark:hover:text-red-400 text-sm transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            {newRides.length > 0 && (
+              <div className="mt-4 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 p-3">
+                <div className="flex items-center justify-between gap-3 mb-2">
+                  <p className="text-sm font-medium text-amber-900 dark:text-amber-100">
+                    🔔 {newRides.length} new {newRides.length === 1 ? 'ride' : 'rides'}
+                  </p>
+                  <button
+                    onClick={() => handleMarkSeen(search.id)}
+                    className="text-xs text-amber-800 dark:text-amber-200 hover:underline"
+                  >
+                    Mark as seen
+                  </button>
+                </div>
+                <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-200">
+                  {newRides.map((ride) => (
+                    <li key={ride.alert_id}>
+                      {sanitizeLocation(ride.start_location)} →{' '}
+                      {sanitizeLocation(ride.end_location)} · {formatDateLabel(ride.departure_date)}
+                    </li>
+                  ))}
+                </ul>
+                <Link
+                  href="/community"
+                  className="mt-2 inline-block text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Browse rides →
+                </Link>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
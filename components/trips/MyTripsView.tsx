@@ -2,11 +2,7 @@
 
 import { useCallback, useEffect, useState } from 'react';
 import { Tab, TabGroup, TabList, TabPanel, TabPanels } from '@headlessui/react';
-import {
-  fetchMyDriverTrips,
-  fetchMyPassengerTrips,
-  updateTripBooking,
-} from '@/libs/community/tripsData';
+import { fetchMyDriverTrips, fetchMyPassengerTrips } from '@/libs/community/tripsData';
 import type { TripBooking, CommunityUser, ProfileType, RidePostType } from '@/app/community/types';
 import TripBookingsList from '@/components/trips/TripBookingsList';
 import type { CommunitySupabaseClient } from '@/libs/community/ridesData';
@@ -44,17 +40,42 @@ export default function MyTripsView({ user, supabase, onMessage }: Readonly<MyTr
     loadTrips();
   }, [loadTrips]);
 
-  const handleUpdateBooking = async (bookingId: string, newStatus: TripBooking['status']) => {
+  const handleUpdateBooking = async (
+    bookingId: string,
+    newStatus: TripBooking['status'],
+    seats?: number
+  ) => {
     try {
-      // Optimistic update could go here, but let's wait for server confirmation for safety
-      await updateTripBooking(supabase, bookingId, { status: newStatus });
+      // Go through the booking API so seat counts are reserved atomically
+      const response = await fetch(`/api/trips/bookings/${bookingId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: newStatus === 'confirmed' ? 'approve' : 'deny', seats }),
+      });
+
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload.error || 'Unable to update booking');
+      }
+
+      const seatsConfirmed: number | null = payload.seats_confirmed ?? null;
+
+      // Freed seats may have been offered to the waitlist, which reorders the queue
+      if (payload.promoted_booking_ids?.length) {
+        await loadTrips();
+        return;
+      }
 
       // Update local state
       setDriverTrips((prev) =>
-        prev.map((b) => (b.id === bookingId ? { ...b, status: newStatus } : b))
+        prev.map((b) =>
+          b.id === bookingId ? { ...b, status: newStatus, seats_confirmed: seatsConfirmed } : b
+        )
       );
       setPassengerTrips((prev) =>
-        prev.map((b) => (b.id === bookingId ? { ...b, status: newStatus } : b))
+        prev.map((b) =>
+          b.id === bookingId ? { ...b, status: newStatus, seats_confirmed: seatsConfirmed } : b
+        )
       );
     } catch (error) {
       console.error('Error updating booking:', error);
@@ -90,6 +111,25 @@ export default function MyTripsView({ user, supabase, onMessage }: Readonly<MyTr
     [loadTrips]
   );
 
+  const handleRespondToPickupTime = async (bookingId: string, answer: 'accept' | 'decline') => {
+    try {
+      const response = await fetch(`/api/trips/bookings/${bookingId}/pickup-time`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response: answer }),
+      });
+
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload.error || 'Unable to answer the proposed pickup time');
+      }
+    } catch (error) {
+      console.error('Error answering proposed pickup time:', error);
+    }
+    // Reload either way so a changed proposal shows up
+    await loadTrips();
+  };
+
   if (loading) {
     return (
       <div className="flex justify-center p-12">
@@ -146,6 +186,7 @@ export default function MyTripsView({ user, supabase, onMessage }: Readonly<MyTr
               onMessage={onMessage}
               bookingActionLoadingIds={bookingActionLoadingIds}
               onCancelRequest={handleCancelBookingRequest}
+              onRespondToPickupTime={handleRespondToPickupTime}
             />
           </TabPanel>
         </TabPanels>
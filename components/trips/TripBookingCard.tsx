@@ -1,16 +1,24 @@
+import { useState } from 'react';
 import type { TripBooking, ProfileType, RidePostType } from '@/app/community/types';
 import Image from 'next/image';
 
 interface TripBookingCardProps {
   booking: TripBooking;
   role: 'driver' | 'passenger';
-  // eslint-disable-next-line no-unused-vars
-  onUpdateStatus: (bookingId: string, status: TripBooking['status']) => Promise<void>;
+  /* eslint-disable no-unused-vars */
+  onUpdateStatus: (
+    bookingId: string,
+    status: TripBooking['status'],
+    seats?: number
+  ) => Promise<void>;
+  /* eslint-enable no-unused-vars */
   // eslint-disable-next-line no-unused-vars
   onMessage: (recipient: ProfileType, ride: RidePostType) => void;
   // eslint-disable-next-line no-unused-vars
   onCancelRequest?: (bookingId: string) => Promise<void>;
   readonly isCancelling?: boolean;
+  // eslint-disable-next-line no-unused-vars
+  onRespondToPickupTime?: (bookingId: string, response: 'accept' | 'decline') => Promise<void>;
 }
 
 export default function TripBookingCard({
@@ -20,8 +28,11 @@ export default function TripBookingCard({
   onMessage,
   onCancelRequest,
   isCancelling,
+  onRespondToPickupTime,
 }: Readonly<TripBookingCardProps>) {
   const isDriver = role === 'driver';
+  const seatsRequested = booking.seats_requested ?? 1;
+  const [seatsToApprove, setSeatsToApprove] = useState(seatsRequested);
   const otherPerson = isDriver ? booking.passenger : booking.driver;
   const ride = booking.ride;
 
@@ -37,10 +48,31 @@ export default function TripBookingCard({
     cancelled: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
     completed: 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400',
     invited: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-400',
+    waitlisted: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400',
+  };
+
+  const cancelLabels: Partial<Record<TripBooking['status'], string>> = {
+    pending: 'Cancel request',
+    waitlisted: 'Leave waitlist',
+    confirmed: 'Cancel seat',
   };
+  const cancelLabel = cancelLabels[booking.status];
 
   const departureDate = new Date(ride.departure_date);
   const pickupTime = booking.pickup_time ? new Date(booking.pickup_time) : null;
+  const proposedPickupTime = booking.proposed_pickup_time
+    ? new Date(booking.proposed_pickup_time)
+    : null;
+  const formatPickupTime = (time: Date) =>
+    time.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+  let seatSummary = `${seatsRequested} ${seatsRequested === 1 ? 'seat' : 'seats'}`;
+  if (booking.status === 'confirmed' && booking.seats_confirmed !== null) {
+    seatSummary =
+      booking.seats_confirmed < seatsRequested
+        ? `${booking.seats_confirmed} of ${seatsRequested} seats confirmed`
+        : `${booking.seats_confirmed} ${booking.seats_confirmed === 1 ? 'seat' : 'seats'}`;
+  }
 
   return (
     <div className="overflow-hidden rounded-2xl border border-gray-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
@@ -61,6 +93,11 @@ export default function TripBookingCard({
           >
             {booking.status}
           </span>
+          {booking.status === 'waitlisted' && booking.waitlist_position != null && (
+            <span className="mt-0 text-xs font-medium text-orange-700 sm:mt-2 dark:text-orange-400">
+              #{booking.waitlist_position} in line
+            </span>
+          )}
         </div>
 
         {/* Middle: Ride Details */}
@@ -73,11 +110,15 @@ export default function TripBookingCard({
             <div>
               <p className="font-medium text-gray-900 dark:text-white">Meeting Details</p>
               <p>{booking.pickup_location}</p>
-              <p>
-                {pickupTime
-                  ? pickupTime.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
-                  : 'TBD'}
-              </p>
+              <p>{pickupTime ? formatPickupTime(pickupTime) : 'TBD'}</p>
+              {proposedPickupTime && (
+                <p className="text-blue-700 dark:text-blue-400">
+                  {isDriver
+                    ? `Proposed ${formatPickupTime(proposedPickupTime)}, awaiting reply`
+                    : `Driver proposed ${formatPickupTime(proposedPickupTime)}`}
+                </p>
+              )}
+              <p>{seatSummary}</p>
             </div>
             <div>
               <p className="font-medium text-gray-900 dark:text-white">
@@ -114,23 +155,60 @@ export default function TripBookingCard({
               Message
             </button>
 
-            {!isDriver && booking.status === 'pending' && onCancelRequest && (
+            {!isDriver && cancelLabel && onCancelRequest && (
               <button
                 type="button"
                 onClick={() => void onCancelRequest(booking.id)}
                 disabled={isCancelling}
                 className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-70 disabled:cursor-not-allowed"
               >
-                {isCancelling ? 'Cancelling…' : 'Cancel request'}
+                {isCancelling ? 'Cancelling…' : cancelLabel}
               </button>
             )}
 
-            {/* Driver Actions for Pending Requests */}
-            {isDriver && booking.status === 'pending' && (
+            {/* Passenger Actions for a Proposed Pickup Time */}
+            {!isDriver && proposedPickupTime && onRespondToPickupTime && (
               <>
                 <button
                   className="rounded-lg bg-green-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-green-700"
-                  onClick={() => onUpdateStatus(booking.id, 'confirmed')}
+                  onClick={() => void onRespondToPickupTime(booking.id, 'accept')}
+                >
+                  Accept {formatPickupTime(proposedPickupTime)}
+                </button>
+                <button
+                  className="rounded-lg bg-red-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-700"
+                  onClick={() => void onRespondToPickupTime(booking.id, 'decline')}
+                >
+                  Decline new time
+                </button>
+              </>
+            )}
+
+            {/* Driver Actions for Pending Requests and Waitlisted Riders */}
+            {isDriver && (booking.status === 'pending' || booking.status === 'waitlisted') && (
+              <>
+                {seatsRequested > 1 && (
+                  <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                    <span>Seats</span>
+                    <select
+                      aria-label="Seats to approve"
+                      value={seatsToApprove}
+                      onChange={(e) => setSeatsToApprove(Number(e.target.value))}
+                      className="rounded-lg border border-gray-300 px-2 py-1 text-sm dark:border-slate-700 dark:bg-slate-800"
+                    >
+                      {Array.from({ length: seatsRequested }, (_, index) => index + 1).map(
+                        (count) => (
+                          <option key={count} value={count}>
+                            {count} of {seatsRequested}
+                          </option>
+                        )
+                      )}
+                    </select>
+                  </label>
+                )}
+                <button
+                  className="rounded-lg bg-green-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-green-700"
+                  onClick={() => onUpdateStatus(booking.id, 'confirmed', seatsToApprove)}
                 >
                   Accept
                 </button>
@@ -138,7 +216,7 @@ export default function TripBookingCard({
                   className="rounded-lg bg-red-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-700"
                   onClick={() => onUpdateStatus(booking.id, 'cancelled')}
                 >
-                  Decline
+                  {booking.status === 'waitlisted' ? 'Remove' : 'Decline'}
                 </button>
               </>
             )}
@@ -2,10 +2,12 @@
 
 import React, { Fragment, useState } from 'react';
 import { Dialog, DialogPanel, DialogTitle, Transition, TransitionChild } from '@headlessui/react';
-import { createTripBookingSchema } from '@/libs/validations/trips';
+import { createTripBookingSchema, MAX_SEATS_PER_BOOKING } from '@/libs/validations/trips';
 import { z } from 'zod';
 import { toast } from 'react-hot-toast';
 import type { RidePostType } from '@/app/community/types';
+import { useCommunityPlaces } from '@/hooks/useCommunityPlaces';
+import { COMMUNITY_PLACE_TYPE_LABELS } from '@/libs/communityPlaces';
 
 interface TripBookingModalProps {
   readonly isOpen: boolean;
@@ -15,11 +17,24 @@ interface TripBookingModalProps {
 
 export default function TripBookingModal({ isOpen, onClose, ride }: TripBookingModalProps) {
   const [pickupLocation, setPickupLocation] = useState('');
+  const [pickupPlaceId, setPickupPlaceId] = useState('');
   const [pickupDate, setPickupDate] = useState(ride.departure_date);
   const [pickupTime, setPickupTime] = useState(ride.departure_time.slice(0, 5));
   const [notes, setNotes] = useState('');
+  const [seatsRequested, setSeatsRequested] = useState(1);
+  // Requests for more seats than the ride has left go onto its waitlist
+  const joinsWaitlist = ride.available_seats !== null && ride.available_seats < seatsRequested;
+  const submitLabel = joinsWaitlist ? 'Join Waitlist' : 'Send Request';
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { places } = useCommunityPlaces(isOpen);
+  const pickupPlace = places.find((place) => place.id === pickupPlaceId) ?? null;
+
+  const handlePickupPlaceChange = (placeId: string) => {
+    setPickupPlaceId(placeId);
+    const place = places.find((candidate) => candidate.id === placeId);
+    if (place) setPickupLocation(place.name);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -31,9 +46,11 @@ export default function TripBookingModal({ isOpen, onClose, ride }: TripBookingM
       createTripBookingSchema.parse({
         ride_id: ride.id,
         pickup_location: pickupLocation,
+        pickup_community_place_id: pickupPlace?.id,
         pickup_date: pickupDate,
         pickup_time: pickupTime,
         passenger_notes: notes || undefined,
+        seats_requested: seatsRequested,
       });
 
       const res = await fetch('/api/trips/bookings', {
@@ -42,9 +59,11 @@ export default function TripBookingModal({ isOpen, onClose, ride }: TripBookingM
         body: JSON.stringify({
           ride_id: ride.id,
           pickup_location: pickupLocation,
+          pickup_community_place_id: pickupPlace?.id,
           pickup_date: pickupDate,
           pickup_time: pickupTime,
           passenger_notes: notes,
+          seats_requested: seatsRequested,
         }),
       });
 
@@ -61,7 +80,11 @@ export default function TripBookingModal({ isOpen, onClose, ride }: TripBookingM
 
       onClose();
       // Optional: Trigger a refresh or toast
-      toast.success('Request sent successfully!');
+      toast.success(
+        data.status === 'waitlisted'
+          ? "You're on the waitlist. We'll offer you a seat if one opens up."
+          : 'Request sent successfully!'
+      );
     } catch (err: unknown) {
       if (err instanceof z.ZodError) {
         setError(err.issues[0].message);
@@ -106,10 +129,48 @@ export default function TripBookingModal({ isOpen, onClose, ride }: TripBookingM
                   as="h3"
                   className="text-lg font-medium leading-6 text-gray-900 dark:text-white"
                 >
-                  Request to Join Ride
+                  {joinsWaitlist ? 'Join Waitlist' : 'Request to Join Ride'}
                 </DialogTitle>
 
+                {joinsWaitlist && (
+                  <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                    {ride.available_seats === 0
+                      ? 'This ride is full.'
+                      : `Only ${ride.available_seats} seat(s) left.`}{' '}
+                    If enough seats open up, the first riders in line are invited automatically.
+                  </p>
+                )}
+
                 <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+                  {places.length > 0 && (
+                    <div>
+                      <label
+                        htmlFor="pickup-place"
+                        className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+                      >
+                        Meeting Place (Optional)
+                      </label>
+                      <select
+                        id="pickup-place"
+                        value={pickupPlaceId}
+                        onChange={(e) => handlePickupPlaceChange(e.target.value)}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:bg-slate-800 dark:border-slate-700 sm:text-sm px-3 py-2 border"
+                      >
+                        <option value="">Enter my own pickup address</option>
+                        {places.map((place) => (
+                          <option key={place.id} value={place.id}>
+                            {place.name} ({COMMUNITY_PLACE_TYPE_LABELS[place.place_type]})
+                          </option>
+                        ))}
+                      </select>
+                      {pickupPlace?.parking_notes && (
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          Parking: {pickupPlace.parking_notes}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   <div>
                     <label
                       htmlFor="pickup-location"
@@ -122,7 +183,11 @@ export default function TripBookingModal({ isOpen, onClose, ride }: TripBookingM
                       type="text"
                       required
                       value={pickupLocation}
-                      onChange={(e) => setPickupLocation(e.target.value)}
+                      onChange={(e) => {
+                        setPickupLocation(e.target.value);
+                        // Editing the text turns a meeting place into a custom address
+                        setPickupPlaceId('');
+                      }}
                       className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:bg-slate-800 dark:border-slate-700 sm:text-sm px-3 py-2 border"
                       placeholder="e.g. 123 Main St"
                     />
@@ -163,6 +228,28 @@ export default function TripBookingModal({ isOpen, onClose, ride }: TripBookingM
                     </div>
                   </div>
 
+                  <div>
+                    <label
+                      htmlFor="seats-requested"
+                      className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+                    >
+                      Seats Needed
+                    </label>
+                    <input
+                      id="seats-requested"
+                      type="number"
+                      required
+                      min={1}
+                      max={MAX_SEATS_PER_BOOKING}
+                      value={seatsRequested}
+                      onChange={(e) => setSeatsRequested(Number(e.target.value))}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:bg-slate-800 dark:border-slate-700 sm:text-sm px-3 py-2 border"
+                    />
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      Include anyone riding with you. The driver may approve fewer seats.
+                    </p>
+                  </div>
+
                   <div>
                     <label
                       htmlFor="passenger-notes"
@@ -195,7 +282,7 @@ export default function TripBookingModal({ isOpen, onClose, ride }: TripBookingM
                       disabled={isSubmitting}
                       className="inline-flex justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-blue-400"
                     >
-                      {isSubmitting ? 'Sending Request...' : 'Send Request'}
+                      {isSubmitting ? 'Sending Request...' : submitLabel}
                     </button>
                   </div>
                 </form>
@@ -5,13 +5,24 @@ import Link from 'next/link';
 interface TripBookingsListProps {
   readonly bookings: TripBooking[];
   readonly role: 'driver' | 'passenger';
-  // eslint-disable-next-line no-unused-vars
-  readonly onUpdateStatus: (_bookingId: string, _status: TripBooking['status']) => Promise<void>;
+  /* eslint-disable no-unused-vars */
+  readonly onUpdateStatus: (
+    _bookingId: string,
+    _status: TripBooking['status'],
+    _seats?: number
+  ) => Promise<void>;
+  /* eslint-enable no-unused-vars */
   // eslint-disable-next-line no-unused-vars
   readonly onMessage: (_recipient: ProfileType, _ride: RidePostType | null) => void;
   readonly bookingActionLoadingIds: string[];
   // eslint-disable-next-line no-unused-vars
   readonly onCancelRequest: (_bookingId: string) => Promise<void>;
+  readonly onRespondToPickupTime?: (
+    // eslint-disable-next-line no-unused-vars
+    _bookingId: string,
+    // eslint-disable-next-line no-unused-vars
+    _response: 'accept' | 'decline'
+  ) => Promise<void>;
 }
 
 export default function TripBookingsList({
@@ -21,6 +32,7 @@ export default function TripBookingsList({
   onMessage,
   bookingActionLoadingIds,
   onCancelRequest,
+  onRespondToPickupTime,
 }: TripBookingsListProps) {
   if (bookings.length === 0) {
     return (
@@ -40,19 +52,40 @@ export default function TripBookingsList({
     );
   }
 
+  // Waitlisted bookings are listed separately, in queue order
+  const activeBookings = bookings.filter((booking) => booking.status !== 'waitlisted');
+  const waitlistedBookings = bookings
+    .filter((booking) => booking.status === 'waitlisted')
+    .sort(
+      (a, b) =>
+        (a.waitlist_position ?? Number.MAX_SAFE_INTEGER) -
+        (b.waitlist_position ?? Number.MAX_SAFE_INTEGER)
+    );
+
+  const renderCard = (booking: TripBooking) => (
+    <TripBookingCard
+      key={booking.id}
+      booking={booking}
+      role={role}
+      onUpdateStatus={onUpdateStatus}
+      onMessage={onMessage}
+      onCancelRequest={onCancelRequest}
+      isCancelling={bookingActionLoadingIds.includes(booking.id)}
+      onRespondToPickupTime={onRespondToPickupTime}
+    />
+  );
+
   return (
     <div className="space-y-4">
-      {bookings.map((booking) => (
-        <TripBookingCard
-          key={booking.id}
-          booking={booking}
-          role={role}
-          onUpdateStatus={onUpdateStatus}
-          onMessage={onMessage}
-          onCancelRequest={onCancelRequest}
-          isCancelling={bookingActionLoadingIds.includes(booking.id)}
-        />
-      ))}
+      {activeBookings.map(renderCard)}
+      {waitlistedBookings.length > 0 && (
+        <>
+          <h3 className="pt-2 text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+            Waitlist
+          </h3>
+          {waitlistedBookings.map(renderCard)}
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,307 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import type { TripPlanBooking, TripPlanRide } from '@/app/community/types';
+import type { TripPlan } from '@/libs/tripPlan';
+import { addMinutesToDeparture, OFF_ROUTE_DETOUR_MILES } from '@/libs/tripPlan';
+import { formatDateLabel, formatTimeLabel } from '@/lib/dateFormat';
+import { sanitizeLocation } from '@/libs/sanitize/location';
+import LocationMap, { rideRouteMarkers, type MapMarker } from '@/components/map/Map';
+
+interface TripPlanViewProps {
+  rideId: string;
+}
+
+interface TripPlanResponse {
+  ride: TripPlanRide;
+  plan: TripPlan<TripPlanBooking> | null;
+  bookings: TripPlanBooking[];
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// `HH:mm` in the viewer's local time, as used by time inputs
+const toTimeInput = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const passengerName = (booking: TripPlanBooking) =>
+  booking.passenger
+    ? `${booking.passenger.first_name ?? ''} ${booking.passenger.last_name ?? ''}`.trim() ||
+      'Passenger'
+    : 'Passenger';
+
+/**
+ * Driver-facing plan for a ride: confirmed passengers' pickups in driving
+ * order with estimated arrival times, and a way to send each passenger an
+ * adjusted pickup time.
+ */
+export default function TripPlanView({ rideId }: Readonly<TripPlanViewProps>) {
+  const [data, setData] = useState<TripPlanResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Times the driver typed; stops without an entry use their estimated arrival
+  const [editedTimes, setEditedTimes] = useState<Record<string, string>>({});
+  const [sending, setSending] = useState(false);
+
+  const fetchPlan = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/trips/plan/${rideId}`, { credentials: 'include' });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(body.error || 'Failed to load trip plan');
+        return;
+      }
+      setData(body as TripPlanResponse);
+      setError(null);
+    } catch (fetchError) {
+      console.error(fetchError);
+      setError('Failed to load trip plan');
+    } finally {
+      setLoading(false);
+    }
+  }, [rideId]);
+
+  useEffect(() => {
+    fetchPlan();
+  }, [fetchPlan]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <p className="text-center text-red-500 py-8">{error ?? 'Failed to load trip plan'}</p>;
+  }
+
+  const { ride, plan, bookings } = data;
+
+  const currentTime = (booking: TripPlanBooking) =>
+    booking.pickup_time ? toTimeInput(new Date(booking.pickup_time)) : null;
+
+  const pendingTime = (booking: TripPlanBooking) =>
+    booking.proposed_pickup_time ? toTimeInput(new Date(booking.proposed_pickup_time)) : null;
+
+  const proposedTime = (booking: TripPlanBooking, minutesFromDeparture: number) =>
+    editedTimes[booking.id] ??
+    toTimeInput(
+      addMinutesToDeparture(ride.departure_date, ride.departure_time, minutesFromDeparture)
+    );
+
+  const changedStops =
+    plan?.pickups.filter(
+      (stop) =>
+        proposedTime(stop.booking, stop.minutesFromDeparture) !==
+        (pendingTime(stop.booking) ?? currentTime(stop.booking))
+    ) ?? [];
+
+  const handleSend = async () => {
+    if (changedStops.length === 0) return;
+
+    const proposals = changedStops.map((stop) => {
+      // Keep the pickup on the day it was booked for, falling back to the ride's date
+      const date = stop.booking.pickup_time
+        ? toDateInput(new Date(stop.booking.pickup_time))
+        : ride.departure_date;
+      const time = proposedTime(stop.booking, stop.minutesFromDeparture);
+      return {
+        booking_id: stop.booking.id,
+        pickup_time: new Date(`${date}T${time}:00`).toISOString(),
+      };
+    });
+
+    setSending(true);
+    try {
+      const response = await fetch(`/api/trips/plan/${rideId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ proposals }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(body.error || 'Failed to send pickup times');
+
+      const count = body.updated_booking_ids?.length ?? proposals.length;
+      toast.success(`Sent ${count} proposed pickup ${count === 1 ? 'time' : 'times'}`);
+      setEditedTimes({});
+      await fetchPlan();
+    } catch (sendError) {
+      console.error(sendError);
+      toast.error(sendError instanceof Error ? sendError.message : 'Failed to send pickup times');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const routeLabel = `${sanitizeLocation(ride.start_location)} → ${sanitizeLocation(ride.end_location)}`;
+  const departureLabel = [
+    formatDateLabel(ride.departure_date),
+    formatTimeLabel(ride.departure_time),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  const pickupMarkers: MapMarker[] = (plan?.pickups ?? []).map((stop) => ({
+    id: stop.booking.id,
+    lat: stop.booking.pickup_lat as number,
+    lng: stop.booking.pickup_lng as number,
+    kind: 'pickup',
+    label: `${stop.order}. ${passengerName(stop.booking)}: ${stop.booking.pickup_location ?? 'Pickup'}`,
+  }));
+  const mapMarkers = [...rideRouteMarkers(ride), ...pickupMarkers];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          {ride.title || routeLabel}
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {ride.title && `${routeLabel} · `}Departs {departureLabel}
+        </p>
+      </div>
+
+      {mapMarkers.length > 0 && <LocationMap markers={mapMarkers} height={320} />}
+
+      {bookings.length === 0 && (
+        <p className="text-gray-600 dark:text-gray-400">
+          No confirmed passengers yet. Pickups show up here once you confirm bookings.
+        </p>
+      )}
+
+      {bookings.length > 0 && !plan && (
+        <p className="text-amber-700 dark:text-amber-400">
+          We couldn&apos;t find this ride&apos;s start or destination on the map, so pickups
+          can&apos;t be put in order. Try editing the ride with a more specific location.
+        </p>
+      )}
+
+      {plan && plan.pickups.length > 0 && (
+        <>
+          <ol className="space-y-3">
+            <li className="text-sm text-gray-500 dark:text-gray-400">
+              Start: {sanitizeLocation(ride.start_location)} ·{' '}
+              {formatTimeLabel(ride.departure_time)}
+            </li>
+            {plan.pickups.map((stop) => {
+              const eta = addMinutesToDeparture(
+                ride.departure_date,
+                ride.departure_time,
+                stop.minutesFromDeparture
+              );
+              const current = currentTime(stop.booking);
+              const pending = pendingTime(stop.booking);
+              const inputId = `pickup-time-${stop.booking.id}`;
+
+              return (
+                <li
+                  key={stop.booking.id}
+                  className={`rounded-lg border p-4 ${
+                    stop.offRoute
+                      ? 'border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-900/20'
+                      : 'border-gray-200 bg-white dark:border-slate-700 dark:bg-slate-900'
+                  }`}
+                >
+                  <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                    <div>
+                      <p className="font-medium text-gray-900 dark:text-white">
+                        {stop.order}. {passengerName(stop.booking)}
+                        {stop.booking.seats > 1 && ` (${stop.booking.seats} seats)`}
+                      </p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {sanitizeLocation(stop.booking.pickup_location) || 'Pickup TBD'}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {stop.legMiles} mi from the last stop · arrive around{' '}
+                        {formatTimeLabel(toTimeInput(eta))}
+                        {current && ` · currently ${formatTimeLabel(current)}`}
+                        {pending && ` · proposed ${formatTimeLabel(pending)}, awaiting reply`}
+                      </p>
+                      {stop.offRoute && (
+                        <p className="text-xs font-medium text-amber-700 dark:text-amber-400 mt-1">
+                          ⚠️ Off route: adds about {stop.detourMiles} mi (more than{' '}
+                          {OFF_ROUTE_DETOUR_MILES} mi). Consider a meeting point closer to the
+                          route.
+                        </p>
+                      )}
+                    </div>
+                    <div className="shrink-0">
+                      <label
+                        htmlFor={inputId}
+                        className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1"
+                      >
+                        Pickup time
+                      </label>
+                      <input
+                        id={inputId}
+                        type="time"
+                        value={proposedTime(stop.booking, stop.minutesFromDeparture)}
+                        onChange={(event) =>
+                          setEditedTimes((previous) => ({
+                            ...previous,
+                            [stop.booking.id]: event.target.value,
+                          }))
+                        }
+                        className="rounded-md border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-2 py-1 text-sm text-gray-900 dark:text-white"
+                      />
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+            <li className="text-sm text-gray-500 dark:text-gray-400">
+              Arrive at {sanitizeLocation(ride.end_location)} around{' '}
+              {formatTimeLabel(
+                toTimeInput(
+                  addMinutesToDeparture(
+                    ride.departure_date,
+                    ride.departure_time,
+                    plan.minutesToDestination
+                  )
+                )
+              )}{' '}
+              · {plan.totalMiles} mi total
+            </li>
+          </ol>
+
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <button
+              type="button"
+              onClick={handleSend}
+              disabled={sending || changedStops.length === 0}
+              className="bg-blue-600 text-white px-4 py-2.5 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {sending ? 'Sending...' : 'Send proposed times'}
+            </button>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {changedStops.length === 0
+                ? 'Every passenger already has or has been sent these pickup times.'
+                : `${changedStops.length} ${changedStops.length === 1 ? 'passenger' : 'passengers'} will be asked to accept their new pickup time.`}
+            </p>
+          </div>
+        </>
+      )}
+
+      {plan && plan.unlocated.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+            Pickups we couldn&apos;t place on the map
+          </h3>
+          <ul className="space-y-1 text-sm text-gray-600 dark:text-gray-400">
+            {plan.unlocated.map((booking) => (
+              <li key={booking.id}>
+                {passengerName(booking)}:{' '}
+                {sanitizeLocation(booking.pickup_location) || 'no pickup location'}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -16,6 +16,8 @@ interface PhotoUploadProps {
   disabled?: boolean;
   bucketName?: string;
   id: string; // Added 'id' prop for accessibility/labeling
+  subject?: string; // What the photo shows, used in the upload hint and remove button
+  alt?: string;
 }
 
 /**
@@ -131,6 +133,8 @@ const PhotoUpload = React.memo(
     disabled = false,
     bucketName = 'profile-photos',
     id,
+    subject = 'profile photo',
+    alt = 'Profile',
   }: PhotoUploadProps) => {
     // #region State and Refs
     const [uploading, setUploading] = useState<boolean>(false);
@@ -300,7 +304,7 @@ const PhotoUpload = React.memo(
             <div className="relative">
               <OptimizedImage
                 src={photoUrl}
-                alt="Profile"
+                alt={alt}
                 width={96}
                 height={96}
                 className="w-24 h-24 rounded-full object-cover border-2 border-gray-200 overflow-hidden"
@@ -312,7 +316,7 @@ const PhotoUpload = React.memo(
                   type="button"
                   onClick={removePhoto}
                   className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center text-sm hover:bg-red-600"
-                  aria-label="Remove profile photo"
+                  aria-label={`Remove ${subject}`}
                 >
                   ×
                 </button>
@@ -346,7 +350,7 @@ const PhotoUpload = React.memo(
               </button>
             )}
 
-            <p className="text-xs text-gray-500 mt-1">Upload a profile photo</p>
+            <p className="text-xs text-gray-500 mt-1">Upload a {subject}</p>
           </div>
         </div>
 
@@ -201,6 +201,7 @@ describe('VehicleForm', () => {
           color: 'White',
           drivetrain: 'AWD',
           license_plate: 'TESLA1',
+          mpg: null,
         });
       });
     });
@@ -382,6 +383,7 @@ describe('VehicleForm', () => {
       await user.type(yearInput, '2022');
       await user.type(screen.getByLabelText(/Color/i), 'Orange');
       await user.selectOptions(screen.getByLabelText(/Drivetrain/i), '4WD');
+      await user.type(screen.getByLabelText(/Fuel Economy/i), '18.5');
 
       await user.click(screen.getByRole('button', { name: /Add Vehicle/i }));
 
@@ -585,6 +587,7 @@ describe('VehicleForm', () => {
       await user.type(screen.getByLabelText(/Color/i), 'Silver');
       await user.type(screen.getByLabelText(/License Plate/i), 'CAD123');
       await user.selectOptions(screen.getByLabelText(/Drivetrain/i), '4WD');
+      await user.type(screen.getByLabelText(/Fuel Economy/i), '18.5');
 
       await user.click(screen.getByRole('button', { name: /Add Vehicle/i }));
 
@@ -602,6 +605,7 @@ describe('VehicleForm', () => {
         color: 'Silver',
         license_plate: 'CAD123',
         drivetrain: '4WD',
+        mpg: 18.5,
       });
     });
   });
@@ -173,6 +173,32 @@ export default function VehicleForm({
           )}
         </div>
 
+        <div>
+          <label
+            htmlFor="mpg"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+          >
+            Fuel Economy (MPG, Optional)
+          </label>
+          <input
+            id="mpg"
+            type="number"
+            step="0.1"
+            min="0"
+            {...register('mpg', {
+              setValueAs: (value) => (value === '' || value === null ? null : Number(value)),
+            })}
+            className="mt-1 block w-full rounded-md border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            placeholder="e.g. 28"
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Used to suggest a fair cost share when you post a ride.
+          </p>
+          {errors.mpg && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.mpg.message}</p>
+          )}
+        </div>
+
         <div className="md:col-span-2">
           <label
             htmlFor="license_plate"
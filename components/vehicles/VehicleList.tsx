@@ -12,6 +12,7 @@ interface VehicleWithId {
   color: string;
   license_plate?: string;
   drivetrain?: 'FWD' | 'RWD' | 'AWD' | '4WD';
+  mpg?: number | null;
 }
 
 export default function VehicleList() {
@@ -123,6 +124,9 @@ export default function VehicleList() {
               <p className="text-gray-600 dark:text-gray-300">
                 {vehicle.color} • {vehicle.drivetrain || 'Unknown Drivetrain'}
               </p>
+              {vehicle.mpg && (
+                <p className="text-gray-500 dark:text-gray-400 text-sm mt-1">{vehicle.mpg} MPG</p>
+              )}
               {vehicle.license_plate && (
                 <p className="text-gray-500 dark:text-gray-400 text-sm mt-1">
                   Plate: {vehicle.license_plate}
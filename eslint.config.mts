@@ -32,6 +32,8 @@ export default defineConfig([
     '**/.env.*',
     '**/.open-next/**',
     'supabase/functions/**',
+    // pgTAP tests, run by `npm run test:db`
+    'supabase/tests/**',
   ]),
   {
     files: ['**/*.{js,mjs,cjs,ts,mts,cts,jsx,tsx}'],
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import type { CommunityPlace } from '@/app/community/types';
+
+/**
+ * Represents the state returned from `useCommunityPlaces`.
+ */
+interface UseCommunityPlacesResult {
+  /** Approved community places, sorted by name. */
+  places: CommunityPlace[];
+  /** True while the places are loading. */
+  loading: boolean;
+}
+
+/**
+ * Loads the approved community places members can pick as a departure or
+ * pickup point. Failures are logged and leave the list empty, since every
+ * place field also accepts a typed address.
+ *
+ * @param enabled Set to false to hold off loading, e.g. while a modal is closed.
+ */
+export function useCommunityPlaces(enabled = true): UseCommunityPlacesResult {
+  const [places, setPlaces] = useState<CommunityPlace[]>([]);
+  const [loading, setLoading] = useState(enabled);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+
+    const fetchPlaces = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch('/api/community/places?status=approved', {
+          credentials: 'include',
+        });
+        if (!response.ok) throw new Error(`Failed to fetch places (${response.status})`);
+        const data = await response.json();
+        if (!cancelled) setPlaces(data.places ?? []);
+      } catch (error) {
+        console.error('Error loading community places:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchPlaces();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return { places, loading };
+}
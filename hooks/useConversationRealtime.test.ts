@@ -0,0 +1,200 @@
+import { act, renderHook } from '@testing-library/react';
+import { useConversationRealtime } from './useConversationRealtime';
+import { createClient } from '@/lib/supabase/client';
+
+jest.mock('@/lib/supabase/client');
+
+type Listener = {
+  type: string;
+  filter: { event: string };
+  // eslint-disable-next-line no-unused-vars
+  callback: (payload?: { new: unknown }) => void;
+};
+
+type MockChannel = {
+  presence: Record<string, Array<{ typing?: boolean }>>;
+  on: jest.Mock;
+  subscribe: jest.Mock;
+  presenceState: jest.Mock;
+  track: jest.Mock;
+  // eslint-disable-next-line no-unused-vars
+  emitStatus: (status: string) => void;
+  // eslint-disable-next-line no-unused-vars
+  emit: (type: string, event: string, payload?: { new: unknown }) => void;
+};
+
+const createChannel = (): MockChannel => {
+  const listeners: Listener[] = [];
+  // eslint-disable-next-line no-unused-vars
+  let statusCallback: ((status: string) => void) | undefined;
+  const channel: MockChannel = {
+    presence: {},
+    on: jest.fn(),
+    subscribe: jest.fn(),
+    presenceState: jest.fn(() => channel.presence),
+    track: jest.fn(),
+    emitStatus: (status) => statusCallback?.(status),
+    emit: (type, event, payload) =>
+      listeners
+        .filter((listener) => listener.type === type && listener.filter.event === event)
+        .forEach((listener) => listener.callback(payload)),
+  };
+  channel.on.mockImplementation(
+    (type: string, filter: { event: string }, callback: Listener['callback']) => {
+      listeners.push({ type, filter, callback });
+      return channel;
+    }
+  );
+  // eslint-disable-next-line no-unused-vars
+  channel.subscribe.mockImplementation((callback: (status: string) => void) => {
+    statusCallback = callback;
+    return channel;
+  });
+  return channel;
+};
+
+describe('useConversationRealtime', () => {
+  const mockCreateClient = createClient as jest.Mock;
+  let channels: MockChannel[];
+  const supabase = {
+    channel: jest.fn(),
+    removeChannel: jest.fn(),
+  };
+
+  const handlers = () => ({
+    onInsert: jest.fn(),
+    onUpdate: jest.fn(),
+    onResync: jest.fn(),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    channels = [];
+    supabase.channel.mockImplementation(() => {
+      const channel = createChannel();
+      channels.push(channel);
+      return channel;
+    });
+    mockCreateClient.mockReturnValue(supabase);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('does not subscribe without a conversation', () => {
+    renderHook(() => useConversationRealtime(null, 'user-1', handlers()));
+
+    expect(supabase.channel).not.toHaveBeenCalled();
+  });
+
+  it('streams inserts and updates for the conversation', () => {
+    const callbacks = handlers();
+    renderHook(() => useConversationRealtime('convo-1', 'user-1', callbacks));
+
+    expect(supabase.channel).toHaveBeenCalledWith('conversation:convo-1', {
+      config: { presence: { key: 'user-1' } },
+    });
+    expect(channels[0].on).toHaveBeenCalledWith(
+      'postgres_changes',
+      expect.objectContaining({ event: 'INSERT', filter: 'conversation_id=eq.convo-1' }),
+      expect.any(Function)
+    );
+
+    channels[0].emit('postgres_changes', 'INSERT', { new: { id: 'msg-1' } });
+    channels[0].emit('postgres_changes', 'UPDATE', { new: { id: 'msg-1', is_read: true } });
+
+    expect(callbacks.onInsert).toHaveBeenCalledWith({ id: 'msg-1' });
+    expect(callbacks.onUpdate).toHaveBeenCalledWith({ id: 'msg-1', is_read: true });
+  });
+
+  it('reports other members who are typing', () => {
+    const { result } = renderHook(() => useConversationRealtime('convo-1', 'user-1', handlers()));
+
+    act(() => {
+      channels[0].presence = {
+        'user-1': [{ typing: true }],
+        'user-2': [{ typing: true }],
+        'user-3': [{ typing: false }],
+      };
+      channels[0].emit('presence', 'sync');
+    });
+
+    expect(result.current.typingUserIds).toEqual(['user-2']);
+  });
+
+  it('broadcasts typing changes once subscribed and clears them when idle', () => {
+    const { result } = renderHook(() => useConversationRealtime('convo-1', 'user-1', handlers()));
+
+    act(() => {
+      result.current.setTyping(true);
+    });
+    expect(channels[0].track).not.toHaveBeenCalled();
+
+    act(() => {
+      channels[0].emitStatus('SUBSCRIBED');
+    });
+    act(() => {
+      result.current.setTyping(true);
+      result.current.setTyping(true);
+    });
+    expect(channels[0].track).toHaveBeenCalledTimes(1);
+    expect(channels[0].track).toHaveBeenCalledWith({ typing: true });
+
+    act(() => {
+      jest.advanceTimersByTime(3000);
+    });
+    expect(channels[0].track).toHaveBeenLastCalledWith({ typing: false });
+  });
+
+  it('recreates a closed channel and resyncs once it is back', () => {
+    const callbacks = handlers();
+    const { result } = renderHook(() => useConversationRealtime('convo-1', 'user-1', callbacks));
+
+    act(() => {
+      channels[0].emitStatus('SUBSCRIBED');
+    });
+    expect(result.current.isConnected).toBe(true);
+    expect(callbacks.onResync).not.toHaveBeenCalled();
+
+    act(() => {
+      channels[0].emitStatus('CLOSED');
+    });
+    expect(result.current.isConnected).toBe(false);
+
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(supabase.removeChannel).toHaveBeenCalledWith(channels[0]);
+    expect(channels).toHaveLength(2);
+
+    act(() => {
+      channels[1].emitStatus('SUBSCRIBED');
+    });
+    expect(result.current.isConnected).toBe(true);
+    expect(callbacks.onResync).toHaveBeenCalledTimes(1);
+  });
+
+  it('resyncs after the realtime client rejoins following an error', () => {
+    const callbacks = handlers();
+    renderHook(() => useConversationRealtime('convo-1', 'user-1', callbacks));
+
+    act(() => {
+      channels[0].emitStatus('SUBSCRIBED');
+      channels[0].emitStatus('CHANNEL_ERROR');
+      channels[0].emitStatus('SUBSCRIBED');
+    });
+
+    expect(channels).toHaveLength(1);
+    expect(callbacks.onResync).toHaveBeenCalledTimes(1);
+  });
+
+  it('removes the channel on unmount', () => {
+    const { unmount } = renderHook(() => useConversationRealtime('convo-1', 'user-1', handlers()));
+
+    unmount();
+
+    expect(supabase.removeChannel).toHaveBeenCalledWith(channels[0]);
+  });
+});
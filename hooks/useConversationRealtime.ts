@@ -0,0 +1,182 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/client';
+
+/** Stop showing a member as typing if they go quiet without sending. */
+const TYPING_IDLE_MS = 3000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+interface ConversationRealtimeHandlers<TMessage> {
+  // eslint-disable-next-line no-unused-vars
+  onInsert: (message: TMessage) => void;
+  // eslint-disable-next-line no-unused-vars
+  onUpdate: (message: TMessage) => void;
+  /** Called after the connection comes back, to fetch anything missed meanwhile. */
+  onResync: () => void;
+}
+
+interface TypingPresence {
+  typing?: boolean;
+}
+
+/**
+ * Streams new and updated messages for one conversation and shares "typing…"
+ * presence between its members.
+ *
+ * The channel is recreated with backoff if it closes or times out, and
+ * `onResync` runs whenever it resubscribes after an interruption so the
+ * thread catches up on messages sent while it was offline.
+ *
+ * @param conversationId - Conversation to follow, or null when none is open
+ * @param userId - Current user, used as the presence key
+ * @param handlers - Message callbacks; they may change between renders
+ * @returns Ids of other members currently typing, whether the channel is live,
+ * and a setter to broadcast the current user's typing state
+ */
+export function useConversationRealtime<TMessage>(
+  conversationId: string | null,
+  userId: string | null,
+  handlers: ConversationRealtimeHandlers<TMessage>
+) {
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+  const handlersRef = useRef(handlers);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const isJoinedRef = useRef(false);
+  const isTypingRef = useRef(false);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  useEffect(() => {
+    if (!conversationId || !userId) {
+      return;
+    }
+
+    const supabase = createClient();
+    let disposed = false;
+    let interrupted = false;
+    let attempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = () => {
+      const channel = supabase.channel(`conversation:${conversationId}`, {
+        config: { presence: { key: userId } },
+      });
+      channelRef.current = channel;
+
+      const messageFilter = {
+        schema: 'public',
+        table: 'messages',
+        filter: `conversation_id=eq.${conversationId}`,
+      };
+
+      channel
+        .on('postgres_changes', { event: 'INSERT', ...messageFilter }, (payload) => {
+          handlersRef.current.onInsert(payload.new as TMessage);
+        })
+        .on('postgres_changes', { event: 'UPDATE', ...messageFilter }, (payload) => {
+          handlersRef.current.onUpdate(payload.new as TMessage);
+        })
+        .on('presence', { event: 'sync' }, () => {
+          const state = channel.presenceState<TypingPresence>();
+          setTypingUserIds(
+            Object.entries(state)
+              .filter(([key, metas]) => key !== userId && metas.some((meta) => meta.typing))
+              .map(([key]) => key)
+          );
+        })
+        .subscribe((status) => {
+          // Statuses from a channel we already replaced or tore down are stale
+          if (disposed || channelRef.current !== channel) {
+            return;
+          }
+
+          isJoinedRef.current = status === 'SUBSCRIBED';
+
+          if (status === 'SUBSCRIBED') {
+            setIsConnected(true);
+            attempts = 0;
+            if (interrupted) {
+              interrupted = false;
+              handlersRef.current.onResync();
+            }
+            return;
+          }
+
+          setIsConnected(false);
+          setTypingUserIds([]);
+          isTypingRef.current = false;
+          interrupted = true;
+
+          // CHANNEL_ERROR is retried by the realtime client itself; a closed or
+          // timed-out channel has to be recreated
+          if ((status === 'CLOSED' || status === 'TIMED_OUT') && !reconnectTimer) {
+            const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempts);
+            attempts += 1;
+            reconnectTimer = setTimeout(() => {
+              reconnectTimer = null;
+              channelRef.current = null;
+              supabase.removeChannel(channel);
+              if (!disposed) {
+                connect();
+              }
+            }, delay);
+          }
+        });
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+      if (typingTimeoutRef.current) {
+        clearTimeout(typingTimeoutRef.current);
+        typingTimeoutRef.current = null;
+      }
+      isTypingRef.current = false;
+      isJoinedRef.current = false;
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        channelRef.current = null;
+      }
+      setTypingUserIds([]);
+      setIsConnected(false);
+    };
+  }, [conversationId, userId]);
+
+  const setTyping = useCallback((typing: boolean) => {
+    const channel = channelRef.current;
+    if (!channel || !isJoinedRef.current) {
+      return;
+    }
+
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+      typingTimeoutRef.current = null;
+    }
+
+    if (typing) {
+      typingTimeoutRef.current = setTimeout(() => {
+        typingTimeoutRef.current = null;
+        isTypingRef.current = false;
+        channel.track({ typing: false });
+      }, TYPING_IDLE_MS);
+    }
+
+    // Only broadcast changes, not every keystroke
+    if (isTypingRef.current !== typing) {
+      isTypingRef.current = typing;
+      channel.track({ typing });
+    }
+  }, []);
+
+  return { typingUserIds, isConnected, setTyping };
+}
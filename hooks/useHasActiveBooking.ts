@@ -3,7 +3,7 @@ import { createClient } from '@/lib/supabase/client';
 
 /**
  * Hook to check if the current user has an active booking with another user.
- * Returns true if there's a pending, confirmed, or invited trip_booking between the users.
+ * Returns true if there's a pending, confirmed, invited, or waitlisted trip_booking between the users.
  */
 export function useHasActiveBooking(
   currentUserId: string | undefined,
@@ -30,7 +30,7 @@ export function useHasActiveBooking(
           .or(
             `and(driver_id.eq.${currentUserId},passenger_id.eq.${otherUserId}),and(driver_id.eq.${otherUserId},passenger_id.eq.${currentUserId})`
           )
-          .in('status', ['pending', 'confirmed', 'invited'])
+          .in('status', ['pending', 'confirmed', 'invited', 'waitlisted'])
           .maybeSingle();
 
         if (error) {
@@ -238,6 +238,9 @@ export const useUpdateProfile = () => {
         emergency_contact_name,
         emergency_contact_number,
         emergency_contact_email,
+        timezone,
+        quiet_hours_start,
+        quiet_hours_end,
         // display_lat/lng are on profiles (public fuzzy loc)?
         // No, display_lat/lng are usually calculated from private address but stored on profiles for public view.
         // Let's verify schema... yes, display_lat is on profiles.
@@ -260,6 +263,9 @@ export const useUpdateProfile = () => {
         emergency_contact_name,
         emergency_contact_number,
         emergency_contact_email,
+        timezone,
+        quiet_hours_start,
+        quiet_hours_end,
       };
 
       // Clean undefined from privateData for upsert
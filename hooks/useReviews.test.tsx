@@ -60,6 +60,7 @@ const mockStatsData = { ...mockStats, error: null };
 const mockSubmitData: ReviewSubmissionData = {
   bookingId: 'booking-123',
   rating: 5,
+  categoryRatings: { punctuality: 5, respectfulness: 5, payment: 5 },
   comment: 'Excellent service!',
 };
 
@@ -7,6 +7,8 @@ import {
   UseQueryResult,
 } from '@tanstack/react-query';
 
+import type { CategoryAverages, CategoryRatings, ReviewRole } from '@/libs/reviews';
+
 // #region Type Definitions
 
 /** Represents a single review object returned from the API. */
@@ -17,8 +19,10 @@ export interface Review {
   reviewer_role: string;
   reviewed_role: string;
   rating: number; // 1 to 5
+  category_ratings?: CategoryRatings; // Empty for reviews left before categories existed
   comment: string | null;
   created_at: string; // ISO Date String
+  revealed_at?: string; // ISO Date String; hidden until both sides review or the window closes
   booking?: {
     ride: {
       start_location: string;
@@ -35,6 +39,14 @@ export interface Review {
     last_name: string;
     profile_photo_url: string | null;
   };
+  response?: ReviewResponse | null; // The reviewee's one public reply
+  dispute?: { status: 'pending' | 'kept' | 'hidden' } | null; // Only returned to the disputer
+}
+
+/** The reviewee's public reply to a review. */
+export interface ReviewResponse {
+  body: string;
+  created_at: string; // ISO Date String
 }
 
 /** Represents the aggregated statistics for a user's reviews. */
@@ -42,6 +54,7 @@ export interface ReviewStats {
   averageRating: number;
   reviewCount: number;
   ratingDistribution: Record<1 | 2 | 3 | 4 | 5, number>;
+  categoryAverages?: Record<ReviewRole, CategoryAverages>;
 }
 
 /** Represents the shape of the data returned by useUserReviews. */
@@ -54,9 +67,22 @@ export interface UserReviewsResult {
 export interface ReviewSubmissionData {
   bookingId: string;
   rating: number;
+  categoryRatings: CategoryRatings;
   comment: string;
 }
 
+/** Data for the reviewee's reply to a review. */
+export interface ReviewResponseData {
+  reviewId: string;
+  body: string;
+}
+
+/** Data for disputing a review. */
+export interface ReviewDisputeData {
+  reviewId: string;
+  reason: string;
+}
+
 /** Represents the response data after a successful submission. */
 export interface ReviewSubmissionResponse {
   review: Review;
@@ -178,3 +204,79 @@ export const useSubmitReview = (): UseSubmitReviewReturn => {
 };
 
 // #endregion
+
+// #region Review Response & Dispute Hooks
+
+/**
+ * Posts to one of a review's action routes and returns the parsed body.
+ *
+ * @throws {Error} When the request does not succeed.
+ */
+const postReviewAction = async <T>(
+  reviewId: string,
+  action: 'response' | 'dispute',
+  payload: Record<string, string>,
+  fallbackError: string
+): Promise<T> => {
+  const response = await fetch(`/api/reviews/${reviewId}/${action}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  });
+
+  const data: T & { error?: string } = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+
+  return data;
+};
+
+/**
+ * Posts the reviewee's one public reply to a review and refreshes review lists.
+ *
+ * @returns A mutation result exposing the saved reply.
+ * @throws {Error} When the POST request does not succeed.
+ */
+export const useRespondToReview = (): UseMutationResult<
+  { response: ReviewResponse },
+  Error,
+  ReviewResponseData
+> => {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ response: ReviewResponse }, Error, ReviewResponseData>({
+    mutationFn: ({ reviewId, body }) =>
+      postReviewAction(reviewId, 'response', { body }, 'Failed to respond to review'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reviews'] });
+    },
+  });
+};
+
+/**
+ * Sends a review to the admin dispute queue and refreshes review lists.
+ *
+ * @returns A mutation result exposing the new dispute.
+ * @throws {Error} When the POST request does not succeed.
+ */
+export const useDisputeReview = (): UseMutationResult<
+  { dispute: { id: string; status: string } },
+  Error,
+  ReviewDisputeData
+> => {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ dispute: { id: string; status: string } }, Error, ReviewDisputeData>({
+    mutationFn: ({ reviewId, reason }) =>
+      postReviewAction(reviewId, 'dispute', { reason }, 'Failed to dispute review'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reviews'] });
+    },
+  });
+};
+
+// #endregion
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { createClient } from '@/lib/supabase/client';
+import type { RoadCondition } from '@/libs/roadConditions/corridors';
+
+/**
+ * Current chain-control levels for each corridor, shared by every ride card
+ * on the page. Failures are logged and resolve to no conditions, so rides
+ * simply show no warning.
+ */
+export const useRoadConditions = () => {
+  const supabase = createClient();
+
+  return useQuery<RoadCondition[], Error>({
+    queryKey: ['road-conditions'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('road_conditions')
+        .select('corridor, chain_control, description, source, reported_at');
+
+      if (error) {
+        console.error('Failed to fetch road conditions:', error);
+        return [];
+      }
+
+      return (data as RoadCondition[]) ?? [];
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
@@ -0,0 +1,123 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/** Share of a message bubble that must be on screen before it counts as seen. */
+const SEEN_THRESHOLD = 0.6;
+/** Messages seen in quick succession are reported together. */
+const FLUSH_DELAY_MS = 300;
+
+/**
+ * Reports messages once they have actually been on screen while the tab is
+ * visible, so read receipts reflect what the user saw rather than everything
+ * in the thread.
+ *
+ * Attach the returned ref factory to each unread incoming message. Ids are
+ * batched and passed to `onSeen` once per burst; each id is reported only once.
+ *
+ * @param onSeen - Receives the ids of newly seen messages
+ * @returns A function that builds a ref callback for a message id
+ */
+// eslint-disable-next-line no-unused-vars
+export function useSeenMessages(onSeen: (messageIds: string[]) => void) {
+  const onSeenRef = useRef(onSeen);
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  // Ids currently on screen; a stable set mutated by the observer
+  const [visibleIds] = useState(() => new Set<string>());
+  const reportedIdsRef = useRef(new Set<string>());
+  const pendingIdsRef = useRef(new Set<string>());
+  const flushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    onSeenRef.current = onSeen;
+  }, [onSeen]);
+
+  const flush = useCallback(() => {
+    flushTimerRef.current = null;
+    const ids = Array.from(pendingIdsRef.current);
+    pendingIdsRef.current.clear();
+    if (ids.length > 0) {
+      onSeenRef.current(ids);
+    }
+  }, []);
+
+  const markSeen = useCallback(
+    (messageId: string) => {
+      if (reportedIdsRef.current.has(messageId) || document.visibilityState !== 'visible') {
+        return;
+      }
+      reportedIdsRef.current.add(messageId);
+      pendingIdsRef.current.add(messageId);
+      if (!flushTimerRef.current) {
+        flushTimerRef.current = setTimeout(flush, FLUSH_DELAY_MS);
+      }
+    },
+    [flush]
+  );
+
+  // Created on first use because refs attach before effects run
+  const getObserver = useCallback(() => {
+    if (!observerRef.current && typeof IntersectionObserver !== 'undefined') {
+      observerRef.current = new IntersectionObserver(
+        (entries) => {
+          entries.forEach((entry) => {
+            const messageId = (entry.target as HTMLElement).dataset.messageId;
+            if (!messageId) return;
+            if (entry.isIntersecting) {
+              visibleIds.add(messageId);
+              markSeen(messageId);
+            } else {
+              visibleIds.delete(messageId);
+            }
+          });
+        },
+        { threshold: SEEN_THRESHOLD }
+      );
+    }
+    return observerRef.current;
+  }, [markSeen, visibleIds]);
+
+  useEffect(() => {
+    // Messages left on screen in a background tab count once the tab is back
+    const handleVisibilityChange = () => {
+      visibleIds.forEach((messageId) => markSeen(messageId));
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      if (flushTimerRef.current) {
+        clearTimeout(flushTimerRef.current);
+        flush();
+      }
+    };
+  }, [flush, markSeen, visibleIds]);
+
+  useEffect(() => {
+    return () => {
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+    };
+  }, []);
+
+  return useCallback(
+    (messageId: string) => (element: HTMLElement | null) => {
+      if (!element) return;
+
+      const observer = getObserver();
+      if (!observer) {
+        // Without IntersectionObserver, rendering is the best signal available
+        markSeen(messageId);
+        return;
+      }
+
+      element.dataset.messageId = messageId;
+      observer.observe(element);
+      return () => {
+        observer.unobserve(element);
+        visibleIds.delete(messageId);
+      };
+    },
+    [getObserver, markSeen, visibleIds]
+  );
+}
@@ -123,4 +123,35 @@ describe('useUnreadMessages', () => {
       expect(mockSupabase.channel).toHaveBeenCalledWith('unread-messages-count');
     });
   });
+
+  it('refetches the count when the realtime connection recovers', async () => {
+    const mockUser = { id: 'user-123' };
+    mockUseUser.mockReturnValue({ user: mockUser });
+
+    const mockEq2 = jest.fn().mockResolvedValue({ count: 1, error: null });
+    const mockEq1 = jest.fn().mockReturnValue({ eq: mockEq2 });
+    mockSupabase.from.mockReturnValue({ select: jest.fn().mockReturnValue({ eq: mockEq1 }) });
+
+    const mockSubscribe = jest.fn();
+    mockSupabase.channel.mockReturnValue({
+      on: jest.fn().mockReturnValue({ subscribe: mockSubscribe }),
+    });
+
+    renderHook(() => useUnreadMessages());
+
+    await waitFor(() => {
+      expect(mockSubscribe).toHaveBeenCalled();
+    });
+    const onStatus = mockSubscribe.mock.calls[0][0];
+
+    onStatus('SUBSCRIBED');
+    expect(mockEq2).toHaveBeenCalledTimes(1);
+
+    onStatus('CHANNEL_ERROR');
+    onStatus('SUBSCRIBED');
+
+    await waitFor(() => {
+      expect(mockEq2).toHaveBeenCalledTimes(2);
+    });
+  });
 });
@@ -41,6 +41,8 @@ export function useUnreadMessages() {
 
     fetchUnreadCount();
 
+    let interrupted = false;
+
     // Subscribe to new messages or changes to existing messages
     const channel = supabase
       .channel('unread-messages-count')
@@ -56,7 +58,15 @@ export function useUnreadMessages() {
           fetchUnreadCount();
         }
       )
-      .subscribe();
+      .subscribe((status) => {
+        // Catch up on changes missed while the connection was down
+        if (status !== 'SUBSCRIBED') {
+          interrupted = true;
+        } else if (interrupted) {
+          interrupted = false;
+          fetchUnreadCount();
+        }
+      });
 
     return () => {
       supabase.removeChannel(channel);
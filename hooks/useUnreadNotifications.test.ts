@@ -0,0 +1,84 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import { useUnreadNotifications } from './useUnreadNotifications';
+import { useUser } from '@/components/providers/SupabaseUserProvider';
+import { createClient } from '@/lib/supabase/client';
+
+jest.mock('@/components/providers/SupabaseUserProvider');
+jest.mock('@/lib/supabase/client');
+
+describe('useUnreadNotifications', () => {
+  const mockUseUser = useUser as jest.Mock;
+  const mockCreateClient = createClient as jest.Mock;
+  const mockSupabase = {
+    from: jest.fn(),
+    channel: jest.fn(),
+    removeChannel: jest.fn(),
+  };
+  const mockIs = jest.fn();
+  const mockEq = jest.fn();
+  const mockSelect = jest.fn();
+  const mockOn = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCreateClient.mockReturnValue(mockSupabase);
+
+    mockSupabase.from.mockReturnValue({ select: mockSelect });
+    mockSelect.mockReturnValue({ eq: mockEq });
+    mockEq.mockReturnValue({ is: mockIs });
+    mockIs.mockResolvedValue({ count: 4, error: null });
+
+    mockSupabase.channel.mockReturnValue({ on: mockOn });
+    mockOn.mockReturnValue({ subscribe: jest.fn().mockReturnValue({}) });
+  });
+
+  it('returns 0 without querying when signed out', () => {
+    mockUseUser.mockReturnValue({ user: null });
+
+    const { result } = renderHook(() => useUnreadNotifications());
+
+    expect(result.current.unreadCount).toBe(0);
+    expect(result.current.loading).toBe(false);
+    expect(result.current.hasUnreadNotifications).toBe(false);
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+
+  it('counts the unread notifications for the current user', async () => {
+    mockUseUser.mockReturnValue({ user: { id: 'user-123' } });
+
+    const { result } = renderHook(() => useUnreadNotifications());
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.unreadCount).toBe(4);
+    expect(result.current.hasUnreadNotifications).toBe(true);
+    expect(mockSupabase.from).toHaveBeenCalledWith('notifications');
+    expect(mockSelect).toHaveBeenCalledWith('*', { count: 'exact', head: true });
+    expect(mockEq).toHaveBeenCalledWith('user_id', 'user-123');
+    expect(mockIs).toHaveBeenCalledWith('read_at', null);
+  });
+
+  it('refetches when a notification arrives or is read', async () => {
+    mockUseUser.mockReturnValue({ user: { id: 'user-123' } });
+
+    renderHook(() => useUnreadNotifications());
+
+    await waitFor(() => {
+      expect(mockSupabase.channel).toHaveBeenCalledWith('unread-notifications-count');
+    });
+    expect(mockOn).toHaveBeenCalledWith(
+      'postgres_changes',
+      expect.objectContaining({ table: 'notifications', filter: 'user_id=eq.user-123' }),
+      expect.any(Function)
+    );
+
+    mockIs.mockResolvedValue({ count: 0, error: null });
+    mockOn.mock.calls[0][2]();
+
+    await waitFor(() => {
+      expect(mockIs).toHaveBeenCalledTimes(2);
+    });
+  });
+});
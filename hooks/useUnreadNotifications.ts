@@ -0,0 +1,79 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { useUser } from '@/components/providers/SupabaseUserProvider';
+
+/**
+ * Tracks how many of the current user's notifications are unread, for the badge on the bell.
+ */
+export function useUnreadNotifications() {
+  const { user } = useUser();
+  const [unreadCount, setUnreadCount] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    if (!user) {
+      setUnreadCount(0);
+      setLoading(false);
+      return;
+    }
+
+    const supabase = createClient();
+
+    const fetchUnreadCount = async () => {
+      try {
+        const { count, error } = await supabase
+          .from('notifications')
+          .select('*', { count: 'exact', head: true })
+          .eq('user_id', user.id)
+          .is('read_at', null);
+
+        if (error) throw error;
+        const normalizedCount = Math.max(0, Number(count ?? 0));
+        setUnreadCount(Number.isNaN(normalizedCount) ? 0 : normalizedCount);
+      } catch (error) {
+        console.error('Error fetching unread notifications count:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUnreadCount();
+
+    let interrupted = false;
+
+    // New notifications and ones marked read both change the count
+    const channel = supabase
+      .channel('unread-notifications-count')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          fetchUnreadCount();
+        }
+      )
+      .subscribe((status) => {
+        // Catch up on changes missed while the connection was down
+        if (status !== 'SUBSCRIBED') {
+          interrupted = true;
+        } else if (interrupted) {
+          interrupted = false;
+          fetchUnreadCount();
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  const hasUnreadNotifications = unreadCount > 0;
+
+  return { unreadCount, loading, hasUnreadNotifications };
+}
@@ -84,3 +84,12 @@ export async function ensureProfileComplete(
 
   return null;
 }
+
+/**
+ * Whether the user is an admin (`profiles.is_admin`).
+ */
+export async function isAdminUser(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data } = await supabase.from('profiles').select('is_admin').eq('id', userId).single();
+
+  return data?.is_admin === true;
+}
@@ -0,0 +1,147 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+
+/**
+ * Outcomes returned by the `reserve_trip_seat` RPC.
+ * These values must match the outcomes documented in the migration.
+ */
+export type SeatReservationOutcome =
+  | 'ok'
+  | 'full'
+  | 'already_booked'
+  | 'inactive'
+  | 'not_found'
+  | 'forbidden'
+  | 'invalid_transition'
+  | 'invalid_seats';
+
+/**
+ * Booking statuses the RPC can move a booking into.
+ */
+export type SeatReservationStatus = 'invited' | 'confirmed' | 'cancelled';
+
+/**
+ * A waitlisted booking that was offered released seats as an invitation.
+ */
+export interface WaitlistPromotion {
+  bookingId: string;
+  passengerId: string;
+  seats: number;
+}
+
+export interface SeatReservationResult {
+  outcome: SeatReservationOutcome;
+  bookingId: string | null;
+  seats: number | null;
+  availableSeats: number | null;
+  promoted: WaitlistPromotion[];
+}
+
+interface ReserveTripSeatOptions {
+  supabase: SupabaseClient;
+  rideId: string;
+  passengerId: string;
+  nextStatus: SeatReservationStatus;
+  pickupLocation?: string | null;
+  pickupTime?: string | null;
+  driverNotes?: string | null;
+  seats?: number | null;
+}
+
+interface ReserveTripSeatRpcResult {
+  outcome: SeatReservationOutcome;
+  booking_id?: string | null;
+  seats?: number | null;
+  available_seats?: number | null;
+  promoted?: { booking_id: string; passenger_id: string; seats: number }[] | null;
+}
+
+/**
+ * HTTP error responses for every non-`ok` reservation outcome.
+ */
+const SEAT_RESERVATION_ERRORS: Record<
+  Exclude<SeatReservationOutcome, 'ok'>,
+  { message: string; status: number }
+> = {
+  full: { message: 'No seats available', status: 409 },
+  already_booked: {
+    message: 'This rider already has a booking or invitation for this ride',
+    status: 409,
+  },
+  inactive: { message: 'Ride is no longer active', status: 400 },
+  not_found: { message: 'Booking not found', status: 404 },
+  forbidden: { message: 'Not authorized to modify this booking', status: 403 },
+  invalid_transition: { message: 'Invalid action for the current booking state', status: 400 },
+  invalid_seats: { message: 'Seat count must be between 1 and the seats requested', status: 400 },
+};
+
+/**
+ * Moves a passenger's booking on a ride to a new status, reserving or releasing the seat
+ * in the same database transaction.
+ *
+ * Creates the booking when inviting a passenger who has no booking yet (or reopens a
+ * cancelled one). `seats` is the number of seats to invite or approve; a driver can
+ * approve fewer seats than the passenger requested. When seats are released, the RPC
+ * invites waitlisted passengers in queue order and reports them in `promoted`. Throws
+ * when the RPC itself fails; business outcomes are returned.
+ *
+ * @param options - Ride, passenger, target status, seat count and optional meeting details.
+ * @returns The reservation outcome along with the booking id and remaining seats.
+ */
+export async function reserveTripSeat(
+  options: ReserveTripSeatOptions
+): Promise<SeatReservationResult> {
+  const {
+    supabase,
+    rideId,
+    passengerId,
+    nextStatus,
+    pickupLocation = null,
+    pickupTime = null,
+    driverNotes = null,
+    seats = null,
+  } = options;
+
+  const { data, error } = await supabase.rpc('reserve_trip_seat', {
+    p_ride_id: rideId,
+    p_passenger_id: passengerId,
+    p_next_status: nextStatus,
+    p_pickup_location: pickupLocation,
+    p_pickup_time: pickupTime,
+    p_driver_notes: driverNotes,
+    p_seats: seats,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const result = data as ReserveTripSeatRpcResult;
+
+  return {
+    outcome: result.outcome,
+    bookingId: result.booking_id ?? null,
+    seats: result.seats ?? null,
+    availableSeats: result.available_seats ?? null,
+    promoted: (result.promoted ?? []).map((promotion) => ({
+      bookingId: promotion.booking_id,
+      passengerId: promotion.passenger_id,
+      seats: promotion.seats,
+    })),
+  };
+}
+
+/**
+ * Converts a reservation outcome into an error response.
+ *
+ * @param outcome - Outcome returned by {@link reserveTripSeat}.
+ * @returns A JSON error response, or null when the reservation succeeded.
+ */
+export function createSeatReservationErrorResponse(
+  outcome: SeatReservationOutcome
+): NextResponse | null {
+  if (outcome === 'ok') return null;
+
+  const { message, status } = SEAT_RESERVATION_ERRORS[outcome];
+  return NextResponse.json({ error: message, outcome }, { status });
+}
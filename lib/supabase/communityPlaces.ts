@@ -0,0 +1,52 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CommunityPlace, CommunityPlaceRide } from '@/app/community/types';
+
+type PlaceRideRow = CommunityPlaceRide & { start_community_place_id: string };
+
+/**
+ * Most upcoming rides listed under each place.
+ */
+export const UPCOMING_RIDES_PER_PLACE = 5;
+
+/**
+ * Attaches the next active rides departing from each place as `upcoming_rides`.
+ * A failed ride lookup is logged and leaves the lists empty, since the places
+ * are still useful without them.
+ */
+export async function withUpcomingRides(
+  supabase: SupabaseClient,
+  places: CommunityPlace[],
+  perPlace = UPCOMING_RIDES_PER_PLACE
+): Promise<CommunityPlace[]> {
+  const ridesByPlace = new Map<string, CommunityPlaceRide[]>();
+
+  if (places.length > 0) {
+    const today = new Date().toISOString().split('T')[0];
+    const { data, error } = await supabase
+      .from('rides')
+      .select(
+        'id, posting_type, title, start_location, end_location, departure_date, departure_time, available_seats, start_community_place_id'
+      )
+      .in(
+        'start_community_place_id',
+        places.map((place) => place.id)
+      )
+      .eq('status', 'active')
+      .gte('departure_date', today)
+      .order('departure_date', { ascending: true })
+      .order('departure_time', { ascending: true })
+      .limit(places.length * perPlace * 4);
+
+    if (error) {
+      console.error('Error fetching upcoming rides for places:', error);
+    }
+
+    for (const { start_community_place_id: placeId, ...ride } of (data ?? []) as PlaceRideRow[]) {
+      const rides = ridesByPlace.get(placeId) ?? [];
+      if (rides.length < perPlace) rides.push(ride);
+      ridesByPlace.set(placeId, rides);
+    }
+  }
+
+  return places.map((place) => ({ ...place, upcoming_rides: ridesByPlace.get(place.id) ?? [] }));
+}
@@ -171,7 +171,7 @@ describe('sendConversationMessage', () => {
       }),
     } as unknown as SupabaseClient;
 
-    await conversationModule.sendConversationMessage({
+    const conversationId = await conversationModule.sendConversationMessage({
       supabase,
       senderId: 'alpha',
       recipientId: 'bravo',
@@ -189,5 +189,6 @@ describe('sendConversationMessage', () => {
     });
     expect(update).toHaveBeenCalledWith({ last_message_at: expect.any(String) });
     expect(updateEq).toHaveBeenCalledWith('id', 'conv-123');
+    expect(conversationId).toBe('conv-123');
   });
 });
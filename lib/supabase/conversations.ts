@@ -106,10 +106,11 @@ export async function ensureConversationForRide(
  * Sends a message between two participants, creating the conversation if needed.
  *
  * @param options - Parameters describing the sender, recipient, and message payload.
+ * @returns The id of the conversation the message was sent in.
  */
 export async function sendConversationMessage(
   options: SendConversationMessageOptions
-): Promise<void> {
+): Promise<string> {
   const { supabase, senderId, recipientId, rideId, content, subject = null } = options;
   const conversation = await ensureConversationForRide(
     supabase,
@@ -140,4 +141,6 @@ export async function sendConversationMessage(
   if (updateError) {
     throw updateError;
   }
+
+  return conversation.id;
 }
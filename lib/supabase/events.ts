@@ -0,0 +1,120 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import type { CommunityEvent } from '@/app/community/types';
+
+/**
+ * Columns selected for an event, including its organizer.
+ */
+export const COMMUNITY_EVENT_SELECT = `
+  *,
+  organizer:profiles!community_events_organizer_id_fkey(
+    id,
+    first_name,
+    last_name,
+    profile_photo_url
+  )
+`;
+
+/**
+ * Outcomes returned by the `set_event_rsvp` RPC.
+ * These values must match the outcomes documented in the migration.
+ */
+export type EventRsvpOutcome = 'ok' | 'full' | 'closed' | 'not_found' | 'forbidden';
+
+export interface EventRsvpResult {
+  outcome: EventRsvpOutcome;
+  currentParticipants: number | null;
+}
+
+interface SetEventRsvpOptions {
+  supabase: SupabaseClient;
+  eventId: string;
+  attending: boolean;
+}
+
+interface SetEventRsvpRpcResult {
+  outcome: EventRsvpOutcome;
+  current_participants?: number | null;
+}
+
+/**
+ * HTTP error responses for every non-`ok` RSVP outcome.
+ */
+const EVENT_RSVP_ERRORS: Record<
+  Exclude<EventRsvpOutcome, 'ok'>,
+  { message: string; status: number }
+> = {
+  full: { message: 'This event is full', status: 409 },
+  closed: { message: 'This event is no longer taking RSVPs', status: 400 },
+  not_found: { message: 'Event not found', status: 404 },
+  forbidden: { message: 'Not authorized to RSVP', status: 403 },
+};
+
+/**
+ * Joins or leaves an event for the signed-in user. The participant cap is
+ * checked and the count updated under the event's row lock, so concurrent
+ * RSVPs cannot overfill it. Throws when the RPC itself fails; business
+ * outcomes are returned.
+ *
+ * @param options - Event id and whether the user is attending.
+ * @returns The RSVP outcome along with the event's new participant count.
+ */
+export async function setEventRsvp(options: SetEventRsvpOptions): Promise<EventRsvpResult> {
+  const { supabase, eventId, attending } = options;
+
+  const { data, error } = await supabase.rpc('set_event_rsvp', {
+    p_event_id: eventId,
+    p_attending: attending,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const result = data as SetEventRsvpRpcResult;
+
+  return {
+    outcome: result.outcome,
+    currentParticipants: result.current_participants ?? null,
+  };
+}
+
+/**
+ * Converts an RSVP outcome into an error response.
+ *
+ * @param outcome - Outcome returned by {@link setEventRsvp}.
+ * @returns A JSON error response, or null when the RSVP succeeded.
+ */
+export function createEventRsvpErrorResponse(outcome: EventRsvpOutcome): NextResponse | null {
+  if (outcome === 'ok') return null;
+
+  const { message, status } = EVENT_RSVP_ERRORS[outcome];
+  return NextResponse.json({ error: message, outcome }, { status });
+}
+
+/**
+ * Sets `is_attending` on each event for the given user.
+ */
+export async function withAttendance(
+  supabase: SupabaseClient,
+  events: CommunityEvent[],
+  userId: string
+): Promise<CommunityEvent[]> {
+  if (events.length === 0) return events;
+
+  const { data, error } = await supabase
+    .from('community_event_participants')
+    .select('event_id')
+    .eq('user_id', userId)
+    .in(
+      'event_id',
+      events.map((event) => event.id)
+    );
+
+  if (error) {
+    console.error('Error fetching event RSVPs:', error);
+  }
+
+  const attending = new Set((data ?? []).map((row: { event_id: string }) => row.event_id));
+  return events.map((event) => ({ ...event, is_attending: attending.has(event.id) }));
+}
@@ -0,0 +1,40 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import type { NotificationData, NotificationType } from '@/libs/notifications';
+
+export interface NewNotification {
+  userId: string;
+  actorId?: string | null;
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  data?: NotificationData;
+}
+
+/**
+ * Adds notifications to members' bells. They are written with the admin
+ * client because the recipient is usually not the signed-in user.
+ *
+ * Notifications are best effort: a failure is logged rather than thrown, so it
+ * never fails the booking, review or invitation that produced it.
+ */
+export async function createNotifications(notifications: NewNotification[]): Promise<void> {
+  const rows = notifications
+    .filter((notification) => notification.userId !== notification.actorId)
+    .map((notification) => ({
+      user_id: notification.userId,
+      actor_id: notification.actorId ?? null,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body ?? null,
+      data: { ...notification.data },
+    }));
+
+  if (rows.length === 0) return;
+
+  try {
+    const { error } = await createAdminClient().from('notifications').insert(rows);
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error creating notifications', error);
+  }
+}
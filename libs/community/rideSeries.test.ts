@@ -0,0 +1,151 @@
+import type { CommunitySupabaseClient } from './ridesData';
+import {
+  createRideSeries,
+  formatSeriesDays,
+  getSeriesOccurrenceDates,
+  updateRideSeriesOccurrences,
+} from './rideSeries';
+
+describe('getSeriesOccurrenceDates', () => {
+  it('lists every matching weekday in the window', () => {
+    // 2026-01-02 is a Friday
+    expect(getSeriesOccurrenceDates('2026-01-02', ['friday'], 3)).toEqual([
+      '2026-01-02',
+      '2026-01-09',
+      '2026-01-16',
+    ]);
+  });
+
+  it('supports several days per week and skips days before the first match', () => {
+    expect(getSeriesOccurrenceDates('2026-01-01', ['saturday', 'sunday'], 1)).toEqual([
+      '2026-01-03',
+      '2026-01-04',
+    ]);
+  });
+
+  it('returns nothing for an invalid start date', () => {
+    expect(getSeriesOccurrenceDates('not-a-date', ['friday'])).toEqual([]);
+  });
+});
+
+describe('formatSeriesDays', () => {
+  it('formats one or more days in week order', () => {
+    expect(formatSeriesDays(['friday'])).toBe('Fridays');
+    expect(formatSeriesDays(['sunday', 'saturday'])).toBe('Sun & Sat');
+    expect(formatSeriesDays(null)).toBe('');
+  });
+});
+
+describe('createRideSeries', () => {
+  it('creates the series and one ride per occurrence', async () => {
+    const seriesInsert = jest.fn().mockReturnValue({
+      select: jest.fn().mockReturnValue({
+        single: jest.fn().mockResolvedValue({ data: { id: 'series-1' }, error: null }),
+      }),
+    });
+    const ridesInsert = jest.fn().mockResolvedValue({ error: null });
+    const supabase = {
+      from: jest.fn((table: string) =>
+        table === 'ride_series' ? { insert: seriesInsert } : { insert: ridesInsert }
+      ),
+    } as unknown as CommunitySupabaseClient;
+
+    const result = await createRideSeries(supabase, {
+      posterId: 'driver-1',
+      recurringDays: ['friday'],
+      startsOn: '2026-01-02',
+      departureTime: '06:00',
+      weeksAhead: 2,
+      ride: {
+        poster_id: 'driver-1',
+        posting_type: 'driver',
+        start_location: 'Oakland',
+        end_location: 'Kirkwood',
+        total_seats: 3,
+        available_seats: 3,
+      },
+    });
+
+    expect(result).toEqual({ seriesId: 'series-1', occurrenceCount: 2 });
+    expect(seriesInsert).toHaveBeenCalledWith(
+      expect.objectContaining({ recurring_days: ['friday'], weeks_ahead: 2 })
+    );
+    const occurrences = ridesInsert.mock.calls[0][0];
+    expect(occurrences.map((ride: { departure_date: string }) => ride.departure_date)).toEqual([
+      '2026-01-02',
+      '2026-01-09',
+    ]);
+    expect(occurrences[0]).toEqual(
+      expect.objectContaining({ series_id: 'series-1', is_recurring: true, available_seats: 3 })
+    );
+  });
+
+  it('removes the series when its rides cannot be inserted', async () => {
+    const eq = jest.fn().mockResolvedValue({ error: null });
+    const seriesDelete = jest.fn().mockReturnValue({ eq });
+    const supabase = {
+      from: jest.fn((table: string) =>
+        table === 'ride_series'
+          ? {
+              insert: jest.fn().mockReturnValue({
+                select: jest.fn().mockReturnValue({
+                  single: jest.fn().mockResolvedValue({ data: { id: 'series-2' }, error: null }),
+                }),
+              }),
+              delete: seriesDelete,
+            }
+          : { insert: jest.fn().mockResolvedValue({ error: new Error('insert failed') }) }
+      ),
+    } as unknown as CommunitySupabaseClient;
+
+    await expect(
+      createRideSeries(supabase, {
+        posterId: 'driver-1',
+        recurringDays: ['friday'],
+        startsOn: '2026-01-02',
+        departureTime: '06:00',
+        ride: {
+          poster_id: 'driver-1',
+          posting_type: 'driver',
+          start_location: 'A',
+          end_location: 'B',
+        },
+      })
+    ).rejects.toThrow('insert failed');
+    expect(eq).toHaveBeenCalledWith('id', 'series-2');
+  });
+});
+
+describe('updateRideSeriesOccurrences', () => {
+  it('applies the edit to the series from the given date in one RPC call', async () => {
+    const rpc = jest.fn().mockResolvedValue({ data: 2, error: null });
+    const supabase = { rpc, from: jest.fn() } as unknown as CommunitySupabaseClient;
+
+    await updateRideSeriesOccurrences(supabase, 'series-1', '2026-01-09', {
+      departure_date: '2026-01-09',
+      departure_time: '07:00',
+      total_seats: 4,
+      title: 'Later start',
+    });
+
+    expect(rpc).toHaveBeenCalledWith('update_ride_series_occurrences', {
+      p_series_id: 'series-1',
+      p_from_date: '2026-01-09',
+      p_updates: expect.objectContaining({ departure_time: '07:00', total_seats: 4 }),
+    });
+    // Rows are only written by the RPC, so a failure can't leave the series half updated
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('throws when the update fails', async () => {
+    const failure = { message: 'new row violates row-level security policy' };
+    const supabase = {
+      rpc: jest.fn().mockResolvedValue({ data: null, error: failure }),
+    } as unknown as CommunitySupabaseClient;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(
+      updateRideSeriesOccurrences(supabase, 'series-1', '2026-01-09', { title: 'Later start' })
+    ).rejects.toBe(failure);
+  });
+});
@@ -0,0 +1,158 @@
+import type { CommunitySupabaseClient } from './ridesData';
+import type { RidePostType } from '@/app/community/types';
+import type { Database, Json } from '@/types/database.types';
+
+type RideInsert = Database['public']['Tables']['rides']['Insert'];
+
+/**
+ * Weekday names stored in `recurring_days`, indexed like `Date#getUTCDay()`.
+ */
+export const SERIES_WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+] as const;
+
+export type SeriesWeekday = (typeof SERIES_WEEKDAYS)[number];
+
+/**
+ * How many weeks of occurrences are kept posted ahead of today.
+ */
+export const DEFAULT_SERIES_WEEKS_AHEAD = 8;
+
+/**
+ * Which occurrences an edit applies to.
+ */
+export type SeriesEditScope = 'occurrence' | 'future';
+
+/**
+ * Lists the dates (YYYY-MM-DD) in the first `weeksAhead` weeks from `startsOn` that
+ * fall on one of `recurringDays`.
+ */
+export const getSeriesOccurrenceDates = (
+  startsOn: string,
+  recurringDays: readonly string[],
+  weeksAhead: number = DEFAULT_SERIES_WEEKS_AHEAD
+): string[] => {
+  const start = new Date(`${startsOn}T00:00:00Z`);
+  if (Number.isNaN(start.getTime())) return [];
+
+  const dates: string[] = [];
+  for (let offset = 0; offset < weeksAhead * 7; offset++) {
+    const day = new Date(start);
+    day.setUTCDate(start.getUTCDate() + offset);
+    if (recurringDays.includes(SERIES_WEEKDAYS[day.getUTCDay()])) {
+      dates.push(day.toISOString().split('T')[0]);
+    }
+  }
+  return dates;
+};
+
+/**
+ * Formats recurring days for display, e.g. "Fridays" or "Sat & Sun".
+ */
+export const formatSeriesDays = (recurringDays: readonly string[] | null | undefined): string => {
+  const days = SERIES_WEEKDAYS.filter((day) => recurringDays?.includes(day));
+  if (days.length === 0) return '';
+  if (days.length === 1) return `${days[0].charAt(0).toUpperCase()}${days[0].slice(1)}s`;
+  return days.map((day) => `${day.charAt(0).toUpperCase()}${day.slice(1, 3)}`).join(' & ');
+};
+
+export interface CreateRideSeriesInput {
+  posterId: string;
+  recurringDays: string[];
+  startsOn: string;
+  departureTime: string;
+  weeksAhead?: number;
+  // Ride details shared by every occurrence
+  ride: Omit<RideInsert, 'id' | 'departure_date' | 'departure_time' | 'series_id'>;
+}
+
+/**
+ * Creates a recurring ride series and posts its occurrences for the next weeks.
+ * Each occurrence is a regular ride with its own seats and bookings; later weeks
+ * are added by `materialize_ride_series` as time passes.
+ *
+ * @returns The new series id and the number of occurrences posted.
+ */
+export const createRideSeries = async (
+  supabase: CommunitySupabaseClient,
+  input: CreateRideSeriesInput
+): Promise<{ seriesId: string; occurrenceCount: number }> => {
+  const weeksAhead = input.weeksAhead ?? DEFAULT_SERIES_WEEKS_AHEAD;
+  const dates = getSeriesOccurrenceDates(input.startsOn, input.recurringDays, weeksAhead);
+
+  if (dates.length === 0) {
+    throw new Error('Pick at least one day for the ride to repeat on');
+  }
+
+  const { data: series, error: seriesError } = await supabase
+    .from('ride_series')
+    .insert({
+      poster_id: input.posterId,
+      recurring_days: input.recurringDays,
+      departure_time: input.departureTime,
+      starts_on: input.startsOn,
+      weeks_ahead: weeksAhead,
+    })
+    .select('id')
+    .single();
+
+  if (seriesError || !series) {
+    throw seriesError ?? new Error('Unable to create ride series');
+  }
+
+  const occurrences = dates.map((date) => ({
+    ...input.ride,
+    id: crypto.randomUUID(),
+    poster_id: input.posterId,
+    departure_date: date,
+    departure_time: input.departureTime,
+    is_recurring: true,
+    recurring_days: input.recurringDays,
+    series_id: series.id,
+  }));
+
+  const { error: insertError } = await supabase.from('rides').insert(occurrences);
+
+  if (insertError) {
+    // Don't leave an empty series behind
+    await supabase.from('ride_series').delete().eq('id', series.id);
+    throw insertError;
+  }
+
+  return { seriesId: series.id, occurrenceCount: occurrences.length };
+};
+
+/**
+ * Applies edits to an occurrence and every later occurrence in its series, all
+ * or nothing, through the `update_ride_series_occurrences` RPC.
+ *
+ * Each occurrence keeps its own date and bookings: `departure_date` is never copied,
+ * and a change to `total_seats` shifts each occurrence's `available_seats` by the same
+ * amount. A new departure time also becomes the series time for future occurrences.
+ */
+export const updateRideSeriesOccurrences = async (
+  supabase: CommunitySupabaseClient,
+  seriesId: string,
+  fromDate: string,
+  updates: Partial<RidePostType>
+): Promise<void> => {
+  const rideUpdates = { ...updates };
+  delete rideUpdates.owner;
+
+  const { error } = await supabase.rpc('update_ride_series_occurrences', {
+    p_series_id: seriesId,
+    p_from_date: fromDate,
+    p_updates: rideUpdates as Json,
+  });
+
+  if (error) {
+    console.error('Error updating series occurrences:', error);
+    throw error;
+  }
+};
@@ -6,6 +6,7 @@ import type {
 } from '@/app/community/types';
 import { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '@/types/database.types';
+import type { MapBounds } from '@/libs/mapTiles';
 
 // Reuse the Supabase browser client type without importing from package.json
 export type CommunitySupabaseClient = SupabaseClient<Database>;
@@ -39,9 +40,12 @@ export const fetchDriverRides = async (
       round_trip_group_id,
       is_recurring,
       recurring_days,
+      series_id,
+      is_series_exception,
       pricing_type,
       price_per_seat,
       gas_estimate,
+      cost_breakdown,
       total_seats,
       available_seats,
       car_type,
@@ -109,6 +113,7 @@ export interface FetchPassengerRidesOptions {
   pageSize?: number;
   departureFilter?: LocationFilterType | null;
   destinationFilter?: LocationFilterType | null;
+  mapBounds?: MapBounds | null;
 }
 
 export const fetchPassengerRides = async (
@@ -119,6 +124,7 @@ export const fetchPassengerRides = async (
   return fetchAllRides(supabase, currentUser, options?.page, options?.pageSize, 'passenger', {
     departureFilter: options?.departureFilter,
     destinationFilter: options?.destinationFilter,
+    mapBounds: options?.mapBounds,
   });
 };
 
@@ -151,9 +157,12 @@ export const fetchMyRides = async (
       round_trip_group_id,
       is_recurring,
       recurring_days,
+      series_id,
+      is_series_exception,
       pricing_type,
       price_per_seat,
       gas_estimate,
+      cost_breakdown,
       total_seats,
       available_seats,
       car_type,
@@ -207,6 +216,8 @@ export const fetchMyRides = async (
 export interface FetchAllRidesFilters {
   departureFilter?: LocationFilterType | null;
   destinationFilter?: LocationFilterType | null;
+  // Visible area of the map view; limits rides to those starting inside it
+  mapBounds?: MapBounds | null;
 }
 
 export interface FetchAllRidesResponse {
@@ -261,9 +272,12 @@ export const fetchAllRides = async (
       round_trip_group_id,
       is_recurring,
       recurring_days,
+      series_id,
+      is_series_exception,
       pricing_type,
       price_per_seat,
       gas_estimate,
+      cost_breakdown,
       total_seats,
       available_seats,
       car_type,
@@ -287,14 +301,14 @@ export const fetchAllRides = async (
     baseQuery = baseQuery.eq('posting_type', postingType);
   }
 
-  const boundingBox = (
-    filter: LocationFilterType
-  ): {
+  type LatLngBox = {
     minLat: number;
     maxLat: number;
     minLng: number;
     maxLng: number;
-  } => {
+  };
+
+  const boundingBox = (filter: LocationFilterType): LatLngBox => {
     const milesPerDegreeLat = 69;
     const latDelta = filter.radius / milesPerDegreeLat;
     const lngDelta = filter.radius / (Math.cos((filter.lat * Math.PI) / 180) * milesPerDegreeLat);
@@ -308,12 +322,11 @@ export const fetchAllRides = async (
 
   const applyLocationBounds = (
     builder: ReturnType<typeof supabase.from>,
-    filter: LocationFilterType | null,
+    bounds: LatLngBox | null,
     latField: string,
     lngField: string
   ) => {
-    if (!filter) return builder;
-    const bounds = boundingBox(filter);
+    if (!bounds) return builder;
     return builder
       .gte(latField, bounds.minLat)
       .lte(latField, bounds.maxLat)
@@ -321,18 +334,22 @@ export const fetchAllRides = async (
       .lte(lngField, bounds.maxLng);
   };
 
-  baseQuery = applyLocationBounds(
-    baseQuery,
-    filters?.departureFilter ?? null,
-    'start_lat',
-    'start_lng'
-  );
-  baseQuery = applyLocationBounds(
-    baseQuery,
-    filters?.destinationFilter ?? null,
-    'end_lat',
-    'end_lng'
-  );
+  const departureBounds = filters?.departureFilter ? boundingBox(filters.departureFilter) : null;
+  const destinationBounds = filters?.destinationFilter
+    ? boundingBox(filters.destinationFilter)
+    : null;
+  const mapBounds = filters?.mapBounds
+    ? {
+        minLat: filters.mapBounds.south,
+        maxLat: filters.mapBounds.north,
+        minLng: filters.mapBounds.west,
+        maxLng: filters.mapBounds.east,
+      }
+    : null;
+
+  baseQuery = applyLocationBounds(baseQuery, departureBounds, 'start_lat', 'start_lng');
+  baseQuery = applyLocationBounds(baseQuery, destinationBounds, 'end_lat', 'end_lng');
+  baseQuery = applyLocationBounds(baseQuery, mapBounds, 'start_lat', 'start_lng');
 
   // Exclude current user's rides if user is logged in
   if (currentUser) {
@@ -420,9 +437,12 @@ export const fetchRideById = async (
       round_trip_group_id,
       is_recurring,
       recurring_days,
+      series_id,
+      is_series_exception,
       pricing_type,
       price_per_seat,
       gas_estimate,
+      cost_breakdown,
       total_seats,
       available_seats,
       car_type,
@@ -0,0 +1,263 @@
+import { getTripEnd, processTripLifecycle, type LifecycleRide } from './tripLifecycle';
+import { sendConversationMessage } from '@/lib/supabase/conversations';
+import { createPendingReviews } from '@/libs/email';
+
+jest.mock('@/lib/supabase/conversations', () => ({
+  sendConversationMessage: jest.fn(),
+}));
+
+jest.mock('@/libs/email', () => ({
+  createPendingReviews: jest.fn(),
+}));
+
+type Row = Record<string, unknown>;
+
+// In-memory tables so reruns see the updates earlier runs made
+let tables: Record<string, Row[]> = {};
+
+function queryBuilder(table: string) {
+  // eslint-disable-next-line no-unused-vars
+  const filters: Array<(row: Row) => boolean> = [];
+  let changes: Row | null = null;
+
+  const builder: Record<string, jest.Mock> & { then?: unknown } = {};
+  builder.select = jest.fn(() => builder);
+  builder.update = jest.fn((values: Row) => {
+    changes = values;
+    return builder;
+  });
+  builder.eq = jest.fn((column: string, value: unknown) => {
+    filters.push((row) => row[column] === value);
+    return builder;
+  });
+  builder.lte = jest.fn((column: string, value: string) => {
+    filters.push((row) => String(row[column]) <= value);
+    return builder;
+  });
+  builder.in = jest.fn((column: string, values: unknown[]) => {
+    filters.push((row) => values.includes(row[column]));
+    return builder;
+  });
+  // eslint-disable-next-line no-unused-vars
+  builder.then = (resolve: (value: unknown) => unknown) => {
+    const rows = tables[table].filter((row) => filters.every((matches) => matches(row)));
+    if (changes) rows.forEach((row) => Object.assign(row, changes));
+    return Promise.resolve({ data: rows.map((row) => ({ ...row })), error: null }).then(resolve);
+  };
+  return builder;
+}
+
+const mockSupabaseClient = {
+  from: jest.fn((table: string) => queryBuilder(table)),
+};
+
+jest.mock('@/lib/supabase/server', () => ({
+  createAdminClient: jest.fn(() => mockSupabaseClient),
+}));
+
+const now = new Date('2026-01-12T12:00:00Z');
+
+const ride = (overrides: Partial<LifecycleRide> & { status?: string } = {}) => ({
+  id: 'ride-1',
+  poster_id: 'driver-1',
+  title: null,
+  start_location: 'Sacramento',
+  end_location: 'Truckee',
+  departure_date: '2026-01-11',
+  departure_time: '08:00:00',
+  return_date: null,
+  return_time: null,
+  status: 'active',
+  ...overrides,
+});
+
+const booking = (id: string, passengerId: string, status: string) => ({
+  id,
+  ride_id: 'ride-1',
+  driver_id: 'driver-1',
+  passenger_id: passengerId,
+  status,
+});
+
+describe('getTripEnd', () => {
+  it('uses the return leg of round trips', () => {
+    expect(getTripEnd(ride())).toEqual(new Date('2026-01-12T04:00:00Z'));
+    expect(getTripEnd(ride({ return_date: '2026-01-13', return_time: '16:00:00' }))).toEqual(
+      new Date('2026-01-14T12:00:00Z')
+    );
+  });
+
+  it('reads times in Tahoe across daylight saving changes', () => {
+    // 8am PDT on the day clocks spring forward
+    expect(getTripEnd(ride({ departure_date: '2026-03-08' }))).toEqual(
+      new Date('2026-03-09T03:00:00Z')
+    );
+    // 8am PST on the day clocks fall back
+    expect(getTripEnd(ride({ departure_date: '2026-11-01' }))).toEqual(
+      new Date('2026-11-02T04:00:00Z')
+    );
+  });
+});
+
+describe('processTripLifecycle', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    (createPendingReviews as jest.Mock).mockResolvedValue(4);
+    tables = {
+      rides: [ride()],
+      trip_bookings: [
+        booking('booking-1', 'passenger-1', 'confirmed'),
+        booking('booking-2', 'passenger-2', 'pending'),
+        booking('booking-3', 'passenger-3', 'waitlisted'),
+        booking('booking-4', 'passenger-4', 'cancelled'),
+      ],
+    };
+  });
+
+  it('completes the ride and its confirmed bookings and closes unanswered requests', async () => {
+    const result = await processTripLifecycle(now);
+
+    expect(result).toEqual({
+      ridesCompleted: 1,
+      bookingsCompleted: 1,
+      requestsCancelled: 2,
+      reviewRequestsQueued: 4,
+      errors: [],
+    });
+    expect(tables.rides[0].status).toBe('completed');
+    expect(tables.trip_bookings.map((row) => row.status)).toEqual([
+      'completed',
+      'cancelled',
+      'cancelled',
+      'cancelled',
+    ]);
+  });
+
+  it('messages passengers whose requests were closed', async () => {
+    await processTripLifecycle(now);
+
+    expect(sendConversationMessage).toHaveBeenCalledTimes(2);
+    expect(sendConversationMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        senderId: 'driver-1',
+        recipientId: 'passenger-2',
+        rideId: 'ride-1',
+        content: expect.stringContaining('Sacramento → Truckee has already left'),
+      })
+    );
+  });
+
+  it('sets up reviews for each completed booking', async () => {
+    await processTripLifecycle(now);
+
+    expect(createPendingReviews).toHaveBeenCalledTimes(1);
+    expect(createPendingReviews).toHaveBeenCalledWith(
+      mockSupabaseClient,
+      expect.objectContaining({ id: 'ride-1' }),
+      expect.objectContaining({ id: 'booking-1', passenger_id: 'passenger-1' }),
+      now
+    );
+  });
+
+  it('retries review setup on the next run if it failed', async () => {
+    (createPendingReviews as jest.Mock).mockRejectedValueOnce(new Error('queue down'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const failed = await processTripLifecycle(now);
+
+    expect(failed.errors).toEqual([{ rideId: 'ride-1', error: 'queue down' }]);
+    expect(tables.rides[0].status).toBe('active');
+
+    const retried = await processTripLifecycle(now);
+
+    expect(createPendingReviews).toHaveBeenLastCalledWith(
+      mockSupabaseClient,
+      expect.objectContaining({ id: 'ride-1' }),
+      expect.objectContaining({ id: 'booking-1' }),
+      now
+    );
+    expect(retried).toEqual(
+      expect.objectContaining({ ridesCompleted: 1, bookingsCompleted: 0, errors: [] })
+    );
+  });
+
+  it('sets up reviews on the rerun for every booking the failed run completed', async () => {
+    tables.trip_bookings.push(booking('booking-5', 'passenger-5', 'confirmed'));
+    (createPendingReviews as jest.Mock)
+      .mockResolvedValueOnce(4)
+      .mockRejectedValueOnce(new Error('queue down'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const failed = await processTripLifecycle(now);
+
+    expect(failed.bookingsCompleted).toBe(2);
+    expect(failed.errors).toEqual([{ rideId: 'ride-1', error: 'queue down' }]);
+    (createPendingReviews as jest.Mock).mockClear();
+
+    const retried = await processTripLifecycle(now);
+
+    expect(retried).toEqual(
+      expect.objectContaining({ ridesCompleted: 1, bookingsCompleted: 0, errors: [] })
+    );
+    expect(
+      (createPendingReviews as jest.Mock).mock.calls.map(([, , completed]) => completed.id)
+    ).toEqual(['booking-1', 'booking-5']);
+  });
+
+  it('does nothing more when run again', async () => {
+    await processTripLifecycle(now);
+    jest.clearAllMocks();
+
+    const rerun = await processTripLifecycle(now);
+
+    expect(rerun).toEqual({
+      ridesCompleted: 0,
+      bookingsCompleted: 0,
+      requestsCancelled: 0,
+      reviewRequestsQueued: 0,
+      errors: [],
+    });
+    expect(createPendingReviews).not.toHaveBeenCalled();
+    expect(sendConversationMessage).not.toHaveBeenCalled();
+  });
+
+  it('leaves rides that have not finished yet', async () => {
+    tables.rides = [ride({ return_date: '2026-01-13', return_time: '16:00:00' })];
+
+    const result = await processTripLifecycle(now);
+
+    expect(result.ridesCompleted).toBe(0);
+    expect(tables.rides[0].status).toBe('active');
+    expect(tables.trip_bookings[0].status).toBe('confirmed');
+  });
+
+  it('tells invited passengers their invitation expired', async () => {
+    tables.trip_bookings.push(booking('booking-5', 'passenger-5', 'invited'));
+
+    await processTripLifecycle(now);
+
+    expect(sendConversationMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        recipientId: 'passenger-5',
+        content: expect.stringContaining('my invitation to join it has expired'),
+      })
+    );
+    expect(sendConversationMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        recipientId: 'passenger-2',
+        content: expect.stringContaining('your request for a seat was closed'),
+      })
+    );
+  });
+
+  it('still completes the ride when a passenger cannot be messaged', async () => {
+    (sendConversationMessage as jest.Mock).mockRejectedValue(new Error('offline'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await processTripLifecycle(now);
+
+    expect(result.ridesCompleted).toBe(1);
+    expect(result.errors).toEqual([]);
+  });
+});
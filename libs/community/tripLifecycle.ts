@@ -0,0 +1,184 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { sendConversationMessage } from '@/lib/supabase/conversations';
+import { createPendingReviews } from '@/libs/email';
+import { fromTahoeDateTime, toTahoeDateKey } from '@/libs/tahoeTime';
+
+/**
+ * Hours after a ride leaves (or heads back, for round trips) before it is
+ * treated as over, to cover the drive itself.
+ */
+export const TRIP_COMPLETION_GRACE_HOURS = 12;
+
+/**
+ * Booking statuses that were still waiting on an answer when the ride left.
+ */
+export const UNANSWERED_BOOKING_STATUSES = ['pending', 'invited', 'waitlisted'] as const;
+
+export interface TripLifecycleResult {
+  ridesCompleted: number;
+  bookingsCompleted: number;
+  requestsCancelled: number;
+  reviewRequestsQueued: number;
+  errors: Array<{ rideId: string; error: string }>;
+}
+
+export interface LifecycleRide {
+  id: string;
+  poster_id: string;
+  title: string | null;
+  start_location: string;
+  end_location: string;
+  departure_date: string;
+  departure_time: string | null;
+  return_date: string | null;
+  return_time: string | null;
+}
+
+interface CompletedBooking {
+  id: string;
+  driver_id: string;
+  passenger_id: string;
+}
+
+/**
+ * When a ride is over: its return leg if it has one, otherwise its departure.
+ * Ride dates and times are Tahoe wall-clock values.
+ */
+export function getTripEnd(ride: LifecycleRide): Date {
+  const end = ride.return_date
+    ? fromTahoeDateTime(ride.return_date, ride.return_time ?? '23:59:59')
+    : fromTahoeDateTime(ride.departure_date, ride.departure_time ?? '00:00:00');
+  return new Date(end.getTime() + TRIP_COMPLETION_GRACE_HOURS * 60 * 60 * 1000);
+}
+
+const getRideLabel = (ride: LifecycleRide) =>
+  ride.title || `${ride.start_location} → ${ride.end_location}`;
+
+/**
+ * Closes out every active ride that has already run. Confirmed bookings are
+ * completed and both sides get a pending review (see createPendingReviews);
+ * requests the driver never answered are cancelled with a note to the
+ * passenger. Each step only touches rows still in their earlier status, so
+ * reruns pick up where a failed run stopped without repeating anything.
+ */
+export async function processTripLifecycle(now = new Date()): Promise<TripLifecycleResult> {
+  const supabase = createAdminClient();
+  const result: TripLifecycleResult = {
+    ridesCompleted: 0,
+    bookingsCompleted: 0,
+    requestsCancelled: 0,
+    reviewRequestsQueued: 0,
+    errors: [],
+  };
+
+  const { data: rides, error: ridesError } = await supabase
+    .from('rides')
+    .select(
+      'id, poster_id, title, start_location, end_location, departure_date, departure_time, return_date, return_time'
+    )
+    .eq('status', 'active')
+    .lte('departure_date', toTahoeDateKey(now));
+
+  if (ridesError) {
+    throw new Error(`Failed to fetch active rides: ${ridesError.message}`);
+  }
+
+  const pastRides = ((rides ?? []) as LifecycleRide[]).filter((ride) => getTripEnd(ride) <= now);
+  if (pastRides.length === 0) {
+    console.log('No rides ready to complete');
+    return result;
+  }
+
+  for (const ride of pastRides) {
+    try {
+      const { data: completed, error: completeError } = await supabase
+        .from('trip_bookings')
+        .update({ status: 'completed' })
+        .eq('ride_id', ride.id)
+        .eq('status', 'confirmed')
+        .select('id');
+
+      if (completeError) {
+        throw new Error(`Failed to complete bookings: ${completeError.message}`);
+      }
+      result.bookingsCompleted += completed?.length ?? 0;
+
+      // Every completed booking, not just this run's, in case an earlier run
+      // failed before its reviews were set up; existing ones are skipped
+      const { data: reviewable, error: reviewableError } = await supabase
+        .from('trip_bookings')
+        .select('id, driver_id, passenger_id')
+        .eq('ride_id', ride.id)
+        .eq('status', 'completed');
+
+      if (reviewableError) {
+        throw new Error(`Failed to fetch completed bookings: ${reviewableError.message}`);
+      }
+
+      for (const booking of (reviewable ?? []) as CompletedBooking[]) {
+        result.reviewRequestsQueued += await createPendingReviews(supabase, ride, booking, now);
+      }
+
+      // The update returns the new status, so note which were invitations first
+      const { data: unanswered, error: unansweredError } = await supabase
+        .from('trip_bookings')
+        .select('id, status')
+        .eq('ride_id', ride.id)
+        .in('status', [...UNANSWERED_BOOKING_STATUSES]);
+
+      if (unansweredError) {
+        throw new Error(`Failed to fetch unanswered requests: ${unansweredError.message}`);
+      }
+
+      const { data: cancelled, error: cancelError } = await supabase
+        .from('trip_bookings')
+        .update({ status: 'cancelled' })
+        .eq('ride_id', ride.id)
+        .in('status', [...UNANSWERED_BOOKING_STATUSES])
+        .select('id, passenger_id');
+
+      if (cancelError) {
+        throw new Error(`Failed to cancel unanswered requests: ${cancelError.message}`);
+      }
+
+      for (const { id, passenger_id } of cancelled ?? []) {
+        const status = unanswered?.find((booking) => booking.id === id)?.status;
+        try {
+          await sendConversationMessage({
+            supabase,
+            senderId: ride.poster_id,
+            recipientId: passenger_id,
+            rideId: ride.id,
+            content:
+              status === 'invited'
+                ? `${getRideLabel(ride)} has already left, so my invitation to join it has expired. Check the community board for another ride.`
+                : `${getRideLabel(ride)} has already left, so your request for a seat was closed. Check the community board for another ride.`,
+          });
+        } catch (conversationError: unknown) {
+          console.error('Error notifying passenger about an expired request', conversationError);
+        }
+      }
+      result.requestsCancelled += cancelled?.length ?? 0;
+
+      const { error: rideError } = await supabase
+        .from('rides')
+        .update({ status: 'completed' })
+        .eq('id', ride.id)
+        .eq('status', 'active');
+
+      if (rideError) {
+        throw new Error(`Failed to complete ride: ${rideError.message}`);
+      }
+
+      result.ridesCompleted++;
+    } catch (error) {
+      console.error(`Error completing ride ${ride.id}:`, error);
+      result.errors.push({
+        rideId: ride.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return result;
+}
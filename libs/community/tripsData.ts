@@ -104,6 +104,35 @@ export const fetchRideBookings = async (
   return data as unknown as TripBooking[];
 };
 
+/**
+ * Adds each waitlisted booking's place in its ride's queue.
+ * Positions come from an RPC because passengers cannot see each other's bookings.
+ */
+export const attachWaitlistPositions = async (
+  supabase: CommunitySupabaseClient,
+  bookings: TripBooking[]
+): Promise<TripBooking[]> => {
+  const waitlistedIds = bookings.filter((b) => b.status === 'waitlisted').map((b) => b.id);
+  if (waitlistedIds.length === 0) return bookings;
+
+  const { data: positions, error } = await supabase.rpc('get_waitlist_positions', {
+    p_booking_ids: waitlistedIds,
+  });
+
+  if (error) {
+    console.error('Error fetching waitlist positions:', error);
+    return bookings;
+  }
+
+  const positionMap = new Map(positions?.map((p) => [p.booking_id, p.waitlist_position]));
+
+  return bookings.map((booking) =>
+    positionMap.has(booking.id)
+      ? { ...booking, waitlist_position: positionMap.get(booking.id) }
+      : booking
+  );
+};
+
 /**
  * Fetches trips I'm driving that have bookings.
  */
@@ -157,7 +186,7 @@ export const fetchMyDriverTrips = async (
     },
   }));
 
-  return bookingsWithPassenger as unknown as TripBooking[];
+  return attachWaitlistPositions(supabase, bookingsWithPassenger as unknown as TripBooking[]);
 };
 
 /**
@@ -211,5 +240,5 @@ export const fetchMyPassengerTrips = async (
     },
   }));
 
-  return bookingsWithDriver as unknown as TripBooking[];
+  return attachWaitlistPositions(supabase, bookingsWithDriver as unknown as TripBooking[]);
 };
@@ -0,0 +1,27 @@
+import { eventRideDefaults, spotsLeft } from './communityEvents';
+
+describe('spotsLeft', () => {
+  it('counts open spots and never goes below zero', () => {
+    expect(spotsLeft({ max_participants: 10, current_participants: 4 })).toBe(6);
+    expect(spotsLeft({ max_participants: 10, current_participants: 10 })).toBe(0);
+    expect(spotsLeft({ max_participants: 5, current_participants: 8 })).toBe(0);
+  });
+});
+
+describe('eventRideDefaults', () => {
+  it('heads to the event location on the local day of the event', () => {
+    const eventDate = new Date(2026, 0, 10, 8, 30);
+
+    expect(
+      eventRideDefaults({
+        title: 'Kirkwood Ski Day',
+        location: 'Kirkwood Mountain Resort',
+        event_date: eventDate.toISOString(),
+      })
+    ).toEqual({
+      title: 'Carpool to Kirkwood Ski Day',
+      end_location: 'Kirkwood Mountain Resort',
+      departure_date: '2026-01-10',
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import type { CommunityEvent, CommunityEventType } from '@/app/community/types';
+
+export const COMMUNITY_EVENT_TYPE_LABELS: Record<CommunityEventType, string> = {
+  ski_day: 'Ski day',
+  hike: 'Hike',
+  meetup: 'Meetup',
+  festival: 'Festival',
+  volunteer: 'Volunteering',
+  other: 'Other',
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * An event's start in the viewer's local time, e.g. "Sat, Jan 10, 2026 at 8:00 AM".
+ */
+export function formatEventDate(eventDate: string): string {
+  const date = new Date(eventDate);
+  if (Number.isNaN(date.getTime())) return '';
+
+  const day = date.toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  const time = date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  return `${day} at ${time}`;
+}
+
+/**
+ * Spots still open on an event.
+ */
+export function spotsLeft(
+  event: Pick<CommunityEvent, 'max_participants' | 'current_participants'>
+) {
+  return Math.max(event.max_participants - event.current_participants, 0);
+}
+
+/**
+ * Ride form values for a carpool to the event: heading to the event's
+ * location on the day it happens, in the viewer's local time.
+ */
+export function eventRideDefaults(
+  event: Pick<CommunityEvent, 'title' | 'location' | 'event_date'>
+) {
+  const date = new Date(event.event_date);
+
+  return {
+    title: `Carpool to ${event.title}`,
+    end_location: event.location,
+    departure_date: Number.isNaN(date.getTime())
+      ? ''
+      : `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+  };
+}
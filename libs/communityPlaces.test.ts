@@ -0,0 +1,34 @@
+import type { CommunityPlace } from '@/app/community/types';
+import { findCommunityPlace, searchCommunityPlaces } from './communityPlaces';
+
+const place = (id: string, name: string) => ({ id, name }) as CommunityPlace;
+
+const PLACES = [
+  place('auburn', 'Auburn Park & Ride'),
+  place('truckee', 'Truckee Tahoe Transit Depot'),
+  place('kirkwood', 'Kirkwood Lot 1'),
+];
+
+describe('findCommunityPlace', () => {
+  it('matches a place name regardless of case and punctuation', () => {
+    expect(findCommunityPlace(PLACES, ' auburn park & ride ')?.id).toBe('auburn');
+    expect(findCommunityPlace(PLACES, 'Auburn')).toBeNull();
+    expect(findCommunityPlace(PLACES, '')).toBeNull();
+  });
+});
+
+describe('searchCommunityPlaces', () => {
+  it('ranks names starting with the text ahead of words inside names', () => {
+    expect(searchCommunityPlaces(PLACES, 'tr').map(({ id }) => id)).toEqual(['truckee']);
+    expect(
+      searchCommunityPlaces([...PLACES, place('tahoe', 'Tahoe City Transit Center')], 'tahoe').map(
+        ({ id }) => id
+      )
+    ).toEqual(['tahoe', 'truckee']);
+  });
+
+  it('caps the number of suggestions and ignores blank text', () => {
+    expect(searchCommunityPlaces(PLACES, 'o', 2)).toHaveLength(2);
+    expect(searchCommunityPlaces(PLACES, '  ')).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import type { CommunityPlace, CommunityPlaceType, WinterAccess } from '@/app/community/types';
+import { placeKey, placeMatchScore } from '@/libs/placeCatalog';
+
+export const COMMUNITY_PLACE_TYPE_LABELS: Record<CommunityPlaceType, string> = {
+  park_and_ride: 'Park & ride',
+  resort_lot: 'Resort lot',
+  transit_station: 'Transit station',
+};
+
+export const WINTER_ACCESS_LABELS: Record<WinterAccess, string> = {
+  year_round: 'Open and plowed all winter',
+  chains: 'Open in winter, chains often required',
+  limited: 'Limited in winter (check before you go)',
+  closed: 'Closed in winter',
+  unknown: 'Winter access unknown',
+};
+
+/**
+ * The community place named exactly the text, if any.
+ */
+export function findCommunityPlace(places: CommunityPlace[], text: string): CommunityPlace | null {
+  const key = placeKey(text);
+  if (!key) return null;
+  return places.find((place) => placeKey(place.name) === key) ?? null;
+}
+
+/**
+ * Community places whose name matches what someone has typed so far, ranked
+ * the same way as searchPlaceCatalog().
+ */
+export function searchCommunityPlaces(
+  places: CommunityPlace[],
+  query: string,
+  limit = 4
+): CommunityPlace[] {
+  const key = placeKey(query);
+  if (!key) return [];
+
+  const scored: { place: CommunityPlace; score: number }[] = [];
+  for (const place of places) {
+    const score = placeMatchScore([place.name], key);
+    if (score !== null) scored.push({ place, score });
+  }
+
+  return scored
+    .sort((a, b) => a.score - b.score || a.place.name.localeCompare(b.place.name))
+    .slice(0, limit)
+    .map(({ place }) => place);
+}
@@ -0,0 +1,89 @@
+import {
+  calculateCostSplit,
+  estimateRoadDistance,
+  formatDollars,
+  resplitCostBreakdown,
+  ROAD_DISTANCE_FACTOR,
+} from '@/libs/costSplit';
+import { calculateDistance } from '@/libs/distance';
+
+describe('libs/costSplit', () => {
+  describe('estimateRoadDistance', () => {
+    it('applies the road factor to the straight-line distance', () => {
+      // San Francisco to South Lake Tahoe
+      const straightLine = calculateDistance(37.7749, -122.4194, 38.9399, -119.9772);
+
+      expect(estimateRoadDistance(37.7749, -122.4194, 38.9399, -119.9772)).toBe(
+        Math.round(straightLine * ROAD_DISTANCE_FACTOR)
+      );
+    });
+  });
+
+  describe('calculateCostSplit', () => {
+    it('splits fuel, tolls and parking between the driver and each seat', () => {
+      const breakdown = calculateCostSplit({
+        distanceMiles: 200,
+        mpg: 25,
+        gasPrice: 5,
+        tolls: 7,
+        parking: 13,
+        seats: 3,
+      });
+
+      expect(breakdown).toEqual({
+        distance_miles: 200,
+        mpg: 25,
+        gas_price: 5,
+        fuel_cost: 40,
+        tolls: 7,
+        parking: 13,
+        total_cost: 60,
+        split_between: 4,
+        per_seat: 15,
+      });
+    });
+
+    it('rounds the per-seat contribution to whole dollars', () => {
+      const breakdown = calculateCostSplit({
+        distanceMiles: 185,
+        mpg: 28,
+        gasPrice: 4.75,
+        seats: 2,
+      });
+
+      expect(breakdown?.fuel_cost).toBe(31.38);
+      expect(breakdown?.per_seat).toBe(10);
+    });
+
+    it.each([
+      ['zero distance', { distanceMiles: 0 }],
+      ['zero mpg', { mpg: 0 }],
+      ['no seats', { seats: 0 }],
+      ['negative tolls', { tolls: -5 }],
+      ['a missing gas price', { gasPrice: Number.NaN }],
+    ])('returns null for %s', (_label, override) => {
+      expect(
+        calculateCostSplit({ distanceMiles: 100, mpg: 25, gasPrice: 5, seats: 2, ...override })
+      ).toBeNull();
+    });
+  });
+
+  describe('resplitCostBreakdown', () => {
+    it('recomputes the per-seat share for a new seat count', () => {
+      const breakdown = calculateCostSplit({ distanceMiles: 200, mpg: 25, gasPrice: 5, seats: 1 });
+
+      const resplit = resplitCostBreakdown(breakdown!, 4);
+
+      expect(resplit.split_between).toBe(5);
+      expect(resplit.per_seat).toBe(8);
+      expect(resplit.total_cost).toBe(40);
+    });
+  });
+
+  describe('formatDollars', () => {
+    it('drops cents for whole amounts', () => {
+      expect(formatDollars(12)).toBe('$12');
+      expect(formatDollars(31.5)).toBe('$31.50');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import type { CostBreakdown } from '@/app/community/types';
+import { calculateDistance } from '@/libs/distance';
+
+/**
+ * Roads are longer than the straight line between two points; mountain routes
+ * to Tahoe typically run about a quarter longer.
+ */
+export const ROAD_DISTANCE_FACTOR = 1.25;
+
+/**
+ * Gas price (USD per gallon) suggested until the driver enters their own.
+ */
+export const DEFAULT_GAS_PRICE = 4.75;
+
+/**
+ * Fuel economy assumed for vehicles without an MPG on record.
+ */
+export const DEFAULT_MPG = 25;
+
+export interface CostSplitInput {
+  distanceMiles: number;
+  mpg: number;
+  gasPrice: number;
+  tolls?: number;
+  parking?: number;
+  // Passenger seats offered; the driver pays a share too
+  seats: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Estimates the driving distance in miles between two points from the
+ * straight-line distance and {@link ROAD_DISTANCE_FACTOR}.
+ */
+export function estimateRoadDistance(
+  startLat: number,
+  startLng: number,
+  endLat: number,
+  endLng: number
+): number {
+  return Math.round(calculateDistance(startLat, startLng, endLat, endLng) * ROAD_DISTANCE_FACTOR);
+}
+
+/**
+ * Splits a trip's fuel, tolls and parking evenly between the driver and each
+ * offered seat. The per-seat contribution is rounded to whole dollars to match
+ * the price field.
+ *
+ * @returns The breakdown, or null when an input can't produce a sensible cost.
+ */
+export function calculateCostSplit({
+  distanceMiles,
+  mpg,
+  gasPrice,
+  tolls = 0,
+  parking = 0,
+  seats,
+}: CostSplitInput): CostBreakdown | null {
+  const inputs = [distanceMiles, mpg, gasPrice, tolls, parking, seats];
+  if (inputs.some((value) => !Number.isFinite(value) || value < 0)) return null;
+  if (distanceMiles === 0 || mpg === 0 || seats < 1) return null;
+
+  const fuelCost = roundCents((distanceMiles / mpg) * gasPrice);
+  const totalCost = roundCents(fuelCost + tolls + parking);
+  const splitBetween = Math.floor(seats) + 1;
+
+  return {
+    distance_miles: distanceMiles,
+    mpg,
+    gas_price: gasPrice,
+    fuel_cost: fuelCost,
+    tolls,
+    parking,
+    total_cost: totalCost,
+    split_between: splitBetween,
+    per_seat: Math.round(totalCost / splitBetween),
+  };
+}
+
+/**
+ * Recomputes a stored breakdown for a different number of seats.
+ */
+export function resplitCostBreakdown(breakdown: CostBreakdown, seats: number): CostBreakdown {
+  return (
+    calculateCostSplit({
+      distanceMiles: breakdown.distance_miles,
+      mpg: breakdown.mpg,
+      gasPrice: breakdown.gas_price,
+      tolls: breakdown.tolls,
+      parking: breakdown.parking,
+      seats,
+    }) ?? breakdown
+  );
+}
+
+/**
+ * Formats a dollar amount, dropping cents for whole amounts.
+ */
+export function formatDollars(value: number): string {
+  return Number.isInteger(value) ? `$${value}` : `$${value.toFixed(2)}`;
+}
@@ -22,6 +22,19 @@ export {
   scheduleNurtureEmail,
 } from './scheduler';
 export { getReengageCandidates, processReengageEmails, scheduleReengageEmails } from './reengage';
+export { processSavedSearchAlerts } from './savedSearchAlerts';
+export { processRoadConditionAlerts } from './roadConditionAlerts';
+export {
+  clearPendingReview,
+  createPendingReviews,
+  REVIEW_REMINDER_DELAY_DAYS,
+  REVIEW_REQUEST_DELAY_DAYS,
+} from './reviewRequests';
+export {
+  MESSAGE_DIGEST_DELAY_MINUTES,
+  MESSAGE_DIGEST_WINDOW_MINUTES,
+  scheduleMessageDigest,
+} from './messageDigests';
 export { getAvailableEmailTypes, isValidEmailType, loadEmailTemplate } from './templates';
 export { emailAnalytics } from '../emailAnalytics';
 export { emailQueue } from '../emailQueue';
@@ -30,6 +43,10 @@ export { emailQueue } from '../emailQueue';
 export type { EmailEvent, SendEmailParams } from './sendEmail';
 export type { ScheduledEmail } from './scheduler';
 export type { ReengageResult } from './reengage';
+export type { SavedSearchAlertResult } from './savedSearchAlerts';
+export type { RoadConditionAlertResult } from './roadConditionAlerts';
+export type { ReviewRequestBooking, ReviewRequestRide } from './reviewRequests';
+export type { QuietHours } from './messageDigests';
 export type { EmailPayload, EmailTemplate, TemplateVariables } from './templates';
 export type { EmailQueueOptions, EmailRateLimitConfig } from '../emailQueue';
 export type { UserWithEmail } from './helpers';
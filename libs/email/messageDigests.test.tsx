@@ -0,0 +1,255 @@
+import {
+  buildMessageDigest,
+  deferMessageDigest,
+  getMessageDigestQuietUntil,
+  getQuietHoursEnd,
+  scheduleMessageDigest,
+} from './messageDigests';
+
+jest.mock('./helpers', () => ({
+  getAppUrl: () => 'https://app.test',
+}));
+
+const results = new Map<string, { data: unknown; error: unknown }>();
+const builders: Array<Record<string, jest.Mock> & { table: string }> = [];
+
+// Chainable stand-in for a Supabase query that resolves to the table's result when awaited
+function queryBuilder(table: string) {
+  const builder: Record<string, jest.Mock> & { table: string; then?: unknown } = { table } as never;
+  const result = () => results.get(table) ?? { data: null, error: null };
+  for (const method of [
+    'select',
+    'insert',
+    'update',
+    'delete',
+    'eq',
+    'is',
+    'gte',
+    'order',
+    'limit',
+  ]) {
+    builder[method] = jest.fn(() => builder);
+  }
+  builder.maybeSingle = jest.fn(() => Promise.resolve(result()));
+  // eslint-disable-next-line no-unused-vars
+  builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result()).then(resolve);
+  builders.push(builder);
+  return builder;
+}
+
+const mockSupabaseClient = {
+  from: jest.fn((table: string) => queryBuilder(table)),
+};
+
+jest.mock('@/lib/supabase/server', () => ({
+  createAdminClient: jest.fn(() => mockSupabaseClient),
+}));
+
+const supabase = mockSupabaseClient as unknown as Parameters<typeof scheduleMessageDigest>[0];
+const buildersFor = (table: string) => builders.filter((builder) => builder.table === table);
+
+describe('message digests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders.length = 0;
+    results.clear();
+  });
+
+  describe('getQuietHoursEnd', () => {
+    // 23:30 in Los Angeles (PST)
+    const lateEvening = new Date('2026-01-15T07:30:00Z');
+
+    it('returns null when quiet hours are off or not in effect', () => {
+      expect(
+        getQuietHoursEnd({ timezone: 'America/Los_Angeles', start: null, end: null }, lateEvening)
+      ).toBeNull();
+      expect(
+        getQuietHoursEnd({ timezone: 'America/Los_Angeles', start: 9, end: 17 }, lateEvening)
+      ).toBeNull();
+    });
+
+    it('returns when overnight quiet hours end in the member timezone', () => {
+      expect(
+        getQuietHoursEnd({ timezone: 'America/Los_Angeles', start: 22, end: 7 }, lateEvening)
+      ).toEqual(new Date('2026-01-15T15:00:00Z'));
+    });
+
+    it('reads the hour in the member timezone rather than UTC', () => {
+      // 02:30 in New York
+      expect(
+        getQuietHoursEnd({ timezone: 'America/New_York', start: 0, end: 6 }, lateEvening)
+      ).toEqual(new Date('2026-01-15T11:00:00Z'));
+      expect(
+        getQuietHoursEnd({ timezone: 'America/Los_Angeles', start: 0, end: 6 }, lateEvening)
+      ).toBeNull();
+    });
+
+    it('falls back to the default timezone for an unknown one', () => {
+      expect(getQuietHoursEnd({ timezone: 'Not/AZone', start: 22, end: 7 }, lateEvening)).toEqual(
+        new Date('2026-01-15T15:00:00Z')
+      );
+    });
+  });
+
+  describe('scheduleMessageDigest', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2026-01-15T18:00:00Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('queues a digest after the delay when none was sent recently', async () => {
+      const queued = await scheduleMessageDigest(supabase, 'user-1', '2026-01-15T17:59:59Z');
+
+      expect(queued).toBe(true);
+      expect(buildersFor('scheduled_emails')[0].insert).toHaveBeenCalledWith({
+        user_id: 'user-1',
+        email_type: 'new_message',
+        run_after: '2026-01-15T18:10:00.000Z',
+        payload: { since: '2026-01-15T17:59:59Z' },
+      });
+    });
+
+    it('waits for the window after the last digest to close', async () => {
+      results.set('email_events', { data: { created_at: '2026-01-15T17:30:00Z' }, error: null });
+
+      await scheduleMessageDigest(supabase, 'user-1', '2026-01-15T17:59:59Z');
+
+      expect(buildersFor('scheduled_emails')[0].insert).toHaveBeenCalledWith(
+        expect.objectContaining({ run_after: '2026-01-15T18:30:00.000Z' })
+      );
+    });
+
+    it('leaves the message for the digest already queued', async () => {
+      results.set('scheduled_emails', { data: null, error: { code: '23505', message: 'dup' } });
+
+      await expect(scheduleMessageDigest(supabase, 'user-1', '2026-01-15T17:59:59Z')).resolves.toBe(
+        false
+      );
+    });
+
+    it('throws when queuing fails', async () => {
+      results.set('scheduled_emails', { data: null, error: { code: '500', message: 'down' } });
+
+      await expect(
+        scheduleMessageDigest(supabase, 'user-1', '2026-01-15T17:59:59Z')
+      ).rejects.toThrow('Failed to schedule message digest: down');
+    });
+  });
+
+  describe('getMessageDigestQuietUntil', () => {
+    it('reads the member quiet hours', async () => {
+      results.set('user_private_info', {
+        data: { timezone: 'America/Los_Angeles', quiet_hours_start: 22, quiet_hours_end: 7 },
+        error: null,
+      });
+
+      const until = await getMessageDigestQuietUntil(
+        supabase,
+        'user-1',
+        new Date('2026-01-15T07:30:00Z')
+      );
+
+      expect(until).toEqual(new Date('2026-01-15T15:00:00Z'));
+      expect(buildersFor('user_private_info')[0].eq).toHaveBeenCalledWith('id', 'user-1');
+    });
+  });
+
+  describe('deferMessageDigest', () => {
+    it('drops newer queued digests and requeues this one', async () => {
+      await deferMessageDigest(supabase, 7, 'user-1', new Date('2026-01-15T15:00:00Z'));
+
+      const [cleanup, requeue] = buildersFor('scheduled_emails');
+      expect(cleanup.delete).toHaveBeenCalled();
+      expect(cleanup.is).toHaveBeenCalledWith('picked_at', null);
+      expect(requeue.update).toHaveBeenCalledWith({
+        run_after: '2026-01-15T15:00:00.000Z',
+        picked_at: null,
+      });
+      expect(requeue.eq).toHaveBeenCalledWith('id', 7);
+    });
+  });
+
+  describe('buildMessageDigest', () => {
+    const message = (
+      id: string,
+      senderId: string,
+      firstName: string,
+      content: string,
+      conversationId = 'convo-1'
+    ) => ({
+      id,
+      conversation_id: conversationId,
+      sender_id: senderId,
+      content,
+      created_at: '2026-01-15T18:00:00Z',
+      sender: { first_name: firstName, last_name: 'Lee' },
+    });
+
+    it('returns null once every message has been read', async () => {
+      results.set('messages', { data: [], error: null });
+
+      await expect(
+        buildMessageDigest(supabase, 'user-1', { since: '2026-01-15T17:00:00Z' })
+      ).resolves.toBeNull();
+      expect(buildersFor('messages')[0].eq).toHaveBeenCalledWith('is_read', false);
+      expect(buildersFor('messages')[0].gte).toHaveBeenCalledWith(
+        'created_at',
+        '2026-01-15T17:00:00Z'
+      );
+    });
+
+    it('links straight to the message when there is a single conversation', async () => {
+      results.set('messages', {
+        data: [message('msg-1', 'dana', 'Dana', 'Still room?')],
+        error: null,
+      });
+
+      const digest = await buildMessageDigest(supabase, 'user-1', {});
+
+      expect(digest).toEqual(
+        expect.objectContaining({
+          senderName: 'Dana Lee',
+          senderInitial: 'D',
+          messageCount: 1,
+          messageSummary: '• Dana Lee: "Still room?"',
+          messageUrl: 'https://app.test/messages?conversation=convo-1&message=msg-1',
+        })
+      );
+    });
+
+    it('lists each sender with a count and preview of their latest message', async () => {
+      results.set('messages', {
+        data: [
+          message('msg-1', 'dana', 'Dana', 'Hi'),
+          message('msg-2', 'pat', 'Pat', '<b>Leaving</b> at 7', 'convo-2'),
+          message('msg-3', 'dana', 'Dana', 'Are you   there?'),
+        ],
+        error: null,
+      });
+
+      const digest = await buildMessageDigest(supabase, 'user-1', {});
+
+      expect(digest).toEqual(
+        expect.objectContaining({
+          senderName: 'Dana Lee and 1 other',
+          messageCount: 3,
+          messagePreview: 'Are you there?',
+          messageSummary: '• Dana Lee (2 messages): "Are you there?"\n• Pat Lee: "bLeaving/b at 7"',
+          messageUrl: 'https://app.test/messages',
+        })
+      );
+    });
+
+    it('throws when unread messages cannot be loaded', async () => {
+      results.set('messages', { data: null, error: { message: 'down' } });
+
+      await expect(buildMessageDigest(supabase, 'user-1', {})).rejects.toThrow(
+        'Failed to load unread messages: down'
+      );
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { buildMessageLink } from '@/libs/messageThread';
+import { getAppUrl } from './helpers';
+import type { EmailPayload } from './templates';
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+/**
+ * Minutes between the first unread message and its digest, so a quick reply
+ * on the site means no email at all.
+ */
+export const MESSAGE_DIGEST_DELAY_MINUTES = 10;
+
+/**
+ * Minimum minutes between two digests to the same member. Messages arriving
+ * sooner wait for the next digest instead of sending another email.
+ */
+export const MESSAGE_DIGEST_WINDOW_MINUTES = 60;
+
+/**
+ * Timezone assumed for quiet hours when a member hasn't picked one.
+ */
+export const DEFAULT_TIMEZONE = 'America/Los_Angeles';
+
+// Senders listed in one digest; the rest are summarized as "and N more"
+const MAX_SENDERS_PER_DIGEST = 5;
+const MAX_MESSAGES_PER_DIGEST = 100;
+const PREVIEW_LENGTH = 100;
+
+export interface QuietHours {
+  timezone: string | null;
+  /** Hour of day (0-23) quiet hours begin, or null when they're off. */
+  start: number | null;
+  /** Hour of day (0-23) quiet hours end. */
+  end: number | null;
+}
+
+interface DigestMessage {
+  id: string;
+  conversation_id: string | null;
+  sender_id: string;
+  content: string;
+  created_at: string;
+  sender: { first_name: string | null; last_name: string | null } | null;
+}
+
+interface SenderSummary {
+  name: string;
+  count: number;
+  latest: DigestMessage;
+}
+
+const addMinutes = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60_000);
+
+const toPreview = (content: string) => {
+  const flattened = content
+    .replace(/\p{Cc}/gu, ' ')
+    .replace(/[<>]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return flattened.length > PREVIEW_LENGTH
+    ? `${flattened.substring(0, PREVIEW_LENGTH)}...`
+    : flattened;
+};
+
+const getLocalTime = (timezone: string, now: Date) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return { hour: part('hour'), minute: part('minute') };
+};
+
+/**
+ * When the member's quiet hours end, or null if `now` isn't inside them.
+ * Hours are read in the member's timezone and may wrap past midnight
+ * (e.g. 22 → 7). An unknown timezone falls back to the default.
+ */
+export function getQuietHoursEnd(quietHours: QuietHours, now = new Date()): Date | null {
+  const { start, end } = quietHours;
+  if (start === null || end === null || start === end) return null;
+
+  let local: { hour: number; minute: number };
+  try {
+    local = getLocalTime(quietHours.timezone || DEFAULT_TIMEZONE, now);
+  } catch {
+    local = getLocalTime(DEFAULT_TIMEZONE, now);
+  }
+
+  const isQuiet =
+    start < end ? local.hour >= start && local.hour < end : local.hour >= start || local.hour < end;
+  if (!isQuiet) return null;
+
+  const minutesNow = local.hour * 60 + local.minute;
+  const minutesUntilEnd = (end * 60 - minutesNow + 24 * 60) % (24 * 60);
+  const quietEnd = addMinutes(now, minutesUntilEnd);
+  quietEnd.setSeconds(0, 0);
+  return quietEnd;
+}
+
+/**
+ * Queues a message digest for the recipient of a new message. Only one digest
+ * is pending per member at a time, so later messages are left for the queued
+ * one to pick up. Digests go out MESSAGE_DIGEST_DELAY_MINUTES after the first
+ * message, and no sooner than MESSAGE_DIGEST_WINDOW_MINUTES after the last one.
+ * Returns whether a new digest was queued.
+ */
+export async function scheduleMessageDigest(
+  supabase: AdminClient,
+  recipientId: string,
+  firstMessageAt: string
+): Promise<boolean> {
+  const now = new Date();
+
+  const { data: lastDigest } = await supabase
+    .from('email_events')
+    .select('created_at')
+    .eq('user_id', recipientId)
+    .eq('email_type', 'new_message')
+    .eq('status', 'sent')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  let runAfter = addMinutes(now, MESSAGE_DIGEST_DELAY_MINUTES);
+  if (lastDigest) {
+    const windowEnd = addMinutes(new Date(lastDigest.created_at), MESSAGE_DIGEST_WINDOW_MINUTES);
+    if (windowEnd > runAfter) runAfter = windowEnd;
+  }
+
+  const { error } = await supabase.from('scheduled_emails').insert({
+    user_id: recipientId,
+    email_type: 'new_message',
+    run_after: runAfter.toISOString(),
+    payload: { since: firstMessageAt },
+  });
+
+  if (error?.code === '23505') return false;
+  if (error) {
+    throw new Error(`Failed to schedule message digest: ${error.message}`);
+  }
+
+  return true;
+}
+
+/**
+ * When a digest due now should be held until instead, because the member is
+ * inside their quiet hours. Null means send it.
+ */
+export async function getMessageDigestQuietUntil(
+  supabase: AdminClient,
+  userId: string,
+  now = new Date()
+): Promise<Date | null> {
+  const { data: preferences } = await supabase
+    .from('user_private_info')
+    .select('timezone, quiet_hours_start, quiet_hours_end')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (!preferences) return null;
+
+  return getQuietHoursEnd(
+    {
+      timezone: preferences.timezone,
+      start: preferences.quiet_hours_start,
+      end: preferences.quiet_hours_end,
+    },
+    now
+  );
+}
+
+/**
+ * Puts a picked-up digest back in the queue until `until`. A digest queued for
+ * the same member in the meantime is dropped, since this one covers its messages.
+ */
+export async function deferMessageDigest(
+  supabase: AdminClient,
+  scheduledEmailId: number,
+  userId: string,
+  until: Date
+): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('scheduled_emails')
+    .delete()
+    .eq('user_id', userId)
+    .eq('email_type', 'new_message')
+    .is('picked_at', null);
+
+  if (deleteError) {
+    throw new Error(`Failed to defer message digest: ${deleteError.message}`);
+  }
+
+  const { error } = await supabase
+    .from('scheduled_emails')
+    .update({ run_after: until.toISOString(), picked_at: null })
+    .eq('id', scheduledEmailId);
+
+  if (error) {
+    throw new Error(`Failed to defer message digest: ${error.message}`);
+  }
+}
+
+/**
+ * Builds the digest payload from the member's 1:1 messages that are still
+ * unread since the digest was queued: one line per sender with how many
+ * messages they sent and a preview of the latest. Returns null once they've
+ * all been read, so nothing is sent.
+ */
+export async function buildMessageDigest(
+  supabase: AdminClient,
+  userId: string,
+  payload: EmailPayload
+): Promise<EmailPayload | null> {
+  let query = supabase
+    .from('messages')
+    .select(
+      'id, conversation_id, sender_id, content, created_at, sender:profiles!messages_sender_id_fkey(first_name, last_name)'
+    )
+    .eq('recipient_id', userId)
+    .eq('is_read', false);
+
+  if (typeof payload.since === 'string') {
+    query = query.gte('created_at', payload.since);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .limit(MAX_MESSAGES_PER_DIGEST);
+
+  if (error) {
+    throw new Error(`Failed to load unread messages: ${error.message}`);
+  }
+
+  const messages = (data ?? []) as unknown as DigestMessage[];
+  if (messages.length === 0) return null;
+
+  const senders = new Map<string, SenderSummary>();
+  for (const message of messages) {
+    const name =
+      [message.sender?.first_name, message.sender?.last_name].filter(Boolean).join(' ') ||
+      'A RideShareTahoe member';
+    const summary = senders.get(message.sender_id);
+    senders.set(message.sender_id, {
+      name,
+      count: (summary?.count ?? 0) + 1,
+      latest: message,
+    });
+  }
+
+  const summaries = Array.from(senders.values());
+  const lines = summaries
+    .slice(0, MAX_SENDERS_PER_DIGEST)
+    .map(
+      ({ name, count, latest }) =>
+        `• ${name}${count > 1 ? ` (${count} messages)` : ''}: "${toPreview(latest.content)}"`
+    );
+  if (summaries.length > MAX_SENDERS_PER_DIGEST) {
+    lines.push(`…and ${summaries.length - MAX_SENDERS_PER_DIGEST} more`);
+  }
+
+  const latest = messages[messages.length - 1];
+  const conversationIds = new Set(messages.map((message) => message.conversation_id));
+  const messageUrl =
+    conversationIds.size === 1 && latest.conversation_id
+      ? `${getAppUrl()}${buildMessageLink(latest.conversation_id, latest.id)}`
+      : `${getAppUrl()}/messages`;
+
+  const [first] = summaries;
+  const otherSenders = summaries.length - 1;
+
+  return {
+    since: typeof payload.since === 'string' ? payload.since : null,
+    senderName:
+      otherSenders === 0
+        ? first.name
+        : `${first.name} and ${otherSenders} other${otherSenders > 1 ? 's' : ''}`,
+    senderInitial: first.name[0].toUpperCase(),
+    messageCount: messages.length,
+    messagePreview: toPreview(latest.content),
+    messageSummary: lines.join('\n'),
+    messageUrl,
+  };
+}
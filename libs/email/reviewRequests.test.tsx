@@ -0,0 +1,186 @@
+import {
+  clearPendingReview,
+  createPendingReviews,
+  markReviewRequestSent,
+  shouldSendReviewRequest,
+} from './reviewRequests';
+import { scheduleEmail } from './sendEmail';
+import { getUserWithEmail } from './helpers';
+import { createNotifications } from '@/lib/supabase/notifications';
+
+jest.mock('./sendEmail', () => ({
+  scheduleEmail: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/notifications', () => ({
+  createNotifications: jest.fn(),
+}));
+
+jest.mock('./helpers', () => ({
+  getAppUrl: () => 'https://app.test',
+  getUserWithEmail: jest.fn(),
+}));
+
+let result: { data: unknown; error: unknown } = { data: null, error: null };
+const builders: Array<Record<string, jest.Mock>> = [];
+
+// Chainable stand-in for a Supabase query that resolves to `result` when awaited
+function queryBuilder() {
+  const builder: Record<string, jest.Mock> & { then?: unknown } = {};
+  for (const method of ['select', 'upsert', 'update', 'delete', 'eq', 'is']) {
+    builder[method] = jest.fn(() => builder);
+  }
+  builder.maybeSingle = jest.fn(() => Promise.resolve(result));
+  // eslint-disable-next-line no-unused-vars
+  builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  builders.push(builder);
+  return builder;
+}
+
+const mockSupabaseClient = {
+  from: jest.fn(() => queryBuilder()),
+};
+
+jest.mock('@/lib/supabase/server', () => ({
+  createAdminClient: jest.fn(() => mockSupabaseClient),
+}));
+
+const supabase = mockSupabaseClient as unknown as Parameters<typeof createPendingReviews>[0];
+
+const ride = {
+  title: null,
+  start_location: 'Sacramento',
+  end_location: 'Truckee',
+  departure_date: '2026-01-11',
+};
+const booking = { id: 'booking-1', driver_id: 'driver-1', passenger_id: 'passenger-1' };
+
+describe('review requests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders.length = 0;
+    result = { data: null, error: null };
+    (getUserWithEmail as jest.Mock).mockImplementation(async (_client, userId: string) => ({
+      id: userId,
+      first_name: userId === 'driver-1' ? 'Dana' : 'Pat',
+      last_name: 'Lee',
+      email: `${userId}@example.com`,
+    }));
+  });
+
+  describe('createPendingReviews', () => {
+    const completedAt = new Date('2026-01-12T12:00:00Z');
+
+    it('creates a pending review for each side and queues a request and reminder', async () => {
+      result = { data: [{ user_id: 'driver-1' }, { user_id: 'passenger-1' }], error: null };
+
+      const queued = await createPendingReviews(supabase, ride, booking, completedAt);
+
+      expect(queued).toBe(4);
+      expect(builders[0].upsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            user_id: 'driver-1',
+            other_participant_id: 'passenger-1',
+            role: 'driver',
+          }),
+          expect.objectContaining({
+            user_id: 'passenger-1',
+            other_participant_id: 'driver-1',
+            role: 'passenger',
+          }),
+        ],
+        { onConflict: 'booking_id,user_id', ignoreDuplicates: true }
+      );
+      expect(scheduleEmail).toHaveBeenCalledWith({
+        userId: 'driver-1',
+        emailType: 'review_request',
+        runAfter: new Date('2026-01-13T12:00:00Z'),
+        payload: expect.objectContaining({
+          bookingId: 'booking-1',
+          userName: 'Dana',
+          otherUserName: 'Pat Lee',
+          meetingLocation: 'Sacramento → Truckee',
+          reminder: false,
+        }),
+      });
+      expect(scheduleEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'passenger-1',
+          runAfter: new Date('2026-01-19T12:00:00Z'),
+          payload: expect.objectContaining({ otherUserName: 'Dana Lee', reminder: true }),
+        })
+      );
+      expect(createNotifications).toHaveBeenCalledWith([
+        expect.objectContaining({
+          userId: 'driver-1',
+          actorId: 'passenger-1',
+          type: 'review_requested',
+          body: 'Leave a review for Pat Lee from Sacramento → Truckee.',
+        }),
+        expect.objectContaining({ userId: 'passenger-1', type: 'review_requested' }),
+      ]);
+    });
+
+    it('only queues emails for sides that did not already have a pending review', async () => {
+      result = { data: [{ user_id: 'passenger-1' }], error: null };
+
+      const queued = await createPendingReviews(supabase, ride, booking, completedAt);
+
+      expect(queued).toBe(2);
+      expect(scheduleEmail).not.toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'driver-1' })
+      );
+    });
+
+    it('throws when the pending reviews cannot be saved', async () => {
+      result = { data: null, error: { message: 'insert failed' } };
+
+      await expect(createPendingReviews(supabase, ride, booking, completedAt)).rejects.toThrow(
+        'insert failed'
+      );
+      expect(scheduleEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('shouldSendReviewRequest', () => {
+    it('stops once the review has been left', async () => {
+      result = { data: null, error: null };
+
+      await expect(
+        shouldSendReviewRequest(supabase, 'driver-1', { bookingId: 'booking-1' })
+      ).resolves.toBe(false);
+    });
+
+    it('sends the first request once and reminders while the review is pending', async () => {
+      result = { data: { is_notified: true }, error: null };
+
+      await expect(
+        shouldSendReviewRequest(supabase, 'driver-1', { bookingId: 'booking-1', reminder: false })
+      ).resolves.toBe(false);
+      await expect(
+        shouldSendReviewRequest(supabase, 'driver-1', { bookingId: 'booking-1', reminder: true })
+      ).resolves.toBe(true);
+    });
+  });
+
+  it('marks the pending review notified', async () => {
+    await markReviewRequestSent(supabase, 'driver-1', { bookingId: 'booking-1' });
+
+    expect(builders[0].update).toHaveBeenCalledWith({
+      is_notified: true,
+      notification_sent_at: expect.any(String),
+    });
+    expect(builders[0].eq).toHaveBeenCalledWith('booking_id', 'booking-1');
+    expect(builders[0].eq).toHaveBeenCalledWith('user_id', 'driver-1');
+  });
+
+  it('clears the pending review and its queued emails', async () => {
+    await clearPendingReview('booking-1', 'passenger-1');
+
+    expect(mockSupabaseClient.from).toHaveBeenCalledWith('reviews_pending');
+    expect(mockSupabaseClient.from).toHaveBeenCalledWith('scheduled_emails');
+    expect(builders[1].eq).toHaveBeenCalledWith('payload->>bookingId', 'booking-1');
+    expect(builders[1].is).toHaveBeenCalledWith('picked_at', null);
+  });
+});
@@ -0,0 +1,191 @@
+import { createNotifications, type NewNotification } from '@/lib/supabase/notifications';
+import { createAdminClient } from '@/lib/supabase/server';
+import { getAppUrl, getUserWithEmail } from './helpers';
+import { scheduleEmail } from './sendEmail';
+import type { EmailPayload } from './templates';
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+/**
+ * Days after a booking completes before each side is asked for a review.
+ */
+export const REVIEW_REQUEST_DELAY_DAYS = 1;
+
+/**
+ * Days after a booking completes before anyone who still hasn't reviewed is
+ * reminded.
+ */
+export const REVIEW_REMINDER_DELAY_DAYS = 7;
+
+export interface ReviewRequestRide {
+  title: string | null;
+  start_location: string;
+  end_location: string;
+  departure_date: string;
+}
+
+export interface ReviewRequestBooking {
+  id: string;
+  driver_id: string;
+  passenger_id: string;
+}
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Creates a pending review for the driver and the passenger of a completed
+ * booking, notifies them in the app and queues their review request and
+ * reminder. Sides that already have a pending review are left alone, so
+ * calling this twice is harmless.
+ * Returns how many emails were queued.
+ */
+export async function createPendingReviews(
+  supabase: AdminClient,
+  ride: ReviewRequestRide,
+  booking: ReviewRequestBooking,
+  completedAt = new Date()
+): Promise<number> {
+  const [driver, passenger] = await Promise.all([
+    getUserWithEmail(supabase, booking.driver_id),
+    getUserWithEmail(supabase, booking.passenger_id),
+  ]);
+  if (!driver || !passenger) return 0;
+
+  const { data: created, error } = await supabase
+    .from('reviews_pending')
+    .upsert(
+      [
+        {
+          user_id: driver.id,
+          other_participant_id: passenger.id,
+          booking_id: booking.id,
+          role: 'driver' as const,
+          other_role: 'passenger' as const,
+        },
+        {
+          user_id: passenger.id,
+          other_participant_id: driver.id,
+          booking_id: booking.id,
+          role: 'passenger' as const,
+          other_role: 'driver' as const,
+        },
+      ],
+      { onConflict: 'booking_id,user_id', ignoreDuplicates: true }
+    )
+    .select('user_id');
+
+  if (error) {
+    throw new Error(`Failed to create pending reviews: ${error.message}`);
+  }
+
+  let queued = 0;
+  const notifications: NewNotification[] = [];
+  for (const { user_id } of created ?? []) {
+    const [recipient, other] = user_id === driver.id ? [driver, passenger] : [passenger, driver];
+    const payload: EmailPayload = {
+      bookingId: booking.id,
+      userName: recipient.first_name || '',
+      otherUserName: [other.first_name, other.last_name].filter(Boolean).join(' '),
+      meetingDate: ride.departure_date,
+      meetingLocation: ride.title || `${ride.start_location} → ${ride.end_location}`,
+      reviewUrl: `${getAppUrl()}/community`,
+      messageUrl: `${getAppUrl()}/messages`,
+    };
+
+    await scheduleEmail({
+      userId: recipient.id,
+      emailType: 'review_request',
+      runAfter: addDays(completedAt, REVIEW_REQUEST_DELAY_DAYS),
+      payload: { ...payload, reminder: false },
+    });
+    await scheduleEmail({
+      userId: recipient.id,
+      emailType: 'review_request',
+      runAfter: addDays(completedAt, REVIEW_REMINDER_DELAY_DAYS),
+      payload: { ...payload, reminder: true },
+    });
+    queued += 2;
+
+    notifications.push({
+      userId: recipient.id,
+      actorId: other.id,
+      type: 'review_requested',
+      title: 'How was your ride?',
+      body: `Leave a review for ${payload.otherUserName || 'your ride partner'} from ${payload.meetingLocation}.`,
+      data: { booking_id: booking.id },
+    });
+  }
+
+  await createNotifications(notifications);
+
+  return queued;
+}
+
+/**
+ * Whether a queued review request should still go out: the review hasn't been
+ * left yet, and the first request hasn't already been sent (reminders go out
+ * either way).
+ */
+export async function shouldSendReviewRequest(
+  supabase: AdminClient,
+  userId: string,
+  payload: EmailPayload
+): Promise<boolean> {
+  const { data: pending } = await supabase
+    .from('reviews_pending')
+    .select('is_notified')
+    .eq('booking_id', String(payload.bookingId))
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!pending) return false;
+  return payload.reminder === true || !pending.is_notified;
+}
+
+/**
+ * Records that a review request or reminder was sent.
+ */
+export async function markReviewRequestSent(
+  supabase: AdminClient,
+  userId: string,
+  payload: EmailPayload
+): Promise<void> {
+  const { error } = await supabase
+    .from('reviews_pending')
+    .update({ is_notified: true, notification_sent_at: new Date().toISOString() })
+    .eq('booking_id', String(payload.bookingId))
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to mark review request sent: ${error.message}`);
+  }
+}
+
+/**
+ * Clears a reviewer's pending review once they've left it, along with any
+ * request or reminder still queued for that booking.
+ */
+export async function clearPendingReview(bookingId: string, userId: string): Promise<void> {
+  const supabase = createAdminClient();
+
+  const [{ error: pendingError }, { error: emailsError }] = await Promise.all([
+    supabase.from('reviews_pending').delete().eq('booking_id', bookingId).eq('user_id', userId),
+    supabase
+      .from('scheduled_emails')
+      .delete()
+      .eq('user_id', userId)
+      .eq('email_type', 'review_request')
+      .eq('payload->>bookingId', bookingId)
+      .is('picked_at', null),
+  ]);
+
+  if (pendingError || emailsError) {
+    throw new Error(
+      `Failed to clear pending review: ${(pendingError ?? emailsError)?.message ?? 'Unknown error'}`
+    );
+  }
+}
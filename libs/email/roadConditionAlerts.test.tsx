@@ -0,0 +1,240 @@
+import { processRoadConditionAlerts } from './roadConditionAlerts';
+import { sendEmail } from './sendEmail';
+import { getUserWithEmail } from './helpers';
+
+jest.mock('./sendEmail', () => ({
+  sendEmail: jest.fn(),
+}));
+
+jest.mock('./helpers', () => ({
+  getUserWithEmail: jest.fn(),
+}));
+
+let tableResults: Record<string, { data: unknown; error: unknown }> = {};
+const mockInsert = jest.fn();
+const mockDelete = jest.fn();
+
+// Chainable stand-in for a Supabase query that resolves to the table's result when awaited
+function queryBuilder(table: string) {
+  const builder: Record<string, jest.Mock> & { then?: unknown } = {};
+  for (const method of ['select', 'eq', 'neq', 'gte', 'lte', 'in']) {
+    builder[method] = jest.fn(() => builder);
+  }
+  builder.insert = mockInsert;
+  builder.delete = jest.fn(() => {
+    mockDelete(table);
+    return builder;
+  });
+  // eslint-disable-next-line no-unused-vars
+  builder.then = (resolve: (value: unknown) => unknown) =>
+    Promise.resolve(tableResults[table]).then(resolve);
+  return builder;
+}
+
+const mockSupabaseClient = {
+  from: jest.fn((table: string) => queryBuilder(table)),
+};
+
+jest.mock('@/lib/supabase/server', () => ({
+  createAdminClient: jest.fn(() => mockSupabaseClient),
+}));
+
+const now = new Date('2026-01-10T15:00:00Z');
+
+const i80Condition = (chainControl: string) => ({
+  corridor: 'I-80',
+  chain_control: chainControl,
+  description: null,
+  source: 'fixture',
+  reported_at: '2026-01-10T14:00:00Z',
+});
+
+const truckeeRide = {
+  id: 'ride-1',
+  poster_id: 'driver-1',
+  posting_type: 'driver',
+  status: 'active',
+  start_location: 'San Francisco',
+  end_location: 'Truckee',
+  start_lat: 37.7749,
+  start_lng: -122.4194,
+  end_lat: 39.328,
+  end_lng: -120.1833,
+  departure_date: '2026-01-11',
+  departure_time: '08:00:00',
+  has_awd: false,
+};
+
+describe('processRoadConditionAlerts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockInsert.mockResolvedValue({ error: null });
+    (getUserWithEmail as jest.Mock).mockImplementation(async (_client, userId: string) => ({
+      id: userId,
+      first_name: userId === 'driver-1' ? 'Dana' : 'Pat',
+      email: `${userId}@example.com`,
+    }));
+    tableResults = {
+      road_conditions: { data: [i80Condition('R2')], error: null },
+      rides: { data: [truckeeRide], error: null },
+      road_condition_alerts: { data: [], error: null },
+      trip_bookings: { data: [{ ride_id: 'ride-1', passenger_id: 'passenger-1' }], error: null },
+    };
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('returns early when no corridor is at R2 or worse', async () => {
+    tableResults.road_conditions = { data: [i80Condition('R1')], error: null };
+
+    const result = await processRoadConditionAlerts(now);
+
+    expect(result).toEqual({ processed: 0, sent: 0, skipped: 0, errors: [] });
+    expect(mockSupabaseClient.from).not.toHaveBeenCalledWith('rides');
+  });
+
+  it('emails the driver and confirmed passengers and records the level', async () => {
+    const result = await processRoadConditionAlerts(now);
+
+    expect(sendEmail).toHaveBeenCalledTimes(2);
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'driver-1',
+        to: 'driver-1@example.com',
+        emailType: 'chain_control_alert',
+        payload: expect.objectContaining({
+          recipientName: 'Dana',
+          corridor: 'I-80',
+          passName: 'Donner Summit',
+          chainControl: 'R2',
+          rideSummary: 'San Francisco → Truckee on 2026-01-11',
+        }),
+      })
+    );
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'passenger-1', to: 'passenger-1@example.com' })
+    );
+    expect(mockInsert).toHaveBeenCalledWith({
+      ride_id: 'ride-1',
+      user_id: 'driver-1',
+      chain_control: 'R2',
+      corridor: 'I-80',
+    });
+    expect(mockInsert).toHaveBeenCalledWith(
+      expect.objectContaining({ user_id: 'passenger-1', chain_control: 'R2' })
+    );
+    expect(result).toEqual({ processed: 1, sent: 2, skipped: 0, errors: [] });
+  });
+
+  it('looks for rides by the Tahoe date on a Tahoe evening after UTC midnight', async () => {
+    const gte = jest.fn();
+    const lte = jest.fn();
+    mockSupabaseClient.from.mockImplementation((table: string) => {
+      const builder = queryBuilder(table);
+      if (table === 'rides') {
+        builder.gte.mockImplementation((...args: unknown[]) => {
+          gte(...args);
+          return builder;
+        });
+        builder.lte.mockImplementation((...args: unknown[]) => {
+          lte(...args);
+          return builder;
+        });
+      }
+      return builder;
+    });
+
+    // 6pm on Jan 10 in Tahoe
+    await processRoadConditionAlerts(new Date('2026-01-11T02:00:00Z'));
+
+    expect(gte).toHaveBeenCalledWith('departure_date', '2026-01-10');
+    expect(lte).toHaveBeenCalledWith('departure_date', '2026-01-12');
+    mockSupabaseClient.from.mockImplementation((table: string) => queryBuilder(table));
+  });
+
+  it('skips rides already alerted at this level but alerts again on escalation', async () => {
+    tableResults.road_condition_alerts = {
+      data: [
+        { ride_id: 'ride-1', user_id: 'driver-1', chain_control: 'R2' },
+        { ride_id: 'ride-1', user_id: 'passenger-1', chain_control: 'R2' },
+      ],
+      error: null,
+    };
+
+    const unchanged = await processRoadConditionAlerts(now);
+
+    expect(sendEmail).not.toHaveBeenCalled();
+    expect(unchanged).toEqual({ processed: 1, sent: 0, skipped: 1, errors: [] });
+
+    tableResults.road_conditions = { data: [i80Condition('R3')], error: null };
+
+    const escalated = await processRoadConditionAlerts(now);
+
+    expect(sendEmail).toHaveBeenCalledTimes(2);
+    expect(mockInsert).toHaveBeenCalledWith(expect.objectContaining({ chain_control: 'R3' }));
+    expect(escalated.sent).toBe(2);
+  });
+
+  it('leaves AWD rides alone under R2', async () => {
+    tableResults.rides = { data: [{ ...truckeeRide, has_awd: true }], error: null };
+
+    const result = await processRoadConditionAlerts(now);
+
+    expect(sendEmail).not.toHaveBeenCalled();
+    expect(result).toEqual({ processed: 0, sent: 0, skipped: 0, errors: [] });
+  });
+
+  it('records an error for the ride when the alert cannot be saved', async () => {
+    mockInsert.mockResolvedValue({ error: { message: 'insert failed' } });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await processRoadConditionAlerts(now);
+
+    expect(result.errors).toEqual([
+      { rideId: 'ride-1', error: 'Failed to record chain control alert: insert failed' },
+    ]);
+  });
+
+  it('treats an alert another run already claimed as sent', async () => {
+    mockInsert.mockImplementation(async (row: { user_id: string }) =>
+      row.user_id === 'driver-1'
+        ? { error: { code: '23505', message: 'duplicate' } }
+        : { error: null }
+    );
+
+    const result = await processRoadConditionAlerts(now);
+
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ userId: 'passenger-1' }));
+    expect(result).toEqual({ processed: 1, sent: 1, skipped: 0, errors: [] });
+  });
+
+  it('does not email the first recipient again after the second one fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (sendEmail as jest.Mock).mockImplementation(async ({ userId }: { userId: string }) => {
+      if (userId === 'passenger-1') throw new Error('mail server down');
+    });
+
+    const failed = await processRoadConditionAlerts(now);
+
+    expect(failed.sent).toBe(1);
+    expect(failed.errors).toEqual([{ rideId: 'ride-1', error: 'mail server down' }]);
+    // The passenger's claim is released so the next run retries them
+    expect(mockDelete).toHaveBeenCalledTimes(1);
+    expect(mockDelete).toHaveBeenCalledWith('road_condition_alerts');
+
+    (sendEmail as jest.Mock).mockResolvedValue(undefined);
+    tableResults.road_condition_alerts = {
+      data: [{ ride_id: 'ride-1', user_id: 'driver-1', chain_control: 'R2' }],
+      error: null,
+    };
+
+    const retried = await processRoadConditionAlerts(now);
+
+    expect(retried).toEqual({ processed: 1, sent: 1, skipped: 0, errors: [] });
+    const driverEmails = (sendEmail as jest.Mock).mock.calls.filter(
+      ([options]) => options.userId === 'driver-1'
+    );
+    expect(driverEmails).toHaveLength(1);
+    expect(sendEmail).toHaveBeenLastCalledWith(expect.objectContaining({ userId: 'passenger-1' }));
+  });
+});
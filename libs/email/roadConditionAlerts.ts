@@ -0,0 +1,180 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import {
+  CHAIN_CONTROL_DESCRIPTIONS,
+  CHAIN_CONTROL_LEVELS,
+  CONDITIONS_WINDOW_DAYS,
+  getChainControlWarning,
+  type ChainControlLevel,
+  type ChainControlRide,
+  type RoadCondition,
+} from '@/libs/roadConditions/corridors';
+import { toTahoeDateKey } from '@/libs/tahoeTime';
+import { sanitizeLocation } from '@/libs/sanitize/location';
+import { getUserWithEmail } from './helpers';
+import { sendEmail } from './sendEmail';
+
+export interface RoadConditionAlertResult {
+  processed: number;
+  sent: number;
+  skipped: number;
+  errors: Array<{ rideId: string; error: string }>;
+}
+
+type AlertRide = ChainControlRide & {
+  id: string;
+  poster_id: string;
+  start_location: string;
+  end_location: string;
+  departure_time: string | null;
+};
+
+const DRIVER_ADVICE =
+  'Carry chains and know how to fit them, leave extra time, or let your passengers know if you need to change plans.';
+const PASSENGER_ADVICE =
+  'Check in with your driver about chains and timing, and pack warm layers in case of delays.';
+
+const levelRank = (level: string) => CHAIN_CONTROL_LEVELS.indexOf(level as ChainControlLevel);
+
+/**
+ * Emails the driver and confirmed passengers of every upcoming ride that is
+ * now heading into chain controls its car may not meet (see
+ * getChainControlWarning). Each person is emailed once per ride and level, so
+ * a later escalation from R2 to R3 goes out again but repeated runs at R2
+ * don't. The alert row is claimed before the email goes out and released if it
+ * fails, so a run that stops partway never emails the same person twice.
+ */
+export async function processRoadConditionAlerts(
+  now = new Date()
+): Promise<RoadConditionAlertResult> {
+  const supabase = createAdminClient();
+  const errors: Array<{ rideId: string; error: string }> = [];
+  let sent = 0;
+  let skipped = 0;
+
+  const { data: conditions, error: conditionsError } = await supabase
+    .from('road_conditions')
+    .select('corridor, chain_control, description, source, reported_at');
+
+  if (conditionsError) {
+    throw new Error(`Failed to fetch road conditions: ${conditionsError.message}`);
+  }
+
+  const activeConditions = ((conditions ?? []) as RoadCondition[]).filter(
+    (condition) => levelRank(condition.chain_control) >= levelRank('R2')
+  );
+  if (activeConditions.length === 0) {
+    console.log('No chain controls affecting rides');
+    return { processed: 0, sent: 0, skipped: 0, errors: [] };
+  }
+
+  const { data: rides, error: ridesError } = await supabase
+    .from('rides')
+    .select(
+      'id, poster_id, posting_type, status, start_location, end_location, start_lat, start_lng, end_lat, end_lng, departure_date, departure_time, has_awd'
+    )
+    .eq('status', 'active')
+    .neq('posting_type', 'passenger')
+    .gte('departure_date', toTahoeDateKey(now))
+    .lte('departure_date', toTahoeDateKey(now, CONDITIONS_WINDOW_DAYS - 1));
+
+  if (ridesError) {
+    throw new Error(`Failed to fetch upcoming rides: ${ridesError.message}`);
+  }
+
+  const affected = ((rides ?? []) as AlertRide[]).flatMap((ride) => {
+    const warning = getChainControlWarning(ride, activeConditions, now);
+    return warning ? [{ ride, warning }] : [];
+  });
+
+  if (affected.length === 0) {
+    return { processed: 0, sent: 0, skipped: 0, errors: [] };
+  }
+
+  const rideIds = affected.map(({ ride }) => ride.id);
+  const [{ data: pastAlerts }, { data: bookings }] = await Promise.all([
+    supabase
+      .from('road_condition_alerts')
+      .select('ride_id, user_id, chain_control')
+      .in('ride_id', rideIds),
+    supabase
+      .from('trip_bookings')
+      .select('ride_id, passenger_id')
+      .in('ride_id', rideIds)
+      .eq('status', 'confirmed'),
+  ]);
+
+  for (const { ride, warning } of affected) {
+    const level = warning.condition.chain_control;
+    const passengerIds = (bookings ?? [])
+      .filter((booking) => booking.ride_id === ride.id)
+      .map((booking) => booking.passenger_id);
+    const recipientIds = [ride.poster_id, ...passengerIds].filter(
+      (userId) =>
+        !(pastAlerts ?? []).some(
+          (alert) =>
+            alert.ride_id === ride.id &&
+            alert.user_id === userId &&
+            levelRank(alert.chain_control) >= levelRank(level)
+        )
+    );
+    if (recipientIds.length === 0) {
+      skipped++;
+      continue;
+    }
+
+    try {
+      for (const userId of recipientIds) {
+        const recipient = await getUserWithEmail(supabase, userId);
+        if (!recipient) continue;
+
+        // Claim the alert first; a unique violation means another run already sent it
+        const { error: claimError } = await supabase.from('road_condition_alerts').insert({
+          ride_id: ride.id,
+          user_id: userId,
+          chain_control: level,
+          corridor: warning.corridor.id,
+        });
+        if (claimError?.code === '23505') continue;
+        if (claimError) {
+          throw new Error(`Failed to record chain control alert: ${claimError.message}`);
+        }
+
+        try {
+          await sendEmail({
+            userId,
+            to: recipient.email,
+            emailType: 'chain_control_alert',
+            payload: {
+              recipientName: recipient.first_name || '',
+              corridor: warning.corridor.name,
+              passName: warning.corridor.passName,
+              chainControl: level,
+              chainControlDescription:
+                CHAIN_CONTROL_DESCRIPTIONS[level as Exclude<ChainControlLevel, 'none'>],
+              rideSummary: `${sanitizeLocation(ride.start_location)} → ${sanitizeLocation(ride.end_location)} on ${ride.departure_date}`,
+              advice: userId === ride.poster_id ? DRIVER_ADVICE : PASSENGER_ADVICE,
+            },
+          });
+        } catch (sendError) {
+          // Release the claim so the next run tries this person again
+          await supabase
+            .from('road_condition_alerts')
+            .delete()
+            .eq('ride_id', ride.id)
+            .eq('user_id', userId)
+            .eq('chain_control', level);
+          throw sendError;
+        }
+        sent++;
+      }
+    } catch (error) {
+      console.error(`Error sending chain control alerts for ride ${ride.id}:`, error);
+      errors.push({
+        rideId: ride.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return { processed: affected.length, sent, skipped, errors };
+}
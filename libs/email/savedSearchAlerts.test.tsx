@@ -0,0 +1,149 @@
+import { processSavedSearchAlerts } from './savedSearchAlerts';
+import { sendEmail } from './sendEmail';
+import { getUserWithEmail } from './helpers';
+
+jest.mock('./sendEmail', () => ({
+  sendEmail: jest.fn(),
+}));
+
+jest.mock('./helpers', () => ({
+  getUserWithEmail: jest.fn(),
+}));
+
+const mockLimit = jest.fn();
+const mockIn = jest.fn();
+const mockUpdate = jest.fn(() => ({ in: mockIn }));
+const mockSupabaseClient = {
+  from: jest.fn(() => ({
+    select: jest.fn(() => ({
+      is: jest.fn(() => ({
+        order: jest.fn(() => ({ limit: mockLimit })),
+      })),
+    })),
+    update: mockUpdate,
+  })),
+};
+
+jest.mock('@/lib/supabase/server', () => ({
+  createAdminClient: jest.fn(() => mockSupabaseClient),
+}));
+
+const activeRide = (start: string) => ({
+  start_location: start,
+  end_location: 'South Lake Tahoe',
+  departure_date: '2026-01-10',
+  status: 'active',
+});
+
+describe('processSavedSearchAlerts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockIn.mockResolvedValue({ error: null });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('returns early when there are no alerts', async () => {
+    mockLimit.mockResolvedValue({ data: [], error: null });
+
+    const result = await processSavedSearchAlerts();
+
+    expect(result).toEqual({ processed: 0, sent: 0, skipped: 0, errors: [] });
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('sends one email per member and marks their alerts emailed', async () => {
+    mockLimit.mockResolvedValue({
+      data: [
+        {
+          id: 'alert-1',
+          user_id: 'user-1',
+          saved_search: { name: 'Weekend ski trips', status: 'active' },
+          ride: activeRide('San Francisco'),
+        },
+        {
+          id: 'alert-2',
+          user_id: 'user-1',
+          saved_search: { name: 'Weekend ski trips', status: 'active' },
+          ride: activeRide('Oakland'),
+        },
+      ],
+      error: null,
+    });
+    (getUserWithEmail as jest.Mock).mockResolvedValue({
+      id: 'user-1',
+      first_name: 'Sam',
+      email: 'sam@example.com',
+    });
+
+    const result = await processSavedSearchAlerts();
+
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+    expect(sendEmail).toHaveBeenCalledWith({
+      userId: 'user-1',
+      to: 'sam@example.com',
+      emailType: 'saved_search_match',
+      payload: {
+        recipientName: 'Sam',
+        searchName: 'Weekend ski trips',
+        rideCount: 2,
+        rideSummary:
+          '• San Francisco → South Lake Tahoe on 2026-01-10\n• Oakland → South Lake Tahoe on 2026-01-10',
+      },
+    });
+    expect(mockIn).toHaveBeenCalledWith('id', ['alert-1', 'alert-2']);
+    expect(result).toEqual({ processed: 2, sent: 1, skipped: 0, errors: [] });
+  });
+
+  it('skips paused searches and cancelled rides without emailing', async () => {
+    mockLimit.mockResolvedValue({
+      data: [
+        {
+          id: 'alert-1',
+          user_id: 'user-1',
+          saved_search: { name: 'Paused search', status: 'paused' },
+          ride: activeRide('San Francisco'),
+        },
+        {
+          id: 'alert-2',
+          user_id: 'user-1',
+          saved_search: { name: 'Active search', status: 'active' },
+          ride: { ...activeRide('Oakland'), status: 'cancelled' },
+        },
+      ],
+      error: null,
+    });
+
+    const result = await processSavedSearchAlerts();
+
+    expect(getUserWithEmail).not.toHaveBeenCalled();
+    expect(sendEmail).not.toHaveBeenCalled();
+    expect(mockIn).toHaveBeenCalledWith('id', ['alert-1', 'alert-2']);
+    expect(result.skipped).toBe(1);
+  });
+
+  it('records send failures and leaves the alerts queued', async () => {
+    mockLimit.mockResolvedValue({
+      data: [
+        {
+          id: 'alert-1',
+          user_id: 'user-1',
+          saved_search: { name: 'Weekend ski trips', status: 'active' },
+          ride: activeRide('San Francisco'),
+        },
+      ],
+      error: null,
+    });
+    (getUserWithEmail as jest.Mock).mockResolvedValue({
+      id: 'user-1',
+      first_name: 'Sam',
+      email: 'sam@example.com',
+    });
+    (sendEmail as jest.Mock).mockRejectedValue(new Error('Resend down'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await processSavedSearchAlerts();
+
+    expect(mockUpdate).not.toHaveBeenCalled();
+    expect(result.errors).toEqual([{ userId: 'user-1', error: 'Resend down' }]);
+  });
+});
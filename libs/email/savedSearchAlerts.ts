@@ -0,0 +1,121 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { sanitizeLocation } from '@/libs/sanitize/location';
+import { getUserWithEmail } from './helpers';
+import { sendEmail } from './sendEmail';
+
+export interface SavedSearchAlertResult {
+  processed: number;
+  sent: number;
+  skipped: number;
+  errors: Array<{ userId: string; error: string }>;
+}
+
+interface PendingAlert {
+  id: string;
+  user_id: string;
+  saved_search: { name: string; status: string } | null;
+  ride: {
+    start_location: string;
+    end_location: string;
+    departure_date: string;
+    status: string;
+  } | null;
+}
+
+// Rides listed in one email; the rest are summarized as "and N more"
+const MAX_RIDES_PER_EMAIL = 5;
+
+/**
+ * Email each member one message about the rides that matched their saved searches
+ * since the last run. Alerts are queued by the `queue_saved_search_alerts` trigger;
+ * each one is marked emailed whether it was sent or skipped, so it goes out once.
+ */
+export async function processSavedSearchAlerts(): Promise<SavedSearchAlertResult> {
+  const supabase = createAdminClient();
+  const errors: Array<{ userId: string; error: string }> = [];
+  let sent = 0;
+  let skipped = 0;
+
+  const { data: alerts, error: fetchError } = await supabase
+    .from('saved_search_alerts')
+    .select(
+      'id, user_id, saved_search:saved_searches(name, status), ride:rides(start_location, end_location, departure_date, status)'
+    )
+    .is('emailed_at', null)
+    .order('created_at', { ascending: true })
+    .limit(500);
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch saved search alerts: ${fetchError.message}`);
+  }
+
+  if (!alerts || alerts.length === 0) {
+    console.log('No saved search alerts to process');
+    return { processed: 0, sent: 0, skipped: 0, errors: [] };
+  }
+
+  const alertsByUser = new Map<string, PendingAlert[]>();
+  for (const alert of alerts as unknown as PendingAlert[]) {
+    const userAlerts = alertsByUser.get(alert.user_id) ?? [];
+    userAlerts.push(alert);
+    alertsByUser.set(alert.user_id, userAlerts);
+  }
+
+  for (const [userId, userAlerts] of alertsByUser) {
+    try {
+      // Paused searches and rides that were cancelled in the meantime aren't worth an email
+      const relevant = userAlerts.filter(
+        (alert) => alert.saved_search?.status === 'active' && alert.ride?.status === 'active'
+      );
+      const recipient = relevant.length > 0 ? await getUserWithEmail(supabase, userId) : null;
+
+      if (recipient) {
+        const searchNames = Array.from(new Set(relevant.map((alert) => alert.saved_search!.name)));
+        const rideLines = relevant
+          .slice(0, MAX_RIDES_PER_EMAIL)
+          .map(
+            (alert) =>
+              `• ${sanitizeLocation(alert.ride!.start_location)} → ${sanitizeLocation(alert.ride!.end_location)} on ${alert.ride!.departure_date}`
+          );
+        if (relevant.length > MAX_RIDES_PER_EMAIL) {
+          rideLines.push(`…and ${relevant.length - MAX_RIDES_PER_EMAIL} more`);
+        }
+
+        await sendEmail({
+          userId,
+          to: recipient.email,
+          emailType: 'saved_search_match',
+          payload: {
+            recipientName: recipient.first_name || '',
+            searchName: searchNames.length === 1 ? searchNames[0] : 'your saved searches',
+            rideCount: relevant.length,
+            rideSummary: rideLines.join('\n'),
+          },
+        });
+        sent++;
+      } else {
+        skipped++;
+      }
+
+      const { error: updateError } = await supabase
+        .from('saved_search_alerts')
+        .update({ emailed_at: new Date().toISOString() })
+        .in(
+          'id',
+          userAlerts.map((alert) => alert.id)
+        );
+
+      if (updateError) {
+        throw new Error(`Failed to mark alerts emailed: ${updateError.message}`);
+      }
+    } catch (error) {
+      console.error(`Error sending saved search alerts to user ${userId}:`, error);
+      errors.push({
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return { processed: alerts.length, sent, skipped, errors };
+}
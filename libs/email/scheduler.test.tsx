@@ -12,6 +12,12 @@ import {
   ScheduledEmail,
 } from './scheduler';
 import { sendEmail } from './sendEmail';
+import { markReviewRequestSent, shouldSendReviewRequest } from './reviewRequests';
+import {
+  buildMessageDigest,
+  deferMessageDigest,
+  getMessageDigestQuietUntil,
+} from './messageDigests';
 // #endregion Imports
 
 // #region Mocks
@@ -23,6 +29,25 @@ jest.mock('./sendEmail', () => ({
   sendEmail: jest.fn(),
 }));
 
+/**
+ * Mock the review request checks so review_request emails can be tested
+ * without a reviews_pending table.
+ */
+jest.mock('./reviewRequests', () => ({
+  markReviewRequestSent: jest.fn(),
+  shouldSendReviewRequest: jest.fn(),
+}));
+
+/**
+ * Mock the message digest helpers so new_message digests can be tested
+ * without a messages table.
+ */
+jest.mock('./messageDigests', () => ({
+  buildMessageDigest: jest.fn(),
+  deferMessageDigest: jest.fn(),
+  getMessageDigestQuietUntil: jest.fn(),
+}));
+
 /**
  * Create a deep, chainable mock for the Supabase client.
  */
@@ -199,6 +224,113 @@ describe('Scheduled Email Functions', () => {
       });
     });
 
+    it('should skip review requests once the review has been left', async () => {
+      const reviewEmail = {
+        ...mockEmail,
+        email_type: 'review_request',
+        payload: { bookingId: 'booking-1' },
+      };
+      mockSupabase.limit.mockResolvedValueOnce({ data: [{}], error: null });
+      mockSupabase.limit.mockResolvedValueOnce({ data: [reviewEmail], error: null });
+      mockSupabase.eq.mockResolvedValueOnce({ error: null });
+      mockSupabase.single.mockResolvedValueOnce({ data: mockUserProfile, error: null });
+      mockSupabase.single.mockResolvedValueOnce({ data: mockUserPrivateInfo, error: null });
+      (shouldSendReviewRequest as jest.Mock).mockResolvedValueOnce(false);
+
+      const result = await processScheduledEmails();
+
+      expect(result).toEqual({ processed: 0, errors: [] });
+      expect(mockedSendEmail).not.toHaveBeenCalled();
+      expect(markReviewRequestSent).not.toHaveBeenCalled();
+    });
+
+    it('should mark pending reviews notified after sending a review request', async () => {
+      const reviewEmail = {
+        ...mockEmail,
+        email_type: 'review_request',
+        payload: { bookingId: 'booking-1' },
+      };
+      mockSupabase.limit.mockResolvedValueOnce({ data: [{}], error: null });
+      mockSupabase.limit.mockResolvedValueOnce({ data: [reviewEmail], error: null });
+      mockSupabase.eq.mockResolvedValueOnce({ error: null });
+      mockSupabase.single.mockResolvedValueOnce({ data: mockUserProfile, error: null });
+      mockSupabase.single.mockResolvedValueOnce({ data: mockUserPrivateInfo, error: null });
+      (shouldSendReviewRequest as jest.Mock).mockResolvedValueOnce(true);
+
+      const result = await processScheduledEmails();
+
+      expect(result).toEqual({ processed: 1, errors: [] });
+      expect(mockedSendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ emailType: 'review_request' })
+      );
+      expect(markReviewRequestSent).toHaveBeenCalledWith(mockSupabase, mockEmail.user_id, {
+        bookingId: 'booking-1',
+      });
+    });
+
+    describe('message digests', () => {
+      const digestEmail = {
+        ...mockEmail,
+        email_type: 'new_message',
+        payload: { since: '2025-11-01T09:50:00.000Z' },
+      };
+
+      beforeEach(() => {
+        mockSupabase.limit.mockResolvedValueOnce({ data: [{}], error: null });
+        mockSupabase.limit.mockResolvedValueOnce({ data: [digestEmail], error: null });
+        mockSupabase.eq.mockResolvedValueOnce({ error: null });
+        mockSupabase.single.mockResolvedValueOnce({ data: mockUserProfile, error: null });
+        mockSupabase.single.mockResolvedValueOnce({ data: mockUserPrivateInfo, error: null });
+        (getMessageDigestQuietUntil as jest.Mock).mockResolvedValue(null);
+      });
+
+      it('should hold a digest until quiet hours end', async () => {
+        const quietUntil = new Date('2025-11-01T15:00:00.000Z');
+        (getMessageDigestQuietUntil as jest.Mock).mockResolvedValueOnce(quietUntil);
+
+        const result = await processScheduledEmails();
+
+        expect(result).toEqual({ processed: 0, errors: [] });
+        expect(deferMessageDigest).toHaveBeenCalledWith(
+          mockSupabase,
+          digestEmail.id,
+          digestEmail.user_id,
+          quietUntil
+        );
+        expect(buildMessageDigest).not.toHaveBeenCalled();
+        expect(mockedSendEmail).not.toHaveBeenCalled();
+      });
+
+      it('should skip a digest once its messages have been read', async () => {
+        (buildMessageDigest as jest.Mock).mockResolvedValueOnce(null);
+
+        const result = await processScheduledEmails();
+
+        expect(result).toEqual({ processed: 0, errors: [] });
+        expect(buildMessageDigest).toHaveBeenCalledWith(
+          mockSupabase,
+          digestEmail.user_id,
+          digestEmail.payload
+        );
+        expect(mockedSendEmail).not.toHaveBeenCalled();
+      });
+
+      it('should send the unread messages as a digest', async () => {
+        const digest = { senderName: 'Dana Lee', messageCount: 2, messageSummary: '• Dana Lee' };
+        (buildMessageDigest as jest.Mock).mockResolvedValueOnce(digest);
+
+        const result = await processScheduledEmails();
+
+        expect(result).toEqual({ processed: 1, errors: [] });
+        expect(mockedSendEmail).toHaveBeenCalledWith({
+          userId: digestEmail.user_id,
+          to: mockUserPrivateInfo.email,
+          emailType: 'new_message',
+          payload: { ...digest, recipientName: 'Test' },
+        });
+      });
+    });
+
     it('should log an error if marking as picked up fails', async () => {
       mockSupabase.limit.mockResolvedValueOnce({ data: [{}], error: null });
       mockSupabase.limit.mockResolvedValueOnce({ data: [mockEmail], error: null });
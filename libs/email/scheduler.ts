@@ -1,6 +1,12 @@
 import { createAdminClient } from '@/lib/supabase/server';
 import { sendEmail, EmailType } from './sendEmail';
 import { EmailPayload } from './templates';
+import { markReviewRequestSent, shouldSendReviewRequest } from './reviewRequests';
+import {
+  buildMessageDigest,
+  deferMessageDigest,
+  getMessageDigestQuietUntil,
+} from './messageDigests';
 
 export interface ScheduledEmail {
   id: number;
@@ -86,15 +92,54 @@ export async function processScheduledEmails(): Promise<{
         }
 
         const user = { first_name: profile.first_name, email: privateInfo.email };
+        let payload = scheduledEmail.payload as EmailPayload;
+        const isReviewRequest = scheduledEmail.email_type === 'review_request';
+
+        // Review requests stop once the review is left
+        if (
+          isReviewRequest &&
+          !(await shouldSendReviewRequest(supabase, scheduledEmail.user_id, payload))
+        ) {
+          console.log(`Skipping scheduled email ${scheduledEmail.id}: review no longer pending`);
+          continue;
+        }
+
+        // Message digests wait out quiet hours, then list whatever is still unread
+        if (scheduledEmail.email_type === 'new_message') {
+          const quietUntil = await getMessageDigestQuietUntil(supabase, scheduledEmail.user_id);
+          if (quietUntil) {
+            await deferMessageDigest(
+              supabase,
+              scheduledEmail.id,
+              scheduledEmail.user_id,
+              quietUntil
+            );
+            console.log(
+              `Deferred scheduled email ${scheduledEmail.id} until quiet hours end at ${quietUntil.toISOString()}`
+            );
+            continue;
+          }
+
+          const digest = await buildMessageDigest(supabase, scheduledEmail.user_id, payload);
+          if (!digest) {
+            console.log(`Skipping scheduled email ${scheduledEmail.id}: messages already read`);
+            continue;
+          }
+          payload = { ...digest, recipientName: user.first_name || '' };
+        }
 
         // Send the email
         await sendEmail({
           userId: scheduledEmail.user_id,
           to: user.email,
           emailType: scheduledEmail.email_type as EmailType,
-          payload: scheduledEmail.payload as EmailPayload,
+          payload,
         });
 
+        if (isReviewRequest) {
+          await markReviewRequestSent(supabase, scheduledEmail.user_id, payload);
+        }
+
         processed++;
         console.log(
           `Successfully processed scheduled email ${scheduledEmail.id} (${scheduledEmail.email_type})`
@@ -13,6 +13,8 @@ export type EmailType =
   | 'review_request'
   | 'bulk_announcement'
   | 'welcome_bulk'
+  | 'saved_search_match'
+  | 'chain_control_alert'
   | 'community_growth_day30';
 
 export interface SendEmailParams {
@@ -51,7 +51,9 @@ const TEMPLATE_REGISTRY = {
     html: 'new-message-notification.html',
     text: 'new-message-notification.txt',
     subject: (vars: TemplateVariables) =>
-      `New message from ${vars.senderName || 'someone'} on RideShareTahoe 💬`,
+      Number(vars.messageCount) > 1
+        ? `${vars.messageCount} new messages from ${vars.senderName || 'RideShareTahoe members'} 💬`
+        : `New message from ${vars.senderName || 'someone'} on RideShareTahoe 💬`,
   },
   meeting_scheduled: {
     html: 'meeting-scheduled-confirmation.html',
@@ -68,7 +70,7 @@ const TEMPLATE_REGISTRY = {
     html: 'review-request.html',
     text: 'review-request.txt',
     subject: (vars: TemplateVariables) =>
-      `How was your ride with ${vars.otherUserName || 'your driver'}?`,
+      `${vars.reminder ? 'Reminder: h' : 'H'}ow was your ride with ${vars.otherUserName || 'your driver'}?`,
   },
   bulk_announcement: {
     html: 'bulk-announcement.html',
@@ -83,6 +85,18 @@ const TEMPLATE_REGISTRY = {
       return `Welcome to RideShareTahoe${nameSuffix}!`;
     },
   },
+  saved_search_match: {
+    html: 'saved-search-match.html',
+    text: 'saved-search-match.txt',
+    subject: (vars: TemplateVariables) =>
+      `New rides match "${vars.searchName || 'your saved search'}" 🔔`,
+  },
+  chain_control_alert: {
+    html: 'chain-control-alert.html',
+    text: 'chain-control-alert.txt',
+    subject: (vars: TemplateVariables) =>
+      `Chain controls on ${vars.corridor || 'your route'} before your ride ⛓️`,
+  },
   community_growth_day30: {
     html: 'community-growth-30days.html',
     text: 'community-growth-30days.txt',
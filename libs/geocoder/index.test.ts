@@ -0,0 +1,121 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database.types';
+import { geocodeQuery, normalizeGeocodeQuery } from './index';
+import type { GeocodingProvider } from './providers';
+
+jest.mock('@/lib/supabase/server', () => ({
+  createAdminClient: jest.fn(),
+}));
+
+type CacheRow = Database['public']['Tables']['geocode_cache']['Row'];
+
+function createCache(row: Partial<CacheRow> | null) {
+  const maybeSingle = jest.fn().mockResolvedValue({ data: row, error: null });
+  const eq = jest.fn(() => ({ maybeSingle }));
+  const select = jest.fn(() => ({ eq }));
+  const upsert = jest.fn().mockResolvedValue({ error: null });
+  const cache = { from: jest.fn(() => ({ select, upsert })) };
+  return { cache: cache as unknown as SupabaseClient<Database>, eq, upsert };
+}
+
+function createProvider(result: Awaited<ReturnType<GeocodingProvider['geocode']>>) {
+  return {
+    name: 'test',
+    geocode: jest.fn().mockResolvedValue(result),
+  } satisfies GeocodingProvider;
+}
+
+describe('normalizeGeocodeQuery', () => {
+  it('trims, lowercases and collapses whitespace', () => {
+    expect(normalizeGeocodeQuery('  South   Lake Tahoe, CA ')).toBe('south lake tahoe, ca');
+  });
+});
+
+describe('geocodeQuery', () => {
+  it('answers from the cache without asking the provider', async () => {
+    const { cache, eq } = createCache({
+      lat: 39.328,
+      lng: -120.1833,
+      display_name: 'Truckee, CA',
+      provider: 'gazetteer',
+      created_at: new Date().toISOString(),
+    });
+    const provider = createProvider(null);
+
+    const result = await geocodeQuery(' Truckee ', { cache, provider });
+
+    expect(eq).toHaveBeenCalledWith('query_key', 'truckee');
+    expect(provider.geocode).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      lat: 39.328,
+      lng: -120.1833,
+      displayName: 'Truckee, CA',
+      source: 'gazetteer',
+    });
+  });
+
+  it('looks up and caches places it has not seen', async () => {
+    const { cache, upsert } = createCache(null);
+    const provider = createProvider({
+      lat: 38.94,
+      lng: -119.98,
+      displayName: 'South Lake Tahoe',
+      source: 'nominatim',
+    });
+
+    const result = await geocodeQuery('96150', { cache, provider });
+
+    expect(provider.geocode).toHaveBeenCalledWith('96150');
+    expect(result?.lat).toBe(38.94);
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query_key: '96150',
+        lat: 38.94,
+        lng: -119.98,
+        provider: 'nominatim',
+      }),
+      { onConflict: 'query_key' }
+    );
+  });
+
+  it('remembers recent misses and retries old ones', async () => {
+    const recentMiss = createCache({
+      lat: null,
+      lng: null,
+      provider: 'test',
+      created_at: new Date().toISOString(),
+    });
+    const provider = createProvider(null);
+
+    await expect(geocodeQuery('Nowhere', { cache: recentMiss.cache, provider })).resolves.toBe(
+      null
+    );
+    expect(provider.geocode).not.toHaveBeenCalled();
+
+    const oldMiss = createCache({
+      lat: null,
+      lng: null,
+      provider: 'test',
+      created_at: '2020-01-01T00:00:00.000Z',
+    });
+
+    await geocodeQuery('Nowhere', { cache: oldMiss.cache, provider });
+    expect(provider.geocode).toHaveBeenCalledTimes(1);
+    expect(oldMiss.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ query_key: 'nowhere', lat: null, provider: 'test' }),
+      { onConflict: 'query_key' }
+    );
+  });
+
+  it('does not cache provider failures', async () => {
+    const { cache, upsert } = createCache(null);
+    const provider = {
+      name: 'test',
+      geocode: jest.fn().mockRejectedValue(new Error('offline')),
+    };
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(geocodeQuery('Reno', { cache, provider })).resolves.toBeNull();
+    expect(upsert).not.toHaveBeenCalled();
+  });
+});
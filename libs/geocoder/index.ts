@@ -0,0 +1,92 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/database.types';
+import { getGeocodingProvider, type GeocodeResult, type GeocodingProvider } from './providers';
+
+export {
+  chainProviders,
+  gazetteerProvider,
+  getGeocodingProvider,
+  nominatimProvider,
+  stubProvider,
+} from './providers';
+export type { GeocodeResult, GeocodingProvider, GeocodingProviderName } from './providers';
+
+export const MAX_GEOCODE_QUERY_LENGTH = 200;
+
+// Places that couldn't be found are looked up again after a week
+const MISS_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface GeocodeOptions {
+  provider?: GeocodingProvider;
+  // Client for the geocode_cache table; defaults to the service role client
+  cache?: SupabaseClient<Database>;
+}
+
+/**
+ * Cache key for a query: trimmed, lowercased and with whitespace collapsed.
+ */
+export function normalizeGeocodeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Geocodes a place on the server, answering from the geocode_cache table when
+ * the same query was looked up before. Provider errors are logged and
+ * resolve to null without being cached.
+ */
+export async function geocodeQuery(
+  query: string,
+  { provider = getGeocodingProvider(), cache = createAdminClient() }: GeocodeOptions = {}
+): Promise<GeocodeResult | null> {
+  const queryKey = normalizeGeocodeQuery(query ?? '');
+  if (!queryKey || queryKey.length > MAX_GEOCODE_QUERY_LENGTH) {
+    return null;
+  }
+
+  const { data: cached, error: cacheError } = await cache
+    .from('geocode_cache')
+    .select('lat, lng, display_name, provider, created_at')
+    .eq('query_key', queryKey)
+    .maybeSingle();
+
+  if (cacheError) {
+    console.error('Error reading geocode cache:', cacheError);
+  } else if (cached) {
+    if (cached.lat !== null && cached.lng !== null) {
+      return {
+        lat: cached.lat,
+        lng: cached.lng,
+        displayName: cached.display_name,
+        source: cached.provider,
+      };
+    }
+    if (Date.now() - new Date(cached.created_at).getTime() < MISS_TTL_MS) {
+      return null;
+    }
+  }
+
+  let result: GeocodeResult | null;
+  try {
+    result = await provider.geocode(query.trim());
+  } catch (error) {
+    console.error(`Error geocoding location with ${provider.name}:`, error);
+    return null;
+  }
+
+  const { error: saveError } = await cache.from('geocode_cache').upsert(
+    {
+      query_key: queryKey,
+      query: query.trim(),
+      lat: result?.lat ?? null,
+      lng: result?.lng ?? null,
+      display_name: result?.displayName ?? null,
+      provider: result?.source ?? provider.name,
+      created_at: new Date().toISOString(),
+    },
+    { onConflict: 'query_key' }
+  );
+  if (saveError) console.error('Error saving geocode cache entry:', saveError);
+
+  return result;
+}
@@ -0,0 +1,104 @@
+import {
+  chainProviders,
+  gazetteerProvider,
+  getGeocodingProvider,
+  nominatimProvider,
+  stubProvider,
+  type GeocodingProvider,
+} from './providers';
+
+describe('geocoding providers', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('gazetteer resolves known places without a network call', async () => {
+    await expect(gazetteerProvider.geocode('Sacramento')).resolves.toEqual({
+      lat: 38.5816,
+      lng: -121.4944,
+      displayName: 'Sacramento, CA',
+      source: 'gazetteer',
+    });
+  });
+
+  it('stub returns the same point for the same text', async () => {
+    const first = await stubProvider.geocode('42 Snowy Lane');
+    const second = await stubProvider.geocode('  42 snowy lane ');
+
+    expect(first).not.toBeNull();
+    expect(second).toEqual({ ...first, displayName: '42 snowy lane' });
+    expect(Math.abs(first!.lat - 39.0968)).toBeLessThanOrEqual(0.4);
+  });
+
+  it('nominatim adds the country to bare zip codes and parses the first result', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => [{ lat: '38.94', lon: '-119.98', display_name: 'South Lake Tahoe' }],
+    });
+
+    const result = await nominatimProvider.geocode('96150');
+
+    expect(result).toEqual({
+      lat: 38.94,
+      lng: -119.98,
+      displayName: 'South Lake Tahoe',
+      source: 'nominatim',
+    });
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toContain(`q=${encodeURIComponent('96150, USA')}`);
+    expect(init.headers['User-Agent']).toContain('RideShareTahoe');
+  });
+
+  it('nominatim throws when the request fails', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 503 });
+
+    await expect(nominatimProvider.geocode('Reno')).rejects.toThrow('503');
+  });
+
+  it('nominatim spaces requests a second apart', async () => {
+    jest.useFakeTimers();
+    // Well past any slot claimed by the tests above
+    jest.setSystemTime(Date.now() + 60_000);
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, json: async () => [] });
+
+    try {
+      const lookups = [nominatimProvider.geocode('Reno'), nominatimProvider.geocode('Truckee')];
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      await expect(Promise.all(lookups)).resolves.toEqual([null, null]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('chained providers fall through to the next one on a miss', async () => {
+    const fallback: GeocodingProvider = {
+      name: 'fallback',
+      geocode: jest.fn().mockResolvedValue({
+        lat: 1,
+        lng: 2,
+        displayName: null,
+        source: 'fallback',
+      }),
+    };
+    const provider = chainProviders(gazetteerProvider, fallback);
+
+    expect(provider.name).toBe('gazetteer+fallback');
+    await expect(provider.geocode('Truckee')).resolves.toMatchObject({ source: 'gazetteer' });
+    expect(fallback.geocode).not.toHaveBeenCalled();
+    await expect(provider.geocode('Boise')).resolves.toMatchObject({ source: 'fallback' });
+  });
+
+  it('picks the provider named by GEOCODING_PROVIDER', () => {
+    expect(getGeocodingProvider('stub')).toBe(stubProvider);
+    expect(getGeocodingProvider('nominatim')).toBe(nominatimProvider);
+    expect(getGeocodingProvider('gazetteer')).toBe(gazetteerProvider);
+    expect(getGeocodingProvider(undefined).name).toBe('gazetteer+nominatim');
+  });
+});
@@ -0,0 +1,162 @@
+import config from '@/config';
+import { findCatalogPlace } from '@/libs/placeCatalog';
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  displayName: string | null;
+  // Name of the provider that found the place
+  source: string;
+}
+
+/**
+ * Something that turns a free-text place into coordinates. Providers resolve
+ * to null when the place can't be found and throw when the lookup itself
+ * failed, so failures aren't cached as misses.
+ */
+export interface GeocodingProvider {
+  name: string;
+  // eslint-disable-next-line no-unused-vars
+  geocode: (query: string) => Promise<GeocodeResult | null>;
+}
+
+export type GeocodingProviderName = 'auto' | 'gazetteer' | 'nominatim' | 'stub';
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  display_name: string;
+}
+
+const NOMINATIM_SEARCH_URL = 'https://nominatim.openstreetmap.org/search';
+
+// Nominatim's usage policy asks for an identifying User-Agent on every request
+const NOMINATIM_USER_AGENT = `${config.appName} geocoder (+https://${config.domainName})`;
+
+// ...and no more than one request a second, including batches like the ride geocoding queue
+const NOMINATIM_MIN_INTERVAL_MS = 1000;
+let nextNominatimSlot = 0;
+
+/**
+ * Waits for this request's turn. Slots are claimed synchronously, so
+ * concurrent lookups queue up one interval apart instead of firing together.
+ */
+async function waitForNominatimSlot() {
+  const now = Date.now();
+  const slot = Math.max(now, nextNominatimSlot);
+  nextNominatimSlot = slot + NOMINATIM_MIN_INTERVAL_MS;
+  if (slot > now) {
+    await new Promise((resolve) => setTimeout(resolve, slot - now));
+  }
+}
+
+/**
+ * Answers from the curated place catalog (`libs/placeCatalog`) without a network call.
+ */
+export const gazetteerProvider: GeocodingProvider = {
+  name: 'gazetteer',
+  geocode: async (query) => {
+    const place = findCatalogPlace(query);
+    return place
+      ? { lat: place.lat, lng: place.lng, displayName: place.name, source: 'gazetteer' }
+      : null;
+  },
+};
+
+export const nominatimProvider: GeocodingProvider = {
+  name: 'nominatim',
+  geocode: async (query) => {
+    let searchQuery = query.trim();
+
+    // Zip codes and bare city names are much more accurate with the country added
+    const isZipCode = /^\d{5}$/.test(searchQuery);
+    if (isZipCode || !searchQuery.includes(',')) {
+      searchQuery = `${searchQuery}, USA`;
+    }
+
+    await waitForNominatimSlot();
+    const response = await fetch(
+      `${NOMINATIM_SEARCH_URL}?format=json&q=${encodeURIComponent(
+        searchQuery
+      )}&limit=1&addressdetails=1&countrycodes=us`,
+      { headers: { 'User-Agent': NOMINATIM_USER_AGENT } }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Nominatim request failed with status ${response.status}`);
+    }
+
+    const data: NominatimResult[] = await response.json();
+    const [result] = data ?? [];
+    if (!result) return null;
+
+    return {
+      lat: Number.parseFloat(result.lat),
+      lng: Number.parseFloat(result.lon),
+      displayName: result.display_name ?? null,
+      source: 'nominatim',
+    };
+  },
+};
+
+const STUB_CENTER = { lat: 39.0968, lng: -120.0324 };
+
+/**
+ * Offline provider for tests and local development. Every query resolves to
+ * a made-up but stable point within about 30 miles of Lake Tahoe, so the same
+ * text always lands in the same place.
+ */
+export const stubProvider: GeocodingProvider = {
+  name: 'stub',
+  geocode: async (query) => {
+    const text = query.trim().toLowerCase();
+    if (!text) return null;
+
+    let hash = 0;
+    for (const char of text) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+
+    return {
+      lat: STUB_CENTER.lat + ((hash % 1000) / 1000 - 0.5) * 0.8,
+      lng: STUB_CENTER.lng + ((Math.floor(hash / 1000) % 1000) / 1000 - 0.5) * 0.8,
+      displayName: query.trim(),
+      source: 'stub',
+    };
+  },
+};
+
+/**
+ * Tries each provider in turn and returns the first match.
+ */
+export function chainProviders(...providers: GeocodingProvider[]): GeocodingProvider {
+  return {
+    name: providers.map((provider) => provider.name).join('+'),
+    geocode: async (query) => {
+      for (const provider of providers) {
+        const result = await provider.geocode(query);
+        if (result) return result;
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * Provider selected by GEOCODING_PROVIDER. The default checks the gazetteer
+ * first and only asks Nominatim about places it doesn't know.
+ */
+export function getGeocodingProvider(
+  name: string | undefined = process.env.GEOCODING_PROVIDER
+): GeocodingProvider {
+  switch (name as GeocodingProviderName | undefined) {
+    case 'gazetteer':
+      return gazetteerProvider;
+    case 'nominatim':
+      return nominatimProvider;
+    case 'stub':
+      return stubProvider;
+    default:
+      return chainProviders(gazetteerProvider, nominatimProvider);
+  }
+}
@@ -0,0 +1,136 @@
+import { getGeocodeFromDate, MAX_RIDE_GEOCODE_ATTEMPTS, processRideGeocodeQueue } from './rides';
+import { geocodeQuery } from './index';
+
+jest.mock('./index', () => ({
+  geocodeQuery: jest.fn(),
+  normalizeGeocodeQuery: (query: string) => query.trim().toLowerCase(),
+}));
+
+type QueryResult = { data?: unknown; error: unknown };
+
+/**
+ * Chainable stand-in for a Supabase query that resolves to the given result.
+ */
+function createQuery(result: QueryResult) {
+  const query: Record<string, jest.Mock | unknown> = {};
+  for (const method of ['select', 'lt', 'gte', 'eq', 'order', 'limit', 'update']) {
+    query[method] = jest.fn(() => query);
+  }
+  // eslint-disable-next-line no-unused-vars
+  query.then = (resolve: (_value: QueryResult) => unknown) => Promise.resolve(result).then(resolve);
+  return query as Record<string, jest.Mock>;
+}
+
+const mockSupabaseClient = { from: jest.fn() };
+
+jest.mock('@/lib/supabase/server', () => ({
+  createAdminClient: jest.fn(() => mockSupabaseClient),
+}));
+
+const NOW = new Date('2026-01-16T02:00:00Z');
+
+const queuedRide = (id: string, startLocation: string, endLocation: string, attempts = 0) => ({
+  ride_id: id,
+  attempts,
+  ride: {
+    id,
+    start_location: startLocation,
+    end_location: endLocation,
+    start_lat: null,
+    start_lng: null,
+    end_lat: null,
+    end_lng: null,
+  },
+});
+
+describe('ride geocoding queue', () => {
+  let jobsQuery: Record<string, jest.Mock>;
+  let jobUpdateQuery: Record<string, jest.Mock>;
+  let rideUpdateQuery: Record<string, jest.Mock>;
+
+  function setUp(jobs: unknown[]) {
+    jobsQuery = createQuery({ data: jobs, error: null });
+    jobUpdateQuery = createQuery({ error: null });
+    rideUpdateQuery = createQuery({ error: null });
+    let jobCalls = 0;
+    mockSupabaseClient.from.mockImplementation((table: string) => {
+      if (table === 'rides') return rideUpdateQuery;
+      jobCalls += 1;
+      return jobCalls === 1 ? jobsQuery : jobUpdateQuery;
+    });
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (geocodeQuery as jest.Mock).mockImplementation(async (location: string) => {
+      const places: Record<string, { lat: number; lng: number }> = {
+        truckee: { lat: 39.328, lng: -120.1833 },
+        reno: { lat: 39.5296, lng: -119.8138 },
+      };
+      const place = places[location.trim().toLowerCase()];
+      return place ? { ...place, displayName: location, source: 'stub' } : null;
+    });
+  });
+
+  it('keeps the previous UTC day so evening rides in Pacific time are included', () => {
+    expect(getGeocodeFromDate(NOW)).toBe('2026-01-15');
+  });
+
+  it('geocodes queued upcoming rides, least recently tried first', async () => {
+    setUp([queuedRide('ride-1', 'Truckee', 'Reno'), queuedRide('ride-2', 'Reno', 'Truckee')]);
+
+    const result = await processRideGeocodeQueue({ limit: 10, now: NOW });
+
+    expect(jobsQuery.lt).toHaveBeenCalledWith('attempts', MAX_RIDE_GEOCODE_ATTEMPTS);
+    expect(jobsQuery.gte).toHaveBeenCalledWith('ride.departure_date', '2026-01-15');
+    expect(jobsQuery.eq).not.toHaveBeenCalled();
+    expect(jobsQuery.order).toHaveBeenCalledWith('last_attempted_at', {
+      ascending: true,
+      nullsFirst: true,
+    });
+    expect(jobsQuery.limit).toHaveBeenCalledWith(10);
+    // Each place is looked up once
+    expect(geocodeQuery).toHaveBeenCalledTimes(2);
+    expect(rideUpdateQuery.update).toHaveBeenCalledWith({
+      start_lat: 39.328,
+      start_lng: -120.1833,
+      end_lat: 39.5296,
+      end_lng: -119.8138,
+    });
+    // Resolved jobs are cleared by the database trigger, not here
+    expect(jobUpdateQuery.update).not.toHaveBeenCalled();
+    expect(result).toEqual({ geocodedIds: ['ride-1', 'ride-2'], unresolvedIds: [] });
+  });
+
+  it('records an attempt for rides whose places could not be found', async () => {
+    setUp([queuedRide('ride-1', 'Truckee', 'Nowhere in particular', 2)]);
+
+    const result = await processRideGeocodeQueue({ now: NOW });
+
+    expect(rideUpdateQuery.update).toHaveBeenCalledWith({
+      start_lat: 39.328,
+      start_lng: -120.1833,
+    });
+    expect(jobUpdateQuery.update).toHaveBeenCalledWith({
+      attempts: 3,
+      last_attempted_at: NOW.toISOString(),
+    });
+    expect(jobUpdateQuery.eq).toHaveBeenCalledWith('ride_id', 'ride-1');
+    expect(result).toEqual({ geocodedIds: [], unresolvedIds: ['ride-1'] });
+  });
+
+  it("limits the run to one poster's rides when asked", async () => {
+    setUp([]);
+
+    await processRideGeocodeQueue({ posterId: 'driver-1', now: NOW });
+
+    expect(jobsQuery.eq).toHaveBeenCalledWith('ride.poster_id', 'driver-1');
+  });
+
+  it('throws when the queue cannot be loaded', async () => {
+    jobsQuery = createQuery({ data: null, error: { message: 'down' } });
+    mockSupabaseClient.from.mockReturnValue(jobsQuery);
+
+    await expect(processRideGeocodeQueue()).rejects.toThrow('Failed to load queued rides: down');
+  });
+});
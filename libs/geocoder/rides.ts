@@ -0,0 +1,163 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/database.types';
+import { geocodeQuery, normalizeGeocodeQuery } from './index';
+import type { GeocodeResult } from './providers';
+
+type RideRow = Database['public']['Tables']['rides']['Row'];
+type RideUpdate = Database['public']['Tables']['rides']['Update'];
+
+export type RideToGeocode = Pick<
+  RideRow,
+  'id' | 'start_location' | 'end_location' | 'start_lat' | 'start_lng' | 'end_lat' | 'end_lng'
+>;
+
+type QueuedRide = {
+  ride_id: string;
+  attempts: number;
+  ride: RideToGeocode;
+};
+
+export interface RideGeocodingResult {
+  geocodedIds: string[];
+  unresolvedIds: string[];
+}
+
+interface RideGeocodeQueueOptions {
+  limit?: number;
+  // Only work on this poster's rides
+  posterId?: string;
+  now?: Date;
+}
+
+/**
+ * Queued rides looked at per run. Places already in the geocode cache cost
+ * nothing, and Nominatim lookups are throttled to one a second.
+ */
+export const RIDE_GEOCODE_BATCH_SIZE = 50;
+
+/**
+ * Places that still can't be found after this many runs are left alone.
+ */
+export const MAX_RIDE_GEOCODE_ATTEMPTS = 5;
+
+/**
+ * First departure date still worth geocoding. Departure dates are Tahoe-local,
+ * so a day of slack keeps today's evening rides in even after the UTC date
+ * has rolled over.
+ */
+export function getGeocodeFromDate(now = new Date()): string {
+  const yesterday = new Date(now);
+  yesterday.setUTCDate(yesterday.getUTCDate() - 1);
+  return yesterday.toISOString().split('T')[0];
+}
+
+/**
+ * Fills in whichever start/end coordinates the given rides are missing.
+ * Series occurrences and round trips repeat the same places, so each place is
+ * looked up once per call.
+ */
+export async function geocodeRides(
+  supabase: SupabaseClient<Database>,
+  rides: RideToGeocode[]
+): Promise<RideGeocodingResult> {
+  const lookups = new Map<string, Promise<GeocodeResult | null>>();
+  const locate = (location: string) => {
+    const key = normalizeGeocodeQuery(location);
+    if (!lookups.has(key)) lookups.set(key, geocodeQuery(location));
+    return lookups.get(key)!;
+  };
+
+  const result: RideGeocodingResult = { geocodedIds: [], unresolvedIds: [] };
+
+  for (const ride of rides) {
+    const updates: RideUpdate = {};
+
+    if (ride.start_lat === null || ride.start_lng === null) {
+      const start = await locate(ride.start_location);
+      if (start) {
+        updates.start_lat = start.lat;
+        updates.start_lng = start.lng;
+      }
+    }
+    if (ride.end_lat === null || ride.end_lng === null) {
+      const end = await locate(ride.end_location);
+      if (end) {
+        updates.end_lat = end.lat;
+        updates.end_lng = end.lng;
+      }
+    }
+
+    const resolvedAll =
+      (updates.start_lat !== undefined || (ride.start_lat !== null && ride.start_lng !== null)) &&
+      (updates.end_lat !== undefined || (ride.end_lat !== null && ride.end_lng !== null));
+
+    if (Object.keys(updates).length > 0) {
+      const { error: updateError } = await supabase.from('rides').update(updates).eq('id', ride.id);
+      if (updateError) {
+        console.error('Error saving geocoded ride locations:', updateError);
+        result.unresolvedIds.push(ride.id);
+        continue;
+      }
+    }
+
+    (resolvedAll ? result.geocodedIds : result.unresolvedIds).push(ride.id);
+  }
+
+  return result;
+}
+
+/**
+ * Works through the ride_geocode_jobs queue, which the database fills for
+ * every ride saved without coordinates. Jobs never tried come first, then the
+ * ones tried longest ago, so a place that can't be found doesn't hold up the
+ * rest. A fully geocoded ride's job is removed by the on_ride_saved_queue_geocoding
+ * trigger; the others are marked as attempted.
+ */
+export async function processRideGeocodeQueue({
+  limit = RIDE_GEOCODE_BATCH_SIZE,
+  posterId,
+  now = new Date(),
+}: RideGeocodeQueueOptions = {}): Promise<RideGeocodingResult> {
+  const supabase = createAdminClient();
+
+  let query = supabase
+    .from('ride_geocode_jobs')
+    .select(
+      `ride_id, attempts,
+      ride:rides!inner(id, start_location, end_location, start_lat, start_lng, end_lat, end_lng)`
+    )
+    .lt('attempts', MAX_RIDE_GEOCODE_ATTEMPTS)
+    .gte('ride.departure_date', getGeocodeFromDate(now));
+
+  if (posterId) {
+    query = query.eq('ride.poster_id', posterId);
+  }
+
+  const { data: jobs, error } = await query
+    .order('last_attempted_at', { ascending: true, nullsFirst: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load queued rides: ${error.message}`);
+  }
+
+  const queued = (jobs ?? []) as unknown as QueuedRide[];
+  const result = await geocodeRides(
+    supabase,
+    queued.map((job) => job.ride)
+  );
+
+  const attemptedAt = now.toISOString();
+  for (const job of queued) {
+    if (!result.unresolvedIds.includes(job.ride_id)) continue;
+
+    const { error: jobError } = await supabase
+      .from('ride_geocode_jobs')
+      .update({ attempts: job.attempts + 1, last_attempted_at: attemptedAt })
+      .eq('ride_id', job.ride_id);
+    if (jobError) console.error('Error recording ride geocoding attempt:', jobError);
+  }
+
+  return result;
+}
@@ -1,5 +1,6 @@
 /**
- * Geocode a zip code or city name to get coordinates using Nominatim API
+ * Browser helpers for geocoding through `/api/geocode`. Lookups run on the
+ * server (see `libs/geocoder`), which caches results and rate limits each user.
  */
 
 interface Coordinates {
@@ -7,16 +8,14 @@ interface Coordinates {
   lng: number;
 }
 
-interface NominatimResult {
-  lat: string;
-  lon: string;
-  display_name: string;
+interface GeocodeResponse {
+  result: (Coordinates & { display_name: string | null; source: string }) | null;
 }
 
 /**
- * Geocode a zip code or city name to get coordinates using Nominatim API
- * @param query - Zip code or city name (e.g., "78701" or "Austin, TX")
- * @returns Promise resolving to coordinates or null on error
+ * Geocode a zip code, city name or address to get coordinates
+ * @param query - Zip code or city name (e.g., "96150" or "Truckee, CA")
+ * @returns Promise resolving to coordinates or null when not found or on error
  */
 export async function geocodeLocation(query: string): Promise<Coordinates | null> {
   if (!query?.trim()) {
@@ -24,42 +23,41 @@ export async function geocodeLocation(query: string): Promise<Coordinates | null
   }
 
   try {
-    // Improved geocoding: better format for zip codes and cities
-    let searchQuery = query.trim();
-
-    // Check if it's a zip code (5 digits)
-    const isZipCode = /^\d{5}$/.test(searchQuery);
-
-    // For zip codes or city names without a state, add country code for better accuracy
-    if (isZipCode || !searchQuery.includes(',')) {
-      searchQuery = `${searchQuery}, USA`;
-    }
-
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(
-        searchQuery
-      )}&limit=1&addressdetails=1&countrycodes=us`
-    );
+    const response = await fetch(`/api/geocode?q=${encodeURIComponent(query.trim())}`, {
+      credentials: 'include',
+    });
 
     if (!response.ok) {
-      throw new Error('Geocoding request failed');
+      throw new Error(`Geocoding request failed with status ${response.status}`);
     }
 
-    const data: NominatimResult[] = await response.json();
+    const { result }: GeocodeResponse = await response.json();
+    return result ? { lat: result.lat, lng: result.lng } : null;
+  } catch (error) {
+    console.error('Error geocoding location:', error);
+    return null;
+  }
+}
 
-    if (data && data.length > 0) {
-      const result = data[0];
-      const coords: Coordinates = {
-        lat: Number.parseFloat(result.lat),
-        lng: Number.parseFloat(result.lon),
-      };
+/**
+ * Asks the server to geocode the user's newly saved rides right away, so they
+ * show up on the map without waiting for the geocode-rides cron. Saved rides
+ * are queued for geocoding by the database either way, so callers shouldn't
+ * wait for this; the request is kept alive through navigation and failures
+ * are only logged.
+ */
+export async function geocodeSavedRides(): Promise<void> {
+  try {
+    const response = await fetch('/api/geocode/rides', {
+      method: 'POST',
+      credentials: 'include',
+      keepalive: true,
+    });
 
-      return coords;
+    if (!response.ok) {
+      throw new Error(`Ride geocoding request failed with status ${response.status}`);
     }
-
-    return null;
   } catch (error) {
-    console.error('Error geocoding location:', error);
-    return null;
+    console.error('Error geocoding saved rides:', error);
   }
 }
@@ -0,0 +1,127 @@
+import {
+  approximateProfileLocation,
+  buildTileUrl,
+  clusterPoints,
+  fitView,
+  latLngToWorld,
+  panView,
+  TILE_SIZE,
+  viewBounds,
+  visibleTiles,
+  worldToLatLng,
+} from '@/libs/mapTiles';
+
+const SAN_FRANCISCO = { lat: 37.7749, lng: -122.4194 };
+const SOUTH_LAKE_TAHOE = { lat: 38.9399, lng: -119.9772 };
+
+describe('libs/mapTiles', () => {
+  it('round-trips coordinates through world pixels', () => {
+    const world = latLngToWorld(SAN_FRANCISCO, 10);
+    const back = worldToLatLng(world, 10);
+
+    expect(back.lat).toBeCloseTo(SAN_FRANCISCO.lat, 6);
+    expect(back.lng).toBeCloseTo(SAN_FRANCISCO.lng, 6);
+  });
+
+  it('places the origin of the map at the top-left of tile 0/0/0', () => {
+    expect(latLngToWorld({ lat: 0, lng: 0 }, 0)).toEqual({ x: TILE_SIZE / 2, y: TILE_SIZE / 2 });
+  });
+
+  describe('fitView', () => {
+    it('returns null without points', () => {
+      expect(fitView([], 600, 300)).toBeNull();
+    });
+
+    it('uses the max zoom for a single point', () => {
+      expect(fitView([SAN_FRANCISCO], 600, 300, { maxZoom: 11 })).toEqual({
+        center: { lat: expect.closeTo(SAN_FRANCISCO.lat, 6), lng: SAN_FRANCISCO.lng },
+        zoom: 11,
+      });
+    });
+
+    it('zooms out until every point fits inside the padding', () => {
+      const view = fitView([SAN_FRANCISCO, SOUTH_LAKE_TAHOE], 600, 300, { padding: 40 });
+
+      expect(view).not.toBeNull();
+      const start = latLngToWorld(SAN_FRANCISCO, view!.zoom);
+      const end = latLngToWorld(SOUTH_LAKE_TAHOE, view!.zoom);
+      expect(Math.abs(end.x - start.x)).toBeLessThanOrEqual(520);
+      expect(Math.abs(end.y - start.y)).toBeLessThanOrEqual(220);
+      expect(view!.zoom).toBe(7);
+    });
+  });
+
+  it('fills tile URL templates', () => {
+    expect(buildTileUrl('http://localhost:8080/{z}/{x}/{y}.png', 3, 5, 4)).toBe(
+      'http://localhost:8080/4/3/5.png'
+    );
+  });
+
+  it('lists the tiles covering the viewport relative to its corner', () => {
+    const tiles = visibleTiles({ center: { lat: 0, lng: 0 }, zoom: 1 }, 512, 512, '{z}/{x}/{y}');
+
+    expect(tiles.map((tile) => tile.url)).toEqual(['1/0/0', '1/1/0', '1/0/1', '1/1/1']);
+    expect(tiles[0]).toMatchObject({ left: 0, top: 0 });
+    expect(tiles[3]).toMatchObject({ left: 256, top: 256 });
+  });
+
+  it('pans opposite to the drag direction', () => {
+    const view = { center: SAN_FRANCISCO, zoom: 10 };
+    const panned = panView(view, 100, 0);
+
+    expect(panned.center.lng).toBeLessThan(SAN_FRANCISCO.lng);
+    expect(panned.zoom).toBe(10);
+  });
+
+  it('reports the coordinates at the viewport edges', () => {
+    const bounds = viewBounds({ center: SAN_FRANCISCO, zoom: 10 }, 600, 300);
+
+    expect(bounds.north).toBeGreaterThan(SAN_FRANCISCO.lat);
+    expect(bounds.south).toBeLessThan(SAN_FRANCISCO.lat);
+    expect(bounds.west).toBeLessThan(SAN_FRANCISCO.lng);
+    expect(bounds.east).toBeGreaterThan(SAN_FRANCISCO.lng);
+    expect((bounds.north + bounds.south) / 2).toBeCloseTo(SAN_FRANCISCO.lat, 1);
+  });
+
+  describe('clusterPoints', () => {
+    const MISSION = { lat: 37.7599, lng: -122.4148 };
+    const points = [SAN_FRANCISCO, MISSION, SOUTH_LAKE_TAHOE];
+
+    it('merges nearby points when zoomed out', () => {
+      const clusters = clusterPoints(points, 7);
+
+      expect(clusters).toHaveLength(2);
+      const bayArea = clusters.find((cluster) => cluster.items.length === 2);
+      expect(bayArea?.items).toEqual([SAN_FRANCISCO, MISSION]);
+      expect(bayArea?.lat).toBeCloseTo((SAN_FRANCISCO.lat + MISSION.lat) / 2, 6);
+    });
+
+    it('separates them again when zoomed in', () => {
+      expect(clusterPoints(points, 15)).toHaveLength(3);
+    });
+  });
+
+  describe('approximateProfileLocation', () => {
+    it('applies the privacy offset', () => {
+      expect(
+        approximateProfileLocation({
+          display_lat: 38.9,
+          display_lng: -120,
+          display_lat_offset: 0.005,
+          display_lng_offset: -0.004,
+        })
+      ).toEqual({ lat: expect.closeTo(38.905, 6), lng: expect.closeTo(-120.004, 6) });
+    });
+
+    it('never returns the raw location when the offset is missing', () => {
+      expect(
+        approximateProfileLocation({
+          display_lat: 38.9,
+          display_lng: -120,
+          display_lat_offset: null,
+          display_lng_offset: null,
+        })
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Web Mercator helpers for the tile map in `components/map/Map.tsx`.
+ */
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface MapView {
+  center: LatLng;
+  zoom: number;
+}
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface MarkerCluster<T extends LatLng> {
+  key: string;
+  // Average position of the cluster's points
+  lat: number;
+  lng: number;
+  items: T[];
+}
+
+export interface VisibleTile {
+  key: string;
+  url: string;
+  // Position of the tile's top-left corner inside the map viewport
+  left: number;
+  top: number;
+}
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 3;
+export const MAX_ZOOM = 17;
+
+/**
+ * Tile source used when a map isn't given one. Any `{z}/{x}/{y}` template
+ * works, so a local tile server can be swapped in for development or tests.
+ */
+export const DEFAULT_TILE_URL =
+  process.env.NEXT_PUBLIC_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+export const DEFAULT_TILE_ATTRIBUTION =
+  process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION || '© OpenStreetMap contributors';
+
+// Mercator is undefined at the poles; tiles stop here
+const MAX_LATITUDE = 85.05112878;
+const EARTH_CIRCUMFERENCE_METERS = 40_075_016.686;
+const METERS_PER_MILE = 1609.344;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const worldSize = (zoom: number) => TILE_SIZE * 2 ** zoom;
+
+/**
+ * Pixel position of a coordinate on the whole world map at the given zoom.
+ */
+export function latLngToWorld({ lat, lng }: LatLng, zoom: number): PixelPoint {
+  const size = worldSize(zoom);
+  const sinLat = Math.sin((clamp(lat, -MAX_LATITUDE, MAX_LATITUDE) * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * size,
+  };
+}
+
+/**
+ * Coordinate at a pixel position on the whole world map at the given zoom.
+ */
+export function worldToLatLng({ x, y }: PixelPoint, zoom: number): LatLng {
+  const size = worldSize(zoom);
+  const mercatorY = Math.PI * (1 - (2 * y) / size);
+  return {
+    lat: (Math.atan(Math.sinh(mercatorY)) * 180) / Math.PI,
+    lng: (x / size) * 360 - 180,
+  };
+}
+
+/**
+ * Ground distance covered by one pixel at a latitude and zoom.
+ */
+export function milesPerPixel(lat: number, zoom: number): number {
+  const metersPerPixel =
+    (EARTH_CIRCUMFERENCE_METERS * Math.cos((lat * Math.PI) / 180)) / worldSize(zoom);
+  return metersPerPixel / METERS_PER_MILE;
+}
+
+/**
+ * Center and zoom that show every point with some padding around the edges.
+ * A single point is shown at `maxZoom`.
+ */
+export function fitView(
+  points: LatLng[],
+  width: number,
+  height: number,
+  { maxZoom = 12, padding = 40 }: { maxZoom?: number; padding?: number } = {}
+): MapView | null {
+  if (points.length === 0) return null;
+
+  const lats = points.map((point) => point.lat);
+  const lngs = points.map((point) => point.lng);
+  const north = Math.max(...lats);
+  const south = Math.min(...lats);
+  const east = Math.max(...lngs);
+  const west = Math.min(...lngs);
+
+  const innerWidth = Math.max(1, width - padding * 2);
+  const innerHeight = Math.max(1, height - padding * 2);
+
+  let zoom = Math.min(maxZoom, MAX_ZOOM);
+  for (; zoom > MIN_ZOOM; zoom--) {
+    const topLeft = latLngToWorld({ lat: north, lng: west }, zoom);
+    const bottomRight = latLngToWorld({ lat: south, lng: east }, zoom);
+    if (bottomRight.x - topLeft.x <= innerWidth && bottomRight.y - topLeft.y <= innerHeight) {
+      break;
+    }
+  }
+
+  const topLeft = latLngToWorld({ lat: north, lng: west }, zoom);
+  const bottomRight = latLngToWorld({ lat: south, lng: east }, zoom);
+  return {
+    center: worldToLatLng(
+      { x: (topLeft.x + bottomRight.x) / 2, y: (topLeft.y + bottomRight.y) / 2 },
+      zoom
+    ),
+    zoom,
+  };
+}
+
+/**
+ * Fills a `{z}/{x}/{y}` tile URL template.
+ */
+export function buildTileUrl(template: string, x: number, y: number, zoom: number): string {
+  return template.replace('{z}', String(zoom)).replace('{x}', String(x)).replace('{y}', String(y));
+}
+
+/**
+ * World pixel at the viewport's top-left corner.
+ */
+export function viewportOrigin(view: MapView, width: number, height: number): PixelPoint {
+  const center = latLngToWorld(view.center, view.zoom);
+  return { x: center.x - width / 2, y: center.y - height / 2 };
+}
+
+/**
+ * Tiles covering the viewport, positioned relative to its top-left corner.
+ */
+export function visibleTiles(
+  view: MapView,
+  width: number,
+  height: number,
+  template: string
+): VisibleTile[] {
+  const origin = viewportOrigin(view, width, height);
+  const tileCount = 2 ** view.zoom;
+  const tiles: VisibleTile[] = [];
+
+  const firstX = Math.floor(origin.x / TILE_SIZE);
+  const lastX = Math.ceil((origin.x + width) / TILE_SIZE) - 1;
+  const firstY = Math.max(0, Math.floor(origin.y / TILE_SIZE));
+  const lastY = Math.min(tileCount - 1, Math.ceil((origin.y + height) / TILE_SIZE) - 1);
+
+  for (let y = firstY; y <= lastY; y++) {
+    for (let x = firstX; x <= lastX; x++) {
+      // Wrap horizontally so panning past the date line keeps showing tiles
+      const wrappedX = ((x % tileCount) + tileCount) % tileCount;
+      tiles.push({
+        key: `${view.zoom}/${x}/${y}`,
+        url: buildTileUrl(template, wrappedX, y, view.zoom),
+        left: Math.round(x * TILE_SIZE - origin.x),
+        top: Math.round(y * TILE_SIZE - origin.y),
+      });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Moves the view by a number of screen pixels, as when the map is dragged.
+ */
+export function panView(view: MapView, dx: number, dy: number): MapView {
+  const center = latLngToWorld(view.center, view.zoom);
+  return {
+    ...view,
+    center: worldToLatLng({ x: center.x - dx, y: center.y - dy }, view.zoom),
+  };
+}
+
+/**
+ * Coordinates at the edges of the viewport.
+ */
+export function viewBounds(view: MapView, width: number, height: number): MapBounds {
+  const origin = viewportOrigin(view, width, height);
+  const northWest = worldToLatLng(origin, view.zoom);
+  const southEast = worldToLatLng({ x: origin.x + width, y: origin.y + height }, view.zoom);
+  return {
+    north: northWest.lat,
+    south: southEast.lat,
+    east: southEast.lng,
+    west: northWest.lng,
+  };
+}
+
+/**
+ * Groups points that would overlap on screen at the given zoom by bucketing
+ * them into square cells of `cellSize` pixels.
+ */
+export function clusterPoints<T extends LatLng>(
+  points: T[],
+  zoom: number,
+  cellSize = 48
+): MarkerCluster<T>[] {
+  const cells = new Map<string, T[]>();
+
+  for (const point of points) {
+    const world = latLngToWorld(point, zoom);
+    const key = `${Math.floor(world.x / cellSize)}:${Math.floor(world.y / cellSize)}`;
+    const items = cells.get(key) ?? [];
+    items.push(point);
+    cells.set(key, items);
+  }
+
+  return Array.from(cells, ([key, items]) => ({
+    key,
+    lat: items.reduce((sum, item) => sum + item.lat, 0) / items.length,
+    lng: items.reduce((sum, item) => sum + item.lng, 0) / items.length,
+    items,
+  }));
+}
+
+export const clampZoom = (zoom: number) => clamp(Math.round(zoom), MIN_ZOOM, MAX_ZOOM);
+
+/**
+ * Radius of the area drawn around a profile's approximate location.
+ */
+export const PROFILE_AREA_RADIUS_MILES = 1;
+
+/**
+ * Where a member's profile may be shown on a map: their geocoded location
+ * shifted by the stored privacy offset. Profiles without an offset are never
+ * plotted, since their display coordinates are the geocoded street address.
+ */
+export function approximateProfileLocation(profile: {
+  display_lat?: number | null;
+  display_lng?: number | null;
+  display_lat_offset?: number | null;
+  display_lng_offset?: number | null;
+}): LatLng | null {
+  const { display_lat, display_lng, display_lat_offset, display_lng_offset } = profile;
+  if (
+    display_lat == null ||
+    display_lng == null ||
+    display_lat_offset == null ||
+    display_lng_offset == null
+  ) {
+    return null;
+  }
+  return { lat: display_lat + display_lat_offset, lng: display_lng + display_lng_offset };
+}
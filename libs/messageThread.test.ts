@@ -0,0 +1,140 @@
+import {
+  buildMessageLink,
+  createLocalMessageId,
+  decodeMessageCursor,
+  encodeMessageCursor,
+  isLocalMessage,
+  mergeIncomingMessage,
+  prependOlderMessages,
+  replacePendingMessage,
+  withLocalMessages,
+  type ThreadMessage,
+} from './messageThread';
+
+const message = (overrides: Partial<ThreadMessage>): ThreadMessage => ({
+  id: 'msg-1',
+  sender_id: 'user-1',
+  content: 'Hello',
+  created_at: '2026-01-01T10:00:00Z',
+  conversation_id: 'convo-1',
+  ...overrides,
+});
+
+describe('messageThread', () => {
+  describe('createLocalMessageId', () => {
+    it('creates unique ids recognised as local', () => {
+      const first = createLocalMessageId();
+      const second = createLocalMessageId();
+
+      expect(first).not.toBe(second);
+      expect(isLocalMessage(message({ id: first }))).toBe(true);
+      expect(isLocalMessage(message({ id: 'msg-1' }))).toBe(false);
+    });
+  });
+
+  describe('mergeIncomingMessage', () => {
+    it('appends new messages in created_at order', () => {
+      const existing = [message({ id: 'a', created_at: '2026-01-01T10:00:00Z' })];
+      const earlier = message({ id: 'b', created_at: '2026-01-01T09:00:00Z' });
+
+      expect(mergeIncomingMessage(existing, earlier).map((m) => m.id)).toEqual(['b', 'a']);
+    });
+
+    it('updates a message already in the thread', () => {
+      const existing = [{ ...message({ id: 'a' }), is_read: false }];
+
+      const merged = mergeIncomingMessage(existing, { ...message({ id: 'a' }), is_read: true });
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0].is_read).toBe(true);
+    });
+
+    it('replaces the matching optimistic message', () => {
+      const pending = message({ id: 'local-1', status: 'sending' });
+      const saved = message({ id: 'msg-9' });
+
+      expect(mergeIncomingMessage([pending], saved)).toEqual([saved]);
+    });
+
+    it('does not replace a failed optimistic message', () => {
+      const failed = message({ id: 'local-1', status: 'failed' });
+      const saved = message({ id: 'msg-9' });
+
+      expect(mergeIncomingMessage([failed], saved).map((m) => m.id)).toEqual(['local-1', 'msg-9']);
+    });
+  });
+
+  describe('replacePendingMessage', () => {
+    it('swaps the optimistic message for the saved one', () => {
+      const pending = message({ id: 'local-1', status: 'sending' });
+      const saved = message({ id: 'msg-9' });
+
+      expect(replacePendingMessage([pending], 'local-1', saved)).toEqual([saved]);
+    });
+
+    it('drops the optimistic message when realtime delivered it first', () => {
+      const pending = message({ id: 'local-1', status: 'sending' });
+      const saved = message({ id: 'msg-9' });
+
+      expect(replacePendingMessage([saved, pending], 'local-1', saved)).toEqual([saved]);
+    });
+
+    it('clears the status when the response has no message', () => {
+      const pending = message({ id: 'local-1', status: 'sending' });
+
+      expect(replacePendingMessage([pending], 'local-1', undefined)[0].status).toBeUndefined();
+    });
+  });
+
+  describe('withLocalMessages', () => {
+    it('keeps optimistic messages for the same conversation only', () => {
+      const fetched = [message({ id: 'msg-1' })];
+      const previous = [
+        message({ id: 'local-1', status: 'failed' }),
+        message({ id: 'local-2', status: 'sending', conversation_id: 'convo-2' }),
+      ];
+
+      expect(withLocalMessages(fetched, previous, 'convo-1').map((m) => m.id)).toEqual([
+        'msg-1',
+        'local-1',
+      ]);
+    });
+  });
+
+  describe('message cursors', () => {
+    const id = '123e4567-e89b-12d3-a456-426614174000';
+
+    it('round-trips created_at and id', () => {
+      const cursor = encodeMessageCursor({ id, created_at: '2026-01-01T10:00:00.123456+00:00' });
+
+      expect(decodeMessageCursor(cursor)).toEqual({
+        createdAt: '2026-01-01T10:00:00.123456+00:00',
+        id,
+      });
+    });
+
+    it('rejects malformed cursors', () => {
+      expect(decodeMessageCursor('not base64!')).toBeNull();
+      expect(decodeMessageCursor(btoa(`2026-01-01T10:00:00Z|not-a-uuid`))).toBeNull();
+      expect(decodeMessageCursor(btoa(`2026-01-01),id.gt.0|${id}`))).toBeNull();
+    });
+  });
+
+  describe('buildMessageLink', () => {
+    it('links to a conversation and optionally a message', () => {
+      expect(buildMessageLink('convo-1')).toBe('/messages?conversation=convo-1');
+      expect(buildMessageLink('convo-1', 'msg-1')).toBe(
+        '/messages?conversation=convo-1&message=msg-1'
+      );
+    });
+  });
+
+  describe('prependOlderMessages', () => {
+    it('adds older messages above without duplicates', () => {
+      const current = [message({ id: 'b' }), message({ id: 'c' })];
+      const older = [message({ id: 'a' }), message({ id: 'b' })];
+
+      expect(prependOlderMessages(current, older).map((m) => m.id)).toEqual(['a', 'b', 'c']);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Helpers for keeping an open message thread in sync when the same message can
+ * arrive from an optimistic send, the POST response and the realtime stream,
+ * plus paging cursors and links into a thread.
+ */
+
+export type MessageDeliveryStatus = 'sending' | 'failed';
+
+export interface ThreadMessage {
+  id: string;
+  sender_id: string;
+  content: string;
+  created_at: string;
+  conversation_id?: string | null;
+  /** Only set on messages that have not been saved yet. */
+  status?: MessageDeliveryStatus;
+}
+
+const LOCAL_MESSAGE_PREFIX = 'local-';
+
+/**
+ * Builds a temporary id for an optimistic message.
+ */
+export function createLocalMessageId(): string {
+  return `${LOCAL_MESSAGE_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Whether the message only exists on this client so far.
+ */
+export function isLocalMessage(message: ThreadMessage): boolean {
+  return message.id.startsWith(LOCAL_MESSAGE_PREFIX);
+}
+
+function byCreatedAt(a: ThreadMessage, b: ThreadMessage) {
+  return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+}
+
+/**
+ * Adds a message from the realtime stream to the thread.
+ *
+ * A copy already in the thread is updated in place. The sender's own message
+ * takes the place of the matching optimistic one instead of showing twice.
+ */
+export function mergeIncomingMessage<T extends ThreadMessage>(messages: T[], incoming: T): T[] {
+  if (messages.some((message) => message.id === incoming.id)) {
+    return messages.map((message) =>
+      message.id === incoming.id ? { ...message, ...incoming } : message
+    );
+  }
+
+  const pendingIndex = messages.findIndex(
+    (message) =>
+      isLocalMessage(message) &&
+      message.status === 'sending' &&
+      message.sender_id === incoming.sender_id &&
+      message.content === incoming.content
+  );
+
+  if (pendingIndex !== -1) {
+    const next = [...messages];
+    next[pendingIndex] = incoming;
+    return next;
+  }
+
+  return [...messages, incoming].sort(byCreatedAt);
+}
+
+/**
+ * Swaps an optimistic message for the saved one from the POST response. If the
+ * realtime stream delivered it first, the optimistic copy is just dropped.
+ */
+export function replacePendingMessage<T extends ThreadMessage>(
+  messages: T[],
+  localId: string,
+  saved: T | null | undefined
+): T[] {
+  if (!saved) {
+    return messages.map((message) =>
+      message.id === localId ? { ...message, status: undefined } : message
+    );
+  }
+
+  if (messages.some((message) => message.id === saved.id)) {
+    return messages.filter((message) => message.id !== localId);
+  }
+
+  return messages.map((message) => (message.id === localId ? saved : message));
+}
+
+/**
+ * Combines freshly fetched messages with optimistic ones still in flight (or
+ * failed) for the same conversation, so a refetch doesn't discard them.
+ */
+export function withLocalMessages<T extends ThreadMessage>(
+  fetched: T[],
+  previous: T[],
+  conversationId: string
+): T[] {
+  const local = previous.filter(
+    (message) => isLocalMessage(message) && message.conversation_id === conversationId
+  );
+  return local.length > 0 ? [...fetched, ...local] : fetched;
+}
+
+interface MessageCursor {
+  createdAt: string;
+  id: string;
+}
+
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}(:?\d{2})?)?$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Builds the opaque cursor for loading messages older than `message`.
+ * Pairs created_at with id so messages sharing a timestamp are not skipped.
+ */
+export function encodeMessageCursor(message: Pick<ThreadMessage, 'id' | 'created_at'>): string {
+  return btoa(`${message.created_at}|${message.id}`);
+}
+
+/**
+ * Reads a cursor from `encodeMessageCursor`, or returns null if it is malformed.
+ * The parts are validated because they are interpolated into a PostgREST filter.
+ */
+export function decodeMessageCursor(cursor: string): MessageCursor | null {
+  let decoded: string;
+  try {
+    decoded = atob(cursor);
+  } catch {
+    return null;
+  }
+
+  const [createdAt, id, ...rest] = decoded.split('|');
+  if (rest.length > 0 || !TIMESTAMP_PATTERN.test(createdAt ?? '') || !UUID_PATTERN.test(id ?? '')) {
+    return null;
+  }
+
+  return { createdAt, id };
+}
+
+/**
+ * Link to a conversation on the messages page, optionally scrolled to one message.
+ */
+export function buildMessageLink(conversationId: string, messageId?: string): string {
+  const params = new URLSearchParams({ conversation: conversationId });
+  if (messageId) {
+    params.set('message', messageId);
+  }
+  return `/messages?${params.toString()}`;
+}
+
+/**
+ * Prepends an older page of messages, skipping any already in the thread.
+ */
+export function prependOlderMessages<T extends ThreadMessage>(messages: T[], older: T[]): T[] {
+  const existingIds = new Set(messages.map((message) => message.id));
+  return [...older.filter((message) => !existingIds.has(message.id)), ...messages];
+}
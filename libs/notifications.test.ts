@@ -0,0 +1,25 @@
+import { getNotificationLink } from './notifications';
+
+describe('getNotificationLink', () => {
+  it('opens the ride conversation for booking activity', () => {
+    expect(
+      getNotificationLink({ type: 'booking_requested', data: { conversation_id: 'convo-1' } })
+    ).toBe('/messages?conversation=convo-1');
+    expect(getNotificationLink({ type: 'waitlist_promoted', data: {} })).toBe('/messages');
+  });
+
+  it('links review activity to the right profile', () => {
+    expect(getNotificationLink({ type: 'review_response', data: { reviewee_id: 'user-2' } })).toBe(
+      '/profile/user-2'
+    );
+    expect(getNotificationLink({ type: 'review_received', data: {} })).toBe('/profile');
+    expect(getNotificationLink({ type: 'review_requested', data: {} })).toBe('/community');
+  });
+
+  it('sends admins to the report queue and reporters to the safety page', () => {
+    expect(getNotificationLink({ type: 'report_submitted', data: { report_id: 'r-1' } })).toBe(
+      '/admin?view=reports'
+    );
+    expect(getNotificationLink({ type: 'report_reviewed', data: {} })).toBe('/safety');
+  });
+});
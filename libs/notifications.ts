@@ -0,0 +1,89 @@
+import { buildMessageLink } from '@/libs/messageThread';
+
+/**
+ * Everything that can show up in the notification bell. Matches the CHECK on
+ * notifications.type.
+ */
+export const NOTIFICATION_TYPES = [
+  'booking_requested',
+  'booking_waitlisted',
+  'booking_confirmed',
+  'booking_declined',
+  'booking_cancelled',
+  'ride_invitation',
+  'invitation_accepted',
+  'invitation_declined',
+  'waitlist_promoted',
+  'review_requested',
+  'review_received',
+  'review_response',
+  'review_dispute_resolved',
+  'report_submitted',
+  'report_reviewed',
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+/**
+ * Ids a notification carries so it can link to what it is about.
+ */
+export interface NotificationData {
+  ride_id?: string;
+  booking_id?: string;
+  conversation_id?: string | null;
+  review_id?: string;
+  reviewee_id?: string;
+  report_id?: string;
+}
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  data: NotificationData;
+  read_at: string | null;
+  created_at: string;
+}
+
+const BOOKING_TYPES: readonly NotificationType[] = [
+  'booking_requested',
+  'booking_waitlisted',
+  'booking_confirmed',
+  'booking_declined',
+  'booking_cancelled',
+  'ride_invitation',
+  'invitation_accepted',
+  'invitation_declined',
+  'waitlist_promoted',
+];
+
+/**
+ * Where clicking a notification takes the member.
+ *
+ * Booking activity opens the ride's conversation, where requests and
+ * invitations are answered; without one it falls back to the inbox.
+ */
+export function getNotificationLink(notification: Pick<AppNotification, 'type' | 'data'>): string {
+  const { type, data } = notification;
+
+  if (BOOKING_TYPES.includes(type)) {
+    return data.conversation_id ? buildMessageLink(data.conversation_id) : '/messages';
+  }
+
+  switch (type) {
+    case 'review_requested':
+      return '/community';
+    case 'review_response':
+      return data.reviewee_id ? `/profile/${data.reviewee_id}` : '/profile';
+    case 'review_received':
+    case 'review_dispute_resolved':
+      return '/profile';
+    case 'report_submitted':
+      return '/admin?view=reports';
+    case 'report_reviewed':
+      return '/safety';
+    default:
+      return '/';
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  findCatalogPlace,
+  getCatalogPlace,
+  PLACE_CATALOG,
+  placeKey,
+  searchPlaceCatalog,
+} from './placeCatalog';
+
+describe('PLACE_CATALOG', () => {
+  it('has unique ids and never gives two places the same name or alias', () => {
+    const ids = PLACE_CATALOG.map((place) => place.id);
+    expect(new Set(ids).size).toBe(ids.length);
+
+    const owners = new Map<string, string>();
+    for (const place of PLACE_CATALOG) {
+      for (const name of [place.name, ...place.aliases]) {
+        const owner = owners.get(placeKey(name));
+        expect(owner === undefined || owner === place.id).toBe(true);
+        owners.set(placeKey(name), place.id);
+      }
+    }
+  });
+});
+
+describe('findCatalogPlace', () => {
+  it('matches names regardless of case, punctuation and state suffix', () => {
+    expect(findCatalogPlace('Truckee')?.id).toBe('truckee');
+    expect(findCatalogPlace('  truckee, ca, usa ')?.id).toBe('truckee');
+    expect(findCatalogPlace('Incline Village, Nevada')?.id).toBe('incline-village');
+  });
+
+  it('matches aliases', () => {
+    expect(findCatalogPlace('Squaw Valley')?.name).toBe('Palisades Tahoe');
+    expect(findCatalogPlace('SF Caltrain')?.id).toBe('sf-caltrain');
+    expect(findCatalogPlace('Mt. Rose')?.id).toBe('mt-rose');
+  });
+
+  it('returns null for places it does not know', () => {
+    expect(findCatalogPlace('123 Main St, Boise, ID')).toBeNull();
+  });
+});
+
+describe('getCatalogPlace', () => {
+  it('looks places up by id', () => {
+    expect(getCatalogPlace('kirkwood')?.name).toBe('Kirkwood Mountain Resort');
+    expect(getCatalogPlace('nope')).toBeNull();
+    expect(getCatalogPlace(null)).toBeNull();
+  });
+});
+
+describe('searchPlaceCatalog', () => {
+  it('suggests places whose name or alias starts with the text first', () => {
+    const results = searchPlaceCatalog('kirk');
+    expect(results[0].id).toBe('kirkwood');
+  });
+
+  it('finds places by alias and by words inside the name', () => {
+    expect(searchPlaceCatalog('squ').map((place) => place.id)).toContain('palisades-tahoe');
+    expect(searchPlaceCatalog('caltrain').map((place) => place.id)).toEqual(
+      expect.arrayContaining(['sf-caltrain', 'millbrae-station'])
+    );
+  });
+
+  it('caps the number of suggestions and ignores blank text', () => {
+    expect(searchPlaceCatalog('a', 3)).toHaveLength(3);
+    expect(searchPlaceCatalog('   ')).toEqual([]);
+  });
+});
@@ -0,0 +1,601 @@
+/**
+ * Curated catalog of the places rides usually start or end at: Bay Area,
+ * Sacramento and Tahoe towns, ski resorts, trailheads, transit hubs and common
+ * pickup points. The ride form suggests these as people type, so the same
+ * place is always stored under the same name, and the geocoder's gazetteer
+ * provider answers from it without a network call.
+ *
+ * Place ids are stored on rides (`start_place_id`/`end_place_id`); never
+ * change or reuse an id once it has shipped.
+ */
+
+export type PlaceCategory = 'town' | 'ski_resort' | 'trailhead' | 'transit' | 'pickup';
+
+export interface CatalogPlace {
+  id: string;
+  name: string;
+  category: PlaceCategory;
+  lat: number;
+  lng: number;
+  // Other spellings and nicknames that should resolve to this place
+  aliases: string[];
+}
+
+export const PLACE_CATEGORY_LABELS: Record<PlaceCategory, string> = {
+  town: 'Town',
+  ski_resort: 'Ski resort',
+  trailhead: 'Trailhead',
+  transit: 'Transit',
+  pickup: 'Pickup spot',
+};
+
+export const PLACE_CATALOG: CatalogPlace[] = [
+  // Bay Area
+  {
+    id: 'san-francisco',
+    name: 'San Francisco, CA',
+    category: 'town',
+    lat: 37.7749,
+    lng: -122.4194,
+    aliases: ['sf', 'san fran'],
+  },
+  {
+    id: 'oakland',
+    name: 'Oakland, CA',
+    category: 'town',
+    lat: 37.8044,
+    lng: -122.2712,
+    aliases: [],
+  },
+  {
+    id: 'berkeley',
+    name: 'Berkeley, CA',
+    category: 'town',
+    lat: 37.8715,
+    lng: -122.273,
+    aliases: [],
+  },
+  {
+    id: 'san-jose',
+    name: 'San Jose, CA',
+    category: 'town',
+    lat: 37.3382,
+    lng: -121.8863,
+    aliases: ['sj'],
+  },
+  {
+    id: 'palo-alto',
+    name: 'Palo Alto, CA',
+    category: 'town',
+    lat: 37.4419,
+    lng: -122.143,
+    aliases: [],
+  },
+  {
+    id: 'mountain-view',
+    name: 'Mountain View, CA',
+    category: 'town',
+    lat: 37.3861,
+    lng: -122.0839,
+    aliases: [],
+  },
+  {
+    id: 'san-mateo',
+    name: 'San Mateo, CA',
+    category: 'town',
+    lat: 37.563,
+    lng: -122.3255,
+    aliases: [],
+  },
+  {
+    id: 'walnut-creek',
+    name: 'Walnut Creek, CA',
+    category: 'town',
+    lat: 37.9101,
+    lng: -122.0652,
+    aliases: [],
+  },
+  {
+    id: 'fremont',
+    name: 'Fremont, CA',
+    category: 'town',
+    lat: 37.5485,
+    lng: -121.9886,
+    aliases: [],
+  },
+  {
+    id: 'santa-rosa',
+    name: 'Santa Rosa, CA',
+    category: 'town',
+    lat: 38.4404,
+    lng: -122.7141,
+    aliases: [],
+  },
+
+  // Sacramento and the I-80 / US-50 corridors
+  {
+    id: 'sacramento',
+    name: 'Sacramento, CA',
+    category: 'town',
+    lat: 38.5816,
+    lng: -121.4944,
+    aliases: ['sac', 'sacto'],
+  },
+  {
+    id: 'davis',
+    name: 'Davis, CA',
+    category: 'town',
+    lat: 38.5449,
+    lng: -121.7405,
+    aliases: [],
+  },
+  {
+    id: 'roseville',
+    name: 'Roseville, CA',
+    category: 'town',
+    lat: 38.7521,
+    lng: -121.288,
+    aliases: [],
+  },
+  {
+    id: 'auburn',
+    name: 'Auburn, CA',
+    category: 'town',
+    lat: 38.8966,
+    lng: -121.0769,
+    aliases: [],
+  },
+  {
+    id: 'placerville',
+    name: 'Placerville, CA',
+    category: 'town',
+    lat: 38.7296,
+    lng: -120.7985,
+    aliases: [],
+  },
+  {
+    id: 'reno',
+    name: 'Reno, NV',
+    category: 'town',
+    lat: 39.5296,
+    lng: -119.8138,
+    aliases: [],
+  },
+
+  // Lake Tahoe
+  {
+    id: 'lake-tahoe',
+    name: 'Lake Tahoe',
+    category: 'town',
+    lat: 39.0968,
+    lng: -120.0324,
+    aliases: ['tahoe'],
+  },
+  {
+    id: 'truckee',
+    name: 'Truckee, CA',
+    category: 'town',
+    lat: 39.328,
+    lng: -120.1833,
+    aliases: [],
+  },
+  {
+    id: 'tahoe-city',
+    name: 'Tahoe City, CA',
+    category: 'town',
+    lat: 39.1677,
+    lng: -120.1452,
+    aliases: [],
+  },
+  {
+    id: 'kings-beach',
+    name: 'Kings Beach, CA',
+    category: 'town',
+    lat: 39.2377,
+    lng: -120.0266,
+    aliases: [],
+  },
+  {
+    id: 'homewood',
+    name: 'Homewood, CA',
+    category: 'town',
+    lat: 39.0857,
+    lng: -120.161,
+    aliases: [],
+  },
+  {
+    id: 'south-lake-tahoe',
+    name: 'South Lake Tahoe, CA',
+    category: 'town',
+    lat: 38.9399,
+    lng: -119.9772,
+    aliases: ['slt', 'south lake', 'south tahoe'],
+  },
+  {
+    id: 'stateline',
+    name: 'Stateline, NV',
+    category: 'town',
+    lat: 38.9621,
+    lng: -119.9407,
+    aliases: [],
+  },
+  {
+    id: 'incline-village',
+    name: 'Incline Village, NV',
+    category: 'town',
+    lat: 39.2513,
+    lng: -119.9727,
+    aliases: ['incline'],
+  },
+  {
+    id: 'soda-springs',
+    name: 'Soda Springs, CA',
+    category: 'town',
+    lat: 39.3238,
+    lng: -120.3796,
+    aliases: ['donner summit'],
+  },
+
+  // Ski resorts
+  {
+    id: 'palisades-tahoe',
+    name: 'Palisades Tahoe',
+    category: 'ski_resort',
+    lat: 39.1968,
+    lng: -120.2354,
+    aliases: ['palisades', 'squaw', 'squaw valley', 'olympic valley', 'palisades tahoe resort'],
+  },
+  {
+    id: 'alpine-meadows',
+    name: 'Alpine Meadows',
+    category: 'ski_resort',
+    lat: 39.1645,
+    lng: -120.2386,
+    aliases: ['alpine', 'palisades alpine'],
+  },
+  {
+    id: 'northstar',
+    name: 'Northstar California',
+    category: 'ski_resort',
+    lat: 39.2746,
+    lng: -120.121,
+    aliases: ['northstar', 'northstar resort'],
+  },
+  {
+    id: 'heavenly',
+    name: 'Heavenly Mountain Resort',
+    category: 'ski_resort',
+    lat: 38.9353,
+    lng: -119.94,
+    aliases: ['heavenly', 'heavenly valley', 'heavenly ski resort'],
+  },
+  {
+    id: 'kirkwood',
+    name: 'Kirkwood Mountain Resort',
+    category: 'ski_resort',
+    lat: 38.685,
+    lng: -120.0654,
+    aliases: ['kirkwood', 'kirkwood resort', 'kirkwood ski resort'],
+  },
+  {
+    id: 'sierra-at-tahoe',
+    name: 'Sierra-at-Tahoe',
+    category: 'ski_resort',
+    lat: 38.7993,
+    lng: -120.08,
+    aliases: ['sierra at tahoe'],
+  },
+  {
+    id: 'sugar-bowl',
+    name: 'Sugar Bowl',
+    category: 'ski_resort',
+    lat: 39.3046,
+    lng: -120.3339,
+    aliases: ['sugar bowl resort', 'sugarbowl'],
+  },
+  {
+    id: 'boreal',
+    name: 'Boreal Mountain',
+    category: 'ski_resort',
+    lat: 39.3363,
+    lng: -120.3497,
+    aliases: ['boreal'],
+  },
+  {
+    id: 'diamond-peak',
+    name: 'Diamond Peak',
+    category: 'ski_resort',
+    lat: 39.2544,
+    lng: -119.9237,
+    aliases: [],
+  },
+  {
+    id: 'mt-rose',
+    name: 'Mt. Rose',
+    category: 'ski_resort',
+    lat: 39.3285,
+    lng: -119.8855,
+    aliases: ['mt rose', 'mount rose', 'mt rose ski tahoe'],
+  },
+  {
+    id: 'homewood-mountain-resort',
+    name: 'Homewood Mountain Resort',
+    category: 'ski_resort',
+    lat: 39.0857,
+    lng: -120.1681,
+    aliases: ['homewood resort'],
+  },
+
+  // Trailheads
+  {
+    id: 'eagle-falls-trailhead',
+    name: 'Eagle Falls Trailhead',
+    category: 'trailhead',
+    lat: 38.9526,
+    lng: -120.1119,
+    aliases: ['eagle falls', 'eagle lake trailhead', 'emerald bay trailhead'],
+  },
+  {
+    id: 'mt-tallac-trailhead',
+    name: 'Mt. Tallac Trailhead',
+    category: 'trailhead',
+    lat: 38.9154,
+    lng: -120.0663,
+    aliases: ['mt tallac', 'mount tallac', 'tallac trailhead'],
+  },
+  {
+    id: 'echo-lakes-trailhead',
+    name: 'Echo Lakes Trailhead',
+    category: 'trailhead',
+    lat: 38.8352,
+    lng: -120.0447,
+    aliases: ['echo lakes', 'echo lake'],
+  },
+  {
+    id: 'tahoe-meadows-trailhead',
+    name: 'Tahoe Meadows Trailhead',
+    category: 'trailhead',
+    lat: 39.3034,
+    lng: -119.907,
+    aliases: ['tahoe meadows', 'tahoe rim trail tahoe meadows'],
+  },
+  {
+    id: 'donner-pass-pct-trailhead',
+    name: 'PCT Trailhead at Donner Pass',
+    category: 'trailhead',
+    lat: 39.3167,
+    lng: -120.3275,
+    aliases: ['donner pass', 'pct donner', 'donner pass trailhead'],
+  },
+  {
+    id: 'castle-peak-trailhead',
+    name: 'Castle Peak Trailhead',
+    category: 'trailhead',
+    lat: 39.34,
+    lng: -120.348,
+    aliases: ['castle peak', 'castle pass'],
+  },
+
+  // Transit hubs
+  {
+    id: 'sf-caltrain',
+    name: 'San Francisco Caltrain (4th & King)',
+    category: 'transit',
+    lat: 37.7766,
+    lng: -122.3947,
+    aliases: ['sf caltrain', 'caltrain sf', '4th and king', '4th & king', 'caltrain 4th and king'],
+  },
+  {
+    id: 'salesforce-transit-center',
+    name: 'Salesforce Transit Center',
+    category: 'transit',
+    lat: 37.7897,
+    lng: -122.3966,
+    aliases: ['transbay terminal', 'transbay transit center'],
+  },
+  {
+    id: 'millbrae-station',
+    name: 'Millbrae BART/Caltrain',
+    category: 'transit',
+    lat: 37.6003,
+    lng: -122.3867,
+    aliases: ['millbrae bart', 'millbrae caltrain', 'millbrae station'],
+  },
+  {
+    id: 'macarthur-bart',
+    name: 'MacArthur BART',
+    category: 'transit',
+    lat: 37.8287,
+    lng: -122.2671,
+    aliases: ['macarthur', 'macarthur station'],
+  },
+  {
+    id: 'rockridge-bart',
+    name: 'Rockridge BART',
+    category: 'transit',
+    lat: 37.8445,
+    lng: -122.2513,
+    aliases: ['rockridge'],
+  },
+  {
+    id: 'walnut-creek-bart',
+    name: 'Walnut Creek BART',
+    category: 'transit',
+    lat: 37.9055,
+    lng: -122.0675,
+    aliases: [],
+  },
+  {
+    id: 'el-cerrito-del-norte-bart',
+    name: 'El Cerrito del Norte BART',
+    category: 'transit',
+    lat: 37.9252,
+    lng: -122.3171,
+    aliases: ['del norte bart', 'el cerrito del norte'],
+  },
+  {
+    id: 'dublin-pleasanton-bart',
+    name: 'Dublin/Pleasanton BART',
+    category: 'transit',
+    lat: 37.7017,
+    lng: -121.8992,
+    aliases: ['dublin bart', 'pleasanton bart'],
+  },
+  {
+    id: 'sacramento-valley-station',
+    name: 'Sacramento Valley Station',
+    category: 'transit',
+    lat: 38.5841,
+    lng: -121.5006,
+    aliases: ['sacramento amtrak', 'sac amtrak'],
+  },
+  {
+    id: 'truckee-depot',
+    name: 'Truckee Amtrak Depot',
+    category: 'transit',
+    lat: 39.3275,
+    lng: -120.1855,
+    aliases: ['truckee amtrak', 'truckee train station', 'truckee depot'],
+  },
+  {
+    id: 'sfo',
+    name: 'San Francisco International Airport (SFO)',
+    category: 'transit',
+    lat: 37.6213,
+    lng: -122.379,
+    aliases: ['sfo', 'sf airport', 'san francisco airport'],
+  },
+  {
+    id: 'oak',
+    name: 'Oakland International Airport (OAK)',
+    category: 'transit',
+    lat: 37.7126,
+    lng: -122.2197,
+    aliases: ['oak', 'oakland airport'],
+  },
+  {
+    id: 'sjc',
+    name: 'San Jose International Airport (SJC)',
+    category: 'transit',
+    lat: 37.3639,
+    lng: -121.9289,
+    aliases: ['sjc', 'san jose airport'],
+  },
+  {
+    id: 'smf',
+    name: 'Sacramento International Airport (SMF)',
+    category: 'transit',
+    lat: 38.6954,
+    lng: -121.5908,
+    aliases: ['smf', 'sacramento airport'],
+  },
+  {
+    id: 'rno',
+    name: 'Reno-Tahoe International Airport (RNO)',
+    category: 'transit',
+    lat: 39.4991,
+    lng: -119.7681,
+    aliases: ['rno', 'reno airport', 'reno tahoe airport'],
+  },
+
+  // Common pickup points
+  {
+    id: 'emeryville-ikea',
+    name: 'IKEA Emeryville',
+    category: 'pickup',
+    lat: 37.8312,
+    lng: -122.2903,
+    aliases: ['emeryville ikea'],
+  },
+  {
+    id: 'vacaville-outlets',
+    name: 'Vacaville Premium Outlets',
+    category: 'pickup',
+    lat: 38.3677,
+    lng: -121.9635,
+    aliases: ['vacaville outlets'],
+  },
+  {
+    id: 'folsom-outlets',
+    name: 'Folsom Premium Outlets',
+    category: 'pickup',
+    lat: 38.6491,
+    lng: -121.1888,
+    aliases: ['folsom outlets'],
+  },
+];
+
+// State and country suffixes people add to a place name ("Truckee, CA, USA")
+const TRAILING_REGION = /(\s+(ca|california|nv|nevada|usa|us|united states))+$/;
+
+/**
+ * Lowercases a place name and drops punctuation and trailing state/country
+ * names so "Truckee, CA" and "truckee" compare equal. The ride place backfill
+ * migration mirrors this in SQL.
+ */
+export function placeKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[.,]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(TRAILING_REGION, '');
+}
+
+const placesById = new Map(PLACE_CATALOG.map((place) => [place.id, place]));
+
+const placesByKey = new Map<string, CatalogPlace>();
+for (const place of PLACE_CATALOG) {
+  for (const name of [place.name, ...place.aliases]) {
+    placesByKey.set(placeKey(name), place);
+  }
+}
+
+export const getCatalogPlace = (id: string | null | undefined): CatalogPlace | null =>
+  (id && placesById.get(id)) || null;
+
+/**
+ * The catalog place whose name or one of its aliases is exactly the text, if any.
+ */
+export function findCatalogPlace(text: string): CatalogPlace | null {
+  return placesByKey.get(placeKey(text)) ?? null;
+}
+
+/**
+ * How well any of a place's names matches a search key from placeKey(): 0 when
+ * a name starts with it, 1 when a word inside a name does, 2 when a name merely
+ * contains it, or null for no match.
+ */
+export function placeMatchScore(names: string[], key: string): number | null {
+  let best: number | null = null;
+  for (const name of names) {
+    const candidate = placeKey(name);
+    let score: number | null = null;
+    if (candidate.startsWith(key)) score = 0;
+    else if (candidate.includes(` ${key}`)) score = 1;
+    else if (candidate.includes(key)) score = 2;
+    if (score !== null && (best === null || score < best)) best = score;
+  }
+  return best;
+}
+
+/**
+ * Catalog places matching what someone has typed so far, best matches first:
+ * names or aliases that start with the text, then ones with a word starting
+ * with it, then ones that contain it anywhere.
+ */
+export function searchPlaceCatalog(query: string, limit = 8): CatalogPlace[] {
+  const key = placeKey(query);
+  if (!key) return [];
+
+  const scored: { place: CatalogPlace; score: number }[] = [];
+  for (const place of PLACE_CATALOG) {
+    const score = placeMatchScore([place.name, ...place.aliases], key);
+    if (score !== null) scored.push({ place, score });
+  }
+
+  return scored
+    .sort((a, b) => a.score - b.score || a.place.name.localeCompare(b.place.name))
+    .slice(0, limit)
+    .map(({ place }) => place);
+}
@@ -0,0 +1,47 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { renderCatalogAliasRows, renderCatalogPlaceRows } from './placeCatalogSql';
+import type { CatalogPlace } from './placeCatalog';
+
+describe('place catalog SQL', () => {
+  it('quotes names the way Postgres expects', () => {
+    const places: CatalogPlace[] = [
+      {
+        id: 'kings-beach',
+        name: "King's Beach, CA",
+        category: 'town',
+        lat: 39.2377,
+        lng: -120.0266,
+        aliases: ["king's beach", 'kings beach'],
+      },
+    ];
+
+    expect(renderCatalogPlaceRows(places)).toBe(
+      "  ('kings-beach', 'King''s Beach, CA', 39.2377, -120.0266)"
+    );
+    expect(renderCatalogAliasRows(places)).toBe(
+      "  ('kings-beach', 'king''s beach'),\n  ('kings-beach', 'kings beach')"
+    );
+  });
+
+  describe('ride place catalog migration', () => {
+    // The backfill keeps its own copy of the catalog; this catches the two drifting apart.
+    // A catalog change needs a new backfill migration, not an edit to this one.
+    const sql = readFileSync(
+      path.resolve(__dirname, '../supabase/migrations/20260123000000_ride_place_catalog.sql'),
+      'utf8'
+    );
+
+    it('backfills the same places, names and coordinates as the catalog', () => {
+      expect(sql).toContain(
+        `INSERT INTO catalog_places (id, name, lat, lng) VALUES\n${renderCatalogPlaceRows()};`
+      );
+    });
+
+    it('backfills the same aliases as the catalog', () => {
+      expect(sql).toContain(
+        `FROM (VALUES\n${renderCatalogAliasRows()}\n) AS aliases (place_id, alias)`
+      );
+    });
+  });
+});
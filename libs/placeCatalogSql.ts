@@ -0,0 +1,22 @@
+import { PLACE_CATALOG, type CatalogPlace } from './placeCatalog';
+
+const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+/**
+ * `(id, name, lat, lng)` VALUES rows for the catalog_places table in the ride
+ * place backfill (supabase/migrations/20260123000000_ride_place_catalog.sql).
+ */
+export function renderCatalogPlaceRows(places: CatalogPlace[] = PLACE_CATALOG): string {
+  return places
+    .map(({ id, name, lat, lng }) => `  (${quote(id)}, ${quote(name)}, ${lat}, ${lng})`)
+    .join(',\n');
+}
+
+/**
+ * `(place_id, alias)` VALUES rows for the aliases in the same backfill.
+ */
+export function renderCatalogAliasRows(places: CatalogPlace[] = PLACE_CATALOG): string {
+  return places
+    .flatMap((place) => place.aliases.map((alias) => `  (${quote(place.id)}, ${quote(alias)})`))
+    .join(',\n');
+}
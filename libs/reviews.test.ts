@@ -0,0 +1,85 @@
+import { getCategoryAverages, isReviewRevealed, validateCategoryRatings } from './reviews';
+
+describe('isReviewRevealed', () => {
+  const now = new Date('2026-01-20T12:00:00Z');
+
+  it('hides reviews until their reveal time', () => {
+    expect(isReviewRevealed({ revealed_at: '2026-01-25T12:00:00Z' }, now)).toBe(false);
+    expect(isReviewRevealed({ revealed_at: '2026-01-20T12:00:00Z' }, now)).toBe(true);
+    expect(isReviewRevealed({ revealed_at: '2026-01-10T08:00:00Z' }, now)).toBe(true);
+  });
+});
+
+describe('validateCategoryRatings', () => {
+  it('accepts a score for every category of the reviewed role', () => {
+    expect(
+      validateCategoryRatings(
+        { punctuality: 5, driving_safety: 4, vehicle_condition: 3, communication: 5 },
+        'driver'
+      )
+    ).toBeNull();
+    expect(
+      validateCategoryRatings({ punctuality: 4, respectfulness: 5, payment: 5 }, 'passenger')
+    ).toBeNull();
+  });
+
+  it('rejects missing, out-of-range and other-role categories', () => {
+    expect(validateCategoryRatings(undefined, 'driver')).toBe('Category ratings are required');
+    expect(validateCategoryRatings({ punctuality: 4, respectfulness: 5 }, 'passenger')).toBe(
+      'Payment must be rated between 1 and 5'
+    );
+    expect(
+      validateCategoryRatings({ punctuality: 4, respectfulness: 5, payment: 6 }, 'passenger')
+    ).toBe('Payment must be rated between 1 and 5');
+    expect(
+      validateCategoryRatings(
+        { punctuality: 4, respectfulness: 5, payment: 5, driving_safety: 5 },
+        'passenger'
+      )
+    ).toBe('driving_safety is not rated for a passenger');
+  });
+});
+
+describe('getCategoryAverages', () => {
+  it('averages each category separately for driver and passenger reviews', () => {
+    const averages = getCategoryAverages([
+      {
+        reviewed_role: 'driver',
+        category_ratings: {
+          punctuality: 5,
+          driving_safety: 4,
+          vehicle_condition: 3,
+          communication: 5,
+        },
+      },
+      {
+        reviewed_role: 'driver',
+        category_ratings: {
+          punctuality: 4,
+          driving_safety: 5,
+          vehicle_condition: 4,
+          communication: 4,
+        },
+      },
+      { reviewed_role: 'driver', category_ratings: {} },
+      {
+        reviewed_role: 'passenger',
+        category_ratings: { punctuality: 2, respectfulness: 5, payment: 5 },
+      },
+    ]);
+
+    expect(averages.driver).toEqual({
+      reviewCount: 2,
+      averages: {
+        punctuality: 4.5,
+        driving_safety: 4.5,
+        vehicle_condition: 3.5,
+        communication: 4.5,
+      },
+    });
+    expect(averages.passenger).toEqual({
+      reviewCount: 1,
+      averages: { punctuality: 2, respectfulness: 5, payment: 5 },
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Days a review stays hidden while waiting for the other side of the booking
+ * to review. Matches the interval in protect_review_reveal().
+ */
+export const REVIEW_REVEAL_WINDOW_DAYS = 14;
+
+/**
+ * Whether a review is visible to everyone yet. Reviews are revealed together
+ * once both sides have reviewed, or on their own when the window closes.
+ */
+export function isReviewRevealed(review: { revealed_at: string }, now = new Date()): boolean {
+  return new Date(review.revealed_at) <= now;
+}
+
+export type ReviewRole = 'driver' | 'passenger';
+
+/**
+ * Categories each review scores, by the role the person was reviewed in.
+ * Matches valid_review_category_ratings().
+ */
+export const REVIEW_CATEGORIES = {
+  driver: ['punctuality', 'driving_safety', 'vehicle_condition', 'communication'],
+  passenger: ['punctuality', 'respectfulness', 'payment'],
+} as const;
+
+export type ReviewCategory = (typeof REVIEW_CATEGORIES)[ReviewRole][number];
+
+export type CategoryRatings = Partial<Record<ReviewCategory, number>>;
+
+export const REVIEW_CATEGORY_LABELS: Record<ReviewCategory, string> = {
+  punctuality: 'Punctuality',
+  driving_safety: 'Driving safety',
+  vehicle_condition: 'Vehicle condition',
+  communication: 'Communication',
+  respectfulness: 'Respectfulness',
+  payment: 'Payment',
+};
+
+export interface CategoryAverages {
+  reviewCount: number;
+  averages: CategoryRatings;
+}
+
+/**
+ * Checks that every category for the reviewed role has a whole-number score
+ * from 1 to 5 and nothing else was sent. Returns an error message, or null.
+ */
+export function validateCategoryRatings(ratings: unknown, role: ReviewRole): string | null {
+  if (!ratings || typeof ratings !== 'object' || Array.isArray(ratings)) {
+    return 'Category ratings are required';
+  }
+
+  const categories: readonly string[] = REVIEW_CATEGORIES[role];
+
+  const extra = Object.entries(ratings).find(([category]) => !categories.includes(category));
+  if (extra) {
+    return `${extra[0]} is not rated for a ${role}`;
+  }
+
+  for (const category of categories) {
+    const score = (ratings as Record<string, unknown>)[category];
+    if (!Number.isInteger(score) || (score as number) < 1 || (score as number) > 5) {
+      return `${REVIEW_CATEGORY_LABELS[category as ReviewCategory]} must be rated between 1 and 5`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Averages each category across reviews, separately for reviews of the user
+ * as a driver and as a passenger. Reviews without category scores (written
+ * before categories existed) are left out.
+ */
+export function getCategoryAverages(
+  reviews: Array<{ reviewed_role: string; category_ratings: CategoryRatings | null }>
+): Record<ReviewRole, CategoryAverages> {
+  const result: Record<ReviewRole, CategoryAverages> = {
+    driver: { reviewCount: 0, averages: {} },
+    passenger: { reviewCount: 0, averages: {} },
+  };
+
+  for (const role of ['driver', 'passenger'] as const) {
+    const scored = reviews.filter(
+      (review) =>
+        review.reviewed_role === role && Object.keys(review.category_ratings ?? {}).length > 0
+    );
+    result[role].reviewCount = scored.length;
+
+    for (const category of REVIEW_CATEGORIES[role]) {
+      const scores = scored
+        .map((review) => review.category_ratings?.[category])
+        .filter((score): score is number => typeof score === 'number');
+      if (scores.length > 0) {
+        result[role].averages[category] =
+          Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10;
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,180 @@
+import { rankRideMatches, scoreRideMatch, type MatchableRide } from './rideMatching';
+
+const baseRide: MatchableRide = {
+  id: 'ride-1',
+  poster_id: 'driver-1',
+  posting_type: 'driver',
+  // Downtown San Francisco → South Lake Tahoe
+  start_lat: 37.7749,
+  start_lng: -122.4194,
+  end_lat: 38.9399,
+  end_lng: -119.9772,
+  departure_date: '2026-01-10',
+  departure_time: '07:00:00',
+  is_round_trip: false,
+  return_date: null,
+  trip_direction: null,
+  total_seats: 3,
+  available_seats: 3,
+};
+
+const makeRide = (overrides: Partial<MatchableRide>): MatchableRide => ({
+  ...baseRide,
+  ...overrides,
+});
+
+describe('scoreRideMatch', () => {
+  it('gives full points to a passenger on the same route and time', () => {
+    const driver = makeRide({});
+    const passenger = makeRide({
+      id: 'ride-2',
+      poster_id: 'passenger-1',
+      posting_type: 'passenger',
+      total_seats: 1,
+    });
+
+    const result = scoreRideMatch(driver, passenger);
+
+    expect(result.score).toBe(100);
+    expect(result.breakdown.map((component) => component.factor)).toEqual([
+      'start',
+      'end',
+      'timing',
+      'direction',
+      'seats',
+    ]);
+    expect(result.breakdown[0].explanation).toBe('Pickup locations are less than a mile apart');
+    expect(result.breakdown[2].explanation).toBe('Leaving within the same hour');
+  });
+
+  it('scales proximity points down with distance', () => {
+    const driver = makeRide({});
+    // Walnut Creek is roughly 20 miles from downtown San Francisco
+    const passenger = makeRide({
+      posting_type: 'passenger',
+      poster_id: 'passenger-1',
+      start_lat: 37.9101,
+      start_lng: -122.0652,
+    });
+
+    const start = scoreRideMatch(driver, passenger).breakdown[0];
+
+    expect(start.points).toBeGreaterThan(0);
+    expect(start.points).toBeLessThan(start.maxPoints);
+    expect(start.explanation).toMatch(/^Pickup locations are \d+\.\d miles apart$/);
+  });
+
+  it('gives no proximity points when a location is missing coordinates', () => {
+    const driver = makeRide({ end_lat: null, end_lng: null });
+    const passenger = makeRide({ posting_type: 'passenger', poster_id: 'passenger-1' });
+
+    const end = scoreRideMatch(driver, passenger).breakdown[1];
+
+    expect(end.points).toBe(0);
+    expect(end.explanation).toBe('Drop-off location not on the map');
+  });
+
+  it('scores departures a day apart lower than the same time', () => {
+    const driver = makeRide({});
+    const passenger = makeRide({
+      posting_type: 'passenger',
+      poster_id: 'passenger-1',
+      departure_date: '2026-01-11',
+    });
+
+    const timing = scoreRideMatch(driver, passenger).breakdown[2];
+
+    expect(timing.points).toBeLessThan(timing.maxPoints);
+    expect(timing.explanation).toBe('Departures are 1 day apart');
+  });
+
+  it('gives no direction points to opposite legs of round trips', () => {
+    const driver = makeRide({ is_round_trip: true, trip_direction: 'departure' });
+    const passenger = makeRide({
+      posting_type: 'passenger',
+      poster_id: 'passenger-1',
+      is_round_trip: true,
+      trip_direction: 'return',
+    });
+
+    const direction = scoreRideMatch(driver, passenger).breakdown[3];
+
+    expect(direction.points).toBe(0);
+    expect(direction.explanation).toBe('Travelling in opposite directions');
+  });
+
+  it('lets a combined round trip match either leg', () => {
+    const driver = makeRide({ is_round_trip: true, return_date: '2026-01-12' });
+    const passenger = makeRide({
+      posting_type: 'passenger',
+      poster_id: 'passenger-1',
+      is_round_trip: true,
+      trip_direction: 'return',
+    });
+
+    expect(scoreRideMatch(driver, passenger).breakdown[3].points).toBeGreaterThan(0);
+  });
+
+  it('checks seats left against the seats the passenger needs', () => {
+    const passenger = makeRide({
+      posting_type: 'passenger',
+      poster_id: 'passenger-1',
+      total_seats: 2,
+    });
+
+    expect(scoreRideMatch(makeRide({ available_seats: 1 }), passenger).breakdown[4]).toMatchObject({
+      points: 3,
+      explanation: 'Only 1 of 2 needed seats left',
+    });
+    expect(scoreRideMatch(makeRide({ available_seats: 0 }), passenger).breakdown[4]).toMatchObject({
+      points: 0,
+      explanation: 'Ride is full (waitlist only)',
+    });
+  });
+});
+
+describe('rankRideMatches', () => {
+  it('pairs driver posts with passenger posts and sorts by score', () => {
+    const myRequest = makeRide({ id: 'mine', poster_id: 'me', posting_type: 'passenger' });
+    const closeDriver = makeRide({ id: 'close', poster_id: 'driver-1' });
+    const laterDriver = makeRide({
+      id: 'later',
+      poster_id: 'driver-2',
+      departure_time: '15:00:00',
+    });
+    const otherPassenger = makeRide({
+      id: 'other',
+      poster_id: 'passenger-2',
+      posting_type: 'passenger',
+    });
+
+    const matches = rankRideMatches([myRequest], [laterDriver, otherPassenger, closeDriver]);
+
+    expect(matches.map((match) => match.driverRide.id)).toEqual(['close', 'later']);
+    expect(matches.every((match) => match.passengerRide.id === 'mine')).toBe(true);
+  });
+
+  it('drops matches below the minimum score', () => {
+    const myOffer = makeRide({ id: 'mine', poster_id: 'me' });
+    // Reno to Sacramento a week later shares nothing with the offer
+    const unrelated = makeRide({
+      id: 'unrelated',
+      poster_id: 'passenger-1',
+      posting_type: 'passenger',
+      start_lat: 39.5296,
+      start_lng: -119.8138,
+      end_lat: 38.5816,
+      end_lng: -121.4944,
+      departure_date: '2026-01-17',
+    });
+
+    expect(rankRideMatches([myOffer], [unrelated])).toEqual([]);
+  });
+
+  it('never matches a member with their own posts', () => {
+    const myOffer = makeRide({ id: 'offer', poster_id: 'me' });
+    const myRequest = makeRide({ id: 'request', poster_id: 'me', posting_type: 'passenger' });
+
+    expect(rankRideMatches([myOffer], [myRequest])).toEqual([]);
+  });
+});
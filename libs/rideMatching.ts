@@ -0,0 +1,291 @@
+import type { RidePostType } from '@/app/community/types';
+import { calculateDistance } from '@/libs/distance';
+import {
+  getTripDirection,
+  type TripDirection,
+} from '@/app/community/components/utils/tripDirection';
+
+/**
+ * Ride post fields used for scoring.
+ */
+export type MatchableRide = Pick<
+  RidePostType,
+  | 'id'
+  | 'poster_id'
+  | 'posting_type'
+  | 'start_lat'
+  | 'start_lng'
+  | 'end_lat'
+  | 'end_lng'
+  | 'departure_date'
+  | 'departure_time'
+  | 'is_round_trip'
+  | 'return_date'
+  | 'trip_direction'
+  | 'total_seats'
+  | 'available_seats'
+>;
+
+export type MatchFactor = 'start' | 'end' | 'timing' | 'direction' | 'seats';
+
+/**
+ * One factor's contribution to a match score.
+ */
+export interface MatchScoreComponent {
+  factor: MatchFactor;
+  points: number;
+  maxPoints: number;
+  explanation: string;
+}
+
+export interface RideMatchScore {
+  // 0-100
+  score: number;
+  breakdown: MatchScoreComponent[];
+}
+
+export interface RideMatch<T extends MatchableRide = MatchableRide> extends RideMatchScore {
+  driverRide: T;
+  passengerRide: T;
+}
+
+const MAX_POINTS: Record<MatchFactor, number> = {
+  start: 30,
+  end: 30,
+  timing: 25,
+  direction: 10,
+  seats: 5,
+};
+
+// Within this many miles a location counts as the same place; beyond the outer
+// limit it earns no points
+const FULL_PROXIMITY_MILES = 5;
+const MAX_PROXIMITY_MILES = 50;
+
+// Departures within this many hours earn full timing points; none beyond the limit
+const FULL_TIMING_HOURS = 2;
+const MAX_TIMING_HOURS = 48;
+
+/**
+ * Matches scoring below this are not suggested.
+ */
+export const MIN_MATCH_SCORE = 40;
+
+/**
+ * Linear falloff between a "full points" threshold and a "no points" limit.
+ */
+function scaledPoints(value: number, full: number, limit: number, maxPoints: number): number {
+  if (value <= full) return maxPoints;
+  if (value >= limit) return 0;
+  return Math.round(maxPoints * (1 - (value - full) / (limit - full)));
+}
+
+function scoreProximity(
+  factor: 'start' | 'end',
+  driverLat: number | null,
+  driverLng: number | null,
+  passengerLat: number | null,
+  passengerLng: number | null
+): MatchScoreComponent {
+  const maxPoints = MAX_POINTS[factor];
+  const label = factor === 'start' ? 'Pickup' : 'Drop-off';
+
+  if (driverLat == null || driverLng == null || passengerLat == null || passengerLng == null) {
+    return { factor, points: 0, maxPoints, explanation: `${label} location not on the map` };
+  }
+
+  const miles = calculateDistance(driverLat, driverLng, passengerLat, passengerLng);
+  return {
+    factor,
+    points: scaledPoints(miles, FULL_PROXIMITY_MILES, MAX_PROXIMITY_MILES, maxPoints),
+    maxPoints,
+    explanation:
+      miles < 1
+        ? `${label} locations are less than a mile apart`
+        : `${label} locations are ${miles.toFixed(1)} miles apart`,
+  };
+}
+
+function getDepartureTime(ride: MatchableRide): number {
+  return new Date(
+    `${ride.departure_date}T${(ride.departure_time || '00:00').slice(0, 5)}:00Z`
+  ).getTime();
+}
+
+/**
+ * Hours between two rides' departures.
+ */
+export function getDepartureGapHours(a: MatchableRide, b: MatchableRide): number {
+  return Math.abs(getDepartureTime(a) - getDepartureTime(b)) / (60 * 60 * 1000);
+}
+
+function scoreTiming(driverRide: MatchableRide, passengerRide: MatchableRide): MatchScoreComponent {
+  const maxPoints = MAX_POINTS.timing;
+  const hours = getDepartureGapHours(driverRide, passengerRide);
+
+  let explanation: string;
+  if (hours < 1) {
+    explanation = 'Leaving within the same hour';
+  } else if (hours < 24) {
+    explanation = `Departures are ${Math.round(hours)} hours apart`;
+  } else {
+    const days = Math.round(hours / 24);
+    explanation = `Departures are ${days} ${days === 1 ? 'day' : 'days'} apart`;
+  }
+
+  return {
+    factor: 'timing',
+    points: scaledPoints(hours, FULL_TIMING_HOURS, MAX_TIMING_HOURS, maxPoints),
+    maxPoints,
+    explanation,
+  };
+}
+
+/**
+ * Round trips cover both legs and one-way posts don't name a leg, so either pairs
+ * with anything; only a departure leg and a return leg run in opposite directions.
+ */
+function directionsCompatible(a: TripDirection, b: TripDirection): boolean {
+  if (a === b || a === 'round' || b === 'round') return true;
+  return a === 'one_way' || b === 'one_way';
+}
+
+function scoreDirection(
+  driverRide: MatchableRide,
+  passengerRide: MatchableRide
+): MatchScoreComponent {
+  const maxPoints = MAX_POINTS.direction;
+  const driverDirection = getTripDirection(driverRide);
+  const passengerDirection = getTripDirection(passengerRide);
+
+  if (driverDirection === passengerDirection) {
+    return { factor: 'direction', points: maxPoints, maxPoints, explanation: 'Same trip type' };
+  }
+  if (directionsCompatible(driverDirection, passengerDirection)) {
+    return {
+      factor: 'direction',
+      points: Math.round(maxPoints / 2),
+      maxPoints,
+      explanation: 'Trip types are compatible',
+    };
+  }
+  return {
+    factor: 'direction',
+    points: 0,
+    maxPoints,
+    explanation: 'Travelling in opposite directions',
+  };
+}
+
+function scoreSeats(driverRide: MatchableRide, passengerRide: MatchableRide): MatchScoreComponent {
+  const maxPoints = MAX_POINTS.seats;
+  // A passenger post's total_seats is the number of seats they need
+  const seatsNeeded =
+    passengerRide.posting_type === 'passenger' ? (passengerRide.total_seats ?? 1) : 1;
+  const seatsLeft = driverRide.available_seats ?? driverRide.total_seats;
+
+  if (seatsLeft == null) {
+    return { factor: 'seats', points: maxPoints, maxPoints, explanation: 'Seats not limited' };
+  }
+  if (seatsLeft <= 0) {
+    return { factor: 'seats', points: 0, maxPoints, explanation: 'Ride is full (waitlist only)' };
+  }
+  if (seatsLeft < seatsNeeded) {
+    return {
+      factor: 'seats',
+      points: Math.round(maxPoints / 2),
+      maxPoints,
+      explanation: `Only ${seatsLeft} of ${seatsNeeded} needed seats left`,
+    };
+  }
+  return {
+    factor: 'seats',
+    points: maxPoints,
+    maxPoints,
+    explanation: `${seatsLeft} ${seatsLeft === 1 ? 'seat' : 'seats'} left`,
+  };
+}
+
+/**
+ * Scores how well a driver's ride fits a passenger's request.
+ *
+ * Points come from start and end proximity, how close the departures are, whether
+ * the trips run the same direction, and whether the driver has enough seats.
+ */
+export function scoreRideMatch(
+  driverRide: MatchableRide,
+  passengerRide: MatchableRide
+): RideMatchScore {
+  const breakdown = [
+    scoreProximity(
+      'start',
+      driverRide.start_lat,
+      driverRide.start_lng,
+      passengerRide.start_lat,
+      passengerRide.start_lng
+    ),
+    scoreProximity(
+      'end',
+      driverRide.end_lat,
+      driverRide.end_lng,
+      passengerRide.end_lat,
+      passengerRide.end_lng
+    ),
+    scoreTiming(driverRide, passengerRide),
+    scoreDirection(driverRide, passengerRide),
+    scoreSeats(driverRide, passengerRide),
+  ];
+
+  return {
+    score: breakdown.reduce((total, component) => total + component.points, 0),
+    breakdown,
+  };
+}
+
+function canDrive(ride: MatchableRide): boolean {
+  return ride.posting_type === 'driver' || ride.posting_type === 'flexible';
+}
+
+function canRide(ride: MatchableRide): boolean {
+  return ride.posting_type === 'passenger' || ride.posting_type === 'flexible';
+}
+
+/**
+ * Pairs each of the user's posts with candidate posts from other members and
+ * returns the pairs scoring at least `minScore`, best first.
+ *
+ * A driver post is paired with passenger posts and vice versa; flexible posts can
+ * take either side.
+ */
+export function rankRideMatches<T extends MatchableRide>(
+  myRides: T[],
+  candidateRides: T[],
+  minScore: number = MIN_MATCH_SCORE
+): RideMatch<T>[] {
+  const matches: RideMatch<T>[] = [];
+
+  for (const myRide of myRides) {
+    for (const candidate of candidateRides) {
+      if (candidate.poster_id === myRide.poster_id) continue;
+
+      const pairs: [T, T][] = [];
+      if (canDrive(myRide) && canRide(candidate)) pairs.push([myRide, candidate]);
+      if (canRide(myRide) && canDrive(candidate)) pairs.push([candidate, myRide]);
+
+      // Two flexible posts can pair either way; keep the better-scoring orientation
+      let best: RideMatch<T> | null = null;
+      for (const [driverRide, passengerRide] of pairs) {
+        const result = scoreRideMatch(driverRide, passengerRide);
+        if (!best || result.score > best.score) {
+          best = { driverRide, passengerRide, ...result };
+        }
+      }
+
+      if (best && best.score >= minScore) {
+        matches.push(best);
+      }
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,117 @@
+import {
+  findRideCorridor,
+  getChainControlWarning,
+  isChainControlRisk,
+  type ChainControlRide,
+  type RoadCondition,
+} from './corridors';
+
+const PLACES = {
+  sanFrancisco: { lat: 37.7749, lng: -122.4194 },
+  sanJose: { lat: 37.3382, lng: -121.8863 },
+  sacramento: { lat: 38.5816, lng: -121.4944 },
+  southLakeTahoe: { lat: 38.9399, lng: -119.9772 },
+  heavenly: { lat: 38.9353, lng: -119.94 },
+  truckee: { lat: 39.328, lng: -120.1833 },
+  northstar: { lat: 39.2746, lng: -120.121 },
+  tahoeCity: { lat: 39.1677, lng: -120.1452 },
+  kirkwood: { lat: 38.6849, lng: -120.0652 },
+  reno: { lat: 39.5296, lng: -119.8138 },
+};
+
+type Place = keyof typeof PLACES;
+
+const trip = (from: Place, to: Place) => ({
+  start_lat: PLACES[from].lat,
+  start_lng: PLACES[from].lng,
+  end_lat: PLACES[to].lat,
+  end_lng: PLACES[to].lng,
+});
+
+describe('findRideCorridor', () => {
+  it.each<[Place, Place, string]>([
+    ['sanFrancisco', 'southLakeTahoe', 'US-50'],
+    ['southLakeTahoe', 'sanFrancisco', 'US-50'],
+    ['sanJose', 'heavenly', 'US-50'],
+    ['sanFrancisco', 'truckee', 'I-80'],
+    ['sacramento', 'northstar', 'I-80'],
+    ['sanFrancisco', 'tahoeCity', 'I-80'],
+    ['reno', 'sacramento', 'I-80'],
+    ['sanFrancisco', 'kirkwood', 'SR-88'],
+  ])('routes %s to %s over %s', (from, to, corridor) => {
+    expect(findRideCorridor(trip(from, to))?.id).toBe(corridor);
+  });
+
+  it('finds no corridor for trips that stay on one side of the passes', () => {
+    expect(findRideCorridor(trip('southLakeTahoe', 'heavenly'))).toBeNull();
+    expect(findRideCorridor(trip('truckee', 'tahoeCity'))).toBeNull();
+    expect(findRideCorridor(trip('sanFrancisco', 'sacramento'))).toBeNull();
+  });
+
+  it('needs coordinates for both ends', () => {
+    expect(findRideCorridor({ ...trip('sanFrancisco', 'truckee'), end_lat: null })).toBeNull();
+  });
+});
+
+describe('isChainControlRisk', () => {
+  it('flags R2 for cars without AWD and R3 for everyone', () => {
+    expect(isChainControlRisk('R1', false)).toBe(false);
+    expect(isChainControlRisk('R2', false)).toBe(true);
+    expect(isChainControlRisk('R2', true)).toBe(false);
+    expect(isChainControlRisk('R3', true)).toBe(true);
+  });
+});
+
+describe('getChainControlWarning', () => {
+  const now = new Date('2026-01-10T15:00:00Z');
+  const conditions: RoadCondition[] = [
+    {
+      corridor: 'I-80',
+      chain_control: 'R2',
+      description: null,
+      source: 'fixture',
+      reported_at: '2026-01-10T14:00:00Z',
+    },
+  ];
+  const ride: ChainControlRide = {
+    ...trip('sanFrancisco', 'truckee'),
+    posting_type: 'driver',
+    status: 'active',
+    departure_date: '2026-01-11',
+    has_awd: false,
+  };
+
+  it('warns about a ride without AWD departing soon over a corridor under R2', () => {
+    expect(getChainControlWarning(ride, conditions, now)).toEqual({
+      corridor: expect.objectContaining({ id: 'I-80' }),
+      condition: conditions[0],
+    });
+  });
+
+  it('does not warn for AWD cars, passenger requests, far-off dates or other corridors', () => {
+    expect(getChainControlWarning({ ...ride, has_awd: true }, conditions, now)).toBeNull();
+    expect(
+      getChainControlWarning({ ...ride, posting_type: 'passenger' }, conditions, now)
+    ).toBeNull();
+    expect(
+      getChainControlWarning({ ...ride, departure_date: '2026-01-20' }, conditions, now)
+    ).toBeNull();
+    expect(
+      getChainControlWarning(
+        { ...ride, ...trip('sanFrancisco', 'southLakeTahoe') },
+        conditions,
+        now
+      )
+    ).toBeNull();
+  });
+
+  it('still warns for a ride leaving today on a Tahoe evening, after UTC midnight', () => {
+    const evening = new Date('2026-01-16T02:00:00Z');
+    const tonight = { ...ride, departure_date: '2026-01-15' };
+
+    expect(getChainControlWarning(tonight, conditions, evening)).not.toBeNull();
+    expect(
+      getChainControlWarning({ ...ride, departure_date: '2026-01-18' }, conditions, evening)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,252 @@
+import type { RidePostType } from '@/app/community/types';
+import { toTahoeDateKey } from '@/libs/tahoeTime';
+
+export const CHAIN_CONTROL_LEVELS = ['none', 'R1', 'R2', 'R3'] as const;
+
+export type ChainControlLevel = (typeof CHAIN_CONTROL_LEVELS)[number];
+
+export type CorridorId = 'I-80' | 'US-50' | 'SR-88';
+
+/**
+ * What each chain-control level asks of drivers.
+ */
+export const CHAIN_CONTROL_DESCRIPTIONS: Record<Exclude<ChainControlLevel, 'none'>, string> = {
+  R1: 'Chains or snow tires required',
+  R2: 'Chains required unless 4WD/AWD with snow tires',
+  R3: 'Chains required on all vehicles',
+};
+
+/**
+ * Current chain-control level on a corridor, as stored in road_conditions.
+ */
+export interface RoadCondition {
+  corridor: CorridorId;
+  chain_control: ChainControlLevel;
+  description: string | null;
+  source: string;
+  reported_at: string;
+}
+
+interface CorridorPoint {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * A highway into the Tahoe basin. `path` runs from the valley side to the
+ * mountain side, and `passIndex` is the point on it where chain controls are
+ * usually posted; a ride uses the corridor when it crosses that point.
+ */
+export interface Corridor {
+  id: CorridorId;
+  name: string;
+  passName: string;
+  path: CorridorPoint[];
+  passIndex: number;
+}
+
+// The Bay Area and Sacramento leg every corridor shares
+const BAY_TO_SACRAMENTO: CorridorPoint[] = [
+  { lat: 37.7749, lng: -122.4194 }, // San Francisco
+  { lat: 37.8716, lng: -122.2727 }, // Berkeley
+  { lat: 38.1041, lng: -122.2566 }, // Vallejo
+  { lat: 38.2494, lng: -122.04 }, // Fairfield
+  { lat: 38.5449, lng: -121.7405 }, // Davis
+  { lat: 38.5816, lng: -121.4944 }, // Sacramento
+];
+
+export const CORRIDORS: Corridor[] = [
+  {
+    id: 'I-80',
+    name: 'I-80',
+    passName: 'Donner Summit',
+    path: [
+      ...BAY_TO_SACRAMENTO,
+      { lat: 38.7521, lng: -121.288 }, // Roseville
+      { lat: 38.8966, lng: -121.0769 }, // Auburn
+      { lat: 39.1007, lng: -120.9533 }, // Colfax
+      { lat: 39.296, lng: -120.6719 }, // Emigrant Gap
+      { lat: 39.3405, lng: -120.336 }, // Donner Summit
+      { lat: 39.328, lng: -120.1833 }, // Truckee
+      { lat: 39.5182, lng: -119.9888 }, // Verdi
+      { lat: 39.5296, lng: -119.8138 }, // Reno
+    ],
+    passIndex: BAY_TO_SACRAMENTO.length + 4,
+  },
+  {
+    id: 'US-50',
+    name: 'US-50',
+    passName: 'Echo Summit',
+    path: [
+      ...BAY_TO_SACRAMENTO,
+      { lat: 38.678, lng: -121.1761 }, // Folsom
+      { lat: 38.7296, lng: -120.7985 }, // Placerville
+      { lat: 38.7613, lng: -120.586 }, // Pollock Pines
+      { lat: 38.7741, lng: -120.2966 }, // Kyburz
+      { lat: 38.8127, lng: -120.033 }, // Echo Summit
+      { lat: 38.8566, lng: -120.0146 }, // Meyers
+      { lat: 38.9399, lng: -119.9772 }, // South Lake Tahoe
+      { lat: 38.9624, lng: -119.9399 }, // Stateline
+    ],
+    passIndex: BAY_TO_SACRAMENTO.length + 4,
+  },
+  {
+    id: 'SR-88',
+    name: 'SR-88',
+    passName: 'Carson Spur',
+    path: [
+      { lat: 37.7749, lng: -122.4194 }, // San Francisco
+      { lat: 37.8044, lng: -122.2712 }, // Oakland
+      { lat: 37.7397, lng: -121.4252 }, // Tracy
+      { lat: 37.9577, lng: -121.2908 }, // Stockton
+      { lat: 38.3488, lng: -120.7741 }, // Jackson
+      { lat: 38.4316, lng: -120.5719 }, // Pioneer
+      { lat: 38.671, lng: -120.1185 }, // Silver Lake
+      { lat: 38.6763, lng: -120.0973 }, // Carson Spur
+      { lat: 38.6849, lng: -120.0652 }, // Kirkwood
+      { lat: 38.6947, lng: -119.9891 }, // Carson Pass
+      { lat: 38.7657, lng: -119.887 }, // Picketts Junction
+    ],
+    passIndex: 7,
+  },
+];
+
+// The mountain-side end of a ride must be this close to the corridor; the
+// valley side can be anywhere in the region that feeds onto it.
+const MAX_MOUNTAIN_OFFSET_MILES = 25;
+const MAX_VALLEY_OFFSET_MILES = 100;
+
+/**
+ * Days ahead (counting today) that current conditions are taken to apply to a ride.
+ */
+export const CONDITIONS_WINDOW_DAYS = 3;
+
+const MILES_PER_DEGREE_LAT = 69;
+// Longitude degrees shrink with latitude; this is the value around Tahoe
+const MILES_PER_DEGREE_LNG = 53.9;
+
+const toMiles = (point: CorridorPoint) => ({
+  x: point.lng * MILES_PER_DEGREE_LNG,
+  y: point.lat * MILES_PER_DEGREE_LAT,
+});
+
+/**
+ * Where a point lands on a corridor: miles along the path to the closest
+ * spot, and how far off the path the point is.
+ */
+function projectOntoPath(path: CorridorPoint[], point: CorridorPoint) {
+  const p = toMiles(point);
+  let travelled = 0;
+  let best = { along: 0, offset: Infinity };
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const a = toMiles(path[i]);
+    const b = toMiles(path[i + 1]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = Math.hypot(dx, dy);
+    const t =
+      length === 0
+        ? 0
+        : Math.min(Math.max(((p.x - a.x) * dx + (p.y - a.y) * dy) / length ** 2, 0), 1);
+    const offset = Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+
+    if (offset < best.offset) {
+      best = { along: travelled + t * length, offset };
+    }
+    travelled += length;
+  }
+
+  return best;
+}
+
+function milesToIndex(path: CorridorPoint[], index: number) {
+  let travelled = 0;
+  for (let i = 0; i < index; i++) {
+    const a = toMiles(path[i]);
+    const b = toMiles(path[i + 1]);
+    travelled += Math.hypot(b.x - a.x, b.y - a.y);
+  }
+  return travelled;
+}
+
+type CorridorRide = Pick<RidePostType, 'start_lat' | 'start_lng' | 'end_lat' | 'end_lng'>;
+
+/**
+ * The corridor a ride drives over, worked out from its start and end
+ * coordinates: the one whose pass lies between the two ends, preferring the
+ * corridor that runs closest to the mountain-side end. Null when the ride has
+ * no coordinates or doesn't cross a pass (e.g. a trip around the lake).
+ */
+export function findRideCorridor(ride: CorridorRide): Corridor | null {
+  if (ride.start_lat == null || ride.start_lng == null) return null;
+  if (ride.end_lat == null || ride.end_lng == null) return null;
+
+  const start = { lat: ride.start_lat, lng: ride.start_lng };
+  const end = { lat: ride.end_lat, lng: ride.end_lng };
+  let best: { corridor: Corridor; offset: number } | null = null;
+
+  for (const corridor of CORRIDORS) {
+    const pass = milesToIndex(corridor.path, corridor.passIndex);
+    const [valley, mountain] = [
+      projectOntoPath(corridor.path, start),
+      projectOntoPath(corridor.path, end),
+    ].sort((a, b) => a.along - b.along);
+
+    const crossesPass = valley.along < pass && mountain.along > pass;
+    if (
+      crossesPass &&
+      valley.offset <= MAX_VALLEY_OFFSET_MILES &&
+      mountain.offset <= MAX_MOUNTAIN_OFFSET_MILES &&
+      (!best || mountain.offset < best.offset)
+    ) {
+      best = { corridor, offset: mountain.offset };
+    }
+  }
+
+  return best?.corridor ?? null;
+}
+
+/**
+ * Whether a chain-control level keeps a car off the road without chains:
+ * R2 for cars without AWD, R3 for everyone.
+ */
+export function isChainControlRisk(level: ChainControlLevel, hasAwd: boolean): boolean {
+  return level === 'R3' || (level === 'R2' && !hasAwd);
+}
+
+export type ChainControlRide = CorridorRide &
+  Pick<RidePostType, 'posting_type' | 'status' | 'departure_date' | 'has_awd'>;
+
+export interface ChainControlWarning {
+  corridor: Corridor;
+  condition: RoadCondition;
+}
+
+/**
+ * The chain control a ride is heading into, if any: an active ride with a car
+ * (not a passenger request) departing within CONDITIONS_WINDOW_DAYS over a
+ * corridor whose current level is a risk for it.
+ */
+export function getChainControlWarning(
+  ride: ChainControlRide,
+  conditions: RoadCondition[],
+  now = new Date()
+): ChainControlWarning | null {
+  if (ride.posting_type === 'passenger' || ride.status !== 'active') return null;
+
+  if (
+    ride.departure_date < toTahoeDateKey(now) ||
+    ride.departure_date > toTahoeDateKey(now, CONDITIONS_WINDOW_DAYS - 1)
+  ) {
+    return null;
+  }
+
+  const corridor = findRideCorridor(ride);
+  if (!corridor) return null;
+
+  const condition = conditions.find((item) => item.corridor === corridor.id);
+  if (!condition || !isChainControlRisk(condition.chain_control, !!ride.has_awd)) return null;
+
+  return { corridor, condition };
+}
@@ -0,0 +1,64 @@
+import { caltransFeed, fixtureFeed, getRoadConditionsFeed } from './feeds';
+
+describe('road conditions feeds', () => {
+  const originalFetch = global.fetch;
+  const originalFixture = process.env.ROAD_CONDITIONS_FIXTURE;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    process.env.ROAD_CONDITIONS_FIXTURE = originalFixture;
+  });
+
+  it('fixture reports the configured levels and clears every other corridor', async () => {
+    process.env.ROAD_CONDITIONS_FIXTURE = '{"I-80":"R2"}';
+
+    await expect(fixtureFeed.fetchConditions()).resolves.toEqual([
+      { corridor: 'I-80', chainControl: 'R2', description: 'Fixture conditions' },
+      { corridor: 'US-50', chainControl: 'none', description: null },
+      { corridor: 'SR-88', chainControl: 'none', description: null },
+    ]);
+  });
+
+  it('caltrans keeps the most severe level posted along each corridor', async () => {
+    const record = (route: string, status: string, statusDescription: string) => ({
+      cc: { location: { route }, statusData: { status, statusDescription } },
+    });
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          data: [
+            record('I-80', 'R-1', 'Chains or snow tires'),
+            record('I-80', 'R-2', 'Chains required west of Donner Lake'),
+            record('US 50', 'No Chain Controls', ''),
+            record('SR-20', 'R-3', 'Not a Tahoe corridor'),
+          ],
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ data: [record('SR-88', 'R-3', 'Carson Spur')] }),
+      });
+
+    const reports = await caltransFeed.fetchConditions();
+
+    expect(reports).toEqual([
+      { corridor: 'I-80', chainControl: 'R2', description: 'Chains required west of Donner Lake' },
+      { corridor: 'US-50', chainControl: 'none', description: null },
+      { corridor: 'SR-88', chainControl: 'R3', description: 'Carson Spur' },
+    ]);
+    expect((global.fetch as jest.Mock).mock.calls[0][0]).toContain('/d3/cc/ccStatusD03.json');
+  });
+
+  it('caltrans throws when the request fails', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 502 });
+
+    await expect(caltransFeed.fetchConditions()).rejects.toThrow('502');
+  });
+
+  it('selects the fixture feed by name and defaults to caltrans', () => {
+    expect(getRoadConditionsFeed('fixture')).toBe(fixtureFeed);
+    expect(getRoadConditionsFeed(undefined)).toBe(caltransFeed);
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  CHAIN_CONTROL_LEVELS,
+  CORRIDORS,
+  type ChainControlLevel,
+  type CorridorId,
+} from './corridors';
+
+/**
+ * Chain-control level reported for a corridor.
+ */
+export interface CorridorReport {
+  corridor: CorridorId;
+  chainControl: ChainControlLevel;
+  description: string | null;
+}
+
+/**
+ * Somewhere current chain controls come from. Feeds report every corridor,
+ * using 'none' where nothing is posted, and throw when the lookup failed so
+ * stale levels aren't overwritten with 'none'.
+ */
+export interface RoadConditionsFeed {
+  name: string;
+  fetchConditions: () => Promise<CorridorReport[]>;
+}
+
+export type RoadConditionsFeedName = 'caltrans' | 'fixture';
+
+const levelRank = (level: ChainControlLevel) => CHAIN_CONTROL_LEVELS.indexOf(level);
+
+const clearReports = (): CorridorReport[] =>
+  CORRIDORS.map((corridor) => ({ corridor: corridor.id, chainControl: 'none', description: null }));
+
+/**
+ * Local stand-in for development and tests. Reads levels from the
+ * ROAD_CONDITIONS_FIXTURE environment variable, e.g. `{"I-80":"R2"}`, and
+ * reports every other corridor as clear.
+ */
+export const fixtureFeed: RoadConditionsFeed = {
+  name: 'fixture',
+  fetchConditions: async () => {
+    const fixture: Partial<Record<string, string>> = JSON.parse(
+      process.env.ROAD_CONDITIONS_FIXTURE || '{}'
+    );
+
+    return clearReports().map((report) => {
+      const level = fixture[report.corridor] as ChainControlLevel | undefined;
+      return level && levelRank(level) > 0
+        ? { ...report, chainControl: level, description: 'Fixture conditions' }
+        : report;
+    });
+  },
+};
+
+interface CaltransChainControlRecord {
+  cc?: {
+    location?: { route?: string; locationName?: string };
+    statusData?: { status?: string; statusDescription?: string };
+  };
+}
+
+// Caltrans districts covering the corridors: 3 (I-80, US-50) and 10 (SR-88)
+const CALTRANS_DISTRICTS = ['03', '10'];
+
+const caltransUrl = (district: string) =>
+  `https://cwwp2.dot.ca.gov/data/d${Number(district)}/cc/ccStatusD${district}.json`;
+
+// Caltrans writes routes as "I-80", "US 50", "SR-88" and so on
+const CALTRANS_ROUTES: Record<string, CorridorId> = { I80: 'I-80', US50: 'US-50', SR88: 'SR-88' };
+
+const parseCaltransLevel = (status: string | undefined): ChainControlLevel => {
+  const match = /R-?([1-3])/i.exec(status ?? '');
+  return match ? (`R${match[1]}` as ChainControlLevel) : 'none';
+};
+
+/**
+ * Caltrans chain-control status (CWWP2). Each corridor takes the most severe
+ * level posted anywhere along it.
+ */
+export const caltransFeed: RoadConditionsFeed = {
+  name: 'caltrans',
+  fetchConditions: async () => {
+    const reports = new Map(clearReports().map((report) => [report.corridor, report]));
+
+    for (const district of CALTRANS_DISTRICTS) {
+      const response = await fetch(caltransUrl(district));
+      if (!response.ok) {
+        throw new Error(`Caltrans chain control request failed with status ${response.status}`);
+      }
+
+      const body: { data?: CaltransChainControlRecord[] } = await response.json();
+      for (const record of body.data ?? []) {
+        const route = (record.cc?.location?.route ?? '').replaceAll(/[^a-z0-9]/gi, '');
+        const corridor = CALTRANS_ROUTES[route.toUpperCase()];
+        if (!corridor) continue;
+
+        const chainControl = parseCaltransLevel(record.cc?.statusData?.status);
+        const current = reports.get(corridor)!;
+        if (levelRank(chainControl) > levelRank(current.chainControl)) {
+          reports.set(corridor, {
+            corridor,
+            chainControl,
+            description:
+              record.cc?.statusData?.statusDescription ?? record.cc?.location?.locationName ?? null,
+          });
+        }
+      }
+    }
+
+    return Array.from(reports.values());
+  },
+};
+
+/**
+ * Feed selected by ROAD_CONDITIONS_FEED; Caltrans unless set to 'fixture'.
+ */
+export function getRoadConditionsFeed(
+  name: string | undefined = process.env.ROAD_CONDITIONS_FEED
+): RoadConditionsFeed {
+  return (name as RoadConditionsFeedName | undefined) === 'fixture' ? fixtureFeed : caltransFeed;
+}
@@ -0,0 +1,59 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/database.types';
+import { getRoadConditionsFeed, type CorridorReport, type RoadConditionsFeed } from './feeds';
+
+export {
+  CHAIN_CONTROL_DESCRIPTIONS,
+  CHAIN_CONTROL_LEVELS,
+  CONDITIONS_WINDOW_DAYS,
+  CORRIDORS,
+  findRideCorridor,
+  getChainControlWarning,
+  isChainControlRisk,
+} from './corridors';
+export type {
+  ChainControlLevel,
+  ChainControlRide,
+  ChainControlWarning,
+  Corridor,
+  CorridorId,
+  RoadCondition,
+} from './corridors';
+export { caltransFeed, fixtureFeed, getRoadConditionsFeed } from './feeds';
+export type { CorridorReport, RoadConditionsFeed, RoadConditionsFeedName } from './feeds';
+
+interface RefreshOptions {
+  feed?: RoadConditionsFeed;
+  // Client for the road_conditions table; defaults to the service role client
+  supabase?: SupabaseClient<Database>;
+}
+
+/**
+ * Pulls the current chain controls from the feed and stores them, one row
+ * per corridor. Feed errors are thrown so the previous levels stay in place.
+ */
+export async function refreshRoadConditions({
+  feed = getRoadConditionsFeed(),
+  supabase = createAdminClient(),
+}: RefreshOptions = {}): Promise<CorridorReport[]> {
+  const reports = await feed.fetchConditions();
+  const reportedAt = new Date().toISOString();
+
+  const { error } = await supabase.from('road_conditions').upsert(
+    reports.map((report) => ({
+      corridor: report.corridor,
+      chain_control: report.chainControl,
+      description: report.description,
+      source: feed.name,
+      reported_at: reportedAt,
+    })),
+    { onConflict: 'corridor' }
+  );
+
+  if (error) {
+    throw new Error(`Failed to save road conditions: ${error.message}`);
+  }
+
+  return reports;
+}
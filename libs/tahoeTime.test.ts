@@ -0,0 +1,33 @@
+import { fromTahoeDateTime, toTahoeDateKey } from './tahoeTime';
+
+describe('toTahoeDateKey', () => {
+  it('uses the Tahoe date after UTC midnight has passed', () => {
+    // 6pm PST on Jan 15
+    const evening = new Date('2026-01-16T02:00:00Z');
+    expect(toTahoeDateKey(evening)).toBe('2026-01-15');
+    expect(toTahoeDateKey(evening, 2)).toBe('2026-01-17');
+  });
+
+  it('counts days across month ends and daylight saving changes', () => {
+    expect(toTahoeDateKey(new Date('2026-01-31T20:00:00Z'), 1)).toBe('2026-02-01');
+    expect(toTahoeDateKey(new Date('2026-03-07T12:00:00Z'), 2)).toBe('2026-03-09');
+  });
+});
+
+describe('fromTahoeDateTime', () => {
+  it('reads standard and daylight times with their own offsets', () => {
+    expect(fromTahoeDateTime('2026-01-15', '18:00')).toEqual(new Date('2026-01-16T02:00:00Z'));
+    expect(fromTahoeDateTime('2026-07-04', '08:30:00')).toEqual(new Date('2026-07-04T15:30:00Z'));
+  });
+
+  it('switches offset across daylight saving changes', () => {
+    expect(fromTahoeDateTime('2026-03-08', '01:00:00')).toEqual(new Date('2026-03-08T09:00:00Z'));
+    expect(fromTahoeDateTime('2026-03-08', '08:00:00')).toEqual(new Date('2026-03-08T15:00:00Z'));
+    expect(fromTahoeDateTime('2026-11-01', '00:30:00')).toEqual(new Date('2026-11-01T07:30:00Z'));
+    expect(fromTahoeDateTime('2026-11-01', '08:00:00')).toEqual(new Date('2026-11-01T16:00:00Z'));
+  });
+
+  it('defaults to midnight', () => {
+    expect(fromTahoeDateTime('2026-01-15')).toEqual(new Date('2026-01-15T08:00:00Z'));
+  });
+});
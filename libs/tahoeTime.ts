@@ -0,0 +1,67 @@
+/**
+ * Ride dates and times are entered as Tahoe wall-clock values (`YYYY-MM-DD`
+ * and `HH:mm[:ss]` with no zone), so anything comparing them with "now" has to
+ * work in Tahoe time rather than UTC or the server's zone.
+ */
+export const TAHOE_TIME_ZONE = 'America/Los_Angeles';
+
+const tahoeDateFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: TAHOE_TIME_ZONE,
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+});
+
+const tahoeDateTimeFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: TAHOE_TIME_ZONE,
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  second: 'numeric',
+  hourCycle: 'h23',
+});
+
+// How far Tahoe wall-clock time is ahead of UTC at `timestamp` (negative)
+function getTahoeOffsetMs(timestamp: number): number {
+  const parts = tahoeDateTimeFormat.formatToParts(new Date(timestamp));
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second')
+  );
+  return wallClock - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * The `YYYY-MM-DD` date in Tahoe at `date`, moved by `addDays`. Windows over
+ * ride departure dates must not roll over at UTC midnight (late afternoon in
+ * Tahoe).
+ */
+export function toTahoeDateKey(date: Date, addDays = 0): string {
+  const parts = tahoeDateFormat.formatToParts(date);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const local = new Date(Date.UTC(part('year'), part('month') - 1, part('day') + addDays));
+  return local.toISOString().split('T')[0];
+}
+
+/**
+ * The moment a Tahoe wall-clock date (`YYYY-MM-DD`) and time (`HH:mm[:ss]`)
+ * refers to, whatever zone the server runs in. Follows daylight saving, so a
+ * time on either side of a change gets that side's offset.
+ */
+export function fromTahoeDateTime(date: string, time = '00:00:00'): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute, second = 0] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // The offset at the wall-clock instant can be an hour off right by a
+  // daylight saving change, so check it again at the result
+  const guess = wallClock - getTahoeOffsetMs(wallClock);
+  return new Date(wallClock - getTahoeOffsetMs(guess));
+}
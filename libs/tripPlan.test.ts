@@ -0,0 +1,91 @@
+import {
+  addMinutesToDeparture,
+  AVERAGE_SPEED_MPH,
+  orderPickups,
+  PICKUP_STOP_MINUTES,
+  planTrip,
+} from '@/libs/tripPlan';
+
+const SAN_FRANCISCO = { lat: 37.7749, lng: -122.4194 };
+const SOUTH_LAKE_TAHOE = { lat: 38.9399, lng: -119.9772 };
+
+const booking = (id: string, lat: number | null, lng: number | null) => ({
+  id,
+  pickup_lat: lat,
+  pickup_lng: lng,
+});
+
+const BERKELEY = booking('berkeley', 37.8715, -122.273);
+const SACRAMENTO = booking('sacramento', 38.5816, -121.4944);
+const PLACERVILLE = booking('placerville', 38.7296, -120.7985);
+const SANTA_CRUZ = booking('santa-cruz', 36.9741, -122.0308);
+
+describe('libs/tripPlan', () => {
+  describe('orderPickups', () => {
+    it('orders pickups from the start toward the destination', () => {
+      const ordered = orderPickups(SAN_FRANCISCO, SOUTH_LAKE_TAHOE, [
+        PLACERVILLE,
+        BERKELEY,
+        SACRAMENTO,
+      ]);
+
+      expect(ordered.map((b) => b.id)).toEqual(['berkeley', 'sacramento', 'placerville']);
+    });
+
+    it('leaves out bookings without pickup coordinates', () => {
+      const ordered = orderPickups(SAN_FRANCISCO, SOUTH_LAKE_TAHOE, [
+        booking('unknown', null, null),
+        SACRAMENTO,
+      ]);
+
+      expect(ordered.map((b) => b.id)).toEqual(['sacramento']);
+    });
+  });
+
+  describe('planTrip', () => {
+    it('estimates arrival times including time spent at earlier stops', () => {
+      const plan = planTrip(SAN_FRANCISCO, SOUTH_LAKE_TAHOE, [SACRAMENTO, BERKELEY]);
+      const [first, second] = plan.pickups;
+
+      expect(first.booking.id).toBe('berkeley');
+      expect(first.order).toBe(1);
+      expect(first.minutesFromDeparture).toBe(
+        Math.round((first.legMiles / AVERAGE_SPEED_MPH) * 60)
+      );
+      expect(second.minutesFromDeparture).toBeGreaterThanOrEqual(
+        first.minutesFromDeparture + PICKUP_STOP_MINUTES
+      );
+      expect(plan.minutesToDestination).toBeGreaterThan(second.minutesFromDeparture);
+    });
+
+    it('flags pickups that are far off the route', () => {
+      const plan = planTrip(SAN_FRANCISCO, SOUTH_LAKE_TAHOE, [SACRAMENTO, SANTA_CRUZ]);
+
+      const sacramento = plan.pickups.find((p) => p.booking.id === 'sacramento');
+      const santaCruz = plan.pickups.find((p) => p.booking.id === 'santa-cruz');
+
+      expect(sacramento?.offRoute).toBe(false);
+      expect(santaCruz?.offRoute).toBe(true);
+      expect(santaCruz?.detourMiles).toBeGreaterThan(50);
+    });
+
+    it('reports bookings that could not be located', () => {
+      const unknown = booking('unknown', null, null);
+
+      const plan = planTrip(SAN_FRANCISCO, SOUTH_LAKE_TAHOE, [unknown, BERKELEY]);
+
+      expect(plan.pickups).toHaveLength(1);
+      expect(plan.unlocated).toEqual([unknown]);
+    });
+  });
+
+  describe('addMinutesToDeparture', () => {
+    it('adds minutes to the local departure time', () => {
+      const arrival = addMinutesToDeparture('2026-01-10', '07:30:00', 95);
+
+      expect(arrival.getHours()).toBe(9);
+      expect(arrival.getMinutes()).toBe(5);
+      expect(arrival.getDate()).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { calculateDistance } from '@/libs/distance';
+import { ROAD_DISTANCE_FACTOR } from '@/libs/costSplit';
+
+export interface PlanPoint {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Booking fields used to plan pickups.
+ */
+export interface PlannablePickup {
+  id: string;
+  pickup_lat: number | null;
+  pickup_lng: number | null;
+}
+
+export interface PlannedPickup<T extends PlannablePickup = PlannablePickup> {
+  booking: T;
+  // 1-based stop number
+  order: number;
+  // Road miles from the previous stop (or the ride's start)
+  legMiles: number;
+  // Estimated minutes after departure the driver reaches this stop
+  minutesFromDeparture: number;
+  // Extra road miles this stop adds compared with driving straight to the destination
+  detourMiles: number;
+  offRoute: boolean;
+}
+
+export interface TripPlan<T extends PlannablePickup = PlannablePickup> {
+  pickups: PlannedPickup<T>[];
+  // Bookings whose pickup couldn't be placed on a map
+  unlocated: T[];
+  totalMiles: number;
+  minutesToDestination: number;
+}
+
+/**
+ * Average driving speed used for arrival estimates, including traffic and chain
+ * control slowdowns on mountain passes.
+ */
+export const AVERAGE_SPEED_MPH = 45;
+
+/**
+ * Minutes spent at each pickup loading passengers and gear.
+ */
+export const PICKUP_STOP_MINUTES = 5;
+
+/**
+ * Pickups adding more than this many road miles to the direct route are flagged.
+ */
+export const OFF_ROUTE_DETOUR_MILES = 15;
+
+// Doubling back costs the distance there and back again
+const BACKTRACK_WEIGHT = 2;
+
+const roadMiles = (from: PlanPoint, to: PlanPoint) =>
+  calculateDistance(from.lat, from.lng, to.lat, to.lng) * ROAD_DISTANCE_FACTOR;
+
+/**
+ * How far along the start→end direction a point lies, in road miles from the
+ * start (negative when it is behind the start).
+ */
+function progressAlongRoute(start: PlanPoint, end: PlanPoint, point: PlanPoint): number {
+  const routeMiles = roadMiles(start, end);
+  if (routeMiles === 0) return 0;
+  const fromStart = roadMiles(start, point);
+  const toEnd = roadMiles(point, end);
+  return (fromStart ** 2 + routeMiles ** 2 - toEnd ** 2) / (2 * routeMiles);
+}
+
+const toPoint = (booking: PlannablePickup): PlanPoint | null =>
+  booking.pickup_lat === null || booking.pickup_lng === null
+    ? null
+    : { lat: booking.pickup_lat, lng: booking.pickup_lng };
+
+/**
+ * Orders pickups from the ride's start toward its end with a nearest-neighbor
+ * heuristic: the next stop is the closest remaining one, with stops that would
+ * mean doubling back along the route counted as further away.
+ */
+export function orderPickups<T extends PlannablePickup>(
+  start: PlanPoint,
+  end: PlanPoint,
+  bookings: T[]
+): T[] {
+  const remaining = bookings
+    .map((booking) => ({ booking, point: toPoint(booking) }))
+    .filter((entry): entry is { booking: T; point: PlanPoint } => entry.point !== null)
+    .map((entry) => ({ ...entry, progress: progressAlongRoute(start, end, entry.point) }));
+
+  const ordered: T[] = [];
+  let current = start;
+  let currentProgress = 0;
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let bestCost = Number.POSITIVE_INFINITY;
+
+    remaining.forEach((entry, index) => {
+      const backtrack = Math.max(0, currentProgress - entry.progress);
+      const cost = roadMiles(current, entry.point) + BACKTRACK_WEIGHT * backtrack;
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestIndex = index;
+      }
+    });
+
+    const [next] = remaining.splice(bestIndex, 1);
+    ordered.push(next.booking);
+    current = next.point;
+    currentProgress = Math.max(currentProgress, next.progress);
+  }
+
+  return ordered;
+}
+
+/**
+ * Plans the driver's pickups between the ride's start and end: stop order,
+ * estimated arrival at each stop, and which stops are far off the route.
+ */
+export function planTrip<T extends PlannablePickup>(
+  start: PlanPoint,
+  end: PlanPoint,
+  bookings: T[]
+): TripPlan<T> {
+  const directMiles = roadMiles(start, end);
+  const ordered = orderPickups(start, end, bookings);
+
+  let previous = start;
+  let miles = 0;
+  let minutes = 0;
+
+  const pickups = ordered.map((booking, index) => {
+    const point = toPoint(booking) as PlanPoint;
+    const legMiles = roadMiles(previous, point);
+    const detourMiles = Math.max(0, roadMiles(start, point) + roadMiles(point, end) - directMiles);
+
+    miles += legMiles;
+    minutes += (legMiles / AVERAGE_SPEED_MPH) * 60 + (index > 0 ? PICKUP_STOP_MINUTES : 0);
+    previous = point;
+
+    return {
+      booking,
+      order: index + 1,
+      legMiles: Math.round(legMiles),
+      minutesFromDeparture: Math.round(minutes),
+      detourMiles: Math.round(detourMiles),
+      offRoute: detourMiles > OFF_ROUTE_DETOUR_MILES,
+    };
+  });
+
+  const finalLeg = roadMiles(previous, end);
+  const stopMinutes = pickups.length > 0 ? PICKUP_STOP_MINUTES : 0;
+
+  return {
+    pickups,
+    unlocated: bookings.filter((booking) => toPoint(booking) === null),
+    totalMiles: Math.round(miles + finalLeg),
+    minutesToDestination: Math.round(minutes + stopMinutes + (finalLeg / AVERAGE_SPEED_MPH) * 60),
+  };
+}
+
+/**
+ * Local date-time a number of minutes after a ride's departure.
+ */
+export function addMinutesToDeparture(
+  departureDate: string,
+  departureTime: string,
+  minutes: number
+): Date {
+  const departure = new Date(`${departureDate}T${departureTime.slice(0, 5)}:00`);
+  return new Date(departure.getTime() + minutes * 60_000);
+}
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+export const COMMUNITY_EVENT_TYPES = [
+  'ski_day',
+  'hike',
+  'meetup',
+  'festival',
+  'volunteer',
+  'other',
+] as const;
+
+/**
+ * Upper bound on attendees per event (matches the community_events check constraint).
+ */
+export const MAX_EVENT_PARTICIPANTS = 500;
+
+const eventFields = {
+  title: z.string().trim().min(3, 'Title must be at least 3 characters').max(120),
+  description: z.string().trim().max(2000).nullable().optional(),
+  event_type: z.enum(COMMUNITY_EVENT_TYPES).optional(),
+  event_date: z.iso.datetime({ offset: true, message: 'Invalid event date' }),
+  location: z.string().trim().min(3, 'Location must be at least 3 characters').max(200),
+  max_participants: z
+    .number()
+    .int('Participant limit must be a whole number')
+    .min(1, 'Allow at least 1 participant')
+    .max(MAX_EVENT_PARTICIPANTS, `Allow at most ${MAX_EVENT_PARTICIPANTS} participants`)
+    .optional(),
+};
+
+const isInFuture = (data: { event_date?: string }) =>
+  data.event_date === undefined || new Date(data.event_date).getTime() > Date.now();
+
+/**
+ * Body of POST /api/community/events.
+ */
+export const createCommunityEventSchema = z.object(eventFields).refine(isInFuture, {
+  message: 'Event date must be in the future',
+  path: ['event_date'],
+});
+
+/**
+ * Body of PATCH /api/community/events/[eventId]: the organizer editing or
+ * cancelling an event.
+ */
+export const updateCommunityEventSchema = z
+  .object({
+    ...eventFields,
+    status: z.enum(['active', 'cancelled']),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, { message: 'Nothing to update' })
+  .refine(isInFuture, { message: 'Event date must be in the future', path: ['event_date'] });
+
+export type CreateCommunityEventInput = z.infer<typeof createCommunityEventSchema>;
+export type UpdateCommunityEventInput = z.infer<typeof updateCommunityEventSchema>;
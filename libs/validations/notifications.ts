@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+/**
+ * Body of PATCH /api/notifications: mark specific notifications read, or all of them.
+ */
+export const markNotificationsReadSchema = z.union([
+  z.object({ ids: z.array(z.uuid()).min(1).max(100) }),
+  z.object({ all: z.literal(true) }),
+]);
+
+export type MarkNotificationsReadInput = z.infer<typeof markNotificationsReadSchema>;
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+export const COMMUNITY_PLACE_TYPES = ['park_and_ride', 'resort_lot', 'transit_station'] as const;
+
+export const WINTER_ACCESS_LEVELS = [
+  'year_round',
+  'chains',
+  'limited',
+  'closed',
+  'unknown',
+] as const;
+
+/**
+ * Upper bound on photos per place (matches the community_places check constraint).
+ */
+export const MAX_PLACE_PHOTOS = 6;
+
+const placeFields = {
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100),
+  place_type: z.enum(COMMUNITY_PLACE_TYPES),
+  address: z.string().trim().min(3, 'Address must be at least 3 characters').max(200),
+  description: z.string().trim().max(1000).nullable().optional(),
+  parking_notes: z.string().trim().max(1000).nullable().optional(),
+  winter_access: z.enum(WINTER_ACCESS_LEVELS).optional(),
+  photo_urls: z
+    .array(z.url('Invalid photo URL'))
+    .max(MAX_PLACE_PHOTOS, `Add at most ${MAX_PLACE_PHOTOS} photos`)
+    .optional(),
+  lat: z.number().min(-90).max(90).nullable().optional(),
+  lng: z.number().min(-180).max(180).nullable().optional(),
+};
+
+const hasBothOrNeitherCoordinate = (data: { lat?: number | null; lng?: number | null }) =>
+  (data.lat == null) === (data.lng == null);
+
+/**
+ * Body of POST /api/community/places. Without coordinates the address is geocoded.
+ */
+export const createCommunityPlaceSchema = z.object(placeFields).refine(hasBothOrNeitherCoordinate, {
+  message: 'Provide both latitude and longitude',
+  path: ['lng'],
+});
+
+/**
+ * Body of PATCH /api/community/places/[placeId]: an admin editing or reviewing a place.
+ */
+export const updateCommunityPlaceSchema = z
+  .object({
+    ...placeFields,
+    status: z.enum(['pending', 'approved', 'rejected']),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, { message: 'Nothing to update' })
+  .refine(hasBothOrNeitherCoordinate, {
+    message: 'Provide both latitude and longitude',
+    path: ['lng'],
+  });
+
+export type CreateCommunityPlaceInput = z.infer<typeof createCommunityPlaceSchema>;
+export type UpdateCommunityPlaceInput = z.infer<typeof updateCommunityPlaceSchema>;
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+/**
+ * A dispute is pending until an admin keeps or hides the review.
+ */
+export const REVIEW_DISPUTE_STATUSES = ['pending', 'kept', 'hidden'] as const;
+
+/**
+ * Body of POST /api/reviews/[id]/response: the reviewee's public reply.
+ */
+export const reviewResponseSchema = z.object({
+  body: z.string().trim().min(1, 'Response cannot be empty').max(1000),
+});
+
+/**
+ * Body of POST /api/reviews/[id]/dispute: why the reviewee is contesting the review.
+ */
+export const reviewDisputeSchema = z.object({
+  reason: z.string().trim().min(10, 'Reason must be at least 10 characters').max(1000),
+});
+
+/**
+ * Body of PATCH /api/reviews/[id]/dispute: an admin keeping or hiding the review.
+ */
+export const resolveReviewDisputeSchema = z.object({
+  decision: z.enum(['kept', 'hidden']),
+});
+
+export type ReviewResponseInput = z.infer<typeof reviewResponseSchema>;
+export type ReviewDisputeInput = z.infer<typeof reviewDisputeSchema>;
+export type ResolveReviewDisputeInput = z.infer<typeof resolveReviewDisputeSchema>;
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+/**
+ * Upper bound on saved searches per member, so alert matching stays cheap.
+ */
+export const MAX_SAVED_SEARCHES = 20;
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format');
+
+const locationFilterSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  radius: z.number().int().min(1).max(500),
+  label: z.string().trim().max(120).optional(),
+});
+
+/**
+ * Body of POST /api/community/saved-searches.
+ */
+export const createSavedSearchSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    departure: locationFilterSchema.nullable().optional(),
+    destination: locationFilterSchema.nullable().optional(),
+    date_from: dateSchema.nullable().optional(),
+    date_to: dateSchema.nullable().optional(),
+    posting_type: z.enum(['driver', 'passenger', 'flexible']).nullable().optional(),
+    requires_awd: z.boolean().optional(),
+  })
+  .refine((data) => !data.date_from || !data.date_to || data.date_to >= data.date_from, {
+    message: 'End date must be on or after the start date',
+    path: ['date_to'],
+  });
+
+/**
+ * Body of PATCH /api/community/saved-searches/[id].
+ */
+export const updateSavedSearchSchema = z.object({
+  status: z.enum(['active', 'paused']),
+});
+
+/**
+ * Body of PATCH /api/community/saved-searches/alerts. Without a search id, every
+ * unread alert is marked as seen.
+ */
+export const markSavedSearchAlertsReadSchema = z.object({
+  saved_search_id: z
+    .string()
+    .regex(
+      /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+      'Invalid UUID format'
+    )
+    .optional(),
+});
+
+export type CreateSavedSearchSchema = z.infer<typeof createSavedSearchSchema>;
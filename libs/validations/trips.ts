@@ -1,5 +1,16 @@
 import { z } from 'zod';
 
+/**
+ * Upper bound on seats a single passenger request may ask for (matches the ride form's seat limit).
+ */
+export const MAX_SEATS_PER_BOOKING = 10;
+
+const seatCountSchema = z
+  .number()
+  .int('Seat count must be a whole number')
+  .min(1, 'Request at least 1 seat')
+  .max(MAX_SEATS_PER_BOOKING, `You can request at most ${MAX_SEATS_PER_BOOKING} seats`);
+
 export const createTripBookingSchema = z.object({
   ride_id: z
     .string()
@@ -8,13 +19,27 @@ export const createTripBookingSchema = z.object({
       'Invalid UUID format'
     ),
   pickup_location: z.string().min(3, 'Pickup location must be at least 3 characters').max(100),
+  // An approved community place; its name and coordinates replace pickup_location
+  pickup_community_place_id: z.uuid('Invalid place ID').optional(),
   pickup_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format'),
   pickup_time: z.string().regex(/^\d{2}:\d{2}$/, 'Invalid time format'),
   passenger_notes: z.string().max(500).optional(),
+  seats_requested: seatCountSchema.optional(),
+});
+
+/**
+ * Body of PATCH /api/trips/bookings/[bookingId].
+ * `seats` lets a driver approve fewer seats than the passenger requested.
+ */
+export const tripBookingActionSchema = z.object({
+  action: z.enum(['approve', 'deny', 'cancel']),
+  seats: seatCountSchema.optional(),
 });
 
 export const updateTripBookingSchema = z.object({
-  status: z.enum(['pending', 'confirmed', 'cancelled', 'completed', 'invited']).optional(),
+  status: z
+    .enum(['pending', 'confirmed', 'cancelled', 'completed', 'invited', 'waitlisted'])
+    .optional(),
   pickup_location: z.string().min(3).max(100).optional(),
   pickup_time: z
     .string()
@@ -23,5 +48,30 @@ export const updateTripBookingSchema = z.object({
   driver_notes: z.string().max(500).optional(),
 });
 
+/**
+ * Body of PATCH /api/trips/plan/[rideId]: pickup times the driver proposes from the trip plan.
+ */
+export const proposePickupTimesSchema = z.object({
+  proposals: z
+    .array(
+      z.object({
+        booking_id: z.uuid('Invalid booking ID'),
+        pickup_time: z.iso.datetime({ offset: true, message: 'Invalid pickup time' }),
+      })
+    )
+    .min(1, 'Propose at least one pickup time')
+    .max(50),
+});
+
+/**
+ * Body of PATCH /api/trips/bookings/[bookingId]/pickup-time: the passenger's answer to a proposed pickup time.
+ */
+export const pickupTimeResponseSchema = z.object({
+  response: z.enum(['accept', 'decline']),
+});
+
 export type CreateTripBookingInput = z.infer<typeof createTripBookingSchema>;
+export type TripBookingActionInput = z.infer<typeof tripBookingActionSchema>;
 export type UpdateTripBookingInput = z.infer<typeof updateTripBookingSchema>;
+export type ProposePickupTimesInput = z.infer<typeof proposePickupTimesSchema>;
+export type PickupTimeResponseInput = z.infer<typeof pickupTimeResponseSchema>;
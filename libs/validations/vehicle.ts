@@ -31,6 +31,12 @@ export const vehicleSchema = z.object({
     .optional()
     .or(z.literal('')),
   drivetrain: z.enum(['FWD', 'RWD', 'AWD', '4WD']).optional(),
+  mpg: z
+    .number()
+    .positive('MPG must be greater than 0')
+    .max(200, 'MPG must be 200 or less')
+    .nullable()
+    .optional(),
 });
 
 export type VehicleSchema = z.infer<typeof vehicleSchema>;
@@ -0,0 +1,17 @@
+/**
+ * Print the place catalog (libs/placeCatalog.ts) as the SQL VALUES rows used
+ * by the ride place backfill migration.
+ * Run with: npx tsx scripts/generate-place-catalog-sql.ts
+ *
+ * Migrations that have run are never edited: after a catalog change, paste
+ * these rows into a new backfill migration.
+ */
+
+import { renderCatalogAliasRows, renderCatalogPlaceRows } from '../libs/placeCatalogSql';
+
+console.log('INSERT INTO catalog_places (id, name, lat, lng) VALUES');
+console.log(`${renderCatalogPlaceRows()};`);
+console.log();
+console.log('-- Aliases: SELECT pg_temp.place_key(alias), place_id FROM (VALUES');
+console.log(renderCatalogAliasRows());
+console.log(') AS aliases (place_id, alias)');
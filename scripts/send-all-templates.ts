@@ -52,6 +52,12 @@ async function sendAllTemplates() {
           /\{\{messagePreview\}\}/g,
           'Hey! Are you still available for the ride to Tahoe this weekend?'
         )
+        .replace(/\{\{messageCount\}\}/g, '2')
+        .replace(
+          /\{\{messageSummary\}\}/g,
+          '• Jane Smith (2 messages): "Hey! Are you still available for the ride to Tahoe this weekend?"'
+        )
+        .replace(/\{\{messageUrl\}\}/g, 'https://ridesharetahoe.com/messages')
         .replace(/\{\{meetingTitle\}\}/g, 'Ride to Lake Tahoe')
         .replace(/\{\{meetingDate\}\}/g, 'Saturday, January 15th')
         .replace(/\{\{meetingTime\}\}/g, '8:00 AM')
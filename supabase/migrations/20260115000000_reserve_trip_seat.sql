@@ -0,0 +1,150 @@
+-- Atomic seat reservation for trip bookings
+--
+-- Booking approvals and ride invitations used to read rides.available_seats and
+-- write the adjusted count in a second statement, so two drivers approving at the
+-- same time could overbook a car. reserve_trip_seat() locks the ride row, checks
+-- the transition, writes the booking status and adjusts the seat count in one
+-- transaction.
+--
+-- A booking holds a seat while it is 'confirmed' or 'invited'.
+--
+-- Outcomes returned in the JSON `outcome` field:
+--   ok                 - booking written and seats adjusted
+--   full               - not enough seats left on the ride
+--   already_booked     - the passenger already holds or requested a seat
+--   inactive           - the ride is no longer active
+--   not_found          - ride or booking does not exist
+--   forbidden          - caller is not a participant (or is banned)
+--   invalid_transition - the booking cannot move to the requested status
+
+CREATE OR REPLACE FUNCTION reserve_trip_seat(
+  p_ride_id UUID,
+  p_passenger_id UUID,
+  p_next_status TEXT,
+  p_pickup_location TEXT DEFAULT NULL,
+  p_pickup_time TIMESTAMPTZ DEFAULT NULL,
+  p_driver_notes TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_ride rides%ROWTYPE;
+  v_booking trip_bookings%ROWTYPE;
+  v_current_holds INTEGER := 0;
+  v_next_holds INTEGER := 0;
+  v_seat_delta INTEGER;
+BEGIN
+  -- Security: Require authentication
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_next_status NOT IN ('invited', 'confirmed', 'cancelled') THEN
+    RETURN json_build_object('outcome', 'invalid_transition');
+  END IF;
+
+  -- Banned users are blocked by RLS elsewhere; SECURITY DEFINER bypasses it here
+  IF COALESCE((SELECT is_banned FROM profiles WHERE id = v_uid), false) THEN
+    RETURN json_build_object('outcome', 'forbidden');
+  END IF;
+
+  -- Lock the ride row so concurrent reservations on the same ride serialize
+  SELECT * INTO v_ride
+  FROM rides
+  WHERE id = p_ride_id
+  FOR UPDATE;
+
+  IF v_ride.id IS NULL THEN
+    RETURN json_build_object('outcome', 'not_found');
+  END IF;
+
+  IF v_uid <> v_ride.poster_id AND v_uid <> p_passenger_id THEN
+    RETURN json_build_object('outcome', 'forbidden');
+  END IF;
+
+  SELECT * INTO v_booking
+  FROM trip_bookings
+  WHERE ride_id = p_ride_id AND passenger_id = p_passenger_id
+  FOR UPDATE;
+
+  IF p_next_status = 'invited' THEN
+    IF v_uid <> v_ride.poster_id OR p_passenger_id = v_ride.poster_id THEN
+      RETURN json_build_object('outcome', 'forbidden');
+    END IF;
+    IF v_ride.status <> 'active' THEN
+      RETURN json_build_object('outcome', 'inactive');
+    END IF;
+    IF v_booking.id IS NOT NULL AND v_booking.status <> 'cancelled' THEN
+      RETURN json_build_object('outcome', 'already_booked', 'booking_id', v_booking.id);
+    END IF;
+  ELSIF v_booking.id IS NULL THEN
+    RETURN json_build_object('outcome', 'not_found');
+  ELSIF p_next_status = 'confirmed' THEN
+    IF v_booking.status = 'confirmed' THEN
+      RETURN json_build_object('outcome', 'already_booked', 'booking_id', v_booking.id);
+    END IF;
+    -- Drivers approve requests; passengers accept invitations
+    IF NOT (
+      (v_booking.status = 'pending' AND v_uid = v_ride.poster_id)
+      OR (v_booking.status = 'invited' AND v_uid = p_passenger_id)
+    ) THEN
+      RETURN json_build_object('outcome', 'invalid_transition');
+    END IF;
+  ELSIF v_booking.status NOT IN ('pending', 'invited', 'confirmed') THEN
+    RETURN json_build_object('outcome', 'invalid_transition');
+  END IF;
+
+  IF v_booking.id IS NOT NULL AND v_booking.status IN ('confirmed', 'invited') THEN
+    v_current_holds := 1;
+  END IF;
+  IF p_next_status IN ('confirmed', 'invited') THEN
+    v_next_holds := 1;
+  END IF;
+  v_seat_delta := v_next_holds - v_current_holds;
+
+  IF v_seat_delta > 0
+    AND v_ride.available_seats IS NOT NULL
+    AND v_ride.available_seats < v_seat_delta THEN
+    RETURN json_build_object('outcome', 'full', 'available_seats', v_ride.available_seats);
+  END IF;
+
+  IF v_booking.id IS NULL THEN
+    INSERT INTO trip_bookings (
+      ride_id, driver_id, passenger_id, pickup_location, pickup_time, driver_notes, status
+    )
+    VALUES (
+      p_ride_id, v_ride.poster_id, p_passenger_id, p_pickup_location, p_pickup_time,
+      p_driver_notes, p_next_status
+    )
+    RETURNING * INTO v_booking;
+  ELSE
+    UPDATE trip_bookings
+    SET
+      status = p_next_status,
+      confirmed_at = CASE WHEN p_next_status = 'confirmed' THEN NOW() ELSE NULL END,
+      pickup_location = COALESCE(p_pickup_location, pickup_location),
+      pickup_time = COALESCE(p_pickup_time, pickup_time),
+      driver_notes = COALESCE(p_driver_notes, driver_notes)
+    WHERE id = v_booking.id
+    RETURNING * INTO v_booking;
+  END IF;
+
+  IF v_seat_delta <> 0 AND v_ride.available_seats IS NOT NULL THEN
+    UPDATE rides
+    SET available_seats = GREATEST(available_seats - v_seat_delta, 0)
+    WHERE id = p_ride_id
+    RETURNING * INTO v_ride;
+  END IF;
+
+  RETURN json_build_object(
+    'outcome', 'ok',
+    'booking_id', v_booking.id,
+    'status', v_booking.status,
+    'available_seats', v_ride.available_seats
+  );
+END;
+$$;
@@ -0,0 +1,179 @@
+-- Multi-seat bookings
+--
+-- A passenger can ask for several seats in one request (e.g. bringing a partner or
+-- kid), and the driver can approve all of them or only some.
+--
+-- 1. Add seats_requested / seats_confirmed to trip_bookings
+-- 2. Teach reserve_trip_seat() to reserve and release more than one seat
+
+-- 1. Seat counts per booking
+ALTER TABLE trip_bookings
+  ADD COLUMN IF NOT EXISTS seats_requested INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS seats_confirmed INTEGER;
+
+ALTER TABLE trip_bookings
+  ADD CONSTRAINT trip_bookings_seats_requested_check CHECK (seats_requested >= 1),
+  ADD CONSTRAINT trip_bookings_seats_confirmed_check CHECK (
+    seats_confirmed IS NULL OR (seats_confirmed >= 1 AND seats_confirmed <= seats_requested)
+  );
+
+-- Existing confirmed bookings held exactly one seat
+UPDATE trip_bookings SET seats_confirmed = 1 WHERE status IN ('confirmed', 'completed');
+
+-- 2. Seat-count aware reservation
+--
+-- A booking holds seats_requested seats while 'invited' and seats_confirmed seats
+-- while 'confirmed'. p_seats is the number of seats to invite or approve; when it
+-- is NULL, an invitation holds one seat and a confirmation takes every requested
+-- seat.
+--
+-- New outcome:
+--   invalid_seats - p_seats is below 1 or above the seats the passenger asked for
+
+DROP FUNCTION IF EXISTS reserve_trip_seat(UUID, UUID, TEXT, TEXT, TIMESTAMPTZ, TEXT);
+
+CREATE OR REPLACE FUNCTION reserve_trip_seat(
+  p_ride_id UUID,
+  p_passenger_id UUID,
+  p_next_status TEXT,
+  p_pickup_location TEXT DEFAULT NULL,
+  p_pickup_time TIMESTAMPTZ DEFAULT NULL,
+  p_driver_notes TEXT DEFAULT NULL,
+  p_seats INTEGER DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_ride rides%ROWTYPE;
+  v_booking trip_bookings%ROWTYPE;
+  v_current_seats INTEGER := 0;
+  v_next_seats INTEGER := 0;
+  v_seat_delta INTEGER;
+BEGIN
+  -- Security: Require authentication
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_next_status NOT IN ('invited', 'confirmed', 'cancelled') THEN
+    RETURN json_build_object('outcome', 'invalid_transition');
+  END IF;
+
+  -- Banned users are blocked by RLS elsewhere; SECURITY DEFINER bypasses it here
+  IF COALESCE((SELECT is_banned FROM profiles WHERE id = v_uid), false) THEN
+    RETURN json_build_object('outcome', 'forbidden');
+  END IF;
+
+  -- Lock the ride row so concurrent reservations on the same ride serialize
+  SELECT * INTO v_ride
+  FROM rides
+  WHERE id = p_ride_id
+  FOR UPDATE;
+
+  IF v_ride.id IS NULL THEN
+    RETURN json_build_object('outcome', 'not_found');
+  END IF;
+
+  IF v_uid <> v_ride.poster_id AND v_uid <> p_passenger_id THEN
+    RETURN json_build_object('outcome', 'forbidden');
+  END IF;
+
+  SELECT * INTO v_booking
+  FROM trip_bookings
+  WHERE ride_id = p_ride_id AND passenger_id = p_passenger_id
+  FOR UPDATE;
+
+  IF p_next_status = 'invited' THEN
+    IF v_uid <> v_ride.poster_id OR p_passenger_id = v_ride.poster_id THEN
+      RETURN json_build_object('outcome', 'forbidden');
+    END IF;
+    IF v_ride.status <> 'active' THEN
+      RETURN json_build_object('outcome', 'inactive');
+    END IF;
+    IF v_booking.id IS NOT NULL AND v_booking.status <> 'cancelled' THEN
+      RETURN json_build_object('outcome', 'already_booked', 'booking_id', v_booking.id);
+    END IF;
+    v_next_seats := COALESCE(p_seats, 1);
+    IF v_next_seats < 1 THEN
+      RETURN json_build_object('outcome', 'invalid_seats');
+    END IF;
+  ELSIF v_booking.id IS NULL THEN
+    RETURN json_build_object('outcome', 'not_found');
+  ELSIF p_next_status = 'confirmed' THEN
+    IF v_booking.status = 'confirmed' THEN
+      RETURN json_build_object('outcome', 'already_booked', 'booking_id', v_booking.id);
+    END IF;
+    -- Drivers approve requests; passengers accept invitations
+    IF NOT (
+      (v_booking.status = 'pending' AND v_uid = v_ride.poster_id)
+      OR (v_booking.status = 'invited' AND v_uid = p_passenger_id)
+    ) THEN
+      RETURN json_build_object('outcome', 'invalid_transition');
+    END IF;
+    v_next_seats := COALESCE(p_seats, v_booking.seats_requested);
+    IF v_next_seats < 1 OR v_next_seats > v_booking.seats_requested THEN
+      RETURN json_build_object('outcome', 'invalid_seats');
+    END IF;
+  ELSIF v_booking.status NOT IN ('pending', 'invited', 'confirmed') THEN
+    RETURN json_build_object('outcome', 'invalid_transition');
+  END IF;
+
+  IF v_booking.id IS NOT NULL THEN
+    v_current_seats := CASE v_booking.status
+      WHEN 'confirmed' THEN COALESCE(v_booking.seats_confirmed, v_booking.seats_requested)
+      WHEN 'invited' THEN v_booking.seats_requested
+      ELSE 0
+    END;
+  END IF;
+  v_seat_delta := v_next_seats - v_current_seats;
+
+  IF v_seat_delta > 0
+    AND v_ride.available_seats IS NOT NULL
+    AND v_ride.available_seats < v_seat_delta THEN
+    RETURN json_build_object('outcome', 'full', 'available_seats', v_ride.available_seats);
+  END IF;
+
+  IF v_booking.id IS NULL THEN
+    INSERT INTO trip_bookings (
+      ride_id, driver_id, passenger_id, pickup_location, pickup_time, driver_notes, status,
+      seats_requested
+    )
+    VALUES (
+      p_ride_id, v_ride.poster_id, p_passenger_id, p_pickup_location, p_pickup_time,
+      p_driver_notes, p_next_status, v_next_seats
+    )
+    RETURNING * INTO v_booking;
+  ELSE
+    UPDATE trip_bookings
+    SET
+      status = p_next_status,
+      confirmed_at = CASE WHEN p_next_status = 'confirmed' THEN NOW() ELSE NULL END,
+      seats_requested = CASE WHEN p_next_status = 'invited' THEN v_next_seats ELSE seats_requested END,
+      seats_confirmed = CASE WHEN p_next_status = 'confirmed' THEN v_next_seats ELSE NULL END,
+      pickup_location = COALESCE(p_pickup_location, pickup_location),
+      pickup_time = COALESCE(p_pickup_time, pickup_time),
+      driver_notes = COALESCE(p_driver_notes, driver_notes)
+    WHERE id = v_booking.id
+    RETURNING * INTO v_booking;
+  END IF;
+
+  IF v_seat_delta <> 0 AND v_ride.available_seats IS NOT NULL THEN
+    UPDATE rides
+    SET available_seats = GREATEST(available_seats - v_seat_delta, 0)
+    WHERE id = p_ride_id
+    RETURNING * INTO v_ride;
+  END IF;
+
+  RETURN json_build_object(
+    'outcome', 'ok',
+    'booking_id', v_booking.id,
+    'status', v_booking.status,
+    'seats', v_next_seats,
+    'available_seats', v_ride.available_seats
+  );
+END;
+$$;
@@ -0,0 +1,261 @@
+-- Booking waitlist
+--
+-- When a ride is full, a passenger's request is queued instead of rejected. The
+-- queue is ordered per ride by waitlisted_at. Whenever seats are released, the
+-- first waitlisted passengers whose seat count fits are offered the seats as an
+-- invitation, which they accept or decline like any other invite.
+--
+-- 1. Allow 'waitlisted' bookings and record when they joined the queue
+-- 2. Let waitlisted passengers keep messaging the driver
+-- 3. Teach reserve_trip_seat() to cancel waitlisted bookings and promote the queue
+-- 4. get_waitlist_positions() so participants can see a passenger's place in line
+
+-- 1. Waitlisted status
+ALTER TABLE trip_bookings DROP CONSTRAINT IF EXISTS trip_bookings_status_check;
+ALTER TABLE trip_bookings ADD CONSTRAINT trip_bookings_status_check CHECK (
+  status IN ('pending', 'confirmed', 'cancelled', 'completed', 'invited', 'waitlisted')
+);
+
+ALTER TABLE trip_bookings ADD COLUMN IF NOT EXISTS waitlisted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_trip_bookings_waitlist
+  ON trip_bookings(ride_id, waitlisted_at)
+  WHERE status = 'waitlisted';
+
+-- 2. Waitlisted passengers count as an active booking for messaging
+CREATE OR REPLACE FUNCTION has_active_booking_with(other_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM trip_bookings
+    WHERE status IN ('pending', 'confirmed', 'invited', 'waitlisted')
+    AND (
+      (driver_id = (select auth.uid()) AND passenger_id = other_user_id)
+      OR
+      (passenger_id = (select auth.uid()) AND driver_id = other_user_id)
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, pg_temp;
+
+-- 3. Waitlist-aware reservation
+--
+-- Changes from the multi-seat version:
+--   - a driver can confirm a waitlisted booking directly when seats are free
+--   - a waitlisted booking can be cancelled (it holds no seats)
+--   - after seats are released, waitlisted bookings are invited in queue order
+--     while the ride stays active and has room; the result lists them under
+--     'promoted' so the caller can notify each passenger
+CREATE OR REPLACE FUNCTION reserve_trip_seat(
+  p_ride_id UUID,
+  p_passenger_id UUID,
+  p_next_status TEXT,
+  p_pickup_location TEXT DEFAULT NULL,
+  p_pickup_time TIMESTAMPTZ DEFAULT NULL,
+  p_driver_notes TEXT DEFAULT NULL,
+  p_seats INTEGER DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_ride rides%ROWTYPE;
+  v_booking trip_bookings%ROWTYPE;
+  v_waiting trip_bookings%ROWTYPE;
+  v_current_seats INTEGER := 0;
+  v_next_seats INTEGER := 0;
+  v_seat_delta INTEGER;
+  v_promoted JSON[] := ARRAY[]::JSON[];
+BEGIN
+  -- Security: Require authentication
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_next_status NOT IN ('invited', 'confirmed', 'cancelled') THEN
+    RETURN json_build_object('outcome', 'invalid_transition');
+  END IF;
+
+  -- Banned users are blocked by RLS elsewhere; SECURITY DEFINER bypasses it here
+  IF COALESCE((SELECT is_banned FROM profiles WHERE id = v_uid), false) THEN
+    RETURN json_build_object('outcome', 'forbidden');
+  END IF;
+
+  -- Lock the ride row so concurrent reservations on the same ride serialize
+  SELECT * INTO v_ride
+  FROM rides
+  WHERE id = p_ride_id
+  FOR UPDATE;
+
+  IF v_ride.id IS NULL THEN
+    RETURN json_build_object('outcome', 'not_found');
+  END IF;
+
+  IF v_uid <> v_ride.poster_id AND v_uid <> p_passenger_id THEN
+    RETURN json_build_object('outcome', 'forbidden');
+  END IF;
+
+  SELECT * INTO v_booking
+  FROM trip_bookings
+  WHERE ride_id = p_ride_id AND passenger_id = p_passenger_id
+  FOR UPDATE;
+
+  IF p_next_status = 'invited' THEN
+    IF v_uid <> v_ride.poster_id OR p_passenger_id = v_ride.poster_id THEN
+      RETURN json_build_object('outcome', 'forbidden');
+    END IF;
+    IF v_ride.status <> 'active' THEN
+      RETURN json_build_object('outcome', 'inactive');
+    END IF;
+    IF v_booking.id IS NOT NULL AND v_booking.status <> 'cancelled' THEN
+      RETURN json_build_object('outcome', 'already_booked', 'booking_id', v_booking.id);
+    END IF;
+    v_next_seats := COALESCE(p_seats, 1);
+    IF v_next_seats < 1 THEN
+      RETURN json_build_object('outcome', 'invalid_seats');
+    END IF;
+  ELSIF v_booking.id IS NULL THEN
+    RETURN json_build_object('outcome', 'not_found');
+  ELSIF p_next_status = 'confirmed' THEN
+    IF v_booking.status = 'confirmed' THEN
+      RETURN json_build_object('outcome', 'already_booked', 'booking_id', v_booking.id);
+    END IF;
+    -- Drivers approve requests and waitlisted riders; passengers accept invitations
+    IF NOT (
+      (v_booking.status IN ('pending', 'waitlisted') AND v_uid = v_ride.poster_id)
+      OR (v_booking.status = 'invited' AND v_uid = p_passenger_id)
+    ) THEN
+      RETURN json_build_object('outcome', 'invalid_transition');
+    END IF;
+    v_next_seats := COALESCE(p_seats, v_booking.seats_requested);
+    IF v_next_seats < 1 OR v_next_seats > v_booking.seats_requested THEN
+      RETURN json_build_object('outcome', 'invalid_seats');
+    END IF;
+  ELSIF v_booking.status NOT IN ('pending', 'invited', 'confirmed', 'waitlisted') THEN
+    RETURN json_build_object('outcome', 'invalid_transition');
+  END IF;
+
+  IF v_booking.id IS NOT NULL THEN
+    v_current_seats := CASE v_booking.status
+      WHEN 'confirmed' THEN COALESCE(v_booking.seats_confirmed, v_booking.seats_requested)
+      WHEN 'invited' THEN v_booking.seats_requested
+      ELSE 0
+    END;
+  END IF;
+  v_seat_delta := v_next_seats - v_current_seats;
+
+  IF v_seat_delta > 0
+    AND v_ride.available_seats IS NOT NULL
+    AND v_ride.available_seats < v_seat_delta THEN
+    RETURN json_build_object('outcome', 'full', 'available_seats', v_ride.available_seats);
+  END IF;
+
+  IF v_booking.id IS NULL THEN
+    INSERT INTO trip_bookings (
+      ride_id, driver_id, passenger_id, pickup_location, pickup_time, driver_notes, status,
+      seats_requested
+    )
+    VALUES (
+      p_ride_id, v_ride.poster_id, p_passenger_id, p_pickup_location, p_pickup_time,
+      p_driver_notes, p_next_status, v_next_seats
+    )
+    RETURNING * INTO v_booking;
+  ELSE
+    UPDATE trip_bookings
+    SET
+      status = p_next_status,
+      confirmed_at = CASE WHEN p_next_status = 'confirmed' THEN NOW() ELSE NULL END,
+      seats_requested = CASE WHEN p_next_status = 'invited' THEN v_next_seats ELSE seats_requested END,
+      seats_confirmed = CASE WHEN p_next_status = 'confirmed' THEN v_next_seats ELSE NULL END,
+      waitlisted_at = NULL,
+      pickup_location = COALESCE(p_pickup_location, pickup_location),
+      pickup_time = COALESCE(p_pickup_time, pickup_time),
+      driver_notes = COALESCE(p_driver_notes, driver_notes)
+    WHERE id = v_booking.id
+    RETURNING * INTO v_booking;
+  END IF;
+
+  IF v_seat_delta <> 0 AND v_ride.available_seats IS NOT NULL THEN
+    UPDATE rides
+    SET available_seats = GREATEST(available_seats - v_seat_delta, 0)
+    WHERE id = p_ride_id
+    RETURNING * INTO v_ride;
+  END IF;
+
+  -- Offer released seats to the waitlist, oldest first, skipping riders who need
+  -- more seats than are free
+  IF v_seat_delta < 0 AND v_ride.status = 'active' AND v_ride.available_seats IS NOT NULL THEN
+    FOR v_waiting IN
+      SELECT *
+      FROM trip_bookings
+      WHERE ride_id = p_ride_id AND status = 'waitlisted'
+      ORDER BY waitlisted_at, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_ride.available_seats <= 0;
+      CONTINUE WHEN v_waiting.seats_requested > v_ride.available_seats;
+
+      UPDATE trip_bookings
+      SET status = 'invited', waitlisted_at = NULL
+      WHERE id = v_waiting.id;
+
+      UPDATE rides
+      SET available_seats = available_seats - v_waiting.seats_requested
+      WHERE id = p_ride_id
+      RETURNING * INTO v_ride;
+
+      v_promoted := v_promoted || json_build_object(
+        'booking_id', v_waiting.id,
+        'passenger_id', v_waiting.passenger_id,
+        'seats', v_waiting.seats_requested
+      );
+    END LOOP;
+  END IF;
+
+  RETURN json_build_object(
+    'outcome', 'ok',
+    'booking_id', v_booking.id,
+    'status', v_booking.status,
+    'seats', v_next_seats,
+    'available_seats', v_ride.available_seats,
+    'promoted', array_to_json(v_promoted)
+  );
+END;
+$$;
+
+-- 4. Queue positions
+--
+-- Passengers cannot read other passengers' bookings, so positions are computed
+-- here. Only bookings the caller drives or rides on are returned.
+CREATE OR REPLACE FUNCTION get_waitlist_positions(p_booking_ids UUID[])
+RETURNS TABLE (booking_id UUID, waitlist_position INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  -- Security: Require authentication
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  RETURN QUERY
+  SELECT queue.id, queue.position::INTEGER
+  FROM (
+    SELECT
+      tb.id,
+      tb.driver_id,
+      tb.passenger_id,
+      ROW_NUMBER() OVER (PARTITION BY tb.ride_id ORDER BY tb.waitlisted_at, tb.created_at) AS position
+    FROM trip_bookings tb
+    WHERE tb.status = 'waitlisted'
+      AND tb.ride_id IN (SELECT ride_id FROM trip_bookings WHERE id = ANY(p_booking_ids))
+  ) queue
+  WHERE queue.id = ANY(p_booking_ids)
+    AND auth.uid() IN (queue.driver_id, queue.passenger_id);
+END;
+$$;
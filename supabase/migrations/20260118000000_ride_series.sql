@@ -0,0 +1,229 @@
+-- Recurring ride series
+--
+-- A recurring ride (e.g. a weekly Friday ski run) is stored as a ride_series plus
+-- one concrete `rides` row per date. Each occurrence is an ordinary ride, so it has
+-- its own seats, bookings and conversations, and the listing keeps showing the
+-- series after its first date.
+--
+-- 1. ride_series table with the weekly schedule
+-- 2. Link occurrences to their series
+-- 3. RLS
+-- 4. materialize_ride_series() keeps the next weeks_ahead weeks of occurrences posted
+-- 5. update_ride_series_occurrences() applies a series-wide edit atomically
+
+-- 1. Series schedule
+CREATE TABLE IF NOT EXISTS ride_series (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  poster_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  -- Lowercase weekday names, matching rides.recurring_days
+  recurring_days TEXT[] NOT NULL CHECK (cardinality(recurring_days) > 0),
+  departure_time TIME NOT NULL,
+  starts_on DATE NOT NULL,
+  ends_on DATE,
+  weeks_ahead INTEGER NOT NULL DEFAULT 8 CHECK (weeks_ahead BETWEEN 1 AND 26),
+  status TEXT DEFAULT 'active' CHECK (status IN ('active', 'cancelled')) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ride_series_poster_id ON ride_series(poster_id);
+
+CREATE OR REPLACE TRIGGER update_ride_series_updated_at BEFORE UPDATE ON ride_series FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Occurrences
+--
+-- is_series_exception marks an occurrence that was edited on its own, so it is no
+-- longer used as the template for new occurrences.
+ALTER TABLE rides
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES ride_series(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS is_series_exception BOOLEAN DEFAULT false NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rides_series_occurrence
+  ON rides(series_id, departure_date)
+  WHERE series_id IS NOT NULL;
+
+-- 3. RLS
+ALTER TABLE ride_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view ride series" ON ride_series
+  FOR SELECT USING (true);
+CREATE POLICY "Users can create their own ride series" ON ride_series
+  FOR INSERT WITH CHECK ((select auth.uid()) = poster_id);
+CREATE POLICY "Users can update their own ride series" ON ride_series
+  FOR UPDATE USING ((select auth.uid()) = poster_id);
+CREATE POLICY "Users can delete their own ride series" ON ride_series
+  FOR DELETE USING ((select auth.uid()) = poster_id);
+CREATE POLICY "Banned users cannot insert ride series" ON ride_series
+  AS RESTRICTIVE
+  FOR INSERT WITH CHECK (
+    (select is_banned from profiles where id = (select auth.uid())) = false
+  );
+
+-- 4. Rolling window of occurrences
+--
+-- Posts the occurrences between today and weeks_ahead weeks from today that fall
+-- after the series' latest occurrence, copying ride details from the latest
+-- occurrence that was not edited on its own. Only dates after the latest existing
+-- occurrence are considered, so an occurrence the driver deleted is not recreated.
+--
+-- p_series_id NULL extends every active series and is reserved for the service
+-- role (cron). Returns the number of occurrences created.
+CREATE OR REPLACE FUNCTION materialize_ride_series(p_series_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_series ride_series%ROWTYPE;
+  v_template rides%ROWTYPE;
+  v_last_date DATE;
+  v_day DATE;
+  v_window_end DATE;
+  v_created INTEGER := 0;
+  v_inserted INTEGER;
+BEGIN
+  -- Security: Require authentication (or the service role for all series)
+  IF v_uid IS NULL AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_series_id IS NULL AND v_uid IS NOT NULL THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  FOR v_series IN
+    SELECT *
+    FROM ride_series
+    WHERE status = 'active'
+      AND (p_series_id IS NULL OR id = p_series_id)
+    FOR UPDATE
+  LOOP
+    IF v_uid IS NOT NULL AND v_uid <> v_series.poster_id THEN
+      RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    SELECT * INTO v_template
+    FROM rides
+    WHERE series_id = v_series.id
+    ORDER BY is_series_exception, departure_date DESC
+    LIMIT 1;
+
+    CONTINUE WHEN v_template.id IS NULL;
+
+    SELECT MAX(departure_date) INTO v_last_date FROM rides WHERE series_id = v_series.id;
+
+    v_window_end := CURRENT_DATE + (v_series.weeks_ahead * 7) - 1;
+    IF v_series.ends_on IS NOT NULL THEN
+      v_window_end := LEAST(v_window_end, v_series.ends_on);
+    END IF;
+
+    v_day := GREATEST(v_last_date + 1, v_series.starts_on, CURRENT_DATE);
+    WHILE v_day <= v_window_end LOOP
+      IF to_char(v_day, 'FMday') = ANY(v_series.recurring_days) THEN
+        INSERT INTO rides (
+          poster_id, posting_type, start_location, end_location, start_lat, start_lng,
+          end_lat, end_lng, departure_date, departure_time, is_round_trip, is_recurring,
+          recurring_days, pricing_type, price_per_seat, gas_estimate, total_seats,
+          available_seats, car_type, has_awd, driving_arrangement, music_preference,
+          conversation_preference, title, description, special_instructions, status,
+          series_id
+        )
+        VALUES (
+          v_series.poster_id, v_template.posting_type, v_template.start_location,
+          v_template.end_location, v_template.start_lat, v_template.start_lng,
+          v_template.end_lat, v_template.end_lng, v_day, v_series.departure_time, false, true,
+          v_series.recurring_days, v_template.pricing_type, v_template.price_per_seat,
+          v_template.gas_estimate, v_template.total_seats,
+          CASE WHEN v_template.posting_type = 'driver' THEN v_template.total_seats ELSE NULL END,
+          v_template.car_type, v_template.has_awd, v_template.driving_arrangement,
+          v_template.music_preference, v_template.conversation_preference, v_template.title,
+          v_template.description, v_template.special_instructions, 'active', v_series.id
+        )
+        ON CONFLICT (series_id, departure_date) WHERE series_id IS NOT NULL DO NOTHING;
+
+        GET DIAGNOSTICS v_inserted = ROW_COUNT;
+        v_created := v_created + v_inserted;
+      END IF;
+      v_day := v_day + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+-- 5. Series-wide edits
+--
+-- Applies the edited fields in p_updates to the series' occurrences from
+-- p_from_date on, in a single statement so a failed row leaves none of them
+-- half updated. Keys that aren't ride columns are ignored, as are the fields
+-- each occurrence keeps for itself (date, seats left, status); a change to
+-- total_seats shifts each occurrence's available_seats by the same amount. A
+-- new departure time also becomes the series time for future occurrences.
+--
+-- Runs as the caller, so RLS limits it to the driver's own rides. Returns the
+-- number of occurrences updated.
+CREATE OR REPLACE FUNCTION update_ride_series_occurrences(
+  p_series_id UUID,
+  p_from_date DATE,
+  p_updates JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_assignments TEXT;
+  v_updated INTEGER;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM ride_series WHERE id = p_series_id AND poster_id = v_uid) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  SELECT string_agg(format('%I = u.%I', attname, attname), ', ')
+  INTO v_assignments
+  FROM pg_attribute
+  WHERE attrelid = 'public.rides'::regclass
+    AND attnum > 0
+    AND NOT attisdropped
+    AND attname IN (SELECT jsonb_object_keys(p_updates))
+    AND attname NOT IN (
+      'id', 'poster_id', 'created_at', 'updated_at', 'departure_date', 'series_id',
+      'available_seats', 'status', 'is_series_exception'
+    );
+
+  EXECUTE format(
+    'UPDATE rides AS r
+     SET %s
+       is_series_exception = false,
+       available_seats = CASE
+         WHEN $1 ? ''total_seats'' AND u.total_seats IS NOT NULL
+           AND r.total_seats IS NOT NULL AND r.available_seats IS NOT NULL
+         THEN GREATEST(r.available_seats + u.total_seats - r.total_seats, 0)
+         ELSE r.available_seats
+       END
+     FROM jsonb_populate_record(NULL::rides, $1) AS u
+     WHERE r.series_id = $2
+       AND r.departure_date >= $3',
+    COALESCE(v_assignments || ',', '')
+  )
+  USING p_updates, p_series_id, p_from_date;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  IF p_updates->>'departure_time' IS NOT NULL THEN
+    UPDATE ride_series
+    SET departure_time = (p_updates->>'departure_time')::TIME
+    WHERE id = p_series_id;
+  END IF;
+
+  RETURN v_updated;
+END;
+$$;
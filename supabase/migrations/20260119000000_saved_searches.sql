@@ -0,0 +1,171 @@
+-- Saved searches with new-ride alerts
+--
+-- Members can save the departure/destination filters they use on the community
+-- page, plus a date window, posting type and AWD requirement. When a matching
+-- ride is posted, an alert row is queued for each saved search it satisfies.
+-- Alerts double as the in-app notification and are emailed in batches by the
+-- process-saved-search-alerts cron.
+--
+-- 1. saved_searches table
+-- 2. saved_search_alerts table
+-- 3. RLS
+-- 4. Triggers that queue alerts for newly posted rides and for rides whose
+--    coordinates are filled in after posting
+
+-- 1. Saved searches
+--
+-- Location filters mirror LocationFilterType (lat, lng, radius in miles); a search
+-- may set either, both or neither.
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  departure_label TEXT,
+  departure_lat DOUBLE PRECISION,
+  departure_lng DOUBLE PRECISION,
+  departure_radius INTEGER CHECK (departure_radius > 0),
+  destination_label TEXT,
+  destination_lat DOUBLE PRECISION,
+  destination_lng DOUBLE PRECISION,
+  destination_radius INTEGER CHECK (destination_radius > 0),
+  date_from DATE,
+  date_to DATE,
+  -- NULL matches any posting type
+  posting_type TEXT CHECK (posting_type IN ('driver', 'passenger', 'flexible')),
+  requires_awd BOOLEAN DEFAULT false NOT NULL,
+  status TEXT DEFAULT 'active' CHECK (status IN ('active', 'paused')) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (date_to IS NULL OR date_from IS NULL OR date_to >= date_from),
+  CHECK ((departure_lat IS NULL) = (departure_lng IS NULL)),
+  CHECK ((destination_lat IS NULL) = (destination_lng IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_active
+  ON saved_searches(status)
+  WHERE status = 'active';
+
+CREATE OR REPLACE TRIGGER update_saved_searches_updated_at BEFORE UPDATE ON saved_searches FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Alerts
+--
+-- emailed_at is set once the alert went out in an email; read_at once the member
+-- saw it in the app.
+CREATE TABLE IF NOT EXISTS saved_search_alerts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  saved_search_id UUID REFERENCES saved_searches(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  ride_id UUID REFERENCES rides(id) ON DELETE CASCADE NOT NULL,
+  emailed_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (saved_search_id, ride_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_alerts_user_id ON saved_search_alerts(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_search_alerts_unemailed
+  ON saved_search_alerts(created_at)
+  WHERE emailed_at IS NULL;
+
+-- 3. RLS
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved searches" ON saved_searches
+  FOR SELECT USING ((select auth.uid()) = user_id);
+CREATE POLICY "Users can create their own saved searches" ON saved_searches
+  FOR INSERT WITH CHECK ((select auth.uid()) = user_id);
+CREATE POLICY "Users can update their own saved searches" ON saved_searches
+  FOR UPDATE USING ((select auth.uid()) = user_id);
+CREATE POLICY "Users can delete their own saved searches" ON saved_searches
+  FOR DELETE USING ((select auth.uid()) = user_id);
+
+-- Alerts are created by the trigger below; members can only read and dismiss them
+CREATE POLICY "Users can view their own saved search alerts" ON saved_search_alerts
+  FOR SELECT USING ((select auth.uid()) = user_id);
+CREATE POLICY "Users can update their own saved search alerts" ON saved_search_alerts
+  FOR UPDATE USING ((select auth.uid()) = user_id);
+
+-- 4. Queue alerts for new rides
+--
+-- Rides are often saved before their locations are geocoded, so the insert
+-- trigger alone would never match them against searches that filter on a
+-- location. The same check runs again when a ride's start or end coordinates go
+-- from missing to set. Alerts are unique per (search, ride), so a search that
+-- was already alerted when the ride was posted is not alerted again.
+--
+-- Distances use the haversine formula in miles, matching libs/distance.ts. Rides
+-- without coordinates never match a search that filters on that location. Banned
+-- posters and the member's own rides are skipped.
+CREATE OR REPLACE FUNCTION queue_saved_search_alerts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.status <> 'active' THEN
+    RETURN NEW;
+  END IF;
+
+  IF COALESCE((SELECT is_banned FROM profiles WHERE id = NEW.poster_id), false) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO saved_search_alerts (saved_search_id, user_id, ride_id)
+  SELECT s.id, s.user_id, NEW.id
+  FROM saved_searches s
+  WHERE s.status = 'active'
+    AND s.user_id <> NEW.poster_id
+    AND (s.posting_type IS NULL OR s.posting_type = NEW.posting_type)
+    AND (NOT s.requires_awd OR NEW.has_awd)
+    AND (s.date_from IS NULL OR NEW.departure_date >= s.date_from)
+    AND (s.date_to IS NULL OR NEW.departure_date <= s.date_to)
+    AND (
+      s.departure_lat IS NULL
+      OR (
+        NEW.start_lat IS NOT NULL AND NEW.start_lng IS NOT NULL
+        AND 3959 * 2 * asin(sqrt(LEAST(1,
+          power(sin(radians(NEW.start_lat - s.departure_lat) / 2), 2)
+          + cos(radians(s.departure_lat)) * cos(radians(NEW.start_lat))
+            * power(sin(radians(NEW.start_lng - s.departure_lng) / 2), 2)
+        ))) <= s.departure_radius
+      )
+    )
+    AND (
+      s.destination_lat IS NULL
+      OR (
+        NEW.end_lat IS NOT NULL AND NEW.end_lng IS NOT NULL
+        AND 3959 * 2 * asin(sqrt(LEAST(1,
+          power(sin(radians(NEW.end_lat - s.destination_lat) / 2), 2)
+          + cos(radians(s.destination_lat)) * cos(radians(NEW.end_lat))
+            * power(sin(radians(NEW.end_lng - s.destination_lng) / 2), 2)
+        ))) <= s.destination_radius
+      )
+    )
+  ON CONFLICT (saved_search_id, ride_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE TRIGGER queue_saved_search_alerts_on_ride_insert
+  AFTER INSERT ON rides
+  FOR EACH ROW EXECUTE FUNCTION queue_saved_search_alerts();
+
+-- A pair counts as filled in when either half was NULL before and both are set now
+CREATE OR REPLACE TRIGGER queue_saved_search_alerts_on_ride_geocode
+  AFTER UPDATE OF start_lat, start_lng, end_lat, end_lng ON rides
+  FOR EACH ROW
+  WHEN (
+    (
+      (OLD.start_lat IS NULL OR OLD.start_lng IS NULL)
+      AND NEW.start_lat IS NOT NULL AND NEW.start_lng IS NOT NULL
+    )
+    OR (
+      (OLD.end_lat IS NULL OR OLD.end_lng IS NULL)
+      AND NEW.end_lat IS NOT NULL AND NEW.end_lng IS NOT NULL
+    )
+  )
+  EXECUTE FUNCTION queue_saved_search_alerts();
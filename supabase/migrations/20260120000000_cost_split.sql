@@ -0,0 +1,105 @@
+-- Cost-split calculator
+--
+-- Drivers can record their vehicle's fuel economy, and a ride posted with
+-- pricing_type = 'split_costs' stores the breakdown its per-seat contribution was
+-- computed from (distance, fuel, tolls, parking and how it was split), so
+-- passengers can see where the number comes from.
+
+-- 1. Vehicle fuel economy (miles per gallon, or MPGe for electric vehicles)
+ALTER TABLE vehicles
+  ADD COLUMN IF NOT EXISTS mpg NUMERIC(5,1)
+    CHECK (mpg IS NULL OR (mpg > 0 AND mpg <= 200));
+
+-- 2. Cost breakdown stored with the ride
+ALTER TABLE rides
+  ADD COLUMN IF NOT EXISTS cost_breakdown JSONB;
+
+COMMENT ON COLUMN rides.cost_breakdown IS
+  'Split-cost estimate the per-seat price was computed from: distance_miles, mpg, gas_price, fuel_cost, tolls, parking, total_cost, split_between, per_seat.';
+
+-- 3. Carry the breakdown over to new occurrences of a recurring ride
+CREATE OR REPLACE FUNCTION materialize_ride_series(p_series_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_series ride_series%ROWTYPE;
+  v_template rides%ROWTYPE;
+  v_last_date DATE;
+  v_day DATE;
+  v_window_end DATE;
+  v_created INTEGER := 0;
+  v_inserted INTEGER;
+BEGIN
+  -- Security: Require authentication (or the service role for all series)
+  IF v_uid IS NULL AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_series_id IS NULL AND v_uid IS NOT NULL THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  FOR v_series IN
+    SELECT *
+    FROM ride_series
+    WHERE status = 'active'
+      AND (p_series_id IS NULL OR id = p_series_id)
+    FOR UPDATE
+  LOOP
+    IF v_uid IS NOT NULL AND v_uid <> v_series.poster_id THEN
+      RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    SELECT * INTO v_template
+    FROM rides
+    WHERE series_id = v_series.id
+    ORDER BY is_series_exception, departure_date DESC
+    LIMIT 1;
+
+    CONTINUE WHEN v_template.id IS NULL;
+
+    SELECT MAX(departure_date) INTO v_last_date FROM rides WHERE series_id = v_series.id;
+
+    v_window_end := CURRENT_DATE + (v_series.weeks_ahead * 7) - 1;
+    IF v_series.ends_on IS NOT NULL THEN
+      v_window_end := LEAST(v_window_end, v_series.ends_on);
+    END IF;
+
+    v_day := GREATEST(v_last_date + 1, v_series.starts_on, CURRENT_DATE);
+    WHILE v_day <= v_window_end LOOP
+      IF to_char(v_day, 'FMday') = ANY(v_series.recurring_days) THEN
+        INSERT INTO rides (
+          poster_id, posting_type, start_location, end_location, start_lat, start_lng,
+          end_lat, end_lng, departure_date, departure_time, is_round_trip, is_recurring,
+          recurring_days, pricing_type, price_per_seat, gas_estimate, cost_breakdown,
+          total_seats, available_seats, car_type, has_awd, driving_arrangement,
+          music_preference, conversation_preference, title, description,
+          special_instructions, status, series_id
+        )
+        VALUES (
+          v_series.poster_id, v_template.posting_type, v_template.start_location,
+          v_template.end_location, v_template.start_lat, v_template.start_lng,
+          v_template.end_lat, v_template.end_lng, v_day, v_series.departure_time, false, true,
+          v_series.recurring_days, v_template.pricing_type, v_template.price_per_seat,
+          v_template.gas_estimate, v_template.cost_breakdown, v_template.total_seats,
+          CASE WHEN v_template.posting_type = 'driver' THEN v_template.total_seats ELSE NULL END,
+          v_template.car_type, v_template.has_awd, v_template.driving_arrangement,
+          v_template.music_preference, v_template.conversation_preference, v_template.title,
+          v_template.description, v_template.special_instructions, 'active', v_series.id
+        )
+        ON CONFLICT (series_id, departure_date) WHERE series_id IS NOT NULL DO NOTHING;
+
+        GET DIAGNOSTICS v_inserted = ROW_COUNT;
+        v_created := v_created + v_inserted;
+      END IF;
+      v_day := v_day + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
@@ -0,0 +1,11 @@
+-- Pickup time proposals
+--
+-- Pickup times a driver adjusts from the trip plan are stored as a proposal on
+-- the booking. The booking's pickup_time only changes once the passenger
+-- accepts; accepting or declining clears the proposal.
+
+ALTER TABLE trip_bookings
+  ADD COLUMN IF NOT EXISTS proposed_pickup_time TIMESTAMPTZ;
+
+COMMENT ON COLUMN trip_bookings.proposed_pickup_time IS
+  'Pickup time the driver proposed from the trip plan, awaiting the passenger''s answer.';
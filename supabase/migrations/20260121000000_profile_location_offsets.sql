@@ -0,0 +1,40 @@
+-- Privacy offsets for profile map locations
+--
+-- display_lat/display_lng come from geocoding the member's street address. Maps
+-- never plot them directly: they add display_lat_offset/display_lng_offset and
+-- draw an approximate area instead. This trigger picks a fresh random offset
+-- (up to about half a mile) whenever the location changes, and the backfill
+-- gives existing profiles one.
+
+CREATE OR REPLACE FUNCTION set_profile_location_offset()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.display_lat IS NULL OR NEW.display_lng IS NULL THEN
+    NEW.display_lat_offset := NULL;
+    NEW.display_lng_offset := NULL;
+  ELSIF TG_OP = 'INSERT'
+    OR NEW.display_lat IS DISTINCT FROM OLD.display_lat
+    OR NEW.display_lng IS DISTINCT FROM OLD.display_lng
+    OR NEW.display_lat_offset IS NULL
+    OR NEW.display_lng_offset IS NULL THEN
+    -- 0.007° of latitude is roughly half a mile
+    NEW.display_lat_offset := (random() - 0.5) * 0.014;
+    NEW.display_lng_offset := (random() - 0.5) * 0.014 / GREATEST(cos(radians(NEW.display_lat)), 0.1);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS on_profile_location_change ON profiles;
+CREATE TRIGGER on_profile_location_change
+  BEFORE INSERT OR UPDATE OF display_lat, display_lng, display_lat_offset, display_lng_offset ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION set_profile_location_offset();
+
+-- Backfill: the trigger fills in the offsets
+UPDATE profiles
+SET display_lat_offset = NULL
+WHERE display_lat IS NOT NULL
+  AND display_lng IS NOT NULL
+  AND (display_lat_offset IS NULL OR display_lng_offset IS NULL);
@@ -0,0 +1,125 @@
+-- Server-side geocoding cache
+--
+-- /api/geocode and ride geocoding look places up through a pluggable provider
+-- (gazetteer, Nominatim or a stub). Every answer, including "not found", is
+-- stored here keyed by the normalized query so repeated lookups never leave the
+-- database. Only the service role reads and writes the cache.
+--
+-- 1. geocode_cache table
+-- 2. RLS
+-- 3. Trigger that clears ride coordinates when a ride's locations change
+-- 4. Queue of rides waiting for coordinates
+
+-- 1. Geocode cache
+--
+-- lat/lng are NULL for queries the provider couldn't place; those misses are
+-- retried once they are older than the miss TTL in libs/geocoder.
+CREATE TABLE IF NOT EXISTS geocode_cache (
+  query_key TEXT PRIMARY KEY CHECK (char_length(query_key) BETWEEN 1 AND 200),
+  query TEXT NOT NULL,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  display_name TEXT,
+  provider TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- 2. RLS: no policies, so only the service role can use the cache
+ALTER TABLE geocode_cache ENABLE ROW LEVEL SECURITY;
+
+-- 3. Stale ride coordinates
+--
+-- Rides are saved without coordinates and geocoded afterwards from the queue
+-- below. Editing a location without new coordinates clears the old ones so
+-- they get looked up again instead of pointing at the previous place.
+CREATE OR REPLACE FUNCTION clear_stale_ride_coordinates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.start_location IS DISTINCT FROM OLD.start_location
+    AND NEW.start_lat IS NOT DISTINCT FROM OLD.start_lat
+    AND NEW.start_lng IS NOT DISTINCT FROM OLD.start_lng THEN
+    NEW.start_lat := NULL;
+    NEW.start_lng := NULL;
+  END IF;
+
+  IF NEW.end_location IS DISTINCT FROM OLD.end_location
+    AND NEW.end_lat IS NOT DISTINCT FROM OLD.end_lat
+    AND NEW.end_lng IS NOT DISTINCT FROM OLD.end_lng THEN
+    NEW.end_lat := NULL;
+    NEW.end_lng := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS on_ride_location_change ON rides;
+CREATE TRIGGER on_ride_location_change
+  BEFORE UPDATE OF start_location, end_location ON rides
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_stale_ride_coordinates();
+
+-- 4. Ride geocoding queue
+--
+-- Every ride saved without all of its coordinates gets a job here, however it
+-- was saved: the ride forms, recurring series materialization or a direct
+-- insert. The geocode-rides cron works through the queue (libs/geocoder/rides)
+-- and /api/geocode/rides lets the ride forms ask for the poster's own jobs
+-- straight away. A job goes away once its ride has every coordinate; places
+-- that can't be found stop being retried after a few attempts.
+CREATE TABLE IF NOT EXISTS ride_geocode_jobs (
+  ride_id UUID PRIMARY KEY REFERENCES rides(id) ON DELETE CASCADE,
+  queued_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  last_attempted_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_ride_geocode_jobs_next
+  ON ride_geocode_jobs(last_attempted_at NULLS FIRST);
+
+-- No policies: only the service role works the queue
+ALTER TABLE ride_geocode_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION queue_ride_geocoding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.start_lat IS NOT NULL AND NEW.start_lng IS NOT NULL
+    AND NEW.end_lat IS NOT NULL AND NEW.end_lng IS NOT NULL THEN
+    DELETE FROM ride_geocode_jobs WHERE ride_id = NEW.id;
+  ELSIF TG_OP = 'INSERT'
+    OR NEW.start_location IS DISTINCT FROM OLD.start_location
+    OR NEW.end_location IS DISTINCT FROM OLD.end_location THEN
+    -- New places get a fresh set of attempts
+    INSERT INTO ride_geocode_jobs (ride_id)
+    VALUES (NEW.id)
+    ON CONFLICT (ride_id) DO UPDATE
+      SET queued_at = NOW(), attempts = 0, last_attempted_at = NULL;
+  ELSE
+    INSERT INTO ride_geocode_jobs (ride_id)
+    VALUES (NEW.id)
+    ON CONFLICT (ride_id) DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_ride_saved_queue_geocoding ON rides;
+CREATE TRIGGER on_ride_saved_queue_geocoding
+  AFTER INSERT OR UPDATE OF start_location, end_location, start_lat, start_lng, end_lat, end_lng
+  ON rides
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_ride_geocoding();
+
+-- Upcoming rides posted before the queue existed
+INSERT INTO ride_geocode_jobs (ride_id)
+SELECT id
+FROM rides
+WHERE departure_date >= CURRENT_DATE - 1
+  AND (start_lat IS NULL OR start_lng IS NULL OR end_lat IS NULL OR end_lng IS NULL)
+ON CONFLICT (ride_id) DO NOTHING;
@@ -0,0 +1,333 @@
+-- Ride place catalog
+--
+-- The ride form suggests places from a curated catalog (libs/placeCatalog.ts):
+-- ski resorts, trailheads, transit hubs, towns and common pickup points. A ride
+-- whose start or end was picked from the catalog stores the place id next to the
+-- location text, which is the place's canonical name. Custom addresses keep a
+-- NULL place id.
+--
+-- 1. Place id columns on rides
+-- 2. Carry the place ids over to new occurrences of a recurring ride
+-- 3. Backfill: map existing free-text locations onto catalog places
+
+-- 1. Place ids
+ALTER TABLE rides
+  ADD COLUMN IF NOT EXISTS start_place_id TEXT,
+  ADD COLUMN IF NOT EXISTS end_place_id TEXT;
+
+COMMENT ON COLUMN rides.start_place_id IS
+  'Id of the place catalog entry the start location was picked from (libs/placeCatalog.ts), or NULL for a custom address.';
+COMMENT ON COLUMN rides.end_place_id IS
+  'Id of the place catalog entry the end location was picked from (libs/placeCatalog.ts), or NULL for a custom address.';
+
+-- 2. Series occurrences copy the template's place ids
+CREATE OR REPLACE FUNCTION materialize_ride_series(p_series_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_series ride_series%ROWTYPE;
+  v_template rides%ROWTYPE;
+  v_last_date DATE;
+  v_day DATE;
+  v_window_end DATE;
+  v_created INTEGER := 0;
+  v_inserted INTEGER;
+BEGIN
+  -- Security: Require authentication (or the service role for all series)
+  IF v_uid IS NULL AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_series_id IS NULL AND v_uid IS NOT NULL THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  FOR v_series IN
+    SELECT *
+    FROM ride_series
+    WHERE status = 'active'
+      AND (p_series_id IS NULL OR id = p_series_id)
+    FOR UPDATE
+  LOOP
+    IF v_uid IS NOT NULL AND v_uid <> v_series.poster_id THEN
+      RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    SELECT * INTO v_template
+    FROM rides
+    WHERE series_id = v_series.id
+    ORDER BY is_series_exception, departure_date DESC
+    LIMIT 1;
+
+    CONTINUE WHEN v_template.id IS NULL;
+
+    SELECT MAX(departure_date) INTO v_last_date FROM rides WHERE series_id = v_series.id;
+
+    v_window_end := CURRENT_DATE + (v_series.weeks_ahead * 7) - 1;
+    IF v_series.ends_on IS NOT NULL THEN
+      v_window_end := LEAST(v_window_end, v_series.ends_on);
+    END IF;
+
+    v_day := GREATEST(v_last_date + 1, v_series.starts_on, CURRENT_DATE);
+    WHILE v_day <= v_window_end LOOP
+      IF to_char(v_day, 'FMday') = ANY(v_series.recurring_days) THEN
+        INSERT INTO rides (
+          poster_id, posting_type, start_location, end_location, start_place_id,
+          end_place_id, start_lat, start_lng, end_lat, end_lng, departure_date, departure_time, is_round_trip, is_recurring,
+          recurring_days, pricing_type, price_per_seat, gas_estimate, cost_breakdown,
+          total_seats, available_seats, car_type, has_awd, driving_arrangement,
+          music_preference, conversation_preference, title, description,
+          special_instructions, status, series_id
+        )
+        VALUES (
+          v_series.poster_id, v_template.posting_type, v_template.start_location,
+          v_template.end_location, v_template.start_place_id, v_template.end_place_id,
+          v_template.start_lat, v_template.start_lng,
+          v_template.end_lat, v_template.end_lng, v_day, v_series.departure_time, false, true,
+          v_series.recurring_days, v_template.pricing_type, v_template.price_per_seat,
+          v_template.gas_estimate, v_template.cost_breakdown, v_template.total_seats,
+          CASE WHEN v_template.posting_type = 'driver' THEN v_template.total_seats ELSE NULL END,
+          v_template.car_type, v_template.has_awd, v_template.driving_arrangement,
+          v_template.music_preference, v_template.conversation_preference, v_template.title,
+          v_template.description, v_template.special_instructions, 'active', v_series.id
+        )
+        ON CONFLICT (series_id, departure_date) WHERE series_id IS NOT NULL DO NOTHING;
+
+        GET DIAGNOSTICS v_inserted = ROW_COUNT;
+        v_created := v_created + v_inserted;
+      END IF;
+      v_day := v_day + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+-- 3. Backfill
+--
+-- A snapshot of the catalog as of this migration. The place and alias VALUES
+-- rows are printed by scripts/generate-place-catalog-sql.ts, and
+-- libs/placeCatalogSql.test.ts checks they still match the catalog.
+--
+-- Locations are compared the way placeKey() does it: lowercased, without
+-- periods or commas and without trailing state/country names, so "Squaw
+-- Valley, CA" matches the "squaw valley" alias of Palisades Tahoe.
+CREATE FUNCTION pg_temp.place_key(value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(
+    btrim(regexp_replace(regexp_replace(lower(value), '[.,]', ' ', 'g'), '\s+', ' ', 'g')),
+    '(\s+(ca|california|nv|nevada|usa|us|united states))+$',
+    ''
+  );
+$$;
+
+CREATE TEMP TABLE catalog_places (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  lat DOUBLE PRECISION NOT NULL,
+  lng DOUBLE PRECISION NOT NULL
+);
+
+INSERT INTO catalog_places (id, name, lat, lng) VALUES
+  ('san-francisco', 'San Francisco, CA', 37.7749, -122.4194),
+  ('oakland', 'Oakland, CA', 37.8044, -122.2712),
+  ('berkeley', 'Berkeley, CA', 37.8715, -122.273),
+  ('san-jose', 'San Jose, CA', 37.3382, -121.8863),
+  ('palo-alto', 'Palo Alto, CA', 37.4419, -122.143),
+  ('mountain-view', 'Mountain View, CA', 37.3861, -122.0839),
+  ('san-mateo', 'San Mateo, CA', 37.563, -122.3255),
+  ('walnut-creek', 'Walnut Creek, CA', 37.9101, -122.0652),
+  ('fremont', 'Fremont, CA', 37.5485, -121.9886),
+  ('santa-rosa', 'Santa Rosa, CA', 38.4404, -122.7141),
+  ('sacramento', 'Sacramento, CA', 38.5816, -121.4944),
+  ('davis', 'Davis, CA', 38.5449, -121.7405),
+  ('roseville', 'Roseville, CA', 38.7521, -121.288),
+  ('auburn', 'Auburn, CA', 38.8966, -121.0769),
+  ('placerville', 'Placerville, CA', 38.7296, -120.7985),
+  ('reno', 'Reno, NV', 39.5296, -119.8138),
+  ('lake-tahoe', 'Lake Tahoe', 39.0968, -120.0324),
+  ('truckee', 'Truckee, CA', 39.328, -120.1833),
+  ('tahoe-city', 'Tahoe City, CA', 39.1677, -120.1452),
+  ('kings-beach', 'Kings Beach, CA', 39.2377, -120.0266),
+  ('homewood', 'Homewood, CA', 39.0857, -120.161),
+  ('south-lake-tahoe', 'South Lake Tahoe, CA', 38.9399, -119.9772),
+  ('stateline', 'Stateline, NV', 38.9621, -119.9407),
+  ('incline-village', 'Incline Village, NV', 39.2513, -119.9727),
+  ('soda-springs', 'Soda Springs, CA', 39.3238, -120.3796),
+  ('palisades-tahoe', 'Palisades Tahoe', 39.1968, -120.2354),
+  ('alpine-meadows', 'Alpine Meadows', 39.1645, -120.2386),
+  ('northstar', 'Northstar California', 39.2746, -120.121),
+  ('heavenly', 'Heavenly Mountain Resort', 38.9353, -119.94),
+  ('kirkwood', 'Kirkwood Mountain Resort', 38.685, -120.0654),
+  ('sierra-at-tahoe', 'Sierra-at-Tahoe', 38.7993, -120.08),
+  ('sugar-bowl', 'Sugar Bowl', 39.3046, -120.3339),
+  ('boreal', 'Boreal Mountain', 39.3363, -120.3497),
+  ('diamond-peak', 'Diamond Peak', 39.2544, -119.9237),
+  ('mt-rose', 'Mt. Rose', 39.3285, -119.8855),
+  ('homewood-mountain-resort', 'Homewood Mountain Resort', 39.0857, -120.1681),
+  ('eagle-falls-trailhead', 'Eagle Falls Trailhead', 38.9526, -120.1119),
+  ('mt-tallac-trailhead', 'Mt. Tallac Trailhead', 38.9154, -120.0663),
+  ('echo-lakes-trailhead', 'Echo Lakes Trailhead', 38.8352, -120.0447),
+  ('tahoe-meadows-trailhead', 'Tahoe Meadows Trailhead', 39.3034, -119.907),
+  ('donner-pass-pct-trailhead', 'PCT Trailhead at Donner Pass', 39.3167, -120.3275),
+  ('castle-peak-trailhead', 'Castle Peak Trailhead', 39.34, -120.348),
+  ('sf-caltrain', 'San Francisco Caltrain (4th & King)', 37.7766, -122.3947),
+  ('salesforce-transit-center', 'Salesforce Transit Center', 37.7897, -122.3966),
+  ('millbrae-station', 'Millbrae BART/Caltrain', 37.6003, -122.3867),
+  ('macarthur-bart', 'MacArthur BART', 37.8287, -122.2671),
+  ('rockridge-bart', 'Rockridge BART', 37.8445, -122.2513),
+  ('walnut-creek-bart', 'Walnut Creek BART', 37.9055, -122.0675),
+  ('el-cerrito-del-norte-bart', 'El Cerrito del Norte BART', 37.9252, -122.3171),
+  ('dublin-pleasanton-bart', 'Dublin/Pleasanton BART', 37.7017, -121.8992),
+  ('sacramento-valley-station', 'Sacramento Valley Station', 38.5841, -121.5006),
+  ('truckee-depot', 'Truckee Amtrak Depot', 39.3275, -120.1855),
+  ('sfo', 'San Francisco International Airport (SFO)', 37.6213, -122.379),
+  ('oak', 'Oakland International Airport (OAK)', 37.7126, -122.2197),
+  ('sjc', 'San Jose International Airport (SJC)', 37.3639, -121.9289),
+  ('smf', 'Sacramento International Airport (SMF)', 38.6954, -121.5908),
+  ('rno', 'Reno-Tahoe International Airport (RNO)', 39.4991, -119.7681),
+  ('emeryville-ikea', 'IKEA Emeryville', 37.8312, -122.2903),
+  ('vacaville-outlets', 'Vacaville Premium Outlets', 38.3677, -121.9635),
+  ('folsom-outlets', 'Folsom Premium Outlets', 38.6491, -121.1888);
+
+CREATE TEMP TABLE catalog_keys (
+  key TEXT PRIMARY KEY,
+  place_id TEXT NOT NULL
+);
+
+INSERT INTO catalog_keys (key, place_id)
+SELECT pg_temp.place_key(name), id FROM catalog_places
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO catalog_keys (key, place_id)
+SELECT pg_temp.place_key(alias), place_id
+FROM (VALUES
+  ('san-francisco', 'sf'),
+  ('san-francisco', 'san fran'),
+  ('san-jose', 'sj'),
+  ('sacramento', 'sac'),
+  ('sacramento', 'sacto'),
+  ('lake-tahoe', 'tahoe'),
+  ('south-lake-tahoe', 'slt'),
+  ('south-lake-tahoe', 'south lake'),
+  ('south-lake-tahoe', 'south tahoe'),
+  ('incline-village', 'incline'),
+  ('soda-springs', 'donner summit'),
+  ('palisades-tahoe', 'palisades'),
+  ('palisades-tahoe', 'squaw'),
+  ('palisades-tahoe', 'squaw valley'),
+  ('palisades-tahoe', 'olympic valley'),
+  ('palisades-tahoe', 'palisades tahoe resort'),
+  ('alpine-meadows', 'alpine'),
+  ('alpine-meadows', 'palisades alpine'),
+  ('northstar', 'northstar'),
+  ('northstar', 'northstar resort'),
+  ('heavenly', 'heavenly'),
+  ('heavenly', 'heavenly valley'),
+  ('heavenly', 'heavenly ski resort'),
+  ('kirkwood', 'kirkwood'),
+  ('kirkwood', 'kirkwood resort'),
+  ('kirkwood', 'kirkwood ski resort'),
+  ('sierra-at-tahoe', 'sierra at tahoe'),
+  ('sugar-bowl', 'sugar bowl resort'),
+  ('sugar-bowl', 'sugarbowl'),
+  ('boreal', 'boreal'),
+  ('mt-rose', 'mt rose'),
+  ('mt-rose', 'mount rose'),
+  ('mt-rose', 'mt rose ski tahoe'),
+  ('homewood-mountain-resort', 'homewood resort'),
+  ('eagle-falls-trailhead', 'eagle falls'),
+  ('eagle-falls-trailhead', 'eagle lake trailhead'),
+  ('eagle-falls-trailhead', 'emerald bay trailhead'),
+  ('mt-tallac-trailhead', 'mt tallac'),
+  ('mt-tallac-trailhead', 'mount tallac'),
+  ('mt-tallac-trailhead', 'tallac trailhead'),
+  ('echo-lakes-trailhead', 'echo lakes'),
+  ('echo-lakes-trailhead', 'echo lake'),
+  ('tahoe-meadows-trailhead', 'tahoe meadows'),
+  ('tahoe-meadows-trailhead', 'tahoe rim trail tahoe meadows'),
+  ('donner-pass-pct-trailhead', 'donner pass'),
+  ('donner-pass-pct-trailhead', 'pct donner'),
+  ('donner-pass-pct-trailhead', 'donner pass trailhead'),
+  ('castle-peak-trailhead', 'castle peak'),
+  ('castle-peak-trailhead', 'castle pass'),
+  ('sf-caltrain', 'sf caltrain'),
+  ('sf-caltrain', 'caltrain sf'),
+  ('sf-caltrain', '4th and king'),
+  ('sf-caltrain', '4th & king'),
+  ('sf-caltrain', 'caltrain 4th and king'),
+  ('salesforce-transit-center', 'transbay terminal'),
+  ('salesforce-transit-center', 'transbay transit center'),
+  ('millbrae-station', 'millbrae bart'),
+  ('millbrae-station', 'millbrae caltrain'),
+  ('millbrae-station', 'millbrae station'),
+  ('macarthur-bart', 'macarthur'),
+  ('macarthur-bart', 'macarthur station'),
+  ('rockridge-bart', 'rockridge'),
+  ('el-cerrito-del-norte-bart', 'del norte bart'),
+  ('el-cerrito-del-norte-bart', 'el cerrito del norte'),
+  ('dublin-pleasanton-bart', 'dublin bart'),
+  ('dublin-pleasanton-bart', 'pleasanton bart'),
+  ('sacramento-valley-station', 'sacramento amtrak'),
+  ('sacramento-valley-station', 'sac amtrak'),
+  ('truckee-depot', 'truckee amtrak'),
+  ('truckee-depot', 'truckee train station'),
+  ('truckee-depot', 'truckee depot'),
+  ('sfo', 'sfo'),
+  ('sfo', 'sf airport'),
+  ('sfo', 'san francisco airport'),
+  ('oak', 'oak'),
+  ('oak', 'oakland airport'),
+  ('sjc', 'sjc'),
+  ('sjc', 'san jose airport'),
+  ('smf', 'smf'),
+  ('smf', 'sacramento airport'),
+  ('rno', 'rno'),
+  ('rno', 'reno airport'),
+  ('rno', 'reno tahoe airport'),
+  ('emeryville-ikea', 'emeryville ikea'),
+  ('vacaville-outlets', 'vacaville outlets'),
+  ('folsom-outlets', 'folsom outlets')
+) AS aliases (place_id, alias)
+ON CONFLICT (key) DO NOTHING;
+
+-- Canonical names first. Changing the text clears the old coordinates
+-- (on_ride_location_change), so the catalog's coordinates are set afterwards.
+UPDATE rides
+SET start_place_id = catalog_places.id,
+    start_location = catalog_places.name
+FROM catalog_keys
+JOIN catalog_places ON catalog_places.id = catalog_keys.place_id
+WHERE rides.start_place_id IS NULL
+  AND catalog_keys.key = pg_temp.place_key(rides.start_location);
+
+UPDATE rides
+SET end_place_id = catalog_places.id,
+    end_location = catalog_places.name
+FROM catalog_keys
+JOIN catalog_places ON catalog_places.id = catalog_keys.place_id
+WHERE rides.end_place_id IS NULL
+  AND catalog_keys.key = pg_temp.place_key(rides.end_location);
+
+UPDATE rides
+SET start_lat = catalog_places.lat,
+    start_lng = catalog_places.lng
+FROM catalog_places
+WHERE catalog_places.id = rides.start_place_id;
+
+UPDATE rides
+SET end_lat = catalog_places.lat,
+    end_lng = catalog_places.lng
+FROM catalog_places
+WHERE catalog_places.id = rides.end_place_id;
+
+DROP TABLE catalog_keys;
+DROP TABLE catalog_places;
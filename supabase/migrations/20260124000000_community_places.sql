@@ -0,0 +1,206 @@
+-- Community places
+--
+-- Meeting points members can depart from or be picked up at: park & rides,
+-- resort lots and transit stations. Admins add places directly; members
+-- suggest places, which stay pending until an admin approves them. Rides and
+-- bookings reference a place by id so the location text, coordinates and
+-- parking details all come from one row.
+--
+-- 1. community_places table
+-- 2. RLS
+-- 3. Place photos storage bucket
+-- 4. Place references on rides and trip_bookings
+-- 5. Carry the place references over to new occurrences of a recurring ride
+
+-- 1. Places
+--
+-- winter_access describes whether the place is reachable and plowed in winter;
+-- 'chains' means it is open but often behind chain controls.
+CREATE TABLE IF NOT EXISTS community_places (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 2 AND 100),
+  place_type TEXT NOT NULL CHECK (place_type IN ('park_and_ride', 'resort_lot', 'transit_station')),
+  description TEXT CHECK (char_length(description) <= 1000),
+  address TEXT NOT NULL CHECK (char_length(address) BETWEEN 3 AND 200),
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  parking_notes TEXT CHECK (char_length(parking_notes) <= 1000),
+  winter_access TEXT DEFAULT 'unknown' NOT NULL
+    CHECK (winter_access IN ('year_round', 'chains', 'limited', 'closed', 'unknown')),
+  photo_urls TEXT[] DEFAULT '{}' NOT NULL CHECK (cardinality(photo_urls) <= 6),
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'approved', 'rejected')),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK ((lat IS NULL) = (lng IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_community_places_status ON community_places(status);
+CREATE INDEX IF NOT EXISTS idx_community_places_created_by ON community_places(created_by);
+
+CREATE OR REPLACE TRIGGER update_community_places_updated_at BEFORE UPDATE ON community_places FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. RLS
+--
+-- Everyone signed in sees approved places; members also see their own
+-- suggestions. Only admins approve, reject or edit places.
+ALTER TABLE community_places ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Approved places are viewable by signed-in users" ON community_places
+  FOR SELECT USING (
+    status = 'approved'
+    OR (select auth.uid()) = created_by
+    OR (select is_admin from profiles where id = (select auth.uid())) = true
+  );
+CREATE POLICY "Users can suggest places" ON community_places
+  FOR INSERT WITH CHECK (
+    (select auth.uid()) = created_by
+    AND (
+      status = 'pending'
+      OR (select is_admin from profiles where id = (select auth.uid())) = true
+    )
+  );
+CREATE POLICY "Admins can update places" ON community_places
+  FOR UPDATE USING (
+    (select is_admin from profiles where id = (select auth.uid())) = true
+  );
+CREATE POLICY "Admins can delete places" ON community_places
+  FOR DELETE USING (
+    (select is_admin from profiles where id = (select auth.uid())) = true
+  );
+
+-- 3. Photos
+--
+-- Same layout as profile photos: each member uploads into a folder named after
+-- their user id.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('place-photos', 'place-photos', true) ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Place photos are public" ON storage.objects FOR
+SELECT USING (bucket_id = 'place-photos');
+CREATE POLICY "Authenticated users can upload their own place photos" ON storage.objects FOR
+INSERT WITH CHECK (
+    bucket_id = 'place-photos'
+    AND (select auth.uid())::text = (storage.foldername(name))[1]
+  );
+CREATE POLICY "Authenticated users can delete their own place photos" ON storage.objects FOR DELETE USING (
+  bucket_id = 'place-photos'
+  AND (select auth.uid())::text = (storage.foldername(name))[1]
+);
+
+-- 4. Place references
+--
+-- The location text stays filled in with the place name, so rides and
+-- bookings still read correctly if a place is later deleted.
+ALTER TABLE rides
+  ADD COLUMN IF NOT EXISTS start_community_place_id UUID REFERENCES community_places(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS end_community_place_id UUID REFERENCES community_places(id) ON DELETE SET NULL;
+
+ALTER TABLE trip_bookings
+  ADD COLUMN IF NOT EXISTS pickup_community_place_id UUID REFERENCES community_places(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rides_start_community_place_id
+  ON rides(start_community_place_id)
+  WHERE start_community_place_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_rides_end_community_place_id
+  ON rides(end_community_place_id)
+  WHERE end_community_place_id IS NOT NULL;
+
+COMMENT ON COLUMN rides.start_community_place_id IS
+  'Community place the ride departs from, or NULL for a catalog place or custom address.';
+COMMENT ON COLUMN rides.end_community_place_id IS
+  'Community place the ride ends at, or NULL for a catalog place or custom address.';
+COMMENT ON COLUMN trip_bookings.pickup_community_place_id IS
+  'Community place the passenger asked to be picked up at, or NULL for a custom pickup address.';
+
+-- 5. Series occurrences copy the template's place references
+CREATE OR REPLACE FUNCTION materialize_ride_series(p_series_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_series ride_series%ROWTYPE;
+  v_template rides%ROWTYPE;
+  v_last_date DATE;
+  v_day DATE;
+  v_window_end DATE;
+  v_created INTEGER := 0;
+  v_inserted INTEGER;
+BEGIN
+  -- Security: Require authentication (or the service role for all series)
+  IF v_uid IS NULL AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_series_id IS NULL AND v_uid IS NOT NULL THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  FOR v_series IN
+    SELECT *
+    FROM ride_series
+    WHERE status = 'active'
+      AND (p_series_id IS NULL OR id = p_series_id)
+    FOR UPDATE
+  LOOP
+    IF v_uid IS NOT NULL AND v_uid <> v_series.poster_id THEN
+      RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    SELECT * INTO v_template
+    FROM rides
+    WHERE series_id = v_series.id
+    ORDER BY is_series_exception, departure_date DESC
+    LIMIT 1;
+
+    CONTINUE WHEN v_template.id IS NULL;
+
+    SELECT MAX(departure_date) INTO v_last_date FROM rides WHERE series_id = v_series.id;
+
+    v_window_end := CURRENT_DATE + (v_series.weeks_ahead * 7) - 1;
+    IF v_series.ends_on IS NOT NULL THEN
+      v_window_end := LEAST(v_window_end, v_series.ends_on);
+    END IF;
+
+    v_day := GREATEST(v_last_date + 1, v_series.starts_on, CURRENT_DATE);
+    WHILE v_day <= v_window_end LOOP
+      IF to_char(v_day, 'FMday') = ANY(v_series.recurring_days) THEN
+        INSERT INTO rides (
+          poster_id, posting_type, start_location, end_location, start_place_id,
+          end_place_id, start_community_place_id, end_community_place_id, start_lat, start_lng,
+          end_lat, end_lng, departure_date, departure_time, is_round_trip, is_recurring,
+          recurring_days, pricing_type, price_per_seat, gas_estimate, cost_breakdown,
+          total_seats, available_seats, car_type, has_awd, driving_arrangement,
+          music_preference, conversation_preference, title, description,
+          special_instructions, status, series_id
+        )
+        VALUES (
+          v_series.poster_id, v_template.posting_type, v_template.start_location,
+          v_template.end_location, v_template.start_place_id, v_template.end_place_id,
+          v_template.start_community_place_id, v_template.end_community_place_id,
+          v_template.start_lat, v_template.start_lng,
+          v_template.end_lat, v_template.end_lng, v_day, v_series.departure_time, false, true,
+          v_series.recurring_days, v_template.pricing_type, v_template.price_per_seat,
+          v_template.gas_estimate, v_template.cost_breakdown, v_template.total_seats,
+          CASE WHEN v_template.posting_type = 'driver' THEN v_template.total_seats ELSE NULL END,
+          v_template.car_type, v_template.has_awd, v_template.driving_arrangement,
+          v_template.music_preference, v_template.conversation_preference, v_template.title,
+          v_template.description, v_template.special_instructions, 'active', v_series.id
+        )
+        ON CONFLICT (series_id, departure_date) WHERE series_id IS NOT NULL DO NOTHING;
+
+        GET DIAGNOSTICS v_inserted = ROW_COUNT;
+        v_created := v_created + v_inserted;
+      END IF;
+      v_day := v_day + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
@@ -0,0 +1,189 @@
+-- Community events with ride coordination
+--
+-- Members organize events (ski days, hikes, meetups) that others RSVP to, up
+-- to the event's max_participants. Rides can be linked to an event so
+-- attendees can find a carpool to it from the event page.
+--
+-- 1. community_events table
+-- 2. community_event_participants table
+-- 3. RLS
+-- 4. set_event_rsvp(): atomic RSVP that enforces the participant cap
+-- 5. Event link on rides
+
+-- 1. Events
+--
+-- current_participants is maintained by set_event_rsvp() so the cap check and
+-- the count change happen under the same row lock.
+CREATE TABLE IF NOT EXISTS community_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organizer_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 3 AND 120),
+  description TEXT CHECK (char_length(description) <= 2000),
+  event_type TEXT DEFAULT 'meetup' NOT NULL
+    CHECK (event_type IN ('ski_day', 'hike', 'meetup', 'festival', 'volunteer', 'other')),
+  event_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  location TEXT NOT NULL CHECK (char_length(location) BETWEEN 3 AND 200),
+  max_participants INTEGER DEFAULT 50 NOT NULL CHECK (max_participants BETWEEN 1 AND 500),
+  current_participants INTEGER DEFAULT 0 NOT NULL,
+  status TEXT DEFAULT 'active' NOT NULL CHECK (status IN ('active', 'cancelled')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (current_participants BETWEEN 0 AND max_participants)
+);
+
+CREATE INDEX IF NOT EXISTS idx_community_events_event_date
+  ON community_events(event_date)
+  WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_community_events_organizer_id ON community_events(organizer_id);
+
+CREATE OR REPLACE TRIGGER update_community_events_updated_at BEFORE UPDATE ON community_events FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Participants
+CREATE TABLE IF NOT EXISTS community_event_participants (
+  event_id UUID REFERENCES community_events(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (event_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_community_event_participants_user_id
+  ON community_event_participants(user_id);
+
+-- 3. RLS
+--
+-- Events and their attendee lists are visible to every signed-in member.
+-- RSVPs only go through set_event_rsvp(), so participants have no write
+-- policies.
+ALTER TABLE community_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE community_event_participants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Events are viewable by signed-in users" ON community_events
+  FOR SELECT USING ((select auth.uid()) IS NOT NULL);
+CREATE POLICY "Users can create their own events" ON community_events
+  FOR INSERT WITH CHECK ((select auth.uid()) = organizer_id AND current_participants = 0);
+CREATE POLICY "Organizers can update their events" ON community_events
+  FOR UPDATE USING ((select auth.uid()) = organizer_id);
+CREATE POLICY "Organizers can delete their events" ON community_events
+  FOR DELETE USING ((select auth.uid()) = organizer_id);
+
+CREATE POLICY "Event participants are viewable by signed-in users" ON community_event_participants
+  FOR SELECT USING ((select auth.uid()) IS NOT NULL);
+
+-- Organizers edit their events directly, but the participant count belongs to
+-- set_event_rsvp(); keep any other change to it from sticking.
+CREATE OR REPLACE FUNCTION protect_event_participant_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF current_setting('app.event_rsvp', true) IS DISTINCT FROM 'on' THEN
+    NEW.current_participants := OLD.current_participants;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE TRIGGER protect_community_event_participant_count
+  BEFORE UPDATE OF current_participants ON community_events
+  FOR EACH ROW EXECUTE FUNCTION protect_event_participant_count();
+
+-- 4. RSVP
+--
+-- Joins (p_attending = true) or leaves the event for the calling user and
+-- returns the outcome with the new participant count:
+--   ok         - the user is now attending / not attending (also when nothing changed)
+--   full       - the event has no spots left
+--   closed     - the event was cancelled or has already started
+--   not_found  - no such event
+--   forbidden  - banned users cannot RSVP
+CREATE OR REPLACE FUNCTION set_event_rsvp(p_event_id UUID, p_attending BOOLEAN)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_event community_events%ROWTYPE;
+  v_changed INTEGER;
+BEGIN
+  -- Security: Require authentication
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF COALESCE((SELECT is_banned FROM profiles WHERE id = v_uid), false) THEN
+    RETURN json_build_object('outcome', 'forbidden');
+  END IF;
+
+  -- Lock the event row so concurrent RSVPs to the same event serialize
+  SELECT * INTO v_event
+  FROM community_events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  IF v_event.id IS NULL THEN
+    RETURN json_build_object('outcome', 'not_found');
+  END IF;
+
+  IF p_attending THEN
+    IF v_event.status <> 'active' OR v_event.event_date <= NOW() THEN
+      RETURN json_build_object('outcome', 'closed');
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM community_event_participants
+      WHERE event_id = p_event_id AND user_id = v_uid
+    ) THEN
+      RETURN json_build_object(
+        'outcome', 'ok',
+        'current_participants', v_event.current_participants
+      );
+    END IF;
+
+    IF v_event.current_participants >= v_event.max_participants THEN
+      RETURN json_build_object('outcome', 'full');
+    END IF;
+
+    INSERT INTO community_event_participants (event_id, user_id)
+    VALUES (p_event_id, v_uid);
+
+    PERFORM set_config('app.event_rsvp', 'on', true);
+    UPDATE community_events
+    SET current_participants = current_participants + 1
+    WHERE id = p_event_id
+    RETURNING * INTO v_event;
+  ELSE
+    DELETE FROM community_event_participants
+    WHERE event_id = p_event_id AND user_id = v_uid;
+
+    GET DIAGNOSTICS v_changed = ROW_COUNT;
+    IF v_changed > 0 THEN
+      PERFORM set_config('app.event_rsvp', 'on', true);
+      UPDATE community_events
+      SET current_participants = current_participants - 1
+      WHERE id = p_event_id
+      RETURNING * INTO v_event;
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.event_rsvp', 'off', true);
+
+  RETURN json_build_object(
+    'outcome', 'ok',
+    'current_participants', v_event.current_participants
+  );
+END;
+$$;
+
+-- 5. Event link on rides
+--
+-- Recurring series don't carry the link over: an event happens on one date.
+ALTER TABLE rides
+  ADD COLUMN IF NOT EXISTS event_id UUID REFERENCES community_events(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rides_event_id ON rides(event_id) WHERE event_id IS NOT NULL;
+
+COMMENT ON COLUMN rides.event_id IS
+  'Community event the ride is a carpool to or from, or NULL.';
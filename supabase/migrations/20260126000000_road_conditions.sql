@@ -0,0 +1,48 @@
+-- Chain controls on the mountain corridors
+--
+-- The refresh-road-conditions cron pulls chain-control levels from the road
+-- conditions feed (libs/roadConditions) and stores the current level for each
+-- corridor. Rides crossing a corridor under chain controls their car may not
+-- meet show a warning, and the driver and confirmed passengers are emailed
+-- once per level when conditions escalate before departure.
+--
+-- 1. road_conditions table
+-- 2. road_condition_alerts table
+-- 3. RLS
+
+-- 1. Current conditions, one row per corridor
+--
+-- Levels follow Caltrans chain controls: R1 (chains or snow tires), R2 (chains
+-- unless 4WD/AWD with snow tires), R3 (chains on every vehicle).
+CREATE TABLE IF NOT EXISTS road_conditions (
+  corridor TEXT PRIMARY KEY CHECK (corridor IN ('I-80', 'US-50', 'SR-88')),
+  chain_control TEXT DEFAULT 'none' NOT NULL CHECK (chain_control IN ('none', 'R1', 'R2', 'R3')),
+  description TEXT,
+  source TEXT NOT NULL,
+  reported_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE OR REPLACE TRIGGER update_road_conditions_updated_at BEFORE UPDATE ON road_conditions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Chain-control emails already sent for a ride, one row per recipient, so
+-- each level is only announced once to each person. The cron inserts the row
+-- before sending and deletes it if the email fails.
+CREATE TABLE IF NOT EXISTS road_condition_alerts (
+  ride_id UUID REFERENCES rides(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  chain_control TEXT NOT NULL CHECK (chain_control IN ('R1', 'R2', 'R3')),
+  corridor TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (ride_id, chain_control, user_id)
+);
+
+-- 3. RLS
+--
+-- Conditions are public information. Both tables are written by the cron with
+-- the service role, so neither has write policies.
+ALTER TABLE road_conditions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE road_condition_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Road conditions are viewable by everyone" ON road_conditions
+  FOR SELECT USING (true);
@@ -0,0 +1,20 @@
+-- Trip lifecycle automation
+--
+-- The complete-past-trips cron (libs/community/tripLifecycle) marks rides
+-- completed once they have run, completes their confirmed bookings, closes
+-- requests that were never answered and queues review request emails.
+--
+-- 1. Scheduled email pickup column
+-- 2. Booking lookup index
+
+-- 1. processScheduledEmails marks rows as picked up before sending so a
+-- second run can't send them twice; the column was never created
+ALTER TABLE scheduled_emails ADD COLUMN IF NOT EXISTS picked_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_emails_due
+  ON scheduled_emails(run_after)
+  WHERE picked_at IS NULL;
+
+-- 2. Each completed ride updates its bookings by status
+CREATE INDEX IF NOT EXISTS idx_trip_bookings_ride_status
+  ON trip_bookings(ride_id, status);
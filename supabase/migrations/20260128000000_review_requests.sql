@@ -0,0 +1,20 @@
+-- Review requests for completed bookings
+--
+-- When the complete-past-trips cron completes a booking, the driver and the
+-- passenger each get a reviews_pending row and a review_request email a day
+-- later, with a reminder after a week. Submitting the review clears the row
+-- and any emails still queued for it (libs/email/reviewRequests).
+--
+-- 1. reviews_pending defaults for booking-based rows
+-- 2. One pending review per booking and reviewer
+
+-- 1. Rows come from bookings rather than conversations, so a conversation is
+-- no longer required
+ALTER TABLE reviews_pending ALTER COLUMN conversation_id DROP NOT NULL;
+ALTER TABLE reviews_pending ALTER COLUMN days_since_last_message SET DEFAULT 0;
+
+CREATE OR REPLACE TRIGGER update_reviews_pending_updated_at BEFORE UPDATE ON reviews_pending FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Lets reruns of the cron skip bookings that already have their rows
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reviews_pending_booking_user
+  ON reviews_pending(booking_id, user_id);
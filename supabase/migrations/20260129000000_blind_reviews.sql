@@ -0,0 +1,149 @@
+-- Double-blind reviews
+--
+-- A review stays hidden from everyone but its author until the other side of
+-- the booking reviews too, at which point both are revealed at once, or until
+-- the 14-day window closes. Neither reviewer can read the other's review
+-- before writing their own, so neither can retaliate.
+--
+-- 1. revealed_at column and backfill
+-- 2. Reveal scheduling, simultaneous reveal and edit lock triggers
+-- 3. RLS: hidden reviews are only visible to their author
+-- 4. Rating functions only count revealed reviews
+
+-- 1. When the review becomes visible. Set to the end of the window on insert
+-- and brought forward when the other side reviews. Existing reviews were
+-- already public.
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS revealed_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE reviews SET revealed_at = created_at WHERE revealed_at IS NULL;
+
+ALTER TABLE reviews ALTER COLUMN revealed_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_reviewee_revealed_at ON reviews(reviewee_id, revealed_at);
+
+-- 2. Reviewers can insert and update their own reviews, so revealed_at is
+-- only ever set here: new reviews get the end of the window, and later
+-- changes are ignored unless they come from reveal_booking_reviews().
+CREATE OR REPLACE FUNCTION protect_review_reveal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF current_setting('app.review_reveal', true) IS DISTINCT FROM 'on' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.revealed_at := NOW() + INTERVAL '14 days';
+    ELSE
+      NEW.revealed_at := OLD.revealed_at;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE TRIGGER protect_reviews_revealed_at
+  BEFORE INSERT OR UPDATE OF revealed_at ON reviews
+  FOR EACH ROW EXECUTE FUNCTION protect_review_reveal();
+
+-- A public review can't be rewritten, or a reviewer could read the other
+-- side's review and then change their own in answer to it
+CREATE OR REPLACE FUNCTION lock_revealed_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF OLD.revealed_at <= NOW() AND (
+    NEW.rating IS DISTINCT FROM OLD.rating
+    OR NEW.comment IS DISTINCT FROM OLD.comment
+    OR NEW.review_text IS DISTINCT FROM OLD.review_text
+  ) THEN
+    RAISE EXCEPTION 'Reviews cannot be changed once they are revealed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE TRIGGER lock_revealed_reviews
+  BEFORE UPDATE ON reviews
+  FOR EACH ROW EXECUTE FUNCTION lock_revealed_review();
+
+-- Once both sides of a booking have reviewed, reveal both reviews together.
+-- Both reviews can be inserted at once, and neither transaction would see the
+-- other's row, so each waits for any other review of the booking to commit
+-- before looking for its counterpart.
+CREATE OR REPLACE FUNCTION reveal_booking_reviews()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.booking_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.booking_id::text));
+
+  IF EXISTS (
+    SELECT 1 FROM reviews
+    WHERE booking_id = NEW.booking_id
+      AND reviewer_id = NEW.reviewee_id
+      AND reviewee_id = NEW.reviewer_id
+  ) THEN
+    PERFORM set_config('app.review_reveal', 'on', true);
+
+    UPDATE reviews
+    SET revealed_at = NOW()
+    WHERE booking_id = NEW.booking_id
+      AND revealed_at > NOW();
+
+    PERFORM set_config('app.review_reveal', 'off', true);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE TRIGGER reveal_reviews_on_second_review
+  AFTER INSERT ON reviews
+  FOR EACH ROW EXECUTE FUNCTION reveal_booking_reviews();
+
+-- 3. Hidden reviews are only visible to the person who wrote them
+DROP POLICY IF EXISTS "Reviews are public" ON reviews;
+CREATE POLICY "Revealed reviews are public" ON reviews
+  FOR SELECT USING (
+    revealed_at <= NOW() OR (select auth.uid()) = reviewer_id
+  );
+
+-- 4. Ratings
+CREATE OR REPLACE FUNCTION get_user_average_rating(user_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+  avg_rating DECIMAL;
+BEGIN
+  SELECT AVG(rating) INTO avg_rating
+  FROM reviews
+  WHERE reviewee_id = user_id
+    AND revealed_at <= NOW();
+
+  RETURN COALESCE(avg_rating, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, pg_temp;
+
+CREATE OR REPLACE FUNCTION get_user_review_count(user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  count_reviews INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO count_reviews
+  FROM reviews
+  WHERE reviewee_id = user_id
+    AND revealed_at <= NOW();
+
+  RETURN COALESCE(count_reviews, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, pg_temp;
@@ -0,0 +1,64 @@
+-- Review categories
+--
+-- Alongside the overall rating, each review scores the person on a few
+-- categories that depend on the role they were reviewed in: drivers on
+-- punctuality, driving safety, vehicle condition and communication;
+-- passengers on punctuality, respectfulness and payment.
+--
+-- 1. category_ratings column
+-- 2. Validation of category names and scores per reviewed role
+-- 3. Category scores are locked with the rest of a revealed review
+
+-- 1. Category name to score (1-5). Reviews written before categories existed
+-- keep an empty object.
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS category_ratings JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- 2. Keep in sync with REVIEW_CATEGORIES in libs/reviews.ts
+CREATE OR REPLACE FUNCTION valid_review_category_ratings(ratings JSONB, role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(ratings) <> 'object' THEN false
+    ELSE NOT EXISTS (
+      SELECT 1
+      FROM jsonb_each(ratings) AS entry(category, score)
+      WHERE entry.category <> ALL (
+          CASE role
+            WHEN 'driver' THEN ARRAY['punctuality', 'driving_safety', 'vehicle_condition', 'communication']
+            ELSE ARRAY['punctuality', 'respectfulness', 'payment']
+          END
+        )
+        OR CASE
+          WHEN jsonb_typeof(entry.score) = 'number' THEN entry.score::numeric NOT IN (1, 2, 3, 4, 5)
+          ELSE true
+        END
+    )
+  END;
+$$;
+
+ALTER TABLE reviews DROP CONSTRAINT IF EXISTS reviews_category_ratings_valid;
+ALTER TABLE reviews ADD CONSTRAINT reviews_category_ratings_valid
+  CHECK (valid_review_category_ratings(category_ratings, reviewed_role));
+
+-- 3. Same as in 20260129000000_blind_reviews.sql, now covering the categories
+CREATE OR REPLACE FUNCTION lock_revealed_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF OLD.revealed_at <= NOW() AND (
+    NEW.rating IS DISTINCT FROM OLD.rating
+    OR NEW.comment IS DISTINCT FROM OLD.comment
+    OR NEW.review_text IS DISTINCT FROM OLD.review_text
+    OR NEW.category_ratings IS DISTINCT FROM OLD.category_ratings
+  ) THEN
+    RAISE EXCEPTION 'Reviews cannot be changed once they are revealed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
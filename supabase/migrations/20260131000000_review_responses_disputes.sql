@@ -0,0 +1,144 @@
+-- Review responses and disputes
+--
+-- The person a review is about can post one public reply to it, and can
+-- dispute it with a reason. Disputes wait in an admin queue; the admin either
+-- keeps the review or hides it (reviews.status = 'hidden'). Hidden reviews
+-- drop out of profiles and ratings.
+--
+-- 1. review_responses table
+-- 2. review_disputes table
+-- 3. RLS
+-- 4. Only admins change a review's status
+-- 5. Hidden reviews are not public and do not count towards ratings
+
+-- 1. One reply per review, written by the reviewee
+CREATE TABLE IF NOT EXISTS review_responses (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  review_id UUID REFERENCES reviews(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  responder_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 1000),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 2. Disputes. A review can be disputed once; resolved disputes are kept as a
+-- record of the admin's decision.
+CREATE TABLE IF NOT EXISTS review_disputes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  review_id UUID REFERENCES reviews(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  disputer_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  reason TEXT NOT NULL CHECK (char_length(reason) BETWEEN 10 AND 1000),
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'kept', 'hidden')),
+  resolved_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_disputes_status ON review_disputes(status, created_at);
+
+CREATE OR REPLACE TRIGGER update_review_disputes_updated_at BEFORE UPDATE ON review_disputes FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. RLS
+--
+-- Replies are public. Disputes are only visible to the person who raised them
+-- and to admins, and only admins resolve them.
+ALTER TABLE review_responses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_disputes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Review responses are public" ON review_responses
+  FOR SELECT USING (true);
+CREATE POLICY "Reviewees can respond to their reviews" ON review_responses
+  FOR INSERT WITH CHECK (
+    (select auth.uid()) = responder_id
+    AND EXISTS (
+      SELECT 1 FROM reviews
+      WHERE reviews.id = review_id AND reviews.reviewee_id = (select auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can view their own disputes" ON review_disputes
+  FOR SELECT USING (
+    (select auth.uid()) = disputer_id
+    OR (select is_admin from profiles where id = (select auth.uid())) = true
+  );
+CREATE POLICY "Reviewees can dispute their reviews" ON review_disputes
+  FOR INSERT WITH CHECK (
+    (select auth.uid()) = disputer_id
+    AND status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM reviews
+      WHERE reviews.id = review_id AND reviews.reviewee_id = (select auth.uid())
+    )
+  );
+CREATE POLICY "Admins can resolve disputes" ON review_disputes
+  FOR UPDATE USING (
+    (select is_admin from profiles where id = (select auth.uid())) = true
+  );
+
+CREATE POLICY "Admins can moderate reviews" ON reviews
+  FOR UPDATE USING (
+    (select is_admin from profiles where id = (select auth.uid())) = true
+  );
+
+-- 4. Reviewers can update their own reviews, so a status change from anyone
+-- but an admin (or the service role) is ignored
+CREATE OR REPLACE FUNCTION protect_review_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND (select auth.uid()) IS NOT NULL
+    AND NOT COALESCE((select is_admin from profiles where id = (select auth.uid())), false)
+  THEN
+    NEW.status := OLD.status;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE TRIGGER protect_reviews_status
+  BEFORE UPDATE OF status ON reviews
+  FOR EACH ROW EXECUTE FUNCTION protect_review_status();
+
+-- 5. Hidden reviews stay visible to their author and to admins
+DROP POLICY IF EXISTS "Revealed reviews are public" ON reviews;
+CREATE POLICY "Revealed reviews are public" ON reviews
+  FOR SELECT USING (
+    (revealed_at <= NOW() AND status = 'active')
+    OR (select auth.uid()) = reviewer_id
+    OR (select is_admin from profiles where id = (select auth.uid())) = true
+  );
+
+CREATE OR REPLACE FUNCTION get_user_average_rating(user_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+  avg_rating DECIMAL;
+BEGIN
+  SELECT AVG(rating) INTO avg_rating
+  FROM reviews
+  WHERE reviewee_id = user_id
+    AND revealed_at <= NOW()
+    AND status = 'active';
+
+  RETURN COALESCE(avg_rating, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, pg_temp;
+
+CREATE OR REPLACE FUNCTION get_user_review_count(user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  count_reviews INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO count_reviews
+  FROM reviews
+  WHERE reviewee_id = user_id
+    AND revealed_at <= NOW()
+    AND status = 'active';
+
+  RETURN COALESCE(count_reviews, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, pg_temp;
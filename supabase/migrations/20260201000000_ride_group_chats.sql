@@ -0,0 +1,132 @@
+-- Ride group chats
+--
+-- Each ride with a confirmed booking gets one group conversation shared by the
+-- driver and every confirmed passenger. Membership is not stored: it follows
+-- trip_bookings, so a passenger joins the chat when their booking is confirmed
+-- and drops out of it when the booking is cancelled. Group conversations have
+-- no participant columns and group messages have no recipient, which keeps
+-- them out of the existing 1:1 policies and queries.
+--
+-- 1. Group conversations and recipient-less messages
+-- 2. Membership helpers
+-- 3. RLS for group chats
+-- 4. Create the group chat when a booking is confirmed
+-- 5. Keep last_message_at current for group chats
+-- 6. Backfill rides that already have confirmed bookings
+
+-- 1. Schema
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS is_group BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE conversations ALTER COLUMN participant1_id DROP NOT NULL;
+ALTER TABLE conversations ALTER COLUMN participant2_id DROP NOT NULL;
+ALTER TABLE conversations ADD CONSTRAINT conversations_participants_check CHECK (
+  (is_group AND ride_id IS NOT NULL AND participant1_id IS NULL AND participant2_id IS NULL)
+  OR (NOT is_group AND participant1_id IS NOT NULL AND participant2_id IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversations_ride_group
+  ON conversations(ride_id)
+  WHERE is_group;
+
+ALTER TABLE messages ALTER COLUMN recipient_id DROP NOT NULL;
+
+-- 2. A member is the driver or passenger of a confirmed (or completed) booking
+-- on the ride
+CREATE OR REPLACE FUNCTION is_ride_chat_member(p_ride_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF p_ride_id IS NULL OR p_user_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM trip_bookings
+    WHERE ride_id = p_ride_id
+    AND status IN ('confirmed', 'completed')
+    AND (driver_id = p_user_id OR passenger_id = p_user_id)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public, pg_temp;
+
+-- The ride a group conversation belongs to, or NULL for 1:1 conversations
+CREATE OR REPLACE FUNCTION group_chat_ride_id(p_conversation_id UUID)
+RETURNS UUID AS $$
+  SELECT ride_id FROM conversations
+  WHERE id = p_conversation_id AND is_group;
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public, pg_temp;
+
+-- 3. RLS
+CREATE POLICY "Ride members can view their group chats" ON conversations
+  FOR SELECT USING (
+    is_group AND is_ride_chat_member(ride_id, (select auth.uid()))
+  );
+
+CREATE POLICY "Ride members can view group chat messages" ON messages
+  FOR SELECT USING (
+    recipient_id IS NULL
+    AND is_ride_chat_member(group_chat_ride_id(conversation_id), (select auth.uid()))
+  );
+
+-- Messages without a recipient must go to a group chat the sender belongs to,
+-- and messages with one must not
+CREATE POLICY "Group chat messages require membership" ON messages
+  AS RESTRICTIVE
+  FOR INSERT TO authenticated WITH CHECK (
+    CASE
+      WHEN recipient_id IS NULL THEN
+        is_ride_chat_member(group_chat_ride_id(conversation_id), (select auth.uid()))
+      ELSE
+        group_chat_ride_id(conversation_id) IS NULL
+    END
+  );
+
+-- 4. Group chat creation
+CREATE OR REPLACE FUNCTION ensure_ride_group_chat()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.status = 'confirmed' THEN
+    INSERT INTO conversations (ride_id, is_group)
+    VALUES (NEW.ride_id, true)
+    ON CONFLICT (ride_id) WHERE is_group DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE TRIGGER trip_bookings_ensure_group_chat
+  AFTER INSERT OR UPDATE OF status ON trip_bookings
+  FOR EACH ROW EXECUTE FUNCTION ensure_ride_group_chat();
+
+-- 5. Members cannot update group conversations directly, so the timestamp the
+-- conversation list sorts by is bumped here
+CREATE OR REPLACE FUNCTION touch_group_chat()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.recipient_id IS NULL AND NEW.conversation_id IS NOT NULL THEN
+    UPDATE conversations
+    SET last_message_at = NEW.created_at
+    WHERE id = NEW.conversation_id AND is_group;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE TRIGGER messages_touch_group_chat
+  AFTER INSERT ON messages
+  FOR EACH ROW EXECUTE FUNCTION touch_group_chat();
+
+-- 6. Backfill
+INSERT INTO conversations (ride_id, is_group)
+SELECT DISTINCT ride_id, true
+FROM trip_bookings
+WHERE status IN ('confirmed', 'completed')
+ON CONFLICT (ride_id) WHERE is_group DO NOTHING;
@@ -0,0 +1,22 @@
+-- Realtime messaging
+--
+-- The messages page streams new messages and read receipts for the open
+-- conversation, so inserts and updates on messages have to be published to
+-- Supabase Realtime. Realtime applies the messages RLS policies before
+-- delivering a change.
+--
+-- 1. Publish messages changes
+
+-- 1. Skip if the table was already added from the dashboard
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+  END IF;
+END;
+$$;
@@ -0,0 +1,19 @@
+-- Message paging and search
+--
+-- Threads are loaded a page at a time, newest first, using (created_at, id)
+-- as the cursor. Message text is indexed for full-text search; RLS limits
+-- results to conversations the user can read.
+--
+-- 1. Index for paging a conversation
+-- 2. Full-text search column and index
+
+-- 1. Paging
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created
+  ON messages(conversation_id, created_at DESC, id DESC);
+
+-- 2. Search
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS content_search TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_content_search
+  ON messages USING GIN (content_search);
@@ -0,0 +1,31 @@
+-- Message email digests
+--
+-- New messages are no longer emailed one at a time. The first unread message
+-- queues a single `new_message` scheduled email for the recipient; anything
+-- that arrives before it goes out is rolled into the same digest. Recipients
+-- can set quiet hours, in their own timezone, during which digests are held.
+--
+-- 1. Quiet hours on user_private_info
+-- 2. One pending message digest per recipient
+
+-- 1. Quiet hours are whole hours in the member's timezone; both set or both off
+ALTER TABLE user_private_info
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'America/Los_Angeles',
+  ADD COLUMN IF NOT EXISTS quiet_hours_start SMALLINT,
+  ADD COLUMN IF NOT EXISTS quiet_hours_end SMALLINT;
+
+ALTER TABLE user_private_info DROP CONSTRAINT IF EXISTS user_private_info_quiet_hours_check;
+ALTER TABLE user_private_info ADD CONSTRAINT user_private_info_quiet_hours_check CHECK (
+  (quiet_hours_start IS NULL AND quiet_hours_end IS NULL)
+  OR (
+    quiet_hours_start BETWEEN 0 AND 23
+    AND quiet_hours_end BETWEEN 0 AND 23
+    AND quiet_hours_start <> quiet_hours_end
+  )
+);
+
+-- 2. A second message while a digest is queued hits this index and is left
+--    for the queued digest to pick up
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scheduled_emails_pending_message_digest
+  ON scheduled_emails(user_id)
+  WHERE email_type = 'new_message' AND picked_at IS NULL;
@@ -0,0 +1,133 @@
+-- In-app notifications
+--
+-- Booking requests and responses, invitations, review prompts and report
+-- outcomes land in one notifications feed behind the bell in the nav. Rows
+-- are written by the API with the service role, or by the triggers below for
+-- flows the client writes directly (reports). Members can only read their own
+-- notifications and mark them read.
+--
+-- 1. Notifications table and indexes
+-- 2. RLS policies and column grants
+-- 3. Publish inserts and updates for the unread badge
+-- 4. Report notifications
+
+-- 1. Table
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  type TEXT NOT NULL CHECK (type IN (
+    'booking_requested',
+    'booking_waitlisted',
+    'booking_confirmed',
+    'booking_declined',
+    'booking_cancelled',
+    'ride_invitation',
+    'invitation_accepted',
+    'invitation_declined',
+    'waitlist_promoted',
+    'review_requested',
+    'review_received',
+    'review_response',
+    'review_dispute_resolved',
+    'report_submitted',
+    'report_reviewed'
+  )),
+  title TEXT NOT NULL,
+  body TEXT,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+  ON notifications(user_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+  ON notifications(user_id)
+  WHERE read_at IS NULL;
+
+-- 2. Policies: no insert or delete policy, so only the service role and the
+--    SECURITY DEFINER triggers create notifications
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their notifications" ON notifications;
+CREATE POLICY "Users can view their notifications" ON notifications
+  FOR SELECT TO authenticated USING ((select auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can mark their notifications read" ON notifications;
+CREATE POLICY "Users can mark their notifications read" ON notifications
+  FOR UPDATE TO authenticated
+  USING ((select auth.uid()) = user_id)
+  WITH CHECK ((select auth.uid()) = user_id);
+
+-- Only read_at can change; the rest of the row is written by the producer
+REVOKE UPDATE ON notifications FROM authenticated;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
+
+-- 3. Skip if the table was already added from the dashboard
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END;
+$$;
+
+-- 4. Reports are filed and reviewed from the client, so their notifications
+--    are created here: admins hear about new reports, and the reporter hears
+--    back once an admin has acted on theirs
+CREATE OR REPLACE FUNCTION notify_report_submitted()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  INSERT INTO notifications (user_id, actor_id, type, title, body, data)
+  SELECT
+    p.id,
+    NEW.reporter_id,
+    'report_submitted',
+    'New report to review',
+    'A member reported someone for ' || NEW.reason || '.',
+    jsonb_build_object('report_id', NEW.id)
+  FROM profiles p
+  WHERE p.is_admin = true AND p.id <> NEW.reporter_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE TRIGGER reports_notify_submitted
+  AFTER INSERT ON reports
+  FOR EACH ROW EXECUTE FUNCTION notify_report_submitted();
+
+CREATE OR REPLACE FUNCTION notify_report_reviewed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF OLD.status = 'pending' AND NEW.status <> 'pending' THEN
+    INSERT INTO notifications (user_id, type, title, body, data)
+    VALUES (
+      NEW.reporter_id,
+      'report_reviewed',
+      'Your report was reviewed',
+      'Thanks for helping keep the community safe. Our team has reviewed your report.',
+      jsonb_build_object('report_id', NEW.id)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE TRIGGER reports_notify_reviewed
+  AFTER UPDATE OF status ON reports
+  FOR EACH ROW EXECUTE FUNCTION notify_report_reviewed();
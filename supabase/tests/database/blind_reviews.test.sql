@@ -0,0 +1,58 @@
+-- Blind review reveal and edit lock. Run with `npm run test:db` against the
+-- local Supabase stack.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(5);
+
+-- Driver and passenger; profiles are created by the auth.users trigger
+INSERT INTO auth.users (id, email, encrypted_password, role, aud) VALUES
+  ('00000000-0000-0000-0000-0000000000d1', 'driver@example.com', 'x', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-0000000000d2', 'passenger@example.com', 'x', 'authenticated', 'authenticated');
+
+INSERT INTO rides (id, poster_id, posting_type, start_location, end_location, departure_date, departure_time)
+VALUES ('10000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000d1', 'driver', 'Oakland, CA', 'Truckee, CA', CURRENT_DATE - 1, '08:00');
+
+INSERT INTO trip_bookings (id, ride_id, driver_id, passenger_id, status)
+VALUES ('30000000-0000-0000-0000-0000000000f1', '10000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000d2', 'completed');
+
+INSERT INTO reviews (id, booking_id, reviewer_id, reviewee_id, reviewer_role, reviewed_role, rating, comment)
+VALUES ('40000000-0000-0000-0000-0000000000a1', '30000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000d2', 'driver', 'passenger', 5, 'Right on time at the pickup');
+
+SELECT lives_ok(
+  $$UPDATE reviews SET rating = 4 WHERE id = '40000000-0000-0000-0000-0000000000a1'$$,
+  'a hidden review can still be edited'
+);
+
+INSERT INTO reviews (id, booking_id, reviewer_id, reviewee_id, reviewer_role, reviewed_role, rating, comment)
+VALUES ('40000000-0000-0000-0000-0000000000a2', '30000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-0000000000d2', '00000000-0000-0000-0000-0000000000d1', 'passenger', 'driver', 5, 'Careful driver over the pass');
+
+SELECT is(
+  (SELECT count(*)::int FROM reviews
+   WHERE booking_id = '30000000-0000-0000-0000-0000000000f1' AND revealed_at <= NOW()),
+  2,
+  'the second review reveals both'
+);
+
+SELECT throws_ok(
+  $$UPDATE reviews SET rating = 1 WHERE id = '40000000-0000-0000-0000-0000000000a1'$$,
+  '23514',
+  'Reviews cannot be changed once they are revealed',
+  'a revealed rating cannot be changed'
+);
+
+SELECT throws_ok(
+  $$UPDATE reviews SET comment = 'Actually they were late' WHERE id = '40000000-0000-0000-0000-0000000000a2'$$,
+  '23514',
+  'Reviews cannot be changed once they are revealed',
+  'a revealed comment cannot be changed'
+);
+
+SELECT throws_ok(
+  $$UPDATE reviews SET category_ratings = '{"punctuality": 1}' WHERE id = '40000000-0000-0000-0000-0000000000a2'$$,
+  '23514',
+  'Reviews cannot be changed once they are revealed',
+  'revealed category scores cannot be changed'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,58 @@
+-- Saved search alerts for rides geocoded after posting. Run with `npm run test:db`
+-- against the local Supabase stack.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(4);
+
+-- Poster and searcher; profiles are created by the auth.users trigger
+INSERT INTO auth.users (id, email, encrypted_password, role, aud) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'poster@example.com', 'x', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-0000000000a2', 'searcher@example.com', 'x', 'authenticated', 'authenticated');
+
+-- Rides to Truckee, from anywhere
+INSERT INTO saved_searches (id, user_id, name, destination_label, destination_lat, destination_lng, destination_radius)
+VALUES ('20000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a2', 'Truckee', 'Truckee, CA', 39.3276, -120.1834, 10);
+
+-- Posted before it has been geocoded
+INSERT INTO rides (id, poster_id, posting_type, start_location, end_location, departure_date, departure_time)
+VALUES ('10000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a1', 'driver', 'Oakland, CA', 'Truckee, CA', CURRENT_DATE + 3, '08:00');
+
+SELECT is(
+  (SELECT count(*)::int FROM saved_search_alerts WHERE ride_id = '10000000-0000-0000-0000-0000000000c1'),
+  0,
+  'a ride without coordinates does not match a location search'
+);
+
+UPDATE rides SET start_lat = 37.8044, start_lng = -122.2712, end_lat = 39.3276, end_lng = -120.1834
+WHERE id = '10000000-0000-0000-0000-0000000000c1';
+
+SELECT is(
+  (SELECT count(*)::int FROM saved_search_alerts
+   WHERE ride_id = '10000000-0000-0000-0000-0000000000c1'
+     AND saved_search_id = '20000000-0000-0000-0000-0000000000b1'),
+  1,
+  'geocoding the ride after insert queues the alert'
+);
+
+-- Geocoding the destination again must not alert the same search twice
+UPDATE rides SET end_lat = NULL, end_lng = NULL WHERE id = '10000000-0000-0000-0000-0000000000c1';
+UPDATE rides SET end_lat = 39.32, end_lng = -120.14 WHERE id = '10000000-0000-0000-0000-0000000000c1';
+
+SELECT is(
+  (SELECT count(*)::int FROM saved_search_alerts WHERE ride_id = '10000000-0000-0000-0000-0000000000c1'),
+  1,
+  'alerts stay unique per search and ride'
+);
+
+-- Moving coordinates that were already set is not a geocode
+DELETE FROM saved_search_alerts WHERE ride_id = '10000000-0000-0000-0000-0000000000c1';
+UPDATE rides SET end_lat = 39.33, end_lng = -120.18 WHERE id = '10000000-0000-0000-0000-0000000000c1';
+
+SELECT is(
+  (SELECT count(*)::int FROM saved_search_alerts WHERE ride_id = '10000000-0000-0000-0000-0000000000c1'),
+  0,
+  'changing existing coordinates does not queue alerts'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -111,6 +111,11 @@ export interface Database {
           start_lng: number | null;
           end_lat: number | null;
           end_lng: number | null;
+          start_place_id: string | null;
+          end_place_id: string | null;
+          start_community_place_id: string | null;
+          end_community_place_id: string | null;
+          event_id: string | null;
           trip_direction: string | null;
           round_trip_group_id: string | null;
           is_recurring: boolean | null;
@@ -118,6 +123,7 @@ export interface Database {
           pricing_type: string | null;
           price_per_seat: number | null;
           gas_estimate: number | null;
+          cost_breakdown: Json | null;
           total_seats: number | null;
           car_type: string | null;
           has_awd: boolean | null;
@@ -131,6 +137,8 @@ export interface Database {
           return_date: string | null;
           return_time: string | null;
           is_round_trip: boolean | null;
+          series_id: string | null;
+          is_series_exception: boolean;
         };
         Insert: {
           id: string;
@@ -146,6 +154,11 @@ export interface Database {
           start_lng?: number | null;
           end_lat?: number | null;
           end_lng?: number | null;
+          start_place_id?: string | null;
+          end_place_id?: string | null;
+          start_community_place_id?: string | null;
+          end_community_place_id?: string | null;
+          event_id?: string | null;
           trip_direction?: string | null;
           round_trip_group_id?: string | null;
           is_recurring?: boolean | null;
@@ -153,6 +166,7 @@ export interface Database {
           pricing_type?: string | null;
           price_per_seat?: number | null;
           gas_estimate?: number | null;
+          cost_breakdown?: Json | null;
           total_seats?: number | null;
           car_type?: string | null;
           has_awd?: boolean | null;
@@ -166,6 +180,8 @@ export interface Database {
           return_date?: string | null;
           return_time?: string | null;
           is_round_trip?: boolean | null;
+          series_id?: string | null;
+          is_series_exception?: boolean;
         };
         Update: {
           id?: string;
@@ -181,6 +197,11 @@ export interface Database {
           start_lng?: number | null;
           end_lat?: number | null;
           end_lng?: number | null;
+          start_place_id?: string | null;
+          end_place_id?: string | null;
+          start_community_place_id?: string | null;
+          end_community_place_id?: string | null;
+          event_id?: string | null;
           trip_direction?: string | null;
           round_trip_group_id?: string | null;
           is_recurring?: boolean | null;
@@ -188,6 +209,7 @@ export interface Database {
           pricing_type?: string | null;
           price_per_seat?: number | null;
           gas_estimate?: number | null;
+          cost_breakdown?: Json | null;
           total_seats?: number | null;
           car_type?: string | null;
           has_awd?: boolean | null;
@@ -201,6 +223,8 @@ export interface Database {
           return_date?: string | null;
           return_time?: string | null;
           is_round_trip?: boolean | null;
+          series_id?: string | null;
+          is_series_exception?: boolean;
         };
         Relationships: [
           {
@@ -209,6 +233,58 @@ export interface Database {
             referencedRelation: 'profiles';
             referencedColumns: ['id'];
           },
+          {
+            foreignKeyName: 'rides_series_id_fkey';
+            columns: ['series_id'];
+            referencedRelation: 'ride_series';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      ride_series: {
+        Row: {
+          id: string;
+          poster_id: string;
+          recurring_days: string[];
+          departure_time: string;
+          starts_on: string;
+          ends_on: string | null;
+          weeks_ahead: number;
+          status: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          poster_id: string;
+          recurring_days: string[];
+          departure_time: string;
+          starts_on: string;
+          ends_on?: string | null;
+          weeks_ahead?: number;
+          status?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          poster_id?: string;
+          recurring_days?: string[];
+          departure_time?: string;
+          starts_on?: string;
+          ends_on?: string | null;
+          weeks_ahead?: number;
+          status?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'ride_series_poster_id_fkey';
+            columns: ['poster_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
         ];
       };
       trip_bookings: {
@@ -218,8 +294,15 @@ export interface Database {
           driver_id: string;
           passenger_id: string;
           pickup_location: string | null;
+          pickup_lat: number | null;
+          pickup_lng: number | null;
+          pickup_community_place_id: string | null;
           pickup_time: string | null;
+          proposed_pickup_time: string | null;
           status: string;
+          seats_requested: number;
+          seats_confirmed: number | null;
+          waitlisted_at: string | null;
           driver_notes: string | null;
           passenger_notes: string | null;
           confirmed_at: string | null;
@@ -232,8 +315,15 @@ export interface Database {
           driver_id: string;
           passenger_id: string;
           pickup_location?: string | null;
+          pickup_lat?: number | null;
+          pickup_lng?: number | null;
+          pickup_community_place_id?: string | null;
           pickup_time?: string | null;
+          proposed_pickup_time?: string | null;
           status?: string;
+          seats_requested?: number;
+          seats_confirmed?: number | null;
+          waitlisted_at?: string | null;
           driver_notes?: string | null;
           passenger_notes?: string | null;
           confirmed_at?: string | null;
@@ -246,8 +336,15 @@ export interface Database {
           driver_id?: string;
           passenger_id?: string;
           pickup_location?: string | null;
+          pickup_lat?: number | null;
+          pickup_lng?: number | null;
+          pickup_community_place_id?: string | null;
           pickup_time?: string | null;
+          proposed_pickup_time?: string | null;
           status?: string;
+          seats_requested?: number;
+          seats_confirmed?: number | null;
+          waitlisted_at?: string | null;
           driver_notes?: string | null;
           passenger_notes?: string | null;
           confirmed_at?: string | null;
@@ -287,6 +384,7 @@ export interface Database {
           created_at: string;
           updated_at: string;
           drivetrain: string | null;
+          mpg: number | null;
         };
         Insert: {
           id?: string;
@@ -299,6 +397,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           drivetrain?: string | null;
+          mpg?: number | null;
         };
         Update: {
           id?: string;
@@ -311,6 +410,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           drivetrain?: string | null;
+          mpg?: number | null;
         };
         Relationships: [
           {
@@ -321,6 +421,119 @@ export interface Database {
           },
         ];
       };
+      saved_searches: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          departure_label: string | null;
+          departure_lat: number | null;
+          departure_lng: number | null;
+          departure_radius: number | null;
+          destination_label: string | null;
+          destination_lat: number | null;
+          destination_lng: number | null;
+          destination_radius: number | null;
+          date_from: string | null;
+          date_to: string | null;
+          posting_type: string | null;
+          requires_awd: boolean;
+          status: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          departure_label?: string | null;
+          departure_lat?: number | null;
+          departure_lng?: number | null;
+          departure_radius?: number | null;
+          destination_label?: string | null;
+          destination_lat?: number | null;
+          destination_lng?: number | null;
+          destination_radius?: number | null;
+          date_from?: string | null;
+          date_to?: string | null;
+          posting_type?: string | null;
+          requires_awd?: boolean;
+          status?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          departure_label?: string | null;
+          departure_lat?: number | null;
+          departure_lng?: number | null;
+          departure_radius?: number | null;
+          destination_label?: string | null;
+          destination_lat?: number | null;
+          destination_lng?: number | null;
+          destination_radius?: number | null;
+          date_from?: string | null;
+          date_to?: string | null;
+          posting_type?: string | null;
+          requires_awd?: boolean;
+          status?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'saved_searches_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      saved_search_alerts: {
+        Row: {
+          id: string;
+          saved_search_id: string;
+          user_id: string;
+          ride_id: string;
+          emailed_at: string | null;
+          read_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          saved_search_id: string;
+          user_id: string;
+          ride_id: string;
+          emailed_at?: string | null;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          saved_search_id?: string;
+          user_id?: string;
+          ride_id?: string;
+          emailed_at?: string | null;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'saved_search_alerts_saved_search_id_fkey';
+            columns: ['saved_search_id'];
+            referencedRelation: 'saved_searches';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'saved_search_alerts_ride_id_fkey';
+            columns: ['ride_id'];
+            referencedRelation: 'rides';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       user_consents: {
         Row: {
           id: string;
@@ -361,6 +574,9 @@ export interface Database {
           emergency_contact_name: string | null;
           emergency_contact_number: string | null;
           emergency_contact_email: string | null;
+          timezone: string;
+          quiet_hours_start: number | null;
+          quiet_hours_end: number | null;
           created_at: string;
           updated_at: string;
         };
@@ -373,6 +589,9 @@ export interface Database {
           emergency_contact_name?: string | null;
           emergency_contact_number?: string | null;
           emergency_contact_email?: string | null;
+          timezone?: string;
+          quiet_hours_start?: number | null;
+          quiet_hours_end?: number | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -385,6 +604,9 @@ export interface Database {
           emergency_contact_name?: string | null;
           emergency_contact_number?: string | null;
           emergency_contact_email?: string | null;
+          timezone?: string;
+          quiet_hours_start?: number | null;
+          quiet_hours_end?: number | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -489,27 +711,30 @@ export interface Database {
       conversations: {
         Row: {
           id: string;
-          participant1_id: string;
-          participant2_id: string;
+          participant1_id: string | null;
+          participant2_id: string | null;
           ride_id: string | null;
+          is_group: boolean;
           last_message_at: string;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
-          participant1_id: string;
-          participant2_id: string;
+          participant1_id: string | null;
+          participant2_id: string | null;
           ride_id?: string | null;
+          is_group?: boolean;
           last_message_at?: string;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
-          participant1_id?: string;
-          participant2_id?: string;
+          participant1_id?: string | null;
+          participant2_id?: string | null;
           ride_id?: string | null;
+          is_group?: boolean;
           last_message_at?: string;
           created_at?: string;
           updated_at?: string;
@@ -520,19 +745,20 @@ export interface Database {
         Row: {
           id: string;
           sender_id: string;
-          recipient_id: string;
+          recipient_id: string | null;
           ride_id: string | null;
           conversation_id: string | null;
           subject: string | null;
           content: string;
           is_read: boolean;
+          content_search: unknown;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
           sender_id: string;
-          recipient_id: string;
+          recipient_id: string | null;
           ride_id?: string | null;
           conversation_id?: string | null;
           subject?: string | null;
@@ -544,7 +770,7 @@ export interface Database {
         Update: {
           id?: string;
           sender_id?: string;
-          recipient_id?: string;
+          recipient_id?: string | null;
           ride_id?: string | null;
           conversation_id?: string | null;
           subject?: string | null;
@@ -563,12 +789,14 @@ export interface Database {
           conversation_id: string | null;
           booking_id: string | null;
           rating: number;
+          category_ratings: { [category: string]: number };
           review_text: string | null;
           reviewer_role: 'driver' | 'passenger';
           reviewed_role: 'driver' | 'passenger';
           status: 'active' | 'hidden' | 'deleted';
           is_pending: boolean;
           review_trigger_date: string | null;
+          revealed_at: string;
           created_at: string;
           updated_at: string;
         };
@@ -579,12 +807,14 @@ export interface Database {
           conversation_id?: string | null;
           booking_id?: string | null;
           rating: number;
+          category_ratings?: { [category: string]: number };
           review_text?: string | null;
           reviewer_role: 'driver' | 'passenger';
           reviewed_role: 'driver' | 'passenger';
           status?: 'active' | 'hidden' | 'deleted';
           is_pending?: boolean;
           review_trigger_date?: string | null;
+          revealed_at?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -595,12 +825,119 @@ export interface Database {
           conversation_id?: string | null;
           booking_id?: string | null;
           rating?: number;
+          category_ratings?: { [category: string]: number };
           review_text?: string | null;
           reviewer_role?: 'driver' | 'passenger';
           reviewed_role?: 'driver' | 'passenger';
           status?: 'active' | 'hidden' | 'deleted';
           is_pending?: boolean;
           review_trigger_date?: string | null;
+          revealed_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      reviews_pending: {
+        Row: {
+          id: string;
+          user_id: string;
+          conversation_id: string | null;
+          other_participant_id: string;
+          booking_id: string | null;
+          role: 'driver' | 'passenger';
+          other_role: 'driver' | 'passenger';
+          days_since_last_message: number;
+          is_notified: boolean;
+          notification_sent_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          conversation_id?: string | null;
+          other_participant_id: string;
+          booking_id?: string | null;
+          role: 'driver' | 'passenger';
+          other_role: 'driver' | 'passenger';
+          days_since_last_message?: number;
+          is_notified?: boolean;
+          notification_sent_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          conversation_id?: string | null;
+          other_participant_id?: string;
+          booking_id?: string | null;
+          role?: 'driver' | 'passenger';
+          other_role?: 'driver' | 'passenger';
+          days_since_last_message?: number;
+          is_notified?: boolean;
+          notification_sent_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      review_responses: {
+        Row: {
+          id: string;
+          review_id: string;
+          responder_id: string;
+          body: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          review_id: string;
+          responder_id: string;
+          body: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          review_id?: string;
+          responder_id?: string;
+          body?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      review_disputes: {
+        Row: {
+          id: string;
+          review_id: string;
+          disputer_id: string;
+          reason: string;
+          status: 'pending' | 'kept' | 'hidden';
+          resolved_by: string | null;
+          resolved_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          review_id: string;
+          disputer_id: string;
+          reason: string;
+          status?: 'pending' | 'kept' | 'hidden';
+          resolved_by?: string | null;
+          resolved_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          review_id?: string;
+          disputer_id?: string;
+          reason?: string;
+          status?: 'pending' | 'kept' | 'hidden';
+          resolved_by?: string | null;
+          resolved_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -690,14 +1027,319 @@ export interface Database {
         };
         Relationships: [];
       };
+      geocode_cache: {
+        Row: {
+          query_key: string;
+          query: string;
+          lat: number | null;
+          lng: number | null;
+          display_name: string | null;
+          provider: string;
+          created_at: string;
+        };
+        Insert: {
+          query_key: string;
+          query: string;
+          lat?: number | null;
+          lng?: number | null;
+          display_name?: string | null;
+          provider: string;
+          created_at?: string;
+        };
+        Update: {
+          query_key?: string;
+          query?: string;
+          lat?: number | null;
+          lng?: number | null;
+          display_name?: string | null;
+          provider?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      ride_geocode_jobs: {
+        Row: {
+          ride_id: string;
+          queued_at: string;
+          attempts: number;
+          last_attempted_at: string | null;
+        };
+        Insert: {
+          ride_id: string;
+          queued_at?: string;
+          attempts?: number;
+          last_attempted_at?: string | null;
+        };
+        Update: {
+          ride_id?: string;
+          queued_at?: string;
+          attempts?: number;
+          last_attempted_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'ride_geocode_jobs_ride_id_fkey';
+            columns: ['ride_id'];
+            referencedRelation: 'rides';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      community_places: {
+        Row: {
+          id: string;
+          name: string;
+          place_type: string;
+          description: string | null;
+          address: string;
+          lat: number | null;
+          lng: number | null;
+          parking_notes: string | null;
+          winter_access: string;
+          photo_urls: string[];
+          status: string;
+          created_by: string | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          place_type: string;
+          description?: string | null;
+          address: string;
+          lat?: number | null;
+          lng?: number | null;
+          parking_notes?: string | null;
+          winter_access?: string;
+          photo_urls?: string[];
+          status?: string;
+          created_by?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          place_type?: string;
+          description?: string | null;
+          address?: string;
+          lat?: number | null;
+          lng?: number | null;
+          parking_notes?: string | null;
+          winter_access?: string;
+          photo_urls?: string[];
+          status?: string;
+          created_by?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      community_events: {
+        Row: {
+          id: string;
+          organizer_id: string;
+          title: string;
+          description: string | null;
+          event_type: string;
+          event_date: string;
+          location: string;
+          max_participants: number;
+          current_participants: number;
+          status: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          organizer_id: string;
+          title: string;
+          description?: string | null;
+          event_type?: string;
+          event_date: string;
+          location: string;
+          max_participants?: number;
+          current_participants?: number;
+          status?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          organizer_id?: string;
+          title?: string;
+          description?: string | null;
+          event_type?: string;
+          event_date?: string;
+          location?: string;
+          max_participants?: number;
+          current_participants?: number;
+          status?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      community_event_participants: {
+        Row: {
+          event_id: string;
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          event_id: string;
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          event_id?: string;
+          user_id?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      road_conditions: {
+        Row: {
+          corridor: string;
+          chain_control: string;
+          description: string | null;
+          source: string;
+          reported_at: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          corridor: string;
+          chain_control?: string;
+          description?: string | null;
+          source: string;
+          reported_at?: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          corridor?: string;
+          chain_control?: string;
+          description?: string | null;
+          source?: string;
+          reported_at?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      road_condition_alerts: {
+        Row: {
+          ride_id: string;
+          user_id: string;
+          chain_control: string;
+          corridor: string;
+          created_at: string | null;
+        };
+        Insert: {
+          ride_id: string;
+          user_id: string;
+          chain_control: string;
+          corridor: string;
+          created_at?: string | null;
+        };
+        Update: {
+          ride_id?: string;
+          user_id?: string;
+          chain_control?: string;
+          corridor?: string;
+          created_at?: string | null;
+        };
+        Relationships: [];
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          actor_id: string | null;
+          type: string;
+          title: string;
+          body: string | null;
+          data: Json;
+          read_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          actor_id?: string | null;
+          type: string;
+          title: string;
+          body?: string | null;
+          data?: Json;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          actor_id?: string | null;
+          type?: string;
+          title?: string;
+          body?: string | null;
+          data?: Json;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
     };
     Views: {
       // eslint-disable-next-line no-unused-vars
       [_ in never]: never;
     };
     Functions: {
-      // eslint-disable-next-line no-unused-vars
-      [_ in never]: never;
+      reserve_trip_seat: {
+        Args: {
+          p_ride_id: string;
+          p_passenger_id: string;
+          p_next_status: 'invited' | 'confirmed' | 'cancelled';
+          p_pickup_location?: string | null;
+          p_pickup_time?: string | null;
+          p_driver_notes?: string | null;
+          p_seats?: number | null;
+        };
+        Returns: Json;
+      };
+      materialize_ride_series: {
+        Args: {
+          p_series_id?: string | null;
+        };
+        Returns: number;
+      };
+      update_ride_series_occurrences: {
+        Args: {
+          p_series_id: string;
+          p_from_date: string;
+          p_updates: Json;
+        };
+        Returns: number;
+      };
+      set_event_rsvp: {
+        Args: {
+          p_event_id: string;
+          p_attending: boolean;
+        };
+        Returns: Json;
+      };
+      get_waitlist_positions: {
+        Args: {
+          p_booking_ids: string[];
+        };
+        Returns: {
+          booking_id: string;
+          waitlist_position: number;
+        }[];
+      };
     };
     Enums: {
       // eslint-disable-next-line no-unused-vars